@@ -109,6 +109,14 @@ export default defineConfig({
                                     label: 'Inventory & Items',
                                     slug: 'guides/inventory-and-items',
                                 },
+                                {
+                                    label: 'Shops',
+                                    slug: 'guides/shops',
+                                },
+                                {
+                                    label: 'Factions & Reputation',
+                                    slug: 'guides/factions',
+                                },
                                 {
                                     label: 'Dice & Randomness',
                                     slug: 'guides/dice-and-randomness',
@@ -117,6 +125,14 @@ export default defineConfig({
                                     label: 'Interludes',
                                     slug: 'guides/interludes',
                                 },
+                                {
+                                    label: 'Timed Events',
+                                    slug: 'guides/timed-events',
+                                },
+                                {
+                                    label: 'Calendar',
+                                    slug: 'guides/calendar',
+                                },
                                 {
                                     label: 'Player Notes',
                                     slug: 'guides/player-notes',
@@ -164,6 +180,10 @@ export default defineConfig({
                                     label: 'Content Validation',
                                     slug: 'guides/content-validation',
                                 },
+                                {
+                                    label: 'Playthrough Tests',
+                                    slug: 'guides/playthrough-tests',
+                                },
                                 {
                                     label: 'Save & Load',
                                     slug: 'guides/save-and-load',
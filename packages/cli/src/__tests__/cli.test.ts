@@ -5,13 +5,27 @@ const create = vi.hoisted(() => vi.fn(async () => {}));
 const dev = vi.hoisted(() => vi.fn(async () => {}));
 const build = vi.hoisted(() => vi.fn(async () => {}));
 const validate = vi.hoisted(() => vi.fn(async () => {}));
+const test = vi.hoisted(() => vi.fn(async () => {}));
+const coverage = vi.hoisted(() => vi.fn(async () => {}));
 const theme = vi.hoisted(() => vi.fn(async () => {}));
+const localeExport = vi.hoisted(() => vi.fn(async () => {}));
+const localeExtract = vi.hoisted(() => vi.fn(async () => {}));
+const localeImport = vi.hoisted(() => vi.fn(async () => {}));
+const localeReport = vi.hoisted(() => vi.fn(async () => {}));
 
 vi.mock('../create', () => ({ create }));
 vi.mock('../commands/dev', () => ({ dev }));
 vi.mock('../commands/build', () => ({ build }));
 vi.mock('../commands/validate', () => ({ validate }));
+vi.mock('../commands/test', () => ({ test }));
+vi.mock('../commands/coverage', () => ({ coverage }));
 vi.mock('../commands/theme', () => ({ theme }));
+vi.mock('../commands/locale', () => ({
+    localeExport,
+    localeExtract,
+    localeImport,
+    localeReport,
+}));
 
 import { createCli, runCli } from '../cli';
 
@@ -29,7 +43,10 @@ describe('CLI program', () => {
             'dev',
             'build',
             'validate',
+            'test',
+            'coverage',
             'theme',
+            'locale',
         ]);
     });
 
@@ -38,12 +55,61 @@ describe('CLI program', () => {
         await runCli(['node', 'doodle-engine', 'dev']);
         await runCli(['node', 'doodle-engine', 'build']);
         await runCli(['node', 'doodle-engine', 'validate']);
+        await runCli(['node', 'doodle-engine', 'test']);
+        await runCli([
+            'node',
+            'doodle-engine',
+            'test',
+            'playthroughs/intro.yaml',
+        ]);
+        await runCli(['node', 'doodle-engine', 'test', '--coverage']);
+        await runCli(['node', 'doodle-engine', 'coverage']);
         await runCli(['node', 'doodle-engine', 'theme', 'prose']);
+        await runCli([
+            'node',
+            'doodle-engine',
+            'locale',
+            'export',
+            '--lang',
+            'sv',
+            '--format',
+            'po',
+        ]);
+        await runCli([
+            'node',
+            'doodle-engine',
+            'locale',
+            'import',
+            'translations/sv.po',
+        ]);
+        await runCli(['node', 'doodle-engine', 'locale', 'report']);
+        await runCli([
+            'node',
+            'doodle-engine',
+            'locale',
+            'extract',
+            '--dry-run',
+        ]);
 
         expect(create).toHaveBeenCalledWith('story');
         expect(dev).toHaveBeenCalledOnce();
         expect(build).toHaveBeenCalledOnce();
         expect(validate).toHaveBeenCalledOnce();
+        expect(test).toHaveBeenNthCalledWith(1, [], {});
+        expect(test).toHaveBeenNthCalledWith(
+            2,
+            ['playthroughs/intro.yaml'],
+            {}
+        );
+        expect(test).toHaveBeenNthCalledWith(3, [], { coverage: true });
+        expect(coverage).toHaveBeenCalledOnce();
         expect(theme).toHaveBeenCalledWith('prose');
+        expect(localeExport).toHaveBeenCalledWith({
+            lang: 'sv',
+            format: 'po',
+        });
+        expect(localeImport).toHaveBeenCalledWith('translations/sv.po', {});
+        expect(localeReport).toHaveBeenCalledWith({});
+        expect(localeExtract).toHaveBeenCalledWith({ dryRun: true });
     });
 });
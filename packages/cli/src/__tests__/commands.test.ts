@@ -6,26 +6,66 @@ const loadContent = vi.hoisted(() => vi.fn());
 const validateContent = vi.hoisted(() => vi.fn());
 const printValidationErrors = vi.hoisted(() => vi.fn());
 const switchRendererTheme = vi.hoisted(() => vi.fn());
+const runPlaythroughs = vi.hoisted(() => vi.fn());
+const printPlaythroughResults = vi.hoisted(() => vi.fn());
+const recordCoverage = vi.hoisted(() => vi.fn());
+const coverageReport = vi.hoisted(() => vi.fn());
+const printCoverage = vi.hoisted(() => vi.fn());
+const exportTranslations = vi.hoisted(() => vi.fn());
+const extractLocaleKeys = vi.hoisted(() => vi.fn());
+const importTranslations = vi.hoisted(() => vi.fn());
+const translationReport = vi.hoisted(() => vi.fn());
+const printTranslationReports = vi.hoisted(() => vi.fn());
+const files = vi.hoisted(() => ({
+    mkdir: vi.fn(async () => undefined),
+    readFile: vi.fn(async () => ''),
+    writeFile: vi.fn(async () => undefined),
+}));
 const isRendererTemplate = vi.hoisted(
     () => (value: string) =>
         ['minimal', 'starter-rpg', 'prose', 'fable'].includes(value)
 );
+const blockingErrors = vi.hoisted(
+    () => (problems: { severity?: string }[]) =>
+        problems.filter((problem) => problem.severity !== 'warning')
+);
 
 vi.mock('@doodle-engine/toolkit', () => ({
     buildProject,
     startDevServer,
     loadContent,
     validateContent,
+    blockingErrors,
     switchRendererTheme,
     isRendererTemplate,
+    runPlaythroughs,
+    recordCoverage,
+    coverageReport,
+    exportTranslations,
+    extractLocaleKeys,
+    importTranslations,
+    translationReport,
+    COVERAGE_FILE: 'metadata/coverage.json',
     RENDERER_TEMPLATES: ['minimal', 'starter-rpg', 'prose', 'fable'],
 }));
 vi.mock('../print-validation', () => ({ printValidationErrors }));
+vi.mock('../print-playthroughs', () => ({ printPlaythroughResults }));
+vi.mock('../print-coverage', () => ({ printCoverage }));
+vi.mock('../print-translations', () => ({ printTranslationReports }));
+vi.mock('fs/promises', () => files);
 
 import { build } from '../commands/build';
 import { dev } from '../commands/dev';
 import { validate } from '../commands/validate';
 import { theme } from '../commands/theme';
+import { test } from '../commands/test';
+import { coverage } from '../commands/coverage';
+import {
+    localeExport,
+    localeExtract,
+    localeImport,
+    localeReport,
+} from '../commands/locale';
 
 const exitError = new Error('process exited');
 
@@ -43,6 +83,17 @@ describe('CLI command adapters', () => {
         validateContent.mockReset();
         printValidationErrors.mockReset();
         switchRendererTheme.mockReset();
+        runPlaythroughs.mockReset();
+        printPlaythroughResults.mockReset();
+        recordCoverage.mockReset();
+        coverageReport.mockReset();
+        printCoverage.mockReset();
+        exportTranslations.mockReset();
+        extractLocaleKeys.mockReset();
+        importTranslations.mockReset();
+        translationReport.mockReset();
+        printTranslationReports.mockReset();
+        files.writeFile.mockClear();
     });
 
     afterEach(() => vi.restoreAllMocks());
@@ -123,6 +174,16 @@ describe('CLI command adapters', () => {
         );
         expect(process.exit).not.toHaveBeenCalled();
 
+        const warning = {
+            file: 'talk.dlg',
+            message: 'never reached',
+            severity: 'warning',
+        };
+        validateContent.mockReturnValueOnce([warning]);
+        await validate();
+        expect(printValidationErrors).toHaveBeenLastCalledWith([warning]);
+        expect(process.exit).not.toHaveBeenCalled();
+
         const parseError = { file: 'bad.dlg', message: 'parse error' };
         const validationError = { file: 'game.yaml', message: 'invalid' };
         loadContent.mockResolvedValueOnce({
@@ -148,6 +209,71 @@ describe('CLI command adapters', () => {
         );
     });
 
+    it('plays the playthroughs and fails when one does', async () => {
+        const passed = { name: 'Intro', file: 'a.yaml', stepsRun: 2 };
+        runPlaythroughs.mockResolvedValue({
+            results: [{ ...passed, failure: null }],
+            errors: [],
+        });
+        await test(['playthroughs/intro.yaml']);
+        expect(runPlaythroughs).toHaveBeenCalledWith('C:/games/story', [
+            'playthroughs/intro.yaml',
+        ]);
+        expect(printPlaythroughResults).toHaveBeenCalledOnce();
+        expect(recordCoverage).not.toHaveBeenCalled();
+        expect(process.exit).not.toHaveBeenCalled();
+
+        const failure = { step: 2, message: 'no', file: 'a.dlg', trace: [] };
+        runPlaythroughs.mockResolvedValueOnce({
+            results: [{ ...passed, failure }],
+            errors: [],
+        });
+        await expect(test()).rejects.toBe(exitError);
+
+        const errors = [{ file: 'bad.yaml', message: 'unreadable' }];
+        runPlaythroughs.mockResolvedValueOnce({ results: [], errors });
+        await expect(test()).rejects.toBe(exitError);
+        expect(printValidationErrors).toHaveBeenCalledWith(errors);
+    });
+
+    it('adds a run to the coverage file, even when a playthrough fails', async () => {
+        const run = { sessions: 1, dialogues: {}, interludes: {} };
+        runPlaythroughs.mockResolvedValue({
+            results: [
+                {
+                    name: 'Intro',
+                    file: 'a.yaml',
+                    stepsRun: 2,
+                    failure: { step: 2, message: 'no', file: 'a.dlg' },
+                },
+            ],
+            errors: [],
+            coverage: run,
+        });
+        await expect(test([], { coverage: true })).rejects.toBe(exitError);
+        expect(recordCoverage).toHaveBeenCalledWith('C:/games/story', run);
+    });
+
+    it('reports coverage and content that does not load', async () => {
+        const summary = { sessions: 2, dialogues: [] };
+        coverageReport.mockResolvedValueOnce({ summary, errors: [] });
+        await coverage();
+        expect(coverageReport).toHaveBeenCalledWith('C:/games/story');
+        expect(printCoverage).toHaveBeenCalledWith(summary);
+
+        const errors = [{ file: 'bad.dlg', message: 'broken' }];
+        coverageReport.mockResolvedValueOnce({ summary: null, errors });
+        await expect(coverage()).rejects.toBe(exitError);
+        expect(printValidationErrors).toHaveBeenCalledWith(errors);
+
+        coverageReport.mockRejectedValueOnce(new Error('not coverage'));
+        await expect(coverage()).rejects.toBe(exitError);
+        expect(console.error).toHaveBeenCalledWith(
+            expect.stringContaining('Error reading coverage:'),
+            expect.any(Error)
+        );
+    });
+
     it('switches the current project renderer theme', async () => {
         switchRendererTheme.mockResolvedValue({
             previousTemplate: 'starter-rpg',
@@ -177,4 +303,108 @@ describe('CLI command adapters', () => {
             'custom CSS'
         );
     });
+
+    it('extracts inline text and says when a dry run wrote nothing', async () => {
+        const extraction = {
+            locale: 'en',
+            localeFile: 'content/locales/en.yaml',
+            keys: [
+                {
+                    key: 'location.tavern.name',
+                    text: 'Tavern',
+                    file: 'content/locations/tavern.yaml',
+                },
+            ],
+            files: ['content/locations/tavern.yaml'],
+            errors: [],
+        };
+        extractLocaleKeys.mockResolvedValueOnce(extraction);
+        await localeExtract({ dryRun: true });
+        expect(extractLocaleKeys).toHaveBeenCalledWith('C:/games/story', {
+            dryRun: true,
+        });
+        expect(console.log).toHaveBeenCalledWith(
+            expect.stringContaining(
+                'Would add 1 key from 1 file to content/locales/en.yaml'
+            )
+        );
+
+        extractLocaleKeys.mockResolvedValueOnce({ ...extraction, keys: [] });
+        await localeExtract();
+        expect(console.log).toHaveBeenCalledWith(
+            expect.stringContaining('No inline text left to extract.')
+        );
+    });
+
+    it('exports a locale to translations/ by default', async () => {
+        const report = {
+            sourceLocale: 'en',
+            locale: 'sv',
+            untranslated: ['greeting'],
+            stale: [],
+        };
+        exportTranslations.mockResolvedValueOnce({
+            text: 'msgid ""',
+            report,
+            errors: [],
+        });
+
+        await localeExport({ lang: 'sv', format: 'po' });
+
+        expect(exportTranslations).toHaveBeenCalledWith('C:/games/story', {
+            locale: 'sv',
+            format: 'po',
+        });
+        expect(files.writeFile).toHaveBeenCalledWith(
+            expect.stringMatching(/translations[\\/]sv\.po$/),
+            'msgid ""'
+        );
+        expect(printTranslationReports).toHaveBeenCalledWith([report]);
+
+        await expect(localeExport({ lang: 'sv', format: 'csv' })).rejects.toBe(
+            exitError
+        );
+    });
+
+    it('imports a translated file by its extension', async () => {
+        importTranslations.mockResolvedValueOnce({
+            locale: 'sv',
+            file: 'content/locales/sv.yaml',
+            imported: ['greeting'],
+            outdated: ['farewell'],
+            unknown: [],
+            report: null,
+            errors: [],
+        });
+
+        await localeImport('translations/sv.xlf');
+
+        expect(importTranslations).toHaveBeenCalledWith('C:/games/story', '', {
+            format: 'xliff',
+            locale: undefined,
+        });
+        expect(console.log).toHaveBeenCalledWith(
+            expect.stringContaining('Imported 1 translation into')
+        );
+        expect(console.log).toHaveBeenCalledWith(
+            expect.stringContaining('changed since the export: farewell')
+        );
+
+        await expect(localeImport('sv.txt')).rejects.toBe(exitError);
+    });
+
+    it('reports every locale and content that does not load', async () => {
+        translationReport.mockResolvedValueOnce({ reports: [], errors: [] });
+        await localeReport();
+        expect(translationReport).toHaveBeenCalledWith(
+            'C:/games/story',
+            undefined
+        );
+        expect(printTranslationReports).toHaveBeenCalledWith([]);
+
+        const errors = [{ file: 'content/game.yaml', message: 'bad' }];
+        translationReport.mockResolvedValueOnce({ reports: [], errors });
+        await expect(localeReport({ lang: 'sv' })).rejects.toBe(exitError);
+        expect(printValidationErrors).toHaveBeenCalledWith(errors);
+    });
 });
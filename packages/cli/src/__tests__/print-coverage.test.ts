@@ -0,0 +1,68 @@
+/**
+ * Tests for the CLI's coverage printer.
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { printCoverage } from '../print-coverage';
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+function captureLog(fn: () => void): string {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    fn();
+    return log.mock.calls.map((args) => args.join(' ')).join('\n');
+}
+
+describe('printCoverage', () => {
+    it('says when nothing has been recorded', () => {
+        const output = captureLog(() =>
+            printCoverage({
+                sessions: 0,
+                dialogues: [],
+                interludes: { visited: 0, total: 0 },
+                unvisitedInterludes: [],
+            })
+        );
+        expect(output).toContain('No coverage recorded yet');
+    });
+
+    it('prints per-dialogue percentages and never-visited nodes', () => {
+        const output = captureLog(() =>
+            printCoverage({
+                sessions: 3,
+                dialogues: [
+                    {
+                        dialogueId: 'bartender',
+                        nodes: { visited: 3, total: 4 },
+                        choices: { visited: 1, total: 2 },
+                        branches: { visited: 0, total: 0 },
+                        unvisitedNodes: ['secret'],
+                    },
+                    {
+                        dialogueId: 'guard',
+                        nodes: { visited: 2, total: 2 },
+                        choices: { visited: 0, total: 0 },
+                        branches: { visited: 1, total: 1 },
+                        unvisitedNodes: [],
+                    },
+                ],
+                interludes: { visited: 0, total: 1 },
+                unvisitedInterludes: ['chapter_two'],
+            })
+        );
+
+        expect(output).toContain(
+            'bartender  nodes 3/4 (75%), choices 1/2 (50%), branches -'
+        );
+        expect(output).toContain('Never visited: secret');
+        expect(output).toContain(
+            'guard  nodes 2/2 (100%), choices -, branches 1/1 (100%)'
+        );
+        expect(output).toContain('Never shown: chapter_two');
+        expect(output).toContain(
+            '5/6 (83%) of dialogue nodes visited across 3 sessions'
+        );
+    });
+});
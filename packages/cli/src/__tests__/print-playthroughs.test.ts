@@ -0,0 +1,73 @@
+/**
+ * Tests for the CLI's playthrough printer.
+ */
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { printPlaythroughResults } from '../print-playthroughs';
+
+afterEach(() => {
+    vi.restoreAllMocks();
+});
+
+function captureLog(fn: () => void): string {
+    const log = vi.spyOn(console, 'log').mockImplementation(() => {});
+    fn();
+    return log.mock.calls.map((args) => args.join(' ')).join('\n');
+}
+
+describe('printPlaythroughResults', () => {
+    it('says when there are no scripts', () => {
+        const output = captureLog(() => printPlaythroughResults([]));
+        expect(output).toContain('No playthrough scripts found');
+    });
+
+    it('prints a failure with its .dlg line, message, and trace', () => {
+        const output = captureLog(() =>
+            printPlaythroughResults([
+                {
+                    name: 'Intro',
+                    file: 'playthroughs/intro.yaml',
+                    stepsRun: 3,
+                    failure: null,
+                },
+                {
+                    name: 'Asking for work',
+                    file: 'playthroughs/work.yaml',
+                    stepsRun: 3,
+                    failure: {
+                        step: 3,
+                        message:
+                            'Expected flag "paid" to be true, but it is false',
+                        file: 'content/dialogues/bartender.dlg',
+                        line: 12,
+                        trace: [
+                            {
+                                kind: 'transition',
+                                seq: 1,
+                                dialogueId: 'merchant',
+                                fromNode: 'hub',
+                                toNode: 'start',
+                                via: 'call',
+                                toDialogue: 'rumours',
+                            },
+                            {
+                                kind: 'effect',
+                                seq: 2,
+                                effect: { type: 'setFlag', flag: 'paid' },
+                                delta: {},
+                            },
+                        ],
+                    },
+                },
+            ])
+        );
+
+        expect(output).toContain('Intro');
+        expect(output).toContain('playthroughs/work.yaml, step 3');
+        expect(output).toContain('content/dialogues/bartender.dlg:12');
+        expect(output).toContain('Expected flag "paid" to be true');
+        expect(output).toContain('hub -> rumours.start (CALL)');
+        expect(output).toContain('SET flag paid');
+        expect(output).toContain('1 of 2 playthroughs failed');
+    });
+});
@@ -47,4 +47,20 @@ describe('printValidationErrors', () => {
 
         expect(output).toContain('2 validation errors');
     });
+
+    it('lists warnings apart from errors', () => {
+        const output = captureLog(() =>
+            printValidationErrors([
+                {
+                    file: 'a.dlg',
+                    message: 'Node "lost" is never reached',
+                    severity: 'warning',
+                },
+            ])
+        );
+
+        expect(output).toContain('No validation errors');
+        expect(output).toContain('1 warning');
+        expect(output).toContain('Node "lost" is never reached');
+    });
 });
@@ -10,7 +10,15 @@ import { pathToFileURL } from 'node:url';
 import { dev } from './commands/dev.js';
 import { build } from './commands/build.js';
 import { validate } from './commands/validate.js';
+import { test } from './commands/test.js';
+import { coverage } from './commands/coverage.js';
 import { theme } from './commands/theme.js';
+import {
+    localeExport,
+    localeExtract,
+    localeImport,
+    localeReport,
+} from './commands/locale.js';
 import { create } from './create.js';
 
 // Filled in from package.json at build time (see vite.config.ts), so the
@@ -60,6 +68,21 @@ export function createCli(): Command {
             await validate();
         });
 
+    program
+        .command('test [files...]')
+        .description('Play the playthrough scripts and check their results')
+        .option('--coverage', 'Add what the scripts reach to the coverage file')
+        .action(async (files: string[], options: { coverage?: boolean }) => {
+            await test(files, options);
+        });
+
+    program
+        .command('coverage')
+        .description('Report which dialogue nodes playtests have reached')
+        .action(async () => {
+            await coverage();
+        });
+
     program
         .command('theme <template>')
         .description('Change the current project renderer theme')
@@ -67,6 +90,46 @@ export function createCli(): Command {
             await theme(template);
         });
 
+    const locale = program
+        .command('locale')
+        .description('Extract text into locale keys and exchange translations');
+
+    locale
+        .command('extract')
+        .description('Replace inline text with keys in the source locale')
+        .option('--dry-run', 'List the keys without changing any file')
+        .action(async (options: { dryRun?: boolean }) => {
+            await localeExtract(options);
+        });
+
+    locale
+        .command('export')
+        .description('Write a locale as an XLIFF or PO file for translators')
+        .requiredOption('--lang <code>', 'Locale to translate into')
+        .option('--format <format>', 'xliff or po', 'xliff')
+        .option('--out <file>', 'Output file')
+        .action(
+            async (options: { lang: string; format: string; out?: string }) => {
+                await localeExport(options);
+            }
+        );
+
+    locale
+        .command('import <file>')
+        .description('Merge a translated XLIFF or PO file into its locale')
+        .option('--lang <code>', 'Locale, when the file does not name one')
+        .action(async (file: string, options: { lang?: string }) => {
+            await localeImport(file, options);
+        });
+
+    locale
+        .command('report')
+        .description('List untranslated and stale keys for each locale')
+        .option('--lang <code>', 'Only report on this locale')
+        .action(async (options: { lang?: string }) => {
+            await localeReport(options);
+        });
+
     return program;
 }
 
@@ -0,0 +1,32 @@
+/**
+ * Coverage command
+ *
+ * Compares the project's coverage file with its content and reports how much
+ * of each dialogue playtests and playthrough runs have reached.
+ */
+
+import { crayon } from 'crayon.js';
+import { coverageReport } from '@doodle-engine/toolkit';
+import { printValidationErrors } from '../print-validation.js';
+import { printCoverage } from '../print-coverage.js';
+
+export async function coverage() {
+    console.log('');
+    console.log(crayon.bold.magenta('🐾 Story coverage...'));
+    console.log('');
+
+    try {
+        const { summary, errors } = await coverageReport(process.cwd());
+
+        if (!summary) {
+            printValidationErrors(errors);
+            process.exit(1);
+            return;
+        }
+
+        printCoverage(summary);
+    } catch (error) {
+        console.error(crayon.red('Error reading coverage:'), error);
+        process.exit(1);
+    }
+}
@@ -0,0 +1,207 @@
+/**
+ * Locale commands
+ *
+ * Move inline text into the source locale, export a locale as an XLIFF or PO
+ * file for translators, merge a translated file back into content/locales,
+ * and report untranslated and stale keys.
+ */
+
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname, extname, join, relative, resolve } from 'path';
+import { crayon } from 'crayon.js';
+import {
+    exportTranslations,
+    extractLocaleKeys,
+    importTranslations,
+    translationReport,
+} from '@doodle-engine/toolkit';
+import type { TranslationFormat } from '@doodle-engine/toolkit';
+import { printValidationErrors } from '../print-validation.js';
+import { printTranslationReports } from '../print-translations.js';
+
+export interface LocaleExportOptions {
+    /** Locale to translate into */
+    lang: string;
+    /** "xliff" (default) or "po" */
+    format?: string;
+    /** Output file, translations/<lang>.xlf or .po by default */
+    out?: string;
+}
+
+export interface LocaleImportOptions {
+    /** Locale to merge into, when the file does not name one */
+    lang?: string;
+}
+
+/** The format a file extension stands for, or null for an unknown one. */
+function formatOf(value: string): TranslationFormat | null {
+    const name = value.toLowerCase().replace(/^\./, '');
+    if (name === 'xliff' || name === 'xlf') return 'xliff';
+    return name === 'po' ? 'po' : null;
+}
+
+export async function localeExtract(options: { dryRun?: boolean } = {}) {
+    console.log('');
+    console.log(crayon.bold.magenta('🐾 Extracting text into locale keys...'));
+    console.log('');
+
+    try {
+        const result = await extractLocaleKeys(process.cwd(), options);
+        if (result.errors.length > 0) {
+            printValidationErrors(result.errors);
+            process.exit(1);
+            return;
+        }
+        if (result.keys.length === 0) {
+            console.log(crayon.green('No inline text left to extract.'));
+            console.log('');
+            return;
+        }
+
+        for (const { key, text } of result.keys) {
+            console.log(`  ${crayon.bold(key)}  ${crayon.dim(text)}`);
+        }
+        console.log('');
+        const summary = `${result.keys.length} key${result.keys.length === 1 ? '' : 's'} from ${result.files.length} file${result.files.length === 1 ? '' : 's'}`;
+        console.log(
+            options.dryRun
+                ? crayon.yellow(
+                      `Would add ${summary} to ${result.localeFile}. Run without --dry-run to write them.`
+                  )
+                : crayon.green(`Added ${summary} to ${result.localeFile}`)
+        );
+        console.log('');
+    } catch (error) {
+        console.error(crayon.red('Error extracting text:'), error);
+        process.exit(1);
+    }
+}
+
+export async function localeExport(options: LocaleExportOptions) {
+    const format = formatOf(options.format ?? 'xliff');
+    if (!format) {
+        console.error(
+            crayon.red(`Unknown format "${options.format}". Use xliff or po.`)
+        );
+        process.exit(1);
+        return;
+    }
+
+    try {
+        const cwd = process.cwd();
+        const { text, report, errors } = await exportTranslations(cwd, {
+            locale: options.lang,
+            format,
+        });
+        if (text === null || !report) {
+            printValidationErrors(errors);
+            process.exit(1);
+            return;
+        }
+
+        const out = resolve(
+            cwd,
+            options.out ??
+                join(
+                    'translations',
+                    `${options.lang}.${format === 'xliff' ? 'xlf' : 'po'}`
+                )
+        );
+        await mkdir(dirname(out), { recursive: true });
+        await writeFile(out, text);
+
+        console.log('');
+        console.log(
+            crayon.green(
+                `Exported ${report.sourceLocale} to ${options.lang}: ${relative(cwd, out)}`
+            )
+        );
+        printTranslationReports([report]);
+        console.log('');
+    } catch (error) {
+        console.error(crayon.red('Error exporting translations:'), error);
+        process.exit(1);
+    }
+}
+
+export async function localeImport(
+    file: string,
+    options: LocaleImportOptions = {}
+) {
+    const format = formatOf(extname(file));
+    if (!format) {
+        console.error(
+            crayon.red(
+                `Cannot tell the format of "${file}". Use a .xlf, .xliff, or .po file.`
+            )
+        );
+        process.exit(1);
+        return;
+    }
+
+    try {
+        const cwd = process.cwd();
+        const text = await readFile(resolve(cwd, file), 'utf-8');
+        const result = await importTranslations(cwd, text, {
+            format,
+            locale: options.lang,
+        });
+        if (result.errors.length > 0) {
+            printValidationErrors(result.errors);
+            process.exit(1);
+            return;
+        }
+
+        console.log('');
+        console.log(
+            crayon.green(
+                `Imported ${result.imported.length} translation${result.imported.length === 1 ? '' : 's'} into ${result.file}`
+            )
+        );
+        if (result.outdated.length > 0) {
+            console.log(
+                crayon.yellow(
+                    `Skipped ${result.outdated.length} whose source text changed since the export: ${result.outdated.join(', ')}`
+                )
+            );
+        }
+        if (result.unknown.length > 0) {
+            console.log(
+                crayon.yellow(
+                    `Skipped ${result.unknown.length} the source locale does not have: ${result.unknown.join(', ')}`
+                )
+            );
+        }
+        if (result.report) printTranslationReports([result.report]);
+        console.log('');
+    } catch (error) {
+        console.error(
+            crayon.red('Error importing translations:'),
+            error instanceof Error ? error.message : error
+        );
+        process.exit(1);
+    }
+}
+
+export async function localeReport(options: { lang?: string } = {}) {
+    console.log('');
+    console.log(crayon.bold.magenta('🐾 Translation status...'));
+    console.log('');
+
+    try {
+        const { reports, errors } = await translationReport(
+            process.cwd(),
+            options.lang
+        );
+        if (errors.length > 0) {
+            printValidationErrors(errors);
+            process.exit(1);
+            return;
+        }
+        printTranslationReports(reports);
+        console.log('');
+    } catch (error) {
+        console.error(crayon.red('Error reading locales:'), error);
+        process.exit(1);
+    }
+}
@@ -0,0 +1,53 @@
+/**
+ * Test command
+ *
+ * Plays the project's playthrough scripts against the engine and reports the
+ * ones that fail. With --coverage, adds what the scripts reached to the
+ * project's coverage file.
+ */
+
+import { crayon } from 'crayon.js';
+import {
+    COVERAGE_FILE,
+    recordCoverage,
+    runPlaythroughs,
+} from '@doodle-engine/toolkit';
+import { printValidationErrors } from '../print-validation.js';
+import { printPlaythroughResults } from '../print-playthroughs.js';
+
+export interface TestOptions {
+    /** Merge the run's story coverage into the coverage file */
+    coverage?: boolean;
+}
+
+export async function test(files: string[] = [], options: TestOptions = {}) {
+    console.log('');
+    console.log(crayon.bold.magenta('🐾 Running playthroughs...'));
+    console.log('');
+
+    try {
+        const { results, errors, coverage } = await runPlaythroughs(
+            process.cwd(),
+            files
+        );
+
+        if (errors.length > 0) {
+            printValidationErrors(errors);
+            process.exit(1);
+        }
+
+        printPlaythroughResults(results);
+
+        if (options.coverage && results.length > 0) {
+            await recordCoverage(process.cwd(), coverage);
+            console.log(crayon.dim(`Coverage added to ${COVERAGE_FILE}`));
+        }
+
+        if (results.some((result) => result.failure)) {
+            process.exit(1);
+        }
+    } catch (error) {
+        console.error(crayon.red('Error running playthroughs:'), error);
+        process.exit(1);
+    }
+}
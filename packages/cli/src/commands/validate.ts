@@ -6,7 +6,11 @@
 
 import { join } from 'path';
 import { crayon } from 'crayon.js';
-import { validateContent, loadContent } from '@doodle-engine/toolkit';
+import {
+    validateContent,
+    loadContent,
+    blockingErrors,
+} from '@doodle-engine/toolkit';
 import { printValidationErrors } from '../print-validation.js';
 
 export async function validate() {
@@ -20,14 +24,15 @@ export async function validate() {
     try {
         const { registry, fileMap, config, parseErrors } =
             await loadContent(contentDir);
-        const errors = [
+        const problems = [
             ...parseErrors,
             ...validateContent(registry, fileMap, config),
         ];
 
-        printValidationErrors(errors);
+        printValidationErrors(problems);
 
-        if (errors.length > 0) {
+        // Warnings are reported but do not fail validation.
+        if (blockingErrors(problems).length > 0) {
             process.exit(1);
         }
     } catch (error) {
@@ -0,0 +1,85 @@
+/**
+ * Colored console printer for story coverage.
+ *
+ * Like the other printers, this is CLI-only presentation: the toolkit and core
+ * compare the coverage file with the content and return plain totals.
+ */
+
+import { crayon } from 'crayon.js';
+import { coveragePercent } from '@doodle-engine/core';
+import type { CoverageCount, CoverageSummary } from '@doodle-engine/core';
+
+/** "3/4 (75%)", or a dash when there is nothing of that kind. */
+function describeCount(count: CoverageCount): string {
+    return count.total === 0
+        ? '-'
+        : `${count.visited}/${count.total} (${coveragePercent(count)}%)`;
+}
+
+function colorFor(count: CoverageCount): (text: string) => string {
+    const percent = coveragePercent(count);
+    if (percent === 100) return crayon.green;
+    return percent === 0 ? crayon.red : crayon.yellow;
+}
+
+/**
+ * Print each dialogue's node, choice and branch coverage, the nodes no
+ * session reached, and the interludes never shown.
+ */
+export function printCoverage(summary: CoverageSummary): void {
+    if (summary.sessions === 0) {
+        console.log(
+            crayon.yellow(
+                'No coverage recorded yet. Playtest in Studio or run "npm test -- --coverage".'
+            )
+        );
+        return;
+    }
+
+    for (const dialogue of summary.dialogues) {
+        const color = colorFor(dialogue.nodes);
+        console.log(
+            color(`${coveragePercent(dialogue.nodes)}%`.padStart(4)) +
+                ' ' +
+                crayon.bold(dialogue.dialogueId) +
+                crayon.dim(
+                    `  nodes ${describeCount(dialogue.nodes)}, choices ${describeCount(dialogue.choices)}, branches ${describeCount(dialogue.branches)}`
+                )
+        );
+        if (dialogue.unvisitedNodes.length > 0) {
+            console.log(
+                '     ' +
+                    crayon.dim('Never visited: ') +
+                    dialogue.unvisitedNodes.join(', ')
+            );
+        }
+    }
+
+    if (summary.interludes.total > 0) {
+        console.log(
+            '\n' +
+                crayon.bold('Interludes') +
+                crayon.dim(`  ${describeCount(summary.interludes)}`)
+        );
+        if (summary.unvisitedInterludes.length > 0) {
+            console.log(
+                '     ' +
+                    crayon.dim('Never shown: ') +
+                    summary.unvisitedInterludes.join(', ')
+            );
+        }
+    }
+
+    const totals = summary.dialogues.reduce(
+        (sum, dialogue) => ({
+            visited: sum.visited + dialogue.nodes.visited,
+            total: sum.total + dialogue.nodes.total,
+        }),
+        { visited: 0, total: 0 }
+    );
+    console.log(
+        colorFor(totals)(
+            `\n${describeCount(totals)} of dialogue nodes visited across ${summary.sessions} session${summary.sessions === 1 ? '' : 's'}`
+        )
+    );
+}
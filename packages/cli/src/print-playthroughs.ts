@@ -0,0 +1,95 @@
+/**
+ * Colored console printer for playthrough results.
+ *
+ * Like the validation printer, this is CLI-only presentation: the toolkit runs
+ * the scripts and returns plain results.
+ */
+
+import { crayon } from 'crayon.js';
+import { serializeCondition, serializeEffect } from '@doodle-engine/core';
+import type { TraceEvent } from '@doodle-engine/core';
+import type { PlaythroughResult } from '@doodle-engine/toolkit';
+
+/** How many trace events to show before a failure; the last ones matter. */
+const TRACE_TAIL = 10;
+
+/** One trace event as a short line of text. */
+export function describeTraceEvent(event: TraceEvent): string {
+    switch (event.kind) {
+        case 'nodeEnter':
+            return `enter ${event.dialogueId}.${event.nodeId}`;
+        case 'condition':
+            return `${serializeCondition(event.condition)} = ${event.result ? 'pass' : 'fail'}`;
+        case 'effect':
+            return serializeEffect(event.effect);
+        case 'transition': {
+            const to =
+                event.toNode === null
+                    ? 'end'
+                    : event.toDialogue
+                      ? `${event.toDialogue}.${event.toNode}`
+                      : event.toNode;
+            const via = event.via ? ` (${event.via.toUpperCase()})` : '';
+            return `${event.fromNode} -> ${to}${via}`;
+        }
+        case 'choiceFiltered':
+            return `hide ${event.choiceId}: ${serializeCondition(event.failedCondition)}`;
+        case 'itemUse':
+            return `use ${event.itemId}${event.targetId ? ` on ${event.targetId}` : ''}: ${event.useId ?? 'no use applied'}`;
+        case 'interlude':
+            return `show interlude ${event.interludeId}`;
+        case 'error':
+            return `error: ${event.message}`;
+    }
+}
+
+/**
+ * Print each playthrough as passed or failed, with the failing step, where
+ * the story was, and the trace that led there.
+ */
+export function printPlaythroughResults(results: PlaythroughResult[]): void {
+    if (results.length === 0) {
+        console.log(crayon.yellow('No playthrough scripts found'));
+        return;
+    }
+
+    for (const result of results) {
+        if (!result.failure) {
+            console.log(
+                crayon.green('✓ ') +
+                    result.name +
+                    crayon.dim(` (${result.stepsRun} steps)`)
+            );
+            continue;
+        }
+        const { failure } = result;
+        console.log(crayon.red('✗ ') + result.name);
+        console.log('  ' + crayon.dim(`${result.file}, step ${failure.step}`));
+        console.log(
+            '  ' +
+                crayon.bold(failure.file) +
+                (failure.line ? `:${failure.line}` : '')
+        );
+        for (const line of failure.message.split('\n')) {
+            console.log('  ' + crayon.red(line));
+        }
+        if (failure.trace.length > 0) {
+            console.log('  ' + crayon.dim('Trace:'));
+            for (const event of failure.trace.slice(-TRACE_TAIL)) {
+                console.log('    ' + crayon.dim(describeTraceEvent(event)));
+            }
+        }
+        console.log();
+    }
+
+    const failed = results.filter((result) => result.failure).length;
+    console.log(
+        failed === 0
+            ? crayon.green(
+                  `\n✓ ${results.length} playthrough${results.length === 1 ? '' : 's'} passed`
+              )
+            : crayon.red(
+                  `\n✗ ${failed} of ${results.length} playthrough${results.length === 1 ? '' : 's'} failed`
+              )
+    );
+}
@@ -0,0 +1,58 @@
+/**
+ * Colored console printer for translation reports.
+ *
+ * Like the other printers, this is CLI-only presentation: the toolkit compares
+ * the locale files and returns plain lists of keys.
+ */
+
+import { crayon } from 'crayon.js';
+import type { TranslationReport } from '@doodle-engine/toolkit';
+
+/** Most keys listed under a heading before the rest are counted. */
+const KEY_LIMIT = 20;
+
+function printKeys(heading: string, keys: string[]): void {
+    console.log('     ' + crayon.dim(heading));
+    for (const key of keys.slice(0, KEY_LIMIT)) {
+        console.log('       ' + key);
+    }
+    if (keys.length > KEY_LIMIT) {
+        console.log(
+            crayon.dim(`       ...and ${keys.length - KEY_LIMIT} more`)
+        );
+    }
+}
+
+/**
+ * Print each locale's untranslated keys and the stale keys the source locale
+ * no longer has.
+ */
+export function printTranslationReports(reports: TranslationReport[]): void {
+    if (reports.length === 0) {
+        console.log(
+            crayon.yellow(
+                'No locales to report on. Add a locale file besides the source language.'
+            )
+        );
+        return;
+    }
+
+    for (const report of reports) {
+        const done =
+            report.untranslated.length === 0 && report.stale.length === 0;
+        console.log(
+            (done ? crayon.green('✓') : crayon.yellow('!')) +
+                ' ' +
+                crayon.bold(report.locale) +
+                crayon.dim(
+                    `  ${report.untranslated.length} untranslated, ${report.stale.length} stale (source: ${report.sourceLocale})`
+                )
+        );
+        if (report.untranslated.length > 0) {
+            printKeys('Untranslated:', report.untranslated);
+        }
+        if (report.stale.length > 0) {
+            printKeys('Stale:', report.stale);
+        }
+    }
+}
@@ -11,27 +11,46 @@ import { crayon } from 'crayon.js';
 import type { ValidationError } from '@doodle-engine/toolkit';
 
 /**
- * Print validation errors to the console.
+ * Print validation errors to the console, then any warnings.
  */
-export function printValidationErrors(errors: ValidationError[]): void {
+export function printValidationErrors(problems: ValidationError[]): void {
+    const errors = problems.filter((problem) => problem.severity !== 'warning');
+    const warnings = problems.filter(
+        (problem) => problem.severity === 'warning'
+    );
+
     if (errors.length === 0) {
         console.log(crayon.green('✓ No validation errors'));
-        return;
+    } else {
+        console.log(
+            crayon.red(
+                `\n✗ Found ${errors.length} validation error${errors.length === 1 ? '' : 's'}:\n`
+            )
+        );
+        printProblems(errors, crayon.red);
     }
 
-    console.log(
-        crayon.red(
-            `\n✗ Found ${errors.length} validation error${errors.length === 1 ? '' : 's'}:\n`
-        )
-    );
+    if (warnings.length > 0) {
+        console.log(
+            crayon.yellow(
+                `\n⚠ Found ${warnings.length} warning${warnings.length === 1 ? '' : 's'}:\n`
+            )
+        );
+        printProblems(warnings, crayon.yellow);
+    }
+}
 
-    for (const error of errors) {
+function printProblems(
+    problems: ValidationError[],
+    color: (text: string) => string
+): void {
+    for (const problem of problems) {
         console.log(
-            crayon.bold(error.file) + (error.line ? `:${error.line}` : '')
+            crayon.bold(problem.file) + (problem.line ? `:${problem.line}` : '')
         );
-        console.log('  ' + crayon.red(error.message));
-        if (error.suggestion) {
-            console.log('  ' + crayon.dim(error.suggestion));
+        console.log('  ' + color(problem.message));
+        if (problem.suggestion) {
+            console.log('  ' + crayon.dim(problem.suggestion));
         }
         console.log();
     }
@@ -0,0 +1,206 @@
+/**
+ * Tests for the calendar: dates of game days, minutes on the clock, the
+ * weekday, season, and day conditions, and localized dates in snapshots.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { addHours, calendarDate } from '../calendar';
+import { applyEffect } from '../effects';
+import { evaluateCondition } from '../conditions';
+import { Engine, createInitialState } from '../engine';
+import { parseCondition, parseEffect } from '../parser';
+import { resolveText } from '../localization';
+import type { ContentRegistry } from '../types/registry';
+import type { CalendarConfig, GameConfig } from '../types/entities';
+
+const CALENDAR: CalendarConfig = {
+    weekdays: [
+        { id: 'moonday', name: '@weekday.moonday' },
+        { id: 'fireday', name: 'Fireday' },
+        { id: 'restday', name: 'Restday' },
+    ],
+    months: [
+        { id: 'thaw', name: 'Thaw', days: 10 },
+        { id: 'bloom', name: 'Bloom', days: 10 },
+        { id: 'frost', name: '@month.frost', days: 5 },
+    ],
+    seasons: [
+        { id: 'spring', name: 'Spring', months: ['thaw', 'bloom'] },
+        { id: 'winter', name: 'Winter', months: ['frost'] },
+    ],
+    startDate: { year: 1203, month: 'bloom', day: 9, weekday: 'fireday' },
+};
+
+function createRegistry(calendar?: CalendarConfig): ContentRegistry {
+    return {
+        locations: {
+            gate: {
+                id: 'gate',
+                name: 'Gate',
+                description: 'Today is {weekday}, {date}.',
+            },
+        },
+        characters: {},
+        items: {},
+        maps: {},
+        dialogues: {},
+        quests: {},
+        journalEntries: {},
+        interludes: {},
+        calendar,
+        locales: {
+            en: { 'weekday.moonday': 'Moonday', 'month.frost': 'Frost' },
+        },
+    };
+}
+
+const config: GameConfig = {
+    title: 'Test Game',
+    startLocation: 'gate',
+    startTime: { day: 1, hour: 8 },
+    startFlags: {},
+    startVariables: {},
+    startInventory: [],
+};
+
+describe('calendarDate', () => {
+    it('starts day 1 on the start date', () => {
+        const date = calendarDate(1, CALENDAR);
+        expect(date).toMatchObject({ year: 1203, day: 9 });
+        expect(date.month?.id).toBe('bloom');
+        expect(date.weekday?.id).toBe('fireday');
+        expect(date.season?.id).toBe('spring');
+    });
+
+    it('moves through weeks, months, and years', () => {
+        const frost = calendarDate(3, CALENDAR);
+        expect(frost.month?.id).toBe('frost');
+        expect(frost.day).toBe(1);
+        expect(frost.weekday?.id).toBe('moonday');
+        expect(frost.season?.id).toBe('winter');
+
+        const nextYear = calendarDate(8, CALENDAR);
+        expect(nextYear).toMatchObject({ year: 1204, day: 1 });
+        expect(nextYear.month?.id).toBe('thaw');
+    });
+
+    it('counts plain days without months', () => {
+        const date = calendarDate(12, { weekdays: CALENDAR.weekdays });
+        expect(date.day).toBe(12);
+        expect(date.month).toBeUndefined();
+        expect(date.weekday?.id).toBe('restday');
+    });
+});
+
+describe('addHours', () => {
+    it('rolls hours over into days', () => {
+        expect(addHours({ day: 1, hour: 22 }, 5)).toEqual({
+            day: 2,
+            hour: 3,
+        });
+    });
+
+    it('turns fractions of an hour into minutes', () => {
+        expect(addHours({ day: 1, hour: 23, minute: 45 }, 0.5)).toEqual({
+            day: 2,
+            hour: 0,
+            minute: 15,
+        });
+        expect(
+            applyEffect(parseEffect('ADVANCE time 1.25'), createInitialState())
+                .currentTime
+        ).toEqual({ day: 1, hour: 1, minute: 15 });
+    });
+});
+
+describe('calendar conditions', () => {
+    const registry = createRegistry(CALENDAR);
+    const state = {
+        ...createInitialState(),
+        currentTime: { day: 3, hour: 12 },
+    };
+
+    it('checks the weekday and season', () => {
+        expect(
+            evaluateCondition(
+                parseCondition('dayOfWeekIs moonday'),
+                state,
+                registry
+            )
+        ).toBe(true);
+        expect(
+            evaluateCondition(
+                parseCondition('seasonIs spring'),
+                state,
+                registry
+            )
+        ).toBe(false);
+        expect(
+            evaluateCondition(
+                parseCondition('seasonIs winter'),
+                state,
+                registry
+            )
+        ).toBe(true);
+    });
+
+    it('fails weekday and season checks without a calendar', () => {
+        expect(
+            evaluateCondition(
+                parseCondition('dayOfWeekIs moonday'),
+                state,
+                createRegistry()
+            )
+        ).toBe(false);
+    });
+
+    it('checks that a day has been reached', () => {
+        expect(evaluateCondition(parseCondition('dayAtLeast 3'), state)).toBe(
+            true
+        );
+        expect(evaluateCondition(parseCondition('dayAtLeast 4'), state)).toBe(
+            false
+        );
+    });
+});
+
+describe('dates in the snapshot', () => {
+    it('has no date without a calendar', () => {
+        const engine = new Engine(createRegistry());
+        expect(engine.newGame(config).date).toBeNull();
+    });
+
+    it('shows the localized date and fills date placeholders', () => {
+        const engine = new Engine(createRegistry(CALENDAR));
+        engine.newGame(config);
+
+        const snapshot = engine.applyDebugEffect({
+            type: 'advanceTime',
+            hours: 48,
+        });
+
+        expect(snapshot.date).toEqual({
+            text: 'Moonday, Frost 1, Year 1203',
+            date: 'Frost 1, Year 1203',
+            weekday: 'Moonday',
+            month: 'Frost',
+            season: 'Winter',
+            year: 1203,
+            day: 1,
+            minutes: false,
+        });
+        expect(snapshot.location.description).toBe(
+            'Today is Moonday, Frost 1, Year 1203.'
+        );
+    });
+
+    it('lets a variable named like a date placeholder win', () => {
+        expect(
+            resolveText('{date}', {}, { date: 'tonight' }, undefined, {
+                date: 'Frost 1',
+                weekday: 'Moonday',
+                season: 'Winter',
+            })
+        ).toBe('tonight');
+    });
+});
@@ -4,7 +4,12 @@
  */
 
 import { describe, it, expect } from 'vitest';
-import { evaluateCondition, evaluateConditions } from '../conditions';
+import {
+    evaluateCondition,
+    evaluateConditions,
+    explainConditionFailure,
+    leafConditions,
+} from '../conditions';
 import type { Condition } from '../types/conditions';
 import type { GameState } from '../types/state';
 
@@ -214,6 +219,24 @@ describe('Condition Evaluators', () => {
             const state = createTestState();
             expect(evaluateCondition(condition, state)).toBe(false);
         });
+
+        it('checks for at least the given count', () => {
+            const state = {
+                ...createTestState(),
+                itemCounts: { rusty_key: 3 },
+            };
+            const atLeast = (count: number): Condition => ({
+                type: 'hasItem',
+                itemId: 'rusty_key',
+                count,
+            });
+            expect(evaluateCondition(atLeast(3), state)).toBe(true);
+            expect(evaluateCondition(atLeast(4), state)).toBe(false);
+            expect(evaluateCondition(atLeast(1), createTestState())).toBe(true);
+            expect(evaluateCondition(atLeast(2), createTestState())).toBe(
+                false
+            );
+        });
     });
 
     describe('variableEquals', () => {
@@ -332,6 +355,63 @@ describe('Condition Evaluators', () => {
         });
     });
 
+    describe('variable', () => {
+        it('should compare against an expression', () => {
+            const state = createTestState();
+            const compare = (operator: string, expression: string) =>
+                evaluateCondition(
+                    {
+                        type: 'variable',
+                        variable: 'gold',
+                        operator: operator as never,
+                        value: { expression },
+                    },
+                    state
+                );
+
+            expect(compare('>=', '{reputation} * 20')).toBe(true);
+            expect(compare('==', '{reputation} * 20')).toBe(true);
+            expect(compare('!=', '{reputation} * 20')).toBe(false);
+            expect(compare('<', 'relationship(bartender) * 20')).toBe(false);
+            expect(compare('<=', 'stat(player, strength) * 10')).toBe(true);
+            expect(compare('>', 'max(99, reputation)')).toBe(true);
+        });
+
+        it('should return false when variable is a string', () => {
+            const condition: Condition = {
+                type: 'variable',
+                variable: 'playerName',
+                operator: '!=',
+                value: 0,
+            };
+            expect(evaluateCondition(condition, createTestState())).toBe(false);
+        });
+
+        it('should accept expressions in variableGreaterThan', () => {
+            const condition: Condition = {
+                type: 'variableGreaterThan',
+                variable: 'gold',
+                value: { expression: '{reputation} * 10' },
+            };
+            expect(evaluateCondition(condition, createTestState())).toBe(true);
+        });
+
+        it('should roll dice without advancing the random state', () => {
+            const condition: Condition = {
+                type: 'variable',
+                variable: 'gold',
+                operator: '>',
+                value: { expression: '1d200' },
+            };
+            const state = { ...createTestState(), randomState: 7 };
+            const first = evaluateCondition(condition, state);
+            for (let i = 0; i < 10; i++) {
+                expect(evaluateCondition(condition, state)).toBe(first);
+            }
+            expect(state.randomState).toBe(7);
+        });
+    });
+
     describe('atLocation', () => {
         it('should return true when at the specified location', () => {
             const condition: Condition = {
@@ -616,6 +696,117 @@ describe('Condition Evaluators', () => {
             const result = evaluateCondition(condition, state);
             expect(typeof result).toBe('boolean');
         });
+
+        it('should give the same answer for the same random state', () => {
+            const condition: Condition = {
+                type: 'roll',
+                min: 1,
+                max: 20,
+                threshold: 10,
+            };
+            const state = { ...createTestState(), randomState: 7 };
+            const first = evaluateCondition(condition, state);
+            for (let i = 0; i < 10; i++) {
+                expect(evaluateCondition(condition, state)).toBe(first);
+            }
+        });
+    });
+
+    describe('anyOf / allOf / not', () => {
+        const hasKey: Condition = { type: 'hasItem', itemId: 'rusty_key' };
+        const hasSword: Condition = { type: 'hasItem', itemId: 'sword' };
+        const lockPicked: Condition = { type: 'hasFlag', flag: 'pickedLock' };
+
+        it('should pass anyOf when one part passes', () => {
+            const state = createTestState();
+            expect(
+                evaluateCondition(
+                    { type: 'anyOf', conditions: [hasSword, hasKey] },
+                    state
+                )
+            ).toBe(true);
+            expect(
+                evaluateCondition(
+                    { type: 'anyOf', conditions: [hasSword, lockPicked] },
+                    state
+                )
+            ).toBe(false);
+        });
+
+        it('should pass allOf only when every part passes', () => {
+            const state = createTestState();
+            expect(
+                evaluateCondition(
+                    {
+                        type: 'allOf',
+                        conditions: [
+                            hasKey,
+                            { type: 'hasFlag', flag: 'metBartender' },
+                        ],
+                    },
+                    state
+                )
+            ).toBe(true);
+            expect(
+                evaluateCondition(
+                    { type: 'allOf', conditions: [hasKey, hasSword] },
+                    state
+                )
+            ).toBe(false);
+        });
+
+        it('should invert with not', () => {
+            const state = createTestState();
+            expect(
+                evaluateCondition({ type: 'not', condition: hasSword }, state)
+            ).toBe(true);
+            expect(
+                evaluateCondition({ type: 'not', condition: hasKey }, state)
+            ).toBe(false);
+        });
+
+        it('should report the parts that made a group fail', () => {
+            const state = createTestState();
+            const condition: Condition = {
+                type: 'anyOf',
+                conditions: [
+                    hasSword,
+                    { type: 'allOf', conditions: [hasKey, lockPicked] },
+                    { type: 'not', condition: hasKey },
+                ],
+            };
+
+            expect(explainConditionFailure(condition, state)).toEqual([
+                { condition: hasSword, resolvedValues: { inInventory: false } },
+                { condition: lockPicked, resolvedValues: { flag: false } },
+                {
+                    condition: { type: 'not', condition: hasKey },
+                    resolvedValues: { inInventory: true },
+                },
+            ]);
+        });
+
+        it('should report nothing for a passing condition', () => {
+            const state = createTestState();
+            expect(
+                explainConditionFailure(
+                    { type: 'anyOf', conditions: [hasKey, hasSword] },
+                    state
+                )
+            ).toEqual([]);
+        });
+
+        it('should flatten groups to their plain conditions', () => {
+            expect(
+                leafConditions({
+                    type: 'anyOf',
+                    conditions: [
+                        hasSword,
+                        { type: 'not', condition: lockPicked },
+                    ],
+                })
+            ).toEqual([hasSword, lockPicked]);
+        });
     });
 
     describe('evaluateConditions (multiple)', () => {
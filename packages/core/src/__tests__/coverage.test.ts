@@ -0,0 +1,219 @@
+/**
+ * Tests for story coverage: a trace sink that counts the nodes, choices, IF
+ * branches and interludes a session reached, merging those counts across
+ * sessions, and comparing them with the content.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Engine } from '../engine';
+import { parseDialogue } from '../parser';
+import {
+    CoverageCollector,
+    coveragePercent,
+    emptyCoverage,
+    mergeCoverage,
+    parseCoverage,
+    summarizeCoverage,
+} from '../coverage';
+import type { ContentRegistry } from '../types/registry';
+import type { GameConfig } from '../types/entities';
+
+const GUARD = `
+NODE start
+  GUARD: Halt!
+  CHOICE "Let me in."
+    GOTO check
+  END
+  CHOICE "Tell me a story."
+    START dialogue storyteller
+  END
+  CHOICE "Never mind."
+  END
+
+NODE check
+  IF hasFlag hasPass
+    GOTO gate
+  END
+  GOTO refuse
+
+NODE gate
+  GUARD: Go on through.
+  INTERLUDE the_gate
+
+NODE refuse
+  GUARD: Not without a pass.
+`;
+
+const STORYTELLER = `
+NODE start
+  STORYTELLER: Once upon a time...
+`;
+
+function createRegistry(): ContentRegistry {
+    return {
+        locations: {
+            gatehouse: { id: 'gatehouse', name: 'Gatehouse', description: '' },
+        },
+        characters: {
+            guard: {
+                id: 'guard',
+                name: 'Guard',
+                biography: '',
+                location: 'gatehouse',
+                dialogue: 'guard',
+                stats: {},
+            },
+        },
+        items: {},
+        maps: {},
+        dialogues: {
+            guard: parseDialogue(GUARD, 'guard'),
+            storyteller: parseDialogue(STORYTELLER, 'storyteller'),
+        },
+        quests: {},
+        journalEntries: {},
+        interludes: {
+            the_gate: { id: 'the_gate', text: 'The gate swings open.' },
+            the_end: { id: 'the_end', text: 'Fin.' },
+        },
+        locales: {},
+    };
+}
+
+const config: GameConfig = {
+    title: 'Test Game',
+    startLocation: 'gatehouse',
+    startTime: { day: 1, hour: 9 },
+    startFlags: {},
+    startVariables: {},
+    startInventory: [],
+};
+
+function play(
+    flags: Record<string, boolean>,
+    choiceText: string
+): CoverageCollector {
+    const engine = new Engine(createRegistry());
+    const collector = new CoverageCollector();
+    engine.setTrace(collector);
+    engine.newGame({ ...config, startFlags: flags });
+    engine.talkTo('guard');
+    const choice = engine
+        .getSnapshot()
+        .choices.find((c) => c.text === choiceText);
+    engine.selectChoice(choice!.id);
+    return collector;
+}
+
+describe('CoverageCollector', () => {
+    it('counts nodes entered, choices picked, branches taken and interludes shown', () => {
+        const coverage = play({ hasPass: true }, 'Let me in.').coverage();
+        const guard = coverage.dialogues.guard;
+
+        expect(coverage.sessions).toBe(1);
+        expect(guard.nodes).toEqual({ start: 1, check: 1, gate: 1 });
+        expect(Object.values(guard.choices.start)).toEqual([1]);
+        expect(guard.branches).toEqual({ check: { '0': 1 } });
+        expect(coverage.interludes).toEqual({ the_gate: 1 });
+    });
+
+    it('counts a choice that starts another dialogue or ends the conversation', () => {
+        const story = play({}, 'Tell me a story.').coverage();
+        expect(Object.keys(story.dialogues.guard.choices.start)).toHaveLength(
+            1
+        );
+        expect(story.dialogues.storyteller.nodes).toEqual({ start: 1 });
+
+        const leave = play({}, 'Never mind.').coverage();
+        expect(Object.keys(leave.dialogues.guard.choices.start)).toHaveLength(
+            1
+        );
+    });
+
+    it('starts over on reset', () => {
+        const collector = play({}, 'Let me in.');
+        collector.reset();
+        expect(collector.coverage()).toEqual({
+            ...emptyCoverage(),
+            sessions: 1,
+        });
+    });
+});
+
+describe('mergeCoverage', () => {
+    it('adds counts and sessions without changing either input', () => {
+        const pass = play({ hasPass: true }, 'Let me in.').coverage();
+        const noPass = play({}, 'Let me in.').coverage();
+        const before = structuredClone(pass);
+
+        const merged = mergeCoverage(pass, noPass);
+
+        expect(pass).toEqual(before);
+        expect(merged.sessions).toBe(2);
+        expect(merged.dialogues.guard.nodes).toEqual({
+            start: 2,
+            check: 2,
+            gate: 1,
+            refuse: 1,
+        });
+        expect(Object.values(merged.dialogues.guard.choices.start)).toEqual([
+            2,
+        ]);
+        expect(merged.dialogues.guard.branches).toEqual({ check: { '0': 1 } });
+        expect(merged.interludes).toEqual({ the_gate: 1 });
+    });
+});
+
+describe('parseCoverage', () => {
+    it('reads what mergeCoverage wrote', () => {
+        const coverage = play({ hasPass: true }, 'Let me in.').coverage();
+        expect(parseCoverage(JSON.stringify(coverage))).toEqual(coverage);
+    });
+
+    it('rejects text that is not coverage', () => {
+        expect(() => parseCoverage('{')).toThrow('not valid JSON');
+        expect(() => parseCoverage('{"nodes": {}}')).toThrow(
+            'does not hold story coverage'
+        );
+        expect(() =>
+            parseCoverage('{"version": 99, "sessions": 1, "dialogues": {}}')
+        ).toThrow('newer than this engine reads');
+    });
+});
+
+describe('summarizeCoverage', () => {
+    it('reports per-dialogue totals and what was never visited', () => {
+        const registry = createRegistry();
+        const coverage = play({}, 'Let me in.').coverage();
+        coverage.dialogues.guard.nodes.removed_node = 4;
+        coverage.interludes.removed_interlude = 1;
+
+        const summary = summarizeCoverage(coverage, registry);
+
+        expect(summary.sessions).toBe(1);
+        expect(summary.dialogues).toEqual([
+            {
+                dialogueId: 'guard',
+                nodes: { visited: 3, total: 4 },
+                choices: { visited: 1, total: 3 },
+                branches: { visited: 0, total: 1 },
+                unvisitedNodes: ['gate'],
+            },
+            {
+                dialogueId: 'storyteller',
+                nodes: { visited: 0, total: 1 },
+                choices: { visited: 0, total: 0 },
+                branches: { visited: 0, total: 0 },
+                unvisitedNodes: ['start'],
+            },
+        ]);
+        expect(summary.interludes).toEqual({ visited: 0, total: 2 });
+        expect(summary.unvisitedInterludes).toEqual(['the_end', 'the_gate']);
+    });
+
+    it('turns counts into whole percentages', () => {
+        expect(coveragePercent({ visited: 3, total: 4 })).toBe(75);
+        expect(coveragePercent({ visited: 2, total: 3 })).toBe(66);
+        expect(coveragePercent({ visited: 0, total: 0 })).toBe(100);
+    });
+});
@@ -385,6 +385,79 @@ describe('Engine debug tracing', () => {
         });
     });
 
+    it('reports which part of a condition group hid a choice', () => {
+        const grouped = createRegistry();
+        grouped.dialogues.bartender_greeting.nodes[0].choices[0].conditions = [
+            {
+                type: 'anyOf',
+                conditions: [
+                    { type: 'hasFlag', flag: 'trusted' },
+                    { type: 'hasItem', itemId: 'old_coin' },
+                ],
+            },
+        ];
+        const engine = new Engine(grouped);
+        engine.newGame(createConfig());
+        const { events, sink } = record();
+        engine.setTrace(sink);
+
+        engine.talkTo('bartender');
+
+        const filtered = events.find((e) => e.kind === 'choiceFiltered');
+        expect(filtered).toMatchObject({
+            choiceId: 'ask_rumors',
+            resolvedValues: { results: [false, false] },
+            failedConditions: [
+                {
+                    condition: { type: 'hasFlag', flag: 'trusted' },
+                    resolvedValues: { flag: false },
+                },
+                {
+                    condition: { type: 'hasItem', itemId: 'old_coin' },
+                    resolvedValues: { inInventory: false },
+                },
+            ],
+        });
+    });
+
+    it('reports the failing part of an IF branch group', () => {
+        const grouped = createRegistry();
+        grouped.dialogues.bartender_greeting.nodes[1].conditionalBranches = [
+            {
+                condition: {
+                    type: 'allOf',
+                    conditions: [
+                        { type: 'hasFlag', flag: 'trusted' },
+                        { type: 'hasFlag', flag: 'rich' },
+                    ],
+                },
+                next: 'goodbye',
+            },
+        ];
+        const engine = new Engine(grouped);
+        engine.newGame(createConfig());
+        engine.applyDebugEffect({ type: 'setFlag', flag: 'trusted' });
+        engine.talkTo('bartender');
+
+        const { events, sink } = record();
+        engine.setTrace(sink);
+        engine.selectChoice('ask_rumors');
+        engine.continueDialogue();
+
+        const condition = events.find(
+            (e) => e.kind === 'condition' && e.context.type === 'branch'
+        );
+        expect(condition).toMatchObject({
+            result: false,
+            failedConditions: [
+                {
+                    condition: { type: 'hasFlag', flag: 'rich' },
+                    resolvedValues: { flag: false },
+                },
+            ],
+        });
+    });
+
     it('assigns monotonically increasing sequence numbers', () => {
         const engine = new Engine(registry);
         engine.newGame(createConfig());
@@ -415,7 +488,7 @@ describe('Engine debug tracing', () => {
         // Run the same script on two engines: one traced, one not. The
         // resulting state must be identical — tracing observes, never changes.
         const scripted = (engine: Engine) => {
-            engine.newGame(createConfig());
+            engine.newGame(createConfig(), 'trace');
             engine.applyDebugEffect({ type: 'setFlag', flag: 'trusted' });
             engine.talkTo('bartender');
             engine.selectChoice('ask_rumors');
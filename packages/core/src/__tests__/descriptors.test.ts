@@ -37,11 +37,18 @@ const sampleArg: Record<string, string> = {
     journalId: 'tavern_note',
     dialogueId: 'merchant_intro',
     interludeId: 'chapter_one',
+    factionId: 'city_guard',
+    weekday: 'moonday',
+    season: 'winter',
     number: '3',
     value: '5',
+    expression: '{gold} * 2 - 1d6',
+    operator: '>=',
     hours: '2',
     boolean: 'true',
     text: 'thing.ogg',
+    condition: '(hasFlag someFlag)',
+    conditions: '(hasFlag someFlag) (not (hasItem old_coin))',
 };
 
 /** Build the canonical .dlg line for a descriptor with sample values. */
@@ -63,7 +70,10 @@ const ALL_CONDITION_TYPES: Condition['type'][] = [
     'variableEquals',
     'variableGreaterThan',
     'variableLessThan',
+    'variable',
     'atLocation',
+    'visitedLocation',
+    'visitCount',
     'questAtStage',
     'questStatus',
     'characterAt',
@@ -73,9 +83,17 @@ const ALL_CONDITION_TYPES: Condition['type'][] = [
     'characterStatLessThan',
     'relationshipAbove',
     'relationshipBelow',
+    'reputationAbove',
+    'reputationBelow',
     'timeIs',
+    'dayOfWeekIs',
+    'seasonIs',
+    'dayAtLeast',
     'itemAt',
     'roll',
+    'anyOf',
+    'allOf',
+    'not',
 ];
 
 const ALL_EFFECT_TYPES: Effect['type'][] = [
@@ -92,12 +110,16 @@ const ALL_EFFECT_TYPES: Effect['type'][] = [
     'setTrackedQuest',
     'addJournalEntry',
     'startDialogue',
+    'startShop',
     'endDialogue',
     'setCharacterLocation',
+    'clearCharacterLocation',
     'addToParty',
     'removeFromParty',
     'setRelationship',
     'addRelationship',
+    'setReputation',
+    'addReputation',
     'setCharacterStat',
     'addCharacterStat',
     'setMapEnabled',
@@ -110,8 +132,8 @@ const ALL_EFFECT_TYPES: Effect['type'][] = [
 ];
 
 describe('condition descriptors', () => {
-    it('covers all 19 condition types, one each', () => {
-        expect(CONDITION_DESCRIPTORS).toHaveLength(19);
+    it('covers all 30 condition types, one each', () => {
+        expect(CONDITION_DESCRIPTORS).toHaveLength(30);
         const types = CONDITION_DESCRIPTORS.map((d) => d.type).sort();
         expect(types).toEqual([...ALL_CONDITION_TYPES].sort());
         expect(new Set(types).size).toBe(types.length);
@@ -151,8 +173,8 @@ describe('condition descriptors', () => {
 });
 
 describe('effect descriptors', () => {
-    it('covers all 28 effect types, one each', () => {
-        expect(EFFECT_DESCRIPTORS).toHaveLength(28);
+    it('covers all 32 effect types, one each', () => {
+        expect(EFFECT_DESCRIPTORS).toHaveLength(32);
         const types = EFFECT_DESCRIPTORS.map((d) => d.type).sort();
         expect(types).toEqual([...ALL_EFFECT_TYPES].sort());
         expect(new Set(types).size).toBe(types.length);
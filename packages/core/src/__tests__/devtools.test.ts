@@ -2,6 +2,7 @@ import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { Engine } from '../engine';
 import { enableDevTools } from '../devtools';
 import { parseDialogue } from '../parser';
+import { PSEUDO_LOCALE } from '../localization/pseudo';
 import type { ContentRegistry } from '../types/registry';
 import type { GameConfig } from '../types/entities';
 
@@ -180,4 +181,33 @@ describe('browser dev tools', () => {
         expect(console.log).toHaveBeenCalledWith('Current Location:', 'Tavern');
         expect(console.log).toHaveBeenCalledWith('Inventory:', ['Old Coin']);
     });
+
+    it('records each missing localization key once', () => {
+        const registry = createRegistry();
+        registry.locations.keep.name = '@location.keep.name';
+        engine = new Engine(registry);
+        engine.newGame(config);
+        const warn = vi.spyOn(console, 'warn').mockImplementation(() => {});
+        vi.spyOn(console, 'table').mockImplementation(() => {});
+        enableDevTools(engine, onUpdate);
+        const doodle = window.doodle!;
+
+        expect(doodle.missingKeys()).toEqual([]);
+        doodle.teleport('keep');
+        engine.getSnapshot();
+
+        expect(doodle.missingKeys()).toEqual([
+            { key: 'location.keep.name', locale: 'en' },
+        ]);
+        expect(warn).toHaveBeenCalledExactlyOnceWith(
+            '🐾 Missing localization key: @location.keep.name (en)'
+        );
+    });
+
+    it('allows the pseudo-locale', () => {
+        const snapshot = engine.setLocale(PSEUDO_LOCALE);
+
+        expect(engine.getState().currentLocale).toBe(PSEUDO_LOCALE);
+        expect(snapshot.location.name).toBe('[Ţáṽéŕñ~~~]');
+    });
 });
@@ -0,0 +1,337 @@
+/**
+ * Tests for dialogue sub-routines: CALL runs another dialogue and RETURN
+ * comes back to the GOTO of the route that called it.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Engine } from '../engine';
+import { parseDialogue } from '../parser';
+import type { ContentRegistry } from '../types/registry';
+import type { GameConfig } from '../types/entities';
+import type { TraceEvent } from '../types/trace';
+
+const MERCHANT = `
+NODE hub
+  MERCHANT: What'll it be?
+  CHOICE "Heard any rumours?"
+    CALL rumours
+    GOTO hub
+  END
+  CHOICE "Let's haggle."
+    CALL barter.haggle
+    GOTO farewell
+  END
+  CHOICE "Just passing through."
+    CALL rumours
+  END
+
+NODE farewell
+  MERCHANT: Safe travels.
+`;
+
+const RUMOURS = `
+NODE start
+  NARRATOR: They say the old mill is haunted.
+  GOTO done
+
+NODE done
+  RETURN
+`;
+
+const BARTER = `
+NODE start
+  MERCHANT: Buying or selling?
+
+NODE haggle
+  MERCHANT: My prices are fair.
+  CALL rumours
+  GOTO settle
+
+NODE settle
+  SET flag haggled
+  RETURN
+`;
+
+function createTestRegistry(
+    extra: Record<string, string> = {}
+): ContentRegistry {
+    const sources: Record<string, string> = {
+        merchant: MERCHANT,
+        rumours: RUMOURS,
+        barter: BARTER,
+        ...extra,
+    };
+    return {
+        locations: {
+            market: { id: 'market', name: 'Market', description: '' },
+        },
+        characters: {
+            merchant: {
+                id: 'merchant',
+                name: 'Merchant',
+                biography: '',
+                location: 'market',
+                dialogue: 'merchant',
+                stats: {},
+            },
+        },
+        items: {},
+        maps: {},
+        dialogues: Object.fromEntries(
+            Object.entries(sources).map(([id, source]) => [
+                id,
+                parseDialogue(source, id),
+            ])
+        ),
+        quests: {},
+        journalEntries: {},
+        interludes: {},
+        locales: {},
+    };
+}
+
+const config: GameConfig = {
+    title: 'Test Game',
+    startLocation: 'market',
+    startTime: { day: 1, hour: 9 },
+    startFlags: {},
+    startVariables: {},
+    startInventory: [],
+};
+
+function startGame(extra?: Record<string, string>): Engine {
+    const engine = new Engine(createTestRegistry(extra));
+    engine.newGame(config);
+    return engine;
+}
+
+function choose(engine: Engine, text: string) {
+    const choice = engine.getSnapshot().choices.find((c) => c.text === text);
+    return engine.selectChoice(choice!.id);
+}
+
+describe('CALL and RETURN', () => {
+    it('runs the called dialogue and returns to the GOTO of the choice', () => {
+        const engine = startGame();
+        engine.talkTo('merchant');
+
+        const called = choose(engine, 'Heard any rumours?');
+        expect(called.dialogue?.text).toBe('They say the old mill is haunted.');
+        expect(engine.getState().dialogueState).toEqual({
+            dialogueId: 'rumours',
+            nodeId: 'start',
+            callStack: [{ dialogueId: 'merchant', nodeId: 'hub' }],
+        });
+
+        const back = engine.continueDialogue();
+        expect(back.dialogue?.text).toBe("What'll it be?");
+        expect(back.choices).toHaveLength(3);
+        expect(engine.getState().dialogueState).toEqual({
+            dialogueId: 'merchant',
+            nodeId: 'hub',
+        });
+    });
+
+    it('begins at the named node and nests calls', () => {
+        const engine = startGame();
+        engine.talkTo('merchant');
+
+        expect(choose(engine, "Let's haggle.").dialogue?.text).toBe(
+            'My prices are fair.'
+        );
+        expect(engine.continueDialogue().dialogue?.text).toBe(
+            'They say the old mill is haunted.'
+        );
+        expect(engine.getState().dialogueState?.callStack).toEqual([
+            { dialogueId: 'merchant', nodeId: 'farewell' },
+            { dialogueId: 'barter', nodeId: 'settle' },
+        ]);
+
+        const snapshot = engine.continueDialogue();
+        expect(snapshot.dialogue?.text).toBe('Safe travels.');
+        expect(engine.getState().flags.haggled).toBe(true);
+        expect(engine.getState().dialogueState?.callStack).toBeUndefined();
+    });
+
+    it('ends the conversation on RETURN when the call had no GOTO', () => {
+        const engine = startGame();
+        engine.talkTo('merchant');
+
+        choose(engine, 'Just passing through.');
+        expect(engine.continueDialogue().dialogue).toBeNull();
+    });
+
+    it('calls from a node and from an IF block', () => {
+        const engine = startGame({
+            quiet: `
+NODE start
+  IF hasFlag gossip
+    CALL rumours
+  END
+  CALL barter.settle
+  GOTO after
+
+NODE after
+  NARRATOR: Back again.
+`,
+        });
+
+        const direct = engine.applyDebugEffect({
+            type: 'startDialogue',
+            dialogueId: 'quiet',
+        });
+        expect(direct.dialogue?.text).toBe('Back again.');
+        expect(engine.getState().flags.haggled).toBe(true);
+
+        engine.applyDebugEffect({ type: 'setFlag', flag: 'gossip' });
+        engine.applyDebugEffect({
+            type: 'startDialogue',
+            dialogueId: 'quiet',
+        });
+        expect(engine.getSnapshot().dialogue?.text).toBe(
+            'They say the old mill is haunted.'
+        );
+        expect(engine.continueDialogue().dialogue?.text).toBe('Back again.');
+    });
+
+    it('forgets the call stack when START replaces the conversation', () => {
+        const engine = startGame({
+            restart: `
+NODE start
+  NARRATOR: Let's start over.
+  START dialogue merchant
+`,
+        });
+        engine.talkTo('merchant');
+        choose(engine, 'Heard any rumours?');
+        engine.applyDebugEffect({
+            type: 'startDialogue',
+            dialogueId: 'restart',
+        });
+        engine.continueDialogue();
+
+        expect(engine.getState().dialogueState).toEqual({
+            dialogueId: 'merchant',
+            nodeId: 'hub',
+        });
+    });
+
+    it('says whether continuing past a RETURN ends the conversation', () => {
+        const engine = startGame({
+            aside: `
+NODE start
+  NARRATOR: An aside.
+  RETURN
+`,
+            caller: `
+NODE start
+  CALL aside
+  GOTO end
+
+NODE end
+  NARRATOR: The end.
+`,
+        });
+
+        engine.applyDebugEffect({
+            type: 'startDialogue',
+            dialogueId: 'caller',
+        });
+        expect(engine.getSnapshot().dialogue?.continueEndsDialogue).toBe(false);
+
+        engine.applyDebugEffect({ type: 'startDialogue', dialogueId: 'aside' });
+        expect(engine.getSnapshot().dialogue?.continueEndsDialogue).toBe(true);
+    });
+
+    it('keeps the call stack in a save', () => {
+        const engine = startGame();
+        engine.talkTo('merchant');
+        choose(engine, 'Heard any rumours?');
+
+        const loaded = startGame();
+        loaded.loadGame(engine.saveGame());
+        expect(loaded.continueDialogue().dialogue?.text).toBe("What'll it be?");
+    });
+});
+
+describe('CALL and RETURN tracing', () => {
+    it('reports the dialogue a CALL or RETURN moved to', () => {
+        const engine = startGame();
+        const events: TraceEvent[] = [];
+        engine.talkTo('merchant');
+        engine.setTrace({ onTransition: (e) => events.push(e) });
+
+        choose(engine, 'Heard any rumours?');
+        engine.continueDialogue();
+        engine.continueDialogue();
+
+        expect(events).toEqual([
+            {
+                kind: 'transition',
+                seq: expect.any(Number),
+                dialogueId: 'merchant',
+                fromNode: 'hub',
+                toNode: 'start',
+                choiceId: 'hub_choice_0_heard_any_rumours',
+                via: 'call',
+                toDialogue: 'rumours',
+            },
+            {
+                kind: 'transition',
+                seq: expect.any(Number),
+                dialogueId: 'rumours',
+                fromNode: 'start',
+                toNode: 'done',
+            },
+            {
+                kind: 'transition',
+                seq: expect.any(Number),
+                dialogueId: 'rumours',
+                fromNode: 'done',
+                toNode: 'hub',
+                via: 'return',
+                toDialogue: 'merchant',
+            },
+        ]);
+    });
+
+    it('ends the conversation at a RETURN no CALL is waiting for', () => {
+        const engine = startGame();
+        const errors: string[] = [];
+        engine.setTrace({ onError: (e) => errors.push(e.message) });
+
+        engine.applyDebugEffect({
+            type: 'startDialogue',
+            dialogueId: 'rumours',
+        });
+        expect(engine.continueDialogue().dialogue).toBeNull();
+        expect(errors).toEqual([
+            'Dialogue "rumours" reached a RETURN, but no CALL is waiting for it.',
+        ]);
+    });
+
+    it('ends a conversation that keeps calling without returning', () => {
+        const engine = startGame({
+            again: `
+NODE start
+  NARRATOR: Again?
+  CHOICE "Again."
+    CALL again
+    GOTO start
+  END
+`,
+        });
+        const errors: string[] = [];
+        engine.setTrace({ onError: (e) => errors.push(e.message) });
+        engine.applyDebugEffect({ type: 'startDialogue', dialogueId: 'again' });
+
+        for (let i = 0; i < 60 && engine.getSnapshot().dialogue; i++) {
+            engine.selectChoice(engine.getSnapshot().choices[0].id);
+        }
+
+        expect(engine.getSnapshot().dialogue).toBeNull();
+        expect(errors).toEqual([
+            'Dialogue "again" ended after 50 CALLs without a RETURN. Check its CALL routing for a loop.',
+        ]);
+    });
+});
@@ -0,0 +1,221 @@
+/**
+ * Tests for the conversation log: every line shown and every response chosen
+ * is kept in the game state and read back, localized, from the snapshot.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Engine } from '../engine';
+import { parseDialogue } from '../parser';
+import type { ContentRegistry } from '../types/registry';
+import type { GameConfig } from '../types/entities';
+
+const INNKEEPER = `
+NODE start
+  INNKEEPER: @inn.greeting
+  VOICE greeting.ogg
+  CHOICE "A room, please."
+    GOTO room
+  END
+  CHOICE "Nothing."
+    GOTO bye
+  END
+
+NODE room
+  INNKEEPER: Up the stairs.
+  GOTO hush
+
+NODE hush
+  GOTO whisper
+
+NODE whisper
+  NARRATOR: The stairs creak.
+
+NODE bye
+  END dialogue
+`;
+
+function createRegistry(): ContentRegistry {
+    return {
+        locations: {
+            inn: { id: 'inn', name: 'Inn', description: '' },
+        },
+        characters: {
+            innkeeper: {
+                id: 'innkeeper',
+                name: '@character.innkeeper',
+                biography: '',
+                location: 'inn',
+                dialogue: 'innkeeper',
+                stats: {},
+            },
+        },
+        items: {},
+        maps: {},
+        dialogues: { innkeeper: parseDialogue(INNKEEPER, 'innkeeper') },
+        quests: {},
+        journalEntries: {},
+        interludes: {},
+        locales: {
+            en: {
+                'character.innkeeper': 'Innkeeper',
+                'inn.greeting': 'Room or ale?',
+            },
+            sv: {
+                'character.innkeeper': 'Värdshusvärd',
+                'inn.greeting': 'Rum eller öl?',
+            },
+        },
+    };
+}
+
+const config: GameConfig = {
+    title: 'Test Game',
+    startLocation: 'inn',
+    startTime: { day: 1, hour: 20 },
+    startFlags: {},
+    startVariables: {},
+    startInventory: [],
+};
+
+function chooseText(engine: Engine, text: string) {
+    const choice = engine.getSnapshot().choices.find((c) => c.text === text);
+    return engine.selectChoice(choice!.id);
+}
+
+describe('dialogue log', () => {
+    it('records lines and chosen responses with speaker names', () => {
+        const engine = new Engine(createRegistry());
+        engine.newGame(config);
+        engine.talkTo('innkeeper');
+        chooseText(engine, 'A room, please.');
+        const snapshot = engine.continueDialogue();
+
+        expect(snapshot.dialogueLog).toEqual([
+            {
+                kind: 'line',
+                speaker: 'innkeeper',
+                speakerName: 'Innkeeper',
+                text: 'Room or ale?',
+                voice: 'assets/audio/voice/greeting.ogg',
+            },
+            {
+                kind: 'choice',
+                speaker: null,
+                speakerName: 'Player',
+                text: 'A room, please.',
+                voice: '',
+            },
+            {
+                kind: 'line',
+                speaker: 'innkeeper',
+                speakerName: 'Innkeeper',
+                text: 'Up the stairs.',
+                voice: '',
+            },
+            {
+                kind: 'line',
+                speaker: null,
+                speakerName: 'Narrator',
+                text: 'The stairs creak.',
+                voice: '',
+            },
+        ]);
+    });
+
+    it('keeps the log after the conversation ends', () => {
+        const engine = new Engine(createRegistry());
+        engine.newGame(config);
+        engine.talkTo('innkeeper');
+        const snapshot = chooseText(engine, 'Nothing.');
+
+        expect(snapshot.dialogue).toBeNull();
+        expect(snapshot.dialogueLog.map((entry) => entry.text)).toEqual([
+            'Room or ale?',
+            'Nothing.',
+        ]);
+    });
+
+    it('reads the log in the current language', () => {
+        const engine = new Engine(createRegistry());
+        engine.newGame(config);
+        engine.talkTo('innkeeper');
+
+        const snapshot = engine.setLocale('sv');
+
+        expect(snapshot.dialogueLog[0]).toMatchObject({
+            speakerName: 'Värdshusvärd',
+            text: 'Rum eller öl?',
+        });
+    });
+
+    it('keeps the variable values each entry showed when it was logged', () => {
+        const registry = createRegistry();
+        registry.dialogues.haggle = parseDialogue(
+            `
+NODE start
+  INNKEEPER: @inn.price
+  CHOICE "Pay {price} gold."
+    SET variable price 8
+    GOTO raised
+  END
+
+NODE raised
+  INNKEEPER: Now it is {price}.
+`,
+            'haggle'
+        );
+        registry.characters.innkeeper.dialogue = 'haggle';
+        registry.locales.en['inn.price'] = 'A room is {price} gold.';
+        registry.locales.sv['inn.price'] = 'Ett rum kostar {price} guld.';
+        const engine = new Engine(registry);
+        engine.newGame({ ...config, startVariables: { price: 5 } });
+        engine.talkTo('innkeeper');
+
+        const snapshot = chooseText(engine, 'Pay 5 gold.');
+
+        expect(snapshot.dialogueLog.map((entry) => entry.text)).toEqual([
+            'A room is 5 gold.',
+            'Pay 5 gold.',
+            'Now it is 8.',
+        ]);
+        expect(engine.setLocale('sv').dialogueLog[0].text).toBe(
+            'Ett rum kostar 5 guld.'
+        );
+    });
+
+    it('is saved and loaded with the game', () => {
+        const engine = new Engine(createRegistry());
+        engine.newGame(config);
+        engine.talkTo('innkeeper');
+        const save = engine.saveGame();
+
+        const loaded = new Engine(createRegistry());
+        const snapshot = loaded.loadGame(save);
+
+        expect(snapshot.dialogueLog).toHaveLength(1);
+    });
+
+    it('keeps only the most recent entries', () => {
+        const engine = new Engine(createRegistry());
+        engine.newGame(config);
+        for (let i = 0; i < 120; i++) {
+            engine.talkTo('innkeeper');
+            chooseText(engine, 'Nothing.');
+        }
+
+        const log = engine.getState().dialogueLog ?? [];
+
+        expect(log).toHaveLength(200);
+        expect(log[log.length - 1].text).toBe('Nothing.');
+    });
+
+    it('starts empty in a new game', () => {
+        const engine = new Engine(createRegistry());
+        engine.newGame(config);
+        engine.talkTo('innkeeper');
+
+        const snapshot = engine.newGame(config);
+
+        expect(snapshot.dialogueLog).toEqual([]);
+    });
+});
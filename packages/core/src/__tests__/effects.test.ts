@@ -111,6 +111,34 @@ describe('Effect Processors', () => {
 
             expect(newState.variables.playerName).toBe('Hero');
         });
+
+        it('should set the value of an expression', () => {
+            const effect: Effect = {
+                type: 'setVariable',
+                variable: 'price',
+                value: { expression: '{gold} / 4 - relationship(bartender)' },
+            };
+            const newState = applyEffect(effect, createTestState());
+
+            expect(newState.variables.price).toBe(20);
+        });
+
+        it('should advance the random state when an expression rolls dice', () => {
+            const effect: Effect = {
+                type: 'setVariable',
+                variable: 'damage',
+                value: { expression: '2d6' },
+            };
+            const state = { ...createTestState(), randomState: 7 };
+            const first = applyEffect(effect, state);
+            const second = applyEffect(effect, first);
+
+            expect(applyEffect(effect, state)).toEqual(first);
+            expect(first.randomState).not.toBe(7);
+            expect(second.randomState).not.toBe(first.randomState);
+            expect(first.variables.damage).toBeGreaterThanOrEqual(2);
+            expect(first.variables.damage).toBeLessThanOrEqual(12);
+        });
     });
 
     describe('addVariable', () => {
@@ -164,6 +192,19 @@ describe('Effect Processors', () => {
 
             expect(newState.variables.playerName).toBe(10);
         });
+
+        it('should add the value of an expression', () => {
+            const effect: Effect = {
+                type: 'addVariable',
+                variable: 'gold',
+                value: {
+                    expression: '{reputation} * 2 + stat(player, strength)',
+                },
+            };
+            const newState = applyEffect(effect, createTestState());
+
+            expect(newState.variables.gold).toBe(126);
+        });
     });
 
     describe('addItem', () => {
@@ -185,6 +226,28 @@ describe('Effect Processors', () => {
                 newState.inventory.filter((id) => id === 'rusty_key').length
             ).toBe(1);
         });
+
+        it('adds a count to the stack the player carries', () => {
+            const state = createTestState();
+            const once = applyEffect(
+                { type: 'addItem', itemId: 'potion', count: 3 },
+                state
+            );
+            const twice = applyEffect(
+                { type: 'addItem', itemId: 'potion', count: 2 },
+                once
+            );
+
+            expect(once.inventory.filter((id) => id === 'potion')).toEqual([
+                'potion',
+            ]);
+            expect(once.itemCounts?.potion).toBe(3);
+            expect(twice.itemCounts?.potion).toBe(5);
+            expect(
+                applyEffect({ type: 'addItem', itemId: 'potion' }, twice)
+                    .itemCounts?.potion
+            ).toBe(5);
+        });
     });
 
     describe('removeItem', () => {
@@ -228,6 +291,39 @@ describe('Effect Processors', () => {
             expect(twice.inventory).toEqual([]);
             expect(twice.itemLocations.rusty_key).toBeUndefined();
         });
+
+        it('takes a count from the stack and removes the last one', () => {
+            const state = createTestState();
+            state.inventory = ['potion'];
+            state.itemLocations = { potion: 'inventory' };
+            state.itemCounts = { potion: 3 };
+            const take = (count: number, from: typeof state) =>
+                applyEffect(
+                    { type: 'removeItem', itemId: 'potion', count },
+                    from
+                );
+
+            const left = take(2, state);
+            expect(left.inventory).toEqual(['potion']);
+            expect(left.itemCounts).toEqual({ potion: 1 });
+
+            const gone = take(1, left);
+            expect(gone.inventory).toEqual([]);
+            expect(gone.itemLocations.potion).toBeUndefined();
+            expect(gone.itemCounts).toEqual({});
+        });
+
+        it('leaves an item the player does not carry when given a count', () => {
+            const state = createTestState();
+            state.itemLocations = { rusty_key: 'tavern' };
+            state.inventory = [];
+            const newState = applyEffect(
+                { type: 'removeItem', itemId: 'rusty_key', count: 1 },
+                state
+            );
+
+            expect(newState.itemLocations.rusty_key).toBe('tavern');
+        });
     });
 
     describe('moveItem', () => {
@@ -243,6 +339,17 @@ describe('Effect Processors', () => {
             expect(newState.inventory).not.toContain('rusty_key');
             expect(newState.itemLocations.rusty_key).toBe('cellar');
         });
+
+        it('moves the whole stack', () => {
+            const state = createTestState();
+            state.itemCounts = { rusty_key: 4 };
+            const newState = applyEffect(
+                { type: 'moveItem', itemId: 'rusty_key', locationId: 'cellar' },
+                state
+            );
+
+            expect(newState.itemCounts).toEqual({});
+        });
     });
 
     describe('goToLocation', () => {
@@ -425,6 +532,42 @@ describe('Effect Processors', () => {
         });
     });
 
+    describe('clearCharacterLocation', () => {
+        it('should put a moved character back on its schedule', () => {
+            const moved = applyEffect(
+                {
+                    type: 'setCharacterLocation',
+                    characterId: 'bartender',
+                    locationId: 'market',
+                },
+                createTestState()
+            );
+            const newState = applyEffect(
+                { type: 'clearCharacterLocation', characterId: 'bartender' },
+                moved
+            );
+
+            expect(moved.characterState.bartender.scheduleOverridden).toBe(
+                true
+            );
+            expect(
+                newState.characterState.bartender.scheduleOverridden
+            ).toBeUndefined();
+            // Schedules move the character when they next apply.
+            expect(newState.characterState.bartender.location).toBe('market');
+        });
+
+        it('should leave a character on schedule alone', () => {
+            const state = createTestState();
+            const newState = applyEffect(
+                { type: 'clearCharacterLocation', characterId: 'bartender' },
+                state
+            );
+
+            expect(newState).toBe(state);
+        });
+    });
+
     describe('addToParty', () => {
         it('should add character to party', () => {
             const effect: Effect = {
@@ -778,6 +921,35 @@ describe('Effect Processors', () => {
 
             expect(newState.variables['gold']).toBe(5);
         });
+
+        it('should roll the same value from the same random state', () => {
+            const effect: Effect = {
+                type: 'roll',
+                variable: 'bluffRoll',
+                min: 1,
+                max: 20,
+            };
+            const state = { ...createTestState(), randomState: 42 };
+            const first = applyEffect(effect, state);
+            const second = applyEffect(effect, state);
+
+            expect(first.variables['bluffRoll']).toBe(
+                second.variables['bluffRoll']
+            );
+        });
+
+        it('should advance the random state', () => {
+            const effect: Effect = {
+                type: 'roll',
+                variable: 'bluffRoll',
+                min: 1,
+                max: 20,
+            };
+            const state = { ...createTestState(), randomState: 42 };
+            const newState = applyEffect(effect, state);
+
+            expect(newState.randomState).not.toBe(42);
+        });
     });
 
     describe('showInterlude', () => {
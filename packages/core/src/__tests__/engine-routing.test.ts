@@ -3,11 +3,13 @@
  *
  * Silent nodes and START dialogue redirects advance on their own, so the
  * engine caps how far one player action can auto-route. These tests cover
- * the cap and the refusal to travel on a map with an unusable scale.
+ * the cap and the refusal to travel on a map with an unusable scale, and
+ * how rolls in a list of trigger conditions use up the random generator.
  */
 
-import { describe, it, expect, vi } from 'vitest';
+import { describe, it, expect } from 'vitest';
 import { Engine } from '../engine';
+import { createRandomState, nextRandom, rollInteger } from '../random';
 import type { ContentRegistry } from '../types/registry';
 import type { GameConfig, DialogueNode } from '../types/entities';
 
@@ -366,20 +368,17 @@ describe('dialogue continuation labels', () => {
                 },
             })
         );
-        engine.newGame(config);
+        // Seed 1 rolls a 2 on the first draw, so the branch ends the dialogue.
+        engine.newGame(config, 1);
+        const before = engine.getState().randomState;
 
-        const random = vi.spyOn(Math, 'random').mockReturnValue(0.99);
-        try {
-            const shown = engine.talkTo('bob');
-            expect(shown.dialogue?.continueEndsDialogue).toBe(false);
-            expect(random).not.toHaveBeenCalled();
+        const shown = engine.talkTo('bob');
+        expect(shown.dialogue?.continueEndsDialogue).toBe(false);
+        expect(engine.getState().randomState).toBe(before);
 
-            const afterClick = engine.continueDialogue();
-            expect(random).toHaveBeenCalledTimes(1);
-            expect(afterClick.dialogue).toBeNull();
-        } finally {
-            random.mockRestore();
-        }
+        const afterClick = engine.continueDialogue();
+        expect(engine.getState().randomState).not.toBe(before);
+        expect(afterClick.dialogue).toBeNull();
     });
 });
 
@@ -441,3 +440,58 @@ describe('travel with a bad map scale', () => {
         expect(snapshot.time.hour).toBe(9);
     });
 });
+
+describe('rolls in a condition list', () => {
+    const ambush: ContentRegistry['dialogues'] = {
+        ambush: {
+            id: 'ambush',
+            startNode: 'start',
+            triggerLocation: 'town',
+            conditions: [
+                { type: 'roll', min: 1, max: 2, threshold: 2 },
+                { type: 'roll', min: 1, max: 2, threshold: 2 },
+            ],
+            nodes: [
+                {
+                    id: 'start',
+                    speaker: null,
+                    text: 'Bandits!',
+                    choices: [],
+                },
+            ],
+        },
+    };
+
+    /** The first seed whose first two rolls of 1-2 come up as given. */
+    function seedRolling(first: number, second: number): number {
+        for (let seed = 0; ; seed++) {
+            const state = createRandomState(seed);
+            if (
+                rollInteger(state, 1, 2).value === first &&
+                rollInteger(nextRandom(state).state, 1, 2).value === second
+            ) {
+                return seed;
+            }
+        }
+    }
+
+    it('gives each roll its own value', () => {
+        const engine = new Engine(registryWith(ambush));
+
+        expect(engine.newGame(config, seedRolling(2, 1)).dialogue).toBeNull();
+        expect(engine.newGame(config, seedRolling(2, 2)).dialogue?.text).toBe(
+            'Bandits!'
+        );
+    });
+
+    it('uses up one value for each roll it checks', () => {
+        const engine = new Engine(registryWith(ambush));
+        const seed = seedRolling(2, 2);
+
+        engine.newGame(config, seed);
+
+        expect(engine.getState().randomState).toBe(
+            nextRandom(nextRandom(createRandomState(seed)).state).state
+        );
+    });
+});
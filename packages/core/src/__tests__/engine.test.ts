@@ -350,6 +350,17 @@ describe('Engine', () => {
             expect(saveData.state.itemLocations.rusty_key).toBe('inventory');
         });
 
+        it('should stack an item listed more than once in startInventory', () => {
+            const snapshot = engine.newGame({
+                ...createTestConfig(),
+                startInventory: ['rusty_key', 'rusty_key'],
+            });
+
+            expect(
+                snapshot.inventory.map((item) => [item.id, item.count])
+            ).toEqual([['rusty_key', 2]]);
+        });
+
         it('should check for triggered dialogues and apply effects', () => {
             const config = createTestConfig();
             const snapshot = engine.newGame(config);
@@ -367,6 +378,17 @@ describe('Engine', () => {
             const snapshot2 = engine.continueDialogue();
             expect(snapshot2.dialogue).toBeNull();
         });
+
+        it('seeds rolls from the seed argument or config.randomSeed', () => {
+            engine.newGame(createTestConfig(), 'run-1');
+            const fromArgument = engine.saveGame().state.randomState;
+
+            const other = new Engine(registry);
+            other.newGame({ ...createTestConfig(), randomSeed: 'run-1' });
+
+            expect(fromArgument).toBeDefined();
+            expect(other.saveGame().state.randomState).toBe(fromArgument);
+        });
     });
 
     describe('saveGame / loadGame', () => {
@@ -417,7 +439,7 @@ describe('Engine', () => {
 
             const saveData = engine.saveGame();
 
-            expect(saveData.version).toBe('1.0');
+            expect(saveData.version).toBe('1.5');
             expect(saveData.timestamp).toBeDefined();
             expect(saveData.state.flags.greetedBartender).toBe(true);
 
@@ -428,6 +450,75 @@ describe('Engine', () => {
             expect(snapshot.variables.gold).toBe(100);
             expect(snapshot.location.id).toBe('tavern');
         });
+
+        it('restores the random state so a reload does not re-roll', () => {
+            engine.newGame(createTestConfig(), 5);
+            const saveData = engine.saveGame();
+
+            const newEngine = new Engine(registry);
+            newEngine.loadGame(saveData);
+
+            expect(newEngine.saveGame().state.randomState).toBe(
+                saveData.state.randomState
+            );
+        });
+
+        it('fills in a random state for saves made before it existed', () => {
+            engine.newGame(createTestConfig());
+            const saveData = engine.saveGame();
+            const { randomState: _omitted, ...oldState } = saveData.state;
+
+            const newEngine = new Engine(registry);
+            newEngine.loadGame({
+                ...saveData,
+                version: '1.0',
+                state: oldState,
+            });
+
+            expect(typeof newEngine.saveGame().state.randomState).toBe(
+                'number'
+            );
+        });
+
+        it('reports the migrations and repairs a load made', () => {
+            engine.newGame(createTestConfig());
+            const saveData = engine.saveGame();
+            const newEngine = new Engine(registry);
+            expect(newEngine.getLoadReport()).toBeNull();
+
+            newEngine.loadGame(saveData);
+            expect(newEngine.getLoadReport()).toEqual({
+                fromVersion: '1.5',
+                toVersion: '1.5',
+                migrations: [],
+                repairs: [],
+            });
+
+            const snapshot = newEngine.loadGame({
+                ...saveData,
+                version: '1.0',
+                state: {
+                    ...saveData.state,
+                    inventory: ['rusty_key', 'melted_key'],
+                    dialogueState: {
+                        dialogueId: 'bartender_greeting',
+                        nodeId: 'deleted_node',
+                    },
+                },
+            });
+            const report = newEngine.getLoadReport();
+
+            expect(report?.fromVersion).toBe('1.0');
+            expect(report?.migrations).toHaveLength(5);
+            expect(report?.repairs.map((r) => r.field)).toEqual([
+                'inventory',
+                'dialogueState',
+            ]);
+            expect(snapshot.dialogue).toBeNull();
+            expect(snapshot.inventory.map((item) => item.id)).toEqual([
+                'rusty_key',
+            ]);
+        });
     });
 
     describe('talkTo', () => {
@@ -0,0 +1,351 @@
+/**
+ * Tests for timed events: the pure due-event helpers and how the engine
+ * fires events as the game clock moves.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { absoluteHour, dueEvents, updateEventTimers } from '../events';
+import { Engine } from '../engine';
+import type { ContentRegistry } from '../types/registry';
+import type { GameConfig, GameEvent } from '../types/entities';
+
+function createTestRegistry(
+    events: Record<string, GameEvent>
+): ContentRegistry {
+    return {
+        locations: {
+            tavern: {
+                id: 'tavern',
+                name: 'Tavern',
+                description: '',
+                banner: '',
+                music: '',
+                ambient: '',
+            },
+            port: {
+                id: 'port',
+                name: 'Port',
+                description: '',
+                banner: '',
+                music: '',
+                ambient: '',
+            },
+        },
+        characters: {},
+        items: {},
+        maps: {
+            coast: {
+                id: 'coast',
+                name: 'Coast',
+                image: '',
+                scale: 10,
+                locations: [
+                    { id: 'tavern', x: 0, y: 0 },
+                    { id: 'port', x: 300, y: 0 },
+                ],
+            },
+        },
+        dialogues: {
+            messenger: {
+                id: 'messenger',
+                startNode: 'start',
+                nodes: [
+                    {
+                        id: 'start',
+                        speaker: null,
+                        text: 'A messenger arrives.',
+                        choices: [{ id: 'ok', text: 'Thanks.', next: 'end' }],
+                    },
+                    { id: 'end', speaker: null, text: 'Bye.', choices: [] },
+                ],
+            },
+            guard: {
+                id: 'guard',
+                startNode: 'start',
+                nodes: [
+                    {
+                        id: 'start',
+                        speaker: null,
+                        text: 'Halt!',
+                        choices: [{ id: 'ok', text: 'Sorry.', next: 'end' }],
+                    },
+                    { id: 'end', speaker: null, text: 'Move on.', choices: [] },
+                ],
+            },
+        },
+        quests: {},
+        journalEntries: {},
+        interludes: {
+            nightfall: {
+                id: 'nightfall',
+                text: 'Night falls.',
+                effects: [{ type: 'setFlag', flag: 'sawNightfall' }],
+            },
+        },
+        locales: {},
+        events,
+    };
+}
+
+function createTestConfig(): GameConfig {
+    return {
+        title: 'Test Game',
+        startLocation: 'tavern',
+        startTime: { day: 1, hour: 8 },
+        startFlags: {},
+        startVariables: { candles: 0 },
+        startInventory: [],
+    };
+}
+
+describe('absoluteHour', () => {
+    it('counts hours from the start of day 1', () => {
+        expect(absoluteHour({ day: 1, hour: 0 })).toBe(0);
+        expect(absoluteHour({ day: 3, hour: 18 })).toBe(66);
+    });
+});
+
+describe('dueEvents', () => {
+    const at: GameEvent = {
+        id: 'at',
+        trigger: { type: 'at', day: 2, hour: 6 },
+    };
+    const evening: GameEvent = {
+        id: 'evening',
+        trigger: { type: 'daily', hour: 18 },
+    };
+    const fever: GameEvent = {
+        id: 'fever',
+        trigger: { type: 'afterFlag', flag: 'bitten', hours: 12 },
+    };
+
+    it('finds events after the start and up to the end of the span', () => {
+        const due = dueEvents([at, evening, fever], { fever: 20 }, 18, 42);
+        expect(due.map((d) => [d.event.id, d.hour])).toEqual([
+            ['at', 30],
+            ['fever', 32],
+            ['evening', 42],
+        ]);
+    });
+
+    it('lists a daily event once for each day it passes', () => {
+        expect(dueEvents([evening], {}, 0, 24 * 3).map((d) => d.hour)).toEqual([
+            18, 42, 66,
+        ]);
+    });
+
+    it('skips afterFlag events whose countdown has not started', () => {
+        expect(dueEvents([fever], {}, 0, 100)).toEqual([]);
+    });
+});
+
+describe('updateEventTimers', () => {
+    const fever: GameEvent = {
+        id: 'fever',
+        trigger: { type: 'afterFlag', flag: 'bitten', hours: 12 },
+    };
+
+    it('starts a countdown when the flag is set and drops it when cleared', () => {
+        const started = updateEventTimers([fever], { bitten: true }, {}, 10);
+        expect(started).toEqual({ fever: 10 });
+        expect(updateEventTimers([fever], { bitten: true }, started, 15)).toBe(
+            started
+        );
+        expect(updateEventTimers([fever], {}, started, 15)).toEqual({});
+    });
+});
+
+describe('Engine timed events', () => {
+    it('applies effects when the clock passes an event', () => {
+        const engine = new Engine(
+            createTestRegistry({
+                bell: {
+                    id: 'bell',
+                    trigger: { type: 'at', day: 1, hour: 12 },
+                    effects: [{ type: 'setFlag', flag: 'bellRang' }],
+                },
+            })
+        );
+        engine.newGame(createTestConfig());
+
+        engine.applyDebugEffect({ type: 'advanceTime', hours: 3 });
+        expect(engine.saveGame().state.flags.bellRang).toBeUndefined();
+
+        engine.applyDebugEffect({ type: 'advanceTime', hours: 1 });
+        expect(engine.saveGame().state.flags.bellRang).toBe(true);
+    });
+
+    it('fires events due at the start time of a new game', () => {
+        const engine = new Engine(
+            createTestRegistry({
+                dawn: {
+                    id: 'dawn',
+                    trigger: { type: 'at', day: 1, hour: 8 },
+                    effects: [{ type: 'setFlag', flag: 'dawn' }],
+                },
+            })
+        );
+        engine.newGame(createTestConfig());
+        expect(engine.saveGame().state.flags.dawn).toBe(true);
+    });
+
+    it('runs a daily event once for every day that passes', () => {
+        const engine = new Engine(
+            createTestRegistry({
+                evening: {
+                    id: 'evening',
+                    trigger: { type: 'daily', hour: 18 },
+                    effects: [
+                        { type: 'addVariable', variable: 'candles', value: 1 },
+                    ],
+                },
+            })
+        );
+        engine.newGame(createTestConfig());
+
+        const snapshot = engine.applyDebugEffect({
+            type: 'advanceTime',
+            hours: 48,
+        });
+        expect(snapshot.variables.candles).toBe(2);
+    });
+
+    it('fires events the clock passes during travel', () => {
+        const engine = new Engine(
+            createTestRegistry({
+                tide: {
+                    id: 'tide',
+                    trigger: { type: 'at', day: 1, hour: 20 },
+                    dialogue: 'messenger',
+                },
+            })
+        );
+        engine.newGame(createTestConfig());
+
+        // 300 units at scale 10 is a 30-hour trip.
+        const snapshot = engine.travelTo('port');
+        expect(snapshot.location.id).toBe('port');
+        expect(snapshot.dialogue?.text).toBe('A messenger arrives.');
+    });
+
+    it('fires an afterFlag event the given hours after the flag is set', () => {
+        const engine = new Engine(
+            createTestRegistry({
+                fever: {
+                    id: 'fever',
+                    trigger: { type: 'afterFlag', flag: 'bitten', hours: 6 },
+                    effects: [{ type: 'setFlag', flag: 'feverish' }],
+                },
+            })
+        );
+        engine.newGame(createTestConfig());
+        engine.applyDebugEffect({ type: 'setFlag', flag: 'bitten' });
+
+        engine.applyDebugEffect({ type: 'advanceTime', hours: 5 });
+        expect(engine.saveGame().state.flags.feverish).toBeUndefined();
+
+        engine.applyDebugEffect({ type: 'advanceTime', hours: 1 });
+        expect(engine.saveGame().state.flags.feverish).toBe(true);
+    });
+
+    it('stops the countdown when the flag is cleared', () => {
+        const engine = new Engine(
+            createTestRegistry({
+                fever: {
+                    id: 'fever',
+                    trigger: { type: 'afterFlag', flag: 'bitten', hours: 6 },
+                    effects: [{ type: 'setFlag', flag: 'feverish' }],
+                },
+            })
+        );
+        engine.newGame(createTestConfig());
+        engine.applyDebugEffect({ type: 'setFlag', flag: 'bitten' });
+        engine.applyDebugEffect({ type: 'clearFlag', flag: 'bitten' });
+        engine.applyDebugEffect({ type: 'advanceTime', hours: 10 });
+
+        expect(engine.saveGame().state.flags.feverish).toBeUndefined();
+    });
+
+    it('skips an event whose conditions fail', () => {
+        const engine = new Engine(
+            createTestRegistry({
+                bell: {
+                    id: 'bell',
+                    trigger: { type: 'at', day: 1, hour: 9 },
+                    conditions: [{ type: 'hasFlag', flag: 'belfryOpen' }],
+                    effects: [{ type: 'setFlag', flag: 'bellRang' }],
+                },
+            })
+        );
+        engine.newGame(createTestConfig());
+        const snapshot = engine.applyDebugEffect({
+            type: 'advanceTime',
+            hours: 2,
+        });
+
+        expect(engine.saveGame().state.flags.bellRang).toBeUndefined();
+    });
+
+    it('queues an event dialogue until the current conversation ends', () => {
+        const engine = new Engine(
+            createTestRegistry({
+                patrol: {
+                    id: 'patrol',
+                    trigger: { type: 'at', day: 1, hour: 10 },
+                    dialogue: 'guard',
+                },
+            })
+        );
+        engine.newGame(createTestConfig());
+        engine.startDialogueAt('messenger', 'start');
+
+        let snapshot = engine.applyDebugEffect({
+            type: 'advanceTime',
+            hours: 4,
+        });
+        expect(snapshot.dialogue?.text).toBe('A messenger arrives.');
+
+        engine.selectChoice('ok');
+        snapshot = engine.continueDialogue();
+        expect(snapshot.dialogue?.text).toBe('Halt!');
+    });
+
+    it('shows an event interlude and applies its effects', () => {
+        const engine = new Engine(
+            createTestRegistry({
+                night: {
+                    id: 'night',
+                    trigger: { type: 'daily', hour: 21 },
+                    interlude: 'nightfall',
+                },
+            })
+        );
+        engine.newGame(createTestConfig());
+        const snapshot = engine.applyDebugEffect({
+            type: 'advanceTime',
+            hours: 13,
+        });
+
+        expect(snapshot.pendingInterlude?.id).toBe('nightfall');
+        expect(engine.saveGame().state.flags.sawNightfall).toBe(true);
+    });
+
+    it('does not fire events that passed before a save was made', () => {
+        const registry = createTestRegistry({
+            bell: {
+                id: 'bell',
+                trigger: { type: 'at', day: 1, hour: 9 },
+                effects: [
+                    { type: 'addVariable', variable: 'candles', value: 1 },
+                ],
+            },
+        });
+        const engine = new Engine(registry);
+        engine.newGame(createTestConfig());
+        engine.applyDebugEffect({ type: 'advanceTime', hours: 2 });
+
+        const loaded = new Engine(registry);
+        const snapshot = loaded.loadGame(engine.saveGame());
+        expect(snapshot.variables.candles).toBe(1);
+    });
+});
@@ -0,0 +1,198 @@
+/**
+ * Tests for location exits: which exits are offered and what taking one does.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { availableExits, exitHours } from '../exits';
+import { Engine, createInitialState } from '../engine';
+import { ReferenceIndex } from '../reference-index';
+import type { ContentRegistry } from '../types/registry';
+import type { GameConfig, Location } from '../types/entities';
+import type { TraceEvent } from '../types/trace';
+
+function location(id: string, exits?: Location['exits']): Location {
+    return {
+        id,
+        name: id,
+        description: '',
+        banner: '',
+        music: '',
+        ambient: '',
+        exits,
+    };
+}
+
+function createTestRegistry(): ContentRegistry {
+    return {
+        locations: {
+            hall: location('hall', [
+                {
+                    id: 'north',
+                    label: '@exit.hall.north',
+                    target: 'cellar',
+                    hours: 0.5,
+                    effects: [{ type: 'setFlag', flag: 'visitedCellar' }],
+                },
+                {
+                    id: 'east',
+                    label: 'East to the vault',
+                    target: 'vault',
+                    conditions: [{ type: 'hasItem', itemId: 'key' }],
+                },
+                { id: 'west', label: 'West', target: 'nowhere' },
+            ]),
+            cellar: location('cellar', [
+                { id: 'up', label: 'Up', target: 'hall', hours: 1 },
+            ]),
+            vault: location('vault'),
+        },
+        characters: {
+            guard: {
+                id: 'guard',
+                name: 'Guard',
+                biography: '',
+                portrait: '',
+                location: 'hall',
+                dialogue: '',
+                stats: {},
+            },
+        },
+        items: {},
+        maps: {},
+        dialogues: {
+            cellar_greeting: {
+                id: 'cellar_greeting',
+                triggerLocation: 'cellar',
+                conditions: [{ type: 'hasFlag', flag: 'visitedCellar' }],
+                startNode: 'start',
+                nodes: [
+                    {
+                        id: 'start',
+                        speaker: null,
+                        text: 'Damp stone walls.',
+                        choices: [],
+                    },
+                ],
+            },
+        },
+        quests: {},
+        journalEntries: {},
+        interludes: {},
+        locales: { en: { 'exit.hall.north': 'North to the cellar' } },
+    };
+}
+
+const config: GameConfig = {
+    title: 'Test Game',
+    startLocation: 'hall',
+    startTime: { day: 1, hour: 8 },
+    startFlags: {},
+    startVariables: {},
+    startInventory: [],
+};
+
+describe('availableExits', () => {
+    it('offers exits whose destination exists and conditions pass', () => {
+        const registry = createTestRegistry();
+        const state = { ...createInitialState(), currentLocation: 'hall' };
+        const hall = registry.locations.hall;
+
+        expect(
+            availableExits(hall, state, registry).map((exit) => exit.id)
+        ).toEqual(['north']);
+        expect(
+            availableExits(
+                hall,
+                { ...state, inventory: ['key'] },
+                registry
+            ).map((exit) => exit.id)
+        ).toEqual(['north', 'east']);
+    });
+
+    it('counts a missing or invalid trip length as no time', () => {
+        expect(exitHours({ id: 'a', label: 'A', target: 'b' })).toBe(0);
+        expect(exitHours({ id: 'a', label: 'A', target: 'b', hours: -2 })).toBe(
+            0
+        );
+        expect(exitHours({ id: 'a', label: 'A', target: 'b', hours: 3 })).toBe(
+            3
+        );
+    });
+});
+
+describe('Engine.takeExit', () => {
+    it('lists the exits in the location snapshot', () => {
+        const engine = new Engine(createTestRegistry());
+        const snapshot = engine.newGame(config);
+
+        expect(snapshot.location.exits).toEqual([
+            {
+                id: 'north',
+                label: 'North to the cellar',
+                target: 'cellar',
+                hours: 0.5,
+            },
+        ]);
+    });
+
+    it('walks to the destination with the party, time, and effects', () => {
+        const engine = new Engine(createTestRegistry());
+        engine.newGame(config);
+        engine.applyDebugEffect({
+            type: 'addToParty',
+            characterId: 'guard',
+        });
+
+        const snapshot = engine.takeExit('north');
+
+        expect(snapshot.location.id).toBe('cellar');
+        expect(snapshot.time).toEqual({ day: 1, hour: 8, minute: 30 });
+        expect(engine.getState().flags.visitedCellar).toBe(true);
+        expect(engine.getState().characterState.guard.location).toBe('cellar');
+        // The exit's effects ran before the cellar's trigger was checked.
+        expect(snapshot.dialogue?.text).toBe('Damp stone walls.');
+    });
+
+    it('works without a map, even when map travel is off', () => {
+        const engine = new Engine(createTestRegistry());
+        engine.newGame(config);
+        engine.applyDebugEffect({ type: 'setMapEnabled', enabled: false });
+
+        expect(engine.takeExit('north').location.id).toBe('cellar');
+        expect(engine.takeExit('up').location.id).toBe('hall');
+    });
+
+    it('ignores unknown, blocked, and dangling exits', () => {
+        const events: TraceEvent[] = [];
+        const engine = new Engine(createTestRegistry());
+        engine.newGame(config);
+        engine.setTrace({ onCondition: (event) => events.push(event) });
+
+        expect(engine.takeExit('south').location.id).toBe('hall');
+        expect(engine.takeExit('west').location.id).toBe('hall');
+        expect(engine.takeExit('east').location.id).toBe('hall');
+        expect(engine.canRewind()).toBe(false);
+        expect(events.at(-1)).toMatchObject({
+            result: false,
+            context: { type: 'exit', locationId: 'hall', exitId: 'east' },
+        });
+    });
+
+    it('can be taken back with rewind', () => {
+        const engine = new Engine(createTestRegistry());
+        engine.newGame({ ...config, allowRewind: true });
+        engine.takeExit('north');
+
+        expect(engine.rewind().location.id).toBe('hall');
+    });
+});
+
+describe('exit references', () => {
+    it('records the destination of each exit', () => {
+        const index = new ReferenceIndex(createTestRegistry(), new Map());
+
+        expect(
+            index.find('locations', 'cellar').map((ref) => ref.where)
+        ).toContain('location "hall" exit "north"');
+    });
+});
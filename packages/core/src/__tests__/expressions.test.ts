@@ -0,0 +1,184 @@
+/**
+ * Tests for arithmetic expressions.
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+    evaluateExpression,
+    expressionReferences,
+    parseExpression,
+    renameInExpression,
+} from '../expressions';
+import { createRandomState } from '../random';
+import type { GameState } from '../types/state';
+
+function createTestState(): GameState {
+    return {
+        player: {
+            playerCreatesProfile: false,
+            name: 'Hero',
+            title: '',
+            biography: '',
+            portrait: '',
+            profileComplete: true,
+            stats: { strength: 16, class: '@class.ranger' },
+        },
+        currentLocation: 'tavern',
+        currentTime: { day: 1, hour: 14 },
+        flags: {},
+        variables: { basePrice: 10, discount: 3, playerName: 'Hero' },
+        inventory: [],
+        questProgress: {},
+        unlockedJournalEntries: [],
+        playerNotes: [],
+        dialogueState: null,
+        characterState: {
+            bartender: {
+                location: 'tavern',
+                inParty: false,
+                relationship: 5,
+                stats: { charm: 2 },
+            },
+        },
+        itemLocations: {},
+        mapEnabled: true,
+        notifications: [],
+        pendingSounds: [],
+        musicOverride: null,
+        pendingVideo: null,
+        pendingInterlude: null,
+        currentLocale: 'en',
+    };
+}
+
+function evaluate(expression: string, state = createTestState()): number {
+    return evaluateExpression({ expression }, state).value;
+}
+
+describe('parseExpression', () => {
+    it('parses variables in braces or bare', () => {
+        expect(parseExpression('{gold}')).toEqual({
+            kind: 'variable',
+            name: 'gold',
+        });
+        expect(parseExpression('gold')).toEqual({
+            kind: 'variable',
+            name: 'gold',
+        });
+    });
+
+    it('parses dice', () => {
+        expect(parseExpression('2d6')).toEqual({
+            kind: 'dice',
+            count: 2,
+            sides: 6,
+        });
+        expect(parseExpression('d20')).toEqual({
+            kind: 'dice',
+            count: 1,
+            sides: 20,
+        });
+    });
+
+    it('rejects malformed expressions', () => {
+        expect(() => parseExpression('{gold} *')).toThrow();
+        expect(() => parseExpression('(1 + 2')).toThrow();
+        expect(() => parseExpression('{gold} $ 2')).toThrow();
+        expect(() => parseExpression('floor(1, 2)')).toThrow();
+        expect(() => parseExpression('sqrt(4)')).toThrow();
+        expect(() => parseExpression('500d6')).toThrow();
+    });
+});
+
+describe('evaluateExpression', () => {
+    it('follows arithmetic precedence', () => {
+        expect(evaluate('{basePrice} * 2 - {discount}')).toBe(17);
+        expect(evaluate('2 + 3 * 4')).toBe(14);
+        expect(evaluate('(2 + 3) * 4')).toBe(20);
+        expect(evaluate('-{discount} + 10 % 4')).toBe(-1);
+    });
+
+    it('reads character stats and relationships', () => {
+        expect(evaluate('stat(player, strength) + 1')).toBe(17);
+        expect(evaluate('stat(bartender, charm)')).toBe(2);
+        expect(evaluate('relationship(bartender) * 2')).toBe(10);
+    });
+
+    it('calls min, max, and floor', () => {
+        expect(evaluate('min(5, {basePrice}, 8)')).toBe(5);
+        expect(evaluate('max(0, {discount} - 10)')).toBe(0);
+        expect(evaluate('floor(7 / 2)')).toBe(3);
+    });
+
+    it('reads missing and text values as 0 and never returns NaN', () => {
+        expect(evaluate('{missing} + 1')).toBe(1);
+        expect(evaluate('{playerName} + 1')).toBe(1);
+        expect(evaluate('stat(player, class) + stat(nobody, luck)')).toBe(0);
+        expect(evaluate('{basePrice} / 0')).toBe(0);
+    });
+
+    it('passes plain numbers through', () => {
+        expect(evaluateExpression(4, createTestState()).value).toBe(4);
+    });
+
+    it('rolls dice from the random state', () => {
+        const state = {
+            ...createTestState(),
+            randomState: createRandomState(7),
+        };
+        const first = evaluateExpression({ expression: '3d6' }, state);
+        const again = evaluateExpression({ expression: '3d6' }, state);
+
+        expect(again).toEqual(first);
+        expect(first.value).toBeGreaterThanOrEqual(3);
+        expect(first.value).toBeLessThanOrEqual(18);
+        expect(first.randomState).not.toBe(state.randomState);
+    });
+});
+
+describe('expressionReferences', () => {
+    it('lists the variables and characters an expression reads', () => {
+        expect(
+            expressionReferences({
+                expression:
+                    '{gold} + gold + stat(player, luck) + relationship(bartender) + d4',
+            })
+        ).toEqual({
+            variables: ['gold'],
+            characters: ['player', 'bartender'],
+            dice: true,
+        });
+    });
+
+    it('reports nothing for a plain number', () => {
+        expect(expressionReferences(5)).toEqual({
+            variables: [],
+            characters: [],
+            dice: false,
+        });
+    });
+});
+
+describe('renameInExpression', () => {
+    it('renames variables and keeps the rest of the text', () => {
+        expect(
+            renameInExpression(
+                '{gold}*2 + gold - golden',
+                'variable',
+                'gold',
+                'coins'
+            )
+        ).toBe('{coins}*2 + coins - golden');
+    });
+
+    it('renames characters without touching stat names', () => {
+        expect(
+            renameInExpression(
+                'stat(bartender, bartender) + relationship(bartender)',
+                'character',
+                'bartender',
+                'marcus'
+            )
+        ).toBe('stat(marcus, bartender) + relationship(marcus)');
+    });
+});
@@ -0,0 +1,229 @@
+/**
+ * Tests for factions: shared reputation set and checked from dialogue, named
+ * tiers for reputation and relationships, and repair of saves made before a
+ * faction existed.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { relationshipTiers, standingTier } from '../factions';
+import { applyEffect } from '../effects';
+import { evaluateCondition } from '../conditions';
+import { Engine, createInitialState } from '../engine';
+import { parseCondition, parseEffect } from '../parser';
+import { repairGameState } from '../save';
+import type { ContentRegistry } from '../types/registry';
+import type { GameConfig, StandingTier } from '../types/entities';
+
+const TIERS: StandingTier[] = [
+    { min: 5, name: 'Friendly' },
+    { min: -5, name: 'Hostile' },
+    { min: 0, name: '@tier.neutral' },
+    { min: 10, name: 'Devoted' },
+];
+
+function createRegistry(): ContentRegistry {
+    return {
+        locations: {
+            gate: { id: 'gate', name: 'Gate', description: '' },
+        },
+        characters: {
+            sergeant: {
+                id: 'sergeant',
+                name: 'Sergeant',
+                biography: '',
+                portrait: '',
+                location: 'gate',
+                dialogue: '',
+                stats: {},
+                factions: ['city_guard'],
+            },
+            fence: {
+                id: 'fence',
+                name: 'Fence',
+                biography: '',
+                portrait: '',
+                location: 'gate',
+                dialogue: '',
+                stats: {},
+                tiers: [{ min: 0, name: 'Wary' }],
+            },
+        },
+        items: {},
+        maps: {},
+        dialogues: {},
+        quests: {},
+        journalEntries: {},
+        interludes: {},
+        factions: {
+            city_guard: {
+                id: 'city_guard',
+                name: '@faction.city_guard',
+                description: 'Keeps the peace.',
+                tiers: TIERS,
+            },
+            thieves: { id: 'thieves', name: 'Thieves', reputation: -3 },
+        },
+        locales: {
+            en: {
+                'faction.city_guard': 'City Guard',
+                'tier.neutral': 'Neutral',
+            },
+        },
+    };
+}
+
+const config: GameConfig = {
+    title: 'Test Game',
+    startLocation: 'gate',
+    startTime: { day: 1, hour: 8 },
+    startFlags: {},
+    startVariables: {},
+    startInventory: [],
+};
+
+describe('standingTier', () => {
+    it('picks the highest tier the value reaches', () => {
+        expect(standingTier(0, TIERS)?.name).toBe('@tier.neutral');
+        expect(standingTier(7, TIERS)?.name).toBe('Friendly');
+        expect(standingTier(10, TIERS)?.name).toBe('Devoted');
+    });
+
+    it('uses the lowest tier below every minimum', () => {
+        expect(standingTier(-40, TIERS)?.name).toBe('Hostile');
+    });
+
+    it('has no tier without tiers', () => {
+        expect(standingTier(3, undefined)).toBeUndefined();
+        expect(standingTier(3, [])).toBeUndefined();
+    });
+});
+
+describe('relationshipTiers', () => {
+    it("uses a character's own tiers, then its faction's", () => {
+        const registry = createRegistry();
+
+        expect(relationshipTiers(registry.characters.fence, registry)).toEqual(
+            [{ min: 0, name: 'Wary' }]
+        );
+        expect(
+            relationshipTiers(registry.characters.sergeant, registry)
+        ).toBe(TIERS);
+    });
+});
+
+describe('reputation effects and conditions', () => {
+    const state = {
+        ...createInitialState(),
+        factionReputation: { city_guard: 2 },
+    };
+
+    it('parses and applies SET and ADD reputation', () => {
+        const added = applyEffect(
+            parseEffect('ADD reputation city_guard -4'),
+            state
+        );
+        expect(added.factionReputation).toEqual({ city_guard: -2 });
+
+        const set = applyEffect(
+            parseEffect('SET reputation city_guard 8'),
+            state
+        );
+        expect(set.factionReputation).toEqual({ city_guard: 8 });
+    });
+
+    it('ignores factions the state has no reputation with', () => {
+        const result = applyEffect(
+            { type: 'addReputation', factionId: 'unknown', value: 1 },
+            state
+        );
+        expect(result).toBe(state);
+    });
+
+    it('checks reputation above and below a value', () => {
+        expect(
+            evaluateCondition(
+                parseCondition('reputationAbove city_guard 1'),
+                state
+            )
+        ).toBe(true);
+        expect(
+            evaluateCondition(
+                parseCondition('reputationBelow city_guard 2'),
+                state
+            )
+        ).toBe(false);
+        expect(
+            evaluateCondition(parseCondition('reputationBelow unknown 5'), state)
+        ).toBe(false);
+    });
+});
+
+describe('factions in the engine', () => {
+    it('starts every faction at its starting reputation', () => {
+        const engine = new Engine(createRegistry());
+        engine.newGame(config);
+
+        expect(engine.getState().factionReputation).toEqual({
+            city_guard: 0,
+            thieves: -3,
+        });
+    });
+
+    it('shows localized factions and tiers in the snapshot', () => {
+        const engine = new Engine(createRegistry());
+        engine.newGame(config);
+
+        const snapshot = engine.applyDebugEffect({
+            type: 'addReputation',
+            factionId: 'city_guard',
+            value: 6,
+        });
+
+        expect(snapshot.factions).toEqual([
+            {
+                id: 'city_guard',
+                name: 'City Guard',
+                description: 'Keeps the peace.',
+                reputation: 6,
+                tier: 'Friendly',
+            },
+            {
+                id: 'thieves',
+                name: 'Thieves',
+                description: '',
+                reputation: -3,
+                tier: '',
+            },
+        ]);
+    });
+
+    it('names relationship tiers of characters', () => {
+        const engine = new Engine(createRegistry());
+        const snapshot = engine.newGame(config);
+
+        const tiers = Object.fromEntries(
+            snapshot.charactersHere.map((c) => [c.id, c.relationshipTier])
+        );
+        expect(tiers).toEqual({ sergeant: 'Neutral', fence: 'Wary' });
+    });
+
+    it('repairs saves made before a faction existed', () => {
+        const state = {
+            ...createInitialState(),
+            factionReputation: { city_guard: 4, disbanded: 2 },
+        };
+
+        const result = repairGameState(state, createRegistry());
+
+        expect(result.state.factionReputation).toEqual({
+            city_guard: 4,
+            thieves: -3,
+        });
+        expect(result.repairs.map((repair) => repair.message)).toEqual(
+            expect.arrayContaining([
+                'Removed reputation with unknown faction "disbanded"',
+                'Added starting reputation for new faction "thieves"',
+            ])
+        );
+    });
+});
@@ -0,0 +1,259 @@
+/**
+ * Tests for item uses: which uses are offered and what using an item does.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { availableItemUses, isUseTargetHere } from '../item-uses';
+import { Engine } from '../engine';
+import type { ContentRegistry } from '../types/registry';
+import type { GameConfig, Item } from '../types/entities';
+import type { TraceEvent } from '../types/trace';
+
+function item(id: string, uses: Item['uses']): Item {
+    return {
+        id,
+        name: id,
+        description: '',
+        icon: '',
+        image: '',
+        location: 'inventory',
+        stats: {},
+        uses,
+    };
+}
+
+function createTestRegistry(): ContentRegistry {
+    const location = (id: string) => ({
+        id,
+        name: id,
+        description: '',
+        banner: '',
+        music: '',
+        ambient: '',
+    });
+    return {
+        locations: { cellar: location('cellar'), street: location('street') },
+        characters: {
+            guard: {
+                id: 'guard',
+                name: 'Guard',
+                biography: '',
+                portrait: '',
+                location: 'cellar',
+                dialogue: '',
+                stats: {},
+            },
+        },
+        items: {
+            potion: item('potion', [
+                {
+                    id: 'drink',
+                    label: '@item.potion.drink',
+                    effects: [
+                        { type: 'removeItem', itemId: 'potion', count: 1 },
+                        { type: 'addVariable', variable: 'health', value: 10 },
+                    ],
+                },
+            ]),
+            key: item('key', [
+                {
+                    id: 'unlock',
+                    label: 'Unlock the door',
+                    target: 'cellar',
+                    conditions: [{ type: 'hasFlag', flag: 'doorLocked' }],
+                    effects: [{ type: 'clearFlag', flag: 'doorLocked' }],
+                },
+                {
+                    id: 'lock',
+                    label: 'Lock the door',
+                    target: 'cellar',
+                    effects: [{ type: 'setFlag', flag: 'doorLocked' }],
+                },
+            ]),
+            letter: item('letter', [
+                {
+                    id: 'show',
+                    label: 'Show the letter',
+                    target: 'guard',
+                    dialogue: 'guard_letter',
+                },
+            ]),
+        },
+        maps: {},
+        dialogues: {
+            guard_letter: {
+                id: 'guard_letter',
+                startNode: 'start',
+                nodes: [
+                    {
+                        id: 'start',
+                        speaker: 'guard',
+                        text: 'Where did you get this?',
+                        choices: [],
+                    },
+                ],
+            },
+        },
+        quests: {},
+        journalEntries: {},
+        interludes: {},
+        locales: { en: { 'item.potion.drink': 'Drink' } },
+    };
+}
+
+function createTestConfig(): GameConfig {
+    return {
+        title: 'Test Game',
+        startLocation: 'cellar',
+        startTime: { day: 1, hour: 9 },
+        startFlags: { doorLocked: true },
+        startVariables: { health: 5 },
+        startInventory: ['potion', 'potion', 'key', 'letter'],
+    };
+}
+
+function startGame(): Engine {
+    const engine = new Engine(createTestRegistry());
+    engine.newGame(createTestConfig());
+    return engine;
+}
+
+describe('availableItemUses', () => {
+    const registry = createTestRegistry();
+
+    it('offers a use on a target only while the target is here', () => {
+        const engine = startGame();
+        expect(isUseTargetHere('guard', engine.getState())).toBe(true);
+        expect(
+            availableItemUses(
+                registry.items.letter,
+                engine.getState(),
+                registry
+            ).map((use) => use.id)
+        ).toEqual(['show']);
+
+        engine.applyDebugEffect({
+            type: 'goToLocation',
+            locationId: 'street',
+        });
+        expect(isUseTargetHere('guard', engine.getState())).toBe(false);
+        expect(
+            availableItemUses(
+                registry.items.letter,
+                engine.getState(),
+                registry
+            )
+        ).toEqual([]);
+    });
+
+    it('offers the first use for a target whose conditions pass', () => {
+        const engine = startGame();
+        const ids = () =>
+            availableItemUses(
+                registry.items.key,
+                engine.getState(),
+                registry
+            ).map((use) => use.id);
+
+        expect(ids()).toEqual(['unlock']);
+        engine.useItem('key', 'cellar');
+        expect(ids()).toEqual(['lock']);
+    });
+
+    it('offers nothing for an item the player does not carry', () => {
+        const engine = startGame();
+        engine.applyDebugEffect({ type: 'removeItem', itemId: 'key' });
+        expect(
+            availableItemUses(registry.items.key, engine.getState(), registry)
+        ).toEqual([]);
+    });
+});
+
+describe('Engine.useItem', () => {
+    it('applies the effects of a use without a target', () => {
+        const snapshot = startGame().useItem('potion');
+
+        expect(snapshot.variables.health).toBe(15);
+        expect(snapshot.inventory.find((i) => i.id === 'potion')?.count).toBe(
+            1
+        );
+    });
+
+    it('runs the use whose conditions pass', () => {
+        const engine = startGame();
+
+        engine.useItem('key', 'cellar');
+        expect(engine.getState().flags.doorLocked).toBe(false);
+        engine.useItem('key', 'cellar');
+        expect(engine.getState().flags.doorLocked).toBe(true);
+    });
+
+    it('starts the dialogue of a use on a character', () => {
+        const snapshot = startGame().useItem('letter', 'guard');
+
+        expect(snapshot.dialogue?.text).toBe('Where did you get this?');
+        expect(snapshot.inventory.find((i) => i.id === 'letter')?.uses).toEqual(
+            []
+        );
+    });
+
+    it('does nothing when the target is not here or no use applies', () => {
+        const engine = startGame();
+        engine.applyDebugEffect({
+            type: 'goToLocation',
+            locationId: 'street',
+        });
+
+        expect(engine.useItem('letter', 'guard').dialogue).toBeNull();
+        expect(engine.useItem('key', 'cellar').variables).toEqual({
+            health: 5,
+        });
+        expect(engine.getState().flags.doorLocked).toBe(true);
+        expect(engine.useItem('potion', 'guard').variables.health).toBe(5);
+    });
+
+    it('lists the available uses on inventory items with localized labels', () => {
+        const snapshot = startGame().getSnapshot();
+        const uses = Object.fromEntries(
+            snapshot.inventory.map((i) => [i.id, i.uses])
+        );
+
+        expect(uses).toEqual({
+            potion: [{ id: 'drink', label: 'Drink', target: null }],
+            key: [{ id: 'unlock', label: 'Unlock the door', target: 'cellar' }],
+            letter: [{ id: 'show', label: 'Show the letter', target: 'guard' }],
+        });
+    });
+
+    it('reports the use and its conditions to the trace', () => {
+        const engine = startGame();
+        const events: TraceEvent[] = [];
+        engine.setTrace({
+            onCondition: (e) => events.push(e),
+            onItemUse: (e) => events.push(e),
+        });
+
+        engine.useItem('key', 'cellar');
+        engine.useItem('letter', 'street');
+
+        expect(events).toMatchObject([
+            {
+                kind: 'condition',
+                context: { type: 'itemUse', itemId: 'key', useId: 'unlock' },
+                result: true,
+            },
+            {
+                kind: 'itemUse',
+                itemId: 'key',
+                targetId: 'cellar',
+                useId: 'unlock',
+            },
+            {
+                kind: 'itemUse',
+                itemId: 'letter',
+                targetId: 'street',
+                useId: null,
+            },
+        ]);
+    });
+});
@@ -0,0 +1,212 @@
+/**
+ * Tests for arriving at locations: description variants, entry effects, and
+ * the visit counts that visitedLocation and visitCount check.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Engine, createInitialState } from '../engine';
+import { evaluateCondition } from '../conditions';
+import { parseCondition } from '../parser';
+import { repairGameState } from '../save';
+import type { ContentRegistry } from '../types/registry';
+import type { GameConfig, Location } from '../types/entities';
+
+function location(id: string, fields: Partial<Location> = {}): Location {
+    return {
+        id,
+        name: id,
+        description: `The ${id}.`,
+        banner: '',
+        music: '',
+        ambient: '',
+        ...fields,
+    };
+}
+
+function createTestRegistry(): ContentRegistry {
+    return {
+        locations: {
+            square: location('square', {
+                onFirstEnter: [
+                    { type: 'addVariable', variable: 'gold', value: 5 },
+                ],
+                exits: [{ id: 'tavern', label: 'Tavern', target: 'tavern' }],
+            }),
+            tavern: location('tavern', {
+                descriptions: [
+                    {
+                        text: 'Ashes where the tavern stood.',
+                        conditions: [{ type: 'hasFlag', flag: 'fireHappened' }],
+                    },
+                    {
+                        text: '@tavern.night',
+                        conditions: [
+                            { type: 'timeIs', startHour: 20, endHour: 6 },
+                        ],
+                    },
+                ],
+                onFirstEnter: [{ type: 'setFlag', flag: 'metBarkeep' }],
+                onEnter: [
+                    { type: 'addVariable', variable: 'drinks', value: 1 },
+                ],
+                exits: [{ id: 'out', label: 'Out', target: 'square' }],
+            }),
+        },
+        characters: {},
+        items: {},
+        maps: {},
+        dialogues: {
+            regulars: {
+                id: 'regulars',
+                triggerLocation: 'tavern',
+                conditions: [
+                    { type: 'visitCount', locationId: 'tavern', count: 3 },
+                ],
+                startNode: 'start',
+                nodes: [
+                    {
+                        id: 'start',
+                        speaker: null,
+                        text: 'The usual?',
+                        choices: [],
+                    },
+                ],
+            },
+        },
+        quests: {},
+        journalEntries: {},
+        interludes: {},
+        locales: { en: { 'tavern.night': 'Lanterns glow in the tavern.' } },
+    };
+}
+
+const config: GameConfig = {
+    title: 'Test Game',
+    startLocation: 'square',
+    startTime: { day: 1, hour: 8 },
+    startFlags: {},
+    startVariables: { gold: 0, drinks: 0 },
+    startInventory: [],
+};
+
+describe('location descriptions', () => {
+    it('shows the plain description when no variant applies', () => {
+        const engine = new Engine(createTestRegistry());
+        engine.newGame(config);
+
+        expect(engine.takeExit('tavern').location.description).toBe(
+            'The tavern.'
+        );
+    });
+
+    it('shows the first variant whose conditions pass', () => {
+        const engine = new Engine(createTestRegistry());
+        engine.newGame({ ...config, startTime: { day: 1, hour: 22 } });
+
+        expect(engine.takeExit('tavern').location.description).toBe(
+            'Lanterns glow in the tavern.'
+        );
+        expect(
+            engine.applyDebugEffect({ type: 'setFlag', flag: 'fireHappened' })
+                .location.description
+        ).toBe('Ashes where the tavern stood.');
+    });
+});
+
+describe('entering a location', () => {
+    it('counts the start location and runs its entry effects', () => {
+        const engine = new Engine(createTestRegistry());
+        engine.newGame(config);
+
+        expect(engine.getState().locationVisits).toEqual({ square: 1 });
+        expect(engine.getState().variables.gold).toBe(5);
+    });
+
+    it('runs onFirstEnter once and onEnter on every visit', () => {
+        const engine = new Engine(createTestRegistry());
+        engine.newGame(config);
+        engine.takeExit('tavern');
+        engine.applyDebugEffect({ type: 'clearFlag', flag: 'metBarkeep' });
+        engine.takeExit('out');
+        engine.takeExit('tavern');
+
+        const state = engine.getState();
+        expect(state.locationVisits).toEqual({ square: 2, tavern: 2 });
+        expect(state.flags.metBarkeep).toBe(false);
+        expect(state.variables.drinks).toBe(2);
+        expect(state.variables.gold).toBe(5);
+    });
+
+    it('checks triggers after the visit is counted', () => {
+        const engine = new Engine(createTestRegistry());
+        engine.newGame(config);
+        engine.takeExit('tavern');
+        engine.takeExit('out');
+        expect(engine.takeExit('tavern').dialogue).toBeNull();
+        engine.takeExit('out');
+        expect(engine.takeExit('tavern').dialogue?.text).toBe('The usual?');
+    });
+
+    it('counts a teleport as a visit without firing triggers', () => {
+        const engine = new Engine(createTestRegistry());
+        engine.newGame(config);
+        engine.teleport('tavern');
+        engine.teleport('tavern');
+
+        const snapshot = engine.teleport('tavern');
+        expect(snapshot.dialogue).toBeNull();
+        expect(engine.getState().locationVisits?.tavern).toBe(3);
+        expect(engine.getState().variables.drinks).toBe(3);
+    });
+});
+
+describe('visit conditions', () => {
+    const state = {
+        ...createInitialState(),
+        locationVisits: { tavern: 2 },
+    };
+
+    it('checks whether a location was visited', () => {
+        expect(
+            evaluateCondition(parseCondition('visitedLocation tavern'), state)
+        ).toBe(true);
+        expect(
+            evaluateCondition(parseCondition('visitedLocation square'), state)
+        ).toBe(false);
+    });
+
+    it('checks a minimum number of visits', () => {
+        expect(
+            evaluateCondition(parseCondition('visitCount tavern 2'), state)
+        ).toBe(true);
+        expect(
+            evaluateCondition(parseCondition('visitCount tavern 3'), state)
+        ).toBe(false);
+    });
+
+    it('rejects extra arguments', () => {
+        expect(() => parseCondition('visitedLocation tavern 2')).toThrow();
+    });
+});
+
+describe('visit counts in saves', () => {
+    it('drops the counts of locations that no longer exist', () => {
+        const { state, repairs } = repairGameState(
+            {
+                ...createInitialState(),
+                currentLocation: 'square',
+                locationVisits: { square: 1, cellar: 4 },
+            },
+            createTestRegistry()
+        );
+
+        expect(state.locationVisits).toEqual({ square: 1 });
+        expect(repairs).toEqual([
+            {
+                field: 'locationVisits',
+                id: 'cellar',
+                message: 'Removed the visit count of unknown location "cellar"',
+            },
+        ]);
+    });
+});
@@ -0,0 +1,194 @@
+/**
+ * Tests for plural and select messages: parsing, formatting with each
+ * language's plural rules, the arguments a message reads, and messages in
+ * resolved text and snapshots.
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+    formatMessage,
+    messageArguments,
+    parseMessage,
+} from '../localization/messages';
+import { resolveText } from '../localization';
+import { Engine } from '../engine';
+import type { ContentRegistry } from '../types/registry';
+import type { GameConfig } from '../types/entities';
+
+const COINS =
+    'You have {gold, plural, =0 {no coins} one {# coin} other {# coins}}.';
+
+describe('formatMessage', () => {
+    it('picks a plural branch by exact value, then category', () => {
+        const format = (gold: number) => formatMessage(COINS, () => gold, 'en');
+        expect(format(0)).toBe('You have no coins.');
+        expect(format(1)).toBe('You have 1 coin.');
+        expect(format(7)).toBe('You have 7 coins.');
+    });
+
+    it("follows the language's plural rules", () => {
+        const apples =
+            '{n, plural, one {# jabłko} few {# jabłka} many {# jabłek} other {# jabłka}}';
+        const format = (n: number) => formatMessage(apples, () => n, 'pl');
+        expect(format(1)).toBe('1 jabłko');
+        expect(format(3)).toBe('3 jabłka');
+        expect(format(5)).toBe('5 jabłek');
+        expect(format(22)).toBe('22 jabłka');
+    });
+
+    it('subtracts the offset before choosing a category', () => {
+        const guests =
+            '{n, plural, offset:1 =0 {nobody} =1 {you} one {you and # other} other {you and # others}}';
+        const format = (n: number) => formatMessage(guests, () => n, 'en');
+        expect(format(1)).toBe('you');
+        expect(format(2)).toBe('you and 1 other');
+        expect(format(4)).toBe('you and 3 others');
+    });
+
+    it('picks a select branch by value, falling back to other', () => {
+        const waves =
+            '{gender, select, female {She} male {He} other {They}} waves.';
+        expect(formatMessage(waves, () => 'female', 'en')).toBe('She waves.');
+        expect(formatMessage(waves, () => 'robot', 'en')).toBe('They waves.');
+        expect(formatMessage(waves, () => undefined, 'en')).toBe('They waves.');
+    });
+
+    it('nests blocks and keeps plain placeholders', () => {
+        const text =
+            '{gender, select, female {{n, plural, one {She has # {item}} other {She has # {item}s}}} other {They have {n}}}';
+        const values: Record<string, string | number> = {
+            gender: 'female',
+            n: 2,
+        };
+        expect(formatMessage(text, (name) => values[name], 'en')).toBe(
+            'She has 2 {item}s'
+        );
+    });
+
+    it('leaves the number placeholder when the value is missing', () => {
+        expect(formatMessage(COINS, () => undefined, 'en')).toBe(
+            'You have {gold} coins.'
+        );
+    });
+
+    it('returns malformed text unchanged', () => {
+        const broken = '{gold, plural, one {# coin}}';
+        expect(formatMessage(broken, () => 1, 'en')).toBe(broken);
+    });
+
+    it('uses English rules for an unknown language code', () => {
+        expect(formatMessage(COINS, () => 1, 'not a locale!')).toBe(
+            'You have 1 coin.'
+        );
+    });
+});
+
+describe('parseMessage', () => {
+    it('requires an other branch', () => {
+        expect(() => parseMessage('{n, select, a {A}}')).toThrow(
+            '"n" select needs an "other" branch'
+        );
+    });
+
+    it('rejects an unknown plural category', () => {
+        expect(() => parseMessage('{n, plural, single {#} other {#}}')).toThrow(
+            'unknown category "single"'
+        );
+    });
+
+    it('reports a branch without its closing brace', () => {
+        expect(() => parseMessage('{n, plural, other {# coins')).toThrow(
+            'branch "other" is missing its closing "}"'
+        );
+    });
+
+    it('keeps text without blocks as it is', () => {
+        expect(parseMessage('Hello, {player.name}!')).toEqual([
+            'Hello, {player.name}!',
+        ]);
+    });
+});
+
+describe('messageArguments', () => {
+    it('lists block arguments and plain placeholders', () => {
+        expect(
+            messageArguments(
+                '{player.stats.gender, select, female {{gold} for her} other {{gold} for {player.name}}}'
+            )
+        ).toEqual(['gold', 'player.name', 'player.stats.gender']);
+    });
+});
+
+describe('messages in resolved text', () => {
+    it('reads variables and character fields', () => {
+        const localeData = {
+            greeting:
+                '{player.stats.gender, select, female {Välkommen, fru {player.name}} other {Välkommen, {player.name}}}! {gold, plural, one {# mynt} other {# mynt}}',
+        };
+        expect(
+            resolveText(
+                '@greeting',
+                localeData,
+                { gold: 3 },
+                {
+                    player: {
+                        name: 'Alva',
+                        title: '',
+                        biography: '',
+                        stats: { gender: 'female' },
+                    },
+                },
+                undefined,
+                'sv'
+            )
+        ).toBe('Välkommen, fru Alva! 3 mynt');
+    });
+
+    it("formats snapshot text in the current language's rules", () => {
+        const registry: ContentRegistry = {
+            locations: {
+                market: {
+                    id: 'market',
+                    name: 'Market',
+                    description: '@market.description',
+                    banner: '',
+                    music: '',
+                    ambient: '',
+                },
+            },
+            characters: {},
+            items: {},
+            maps: {},
+            dialogues: {},
+            quests: {},
+            journalEntries: {},
+            interludes: {},
+            locales: {
+                en: {
+                    'market.description':
+                        '{stalls, plural, one {# stall is} other {# stalls are}} open.',
+                },
+                pl: {
+                    'market.description':
+                        'Otwarte: {stalls, plural, one {# stragan} few {# stragany} many {# straganów} other {# straganu}}.',
+                },
+            },
+        };
+        const config: GameConfig = {
+            title: 'Test Game',
+            startLocation: 'market',
+            startTime: { day: 1, hour: 8 },
+            startFlags: {},
+            startVariables: { stalls: 5 },
+            startInventory: [],
+        };
+        const engine = new Engine(registry);
+
+        expect(engine.newGame(config).location.description).toBe(
+            '5 stalls are open.'
+        );
+        expect(engine.setLocale('pl').location.description).toBe(
+            'Otwarte: 5 straganów.'
+        );
+    });
+});
@@ -24,6 +24,15 @@ describe('parseCondition', () => {
         expect(condition).toEqual({ type: 'hasItem', itemId: 'rusty_key' });
     });
 
+    it('should parse hasItem with a count', () => {
+        const condition = parseCondition('hasItem potion 2');
+        expect(condition).toEqual({
+            type: 'hasItem',
+            itemId: 'potion',
+            count: 2,
+        });
+    });
+
     it('should parse variableEquals with number', () => {
         const condition = parseCondition('variableEquals gold 100');
         expect(condition).toEqual({
@@ -209,6 +218,19 @@ describe('parseEffect', () => {
         expect(effect).toEqual({ type: 'removeItem', itemId: 'rusty_key' });
     });
 
+    it('should parse ADD item and REMOVE item with a count', () => {
+        expect(parseEffect('ADD item potion 3')).toEqual({
+            type: 'addItem',
+            itemId: 'potion',
+            count: 3,
+        });
+        expect(parseEffect('REMOVE item potion 1')).toEqual({
+            type: 'removeItem',
+            itemId: 'potion',
+            count: 1,
+        });
+    });
+
     it('should parse MOVE item', () => {
         const effect = parseEffect('MOVE item sword armory');
         expect(effect).toEqual({
@@ -244,6 +266,14 @@ describe('parseEffect', () => {
         });
     });
 
+    it('should parse CLEAR characterLocation', () => {
+        const effect = parseEffect('CLEAR characterLocation merchant');
+        expect(effect).toEqual({
+            type: 'clearCharacterLocation',
+            characterId: 'merchant',
+        });
+    });
+
     it('should parse ADD toParty', () => {
         const effect = parseEffect('ADD toParty elisa');
         expect(effect).toEqual({ type: 'addToParty', characterId: 'elisa' });
@@ -383,6 +413,139 @@ describe('parseCondition - roll', () => {
     });
 });
 
+describe('parseCondition / parseEffect - expressions', () => {
+    it('should parse SET variable with an expression', () => {
+        expect(
+            parseEffect('SET variable price {basePrice} * 2 - {discount}')
+        ).toEqual({
+            type: 'setVariable',
+            variable: 'price',
+            value: { expression: '{basePrice} * 2 - {discount}' },
+        });
+    });
+
+    it('should parse ADD variable with dice', () => {
+        expect(parseEffect('ADD variable damage 2d6 + 1')).toEqual({
+            type: 'addVariable',
+            variable: 'damage',
+            value: { expression: '2d6 + 1' },
+        });
+    });
+
+    it('keeps a single plain word literal', () => {
+        expect(parseEffect('SET variable name John')).toEqual({
+            type: 'setVariable',
+            variable: 'name',
+            value: 'John',
+        });
+        expect(() => parseEffect('SET variable name John Smith')).toThrow();
+    });
+
+    it('keeps a lone dice word literal and rolls it in parentheses', () => {
+        expect(parseEffect('SET variable die d6')).toEqual({
+            type: 'setVariable',
+            variable: 'die',
+            value: 'd6',
+        });
+        expect(parseCondition('variableEquals weapon 2d10')).toEqual({
+            type: 'variableEquals',
+            variable: 'weapon',
+            value: '2d10',
+        });
+        expect(parseEffect('SET variable roll (d20)')).toEqual({
+            type: 'setVariable',
+            variable: 'roll',
+            value: { expression: '(d20)' },
+        });
+    });
+
+    it('should parse a variable comparison', () => {
+        expect(parseCondition('variable gold >= price')).toEqual({
+            type: 'variable',
+            variable: 'gold',
+            operator: '>=',
+            value: { expression: 'price' },
+        });
+        expect(parseCondition('variable gold != 3')).toEqual({
+            type: 'variable',
+            variable: 'gold',
+            operator: '!=',
+            value: 3,
+        });
+    });
+
+    it('should parse an expression in variableGreaterThan', () => {
+        expect(parseCondition('variableGreaterThan gold {price} * 2')).toEqual({
+            type: 'variableGreaterThan',
+            variable: 'gold',
+            value: { expression: '{price} * 2' },
+        });
+    });
+
+    it('rejects a bad comparison or expression', () => {
+        expect(() => parseCondition('variable gold => 3')).toThrow(
+            /needs a variable, a comparison/
+        );
+        expect(() => parseEffect('ADD variable gold {gold} *')).toThrow();
+    });
+});
+
+describe('parseCondition - groups', () => {
+    it('should parse anyOf with each condition in parentheses', () => {
+        expect(
+            parseCondition('anyOf (hasItem rusty_key) (hasFlag pickedLock)')
+        ).toEqual({
+            type: 'anyOf',
+            conditions: [
+                { type: 'hasItem', itemId: 'rusty_key' },
+                { type: 'hasFlag', flag: 'pickedLock' },
+            ],
+        });
+    });
+
+    it('should parse nested groups', () => {
+        expect(
+            parseCondition(
+                'allOf (not (hasItem lantern)) (anyOf (timeIs 20 6) (atLocation cellar))'
+            )
+        ).toEqual({
+            type: 'allOf',
+            conditions: [
+                {
+                    type: 'not',
+                    condition: { type: 'hasItem', itemId: 'lantern' },
+                },
+                {
+                    type: 'anyOf',
+                    conditions: [
+                        { type: 'timeIs', startHour: 20, endHour: 6 },
+                        { type: 'atLocation', locationId: 'cellar' },
+                    ],
+                },
+            ],
+        });
+    });
+
+    it('should not mistake notFlag for not', () => {
+        expect(parseCondition('notFlag doorLocked')).toEqual({
+            type: 'notFlag',
+            flag: 'doorLocked',
+        });
+    });
+
+    it.each([
+        ['anyOf hasItem key', /expects each condition in parentheses/],
+        ['anyOf (hasItem key', /without a matching "\)"/],
+        ['anyOf (hasItem key))', /without a matching "\("/],
+        ['anyOf ()', /empty "\(\)"/],
+        ['anyOf', /needs at least one condition/],
+        ['not (hasFlag a) (hasFlag b)', /exactly one condition/],
+        ['anyOf (hasFlag a) (nope b)', /Unknown condition type: nope/],
+    ])('should reject %s', (source, message) => {
+        expect(() => parseCondition(source)).toThrow(message);
+    });
+});
+
 describe('parseDialogue - simple', () => {
     it('should parse a simple dialogue with one node', () => {
         const dsl = `
@@ -938,6 +1101,36 @@ NODE start
             /cannot roll in its requirement/
         );
     });
+
+    it('throws when a choice hides a roll inside a REQUIRE group', () => {
+        const dsl = `
+NODE start
+  NARRATOR: @intro
+  CHOICE @choice.try
+    REQUIRE anyOf (hasFlag lucky) (roll 1 20 15)
+    GOTO win
+  END
+`;
+
+        expect(() => parseDialogue(dsl, 'test')).toThrow(
+            /cannot roll in its requirement/
+        );
+    });
+
+    it('throws when a choice rolls dice in a REQUIRE', () => {
+        const dsl = `
+NODE start
+  NARRATOR: @intro
+  CHOICE @choice.try
+    REQUIRE variable luck > 1d20
+    GOTO win
+  END
+`;
+
+        expect(() => parseDialogue(dsl, 'test')).toThrow(
+            /cannot roll in its requirement/
+        );
+    });
 });
 
 describe('parseDialogue - unique choice IDs', () => {
@@ -990,7 +1183,7 @@ describe('parseEffect / parseCondition - quotes and arity', () => {
     it.each([
         'hasFlag metBartender extra',
         'notFlag doorLocked extra',
-        'hasItem rusty_key extra',
+        'hasItem rusty_key 2 extra',
         'variableGreaterThan gold 10 extra',
         'variableLessThan gold 10 extra',
         'atLocation tavern extra',
@@ -1016,13 +1209,14 @@ describe('parseEffect / parseCondition - quotes and arity', () => {
         'SET relationship bartender 5 extra',
         'SET mapEnabled true extra',
         'CLEAR flag doorLocked extra',
+        'CLEAR characterLocation merchant extra',
         'ADD variable gold 5 extra',
-        'ADD item rusty_key extra',
+        'ADD item rusty_key 2 extra',
         'ADD journalEntry tavern_discovery extra',
         'ADD toParty elisa extra',
         'ADD relationship bartender 1 extra',
         'ADD characterStat player strength 1 extra',
-        'REMOVE item rusty_key extra',
+        'REMOVE item rusty_key 1 extra',
         'REMOVE fromParty elisa extra',
         'MOVE item sword armory extra',
         'GOTO location market extra',
@@ -1099,3 +1293,77 @@ NODE next
         );
     });
 });
+
+describe('parseDialogue - CALL and RETURN', () => {
+    it('parses CALL and RETURN in nodes, choices, and IF blocks', () => {
+        const dialogue = parseDialogue(
+            `NODE start
+  CHOICE Rumours
+    CALL rumours
+    GOTO start
+  END
+  CHOICE Goodbye
+    RETURN
+  END
+
+NODE silent
+  IF hasFlag haggled
+    RETURN
+  END
+  CALL barter.haggle
+  GOTO start`,
+            'test'
+        );
+
+        const [start, silent] = dialogue.nodes;
+        expect(start.choices[0]).toMatchObject({
+            next: 'start',
+            call: { dialogueId: 'rumours' },
+        });
+        expect(start.choices[1]).toMatchObject({ next: '', returns: true });
+        expect(silent.conditionalBranches?.[0]).toMatchObject({
+            returns: true,
+        });
+        expect(silent.call).toEqual({ dialogueId: 'barter', nodeId: 'haggle' });
+        expect(silent.next).toBe('start');
+        expect(silent.returns).toBeUndefined();
+    });
+
+    it.each([
+        [
+            `NODE start
+  NARRATOR: Done.
+  RETURN
+  GOTO next`,
+            /cannot contain both RETURN and GOTO next/,
+        ],
+        [
+            `NODE start
+  CHOICE Ask
+    CALL rumours
+    RETURN
+  END`,
+            /cannot contain both RETURN and CALL rumours/,
+        ],
+        [
+            `NODE start
+  IF hasFlag done
+    END dialogue
+    CALL rumours.gossip
+  END`,
+            /cannot contain both END dialogue and CALL rumours\.gossip/,
+        ],
+        [
+            `NODE start
+  RETURN now`,
+            /RETURN has unexpected arguments: now/,
+        ],
+        [
+            `NODE start
+  CALL rumours.`,
+            /CALL needs a dialogue/,
+        ],
+    ])('rejects a misused CALL or RETURN', (dsl, message) => {
+        expect(() => parseDialogue(dsl, 'test')).toThrow(message);
+    });
+});
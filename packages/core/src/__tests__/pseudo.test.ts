@@ -0,0 +1,182 @@
+/**
+ * Tests for the pseudo-locale: how it transforms text, what it leaves alone,
+ * resolving text in it, and keeping it out of released games.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { PSEUDO_LOCALE, pseudoLocalize } from '../localization/pseudo';
+import { localeDataFor, resolveText } from '../localization';
+import { parseRichText } from '../rich-text';
+import { Engine, createInitialState } from '../engine';
+import type { ContentRegistry } from '../types/registry';
+import type { GameConfig } from '../types/entities';
+
+describe('pseudoLocalize', () => {
+    it('accents letters, pads the text, and brackets it', () => {
+        expect(pseudoLocalize('The Salty Dog')).toBe('[Ţĥé Šáļţý Ðóĝ~~~~~~]');
+        expect(pseudoLocalize('Map')).toBe('[Ṁáþ~~]');
+    });
+
+    it('keeps rich text markup and placeholders', () => {
+        const text = pseudoLocalize('*Hi* cFF0000[there], {name} \\*');
+
+        expect(text).toBe('[*Ĥí* cFF0000[ţĥéŕé], {name} \\*~~~~~~]');
+        expect(parseRichText(text)).toEqual([
+            { text: '[' },
+            { text: 'Ĥí', bold: true },
+            { text: ' ' },
+            { text: 'ţĥéŕé', color: '#FF0000' },
+            { text: ', {name} *~~~~~~]' },
+        ]);
+    });
+
+    it('leaves empty text alone', () => {
+        expect(pseudoLocalize('')).toBe('');
+        expect(pseudoLocalize('  ')).toBe('  ');
+    });
+});
+
+describe('resolving text in the pseudo-locale', () => {
+    const registry = {
+        locales: {
+            en: { greeting: 'Hello, {name}!' },
+            sv: { greeting: 'Hej' },
+        },
+    };
+
+    it('reads the English strings', () => {
+        expect(localeDataFor(registry, PSEUDO_LOCALE)).toEqual(
+            registry.locales.en
+        );
+    });
+
+    it('reads the source locale of a game written in another language', () => {
+        const swedish = {
+            locales: {
+                sv: { greeting: 'Hej, {name}!' },
+                fi: { greeting: 'Hei' },
+            },
+        };
+
+        expect(localeDataFor(swedish, PSEUDO_LOCALE)).toEqual(
+            swedish.locales.fi
+        );
+        expect(
+            resolveText(
+                '@greeting',
+                localeDataFor(
+                    { locales: { sv: swedish.locales.sv } },
+                    PSEUDO_LOCALE
+                ),
+                { name: 'Ann' },
+                undefined,
+                undefined,
+                PSEUDO_LOCALE
+            )
+        ).toBe('[Ĥéĵ, Åññ!~~~~]');
+    });
+
+    it('pseudo-localizes the text after filling placeholders', () => {
+        expect(
+            resolveText(
+                '@greeting',
+                localeDataFor(registry, PSEUDO_LOCALE),
+                { name: 'Ann' },
+                undefined,
+                undefined,
+                PSEUDO_LOCALE
+            )
+        ).toBe('[Ĥéļļó, Åññ!~~~~~]');
+    });
+
+    it('leaves a missing key as it is', () => {
+        expect(
+            resolveText(
+                '@missing.key',
+                {},
+                undefined,
+                undefined,
+                undefined,
+                PSEUDO_LOCALE
+            )
+        ).toBe('@missing.key');
+    });
+});
+
+describe('the pseudo-locale in the engine', () => {
+    const registry: ContentRegistry = {
+        locations: {
+            inn: { id: 'inn', name: '@location.inn', description: '' },
+        },
+        characters: {},
+        items: {},
+        maps: {},
+        dialogues: {},
+        quests: {},
+        journalEntries: {},
+        interludes: {},
+        locales: { en: { 'location.inn': 'Inn' } },
+    };
+    const config: GameConfig = {
+        title: 'Test Game',
+        startLocation: 'inn',
+        startTime: { day: 1, hour: 8 },
+        startFlags: {},
+        startVariables: {},
+        startInventory: [],
+    };
+
+    it('is ignored by a production engine', () => {
+        const engine = new Engine(registry);
+        engine.newGame(config);
+
+        const snapshot = engine.setLocale(PSEUDO_LOCALE);
+
+        expect(engine.getState().currentLocale).toBe('en');
+        expect(snapshot.location.name).toBe('Inn');
+    });
+
+    it('is dropped from a new or loaded game in a production engine', () => {
+        const dev = new Engine(registry);
+        dev.setPseudoLocaleEnabled(true);
+        dev.newGame(config);
+        dev.setLocale(PSEUDO_LOCALE);
+
+        const fresh = new Engine(registry, createInitialState(PSEUDO_LOCALE));
+        fresh.newGame(config);
+        const loaded = new Engine(registry);
+        loaded.loadGame(dev.saveGame());
+
+        expect(fresh.getState().currentLocale).toBe('en');
+        expect(loaded.getState().currentLocale).toBe('en');
+    });
+
+    it('can be turned on for development and off again', () => {
+        const engine = new Engine(registry);
+        engine.setPseudoLocaleEnabled(true);
+        engine.newGame(config);
+
+        expect(engine.setLocale(PSEUDO_LOCALE).location.name).toBe('[Îññ~~]');
+
+        engine.setPseudoLocaleEnabled(false);
+        expect(engine.getSnapshot().location.name).toBe('Inn');
+    });
+
+    it('switches back to the source locale of a game without English', () => {
+        const swedish: ContentRegistry = {
+            ...registry,
+            locales: { sv: { 'location.inn': 'Värdshus' } },
+        };
+        const engine = new Engine(swedish, createInitialState('sv'));
+        engine.setPseudoLocaleEnabled(true);
+        engine.newGame(config);
+
+        expect(engine.setLocale(PSEUDO_LOCALE).location.name).toBe(
+            '[Ṽäŕðšĥúš~~~~]'
+        );
+
+        engine.setPseudoLocaleEnabled(false);
+        expect(engine.getState().currentLocale).toBe('sv');
+        expect(engine.getSnapshot().location.name).toBe('Värdshus');
+    });
+});
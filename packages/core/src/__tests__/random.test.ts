@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import {
+    createRandomState,
+    nextRandom,
+    rollInteger,
+    seedRandomState,
+} from '../random';
+
+function sequence(state: number, count: number): number[] {
+    const values: number[] = [];
+    for (let i = 0; i < count; i++) {
+        const draw = rollInteger(state, 1, 20);
+        values.push(draw.value);
+        state = draw.state;
+    }
+    return values;
+}
+
+describe('seeded random numbers', () => {
+    it('produces the same sequence from the same seed', () => {
+        expect(sequence(createRandomState(1234), 20)).toEqual(
+            sequence(createRandomState(1234), 20)
+        );
+    });
+
+    it('produces different sequences from different seeds', () => {
+        expect(sequence(createRandomState(1), 20)).not.toEqual(
+            sequence(createRandomState(2), 20)
+        );
+    });
+
+    it('hashes text seeds to a stable state', () => {
+        expect(seedRandomState('playtest')).toBe(seedRandomState('playtest'));
+        expect(seedRandomState('playtest')).not.toBe(
+            seedRandomState('playtest-2')
+        );
+    });
+
+    it('draws values in [0, 1)', () => {
+        let state = createRandomState(99);
+        for (let i = 0; i < 500; i++) {
+            const draw = nextRandom(state);
+            expect(draw.value).toBeGreaterThanOrEqual(0);
+            expect(draw.value).toBeLessThan(1);
+            state = draw.state;
+        }
+    });
+
+    it('keeps rolled integers within the inclusive range', () => {
+        const seen = new Set<number>();
+        let state = createRandomState('dice');
+        for (let i = 0; i < 500; i++) {
+            const draw = rollInteger(state, 1, 6);
+            expect(draw.value).toBeGreaterThanOrEqual(1);
+            expect(draw.value).toBeLessThanOrEqual(6);
+            seen.add(draw.value);
+            state = draw.state;
+        }
+        expect(seen.size).toBe(6);
+    });
+});
@@ -179,6 +179,21 @@ describe('ReferenceIndex.find', () => {
         expect(index.find('variables', 'chapter')[0].access).toBe('set');
     });
 
+    it('lists flags and variables declared in variables.yaml', () => {
+        const index = new ReferenceIndex(
+            registry({
+                variableSchema: {
+                    flags: { spareFlag: {} },
+                    variables: { gold: { type: 'number' } },
+                },
+            }),
+            new Map()
+        );
+
+        expect(index.allSymbols('flags')).toContain('spareFlag');
+        expect(index.orphans('variables')).toEqual(['gold']);
+    });
+
     it('records the file each reference lives in', () => {
         const refs = build().find('characters', 'bartender');
         expect(refs.every((r) => r.file === 'content/dialogues/chat.dlg')).toBe(
@@ -189,6 +204,32 @@ describe('ReferenceIndex.find', () => {
     it('returns nothing for an unreferenced id', () => {
         expect(build().find('locations', 'nope')).toEqual([]);
     });
+
+    it('finds a dialogue CALLed from a node, a choice, and an IF block', () => {
+        const caller = parseDialogue(
+            `NODE start
+  IF hasFlag gossip
+    CALL rumours
+  END
+  CHOICE Haggle
+    CALL rumours.haggle
+    GOTO start
+  END
+  CALL rumours
+`,
+            'caller'
+        );
+        const index = new ReferenceIndex(
+            registry({ dialogues: { caller } }),
+            new Map([['dialogues:caller', 'content/dialogues/caller.dlg']])
+        );
+
+        const call = {
+            file: 'content/dialogues/caller.dlg',
+            where: 'dialogue "caller" node "start" CALL',
+        };
+        expect(index.find('dialogues', 'rumours')).toEqual([call, call, call]);
+    });
 });
 
 describe('ReferenceIndex.orphans', () => {
@@ -266,4 +307,176 @@ describe('ReferenceIndex trigger conditions', () => {
         expect(refs.length).toBe(1);
         expect(refs[0].where).toContain('trigger condition');
     });
+
+    it('finds the flag, dialogue, and effect targets of a timed event', () => {
+        const index = new ReferenceIndex(
+            registry({
+                events: {
+                    fever: {
+                        id: 'fever',
+                        trigger: {
+                            type: 'afterFlag',
+                            flag: 'bitten',
+                            hours: 6,
+                        },
+                        effects: [{ type: 'setFlag', flag: 'feverish' }],
+                        dialogue: 'doctor',
+                    },
+                },
+            }),
+            new Map([['events:fever', 'content/events/fever.yaml']])
+        );
+
+        expect(index.find('flags', 'bitten')).toEqual([
+            {
+                file: 'content/events/fever.yaml',
+                where: 'event "fever" trigger',
+                access: 'check',
+            },
+        ]);
+        expect(index.find('flags', 'feverish')[0].access).toBe('set');
+        expect(index.count('dialogues', 'doctor')).toBe(1);
+    });
+
+    it('finds the currency a shop spends and pays, and its stock', () => {
+        const index = new ReferenceIndex(
+            registry({
+                characters: {
+                    mira: {
+                        id: 'mira',
+                        name: 'Mira',
+                        biography: '',
+                        portrait: '',
+                        location: 'market',
+                        dialogue: '',
+                        stats: {},
+                        shop: { currency: 'silver', stock: { arrow: 20 } },
+                    },
+                },
+            }),
+            new Map([['characters:mira', 'content/characters/mira.yaml']])
+        );
+
+        expect(index.find('variables', 'silver')).toEqual([
+            {
+                file: 'content/characters/mira.yaml',
+                where: 'character "mira" shop currency',
+                access: 'set',
+            },
+        ]);
+        expect(index.find('items', 'arrow')).toEqual([
+            {
+                file: 'content/characters/mira.yaml',
+                where: 'character "mira" shop stock',
+            },
+        ]);
+    });
+
+    it('finds the target, flags, and dialogue of an item use', () => {
+        const index = new ReferenceIndex(
+            registry({
+                characters: {
+                    guard: {
+                        id: 'guard',
+                        name: 'Guard',
+                        biography: '',
+                        portrait: '',
+                        location: 'gate',
+                        dialogue: '',
+                        stats: {},
+                    },
+                },
+                items: {
+                    pass: {
+                        id: 'pass',
+                        name: 'Pass',
+                        description: '',
+                        icon: '',
+                        image: '',
+                        location: 'inventory',
+                        stats: {},
+                        uses: [
+                            {
+                                id: 'show',
+                                label: 'Show the pass',
+                                target: 'guard',
+                                conditions: [
+                                    { type: 'notFlag', flag: 'passShown' },
+                                ],
+                                effects: [
+                                    { type: 'setFlag', flag: 'passShown' },
+                                ],
+                                dialogue: 'guard_pass',
+                            },
+                        ],
+                    },
+                },
+            }),
+            new Map([['items:pass', 'content/items/pass.yaml']])
+        );
+
+        expect(index.find('characters', 'guard')).toEqual([
+            {
+                file: 'content/items/pass.yaml',
+                where: 'item "pass" use "show"',
+            },
+        ]);
+        expect(
+            index.find('flags', 'passShown').map((ref) => ref.access)
+        ).toEqual(['check', 'set']);
+        expect(index.count('dialogues', 'guard_pass')).toBe(1);
+    });
+
+    it('finds faction members and reputation checks, and unused factions', () => {
+        const dialogue = parseDialogue(
+            `NODE start
+  GUARD: Move along.
+  IF reputationBelow city_guard 0
+    ADD reputation city_guard -1
+  END
+`,
+            'gate'
+        );
+        const index = new ReferenceIndex(
+            registry({
+                characters: {
+                    guard: {
+                        id: 'guard',
+                        name: 'Guard',
+                        biography: '',
+                        portrait: '',
+                        location: 'gate',
+                        dialogue: 'gate',
+                        stats: {},
+                        factions: ['city_guard'],
+                    },
+                },
+                dialogues: { gate: dialogue },
+                factions: {
+                    city_guard: { id: 'city_guard', name: 'City Guard' },
+                    thieves: { id: 'thieves', name: 'Thieves' },
+                },
+            }),
+            new Map([
+                ['characters:guard', 'content/characters/guard.yaml'],
+                ['dialogues:gate', 'content/dialogues/gate.dlg'],
+            ])
+        );
+
+        expect(index.find('factions', 'city_guard')).toEqual([
+            {
+                file: 'content/characters/guard.yaml',
+                where: 'character "guard" factions',
+            },
+            {
+                file: 'content/dialogues/gate.dlg',
+                where: 'dialogue "gate" node "start"',
+            },
+            {
+                file: 'content/dialogues/gate.dlg',
+                where: 'dialogue "gate" node "start"',
+            },
+        ]);
+        expect(index.orphans('factions')).toEqual(['thieves']);
+    });
 });
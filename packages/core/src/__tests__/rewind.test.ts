@@ -0,0 +1,342 @@
+/**
+ * Tests for rewinding: the engine keeps the states from before recent player
+ * actions, when the game allows it, so Back can take those actions back.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { Engine } from '../engine';
+import { parseDialogue } from '../parser';
+import type { ContentRegistry } from '../types/registry';
+import type { GameConfig } from '../types/entities';
+
+const INNKEEPER = `
+NODE start
+  INNKEEPER: Room or ale?
+  CHOICE "A room, please."
+    ADD variable gold -5
+    GOTO room
+  END
+  CHOICE "Ale."
+    SET flag drankAle
+    GOTO ale
+  END
+
+NODE room
+  INNKEEPER: Up the stairs.
+  GOTO goodnight
+
+NODE goodnight
+  INNKEEPER: Sleep well.
+
+NODE ale
+  INNKEEPER: Here you go.
+`;
+
+function createRegistry(): ContentRegistry {
+    return {
+        locations: {
+            inn: { id: 'inn', name: 'Inn', description: '' },
+            square: { id: 'square', name: 'Square', description: '' },
+        },
+        characters: {
+            innkeeper: {
+                id: 'innkeeper',
+                name: 'Innkeeper',
+                biography: '',
+                location: 'inn',
+                dialogue: 'innkeeper',
+                stats: {},
+            },
+        },
+        items: {},
+        maps: {
+            town: {
+                id: 'town',
+                name: 'Town',
+                image: 'town.png',
+                scale: 10,
+                locations: [
+                    { id: 'inn', x: 0, y: 0 },
+                    { id: 'square', x: 30, y: 0 },
+                ],
+            },
+        },
+        dialogues: { innkeeper: parseDialogue(INNKEEPER, 'innkeeper') },
+        quests: {},
+        journalEntries: {},
+        interludes: {},
+        locales: {},
+    };
+}
+
+const config: GameConfig = {
+    title: 'Test Game',
+    startLocation: 'inn',
+    startTime: { day: 1, hour: 20 },
+    startFlags: {},
+    startVariables: { gold: 10 },
+    startInventory: [],
+    allowRewind: true,
+};
+
+function talkAndChoose(engine: Engine, choiceText: string) {
+    engine.talkTo('innkeeper');
+    const choice = engine
+        .getSnapshot()
+        .choices.find((c) => c.text === choiceText);
+    return engine.selectChoice(choice!.id);
+}
+
+describe('rewind', () => {
+    it('takes back a choice and its effects', () => {
+        const engine = new Engine(createRegistry());
+        engine.newGame(config);
+        talkAndChoose(engine, 'A room, please.');
+        expect(engine.getState().variables.gold).toBe(5);
+
+        const snapshot = engine.rewind();
+
+        expect(engine.getState().variables.gold).toBe(10);
+        expect(engine.getState().dialogueState?.nodeId).toBe('start');
+        expect(snapshot.choices).toHaveLength(2);
+    });
+
+    it('takes back Continue, starting a conversation, and travel one at a time', () => {
+        const engine = new Engine(createRegistry());
+        engine.newGame(config);
+        talkAndChoose(engine, 'A room, please.');
+        engine.continueDialogue();
+        engine.continueDialogue();
+        engine.travelTo('square');
+        expect(engine.getState().currentLocation).toBe('square');
+
+        engine.rewind();
+        expect(engine.getState().currentLocation).toBe('inn');
+        expect(engine.getState().dialogueState).toBeNull();
+        expect(engine.getState().currentTime).toEqual({ day: 1, hour: 20 });
+
+        engine.rewind();
+        expect(engine.getState().dialogueState?.nodeId).toBe('goodnight');
+
+        engine.rewind(3);
+        expect(engine.getState().dialogueState).toBeNull();
+        expect(engine.canRewind()).toBe(false);
+    });
+
+    it('goes back as far as it can when asked for more steps than it keeps', () => {
+        const engine = new Engine(createRegistry());
+        engine.newGame(config);
+        talkAndChoose(engine, 'Ale.');
+
+        engine.rewind(10);
+
+        expect(engine.getState().dialogueState).toBeNull();
+        expect(engine.getState().flags.drankAle).toBeUndefined();
+        expect(engine.canRewind()).toBe(false);
+    });
+
+    it('keeps the language and player notes as they are now', () => {
+        const engine = new Engine(createRegistry());
+        engine.newGame(config);
+        talkAndChoose(engine, 'Ale.');
+        engine.setLocale('sv');
+        engine.writeNote('Ale', 'The ale is good.');
+
+        engine.rewind();
+
+        expect(engine.getState().currentLocale).toBe('sv');
+        expect(engine.getState().playerNotes).toHaveLength(1);
+        expect(engine.getState().flags.drankAle).toBeUndefined();
+    });
+
+    it('does not keep actions that changed nothing', () => {
+        const engine = new Engine(createRegistry());
+        engine.newGame(config);
+        engine.talkTo('nobody');
+        engine.travelTo('nowhere');
+        engine.continueDialogue();
+        expect(engine.canRewind()).toBe(false);
+    });
+
+    it('does not keep talking to a character whose conversation cannot start', () => {
+        const registry = createRegistry();
+        registry.dialogues.broken = {
+            ...registry.dialogues.innkeeper,
+            id: 'broken',
+            startNode: 'missing',
+        };
+        registry.characters.ghost = {
+            ...registry.characters.innkeeper,
+            id: 'ghost',
+            dialogue: 'broken',
+        };
+        const engine = new Engine(registry);
+        engine.newGame(config);
+
+        engine.talkTo('ghost');
+
+        expect(engine.getState().dialogueState).toBeNull();
+        expect(engine.canRewind()).toBe(false);
+    });
+
+    it('takes back using an item, buying, and selling', () => {
+        const registry = createRegistry();
+        const item = (id: string, location: string) => ({
+            id,
+            name: id,
+            description: '',
+            icon: '',
+            image: '',
+            location,
+            stats: { price: 4 },
+        });
+        registry.items = {
+            apple: {
+                ...item('apple', 'inventory'),
+                uses: [
+                    {
+                        id: 'eat',
+                        label: 'Eat',
+                        effects: [
+                            { type: 'removeItem', itemId: 'apple', count: 1 },
+                            { type: 'setFlag', flag: 'fed' },
+                        ],
+                    },
+                ],
+            },
+            ale: item('ale', 'innkeeper'),
+        };
+        registry.characters.innkeeper.shop = {};
+        const engine = new Engine(registry);
+        engine.newGame({ ...config, startInventory: ['apple'] });
+        engine.applyDebugEffect({
+            type: 'startShop',
+            characterId: 'innkeeper',
+        });
+
+        engine.useItem('apple');
+        engine.buyItem('ale');
+        engine.sellItem('ale');
+        expect(engine.getState().variables.gold).toBe(8);
+
+        engine.rewind();
+        expect(engine.getState().inventory).toEqual(['ale']);
+        expect(engine.getState().variables.gold).toBe(6);
+
+        engine.rewind();
+        expect(engine.getState().inventory).toEqual([]);
+        expect(engine.getState().variables.gold).toBe(10);
+
+        engine.rewind();
+        expect(engine.getState().inventory).toEqual(['apple']);
+        expect(engine.getState().flags.fed).toBeUndefined();
+        expect(engine.canRewind()).toBe(false);
+    });
+
+    it('takes back the rolls an exit or item use made for its conditions', () => {
+        const registry = createRegistry();
+        const lucky = { type: 'roll', min: 1, max: 1, threshold: 1 } as const;
+        registry.locations.inn.exits = [
+            { id: 'out', label: 'Out', target: 'square', conditions: [lucky] },
+        ];
+        registry.items = {
+            dice: {
+                id: 'dice',
+                name: 'Dice',
+                description: '',
+                icon: '',
+                image: '',
+                location: 'inventory',
+                stats: {},
+                uses: [{ id: 'throw', label: 'Throw', conditions: [lucky] }],
+            },
+        };
+        const engine = new Engine(registry);
+        engine.newGame({ ...config, startInventory: ['dice'] }, 7);
+        const start = engine.getState().randomState;
+
+        engine.useItem('dice');
+        const afterUse = engine.getState().randomState;
+        engine.takeExit('out');
+        expect(engine.getState().currentLocation).toBe('square');
+
+        engine.rewind();
+        expect(engine.getState().randomState).toBe(afterUse);
+        engine.rewind();
+        expect(engine.getState().randomState).toBe(start);
+        expect(afterUse).not.toBe(start);
+    });
+
+    it('does not keep dismissing an interlude, so Back takes back the trip that showed it', () => {
+        const registry = createRegistry();
+        registry.interludes.arrival = {
+            id: 'arrival',
+            text: 'The square is quiet.',
+            triggerLocation: 'square',
+        };
+        const engine = new Engine(registry);
+        engine.newGame(config);
+        const arrived = engine.travelTo('square');
+        expect(arrived.pendingInterlude?.id).toBe('arrival');
+
+        engine.dismissInterlude();
+        engine.rewind();
+
+        expect(engine.getState().currentLocation).toBe('inn');
+        expect(engine.canRewind()).toBe(false);
+    });
+
+    it('keeps only the most recent actions', () => {
+        const engine = new Engine(createRegistry());
+        engine.newGame(config);
+        for (let i = 0; i < 60; i++) {
+            engine.travelTo(i % 2 === 0 ? 'square' : 'inn');
+        }
+
+        engine.rewind(60);
+
+        // The first ten trips are gone; the oldest kept state is after them.
+        expect(engine.getState().currentTime.day).toBeGreaterThan(1);
+    });
+
+    it('is off unless the game config allows it', () => {
+        const engine = new Engine(createRegistry());
+        engine.newGame({ ...config, allowRewind: false });
+        talkAndChoose(engine, 'Ale.');
+
+        expect(engine.canRewind()).toBe(false);
+        engine.rewind();
+        expect(engine.getState().flags.drankAle).toBe(true);
+    });
+
+    it('forgets kept actions on a new game, a load, or turning it off', () => {
+        const engine = new Engine(createRegistry());
+        engine.newGame(config);
+        talkAndChoose(engine, 'Ale.');
+        const save = engine.saveGame();
+
+        engine.loadGame(save);
+        expect(engine.canRewind()).toBe(false);
+
+        talkAndChoose(engine, 'Ale.');
+        engine.setRewindEnabled(false);
+        expect(engine.canRewind()).toBe(false);
+
+        engine.setRewindEnabled(true);
+        talkAndChoose(engine, 'Ale.');
+        engine.newGame(config);
+        expect(engine.canRewind()).toBe(false);
+    });
+
+    it('can be turned on for a loaded save', () => {
+        const saved = new Engine(createRegistry());
+        saved.newGame({ ...config, allowRewind: false });
+        const engine = new Engine(createRegistry());
+        engine.setRewindEnabled(true);
+        engine.loadGame(saved.saveGame());
+
+        talkAndChoose(engine, 'Ale.');
+
+        expect(engine.canRewind()).toBe(true);
+    });
+});
@@ -0,0 +1,357 @@
+/**
+ * Tests for save migration and content repair.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { CURRENT_SAVE_VERSION, migrateSave, repairGameState } from '../save';
+import { createInitialState } from '../engine';
+import type { ContentRegistry } from '../types/registry';
+import type { GameState } from '../types/state';
+import type { SaveData, SaveMigration } from '../types/save';
+
+function createTestRegistry(): ContentRegistry {
+    return {
+        locations: {},
+        characters: {
+            bartender: {
+                id: 'bartender',
+                name: 'Marcus',
+                biography: '',
+                portrait: '',
+                location: 'tavern',
+                dialogue: '',
+                stats: { charm: { name: 'Charm', value: 3 } },
+            },
+        },
+        items: {
+            rusty_key: {
+                id: 'rusty_key',
+                name: 'Rusty Key',
+                description: '',
+                icon: '',
+                image: '',
+                location: 'tavern',
+                stats: {},
+            },
+        },
+        maps: {},
+        dialogues: {
+            greeting: {
+                id: 'greeting',
+                startNode: 'start',
+                nodes: [
+                    { id: 'start', speaker: null, text: 'Hi.', choices: [] },
+                ],
+            },
+        },
+        quests: {},
+        journalEntries: {},
+        interludes: {},
+        locales: {},
+    };
+}
+
+function createTestState(overrides: Partial<GameState> = {}): GameState {
+    return {
+        ...createInitialState(),
+        currentLocation: 'tavern',
+        characterState: {
+            bartender: {
+                location: 'tavern',
+                inParty: false,
+                relationship: 2,
+                stats: { charm: 3 },
+            },
+        },
+        itemLocations: { rusty_key: 'inventory' },
+        inventory: ['rusty_key'],
+        ...overrides,
+    };
+}
+
+describe('migrateSave', () => {
+    it('upgrades a version 1.0 save to the current version', () => {
+        const {
+            trackedQuest: _t,
+            randomState: _r,
+            ...oldState
+        } = createTestState();
+        const { save, migrations } = migrateSave({
+            version: '1.0',
+            timestamp: '2024-01-01T00:00:00.000Z',
+            state: oldState as GameState,
+        });
+
+        expect(save.version).toBe(CURRENT_SAVE_VERSION);
+        expect(save.state.trackedQuest).toBeNull();
+        expect(typeof save.state.randomState).toBe('number');
+        expect(save.state.eventClock).toBe(
+            (save.state.currentTime.day - 1) * 24 + save.state.currentTime.hour
+        );
+        expect(migrations).toHaveLength(5);
+    });
+
+    it('counts a version 1.2 inventory, merging repeated items', () => {
+        const { save } = migrateSave({
+            version: '1.2',
+            timestamp: '',
+            state: createTestState({
+                inventory: ['rusty_key', 'potion', 'potion'],
+            }),
+        });
+
+        expect(save.state.inventory).toEqual(['rusty_key', 'potion']);
+        expect(save.state.itemCounts).toEqual({ rusty_key: 1, potion: 2 });
+    });
+
+    it('starts an empty conversation log for a version 1.3 save', () => {
+        const { dialogueLog: _omitted, ...oldState } = createTestState();
+        const { save } = migrateSave({
+            version: '1.3',
+            timestamp: '',
+            state: oldState as GameState,
+        });
+
+        expect(save.state.dialogueLog).toEqual([]);
+    });
+
+    it('counts the saved location as visited for a version 1.4 save', () => {
+        const { locationVisits: _omitted, ...oldState } = createTestState();
+        const { save } = migrateSave({
+            version: '1.4',
+            timestamp: '',
+            state: oldState as GameState,
+        });
+
+        expect(save.state.locationVisits).toEqual({ tavern: 1 });
+    });
+
+    it('keeps visit counts a version 1.4 save already has', () => {
+        const { save } = migrateSave({
+            version: '1.4',
+            timestamp: '',
+            state: createTestState({
+                locationVisits: { tavern: 3, market: 1 },
+            }),
+        });
+
+        expect(save.state.locationVisits).toEqual({ tavern: 3, market: 1 });
+    });
+
+    it('leaves a current save untouched', () => {
+        const saveData: SaveData = {
+            version: CURRENT_SAVE_VERSION,
+            timestamp: '2024-01-01T00:00:00.000Z',
+            state: createTestState(),
+        };
+        expect(migrateSave(saveData)).toEqual({
+            save: saveData,
+            migrations: [],
+        });
+    });
+
+    it('runs a chain of migrations in order', () => {
+        const chain: Record<string, SaveMigration> = {
+            '1': {
+                to: '2',
+                description: 'Add coins',
+                migrate: (state) => ({ ...state, coins: 1 }),
+            },
+            '2': {
+                to: '3',
+                description: 'Double coins',
+                migrate: (state) => ({
+                    ...state,
+                    coins: (state.coins as number) * 2,
+                }),
+            },
+        };
+        const { save, migrations } = migrateSave(
+            { version: '1', timestamp: '', state: createTestState() },
+            chain,
+            '3'
+        );
+
+        expect(save.version).toBe('3');
+        expect((save.state as unknown as { coins: number }).coins).toBe(2);
+        expect(migrations).toEqual(['Add coins', 'Double coins']);
+    });
+
+    it('rejects a save with no migration path', () => {
+        expect(() =>
+            migrateSave({
+                version: '9.0',
+                timestamp: '',
+                state: createTestState(),
+            })
+        ).toThrow(/Save version "9.0" cannot be loaded/);
+    });
+});
+
+describe('repairGameState', () => {
+    it('makes no changes when the state matches the content', () => {
+        const state = createTestState();
+        expect(repairGameState(state, createTestRegistry())).toEqual({
+            state,
+            repairs: [],
+        });
+    });
+
+    it('drops items, characters, and quests that no longer exist', () => {
+        const { state, repairs } = repairGameState(
+            createTestState({
+                inventory: ['rusty_key', 'old_coin'],
+                itemLocations: { rusty_key: 'inventory', old_coin: 'tavern' },
+                itemCounts: { rusty_key: 1, old_coin: 4 },
+                characterState: {
+                    ...createTestState().characterState,
+                    ghost: {
+                        location: 'attic',
+                        inParty: true,
+                        relationship: 0,
+                        stats: {},
+                    },
+                },
+                questProgress: { lost_quest: 'started' },
+                trackedQuest: 'lost_quest',
+                unlockedJournalEntries: ['lost_entry'],
+            }),
+            createTestRegistry()
+        );
+
+        expect(state.inventory).toEqual(['rusty_key']);
+        expect(state.itemCounts).toEqual({ rusty_key: 1 });
+        expect(state.itemLocations).toEqual({ rusty_key: 'inventory' });
+        expect(Object.keys(state.characterState)).toEqual(['bartender']);
+        expect(state.questProgress).toEqual({});
+        expect(state.trackedQuest).toBeNull();
+        expect(state.unlockedJournalEntries).toEqual([]);
+        expect(repairs.map((r) => [r.field, r.id])).toEqual([
+            ['inventory', 'old_coin'],
+            ['itemLocations', 'old_coin'],
+            ['characterState', 'ghost'],
+            ['questProgress', 'lost_quest'],
+            ['trackedQuest', 'lost_quest'],
+            ['unlockedJournalEntries', 'lost_entry'],
+        ]);
+    });
+
+    it('gives content added since the save its starting state', () => {
+        const { state, repairs } = repairGameState(
+            createTestState({ characterState: {}, itemLocations: {} }),
+            createTestRegistry()
+        );
+
+        expect(state.itemLocations.rusty_key).toBe('tavern');
+        expect(state.characterState.bartender).toEqual({
+            location: 'tavern',
+            inParty: false,
+            relationship: 0,
+            stats: { charm: 3 },
+        });
+        expect(repairs).toHaveLength(2);
+    });
+
+    it('ends a conversation on a dialogue node that no longer exists', () => {
+        const registry = createTestRegistry();
+        const missingNode = repairGameState(
+            createTestState({
+                dialogueState: { dialogueId: 'greeting', nodeId: 'gone' },
+            }),
+            registry
+        );
+        const missingDialogue = repairGameState(
+            createTestState({
+                dialogueState: { dialogueId: 'gone', nodeId: 'start' },
+            }),
+            registry
+        );
+
+        expect(missingNode.state.dialogueState).toBeNull();
+        expect(missingNode.repairs[0]).toEqual({
+            field: 'dialogueState',
+            id: 'greeting.gone',
+            message:
+                'Ended the conversation at unknown node "gone" in dialogue "greeting"',
+        });
+        expect(missingDialogue.state.dialogueState).toBeNull();
+    });
+
+    it('ends a conversation that would return to a node that no longer exists', () => {
+        const registry = createTestRegistry();
+        const state = createTestState({
+            dialogueState: {
+                dialogueId: 'greeting',
+                nodeId: 'start',
+                callStack: [
+                    { dialogueId: 'greeting', nodeId: null },
+                    { dialogueId: 'greeting', nodeId: 'gone' },
+                ],
+            },
+        });
+
+        const { state: repaired, repairs } = repairGameState(state, registry);
+        expect(repaired.dialogueState).toBeNull();
+        expect(repairs).toEqual([
+            {
+                field: 'dialogueState',
+                id: 'greeting.gone',
+                message:
+                    'Ended the conversation, which would return to unknown node "gone" in dialogue "greeting"',
+            },
+        ]);
+        expect(
+            repairGameState(
+                createTestState({
+                    dialogueState: {
+                        dialogueId: 'greeting',
+                        nodeId: 'start',
+                        callStack: [{ dialogueId: 'greeting', nodeId: null }],
+                    },
+                }),
+                registry
+            ).repairs
+        ).toEqual([]);
+    });
+
+    it('drops removed events from the event queue and countdowns', () => {
+        const registry: ContentRegistry = {
+            ...createTestRegistry(),
+            events: {
+                curfew: {
+                    id: 'curfew',
+                    trigger: { type: 'daily', hour: 22 },
+                    dialogue: 'greeting',
+                },
+            },
+        };
+        const { state, repairs } = repairGameState(
+            createTestState({
+                eventTimers: { fever: 30 },
+                queuedEvents: ['curfew', 'messenger'],
+            }),
+            registry
+        );
+
+        expect(state.eventTimers).toEqual({});
+        expect(state.queuedEvents).toEqual(['curfew']);
+        expect(repairs.map((r) => r.id)).toEqual(['fever', 'messenger']);
+    });
+
+    it('closes the shop of a character who is no longer a merchant', () => {
+        const { state, repairs } = repairGameState(
+            createTestState({ activeShop: 'ghost' }),
+            createTestRegistry()
+        );
+
+        expect(state.activeShop).toBeNull();
+        expect(repairs).toEqual([
+            {
+                field: 'activeShop',
+                id: 'ghost',
+                message:
+                    'Closed the shop of "ghost", who is no longer a merchant',
+            },
+        ]);
+    });
+});
@@ -0,0 +1,260 @@
+/**
+ * Tests for character schedules.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { applySchedules, scheduledLocation } from '../schedules';
+import { Engine, createInitialState } from '../engine';
+import { evaluateCondition } from '../conditions';
+import type { ContentRegistry } from '../types/registry';
+import type { Character, GameConfig } from '../types/entities';
+import type { GameState } from '../types/state';
+
+const shopkeeper: Character = {
+    id: 'shopkeeper',
+    name: 'Greta',
+    biography: '',
+    portrait: '',
+    location: 'home',
+    dialogue: '',
+    stats: {},
+    schedule: [
+        { location: 'tavern', startHour: 20, endHour: 23, days: [2] },
+        { location: 'shop', startHour: 8, endHour: 18 },
+        {
+            location: 'tavern',
+            startHour: 18,
+            endHour: 2,
+            conditions: [{ type: 'hasFlag', flag: 'festival' }],
+        },
+    ],
+};
+
+function createTestRegistry(): ContentRegistry {
+    const location = (id: string) => ({
+        id,
+        name: id,
+        description: '',
+        banner: '',
+        music: '',
+        ambient: '',
+    });
+    return {
+        locations: {
+            home: location('home'),
+            shop: location('shop'),
+            tavern: location('tavern'),
+        },
+        characters: { shopkeeper },
+        items: {},
+        maps: {
+            town: {
+                id: 'town',
+                name: 'Town',
+                image: '',
+                scale: 10,
+                locations: [
+                    { id: 'home', x: 0, y: 0 },
+                    { id: 'shop', x: 20, y: 0 },
+                    { id: 'tavern', x: 40, y: 0 },
+                ],
+            },
+        },
+        dialogues: {},
+        quests: {},
+        journalEntries: {},
+        interludes: {},
+        locales: {},
+    };
+}
+
+function createTestState(day: number, hour: number): GameState {
+    return {
+        ...createInitialState(),
+        currentLocation: 'shop',
+        currentTime: { day, hour },
+        characterState: {
+            shopkeeper: {
+                location: 'home',
+                inParty: false,
+                relationship: 0,
+                stats: {},
+            },
+        },
+    };
+}
+
+function createTestConfig(): GameConfig {
+    return {
+        title: 'Test Game',
+        startLocation: 'shop',
+        startTime: { day: 1, hour: 7 },
+        startFlags: {},
+        startVariables: {},
+        startInventory: [],
+    };
+}
+
+describe('scheduledLocation', () => {
+    const registry = createTestRegistry();
+
+    it('uses the first entry whose hours include the current hour', () => {
+        expect(
+            scheduledLocation(shopkeeper, createTestState(1, 9), registry)
+        ).toBe('shop');
+    });
+
+    it('falls back to the starting location outside every entry', () => {
+        expect(
+            scheduledLocation(shopkeeper, createTestState(1, 3), registry)
+        ).toBe('home');
+    });
+
+    it('applies an entry only on its days', () => {
+        expect(
+            scheduledLocation(shopkeeper, createTestState(1, 21), registry)
+        ).toBe('home');
+        expect(
+            scheduledLocation(shopkeeper, createTestState(2, 21), registry)
+        ).toBe('tavern');
+    });
+
+    it('applies an entry only while its conditions pass', () => {
+        const state = {
+            ...createTestState(1, 1),
+            flags: { festival: true },
+        };
+        expect(scheduledLocation(shopkeeper, state, registry)).toBe('tavern');
+    });
+
+    it('applies an entry only on its weekdays', () => {
+        const weekly: Character = {
+            ...shopkeeper,
+            schedule: [
+                {
+                    location: 'tavern',
+                    startHour: 8,
+                    endHour: 18,
+                    weekdays: ['rest'],
+                },
+            ],
+        };
+        const calendar = {
+            weekdays: [
+                { id: 'work', name: 'Workday' },
+                { id: 'rest', name: 'Restday' },
+            ],
+        };
+        const withCalendar = { ...registry, calendar };
+        expect(
+            scheduledLocation(weekly, createTestState(1, 9), withCalendar)
+        ).toBe('home');
+        expect(
+            scheduledLocation(weekly, createTestState(4, 9), withCalendar)
+        ).toBe('tavern');
+        expect(scheduledLocation(weekly, createTestState(4, 9), registry)).toBe(
+            'home'
+        );
+    });
+
+    it('returns null for a character without a schedule', () => {
+        const { schedule: _schedule, ...unscheduled } = shopkeeper;
+        expect(
+            scheduledLocation(unscheduled, createTestState(1, 9), registry)
+        ).toBeNull();
+    });
+});
+
+describe('applySchedules', () => {
+    const registry = createTestRegistry();
+
+    it('moves scheduled characters and leaves the state alone otherwise', () => {
+        const state = createTestState(1, 9);
+        expect(
+            applySchedules(state, registry).characterState.shopkeeper
+        ).toEqual({ ...state.characterState.shopkeeper, location: 'shop' });
+
+        const atHome = createTestState(1, 3);
+        expect(applySchedules(atHome, registry)).toBe(atHome);
+    });
+
+    it('leaves party members and explicitly moved characters in place', () => {
+        const base = createTestState(1, 9);
+        for (const patch of [{ inParty: true }, { scheduleOverridden: true }]) {
+            const state: GameState = {
+                ...base,
+                characterState: {
+                    shopkeeper: { ...base.characterState.shopkeeper, ...patch },
+                },
+            };
+            expect(applySchedules(state, registry)).toBe(state);
+        }
+    });
+});
+
+describe('Engine schedules', () => {
+    it('moves characters as time passes and shows them where they are', () => {
+        const engine = new Engine(createTestRegistry());
+        let snapshot = engine.newGame(createTestConfig());
+        expect(snapshot.charactersHere).toEqual([]);
+
+        snapshot = engine.applyDebugEffect({ type: 'advanceTime', hours: 1 });
+        expect(snapshot.charactersHere.map((c) => c.id)).toEqual([
+            'shopkeeper',
+        ]);
+
+        const state = engine.saveGame().state;
+        expect(
+            evaluateCondition(
+                {
+                    type: 'characterAt',
+                    characterId: 'shopkeeper',
+                    locationId: 'shop',
+                },
+                state,
+                createTestRegistry()
+            )
+        ).toBe(true);
+
+        snapshot = engine.applyDebugEffect({ type: 'advanceTime', hours: 10 });
+        expect(snapshot.charactersHere).toEqual([]);
+    });
+
+    it('lets setCharacterLocation take precedence over the schedule', () => {
+        const engine = new Engine(createTestRegistry());
+        engine.newGame(createTestConfig());
+        engine.applyDebugEffect({
+            type: 'setCharacterLocation',
+            characterId: 'shopkeeper',
+            locationId: 'tavern',
+        });
+
+        engine.applyDebugEffect({ type: 'advanceTime', hours: 3 });
+        expect(engine.saveGame().state.characterState.shopkeeper.location).toBe(
+            'tavern'
+        );
+    });
+
+    it('puts a moved character back on schedule with clearCharacterLocation', () => {
+        const engine = new Engine(createTestRegistry());
+        engine.newGame(createTestConfig());
+        engine.applyDebugEffect({ type: 'advanceTime', hours: 2 });
+        engine.applyDebugEffect({
+            type: 'setCharacterLocation',
+            characterId: 'shopkeeper',
+            locationId: 'tavern',
+        });
+
+        const snapshot = engine.applyDebugEffect({
+            type: 'clearCharacterLocation',
+            characterId: 'shopkeeper',
+        });
+        const shopkeeperState =
+            engine.saveGame().state.characterState.shopkeeper;
+        expect(shopkeeperState.location).toBe('shop');
+        expect(shopkeeperState.scheduleOverridden).toBeUndefined();
+        expect(snapshot.charactersHere.map((c) => c.id)).toEqual([
+            'shopkeeper',
+        ]);
+    });
+});
@@ -74,6 +74,27 @@ NODE rumors
 NODE fallback
   ROLL result 1 20
   GOTO rumors
+`;
+        roundTrips(source, 'sample');
+    });
+
+    it('handles CALL and RETURN', () => {
+        const source = `NODE start
+  IF hasFlag haggled
+    CALL rumours
+  END
+
+  CHOICE Haggle
+    CALL barter.haggle
+    GOTO start
+  END
+
+  CHOICE Done
+    RETURN
+  END
+
+  CALL rumours
+  GOTO start
 `;
         roundTrips(source, 'sample');
     });
@@ -114,6 +135,36 @@ describe('serializeCondition / serializeEffect — every type parses back', () =
         { type: 'timeIs', startHour: 20, endHour: 6 },
         { type: 'itemAt', itemId: 'i', locationId: 'l' },
         { type: 'roll', min: 1, max: 20, threshold: 15 },
+        {
+            type: 'anyOf',
+            conditions: [
+                { type: 'hasItem', itemId: 'i' },
+                {
+                    type: 'allOf',
+                    conditions: [
+                        { type: 'hasFlag', flag: 'f' },
+                        {
+                            type: 'relationshipAbove',
+                            characterId: 'c',
+                            value: 2,
+                        },
+                    ],
+                },
+            ],
+        },
+        { type: 'not', condition: { type: 'atLocation', locationId: 'l' } },
+        { type: 'variable', variable: 'v', operator: '<=', value: 3 },
+        {
+            type: 'variable',
+            variable: 'v',
+            operator: '>=',
+            value: { expression: '{price} * 2 - stat(player, luck)' },
+        },
+        {
+            type: 'variableGreaterThan',
+            variable: 'v',
+            value: { expression: '{w} + 1' },
+        },
     ];
 
     const effects: Effect[] = [
@@ -121,6 +172,12 @@ describe('serializeCondition / serializeEffect — every type parses back', () =
         { type: 'clearFlag', flag: 'f' },
         { type: 'setVariable', variable: 'v', value: 5 },
         { type: 'addVariable', variable: 'v', value: -5 },
+        {
+            type: 'setVariable',
+            variable: 'v',
+            value: { expression: '{basePrice} * 2 - {discount}' },
+        },
+        { type: 'addVariable', variable: 'v', value: { expression: '(1d6)' } },
         { type: 'addItem', itemId: 'i' },
         { type: 'removeItem', itemId: 'i' },
         { type: 'moveItem', itemId: 'i', locationId: 'l' },
@@ -129,6 +186,7 @@ describe('serializeCondition / serializeEffect — every type parses back', () =
         { type: 'addJournalEntry', entryId: 'e' },
         { type: 'startDialogue', dialogueId: 'd' },
         { type: 'setCharacterLocation', characterId: 'c', locationId: 'l' },
+        { type: 'clearCharacterLocation', characterId: 'c' },
         { type: 'addToParty', characterId: 'c' },
         { type: 'removeFromParty', characterId: 'c' },
         { type: 'setRelationship', characterId: 'c', value: 5 },
@@ -178,4 +236,23 @@ describe('serializeCondition / serializeEffect — every type parses back', () =
             expect(parsed.nodes[0].effects?.[0]).toEqual(effect);
         }
     });
+
+    it('puts a lone dice word in parentheses so it still rolls', () => {
+        const node = serializeNode({
+            id: 'n',
+            speaker: null,
+            text: '',
+            choices: [],
+            effects: [
+                {
+                    type: 'setVariable',
+                    variable: 'roll',
+                    value: { expression: 'd20' },
+                },
+            ],
+            next: 'x',
+        });
+
+        expect(node).toContain('SET variable roll (d20)');
+    });
 });
@@ -0,0 +1,311 @@
+/**
+ * Tests for shops: item prices and buying and selling through the engine.
+ */
+
+import { describe, it, expect } from 'vitest';
+import { buyPrice, sellPrice, shopCurrency } from '../shops';
+import { Engine } from '../engine';
+import { parseEffect } from '../parser';
+import type { ContentRegistry } from '../types/registry';
+import type { GameConfig, Item } from '../types/entities';
+
+function item(id: string, location: string, stats: Item['stats']): Item {
+    return {
+        id,
+        name: `@item.${id}`,
+        description: '',
+        icon: '',
+        image: '',
+        location,
+        stats,
+    };
+}
+
+function createTestRegistry(): ContentRegistry {
+    const location = (id: string) => ({
+        id,
+        name: id,
+        description: '',
+        banner: '',
+        music: '',
+        ambient: '',
+    });
+    return {
+        locations: { market: location('market'), tavern: location('tavern') },
+        characters: {
+            merchant: {
+                id: 'merchant',
+                name: 'Mira',
+                biography: '',
+                portrait: '',
+                location: 'market',
+                dialogue: 'haggle',
+                stats: {},
+                shop: {},
+            },
+            pawnbroker: {
+                id: 'pawnbroker',
+                name: 'Otto',
+                biography: '',
+                portrait: '',
+                location: 'market',
+                dialogue: '',
+                stats: {},
+                shop: { currency: 'coins', buys: false },
+            },
+        },
+        items: {
+            lantern: item('lantern', 'merchant', { price: 30 }),
+            rope: item('rope', 'merchant', { price: 5, sellPrice: 4 }),
+            heirloom: item('heirloom', 'merchant', {}),
+            old_coin: item('old_coin', 'inventory', { price: 9 }),
+            letter: item('letter', 'inventory', {}),
+        },
+        maps: {
+            town: {
+                id: 'town',
+                name: 'Town',
+                image: '',
+                scale: 10,
+                locations: [
+                    { id: 'market', x: 0, y: 0 },
+                    { id: 'tavern', x: 20, y: 0 },
+                ],
+            },
+        },
+        dialogues: {
+            haggle: {
+                id: 'haggle',
+                startNode: 'start',
+                nodes: [
+                    {
+                        id: 'start',
+                        speaker: 'merchant',
+                        text: 'Take a look.',
+                        choices: [
+                            {
+                                id: 'browse',
+                                text: 'Show me.',
+                                effects: [
+                                    {
+                                        type: 'startShop',
+                                        characterId: 'merchant',
+                                    },
+                                    { type: 'endDialogue' },
+                                ],
+                                next: '',
+                            },
+                        ],
+                    },
+                ],
+            },
+        },
+        quests: {},
+        journalEntries: {},
+        interludes: {},
+        locales: { en: { 'item.lantern': 'Lantern' } },
+    };
+}
+
+function createTestConfig(): GameConfig {
+    return {
+        title: 'Test Game',
+        startLocation: 'market',
+        startTime: { day: 1, hour: 9 },
+        startFlags: {},
+        startVariables: { gold: 40, coins: 100 },
+        startInventory: ['old_coin', 'letter'],
+    };
+}
+
+function openShop(): Engine {
+    const engine = new Engine(createTestRegistry());
+    engine.newGame(createTestConfig());
+    engine.talkTo('merchant');
+    engine.selectChoice('browse');
+    return engine;
+}
+
+describe('prices', () => {
+    const registry = createTestRegistry();
+
+    it('reads the buy price from the price stat', () => {
+        expect(buyPrice(registry.items.lantern)).toBe(30);
+        expect(buyPrice(registry.items.heirloom)).toBeNull();
+    });
+
+    it('pays the sellPrice stat, or half the price rounded down', () => {
+        expect(sellPrice(registry.items.rope)).toBe(4);
+        expect(sellPrice(registry.items.old_coin)).toBe(4);
+        expect(sellPrice(registry.items.letter)).toBeNull();
+    });
+
+    it('uses gold unless the shop names a currency', () => {
+        expect(shopCurrency({})).toBe('gold');
+        expect(shopCurrency({ currency: 'coins' })).toBe('coins');
+    });
+});
+
+describe('START shop', () => {
+    it('parses to a startShop effect', () => {
+        expect(parseEffect('START shop merchant')).toEqual({
+            type: 'startShop',
+            characterId: 'merchant',
+        });
+    });
+});
+
+describe('Engine shops', () => {
+    it('shows the open shop with priced stock and sellable items', () => {
+        const snapshot = openShop().getSnapshot();
+
+        expect(snapshot.dialogue).toBeNull();
+        expect(snapshot.shop).toMatchObject({
+            merchantId: 'merchant',
+            merchantName: 'Mira',
+            currency: 'gold',
+            money: 40,
+        });
+        expect(
+            snapshot.shop?.stock.map((i) => [i.id, i.name, i.price])
+        ).toEqual([
+            ['lantern', 'Lantern', 30],
+            ['rope', '@item.rope', 5],
+        ]);
+        expect(snapshot.shop?.sellable.map((i) => [i.id, i.price])).toEqual([
+            ['old_coin', 4],
+        ]);
+    });
+
+    it('buys an item the player can afford', () => {
+        const engine = openShop();
+        const snapshot = engine.buyItem('lantern');
+
+        expect(snapshot.variables.gold).toBe(10);
+        expect(snapshot.inventory.map((i) => i.id)).toContain('lantern');
+        expect(snapshot.shop?.stock.map((i) => i.id)).toEqual(['rope']);
+
+        const refused = engine.buyItem('lantern');
+        expect(refused.variables.gold).toBe(10);
+    });
+
+    it('refuses a purchase the player cannot afford', () => {
+        const engine = openShop();
+        engine.applyDebugEffect({
+            type: 'setVariable',
+            variable: 'gold',
+            value: 20,
+        });
+        const snapshot = engine.buyItem('lantern');
+
+        expect(snapshot.variables.gold).toBe(20);
+        expect(snapshot.inventory.map((i) => i.id)).not.toContain('lantern');
+        expect(engine.buyItem('heirloom').variables.gold).toBe(20);
+    });
+
+    it('sells an item to the merchant, who can sell it again', () => {
+        const engine = openShop();
+        const snapshot = engine.sellItem('old_coin');
+
+        expect(snapshot.variables.gold).toBe(44);
+        expect(snapshot.inventory.map((i) => i.id)).toEqual(['letter']);
+        expect(snapshot.shop?.stock.map((i) => [i.id, i.price])).toContainEqual(
+            ['old_coin', 9]
+        );
+        expect(engine.sellItem('letter').variables.gold).toBe(44);
+    });
+
+    it('sells one from a stack and keeps the rest', () => {
+        const engine = openShop();
+        engine.applyDebugEffect({
+            type: 'addItem',
+            itemId: 'old_coin',
+            count: 2,
+        });
+        const snapshot = engine.sellItem('old_coin');
+
+        expect(snapshot.variables.gold).toBe(44);
+        expect(snapshot.inventory.find((i) => i.id === 'old_coin')?.count).toBe(
+            2
+        );
+        expect(snapshot.shop?.sellable.map((i) => [i.id, i.count])).toEqual([
+            ['old_coin', 2],
+        ]);
+    });
+
+    it('stocks what is sold from a stack and sells it back', () => {
+        const engine = openShop();
+        engine.applyDebugEffect({
+            type: 'addItem',
+            itemId: 'old_coin',
+            count: 2,
+        });
+        engine.sellItem('old_coin');
+        const sold = engine.sellItem('old_coin');
+
+        expect(sold.variables.gold).toBe(48);
+        expect(sold.inventory.find((i) => i.id === 'old_coin')?.count).toBe(1);
+        expect(sold.shop?.stock.find((i) => i.id === 'old_coin')?.count).toBe(
+            2
+        );
+
+        const bought = engine.buyItem('old_coin');
+        expect(bought.variables.gold).toBe(39);
+        expect(bought.inventory.find((i) => i.id === 'old_coin')?.count).toBe(
+            2
+        );
+        expect(bought.shop?.stock.find((i) => i.id === 'old_coin')?.count).toBe(
+            1
+        );
+    });
+
+    it('sells a stocked count one at a time', () => {
+        const registry = createTestRegistry();
+        registry.characters.merchant.shop = { stock: { rope: 3 } };
+        const engine = new Engine(registry);
+        engine.newGame(createTestConfig());
+        engine.applyDebugEffect({ type: 'startShop', characterId: 'merchant' });
+
+        expect(
+            engine.getSnapshot().shop?.stock.map((i) => [i.id, i.count])
+        ).toEqual([
+            ['lantern', 1],
+            ['rope', 3],
+        ]);
+        engine.buyItem('rope');
+        engine.buyItem('rope');
+        engine.buyItem('rope');
+        const snapshot = engine.buyItem('rope');
+
+        expect(snapshot.variables.gold).toBe(25);
+        expect(snapshot.inventory.find((i) => i.id === 'rope')?.count).toBe(3);
+        expect(snapshot.shop?.stock.map((i) => i.id)).toEqual(['lantern']);
+    });
+
+    it('does not buy from the player when the shop says so', () => {
+        const engine = new Engine(createTestRegistry());
+        engine.newGame(createTestConfig());
+        engine.applyDebugEffect({
+            type: 'startShop',
+            characterId: 'pawnbroker',
+        });
+
+        const snapshot = engine.sellItem('old_coin');
+        expect(snapshot.shop?.sellable).toEqual([]);
+        expect(snapshot.variables.coins).toBe(100);
+    });
+
+    it('trades nothing when no shop is open', () => {
+        const engine = new Engine(createTestRegistry());
+        engine.newGame(createTestConfig());
+
+        const snapshot = engine.buyItem('lantern');
+        expect(snapshot.shop).toBeNull();
+        expect(snapshot.variables.gold).toBe(40);
+    });
+
+    it('closes the shop when asked and when the player travels', () => {
+        expect(openShop().closeShop().shop).toBeNull();
+        expect(openShop().travelTo('tavern').shop).toBeNull();
+    });
+});
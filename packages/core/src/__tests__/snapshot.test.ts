@@ -5,6 +5,8 @@
 
 import { describe, it, expect } from 'vitest';
 import { buildSnapshot } from '../snapshot';
+import type { MissingLocaleKey } from '../localization';
+import { PSEUDO_LOCALE } from '../localization/pseudo';
 import type { ContentRegistry } from '../types/registry';
 import type { GameState } from '../types/state';
 
@@ -372,6 +374,14 @@ describe('Snapshot Builder', () => {
             expect(snapshot.inventory).toHaveLength(1);
             expect(snapshot.inventory[0].id).toBe('letter');
             expect(snapshot.inventory[0].name).toBe('Letter');
+            expect(snapshot.inventory[0].count).toBe(1);
+        });
+
+        it('should count stacked inventory items', () => {
+            const state = { ...createTestState(), itemCounts: { letter: 3 } };
+            const snapshot = buildSnapshot(state, createTestRegistry());
+
+            expect(snapshot.inventory[0].count).toBe(3);
         });
 
         it('should include active quests with resolved text', () => {
@@ -754,6 +764,19 @@ describe('Snapshot Builder', () => {
             // Falls back to the @key itself since es has no entry
             expect(snapshot.location.name).toBe('@location.tavern.name');
         });
+
+        it('should pseudo-localize the English strings in the pseudo-locale', () => {
+            const state = {
+                ...createTestState(),
+                currentLocale: PSEUDO_LOCALE,
+            };
+            const snapshot = buildSnapshot(state, createTestRegistry());
+
+            expect(snapshot.currentLocale).toBe(PSEUDO_LOCALE);
+            expect(snapshot.location.name).toBe('[Ţĥé Šáļţý Ðóĝ~~~~~~]');
+            expect(snapshot.inventory[0].name).toBe('[Ļéţţéŕ~~~]');
+            expect(snapshot.ui['ui.map']).toBe('[Ṁáþ~~]');
+        });
     });
 
     describe('localization fallback', () => {
@@ -777,6 +800,59 @@ describe('Snapshot Builder', () => {
             expect(snapshot.location.name).toBe('@missing.key');
             expect(snapshot.location.description).toBe('Inline text');
         });
+
+        it('should follow the locale fallback chain', () => {
+            const state = { ...createTestState(), currentLocale: 'pt-BR' };
+            const registry: ContentRegistry = {
+                ...createTestRegistry(),
+                localeFallbacks: { 'pt-BR': ['pt'], pt: ['en'] },
+                locales: {
+                    en: { ...createTestRegistry().locales.en },
+                    pt: {
+                        'location.tavern.name': 'O Cão Salgado',
+                        'location.tavern.description': 'Uma taverna escura',
+                        'ui.map': 'Mapa',
+                    },
+                    'pt-BR': { 'location.tavern.name': 'O Cachorro Salgado' },
+                },
+            };
+            const snapshot = buildSnapshot(state, registry);
+
+            expect(snapshot.location.name).toBe('O Cachorro Salgado');
+            expect(snapshot.location.description).toBe('Uma taverna escura');
+            expect(snapshot.inventory[0].name).toBe('Letter');
+            expect(snapshot.ui['ui.map']).toBe('Mapa');
+        });
+
+        it('should report keys no locale in the chain has', () => {
+            const state = {
+                ...createTestState(),
+                dialogueState: {
+                    dialogueId: 'bartender_greeting',
+                    nodeId: 'intro',
+                },
+            };
+            const registry = createTestRegistry();
+            registry.locations.tavern.name = '@missing.key';
+            delete registry.locales.en['bartender.choice.hello'];
+            const missing: MissingLocaleKey[] = [];
+
+            buildSnapshot(state, registry, (key) => missing.push(key));
+
+            expect(missing).toContainEqual({
+                key: 'missing.key',
+                locale: 'en',
+            });
+            expect(missing).toContainEqual({
+                key: 'bartender.choice.hello',
+                locale: 'en',
+                dialogueId: 'bartender_greeting',
+                nodeId: 'intro',
+            });
+            expect(missing).not.toContainEqual(
+                expect.objectContaining({ key: 'bartender.greeting' })
+            );
+        });
     });
 
     describe('ui strings', () => {
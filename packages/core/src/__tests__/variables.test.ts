@@ -0,0 +1,186 @@
+/**
+ * Tests for declared flags and variables: defaults in a new game, clamps on
+ * every write, and repair of saves made before a declaration changed.
+ */
+
+import { describe, expect, it } from 'vitest';
+import {
+    clampVariable,
+    declaredDefaults,
+    fitsVariableType,
+} from '../variables';
+import { applyEffect } from '../effects';
+import { Engine, createInitialState } from '../engine';
+import { repairGameState } from '../save';
+import type { ContentRegistry } from '../types/registry';
+import type { GameConfig, VariableSchema } from '../types/entities';
+
+const schema: VariableSchema = {
+    flags: {
+        metBartender: { description: 'Spoke to Marcus' },
+        doorLocked: { type: 'bool', default: true },
+    },
+    variables: {
+        gold: { type: 'number', default: 10, min: 0, max: 100 },
+        mood: { type: 'enum', values: ['calm', 'angry'], default: 'calm' },
+        nickname: { type: 'string' },
+    },
+};
+
+function createRegistry(): ContentRegistry {
+    return {
+        locations: {
+            tavern: { id: 'tavern', name: 'Tavern', description: '' },
+        },
+        characters: {},
+        items: {},
+        maps: {},
+        dialogues: {},
+        quests: {},
+        journalEntries: {},
+        interludes: {},
+        locales: {},
+        variableSchema: schema,
+    };
+}
+
+const config: GameConfig = {
+    title: 'Test Game',
+    startLocation: 'tavern',
+    startTime: { day: 1, hour: 8 },
+    startFlags: {},
+    startVariables: {},
+    startInventory: [],
+};
+
+describe('clampVariable', () => {
+    it('moves numbers inside the declared range', () => {
+        const gold = schema.variables.gold;
+
+        expect(clampVariable(-5, gold)).toBe(0);
+        expect(clampVariable(250, gold)).toBe(100);
+        expect(clampVariable(42, gold)).toBe(42);
+    });
+
+    it('leaves text and undeclared variables alone', () => {
+        expect(clampVariable('calm', schema.variables.mood)).toBe('calm');
+        expect(clampVariable(-5, undefined)).toBe(-5);
+    });
+});
+
+describe('fitsVariableType', () => {
+    it('checks values against the declared type', () => {
+        expect(fitsVariableType(3, schema.variables.gold)).toBe(true);
+        expect(fitsVariableType('3', schema.variables.gold)).toBe(false);
+        expect(fitsVariableType('angry', schema.variables.mood)).toBe(true);
+        expect(fitsVariableType('sad', schema.variables.mood)).toBe(false);
+        expect(fitsVariableType('Red', schema.variables.nickname)).toBe(true);
+    });
+});
+
+describe('declaredDefaults', () => {
+    it('collects defaults and skips declarations without one', () => {
+        expect(declaredDefaults(schema)).toEqual({
+            flags: { doorLocked: true },
+            variables: { gold: 10, mood: 'calm' },
+        });
+        expect(declaredDefaults(undefined)).toEqual({
+            flags: {},
+            variables: {},
+        });
+    });
+});
+
+describe('clamped effects', () => {
+    const declarations = schema.variables;
+
+    it('clamps setVariable, addVariable, and roll', () => {
+        const state = {
+            ...createInitialState(),
+            variables: { gold: 90 },
+        };
+
+        expect(
+            applyEffect(
+                { type: 'addVariable', variable: 'gold', value: 50 },
+                state,
+                declarations
+            ).variables.gold
+        ).toBe(100);
+        expect(
+            applyEffect(
+                { type: 'setVariable', variable: 'gold', value: -20 },
+                state,
+                declarations
+            ).variables.gold
+        ).toBe(0);
+        expect(
+            applyEffect(
+                { type: 'roll', variable: 'gold', min: 200, max: 300 },
+                state,
+                declarations
+            ).variables.gold
+        ).toBe(100);
+    });
+
+    it('does not clamp without declarations', () => {
+        const state = { ...createInitialState(), variables: { gold: 90 } };
+
+        expect(
+            applyEffect(
+                { type: 'addVariable', variable: 'gold', value: 50 },
+                state
+            ).variables.gold
+        ).toBe(140);
+    });
+});
+
+describe('declared variables in the engine', () => {
+    it('starts a new game with declared defaults under game.yaml values', () => {
+        const engine = new Engine(createRegistry());
+        engine.newGame({ ...config, startVariables: { gold: 25 } });
+
+        const state = engine.getState();
+        expect(state.flags).toEqual({ doorLocked: true });
+        expect(state.variables).toEqual({ gold: 25, mood: 'calm' });
+    });
+
+    it('clamps effects applied by the engine', () => {
+        const engine = new Engine(createRegistry());
+        engine.newGame(config);
+
+        engine.applyDebugEffect({
+            type: 'addVariable',
+            variable: 'gold',
+            value: -500,
+        });
+
+        expect(engine.getState().variables.gold).toBe(0);
+    });
+
+    it('repairs saves with missing or out-of-range values', () => {
+        const state = {
+            ...createInitialState(),
+            flags: { doorLocked: false },
+            variables: { gold: 500 },
+        };
+
+        const result = repairGameState(state, createRegistry());
+
+        expect(result.state.flags).toEqual({ doorLocked: false });
+        expect(result.state.variables).toEqual({ gold: 100, mood: 'calm' });
+        expect(result.repairs).toEqual([
+            {
+                field: 'variables',
+                id: 'gold',
+                message:
+                    'Moved variable "gold" from 500 to 100, inside its declared range',
+            },
+            {
+                field: 'variables',
+                id: 'mood',
+                message: 'Added the default of new variable "mood"',
+            },
+        ]);
+    });
+});
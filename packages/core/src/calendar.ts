@@ -0,0 +1,113 @@
+/**
+ * The game calendar.
+ *
+ * The game clock counts days from 1. A calendar from game.yaml names them:
+ * day 1 falls on the calendar's start date, and each later day moves one
+ * day through the weeks, months, and years. The functions here are pure.
+ */
+
+import type {
+    CalendarConfig,
+    CalendarMonth,
+    CalendarSeason,
+    CalendarWeekday,
+} from './types/entities';
+import type { Time } from './types/state';
+
+/** A game day as a calendar date. */
+export interface CalendarDate {
+    /** Year number */
+    year: number;
+    /** Month, when the calendar has months */
+    month?: CalendarMonth;
+    /** Day of the month, or the game day when the calendar has no months */
+    day: number;
+    /** Day of the week, when the calendar has weekdays */
+    weekday?: CalendarWeekday;
+    /** Season, when one covers the month */
+    season?: CalendarSeason;
+}
+
+/** Remainder that stays positive for negative numbers. */
+function wrap(value: number, size: number): number {
+    return ((value % size) + size) % size;
+}
+
+/**
+ * The calendar date of a game day.
+ *
+ * @param day - Game day number (1-based)
+ * @param calendar - Calendar from the game config, if any
+ * @returns The date; without a calendar, only the day is set
+ */
+export function calendarDate(
+    day: number,
+    calendar: CalendarConfig | undefined
+): CalendarDate {
+    const start = calendar?.startDate ?? {};
+    const offset = day - 1;
+    const date: CalendarDate = { year: start.year ?? 1, day };
+
+    const weekdays = calendar?.weekdays ?? [];
+    if (weekdays.length > 0) {
+        const first = Math.max(
+            0,
+            weekdays.findIndex((weekday) => weekday.id === start.weekday)
+        );
+        date.weekday = weekdays[wrap(first + offset, weekdays.length)];
+    }
+
+    const months = calendar?.months ?? [];
+    const yearLength = months.reduce((sum, month) => sum + month.days, 0);
+    if (months.length === 0 || !(yearLength > 0)) return date;
+
+    const startMonth = Math.max(
+        0,
+        months.findIndex((month) => month.id === start.month)
+    );
+    let startDayOfYear = (start.day ?? 1) - 1;
+    for (let index = 0; index < startMonth; index++) {
+        startDayOfYear += months[index].days;
+    }
+
+    const total = startDayOfYear + offset;
+    date.year += Math.floor(total / yearLength);
+    let dayOfYear = wrap(total, yearLength);
+    for (const month of months) {
+        if (dayOfYear < month.days) {
+            date.month = month;
+            date.day = dayOfYear + 1;
+            break;
+        }
+        dayOfYear -= month.days;
+    }
+
+    const current = date.month;
+    date.season =
+        current &&
+        calendar?.seasons?.find((season) => season.months.includes(current.id));
+    return date;
+}
+
+/**
+ * Move a game time forward. Fractions of an hour become minutes, rounded to
+ * the nearest minute; a time on the hour keeps no minute field.
+ *
+ * @param time - The current time
+ * @param hours - Hours to add
+ * @returns The new time
+ */
+export function addHours(time: Time, hours: number): Time {
+    const total =
+        (time.day - 1) * 24 * 60 +
+        time.hour * 60 +
+        (time.minute ?? 0) +
+        Math.round(hours * 60);
+    const minute = wrap(total, 60);
+    const next: Time = {
+        day: Math.floor(total / (24 * 60)) + 1,
+        hour: Math.floor(wrap(total, 24 * 60) / 60),
+    };
+    if (minute !== 0 || time.minute !== undefined) next.minute = minute;
+    return next;
+}
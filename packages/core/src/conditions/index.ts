@@ -11,16 +11,26 @@
  */
 
 import type { Condition } from '../types/conditions';
+import type { ComparisonOperator, ValueExpression } from '../types/expressions';
 import type { GameState } from '../types/state';
 import type { ContentRegistry } from '../types/registry';
+import type { FailedCondition } from '../types/trace';
 import { getQuestStatus } from '../quests';
+import { itemCount } from '../inventory';
+import { rollInteger } from '../random';
+import { calendarDate } from '../calendar';
+import {
+    evaluateExpression,
+    expressionReferences,
+    isValueExpression,
+} from '../expressions';
 
 /**
  * Evaluate a single condition against the current game state.
  *
  * @param condition - The condition to evaluate
  * @param state - Current game state
- * @param registry - Required when evaluating questStatus
+ * @param registry - Required when evaluating questStatus, dayOfWeekIs, and seasonIs
  * @returns true if the condition passes, false otherwise
  *
  * @example
@@ -42,7 +52,7 @@ export function evaluateCondition(
             return evaluateNotFlag(condition.flag, state);
 
         case 'hasItem':
-            return evaluateHasItem(condition.itemId, state);
+            return evaluateHasItem(condition.itemId, condition.count, state);
 
         case 'variableEquals':
             return evaluateVariableEquals(
@@ -65,9 +75,23 @@ export function evaluateCondition(
                 state
             );
 
+        case 'variable':
+            return evaluateVariableCompare(
+                condition.variable,
+                condition.operator,
+                condition.value,
+                state
+            );
+
         case 'atLocation':
             return evaluateAtLocation(condition.locationId, state);
 
+        case 'visitedLocation':
+            return visitsTo(condition.locationId, state) >= 1;
+
+        case 'visitCount':
+            return visitsTo(condition.locationId, state) >= condition.count;
+
         case 'questAtStage':
             return evaluateQuestAtStage(
                 condition.questId,
@@ -131,6 +155,20 @@ export function evaluateCondition(
                 state
             );
 
+        case 'reputationAbove':
+            return evaluateReputationAbove(
+                condition.factionId,
+                condition.value,
+                state
+            );
+
+        case 'reputationBelow':
+            return evaluateReputationBelow(
+                condition.factionId,
+                condition.value,
+                state
+            );
+
         case 'timeIs':
             return evaluateTimeIs(
                 condition.startHour,
@@ -138,6 +176,21 @@ export function evaluateCondition(
                 state
             );
 
+        case 'dayOfWeekIs':
+            return (
+                calendarDate(state.currentTime.day, registry?.calendar).weekday
+                    ?.id === condition.weekday
+            );
+
+        case 'seasonIs':
+            return (
+                calendarDate(state.currentTime.day, registry?.calendar).season
+                    ?.id === condition.season
+            );
+
+        case 'dayAtLeast':
+            return state.currentTime.day >= condition.day;
+
         case 'itemAt':
             return evaluateItemAt(
                 condition.itemId,
@@ -149,9 +202,21 @@ export function evaluateCondition(
             return evaluateRoll(
                 condition.min,
                 condition.max,
-                condition.threshold
+                condition.threshold,
+                state
+            );
+
+        case 'anyOf':
+            return condition.conditions.some((part) =>
+                evaluateCondition(part, state, registry)
             );
 
+        case 'allOf':
+            return evaluateConditions(condition.conditions, state, registry);
+
+        case 'not':
+            return !evaluateCondition(condition.condition, state, registry);
+
         default:
             return condition satisfies never;
     }
@@ -200,12 +265,17 @@ function evaluateNotFlag(flag: string, state: GameState): boolean {
 }
 
 /**
- * Check if an item is in the player's inventory.
+ * Check if an item is in the player's inventory, at least `count` of it.
  *
  * Example: hasItem rusty_key
+ * Example: hasItem potion 2
  */
-function evaluateHasItem(itemId: string, state: GameState): boolean {
-    return state.inventory.includes(itemId);
+function evaluateHasItem(
+    itemId: string,
+    count: number | undefined,
+    state: GameState
+): boolean {
+    return itemCount(state, itemId) >= (count ?? 1);
 }
 
 /**
@@ -216,10 +286,13 @@ function evaluateHasItem(itemId: string, state: GameState): boolean {
  */
 function evaluateVariableEquals(
     variable: string,
-    value: number | string,
+    value: number | string | ValueExpression,
     state: GameState
 ): boolean {
-    return state.variables[variable] === value;
+    const expected = isValueExpression(value)
+        ? evaluateExpression(value, state).value
+        : value;
+    return state.variables[variable] === expected;
 }
 
 /**
@@ -230,11 +303,10 @@ function evaluateVariableEquals(
  */
 function evaluateVariableGreaterThan(
     variable: string,
-    value: number,
+    value: number | ValueExpression,
     state: GameState
 ): boolean {
-    const variableValue = state.variables[variable];
-    return typeof variableValue === 'number' && variableValue > value;
+    return evaluateVariableCompare(variable, '>', value, state);
 }
 
 /**
@@ -245,11 +317,46 @@ function evaluateVariableGreaterThan(
  */
 function evaluateVariableLessThan(
     variable: string,
-    value: number,
+    value: number | ValueExpression,
+    state: GameState
+): boolean {
+    return evaluateVariableCompare(variable, '<', value, state);
+}
+
+/**
+ * Compare a numeric variable with a number or expression.
+ * Returns false if the variable doesn't exist or is not a number. Dice in
+ * the expression read ahead without advancing the generator, like roll.
+ *
+ * Example: variable gold >= {price} * 2
+ */
+function evaluateVariableCompare(
+    variable: string,
+    operator: ComparisonOperator,
+    value: number | ValueExpression,
     state: GameState
 ): boolean {
     const variableValue = state.variables[variable];
-    return typeof variableValue === 'number' && variableValue < value;
+    if (typeof variableValue !== 'number') {
+        return false;
+    }
+    const expected = evaluateExpression(value, state).value;
+    switch (operator) {
+        case '==':
+            return variableValue === expected;
+        case '!=':
+            return variableValue !== expected;
+        case '<':
+            return variableValue < expected;
+        case '<=':
+            return variableValue <= expected;
+        case '>':
+            return variableValue > expected;
+        case '>=':
+            return variableValue >= expected;
+        default:
+            return operator satisfies never;
+    }
 }
 
 /**
@@ -261,6 +368,13 @@ function evaluateAtLocation(locationId: string, state: GameState): boolean {
     return state.currentLocation === locationId;
 }
 
+/**
+ * How many times the player has arrived at a location.
+ */
+function visitsTo(locationId: string, state: GameState): number {
+    return state.locationVisits?.[locationId] ?? 0;
+}
+
 /**
  * Check if a quest is at a specific stage.
  * Returns false if the quest hasn't been started.
@@ -340,6 +454,36 @@ function evaluateRelationshipBelow(
     return characterState !== undefined && characterState.relationship < value;
 }
 
+/**
+ * Check if reputation with a faction is above a value (exclusive).
+ * Returns false if the faction has no reputation in the state.
+ *
+ * Example: reputationAbove city_guard 5
+ */
+function evaluateReputationAbove(
+    factionId: string,
+    value: number,
+    state: GameState
+): boolean {
+    const reputation = state.factionReputation?.[factionId];
+    return reputation !== undefined && reputation > value;
+}
+
+/**
+ * Check if reputation with a faction is below a value (exclusive).
+ * Returns false if the faction has no reputation in the state.
+ *
+ * Example: reputationBelow city_guard 0
+ */
+function evaluateReputationBelow(
+    factionId: string,
+    value: number,
+    state: GameState
+): boolean {
+    const reputation = state.factionReputation?.[factionId];
+    return reputation !== undefined && reputation < value;
+}
+
 /**
  * Check if current time is within a range (24-hour format).
  * Handles ranges that wrap around midnight.
@@ -356,15 +500,30 @@ function evaluateTimeIs(
     endHour: number,
     state: GameState
 ): boolean {
-    const currentHour = state.currentTime.hour;
+    return isHourInRange(state.currentTime.hour, startHour, endHour);
+}
 
+/**
+ * Check if an hour falls in a range, the way timeIs reads it: the start is
+ * inclusive, the end exclusive, and a range whose end comes before its start
+ * wraps past midnight. Equal start and end cover the whole day.
+ *
+ * @param hour - Hour to check (0-23)
+ * @param startHour - Start hour (0-23, inclusive)
+ * @param endHour - End hour (0-23, exclusive)
+ */
+export function isHourInRange(
+    hour: number,
+    startHour: number,
+    endHour: number
+): boolean {
     // Handle normal range (e.g., 9 to 17)
     if (startHour < endHour) {
-        return currentHour >= startHour && currentHour < endHour;
+        return hour >= startHour && hour < endHour;
     }
 
     // Handle wrap-around range (e.g., 20 to 6)
-    return currentHour >= startHour || currentHour < endHour;
+    return hour >= startHour || hour < endHour;
 }
 
 /**
@@ -385,11 +544,23 @@ function evaluateItemAt(
  * Roll a random integer between min and max (inclusive) and check against threshold.
  * Returns true if the roll result is >= threshold.
  *
+ * The roll reads the next value from state.randomState without advancing it,
+ * so evaluating the same condition against the same state always agrees. The
+ * engine advances the generator once it has acted on the result.
+ *
  * Example: roll 1 20 15
  */
-function evaluateRoll(min: number, max: number, threshold: number): boolean {
-    const result = Math.floor(Math.random() * (max - min + 1)) + min;
-    return result >= threshold;
+function evaluateRoll(
+    min: number,
+    max: number,
+    threshold: number,
+    state: GameState
+): boolean {
+    return peekRoll(min, max, state) >= threshold;
+}
+
+function peekRoll(min: number, max: number, state: GameState): number {
+    return rollInteger(state.randomState ?? 0, min, max).value;
 }
 
 /**
@@ -403,7 +574,7 @@ function evaluateRoll(min: number, max: number, threshold: number): boolean {
  *
  * @param condition - The condition to describe
  * @param state - Current game state
- * @param registry - Required when describing questStatus
+ * @param registry - Required when describing questStatus, dayOfWeekIs, and seasonIs
  * @returns A record of the state values relevant to this condition
  */
 export function describeConditionValues(
@@ -417,16 +588,29 @@ export function describeConditionValues(
             return { flag: state.flags[condition.flag] ?? false };
 
         case 'hasItem':
-            return { inInventory: state.inventory.includes(condition.itemId) };
+            return condition.count === undefined
+                ? { inInventory: state.inventory.includes(condition.itemId) }
+                : { count: itemCount(state, condition.itemId) };
 
         case 'variableEquals':
         case 'variableGreaterThan':
         case 'variableLessThan':
-            return { variable: state.variables[condition.variable] };
+        case 'variable':
+            // An expression's computed value is part of the explanation.
+            return isValueExpression(condition.value)
+                ? {
+                      variable: state.variables[condition.variable],
+                      value: evaluateExpression(condition.value, state).value,
+                  }
+                : { variable: state.variables[condition.variable] };
 
         case 'atLocation':
             return { currentLocation: state.currentLocation };
 
+        case 'visitedLocation':
+        case 'visitCount':
+            return { visits: visitsTo(condition.locationId, state) };
+
         case 'questAtStage':
             return { questStage: state.questProgress[condition.questId] };
 
@@ -473,18 +657,140 @@ export function describeConditionValues(
                     state.characterState[condition.characterId]?.relationship,
             };
 
+        case 'reputationAbove':
+        case 'reputationBelow':
+            return {
+                reputation: state.factionReputation?.[condition.factionId],
+            };
+
         case 'timeIs':
             return { hour: state.currentTime.hour };
 
+        case 'dayOfWeekIs':
+            return {
+                weekday: calendarDate(state.currentTime.day, registry?.calendar)
+                    .weekday?.id,
+            };
+
+        case 'seasonIs':
+            return {
+                season: calendarDate(state.currentTime.day, registry?.calendar)
+                    .season?.id,
+            };
+
+        case 'dayAtLeast':
+            return { day: state.currentTime.day };
+
         case 'itemAt':
             return { itemLocation: state.itemLocations[condition.itemId] };
 
         case 'roll':
-            // A roll reads no state; its result is random each evaluation.
-            return {};
+            return { roll: peekRoll(condition.min, condition.max, state) };
+
+        case 'anyOf':
+        case 'allOf':
+            return {
+                results: condition.conditions.map((part) =>
+                    evaluateCondition(part, state, registry)
+                ),
+            };
+
+        case 'not':
+            // The inverted condition's own values explain why it passed.
+            return describeConditionValues(
+                condition.condition,
+                state,
+                registry
+            );
 
         default: {
             return condition satisfies never;
         }
     }
 }
+
+/**
+ * Find the parts of a condition that made it fail, for debug tracing.
+ *
+ * A plain condition that fails reports itself. Inside a group, allOf reports
+ * the first part that failed, anyOf reports every part (all of them failed),
+ * and not reports itself with the values of the condition it inverts.
+ * Groups nest, so the result lists the innermost parts that decided it.
+ *
+ * @param condition - The condition to explain
+ * @param state - Current game state
+ * @param registry - Required when a part checks questStatus or the calendar
+ * @returns The failing parts, or an empty list if the condition passes
+ */
+export function explainConditionFailure(
+    condition: Condition,
+    state: GameState,
+    registry?: ContentRegistry
+): FailedCondition[] {
+    if (evaluateCondition(condition, state, registry)) {
+        return [];
+    }
+
+    switch (condition.type) {
+        case 'anyOf':
+            return condition.conditions.flatMap((part) =>
+                explainConditionFailure(part, state, registry)
+            );
+
+        case 'allOf': {
+            const failed = condition.conditions.find(
+                (part) => !evaluateCondition(part, state, registry)
+            );
+            return failed
+                ? explainConditionFailure(failed, state, registry)
+                : [];
+        }
+
+        default:
+            return [
+                {
+                    condition,
+                    resolvedValues: describeConditionValues(
+                        condition,
+                        state,
+                        registry
+                    ),
+                },
+            ];
+    }
+}
+
+/**
+ * Flatten a condition to the plain conditions inside it. A plain condition
+ * returns itself; anyOf, allOf, and not return every condition they contain,
+ * at any depth. Tools use this to find the flags, items, and other names a
+ * condition checks.
+ */
+export function leafConditions(condition: Condition): Condition[] {
+    switch (condition.type) {
+        case 'anyOf':
+        case 'allOf':
+            return condition.conditions.flatMap(leafConditions);
+        case 'not':
+            return leafConditions(condition.condition);
+        default:
+            return [condition];
+    }
+}
+
+/**
+ * True when a condition rolls, directly, inside a group, or through dice in
+ * a compared expression.
+ */
+export function conditionUsesRoll(condition: Condition): boolean {
+    return leafConditions(condition).some(
+        (leaf) =>
+            leaf.type === 'roll' ||
+            ((leaf.type === 'variableEquals' ||
+                leaf.type === 'variableGreaterThan' ||
+                leaf.type === 'variableLessThan' ||
+                leaf.type === 'variable') &&
+                isValueExpression(leaf.value) &&
+                expressionReferences(leaf.value).dice)
+    );
+}
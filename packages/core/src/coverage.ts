@@ -0,0 +1,342 @@
+/**
+ * Story coverage: which nodes, choices, IF branches and interludes a playtest
+ * actually reached.
+ *
+ * A CoverageCollector is a TraceSink. Attach it to an engine (alongside any
+ * other sink) and it counts what the trace reports. Coverage from separate
+ * sessions merges by adding the counts, so a coverage file can grow across
+ * every playtest and playthrough run, and summarizeCoverage compares it with
+ * the content to show what was never visited.
+ */
+
+import type { ContentRegistry } from './types/registry';
+import type {
+    TraceSink,
+    NodeEnterEvent,
+    ConditionEvent,
+    TransitionEvent,
+    InterludeEvent,
+} from './types/trace';
+
+/** Coverage file format version written by this engine. */
+export const COVERAGE_VERSION = 1;
+
+/**
+ * Visit counts for one dialogue. Choices and branches are keyed by node ID,
+ * then by choice ID or IF branch index.
+ */
+export interface DialogueCoverage {
+    nodes: Record<string, number>;
+    choices: Record<string, Record<string, number>>;
+    branches: Record<string, Record<string, number>>;
+}
+
+/**
+ * Visit counts for a whole story, merged across sessions.
+ */
+export interface StoryCoverage {
+    version: number;
+    /** How many sessions were merged into these counts */
+    sessions: number;
+    dialogues: Record<string, DialogueCoverage>;
+    /** Times each interlude was shown */
+    interludes: Record<string, number>;
+}
+
+/** How many of something were visited, out of how many exist. */
+export interface CoverageCount {
+    visited: number;
+    total: number;
+}
+
+/**
+ * Coverage of one dialogue, compared with its content.
+ */
+export interface DialogueCoverageSummary {
+    dialogueId: string;
+    nodes: CoverageCount;
+    choices: CoverageCount;
+    branches: CoverageCount;
+    /** Node IDs no session entered, in dialogue order */
+    unvisitedNodes: string[];
+}
+
+/**
+ * Coverage of a whole story, compared with its content.
+ */
+export interface CoverageSummary {
+    sessions: number;
+    /** One entry per dialogue in the registry, sorted by ID */
+    dialogues: DialogueCoverageSummary[];
+    interludes: CoverageCount;
+    /** Interlude IDs no session showed, sorted */
+    unvisitedInterludes: string[];
+}
+
+/**
+ * Coverage with nothing visited.
+ *
+ * @returns An empty coverage record for no sessions
+ */
+export function emptyCoverage(): StoryCoverage {
+    return {
+        version: COVERAGE_VERSION,
+        sessions: 0,
+        dialogues: {},
+        interludes: {},
+    };
+}
+
+/**
+ * Trace sink that counts the nodes entered, choices picked, IF branches
+ * taken and interludes shown.
+ *
+ * A branch is counted when its condition passes, against the node entered
+ * last: that is the node whose IF blocks the engine is routing from.
+ */
+export class CoverageCollector implements TraceSink {
+    private data: StoryCoverage = { ...emptyCoverage(), sessions: 1 };
+    private current: { dialogueId: string; nodeId: string } | null = null;
+
+    onNodeEnter(event: NodeEnterEvent): void {
+        this.current = { dialogueId: event.dialogueId, nodeId: event.nodeId };
+        const nodes = this.dialogue(event.dialogueId).nodes;
+        nodes[event.nodeId] = (nodes[event.nodeId] ?? 0) + 1;
+    }
+
+    onCondition(event: ConditionEvent): void {
+        if (event.context.type !== 'branch' || !event.result || !this.current) {
+            return;
+        }
+        const { dialogueId, nodeId } = this.current;
+        count(
+            this.dialogue(dialogueId).branches,
+            nodeId,
+            String(event.context.branchIndex)
+        );
+    }
+
+    onTransition(event: TransitionEvent): void {
+        if (event.choiceId) {
+            count(
+                this.dialogue(event.dialogueId).choices,
+                event.fromNode,
+                event.choiceId
+            );
+        }
+    }
+
+    onInterlude(event: InterludeEvent): void {
+        const { interludes } = this.data;
+        interludes[event.interludeId] =
+            (interludes[event.interludeId] ?? 0) + 1;
+    }
+
+    /**
+     * The coverage recorded so far, as one session.
+     *
+     * @returns A copy of the counts
+     */
+    coverage(): StoryCoverage {
+        return structuredClone(this.data);
+    }
+
+    /** Forget everything recorded and start a new session. */
+    reset(): void {
+        this.data = { ...emptyCoverage(), sessions: 1 };
+        this.current = null;
+    }
+
+    private dialogue(dialogueId: string): DialogueCoverage {
+        return dialogueEntry(this.data, dialogueId);
+    }
+}
+
+function dialogueEntry(
+    coverage: StoryCoverage,
+    dialogueId: string
+): DialogueCoverage {
+    if (!coverage.dialogues[dialogueId]) {
+        coverage.dialogues[dialogueId] = {
+            nodes: {},
+            choices: {},
+            branches: {},
+        };
+    }
+    return coverage.dialogues[dialogueId];
+}
+
+function nodeEntry(
+    table: Record<string, Record<string, number>>,
+    nodeId: string
+): Record<string, number> {
+    if (!table[nodeId]) {
+        table[nodeId] = {};
+    }
+    return table[nodeId];
+}
+
+function count(
+    table: Record<string, Record<string, number>>,
+    nodeId: string,
+    key: string
+): void {
+    const entry = nodeEntry(table, nodeId);
+    entry[key] = (entry[key] ?? 0) + 1;
+}
+
+function addCounts(
+    into: Record<string, number>,
+    from: Record<string, number>
+): void {
+    for (const [key, value] of Object.entries(from)) {
+        into[key] = (into[key] ?? 0) + value;
+    }
+}
+
+/**
+ * Merge two coverage records by adding their counts.
+ *
+ * @param a - Coverage so far
+ * @param b - Coverage to add
+ * @returns New coverage holding both; neither input is changed
+ */
+export function mergeCoverage(
+    a: StoryCoverage,
+    b: StoryCoverage
+): StoryCoverage {
+    const merged = structuredClone(a);
+    merged.version = COVERAGE_VERSION;
+    merged.sessions += b.sessions;
+    addCounts(merged.interludes, b.interludes);
+    for (const [dialogueId, from] of Object.entries(b.dialogues)) {
+        const into = dialogueEntry(merged, dialogueId);
+        addCounts(into.nodes, from.nodes);
+        for (const table of ['choices', 'branches'] as const) {
+            for (const [nodeId, counts] of Object.entries(from[table])) {
+                addCounts(nodeEntry(into[table], nodeId), counts);
+            }
+        }
+    }
+    return merged;
+}
+
+/**
+ * Read a coverage file.
+ *
+ * @param text - The file's JSON
+ * @returns The coverage it holds
+ * @throws Error when the text is not coverage JSON
+ */
+export function parseCoverage(text: string): StoryCoverage {
+    let value: unknown;
+    try {
+        value = JSON.parse(text);
+    } catch {
+        throw new Error('Coverage file is not valid JSON');
+    }
+    const data = value as Partial<StoryCoverage> | null;
+    if (
+        !data ||
+        typeof data !== 'object' ||
+        typeof data.version !== 'number' ||
+        typeof data.dialogues !== 'object' ||
+        data.dialogues === null
+    ) {
+        throw new Error('Coverage file does not hold story coverage');
+    }
+    if (data.version > COVERAGE_VERSION) {
+        throw new Error(
+            `Coverage file version ${data.version} is newer than this engine reads (${COVERAGE_VERSION})`
+        );
+    }
+    const coverage = emptyCoverage();
+    coverage.sessions = typeof data.sessions === 'number' ? data.sessions : 0;
+    coverage.interludes = { ...(data.interludes ?? {}) };
+    for (const [dialogueId, dialogue] of Object.entries(data.dialogues)) {
+        coverage.dialogues[dialogueId] = {
+            nodes: { ...(dialogue?.nodes ?? {}) },
+            choices: { ...(dialogue?.choices ?? {}) },
+            branches: { ...(dialogue?.branches ?? {}) },
+        };
+    }
+    return coverage;
+}
+
+/**
+ * Compare coverage with the content it was recorded against.
+ *
+ * Counts only what still exists: visits to nodes, choices or interludes that
+ * have since been removed or renamed are ignored.
+ *
+ * @param coverage - Merged coverage
+ * @param registry - Current content
+ * @returns Per-dialogue and interlude totals, with what was never visited
+ */
+export function summarizeCoverage(
+    coverage: StoryCoverage,
+    registry: ContentRegistry
+): CoverageSummary {
+    const dialogues = Object.values(registry.dialogues)
+        .sort((a, b) => a.id.localeCompare(b.id))
+        .map((dialogue): DialogueCoverageSummary => {
+            const data = coverage.dialogues[dialogue.id];
+            const summary: DialogueCoverageSummary = {
+                dialogueId: dialogue.id,
+                nodes: { visited: 0, total: 0 },
+                choices: { visited: 0, total: 0 },
+                branches: { visited: 0, total: 0 },
+                unvisitedNodes: [],
+            };
+            for (const node of dialogue.nodes) {
+                summary.nodes.total++;
+                if (data?.nodes[node.id]) {
+                    summary.nodes.visited++;
+                } else {
+                    summary.unvisitedNodes.push(node.id);
+                }
+                for (const choice of node.choices) {
+                    summary.choices.total++;
+                    if (data?.choices[node.id]?.[choice.id]) {
+                        summary.choices.visited++;
+                    }
+                }
+                const branches = node.conditionalBranches ?? [];
+                for (let i = 0; i < branches.length; i++) {
+                    summary.branches.total++;
+                    if (data?.branches[node.id]?.[String(i)]) {
+                        summary.branches.visited++;
+                    }
+                }
+            }
+            return summary;
+        });
+
+    const interludeIds = Object.keys(registry.interludes).sort();
+    const unvisitedInterludes = interludeIds.filter(
+        (id) => !coverage.interludes[id]
+    );
+
+    return {
+        sessions: coverage.sessions,
+        dialogues,
+        interludes: {
+            visited: interludeIds.length - unvisitedInterludes.length,
+            total: interludeIds.length,
+        },
+        unvisitedInterludes,
+    };
+}
+
+/**
+ * A coverage count as a whole-number percentage. Nothing to visit counts as
+ * fully covered.
+ *
+ * @param count - Visited and total
+ * @returns 0 to 100
+ */
+export function coveragePercent(count: CoverageCount): number {
+    return count.total === 0
+        ? 100
+        : Math.floor((count.visited / count.total) * 100);
+}
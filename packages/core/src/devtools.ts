@@ -7,6 +7,7 @@
  */
 
 import type { Engine } from './engine';
+import type { MissingLocaleKey } from './localization';
 import type { ContentRegistry } from './types/registry';
 import type { GameState } from './types/state';
 
@@ -36,6 +37,9 @@ export interface DevTools {
     inspect: () => void;
     inspectState: () => GameState;
     inspectRegistry: () => ContentRegistry;
+
+    // Localization
+    missingKeys: () => MissingLocaleKey[];
 }
 
 declare global {
@@ -67,6 +71,22 @@ declare global {
  * enableDevTools(engine, () => render(engine.getSnapshot()))
  */
 export function enableDevTools(engine: Engine, onUpdate: () => void) {
+    engine.setPseudoLocaleEnabled(true);
+
+    // Every @key shown without a translation, in the order they were found
+    const missingKeys: MissingLocaleKey[] = [];
+    engine.setMissingKeyHandler((missing) => {
+        missingKeys.push(missing);
+        const place = missing.dialogueId
+            ? ` in ${missing.dialogueId}:${missing.nodeId}`
+            : '';
+        console.warn(
+            `🐾 Missing localization key: @${missing.key} (${missing.locale})${place}`
+        );
+    });
+    // Check what is on screen now, not only what comes next
+    engine.getSnapshot();
+
     window.doodle = {
         // Flag manipulation
         setFlag(flag: string) {
@@ -197,6 +217,17 @@ export function enableDevTools(engine: Engine, onUpdate: () => void) {
             console.log('🐾 CONTENT REGISTRY:', registry);
             return registry;
         },
+
+        // Localization
+        missingKeys() {
+            console.log(
+                missingKeys.length === 0
+                    ? '🐾 No missing localization keys so far'
+                    : `🐾 MISSING LOCALIZATION KEYS (${missingKeys.length}):`
+            );
+            if (missingKeys.length > 0) console.table(missingKeys);
+            return [...missingKeys];
+        },
     };
 
     console.log(
@@ -12,13 +12,22 @@
  */
 
 import type { Effect } from '../types/effects';
+import type { VariableDeclaration } from '../types/entities';
 import type { GameState } from '../types/state';
+import type { ValueExpression } from '../types/expressions';
+import { rollInteger } from '../random';
+import { evaluateExpression, isValueExpression } from '../expressions';
+import { itemCount } from '../inventory';
+import { clampVariable } from '../variables';
+import { addHours } from '../calendar';
 
 /**
  * Apply a single effect to the game state.
  *
  * @param effect - The effect to apply
  * @param state - Current game state
+ * @param declarations - Declared variables from content/variables.yaml; a
+ * number variable the effect writes is clamped to its declared min and max
  * @returns New game state with the effect applied
  *
  * @example
@@ -27,7 +36,11 @@ import type { GameState } from '../types/state';
  * const newState = applyEffect(effect, state)
  * ```
  */
-export function applyEffect(effect: Effect, state: GameState): GameState {
+export function applyEffect(
+    effect: Effect,
+    state: GameState,
+    declarations?: Record<string, VariableDeclaration>
+): GameState {
     switch (effect.type) {
         case 'setFlag':
             return applySetFlag(effect.flag, state);
@@ -36,16 +49,24 @@ export function applyEffect(effect: Effect, state: GameState): GameState {
             return applyClearFlag(effect.flag, state);
 
         case 'setVariable':
-            return applySetVariable(effect.variable, effect.value, state);
+            return clampWritten(
+                effect.variable,
+                applySetVariable(effect.variable, effect.value, state),
+                declarations
+            );
 
         case 'addVariable':
-            return applyAddVariable(effect.variable, effect.value, state);
+            return clampWritten(
+                effect.variable,
+                applyAddVariable(effect.variable, effect.value, state),
+                declarations
+            );
 
         case 'addItem':
-            return applyAddItem(effect.itemId, state);
+            return applyAddItem(effect.itemId, effect.count, state);
 
         case 'removeItem':
-            return applyRemoveItem(effect.itemId, state);
+            return applyRemoveItem(effect.itemId, effect.count, state);
 
         case 'moveItem':
             return applyMoveItem(effect.itemId, effect.locationId, state);
@@ -68,6 +89,9 @@ export function applyEffect(effect: Effect, state: GameState): GameState {
         case 'startDialogue':
             return applyStartDialogue(effect.dialogueId, state);
 
+        case 'startShop':
+            return applyStartShop(effect.characterId, state);
+
         case 'endDialogue':
             return applyEndDialogue(state);
 
@@ -78,6 +102,9 @@ export function applyEffect(effect: Effect, state: GameState): GameState {
                 state
             );
 
+        case 'clearCharacterLocation':
+            return applyClearCharacterLocation(effect.characterId, state);
+
         case 'addToParty':
             return applyAddToParty(effect.characterId, state);
 
@@ -98,6 +125,12 @@ export function applyEffect(effect: Effect, state: GameState): GameState {
                 state
             );
 
+        case 'setReputation':
+            return applySetReputation(effect.factionId, effect.value, state);
+
+        case 'addReputation':
+            return applyAddReputation(effect.factionId, effect.value, state);
+
         case 'setCharacterStat':
             return applySetCharacterStat(
                 effect.characterId,
@@ -133,7 +166,11 @@ export function applyEffect(effect: Effect, state: GameState): GameState {
             return applyShowInterlude(effect.interludeId, state);
 
         case 'roll':
-            return applyRoll(effect.variable, effect.min, effect.max, state);
+            return clampWritten(
+                effect.variable,
+                applyRoll(effect.variable, effect.min, effect.max, state),
+                declarations
+            );
 
         default:
             return effect satisfies never;
@@ -147,15 +184,38 @@ export function applyEffect(effect: Effect, state: GameState): GameState {
  *
  * @param effects - Array of effects to apply
  * @param state - Current game state
+ * @param declarations - Declared variables from content/variables.yaml, for clamping
  * @returns New game state with all effects applied
  */
-export function applyEffects(effects: Effect[], state: GameState): GameState {
+export function applyEffects(
+    effects: Effect[],
+    state: GameState,
+    declarations?: Record<string, VariableDeclaration>
+): GameState {
     return effects.reduce(
-        (currentState, effect) => applyEffect(effect, currentState),
+        (currentState, effect) =>
+            applyEffect(effect, currentState, declarations),
         state
     );
 }
 
+/**
+ * Move a variable an effect just wrote back inside its declared range.
+ */
+function clampWritten(
+    variable: string,
+    state: GameState,
+    declarations: Record<string, VariableDeclaration> | undefined
+): GameState {
+    const value = state.variables[variable];
+    const clamped = clampVariable(value, declarations?.[variable]);
+    if (clamped === value) return state;
+    return {
+        ...state,
+        variables: { ...state.variables, [variable]: clamped },
+    };
+}
+
 // =============================================================================
 // Individual Effect Processors
 // =============================================================================
@@ -191,15 +251,28 @@ function applyClearFlag(flag: string, state: GameState): GameState {
 }
 
 /**
- * Set a variable to a specific value.
+ * Set a variable to a specific value, or to an expression computed now.
+ * Dice in the expression advance state.randomState.
  *
  * Example: SET variable gold 100
+ * Example: SET variable price {basePrice} * 2 - {discount}
  */
 function applySetVariable(
     variable: string,
-    value: number | string,
+    value: number | string | ValueExpression,
     state: GameState
 ): GameState {
+    if (isValueExpression(value)) {
+        const result = evaluateExpression(value, state);
+        return {
+            ...state,
+            variables: {
+                ...state.variables,
+                [variable]: result.value,
+            },
+            randomState: result.randomState,
+        };
+    }
     return {
         ...state,
         variables: {
@@ -213,19 +286,25 @@ function applySetVariable(
  * Add to (or subtract from) a numeric variable.
  * If the variable doesn't exist, initializes it to the value.
  * If the variable contains text, replaces it with the supplied number.
+ * An expression amount is computed first, against the state before the add.
  *
  * Example: ADD variable gold -50
+ * Example: ADD variable gold 2d6 + stat(player, luck)
  */
 function applyAddVariable(
     variable: string,
-    value: number,
+    value: number | ValueExpression,
     state: GameState
 ): GameState {
     const currentValue = state.variables[variable];
+    const expression = isValueExpression(value)
+        ? evaluateExpression(value, state)
+        : null;
+    const amount = expression ? expression.value : (value as number);
 
     // ADD always produces a number: it adds to numbers and replaces other values.
     const newValue =
-        typeof currentValue === 'number' ? currentValue + value : value;
+        typeof currentValue === 'number' ? currentValue + amount : amount;
 
     return {
         ...state,
@@ -233,28 +312,41 @@ function applyAddVariable(
             ...state.variables,
             [variable]: newValue,
         },
+        ...(expression ? { randomState: expression.randomState } : {}),
     };
 }
 
 /**
  * Add an item to the player's inventory.
  * Also updates itemLocations to track the item is in inventory.
+ * With a count, the count is added to what the player already carries.
  *
  * Example: ADD item rusty_key
+ * Example: ADD item potion 3
  */
-function applyAddItem(itemId: string, state: GameState): GameState {
-    // Don't add if already in inventory
-    if (state.inventory.includes(itemId)) {
+function applyAddItem(
+    itemId: string,
+    count: number | undefined,
+    state: GameState
+): GameState {
+    const held = itemCount(state, itemId);
+
+    // Without a count, don't add if already in inventory
+    if (held > 0 && count === undefined) {
         return state;
     }
 
     return {
         ...state,
-        inventory: [...state.inventory, itemId],
+        inventory: held > 0 ? state.inventory : [...state.inventory, itemId],
         itemLocations: {
             ...state.itemLocations,
             [itemId]: 'inventory',
         },
+        itemCounts: {
+            ...state.itemCounts,
+            [itemId]: held + (count ?? 1),
+        },
     };
 }
 
@@ -263,21 +355,41 @@ function applyAddItem(itemId: string, state: GameState): GameState {
  * longer has a location, so hasItem and itemAt both answer no for it.
  * Use moveItem to put an item somewhere instead of removing it.
  *
+ * With a count, only that many are taken from the player's stack, and the
+ * item is removed once none are left.
+ *
  * Example: REMOVE item rusty_key
+ * Example: REMOVE item potion 1
  */
-function applyRemoveItem(itemId: string, state: GameState): GameState {
+function applyRemoveItem(
+    itemId: string,
+    count: number | undefined,
+    state: GameState
+): GameState {
+    const held = itemCount(state, itemId);
+    if (count !== undefined && held > count) {
+        return {
+            ...state,
+            itemCounts: { ...state.itemCounts, [itemId]: held - count },
+        };
+    }
+    if (count !== undefined && held === 0) {
+        return state;
+    }
+
     const itemLocations = { ...state.itemLocations };
     delete itemLocations[itemId];
     return {
         ...state,
         inventory: state.inventory.filter((id) => id !== itemId),
         itemLocations,
+        itemCounts: withoutCount(state.itemCounts, itemId),
     };
 }
 
 /**
  * Move an item to a specific location.
- * Removes it from inventory if it was there.
+ * Removes it from inventory if it was there, along with the whole stack.
  *
  * Example: MOVE item rusty_key cellar
  */
@@ -293,9 +405,23 @@ function applyMoveItem(
             ...state.itemLocations,
             [itemId]: locationId,
         },
+        itemCounts: withoutCount(state.itemCounts, itemId),
     };
 }
 
+/** The item counts with one item's entry dropped. */
+function withoutCount(
+    itemCounts: GameState['itemCounts'],
+    itemId: string
+): GameState['itemCounts'] {
+    if (!itemCounts || !(itemId in itemCounts)) {
+        return itemCounts;
+    }
+    const remaining = { ...itemCounts };
+    delete remaining[itemId];
+    return remaining;
+}
+
 /**
  * Change the player's current location.
  * Note: This does NOT advance time or check for triggered dialogues.
@@ -323,21 +449,15 @@ function applyGoToLocation(locationId: string, state: GameState): GameState {
 
 /**
  * Advance the game clock by a number of hours.
- * Handles day rollover when hours exceed 24.
+ * Handles day rollover when hours exceed 24, and fractions of an hour
+ * as minutes.
  *
  * Example: ADVANCE time 2
  */
 function applyAdvanceTime(hours: number, state: GameState): GameState {
-    const newHour = state.currentTime.hour + hours;
-    const daysToAdd = Math.floor(newHour / 24);
-    const finalHour = newHour % 24;
-
     return {
         ...state,
-        currentTime: {
-            day: state.currentTime.day + daysToAdd,
-            hour: finalHour,
-        },
+        currentTime: addHours(state.currentTime, hours),
     };
 }
 
@@ -395,6 +515,19 @@ function applyStartDialogue(dialogueId: string, state: GameState): GameState {
     };
 }
 
+/**
+ * Open a merchant's shop.
+ * The engine ignores a character without a shop block.
+ *
+ * Example: START shop merchant
+ */
+function applyStartShop(characterId: string, state: GameState): GameState {
+    return {
+        ...state,
+        activeShop: characterId,
+    };
+}
+
 /**
  * End the current dialogue.
  *
@@ -429,11 +562,39 @@ function applySetCharacterLocation(
             [characterId]: {
                 ...characterState,
                 location: locationId,
+                // An explicit move wins over the character's schedule.
+                scheduleOverridden: true,
             },
         },
     };
 }
 
+/**
+ * Put a character back on its schedule. The character moves to its scheduled
+ * location when schedules next apply, at the end of the action.
+ *
+ * Example: CLEAR characterLocation merchant
+ */
+function applyClearCharacterLocation(
+    characterId: string,
+    state: GameState
+): GameState {
+    const characterState = state.characterState[characterId];
+    if (!characterState?.scheduleOverridden) {
+        return state;
+    }
+
+    const resumed = { ...characterState };
+    delete resumed.scheduleOverridden;
+    return {
+        ...state,
+        characterState: {
+            ...state.characterState,
+            [characterId]: resumed,
+        },
+    };
+}
+
 /**
  * Add a character to the player's party.
  *
@@ -538,6 +699,53 @@ function applyAddRelationship(
     };
 }
 
+/**
+ * Set reputation with a faction.
+ *
+ * Example: SET reputation city_guard 5
+ */
+function applySetReputation(
+    factionId: string,
+    value: number,
+    state: GameState
+): GameState {
+    if (state.factionReputation?.[factionId] === undefined) {
+        return state;
+    }
+
+    return {
+        ...state,
+        factionReputation: {
+            ...state.factionReputation,
+            [factionId]: value,
+        },
+    };
+}
+
+/**
+ * Add to (or subtract from) reputation with a faction.
+ *
+ * Example: ADD reputation city_guard -2
+ */
+function applyAddReputation(
+    factionId: string,
+    value: number,
+    state: GameState
+): GameState {
+    const reputation = state.factionReputation?.[factionId];
+    if (reputation === undefined) {
+        return state;
+    }
+
+    return {
+        ...state,
+        factionReputation: {
+            ...state.factionReputation,
+            [factionId]: reputation + value,
+        },
+    };
+}
+
 /**
  * Set a stat value on a character.
  *
@@ -718,6 +926,8 @@ function applyShowInterlude(interludeId: string, state: GameState): GameState {
 
 /**
  * Roll a random integer between min and max (inclusive) and store in a variable.
+ * Draws from state.randomState and stores the advanced generator state, so
+ * the next roll continues the same seeded sequence.
  *
  * Example: ROLL bluffRoll 1 20
  */
@@ -727,12 +937,13 @@ function applyRoll(
     max: number,
     state: GameState
 ): GameState {
-    const result = Math.floor(Math.random() * (max - min + 1)) + min;
+    const roll = rollInteger(state.randomState ?? 0, min, max);
     return {
         ...state,
         variables: {
             ...state.variables,
-            [variable]: result,
+            [variable]: roll.value,
         },
+        randomState: roll.state,
     };
 }
@@ -16,14 +16,18 @@ import type {
     CharacterState,
     PlayerCharacterState,
     PlayerProfileInput,
+    DialogueFrame,
+    DialogueLogEntry,
 } from '../types/state';
 import type {
     GameConfig,
+    GameEvent,
     DialogueNode,
     Map as GameMap,
+    Shop,
 } from '../types/entities';
 import type { Snapshot } from '../types/snapshot';
-import type { SaveData } from '../types/save';
+import type { SaveData, SaveLoadReport } from '../types/save';
 import type { Effect } from '../types/effects';
 import type { Condition } from '../types/conditions';
 import type {
@@ -31,7 +35,9 @@ import type {
     TraceEvent,
     StateDelta,
     ConditionContext,
+    FailedCondition,
 } from '../types/trace';
+import type { MissingLocaleKey } from '../localization';
 import { buildSnapshot } from '../snapshot';
 import { getQuestStatus } from '../quests';
 import { applyEffects } from '../effects';
@@ -39,8 +45,29 @@ import {
     evaluateConditions,
     evaluateCondition,
     describeConditionValues,
+    explainConditionFailure,
+    conditionUsesRoll,
 } from '../conditions';
 import { initialStatValues } from '../stats';
+import { declaredDefaults } from '../variables';
+import { startingReputation } from '../factions';
+import { addHours } from '../calendar';
+import { createRandomState, nextRandom } from '../random';
+import { CURRENT_SAVE_VERSION, migrateSave, repairGameState } from '../save';
+import { absoluteHour, dueEvents, updateEventTimers } from '../events';
+import { applySchedules } from '../schedules';
+import {
+    buyPrice,
+    sellPrice,
+    shopCurrency,
+    stockCount,
+    withStockCount,
+} from '../shops';
+import { itemCount } from '../inventory';
+import { candidateItemUses } from '../item-uses';
+import { exitHours } from '../exits';
+import { sourceLocaleOf, variablesInText } from '../localization';
+import { PSEUDO_LOCALE } from '../localization/pseudo';
 
 /**
  * How many automatic dialogue steps (silent nodes and START dialogue
@@ -50,6 +77,42 @@ import { initialStatValues } from '../stats';
  */
 const MAX_AUTO_STEPS = 200;
 
+/**
+ * How many times one player action may re-check timed events after event
+ * effects move the clock. The cap stops an event that advances time past
+ * itself (a daily event that waits a day, say) from looping forever.
+ */
+const MAX_EVENT_PASSES = 100;
+
+/**
+ * How deep CALLs may nest. A CALL that never reaches a RETURN leaves its
+ * frame behind, so a dialogue that keeps calling itself would otherwise grow
+ * the call stack (and every save) without limit.
+ */
+const MAX_CALL_DEPTH = 50;
+
+/**
+ * How many player actions rewind() can take back. Older states are dropped,
+ * so a long session does not hold on to every state it passed through.
+ */
+const MAX_REWIND_STEPS = 50;
+
+/**
+ * How many lines and responses the conversation log keeps. Older entries
+ * are dropped, so the log (and every save) stays a bounded size.
+ */
+const MAX_DIALOGUE_LOG = 200;
+
+/**
+ * The node a route leads to: in the current dialogue for a GOTO, or in
+ * another one after a CALL or RETURN.
+ */
+interface NodeTarget {
+    dialogueId: string;
+    nodeId: string;
+    via?: 'call' | 'return';
+}
+
 /**
  * The Doodle Engine.
  *
@@ -74,6 +137,25 @@ export class Engine {
     /** Monotonic sequence counter for trace events; reset with each new sink. */
     private traceSeq = 0;
 
+    /** What the last loadGame() migrated and repaired, or null before one. */
+    private loadReport: SaveLoadReport | null = null;
+
+    /** Whether player actions are kept so rewind() can take them back. */
+    private rewindEnabled = false;
+
+    /** States from before recent player actions, oldest first. */
+    private history: GameState[] = [];
+
+    /** Optional missing-key handler. When null (the default), nothing is checked. */
+    private missingKeyHandler: ((missing: MissingLocaleKey) => void) | null =
+        null;
+
+    /** Missing keys already reported, so each is reported once per place. */
+    private reportedMissingKeys = new Set<string>();
+
+    /** Whether the pseudo-locale can be selected; only dev tools turn it on. */
+    private pseudoLocaleEnabled = false;
+
     /**
      * Create a new engine instance.
      *
@@ -86,7 +168,11 @@ export class Engine {
         state: GameState = createInitialState()
     ) {
         this.registry = registry;
-        this.state = { ...state, trackedQuest: state.trackedQuest ?? null };
+        this.state = {
+            ...state,
+            trackedQuest: state.trackedQuest ?? null,
+            randomState: state.randomState ?? createRandomState(),
+        };
     }
 
     // ===========================================================================
@@ -97,11 +183,18 @@ export class Engine {
      * Start a new game from configuration.
      *
      * Initializes game state from the provided config and builds the initial snapshot.
+     * Rolls are seeded from `seed`, then `config.randomSeed`; with neither,
+     * each new game rolls differently. Rewinding is turned on or off to match
+     * `config.allowRewind`.
      *
      * @param config - Game configuration with starting conditions
+     * @param seed - Optional seed that makes every roll in this game reproducible
      * @returns Initial snapshot
      */
-    newGame(config: GameConfig): Snapshot {
+    newGame(config: GameConfig, seed?: number | string): Snapshot {
+        this.setRewindEnabled(config.allowRewind ?? false);
+        this.history = [];
+
         // Initialize character state from registry
         const characterState: Record<string, CharacterState> = {};
         for (const [id, character] of Object.entries(
@@ -120,10 +213,16 @@ export class Engine {
         for (const [id, item] of Object.entries(this.registry.items)) {
             itemLocations[id] = item.location;
         }
+        // An item listed more than once starts as a stack of that many
+        const itemCounts: Record<string, number> = {};
         for (const itemId of config.startInventory) {
             itemLocations[itemId] = 'inventory';
+            itemCounts[itemId] = (itemCounts[itemId] ?? 0) + 1;
         }
 
+        // Declared defaults first; game.yaml's start values take precedence
+        const defaults = declaredDefaults(this.registry.variableSchema);
+
         // Create initial game state
         this.state = {
             player: createPlayerState(
@@ -132,27 +231,43 @@ export class Engine {
             ),
             currentLocation: config.startLocation,
             currentTime: { ...config.startTime },
-            flags: { ...config.startFlags },
-            variables: { ...config.startVariables },
-            inventory: [...config.startInventory],
+            flags: { ...defaults.flags, ...config.startFlags },
+            variables: { ...defaults.variables, ...config.startVariables },
+            inventory: [...new Set(config.startInventory)],
             questProgress: {},
             trackedQuest: null,
             unlockedJournalEntries: [],
             playerNotes: [],
             dialogueState: null,
+            dialogueLog: [],
             characterState,
             itemLocations,
+            itemCounts,
             mapEnabled: true,
             notifications: [],
             pendingSounds: [],
             musicOverride: null,
             pendingVideo: null,
             pendingInterlude: null,
-            currentLocale: this.state.currentLocale ?? 'en',
+            currentLocale: this.usableLocale(this.state.currentLocale ?? 'en'),
+            randomState: createRandomState(seed ?? config.randomSeed),
+            // One hour back, so events due at the start time fire.
+            eventClock: absoluteHour(config.startTime) - 1,
+            eventTimers: {},
+            queuedEvents: [],
+            activeShop: null,
+            factionReputation: startingReputation(this.registry),
+            locationVisits: {},
         };
 
-        // Check for triggered dialogues and interludes at starting location
-        this.checkTriggeredDialogues();
+        this.enterLocation();
+        this.state = applySchedules(this.state, this.registry);
+
+        // Check for triggered dialogues and interludes at starting location. A
+        // dialogue the entry effects started takes the place of a triggered one.
+        if (!this.initializePendingDialogueRedirect()) {
+            this.checkTriggeredDialogues();
+        }
         this.checkTriggeredInterludes();
 
         // Build and return initial snapshot
@@ -162,30 +277,54 @@ export class Engine {
     /**
      * Load a game from save data.
      *
-     * Restores game state and builds a snapshot.
+     * Upgrades the save to the current format, repairs references to content
+     * that no longer exists, restores the state, and builds a snapshot. What
+     * was changed is available from getLoadReport().
      *
      * @param saveData - Saved game data
      * @returns Snapshot of the loaded game
+     * @throws When the save's version has no migration path, e.g. a save
+     * written by a newer release of the game
      */
     loadGame(saveData: SaveData): Snapshot {
+        const migrated = migrateSave(saveData);
+        const repaired = repairGameState(migrated.save.state, this.registry);
+        const state = repaired.state;
         const playerCreatesProfile =
-            saveData.state.player?.playerCreatesProfile ??
+            state.player?.playerCreatesProfile ??
             this.state.player?.playerCreatesProfile ??
             false;
         this.state = {
-            ...saveData.state,
-            trackedQuest: saveData.state.trackedQuest ?? null,
-            player: saveData.state.player
+            ...state,
+            currentLocale: this.usableLocale(state.currentLocale),
+            player: state.player
                 ? {
-                      ...saveData.state.player,
+                      ...state.player,
                       playerCreatesProfile,
                   }
                 : createPlayerState(this.registry, playerCreatesProfile),
         };
+        this.history = [];
+        this.loadReport = {
+            fromVersion: saveData.version ?? '1.0',
+            toVersion: migrated.save.version,
+            migrations: migrated.migrations,
+            repairs: repaired.repairs,
+        };
 
         return this.buildSnapshotAndClearTransients();
     }
 
+    /**
+     * What the last loadGame() changed to make the save fit this version of
+     * the game: the migrations it ran and the content repairs it made.
+     *
+     * @returns The report, or null if no game has been loaded
+     */
+    getLoadReport(): SaveLoadReport | null {
+        return this.loadReport;
+    }
+
     /**
      * Save the current game state.
      *
@@ -195,7 +334,7 @@ export class Engine {
      */
     saveGame(): SaveData {
         return {
-            version: '1.0',
+            version: CURRENT_SAVE_VERSION,
             timestamp: new Date().toISOString(),
             state: { ...this.state },
         };
@@ -264,6 +403,8 @@ export class Engine {
         ) {
             return this.buildSnapshotAndClearTransients();
         }
+        this.rememberState();
+        this.logEntry({ kind: 'choice', speaker: null, text: choice.text });
 
         // Apply choice effects
         if (choice.effects) {
@@ -271,15 +412,23 @@ export class Engine {
         }
 
         // If a startDialogue effect fired, nodeId will be ''. Initialize the new dialogue.
-        if (this.initializePendingDialogueRedirect()) {
+        if (this.state.dialogueState?.nodeId === '') {
+            // The choice leaves this conversation for another one.
+            this.emitTransition(dialogue.id, currentNode.id, null, {
+                choiceId: choice.id,
+            });
+            this.initializePendingDialogueRedirect();
             return this.buildSnapshotAndClearTransients();
         }
 
         // Move to next node specified by choice
-        const nextNode = dialogue.nodes.find((n) => n.id === choice.next);
-        if (!nextNode) {
+        const target = this.followRoute(dialogue.id, choice);
+        const nextNode = target && this.findNode(target);
+        if (!target || !nextNode) {
             // No next node - end dialogue
-            this.emitTransition(dialogue.id, currentNode.id, null);
+            this.emitTransition(dialogue.id, currentNode.id, null, {
+                choiceId: choice.id,
+            });
             this.state = {
                 ...this.state,
                 dialogueState: null,
@@ -288,15 +437,11 @@ export class Engine {
         }
 
         // Set dialogue state to this node
-        this.emitTransition(dialogue.id, currentNode.id, nextNode.id);
-        this.state = {
-            ...this.state,
-            dialogueState: {
-                dialogueId: dialogue.id,
-                nodeId: nextNode.id,
-            },
-        };
-        this.emitNodeEnter(dialogue.id, nextNode.id);
+        this.emitTransition(dialogue.id, currentNode.id, target, {
+            choiceId: choice.id,
+        });
+        this.setDialogueNode(target.dialogueId, nextNode.id);
+        this.emitNodeEnter(target.dialogueId, nextNode.id);
 
         // Apply node effects first (before evaluating conditional branches)
         if (nextNode.effects) {
@@ -308,10 +453,12 @@ export class Engine {
 
         // Settle at this node: show text if any, auto-advance if silent
         if (nextNode.choices.length === 0) {
-            this.settleAtNode(dialogue.id, nextNode);
+            this.settleAtNode(target.dialogueId, nextNode);
             if (this.initializePendingDialogueRedirect()) {
                 return this.buildSnapshotAndClearTransients();
             }
+        } else {
+            this.logLine(nextNode);
         }
 
         return this.buildSnapshotAndClearTransients();
@@ -330,6 +477,11 @@ export class Engine {
         if (!character || !character.dialogue) {
             return this.buildSnapshotAndClearTransients();
         }
+        // Keep the state only when the conversation can start
+        const dialogue = this.registry.dialogues[character.dialogue];
+        if (dialogue?.nodes.some((n) => n.id === dialogue.startNode)) {
+            this.rememberState();
+        }
         return this.initDialogue(character.dialogue);
     }
 
@@ -398,39 +550,46 @@ export class Engine {
                 Math.pow(destLoc.y - currentLoc.y, 2)
         );
         const travelTime = Math.max(1, Math.round(distance / map.scale));
+        this.rememberState();
+        this.travel(locationId, travelTime);
 
-        // Update location and time
-        const newHour = this.state.currentTime.hour + travelTime;
-        const daysToAdd = Math.floor(newHour / 24);
-        const finalHour = newHour % 24;
+        return this.buildSnapshotAndClearTransients();
+    }
 
-        const updatedCharacterState = { ...this.state.characterState };
-        for (const [charId, charState] of Object.entries(
-            updatedCharacterState
-        )) {
-            if (charState.inParty) {
-                updatedCharacterState[charId] = {
-                    ...charState,
-                    location: locationId,
-                };
-            }
+    /**
+     * Player took an exit from the current location.
+     *
+     * Walks to the exit's destination without a map: advances time by the
+     * exit's hours, applies its effects, and checks for triggered dialogues.
+     * Does nothing when the location has no such exit, its destination does
+     * not exist, or its conditions fail.
+     *
+     * @param exitId - ID of the exit, unique within the current location
+     * @returns New snapshot at the destination
+     */
+    takeExit(exitId: string): Snapshot {
+        // Kept before the conditions roll, so rewinding restores the roll too
+        const before = this.state;
+        const locationId = this.state.currentLocation;
+        const exit = this.registry.locations[locationId]?.exits?.find(
+            (candidate) => candidate.id === exitId
+        );
+        if (
+            !exit ||
+            !this.registry.locations[exit.target] ||
+            !(exit.conditions ?? []).every((condition) =>
+                this.traceCondition(condition, {
+                    type: 'exit',
+                    locationId,
+                    exitId,
+                })
+            )
+        ) {
+            return this.buildSnapshotAndClearTransients();
         }
 
-        this.state = {
-            ...this.state,
-            currentLocation: locationId,
-            dialogueState: null,
-            musicOverride: null,
-            currentTime: {
-                day: this.state.currentTime.day + daysToAdd,
-                hour: finalHour,
-            },
-            characterState: updatedCharacterState,
-        };
-
-        // Check for triggered dialogues and interludes at new location
-        this.checkTriggeredDialogues();
-        this.checkTriggeredInterludes();
+        this.rememberState(before);
+        this.travel(exit.target, exitHours(exit), exit.effects);
 
         return this.buildSnapshotAndClearTransients();
     }
@@ -480,11 +639,17 @@ export class Engine {
      * Change the current language.
      *
      * Updates the locale and rebuilds the snapshot with new translations.
+     * With dev tools on, PSEUDO_LOCALE shows every string pseudo-localized,
+     * which makes hard-coded text and tight layouts easy to spot before
+     * translating. Otherwise it is ignored and the snapshot is unchanged.
      *
-     * @param locale - Language code (e.g., "en", "es")
+     * @param locale - Language code (e.g., "en", "es", or PSEUDO_LOCALE)
      * @returns New snapshot with updated locale
      */
     setLocale(locale: string): Snapshot {
+        if (this.usableLocale(locale) !== locale) {
+            return this.buildSnapshotAndClearTransients();
+        }
         this.state = {
             ...this.state,
             currentLocale: locale,
@@ -510,6 +675,159 @@ export class Engine {
         return this.buildSnapshotAndClearTransients();
     }
 
+    /**
+     * Player used an item from the inventory, on its own or on a character
+     * or location.
+     *
+     * Runs the first of the item's uses for that target whose conditions
+     * pass: applies its effects, then starts its dialogue. Does nothing when
+     * the player does not carry the item, the target is not here, or no use
+     * applies.
+     *
+     * @param itemId - ID of the item to use
+     * @param targetId - Character or location ID to use it on (optional)
+     * @returns New snapshot after the item is used
+     */
+    useItem(itemId: string, targetId?: string): Snapshot {
+        const before = this.state;
+        const item = this.registry.items[itemId];
+        const target = targetId ?? null;
+        const use = item
+            ? candidateItemUses(item, target, this.state).find((candidate) =>
+                  (candidate.conditions ?? []).every((condition) =>
+                      this.traceCondition(condition, {
+                          type: 'itemUse',
+                          itemId,
+                          useId: candidate.id,
+                      })
+                  )
+              )
+            : undefined;
+        this.emitItemUse(itemId, target, use?.id ?? null);
+        if (!use) {
+            return this.buildSnapshotAndClearTransients();
+        }
+        this.rememberState(before);
+
+        if (use.effects) {
+            this.state = this.applyTracedEffects(use.effects, this.state);
+        }
+        if (use.dialogue) {
+            this.enterDialogue(use.dialogue);
+        }
+        return this.buildSnapshotAndClearTransients();
+    }
+
+    /**
+     * Player bought an item in the open shop.
+     *
+     * Takes the item's price from the shop's currency and moves one of the
+     * merchant's stock into the inventory. Does nothing when no shop is open,
+     * the merchant has none of the item, or the player cannot afford it.
+     *
+     * @param itemId - ID of the item to buy
+     * @returns New snapshot after the purchase
+     */
+    buyItem(itemId: string): Snapshot {
+        const open = this.openShop();
+        const item = this.registry.items[itemId];
+        const price = item ? buyPrice(item) : null;
+        const stock = open
+            ? stockCount(this.state, open.merchantId, open.shop, itemId)
+            : 0;
+        if (!open || price === null || stock < 1) {
+            return this.buildSnapshotAndClearTransients();
+        }
+
+        const currency = shopCurrency(open.shop);
+        const money = this.state.variables[currency];
+        if ((typeof money === 'number' ? money : 0) < price) {
+            return this.buildSnapshotAndClearTransients();
+        }
+        this.rememberState();
+
+        this.state = withStockCount(
+            this.applyTracedEffects(
+                [
+                    { type: 'addVariable', variable: currency, value: -price },
+                    { type: 'addItem', itemId, count: 1 },
+                ],
+                this.state
+            ),
+            open.merchantId,
+            itemId,
+            stock - 1
+        );
+        return this.buildSnapshotAndClearTransients();
+    }
+
+    /**
+     * Player sold an item from the inventory to the open shop.
+     *
+     * Pays the item's sell price into the shop's currency and adds one to the
+     * merchant's stock, so the merchant can sell it again. From a stack of
+     * several, one is sold and the rest stay in the inventory. Does nothing when no shop is
+     * open, the merchant does not buy, or the item has no price.
+     *
+     * @param itemId - ID of the item to sell
+     * @returns New snapshot after the sale
+     */
+    sellItem(itemId: string): Snapshot {
+        const open = this.openShop();
+        const item = this.registry.items[itemId];
+        const price = item ? sellPrice(item) : null;
+        if (
+            !open ||
+            open.shop.buys === false ||
+            price === null ||
+            !this.state.inventory.includes(itemId)
+        ) {
+            return this.buildSnapshotAndClearTransients();
+        }
+
+        // The last one goes to the merchant, so itemAt still finds it there
+        const handOver: Effect =
+            itemCount(this.state, itemId) > 1
+                ? { type: 'removeItem', itemId, count: 1 }
+                : { type: 'moveItem', itemId, locationId: open.merchantId };
+        const stock = stockCount(
+            this.state,
+            open.merchantId,
+            open.shop,
+            itemId
+        );
+        this.rememberState();
+        this.state = withStockCount(
+            this.applyTracedEffects(
+                [
+                    handOver,
+                    {
+                        type: 'addVariable',
+                        variable: shopCurrency(open.shop),
+                        value: price,
+                    },
+                ],
+                this.state
+            ),
+            open.merchantId,
+            itemId,
+            stock + 1
+        );
+        return this.buildSnapshotAndClearTransients();
+    }
+
+    /**
+     * Close the open shop.
+     *
+     * Renderers call this when the player leaves the shop.
+     *
+     * @returns New snapshot with no shop open
+     */
+    closeShop(): Snapshot {
+        this.state = { ...this.state, activeShop: null };
+        return this.buildSnapshotAndClearTransients();
+    }
+
     /**
      * Get the current snapshot without making any changes.
      *
@@ -518,13 +836,19 @@ export class Engine {
      * @returns Current snapshot
      */
     getSnapshot(): Snapshot {
-        return buildSnapshot(this.state, this.registry);
+        return buildSnapshot(
+            this.state,
+            this.registry,
+            this.missingKeyReporter()
+        );
     }
 
     /**
      * Clear the current pending interlude and return the updated snapshot.
      *
-     * Renderers call this after the player dismisses an interlude.
+     * Renderers call this after the player dismisses an interlude. Dismissing
+     * is not kept for rewind(), so rewinding afterwards takes back the action
+     * that showed the interlude.
      *
      * @returns Current snapshot with no pending interlude
      */
@@ -565,28 +889,21 @@ export class Engine {
         if (this.hasVisibleChoices(currentNode)) {
             return this.buildSnapshotAndClearTransients();
         }
+        this.rememberState();
 
-        const resolvedNext = this.resolveNextNode(currentNode);
+        const target = this.resolveNextNode(dialogue.id, currentNode);
         if (this.initializePendingDialogueRedirect()) {
             return this.buildSnapshotAndClearTransients();
         }
-        if (!resolvedNext) {
-            this.state = { ...this.state, dialogueState: null };
-            return this.buildSnapshotAndClearTransients();
-        }
-
-        const nextNode = dialogue.nodes.find((n) => n.id === resolvedNext);
-        if (!nextNode) {
+        const nextNode = target && this.findNode(target);
+        if (!target || !nextNode) {
             this.state = { ...this.state, dialogueState: null };
             return this.buildSnapshotAndClearTransients();
         }
 
-        this.emitTransition(dialogue.id, currentNode.id, resolvedNext);
-        this.state = {
-            ...this.state,
-            dialogueState: { dialogueId: dialogue.id, nodeId: resolvedNext },
-        };
-        this.emitNodeEnter(dialogue.id, resolvedNext);
+        this.emitTransition(dialogue.id, currentNode.id, target);
+        this.setDialogueNode(target.dialogueId, nextNode.id);
+        this.emitNodeEnter(target.dialogueId, nextNode.id);
 
         if (nextNode.effects) {
             this.state = this.applyTracedEffects(nextNode.effects, this.state);
@@ -597,7 +914,7 @@ export class Engine {
             return this.buildSnapshotAndClearTransients();
         }
 
-        this.settleAtNode(dialogue.id, nextNode);
+        this.settleAtNode(target.dialogueId, nextNode);
 
         // settleAtNode may have triggered a startDialogue via the silent-advance loop
         if (this.initializePendingDialogueRedirect()) {
@@ -607,6 +924,59 @@ export class Engine {
         return this.buildSnapshotAndClearTransients();
     }
 
+    /**
+     * Take back the player's most recent actions.
+     *
+     * Choosing, continuing, talking to a character, traveling, using an
+     * item, and buying or selling can be taken back while rewinding is on. The state returns to how it was
+     * before the action, except for the language and the player's notes,
+     * which stay as they are now. Asking for more steps than are kept goes
+     * back as far as possible.
+     *
+     * @param steps - How many actions to take back
+     * @returns Snapshot after rewinding, unchanged when there is nothing to
+     * take back
+     */
+    rewind(steps = 1): Snapshot {
+        const count = Math.min(Math.floor(steps), this.history.length);
+        if (count > 0) {
+            const restored = this.history[this.history.length - count];
+            this.history = this.history.slice(0, -count);
+            this.state = {
+                ...restored,
+                currentLocale: this.state.currentLocale,
+                playerNotes: this.state.playerNotes,
+            };
+        }
+
+        return this.buildSnapshotAndClearTransients();
+    }
+
+    /**
+     * Whether rewind() has an action to take back.
+     *
+     * @returns True when at least one player action is kept
+     */
+    canRewind(): boolean {
+        return this.history.length > 0;
+    }
+
+    /**
+     * Turn rewinding on or off.
+     *
+     * newGame() does this from the game config's `allowRewind`. Call it
+     * before loadGame() to do the same for a loaded save. Turning rewinding
+     * off forgets the actions kept so far.
+     *
+     * @param enabled - Whether to keep player actions for rewind()
+     */
+    setRewindEnabled(enabled: boolean): void {
+        this.rewindEnabled = enabled;
+        if (!enabled) {
+            this.history = [];
+        }
+    }
+
     // ===========================================================================
     // Debug / Inspection / Trace API
     //
@@ -659,6 +1029,71 @@ export class Engine {
         this.traceSeq = 0;
     }
 
+    /**
+     * Attach or detach a handler for missing localization keys.
+     *
+     * While a handler is attached, each snapshot reports the @keys that
+     * neither the current locale nor its fallbacks have, which players would
+     * see as raw @key text. A key is reported once per locale, dialogue, and
+     * node. Dev tools and Studio's playtest use this; pass null to detach.
+     *
+     * @param handler - Receives each missing key, or null to stop checking
+     */
+    setMissingKeyHandler(
+        handler: ((missing: MissingLocaleKey) => void) | null
+    ): void {
+        this.missingKeyHandler = handler;
+        this.reportedMissingKeys.clear();
+    }
+
+    /**
+     * Allow or forbid the pseudo-locale.
+     *
+     * It is off by default, so a released game never shows it, and
+     * enableDevTools() turns it on. Call it before newGame() or loadGame()
+     * so a game that starts in the pseudo-locale keeps it. Turning it off
+     * while the pseudo-locale is showing switches back to the source locale
+     * (see sourceLocaleOf).
+     *
+     * @param enabled - Whether setLocale() accepts PSEUDO_LOCALE
+     */
+    setPseudoLocaleEnabled(enabled: boolean): void {
+        this.pseudoLocaleEnabled = enabled;
+        this.state = {
+            ...this.state,
+            currentLocale: this.usableLocale(this.state.currentLocale),
+        };
+    }
+
+    /**
+     * The locale to use: the source locale in place of a pseudo-locale that
+     * is off.
+     */
+    private usableLocale(locale: string): string {
+        return locale === PSEUDO_LOCALE && !this.pseudoLocaleEnabled
+            ? (sourceLocaleOf(this.registry) ?? 'en')
+            : locale;
+    }
+
+    /** The snapshot's missing-key callback, when a handler is attached. */
+    private missingKeyReporter():
+        | ((missing: MissingLocaleKey) => void)
+        | undefined {
+        const handler = this.missingKeyHandler;
+        if (!handler) return undefined;
+        return (missing) => {
+            const id = [
+                missing.locale,
+                missing.key,
+                missing.dialogueId ?? '',
+                missing.nodeId ?? '',
+            ].join('\0');
+            if (this.reportedMissingKeys.has(id)) return;
+            this.reportedMissingKeys.add(id);
+            handler(missing);
+        };
+    }
+
     /**
      * Start a dialogue at an arbitrary node.
      *
@@ -700,6 +1135,8 @@ export class Engine {
         if (node.choices.length === 0) {
             this.settleAtNode(dialogue.id, node);
             this.initializePendingDialogueRedirect();
+        } else {
+            this.logLine(node);
         }
 
         return this.buildSnapshotAndClearTransients();
@@ -729,8 +1166,9 @@ export class Engine {
      *
      * Unlike the goToLocation effect (which travels within the current map),
      * teleport reaches any location so a tester can jump anywhere. Party members
-     * come along, matching goToLocation. No travel time is added and location
-     * triggers do not fire — this is a debug jump, not in-game travel. Use
+     * come along, matching goToLocation. The visit counts and the location's
+     * entry effects apply, but no travel time is added and location triggers
+     * do not fire — this is a debug jump, not in-game travel. Use
      * applyDebugEffect({ type: 'goToLocation', ... }) for the in-game path.
      *
      * @param locationId - Destination location ID
@@ -754,6 +1192,8 @@ export class Engine {
             currentLocation: locationId,
             characterState: updatedCharacterState,
         };
+        this.enterLocation();
+        this.initializePendingDialogueRedirect();
 
         return this.buildSnapshotAndClearTransients();
     }
@@ -799,6 +1239,7 @@ export class Engine {
                             this.state,
                             this.registry
                         ),
+                        ...this.failedParts(condition),
                     };
                 }
             }
@@ -811,6 +1252,15 @@ export class Engine {
     // Internal Helper Methods
     // ===========================================================================
 
+    /** The open shop and its merchant, or null when none is open. */
+    private openShop(): { merchantId: string; shop: Shop } | null {
+        const merchantId = this.state.activeShop;
+        const shop = merchantId
+            ? this.registry.characters[merchantId]?.shop
+            : undefined;
+        return merchantId && shop ? { merchantId, shop } : null;
+    }
+
     // ---------------------------------------------------------------------------
     // Trace emitters — all no-ops when no sink is attached.
     // ---------------------------------------------------------------------------
@@ -835,6 +1285,12 @@ export class Engine {
             case 'choiceFiltered':
                 this.trace.onChoiceFiltered?.(event);
                 break;
+            case 'itemUse':
+                this.trace.onItemUse?.(event);
+                break;
+            case 'interlude':
+                this.trace.onInterlude?.(event);
+                break;
             case 'error':
                 this.trace.onError?.(event);
                 break;
@@ -856,8 +1312,8 @@ export class Engine {
     private emitTransition(
         dialogueId: string,
         fromNode: string,
-        toNode: string | null,
-        viaBranch?: number
+        to: NodeTarget | null,
+        route: { viaBranch?: number; choiceId?: string } = {}
     ): void {
         if (!this.trace) {
             return;
@@ -867,8 +1323,29 @@ export class Engine {
             seq: this.traceSeq++,
             dialogueId,
             fromNode,
-            toNode,
-            ...(viaBranch !== undefined ? { viaBranch } : {}),
+            toNode: to?.nodeId ?? null,
+            ...(route.viaBranch !== undefined
+                ? { viaBranch: route.viaBranch }
+                : {}),
+            ...(route.choiceId ? { choiceId: route.choiceId } : {}),
+            ...(to?.via ? { via: to.via, toDialogue: to.dialogueId } : {}),
+        });
+    }
+
+    private emitItemUse(
+        itemId: string,
+        targetId: string | null,
+        useId: string | null
+    ): void {
+        if (!this.trace) {
+            return;
+        }
+        this.emit({
+            kind: 'itemUse',
+            seq: this.traceSeq++,
+            itemId,
+            targetId,
+            useId,
         });
     }
 
@@ -895,6 +1372,9 @@ export class Engine {
                     choiceId: choice.choiceId,
                     failedCondition: choice.failedCondition,
                     resolvedValues: choice.resolvedValues ?? {},
+                    ...(choice.failedConditions
+                        ? { failedConditions: choice.failedConditions }
+                        : {}),
                 });
             }
         }
@@ -906,14 +1386,15 @@ export class Engine {
      * no extra work, so behavior and performance are unchanged.
      */
     private applyTracedEffects(effects: Effect[], state: GameState): GameState {
+        const declarations = this.registry.variableSchema?.variables;
         if (!this.trace) {
-            return applyEffects(effects, state);
+            return applyEffects(effects, state, declarations);
         }
 
         let current = state;
         for (const effect of effects) {
             const before = current;
-            current = applyEffects([effect], current);
+            current = applyEffects([effect], current, declarations);
             this.emit({
                 kind: 'effect',
                 seq: this.traceSeq++,
@@ -929,10 +1410,25 @@ export class Engine {
      * Transient state is data that should only appear in one snapshot.
      */
     private buildSnapshotAndClearTransients(): Snapshot {
+        // Time may have moved: put scheduled characters where they belong,
+        // then fire the timed events the clock passed.
+        this.state = applySchedules(this.state, this.registry);
+        this.runTimedEvents();
+
         // While tracing, record why each hidden choice on the resting node is
         // hidden, so the debug trace can answer "why can't I see this choice?".
+        // The interlude this snapshot shows is reported here too: it is
+        // cleared below, and this is the one place every queued interlude
+        // passes through.
         if (this.trace) {
             this.emitChoiceFilters();
+            if (this.state.pendingInterlude) {
+                this.emit({
+                    kind: 'interlude',
+                    seq: this.traceSeq++,
+                    interludeId: this.state.pendingInterlude,
+                });
+            }
         }
 
         if (
@@ -947,7 +1443,11 @@ export class Engine {
             this.state = { ...this.state, trackedQuest: null };
         }
 
-        const snapshot = buildSnapshot(this.state, this.registry);
+        const snapshot = buildSnapshot(
+            this.state,
+            this.registry,
+            this.missingKeyReporter()
+        );
 
         // Clear transient fields after building snapshot
         this.state = {
@@ -964,6 +1464,61 @@ export class Engine {
         return snapshot;
     }
 
+    /**
+     * Keep the state from before a player action so rewind() can return to
+     * it. Does nothing while rewinding is off.
+     *
+     * @param state - The state before the action (the current state by
+     * default); actions that roll for their conditions pass the state from
+     * before the roll
+     */
+    private rememberState(state: GameState = this.state): void {
+        if (!this.rewindEnabled) {
+            return;
+        }
+        this.history.push(state);
+        if (this.history.length > MAX_REWIND_STEPS) {
+            this.history.shift();
+        }
+    }
+
+    /**
+     * Add the line of the node the conversation now rests on to the log.
+     * Nodes without text, and nodes whose effects ended the conversation,
+     * show no line and are skipped.
+     */
+    private logLine(node: DialogueNode): void {
+        if (!node.text || !this.state.dialogueState) {
+            return;
+        }
+        this.logEntry({
+            kind: 'line',
+            speaker: node.speaker,
+            text: node.text,
+            ...(node.voice ? { voice: node.voice } : {}),
+        });
+    }
+
+    /**
+     * Append to the conversation log, dropping the oldest entries past the
+     * cap. The entry keeps the values of the variables its text reads.
+     */
+    private logEntry(entry: DialogueLogEntry): void {
+        const variables = variablesInText(
+            entry.text,
+            this.registry,
+            this.state.variables
+        );
+        const logged = Object.keys(variables).length
+            ? { ...entry, variables }
+            : entry;
+        const log = [...(this.state.dialogueLog ?? []), logged];
+        this.state = {
+            ...this.state,
+            dialogueLog: log.slice(-MAX_DIALOGUE_LOG),
+        };
+    }
+
     /**
      * Count one automatic dialogue step (a silent-node advance or a
      * START dialogue redirect). Returns true while the current action is
@@ -1028,6 +1583,8 @@ export class Engine {
         if (startNode.choices.length === 0) {
             this.settleAtNode(dialogue.id, startNode);
             this.initializePendingDialogueRedirect();
+        } else {
+            this.logLine(startNode);
         }
 
         return true;
@@ -1046,6 +1603,78 @@ export class Engine {
         return this.enterDialogue(dialogueId);
     }
 
+    /**
+     * Move the player and party to a location, taking some hours on the way.
+     * Leaving ends any conversation and closes the shop. Effects of the trip
+     * apply on arrival, then the location's entry effects, before its
+     * triggers are checked.
+     */
+    private travel(
+        locationId: string,
+        hours: number,
+        effects: Effect[] = []
+    ): void {
+        const updatedCharacterState = { ...this.state.characterState };
+        for (const [charId, charState] of Object.entries(
+            updatedCharacterState
+        )) {
+            if (charState.inParty) {
+                updatedCharacterState[charId] = {
+                    ...charState,
+                    location: locationId,
+                };
+            }
+        }
+
+        this.state = {
+            ...this.state,
+            currentLocation: locationId,
+            dialogueState: null,
+            activeShop: null,
+            musicOverride: null,
+            currentTime: addHours(this.state.currentTime, hours),
+            characterState: updatedCharacterState,
+        };
+        if (effects.length > 0) {
+            this.state = this.applyTracedEffects(effects, this.state);
+        }
+        this.enterLocation();
+        this.state = applySchedules(this.state, this.registry);
+
+        // Check for triggered dialogues and interludes at new location. A
+        // dialogue the trip's or the location's effects started takes the
+        // place of a triggered one.
+        if (!this.initializePendingDialogueRedirect()) {
+            this.checkTriggeredDialogues();
+        }
+        this.checkTriggeredInterludes();
+    }
+
+    /**
+     * Count an arrival at the current location and apply its entry effects:
+     * onFirstEnter on the first visit, then onEnter on every visit.
+     */
+    private enterLocation(): void {
+        const locationId = this.state.currentLocation;
+        const visits = this.state.locationVisits?.[locationId] ?? 0;
+        this.state = {
+            ...this.state,
+            locationVisits: {
+                ...this.state.locationVisits,
+                [locationId]: visits + 1,
+            },
+        };
+
+        const location = this.registry.locations[locationId];
+        const effects = [
+            ...(visits === 0 ? (location?.onFirstEnter ?? []) : []),
+            ...(location?.onEnter ?? []),
+        ];
+        if (effects.length > 0) {
+            this.state = this.applyTracedEffects(effects, this.state);
+        }
+    }
+
     private findMapContainingLocation(locationId: string): GameMap | null {
         return (
             Object.values(this.registry.maps).find((map) =>
@@ -1068,10 +1697,8 @@ export class Engine {
     private settleAtNode(dialogueId: string, node: DialogueNode): void {
         // Node has text: show it, wait for player click
         if (node.text) {
-            this.state = {
-                ...this.state,
-                dialogueState: { dialogueId, nodeId: node.id },
-            };
+            this.setDialogueNode(dialogueId, node.id);
+            this.logLine(node);
             return;
         }
 
@@ -1080,39 +1707,27 @@ export class Engine {
             return;
         }
 
-        // Silent node: auto-advance through the chain
-        const dialogue = this.registry.dialogues[dialogueId];
-        if (!dialogue) {
-            this.state = { ...this.state, dialogueState: null };
-            return;
-        }
-
+        // Silent node: auto-advance through the chain, which may CALL into
+        // or RETURN to another dialogue
+        let currentDialogueId = dialogueId;
         let currentNode = node;
         while (true) {
-            if (!this.takeAutoStep(dialogueId)) {
+            if (!this.takeAutoStep(currentDialogueId)) {
                 return;
             }
-            const nextId = this.resolveNextNode(currentNode);
+            const target = this.resolveNextNode(currentDialogueId, currentNode);
             if (this.state.dialogueState?.nodeId === '') {
                 return;
             }
-            if (!nextId) {
-                this.state = { ...this.state, dialogueState: null };
-                return;
-            }
-
-            const nextNode = dialogue.nodes.find((n) => n.id === nextId);
-            if (!nextNode) {
+            const nextNode = target && this.findNode(target);
+            if (!target || !nextNode) {
                 this.state = { ...this.state, dialogueState: null };
                 return;
             }
 
-            this.emitTransition(dialogueId, currentNode.id, nextId);
-            this.state = {
-                ...this.state,
-                dialogueState: { dialogueId, nodeId: nextId },
-            };
-            this.emitNodeEnter(dialogueId, nextId);
+            this.emitTransition(currentDialogueId, currentNode.id, target);
+            this.setDialogueNode(target.dialogueId, nextNode.id);
+            this.emitNodeEnter(target.dialogueId, nextNode.id);
 
             if (nextNode.effects) {
                 this.state = this.applyTracedEffects(
@@ -1130,30 +1745,33 @@ export class Engine {
             if (nextNode.text || nextNode.choices.length > 0) {
                 if (nextNode.text) {
                     // Restore in case effects (e.g. endDialogue) changed dialogueState
-                    this.state = {
-                        ...this.state,
-                        dialogueState: { dialogueId, nodeId: nextNode.id },
-                    };
+                    this.setDialogueNode(target.dialogueId, nextNode.id);
+                    this.logLine(nextNode);
                 }
                 return;
             }
 
+            currentDialogueId = target.dialogueId;
             currentNode = nextNode;
         }
     }
 
     /**
-     * Resolve the next node ID from a dialogue node.
+     * Resolve the next node from a dialogue node.
      *
      * Evaluates IF branches in order. The first passing branch runs its
-     * branch effects, then routes to its branch next or falls through to
-     * node.next. If no branch passes, falls through to node.next.
-     * Returns null if neither exists (end dialogue).
+     * branch effects, then follows its own route or falls through to the
+     * node's. If no branch passes, follows the node's route. Returns null if
+     * the route ends the dialogue.
      *
+     * @param dialogueId - ID of the dialogue the node belongs to
      * @param node - The dialogue node to resolve next from
-     * @returns Next node ID, or null to end dialogue
+     * @returns Next node, or null to end dialogue
      */
-    private resolveNextNode(node: DialogueNode): string | null {
+    private resolveNextNode(
+        dialogueId: string,
+        node: DialogueNode
+    ): NodeTarget | null {
         // Check IF branches in order; first passing branch wins.
         if (node.conditionalBranches && node.conditionalBranches.length > 0) {
             for (let i = 0; i < node.conditionalBranches.length; i++) {
@@ -1175,13 +1793,117 @@ export class Engine {
                         return null;
                     }
 
-                    return conditionalBranch.next ?? node.next ?? null;
+                    const { next, call, returns } = conditionalBranch;
+                    return this.followRoute(
+                        dialogueId,
+                        next || call || returns
+                            ? { next: next ?? node.next, call, returns }
+                            : node
+                    );
                 }
             }
         }
 
-        // Fall through to default next, or null if none
-        return node.next ?? null;
+        // Fall through to the node's own route, or null if none
+        return this.followRoute(dialogueId, node);
+    }
+
+    /**
+     * Follow the route of a node, choice, or IF block.
+     *
+     * A GOTO stays in the current dialogue. A CALL pushes a frame holding
+     * the route's GOTO and enters the called dialogue; a RETURN pops the
+     * innermost frame and continues there. Returns null when the route ends
+     * the conversation.
+     *
+     * @param dialogueId - ID of the dialogue the route belongs to
+     * @param route - The next, call, and returns fields of the route
+     * @returns Next node, or null to end dialogue
+     */
+    private followRoute(
+        dialogueId: string,
+        route: Pick<DialogueNode, 'next' | 'call' | 'returns'>
+    ): NodeTarget | null {
+        const dialogueState = this.state.dialogueState;
+        // An effect on the way ended the dialogue or started another one.
+        if (!dialogueState || dialogueState.nodeId === '') {
+            return null;
+        }
+        const callStack = dialogueState.callStack ?? [];
+
+        if (route.returns) {
+            const frame = callStack.at(-1);
+            if (!frame) {
+                this.emitError(
+                    `Dialogue "${dialogueId}" reached a RETURN, but no CALL is waiting for it.`
+                );
+                return null;
+            }
+            this.setCallStack(callStack.slice(0, -1));
+            return frame.nodeId === null
+                ? null
+                : {
+                      dialogueId: frame.dialogueId,
+                      nodeId: frame.nodeId,
+                      via: 'return',
+                  };
+        }
+
+        if (route.call) {
+            const called = this.registry.dialogues[route.call.dialogueId];
+            if (!called) {
+                this.emitError(`Dialogue not found: ${route.call.dialogueId}`);
+                return null;
+            }
+            if (callStack.length >= MAX_CALL_DEPTH) {
+                this.emitError(
+                    `Dialogue "${dialogueId}" ended after ${MAX_CALL_DEPTH} CALLs without a RETURN. ` +
+                        `Check its CALL routing for a loop.`
+                );
+                return null;
+            }
+            this.setCallStack([
+                ...callStack,
+                { dialogueId, nodeId: route.next || null },
+            ]);
+            return {
+                dialogueId: called.id,
+                nodeId: route.call.nodeId ?? called.startNode,
+                via: 'call',
+            };
+        }
+
+        return route.next ? { dialogueId, nodeId: route.next } : null;
+    }
+
+    private findNode(target: NodeTarget): DialogueNode | undefined {
+        return this.registry.dialogues[target.dialogueId]?.nodes.find(
+            (n) => n.id === target.nodeId
+        );
+    }
+
+    /**
+     * Point the conversation at a node, keeping the CALLs that are waiting
+     * to RETURN.
+     */
+    private setDialogueNode(dialogueId: string, nodeId: string): void {
+        const callStack = this.state.dialogueState?.callStack;
+        this.state = {
+            ...this.state,
+            dialogueState: callStack?.length
+                ? { dialogueId, nodeId, callStack }
+                : { dialogueId, nodeId },
+        };
+    }
+
+    private setCallStack(callStack: DialogueFrame[]): void {
+        if (!this.state.dialogueState) {
+            return;
+        }
+        this.state = {
+            ...this.state,
+            dialogueState: { ...this.state.dialogueState, callStack },
+        };
     }
 
     /**
@@ -1206,11 +1928,195 @@ export class Engine {
                 ),
                 result,
                 context,
+                ...(result ? {} : this.failedParts(condition)),
             });
         }
+        this.consumeRolls([condition]);
         return result;
     }
 
+    /**
+     * For a failing condition group, the parts inside it that failed. Plain
+     * conditions explain themselves, so they add nothing.
+     */
+    private failedParts(condition: Condition): {
+        failedConditions?: FailedCondition[];
+    } {
+        if (
+            condition.type !== 'anyOf' &&
+            condition.type !== 'allOf' &&
+            condition.type !== 'not'
+        ) {
+            return {};
+        }
+        return {
+            failedConditions: explainConditionFailure(
+                condition,
+                this.state,
+                this.registry
+            ),
+        };
+    }
+
+    /**
+     * Advance the random generator after the engine has acted on conditions
+     * that rolled. A roll condition only reads the next value, so every check
+     * against the same state agrees; consuming it here means the next roll
+     * the engine decides on gets a fresh value.
+     */
+    private consumeRolls(conditions: Condition[]): void {
+        if (!conditions.some(conditionUsesRoll)) {
+            return;
+        }
+        this.state = {
+            ...this.state,
+            randomState: nextRandom(this.state.randomState ?? 0).state,
+        };
+    }
+
+    /**
+     * Whether every condition in a list passes, checking them in order. Each
+     * condition that rolls uses up its roll before the next is checked, so
+     * two rolls in one list are independent.
+     */
+    private checkConditions(conditions: Condition[]): boolean {
+        return conditions.every((condition) => {
+            const passes = evaluateCondition(
+                condition,
+                this.state,
+                this.registry
+            );
+            this.consumeRolls([condition]);
+            return passes;
+        });
+    }
+
+    /**
+     * Fire the timed events the clock passed during this action, then show
+     * any queued event dialogues and interludes that have room to start.
+     *
+     * This is called at the end of every action, so events fire whether time
+     * moved through travel, ADVANCE time, or anything else.
+     */
+    private runTimedEvents(): void {
+        const events = Object.values(this.registry.events ?? {});
+        if (events.length === 0) {
+            return;
+        }
+
+        for (let pass = 0; ; pass++) {
+            const now = absoluteHour(this.state.currentTime);
+            const timers = updateEventTimers(
+                events,
+                this.state.flags,
+                this.state.eventTimers ?? {},
+                now
+            );
+            const due = dueEvents(
+                events,
+                timers,
+                this.state.eventClock ?? now,
+                now
+            );
+            this.state = {
+                ...this.state,
+                eventClock: now,
+                eventTimers: timers,
+            };
+
+            if (due.length === 0) {
+                break;
+            }
+            if (pass === MAX_EVENT_PASSES) {
+                this.emitError(
+                    `Timed events stopped after ${MAX_EVENT_PASSES} passes. ` +
+                        `Check for events whose effects advance time past themselves.`
+                );
+                break;
+            }
+            for (const { event } of due) {
+                this.fireEvent(event);
+            }
+            this.state = applySchedules(this.state, this.registry);
+        }
+
+        this.presentQueuedEvents();
+    }
+
+    /**
+     * Fire one timed event: check its conditions, apply its effects, and
+     * queue its dialogue or interlude. An event already waiting in the queue
+     * is not queued twice.
+     */
+    private fireEvent(event: GameEvent): void {
+        if (event.conditions) {
+            const passes = this.checkConditions(event.conditions);
+            if (!passes) {
+                return;
+            }
+        }
+
+        if (event.effects) {
+            this.state = this.applyTracedEffects(event.effects, this.state);
+        }
+
+        const queued = this.state.queuedEvents ?? [];
+        if ((event.dialogue || event.interlude) && !queued.includes(event.id)) {
+            this.state = {
+                ...this.state,
+                queuedEvents: [...queued, event.id],
+            };
+        }
+    }
+
+    /**
+     * Start queued event dialogues and interludes, oldest first. An event
+     * waits while a conversation is running (for a dialogue) or another
+     * interlude is about to show (for an interlude).
+     */
+    private presentQueuedEvents(): void {
+        const queued = this.state.queuedEvents ?? [];
+        if (queued.length === 0) {
+            return;
+        }
+
+        const waiting: string[] = [];
+        for (const eventId of queued) {
+            const event = this.registry.events?.[eventId];
+            if (!event) {
+                continue;
+            }
+            if (
+                (event.dialogue && this.state.dialogueState !== null) ||
+                (event.interlude && this.state.pendingInterlude !== null)
+            ) {
+                waiting.push(eventId);
+                continue;
+            }
+
+            const interlude = event.interlude
+                ? this.registry.interludes[event.interlude]
+                : undefined;
+            if (interlude) {
+                this.state = {
+                    ...this.state,
+                    pendingInterlude: interlude.id,
+                };
+                if (interlude.effects) {
+                    this.state = this.applyTracedEffects(
+                        interlude.effects,
+                        this.state
+                    );
+                }
+            }
+            if (event.dialogue) {
+                this.enterDialogue(event.dialogue);
+            }
+        }
+
+        this.state = { ...this.state, queuedEvents: waiting };
+    }
+
     /**
      * Check for dialogues that should auto-trigger at the current location.
      *
@@ -1227,15 +2133,11 @@ export class Engine {
             }
 
             // Check if conditions pass
-            if (
-                dialogue.conditions &&
-                !evaluateConditions(
-                    dialogue.conditions,
-                    this.state,
-                    this.registry
-                )
-            ) {
-                continue;
+            if (dialogue.conditions) {
+                const passes = this.checkConditions(dialogue.conditions);
+                if (!passes) {
+                    continue;
+                }
             }
 
             if (!this.enterDialogue(dialogue.id)) {
@@ -1261,15 +2163,13 @@ export class Engine {
                 continue;
             }
 
-            if (
-                interlude.triggerConditions &&
-                !evaluateConditions(
-                    interlude.triggerConditions,
-                    this.state,
-                    this.registry
-                )
-            ) {
-                continue;
+            if (interlude.triggerConditions) {
+                const passes = this.checkConditions(
+                    interlude.triggerConditions
+                );
+                if (!passes) {
+                    continue;
+                }
             }
 
             this.state = {
@@ -1279,7 +2179,11 @@ export class Engine {
 
             // Apply interlude effects (e.g. setFlag to prevent re-triggering on next visit)
             if (interlude.effects) {
-                this.state = applyEffects(interlude.effects, this.state);
+                this.state = applyEffects(
+                    interlude.effects,
+                    this.state,
+                    this.registry.variableSchema?.variables
+                );
             }
 
             // Only trigger one interlude at a time
@@ -1302,6 +2206,8 @@ export interface ChoiceVisibility {
     failedCondition?: Condition;
     /** For a hidden choice, the state values the failing requirement read */
     resolvedValues?: Record<string, unknown>;
+    /** When the failing requirement is a group, the parts inside it that failed */
+    failedConditions?: FailedCondition[];
 }
 
 /**
@@ -1336,8 +2242,10 @@ export function createInitialState(currentLocale = 'en'): GameState {
         unlockedJournalEntries: [],
         playerNotes: [],
         dialogueState: null,
+        dialogueLog: [],
         characterState: {},
         itemLocations: {},
+        itemCounts: {},
         mapEnabled: true,
         notifications: [],
         pendingSounds: [],
@@ -1345,6 +2253,7 @@ export function createInitialState(currentLocale = 'en'): GameState {
         pendingVideo: null,
         pendingInterlude: null,
         currentLocale,
+        randomState: createRandomState(),
     };
 }
 
@@ -0,0 +1,118 @@
+/**
+ * Timed events for the Doodle Engine.
+ *
+ * Events are measured on an absolute game clock: the number of hours since
+ * hour 0 of day 1. After each player action the engine looks at the span of
+ * hours the clock moved through and fires every event that fell inside it,
+ * in time order. The functions here are pure; the engine owns the state.
+ */
+
+import type { GameEvent } from '../types/entities';
+import type { Time } from '../types/state';
+
+/** An event that comes due during a span of game time. */
+export interface DueEvent {
+    event: GameEvent;
+    /** The absolute hour it came due */
+    hour: number;
+}
+
+/**
+ * Convert a day and hour to hours since hour 0 of day 1.
+ *
+ * @param time - A game time
+ * @returns The absolute hour
+ */
+export function absoluteHour(time: Time): number {
+    return (time.day - 1) * 24 + time.hour;
+}
+
+/**
+ * Start and stop the countdowns of afterFlag events. A countdown starts at
+ * `now` the first time its flag is seen set and is dropped when the flag is
+ * cleared, so setting the flag again starts a new countdown.
+ *
+ * @param events - All timed events
+ * @param flags - Current flag values
+ * @param timers - Countdown start hours by event ID
+ * @param now - The current absolute hour
+ * @returns The updated timers, or `timers` itself when nothing changed
+ */
+export function updateEventTimers(
+    events: GameEvent[],
+    flags: Record<string, boolean>,
+    timers: Record<string, number>,
+    now: number
+): Record<string, number> {
+    let updated = timers;
+    for (const event of events) {
+        if (event.trigger.type !== 'afterFlag') continue;
+
+        const armed = timers[event.id] !== undefined;
+        const flagSet = flags[event.trigger.flag] === true;
+        if (flagSet === armed) continue;
+
+        if (updated === timers) updated = { ...timers };
+        if (flagSet) {
+            updated[event.id] = now;
+        } else {
+            delete updated[event.id];
+        }
+    }
+    return updated;
+}
+
+/**
+ * Find every event that comes due after `from` and up to and including `to`.
+ * A daily event appears once for each day it passes.
+ *
+ * @param events - All timed events
+ * @param timers - Countdown start hours of afterFlag events
+ * @param from - The absolute hour events have already been checked through
+ * @param to - The current absolute hour
+ * @returns The due events, earliest first; events due in the same hour keep
+ * their order in `events`
+ */
+export function dueEvents(
+    events: GameEvent[],
+    timers: Record<string, number>,
+    from: number,
+    to: number
+): DueEvent[] {
+    const due: DueEvent[] = [];
+    const inSpan = (hour: number) => hour > from && hour <= to;
+
+    for (const event of events) {
+        const trigger = event.trigger;
+        switch (trigger.type) {
+            case 'at': {
+                const hour = absoluteHour(trigger);
+                if (inSpan(hour)) due.push({ event, hour });
+                break;
+            }
+            case 'daily': {
+                // The first occurrence after `from`, then one per day.
+                let hour =
+                    Math.floor((from - trigger.hour) / 24) * 24 +
+                    trigger.hour +
+                    24;
+                for (; hour <= to; hour += 24) {
+                    due.push({ event, hour });
+                }
+                break;
+            }
+            case 'afterFlag': {
+                const start = timers[event.id];
+                if (start === undefined) break;
+                const hour = start + trigger.hours;
+                if (inSpan(hour)) due.push({ event, hour });
+                break;
+            }
+            default:
+                trigger satisfies never;
+        }
+    }
+
+    // Array.prototype.sort is stable, so ties keep content order.
+    return due.sort((a, b) => a.hour - b.hour);
+}
@@ -0,0 +1,48 @@
+/**
+ * Location exits: walking from one location to another without a map.
+ *
+ * A location lists its exits in order. Each names the location it leads to
+ * and how many hours the walk takes, and is offered only while its conditions
+ * pass and its destination exists.
+ */
+
+import type { Location, LocationExit } from './types/entities';
+import type { ContentRegistry } from './types/registry';
+import type { GameState } from './types/state';
+import { evaluateConditions } from './conditions';
+
+/**
+ * The exits the player can take from a location right now.
+ *
+ * @param location - The location definition
+ * @param state - Current game state
+ * @param registry - Content registry (for destinations and exit conditions)
+ * @returns The available exits, in the order the location lists them
+ */
+export function availableExits(
+    location: Location,
+    state: GameState,
+    registry: ContentRegistry
+): LocationExit[] {
+    return (location.exits ?? []).filter(
+        (exit) =>
+            registry.locations[exit.target] !== undefined &&
+            (!exit.conditions ||
+                evaluateConditions(exit.conditions, state, registry))
+    );
+}
+
+/**
+ * Hours an exit's trip takes. A missing or invalid value counts as no time,
+ * so the game clock always stays a real number.
+ *
+ * @param exit - The exit
+ * @returns Hours of 0 or more
+ */
+export function exitHours(exit: LocationExit): number {
+    return typeof exit.hours === 'number' &&
+        Number.isFinite(exit.hours) &&
+        exit.hours > 0
+        ? exit.hours
+        : 0;
+}
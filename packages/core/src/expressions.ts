@@ -0,0 +1,470 @@
+/**
+ * Arithmetic expressions for variable effects and comparisons.
+ *
+ * A small, safe language: it can only read game state and roll dice, never
+ * call into JavaScript. The parser, the effect processor, the condition
+ * evaluator, and the validator all share this one implementation, so an
+ * expression that validates is exactly the expression that runs.
+ *
+ *   {basePrice} * 2 - {discount}
+ *   stat(player, strength) + 1d6
+ *   max(0, gold - relationship(bartender))
+ *
+ * Reading state is forgiving: a variable or stat that is missing or holds text
+ * counts as 0, and dividing by zero gives 0, so a running game never sees NaN.
+ * The validator reports those cases before they ship.
+ */
+
+import type { GameState } from './types/state';
+import type { ComparisonOperator, ValueExpression } from './types/expressions';
+import { rollInteger } from './random';
+
+/** A parsed expression. */
+export type ExpressionNode =
+    | { kind: 'number'; value: number }
+    | { kind: 'variable'; name: string }
+    | { kind: 'stat'; characterId: string; stat: string }
+    | { kind: 'relationship'; characterId: string }
+    | { kind: 'dice'; count: number; sides: number }
+    | { kind: 'negate'; operand: ExpressionNode }
+    | {
+          kind: 'binary';
+          operator: '+' | '-' | '*' | '/' | '%';
+          left: ExpressionNode;
+          right: ExpressionNode;
+      }
+    | { kind: 'call'; name: 'min' | 'max' | 'floor'; args: ExpressionNode[] };
+
+/** The names an expression reads, for validation and find-references. */
+export interface ExpressionReferences {
+    variables: string[];
+    characters: string[];
+    /** True when the expression rolls dice. */
+    dice: boolean;
+}
+
+/** A computed value and the random state after any dice it rolled. */
+export interface ExpressionResult {
+    value: number;
+    randomState: number;
+}
+
+/** Every comparison a variable condition can make. */
+export const COMPARISON_OPERATORS: readonly ComparisonOperator[] = [
+    '==',
+    '!=',
+    '<',
+    '<=',
+    '>',
+    '>=',
+];
+
+/** The most dice one term may roll, so a typo can't stall the game. */
+const MAX_DICE = 100;
+
+const FUNCTIONS = ['min', 'max', 'floor', 'stat', 'relationship'];
+
+interface Token {
+    type: 'number' | 'dice' | 'name' | 'variable' | 'symbol';
+    text: string;
+    start: number;
+    end: number;
+}
+
+/** Where a variable or character id sits in the source, for renames. */
+interface ReferenceSpan {
+    kind: 'variable' | 'character';
+    id: string;
+    start: number;
+    end: number;
+}
+
+function tokenizeExpression(source: string): Token[] {
+    const tokens: Token[] = [];
+    let index = 0;
+    while (index < source.length) {
+        const rest = source.slice(index);
+        const space = /^\s+/.exec(rest);
+        if (space) {
+            index += space[0].length;
+            continue;
+        }
+
+        const dice = /^\d*d\d+(?![A-Za-z0-9_])/.exec(rest);
+        const number = /^\d+(?:\.\d+)?(?![A-Za-z0-9_])/.exec(rest);
+        const braced = /^\{\s*([A-Za-z0-9_]+)\s*\}/.exec(rest);
+        const name = /^[A-Za-z_][A-Za-z0-9_]*/.exec(rest);
+        let token: Token;
+        if (dice) {
+            token = { type: 'dice', text: dice[0], start: index, end: 0 };
+        } else if (number) {
+            token = { type: 'number', text: number[0], start: index, end: 0 };
+        } else if (braced) {
+            token = {
+                type: 'variable',
+                text: braced[1],
+                start: index + braced[0].indexOf(braced[1]),
+                end: 0,
+            };
+            index += braced[0].length;
+            token.end = token.start + braced[1].length;
+            tokens.push(token);
+            continue;
+        } else if (name) {
+            token = { type: 'name', text: name[0], start: index, end: 0 };
+        } else if ('+-*/%(),'.includes(source[index])) {
+            token = {
+                type: 'symbol',
+                text: source[index],
+                start: index,
+                end: 0,
+            };
+        } else {
+            throw new Error(
+                `Unexpected "${source[index]}" in expression "${source}". Use numbers, {variables}, dice like 2d6, and + - * / %.`
+            );
+        }
+        token.end = index + token.text.length;
+        index = token.end;
+        tokens.push(token);
+    }
+    return tokens;
+}
+
+/**
+ * Recursive-descent parser over the tokens, with the usual precedence:
+ * unary minus, then * / %, then + -.
+ */
+function parseTokens(
+    source: string,
+    tokens: Token[],
+    spans: ReferenceSpan[]
+): ExpressionNode {
+    let position = 0;
+
+    function fail(message: string): never {
+        throw new Error(`${message} in expression "${source}"`);
+    }
+
+    function isSymbol(symbol: string): boolean {
+        const token = tokens[position];
+        return token?.type === 'symbol' && token.text === symbol;
+    }
+
+    function expectSymbol(symbol: string): void {
+        const token = tokens[position];
+        if (!isSymbol(symbol)) {
+            fail(
+                token
+                    ? `Expected "${symbol}" but found "${token.text}"`
+                    : `Expected "${symbol}"`
+            );
+        }
+        position++;
+    }
+
+    function reference(kind: ReferenceSpan['kind'], token: Token): void {
+        spans.push({
+            kind,
+            id: token.text,
+            start: token.start,
+            end: token.end,
+        });
+    }
+
+    function sum(): ExpressionNode {
+        let left = product();
+        while (isSymbol('+') || isSymbol('-')) {
+            const operator = tokens[position++].text as '+' | '-';
+            left = { kind: 'binary', operator, left, right: product() };
+        }
+        return left;
+    }
+
+    function product(): ExpressionNode {
+        let left = unary();
+        while (isSymbol('*') || isSymbol('/') || isSymbol('%')) {
+            const operator = tokens[position++].text as '*' | '/' | '%';
+            left = { kind: 'binary', operator, left, right: unary() };
+        }
+        return left;
+    }
+
+    function unary(): ExpressionNode {
+        if (isSymbol('-')) {
+            position++;
+            return { kind: 'negate', operand: unary() };
+        }
+        return primary();
+    }
+
+    function idArgument(label: string): string {
+        const token = tokens[position];
+        if (token?.type !== 'name') {
+            fail(`${label} must be an id`);
+        }
+        position++;
+        return token.text;
+    }
+
+    function primary(): ExpressionNode {
+        const token = tokens[position];
+        if (!token) return fail('Expected a value at the end');
+        position++;
+
+        if (token.type === 'number') {
+            return { kind: 'number', value: Number(token.text) };
+        }
+        if (token.type === 'dice') {
+            const [count, sides] = token.text.split('d');
+            const node = {
+                kind: 'dice' as const,
+                count: count === '' ? 1 : Number(count),
+                sides: Number(sides),
+            };
+            if (node.count < 1 || node.sides < 1) {
+                fail(`Dice "${token.text}" need at least one die and one side`);
+            }
+            if (node.count > MAX_DICE) {
+                fail(`Dice "${token.text}" roll more than ${MAX_DICE} dice`);
+            }
+            return node;
+        }
+        if (token.type === 'variable') {
+            reference('variable', token);
+            return { kind: 'variable', name: token.text };
+        }
+        if (token.type === 'name') {
+            if (!isSymbol('(')) {
+                reference('variable', token);
+                return { kind: 'variable', name: token.text };
+            }
+            position++;
+            if (token.text === 'stat' || token.text === 'relationship') {
+                reference('character', tokens[position] ?? token);
+                const characterId = idArgument(
+                    `The first argument of ${token.text}()`
+                );
+                if (token.text === 'relationship') {
+                    expectSymbol(')');
+                    return { kind: 'relationship', characterId };
+                }
+                expectSymbol(',');
+                const stat = idArgument('The stat in stat()');
+                expectSymbol(')');
+                return { kind: 'stat', characterId, stat };
+            }
+            if (
+                token.text !== 'min' &&
+                token.text !== 'max' &&
+                token.text !== 'floor'
+            ) {
+                return fail(
+                    `Unknown function "${token.text}". Use ${FUNCTIONS.join(', ')}`
+                );
+            }
+            const args = [sum()];
+            while (isSymbol(',')) {
+                position++;
+                args.push(sum());
+            }
+            expectSymbol(')');
+            if (token.text === 'floor' && args.length !== 1) {
+                fail('floor() takes one value');
+            }
+            return { kind: 'call', name: token.text, args };
+        }
+        if (token.text === '(') {
+            const inner = sum();
+            expectSymbol(')');
+            return inner;
+        }
+        return fail(`Unexpected "${token.text}"`);
+    }
+
+    if (tokens.length === 0) fail('Expected a value');
+    const node = sum();
+    const extra = tokens[position];
+    if (extra) fail(`Unexpected "${extra.text}"`);
+    return node;
+}
+
+const parsed = new Map<string, ExpressionNode>();
+
+/**
+ * Parse expression source into a tree. Throws with a message that names the
+ * expression when the source is not a valid expression.
+ *
+ * @param source - Expression text, e.g. "{basePrice} * 2"
+ * @returns The parsed expression
+ */
+export function parseExpression(source: string): ExpressionNode {
+    const cached = parsed.get(source);
+    if (cached) return cached;
+    const node = parseTokens(source, tokenizeExpression(source), []);
+    parsed.set(source, node);
+    return node;
+}
+
+/** True for a value written as an expression rather than a literal. */
+export function isValueExpression(value: unknown): value is ValueExpression {
+    return (
+        typeof value === 'object' &&
+        value !== null &&
+        typeof (value as ValueExpression).expression === 'string'
+    );
+}
+
+function readNumber(value: unknown): number {
+    return typeof value === 'number' && Number.isFinite(value) ? value : 0;
+}
+
+/**
+ * Compute a value against game state. Plain numbers pass through; dice draw
+ * from state.randomState, and the returned randomState is the generator
+ * after those draws. Conditions use only the value (so checking never
+ * advances the generator); effects store the new random state.
+ *
+ * @param value - A number or an expression
+ * @param state - Current game state
+ * @returns The computed number and the random state after it
+ */
+export function evaluateExpression(
+    value: number | ValueExpression,
+    state: GameState
+): ExpressionResult {
+    let randomState = state.randomState ?? 0;
+    if (!isValueExpression(value)) {
+        return { value: readNumber(value), randomState };
+    }
+
+    const evaluate = (node: ExpressionNode): number => {
+        switch (node.kind) {
+            case 'number':
+                return node.value;
+            case 'variable':
+                return readNumber(state.variables[node.name]);
+            case 'stat': {
+                const stats =
+                    node.characterId === 'player'
+                        ? state.player?.stats
+                        : state.characterState[node.characterId]?.stats;
+                return readNumber(stats?.[node.stat]);
+            }
+            case 'relationship':
+                return readNumber(
+                    state.characterState[node.characterId]?.relationship
+                );
+            case 'dice': {
+                let total = 0;
+                for (let i = 0; i < node.count; i++) {
+                    const roll = rollInteger(randomState, 1, node.sides);
+                    total += roll.value;
+                    randomState = roll.state;
+                }
+                return total;
+            }
+            case 'negate':
+                return -evaluate(node.operand);
+            case 'binary': {
+                const left = evaluate(node.left);
+                const right = evaluate(node.right);
+                switch (node.operator) {
+                    case '+':
+                        return left + right;
+                    case '-':
+                        return left - right;
+                    case '*':
+                        return left * right;
+                    case '/':
+                        return right === 0 ? 0 : left / right;
+                    case '%':
+                        return right === 0 ? 0 : left % right;
+                }
+                return node.operator satisfies never;
+            }
+            case 'call': {
+                const args = node.args.map(evaluate);
+                if (node.name === 'min') return Math.min(...args);
+                if (node.name === 'max') return Math.max(...args);
+                return Math.floor(args[0]);
+            }
+            default:
+                return node satisfies never;
+        }
+    };
+
+    const result = evaluate(parseExpression(value.expression));
+    return { value: Number.isFinite(result) ? result : 0, randomState };
+}
+
+/**
+ * List the variables and characters an expression reads, and whether it
+ * rolls dice.
+ *
+ * @param value - A number or an expression
+ * @returns The names it reads, each listed once
+ */
+export function expressionReferences(
+    value: number | ValueExpression
+): ExpressionReferences {
+    const variables = new Set<string>();
+    const characters = new Set<string>();
+    let dice = false;
+    if (!isValueExpression(value)) {
+        return { variables: [], characters: [], dice };
+    }
+
+    const visit = (node: ExpressionNode): void => {
+        switch (node.kind) {
+            case 'variable':
+                variables.add(node.name);
+                return;
+            case 'stat':
+            case 'relationship':
+                characters.add(node.characterId);
+                return;
+            case 'dice':
+                dice = true;
+                return;
+            case 'negate':
+                visit(node.operand);
+                return;
+            case 'binary':
+                visit(node.left);
+                visit(node.right);
+                return;
+            case 'call':
+                node.args.forEach(visit);
+                return;
+        }
+    };
+    visit(parseExpression(value.expression));
+    return { variables: [...variables], characters: [...characters], dice };
+}
+
+/**
+ * Rename a variable or character inside expression source, leaving the rest
+ * of the text exactly as written.
+ *
+ * @param source - Expression text
+ * @param kind - Which kind of name to rename
+ * @param oldId - The name to replace
+ * @param newId - Its new name
+ * @returns The rewritten source (unchanged when the name isn't used)
+ */
+export function renameInExpression(
+    source: string,
+    kind: 'variable' | 'character',
+    oldId: string,
+    newId: string
+): string {
+    const spans: ReferenceSpan[] = [];
+    parseTokens(source, tokenizeExpression(source), spans);
+    let result = source;
+    for (const span of spans.reverse()) {
+        if (span.kind !== kind || span.id !== oldId) continue;
+        result = result.slice(0, span.start) + newId + result.slice(span.end);
+    }
+    return result;
+}
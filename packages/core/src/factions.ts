@@ -0,0 +1,71 @@
+/**
+ * Factions and named standing tiers.
+ *
+ * A faction is a group, such as the city guard, whose members share one
+ * reputation with the player. Reputation lives in the game state per faction,
+ * starting at the faction's `reputation` (0 by default). Tiers give a
+ * relationship or reputation value a name the player sees, such as
+ * "Friendly"; a character without its own tiers uses its first faction's.
+ */
+
+import type { Character, StandingTier } from './types/entities';
+import type { ContentRegistry } from './types/registry';
+
+/**
+ * The tier a value falls in: the tier with the highest `min` the value
+ * reaches, or the lowest tier when the value is below them all.
+ *
+ * @param value - A relationship or reputation value
+ * @param tiers - Tiers in any order
+ * @returns The tier, or undefined when there are no tiers
+ */
+export function standingTier(
+    value: number,
+    tiers: StandingTier[] | undefined
+): StandingTier | undefined {
+    if (!tiers || tiers.length === 0) return undefined;
+
+    const sorted = [...tiers].sort((a, b) => a.min - b.min);
+    let tier = sorted[0];
+    for (const candidate of sorted) {
+        if (value >= candidate.min) tier = candidate;
+    }
+    return tier;
+}
+
+/**
+ * The tiers that name a character's relationship value: its own, or else
+ * those of the first faction it belongs to that has tiers.
+ *
+ * @param character - The character definition
+ * @param registry - Content registry with the factions
+ * @returns The tiers, or undefined when neither has any
+ */
+export function relationshipTiers(
+    character: Character,
+    registry: ContentRegistry
+): StandingTier[] | undefined {
+    if (character.tiers && character.tiers.length > 0) return character.tiers;
+
+    for (const factionId of character.factions ?? []) {
+        const tiers = registry.factions?.[factionId]?.tiers;
+        if (tiers && tiers.length > 0) return tiers;
+    }
+    return undefined;
+}
+
+/**
+ * Starting reputation for every faction, for a new game.
+ *
+ * @param registry - Content registry with the factions
+ * @returns Faction ID -> starting reputation
+ */
+export function startingReputation(
+    registry: ContentRegistry
+): Record<string, number> {
+    const reputation: Record<string, number> = {};
+    for (const faction of Object.values(registry.factions ?? {})) {
+        reputation[faction.id] = faction.reputation ?? 0;
+    }
+    return reputation;
+}
@@ -16,23 +16,41 @@ export { isValidIdentifier } from './identifiers';
 // Content Entities
 export type {
     Location,
+    LocationExit,
+    LocationDescription,
     Character,
+    ScheduleEntry,
+    Shop,
     PlayerCharacter,
     CharacterStat,
     CharacterStats,
     StatValue,
     Item,
+    ItemUse,
     Map,
     MapLocation,
     Dialogue,
     DialogueNode,
     ConditionalBranch,
     Choice,
+    DialogueCall,
     Quest,
     QuestStage,
     JournalEntry,
     Interlude,
+    GameEvent,
+    EventTrigger,
+    StandingTier,
+    Faction,
+    FlagDeclaration,
+    VariableType,
+    VariableDeclaration,
+    VariableSchema,
     ShellConfig,
+    CalendarWeekday,
+    CalendarMonth,
+    CalendarSeason,
+    CalendarConfig,
     GameConfig,
 } from './types/entities';
 
@@ -64,7 +82,10 @@ export type {
     VariableEqualsCondition,
     VariableGreaterThanCondition,
     VariableLessThanCondition,
+    VariableCompareCondition,
     AtLocationCondition,
+    VisitedLocationCondition,
+    VisitCountCondition,
     QuestAtStageCondition,
     QuestStatusCondition,
     QuestStatus,
@@ -75,9 +96,17 @@ export type {
     CharacterStatLessThanCondition,
     RelationshipAboveCondition,
     RelationshipBelowCondition,
+    ReputationAboveCondition,
+    ReputationBelowCondition,
     TimeIsCondition,
+    DayOfWeekIsCondition,
+    SeasonIsCondition,
+    DayAtLeastCondition,
     ItemAtCondition,
     RollCondition,
+    AnyOfCondition,
+    AllOfCondition,
+    NotCondition,
 } from './types/conditions';
 
 // Effects
@@ -96,12 +125,16 @@ export type {
     SetTrackedQuestEffect,
     AddJournalEntryEffect,
     StartDialogueEffect,
+    StartShopEffect,
     EndDialogueEffect,
     SetCharacterLocationEffect,
+    ClearCharacterLocationEffect,
     AddToPartyEffect,
     RemoveFromPartyEffect,
     SetRelationshipEffect,
     AddRelationshipEffect,
+    SetReputationEffect,
+    AddReputationEffect,
     SetCharacterStatEffect,
     AddCharacterStatEffect,
     SetMapEnabledEffect,
@@ -113,8 +146,76 @@ export type {
     RollEffect,
 } from './types/effects';
 
+// Arithmetic expressions (SET/ADD variable values and comparisons)
+export type { ValueExpression, ComparisonOperator } from './types/expressions';
+export {
+    COMPARISON_OPERATORS,
+    parseExpression,
+    evaluateExpression,
+    expressionReferences,
+    isValueExpression,
+    renameInExpression,
+} from './expressions';
+export type {
+    ExpressionNode,
+    ExpressionReferences,
+    ExpressionResult,
+} from './expressions';
+
 export { getQuestStatus } from './quests';
 
+// Inventory counts
+export { itemCount } from './inventory';
+
+// Character schedules
+export { scheduledLocation, applySchedules } from './schedules';
+
+// Declared flags and variables
+export { clampVariable, fitsVariableType, declaredDefaults } from './variables';
+
+// Factions and standing tiers
+export {
+    standingTier,
+    relationshipTiers,
+    startingReputation,
+} from './factions';
+
+// Calendar
+export { calendarDate, addHours } from './calendar';
+export type { CalendarDate } from './calendar';
+
+// Shops
+export {
+    DEFAULT_CURRENCY,
+    shopCurrency,
+    buyPrice,
+    sellPrice,
+    stockCount,
+} from './shops';
+
+// Item uses
+export {
+    isUseTargetHere,
+    candidateItemUses,
+    availableItemUses,
+} from './item-uses';
+
+// Location exits
+export { availableExits, exitHours } from './exits';
+
+// Timed events
+export { absoluteHour, dueEvents, updateEventTimers } from './events';
+export type { DueEvent } from './events';
+
+// Seeded random numbers (rolls)
+export {
+    createRandomState,
+    seedRandomState,
+    nextRandom,
+    rollInteger,
+} from './random';
+export type { RandomDraw } from './random';
+
 // Game State
 export type {
     GameState,
@@ -122,6 +223,8 @@ export type {
     PlayerCharacterState,
     PlayerProfileInput,
     DialogueState,
+    DialogueFrame,
+    DialogueLogEntry,
     PlayerNote,
     Time,
 } from './types/state';
@@ -130,20 +233,38 @@ export type {
 export type {
     Snapshot,
     SnapshotLocation,
+    SnapshotExit,
     SnapshotCharacter,
+    SnapshotFaction,
+    SnapshotDate,
     SnapshotPlayerCharacter,
     SnapshotItem,
+    SnapshotItemUse,
     SnapshotChoice,
     SnapshotDialogue,
+    SnapshotDialogueLogEntry,
     SnapshotQuest,
     SnapshotJournalEntry,
     SnapshotMapLocation,
     SnapshotMap,
     SnapshotInterlude,
+    SnapshotShop,
+    SnapshotShopItem,
 } from './types/snapshot';
 
 // Save Data
-export type { SaveData } from './types/save';
+export type {
+    SaveData,
+    SaveMigration,
+    SaveRepair,
+    SaveLoadReport,
+} from './types/save';
+export {
+    CURRENT_SAVE_VERSION,
+    SAVE_MIGRATIONS,
+    migrateSave,
+    repairGameState,
+} from './save';
 
 // Content Registry
 export type { ContentRegistry, LocaleData } from './types/registry';
@@ -153,13 +274,30 @@ export {
     evaluateCondition,
     evaluateConditions,
     describeConditionValues,
+    explainConditionFailure,
+    leafConditions,
+    conditionUsesRoll,
 } from './conditions';
 
 // Effect Processors
 export { applyEffect, applyEffects } from './effects';
 
 // Localization
-export { resolveText } from './localization';
+export {
+    resolveText,
+    localeChain,
+    localeDataFor,
+    sourceLocaleOf,
+} from './localization';
+export type { TextDateValues, MissingLocaleKey } from './localization';
+export {
+    formatMessage,
+    parseMessage,
+    messageArguments,
+    hasMessageSyntax,
+} from './localization/messages';
+export type { MessagePart, MessageValues } from './localization/messages';
+export { PSEUDO_LOCALE, pseudoLocalize } from './localization/pseudo';
 
 // Dialogue text formatting
 export { parseRichText } from './rich-text';
@@ -172,6 +310,24 @@ export { buildSnapshot, buildUIStrings, UI_DEFAULTS } from './snapshot';
 export { Engine, createInitialState } from './engine';
 export type { ChoiceVisibility } from './engine';
 
+// Story coverage (which nodes, choices, branches and interludes were played)
+export {
+    COVERAGE_VERSION,
+    CoverageCollector,
+    emptyCoverage,
+    mergeCoverage,
+    parseCoverage,
+    summarizeCoverage,
+    coveragePercent,
+} from './coverage';
+export type {
+    StoryCoverage,
+    DialogueCoverage,
+    CoverageCount,
+    CoverageSummary,
+    DialogueCoverageSummary,
+} from './coverage';
+
 // Debug trace (for tooling: playtest, state inspector, debug trace)
 export type {
     TraceSink,
@@ -179,10 +335,13 @@ export type {
     NodeEnterEvent,
     ConditionEvent,
     ConditionContext,
+    FailedCondition,
     EffectEvent,
     StateDelta,
     TransitionEvent,
     ChoiceFilteredEvent,
+    ItemUseEvent,
+    InterludeEvent,
     TraceErrorEvent,
 } from './types/trace';
 
@@ -0,0 +1,23 @@
+/**
+ * Item quantities in the player's inventory.
+ *
+ * The inventory lists each carried item once. How many of it the player
+ * carries lives in `itemCounts`; an item without an entry counts as one, so
+ * states written before counts existed still read correctly.
+ */
+
+import type { GameState } from './types/state';
+
+/**
+ * How many of an item the player carries.
+ *
+ * @param state - Current game state
+ * @param itemId - The item to count
+ * @returns The count, or 0 when the item is not in the inventory
+ */
+export function itemCount(state: GameState, itemId: string): number {
+    if (!state.inventory.includes(itemId)) {
+        return 0;
+    }
+    return state.itemCounts?.[itemId] ?? 1;
+}
@@ -0,0 +1,90 @@
+/**
+ * Item uses: what the player can do with a carried item.
+ *
+ * An item lists its uses in order. A use without a target is used on its own
+ * (read the letter, drink the potion). A use with a target is used on a
+ * character or location, and is offered only while the target is here: the
+ * current location, a character at it, or a party member. Of the uses that
+ * share a target, the first whose conditions pass is the one that runs.
+ */
+
+import type { Item, ItemUse } from './types/entities';
+import type { ContentRegistry } from './types/registry';
+import type { GameState } from './types/state';
+import { evaluateConditions } from './conditions';
+
+/**
+ * Whether the player can use an item on a target right now.
+ *
+ * @param targetId - Character or location ID
+ * @param state - Current game state
+ * @returns True for the current location, a character at it, or a party member
+ */
+export function isUseTargetHere(targetId: string, state: GameState): boolean {
+    if (targetId === state.currentLocation) {
+        return true;
+    }
+    const character = state.characterState[targetId];
+    return (
+        character !== undefined &&
+        (character.inParty || character.location === state.currentLocation)
+    );
+}
+
+/**
+ * The uses that could run when the player uses an item on a target, in
+ * order, before their conditions are checked. Empty when the item is not
+ * carried or the target is not here. A use that starts a dialogue waits
+ * until the current conversation ends.
+ *
+ * @param item - The item definition
+ * @param targetId - Character or location ID, or null for the item on its own
+ * @param state - Current game state
+ * @returns The candidate uses
+ */
+export function candidateItemUses(
+    item: Item,
+    targetId: string | null,
+    state: GameState
+): ItemUse[] {
+    if (!state.inventory.includes(item.id)) {
+        return [];
+    }
+    if (targetId !== null && !isUseTargetHere(targetId, state)) {
+        return [];
+    }
+    return (item.uses ?? []).filter(
+        (use) =>
+            (use.target ?? null) === targetId &&
+            !(use.dialogue && state.dialogueState !== null)
+    );
+}
+
+/**
+ * The uses the player can pick for an item right now: for each target, the
+ * first use whose conditions pass.
+ *
+ * @param item - The item definition
+ * @param state - Current game state
+ * @param registry - Content registry (for use conditions)
+ * @returns The available uses, in the order the item lists them
+ */
+export function availableItemUses(
+    item: Item,
+    state: GameState,
+    registry: ContentRegistry
+): ItemUse[] {
+    const targets = new Set((item.uses ?? []).map((use) => use.target ?? null));
+    const available: ItemUse[] = [];
+    for (const target of targets) {
+        const use = candidateItemUses(item, target, state).find(
+            (candidate) =>
+                !candidate.conditions ||
+                evaluateConditions(candidate.conditions, state, registry)
+        );
+        if (use) {
+            available.push(use);
+        }
+    }
+    return available;
+}
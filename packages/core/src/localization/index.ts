@@ -5,8 +5,10 @@
  * Authors use @keys in content files, and the engine resolves them when building snapshots.
  */
 
-import type { LocaleData } from '../types/registry';
+import type { ContentRegistry, LocaleData } from '../types/registry';
 import type { StatValue } from '../types/entities';
+import { formatMessage, hasMessageSyntax, messageArguments } from './messages';
+import { PSEUDO_LOCALE, pseudoLocalize } from './pseudo';
 
 export interface TextCharacterValues {
     name: string;
@@ -19,15 +21,110 @@ export interface TextCharacterValues {
 
 export type TextCharacterMap = Record<string, TextCharacterValues>;
 
+/** Localized calendar values for the {date}, {weekday}, and {season} placeholders. */
+export interface TextDateValues {
+    date: string;
+    weekday: string;
+    season: string;
+}
+
+/** A @key that neither the locale nor any of its fallbacks has. */
+export interface MissingLocaleKey {
+    /** The key, without its @ */
+    key: string;
+    /** The locale the game was showing */
+    locale: string;
+    /** The dialogue whose line or choice used the key, when one did */
+    dialogueId?: string;
+    /** The node of that dialogue */
+    nodeId?: string;
+}
+
+/**
+ * The locales a key is looked up in, most specific first: the locale itself,
+ * then its fallbacks, each followed by its own fallbacks. A locale is listed
+ * once even when the chains loop.
+ *
+ * @example
+ * ```ts
+ * localeChain("pt-BR", { "pt-BR": ["pt"], pt: ["en"] }) // ["pt-BR", "pt", "en"]
+ * ```
+ */
+export function localeChain(
+    locale: string,
+    fallbacks?: Record<string, string[]>
+): string[] {
+    const chain: string[] = [];
+    const visit = (code: string) => {
+        if (chain.includes(code)) return;
+        chain.push(code);
+        for (const next of fallbacks?.[code] ?? []) visit(next);
+    };
+    visit(locale);
+    return chain;
+}
+
+/**
+ * The locale the game is written in, which translations are made from:
+ * English, or the first locale by name when the project has no English.
+ *
+ * @param registry - Registry with the locales
+ * @returns The source locale, or null when the project has no locales
+ */
+export function sourceLocaleOf(
+    registry: Pick<ContentRegistry, 'locales'>
+): string | null {
+    const localeIds = Object.keys(registry.locales).sort();
+    if (localeIds.length === 0) return null;
+    return localeIds.includes('en') ? 'en' : localeIds[0];
+}
+
+/**
+ * A locale's strings with its fallback chain filled in: each key comes from
+ * the first locale in the chain that has it. Without fallbacks this is the
+ * locale's own data. The pseudo-locale reads the source locale's strings
+ * (see sourceLocaleOf).
+ *
+ * @param registry - Registry with the locales and their fallbacks
+ * @param locale - Language code to build
+ */
+export function localeDataFor(
+    registry: Pick<ContentRegistry, 'locales' | 'localeFallbacks'>,
+    locale: string
+): LocaleData {
+    if (locale === PSEUDO_LOCALE) {
+        return localeDataFor(registry, sourceLocaleOf(registry) ?? 'en');
+    }
+
+    const chain = localeChain(locale, registry.localeFallbacks);
+    if (chain.length === 1) return registry.locales[locale] ?? {};
+
+    const data: LocaleData = {};
+    for (const code of chain.reverse()) {
+        Object.assign(data, registry.locales[code]);
+    }
+    return data;
+}
+
 /**
  * Resolve a localization key to a translated string.
  *
  * If the text starts with '@', looks up the key (without @) in the locale data.
  * If the key is not found, returns the key itself as a fallback.
  * If the text doesn't start with '@', returns it as-is (inline text).
+ * Then formats plural and select blocks (see ./messages) with the locale's
+ * plural rules, and fills {character.name}-style, {variable}, and calendar
+ * placeholders; a variable with the same name as a calendar placeholder wins.
+ * In the pseudo-locale (see ./pseudo) the result is pseudo-localized, except
+ * for a missing key, which stays as it is.
  *
  * @param text - Text that may be a @key or inline text
  * @param localeData - Locale dictionary for the current language
+ * @param variables - Values for {variable} placeholders
+ * @param characters - Values for {character.name}-style placeholders
+ * @param date - Values for {date}, {weekday}, and {season}
+ * @param locale - Language code for plural rules and the pseudo-locale
+ * (default: "en")
  * @returns Resolved string
  *
  * @example
@@ -41,49 +138,134 @@ export function resolveText(
     text: string,
     localeData: LocaleData,
     variables?: Record<string, number | string>,
-    characters?: TextCharacterMap
+    characters?: TextCharacterMap,
+    date?: TextDateValues,
+    locale = 'en'
 ): string {
     // Resolve @localization key first
     let resolved: string;
+    let missing = false;
     if (text.startsWith('@')) {
         const key = text.slice(1);
+        missing = localeData[key] === undefined;
         resolved = localeData[key] ?? text;
     } else {
         resolved = text;
     }
 
+    if (hasMessageSyntax(resolved)) {
+        resolved = formatMessage(
+            resolved,
+            (argument) => {
+                const path = CHARACTER_PATH.exec(argument);
+                if (path) {
+                    return characterValue(
+                        characters?.[path[1]],
+                        path[2],
+                        path[3],
+                        localeData
+                    );
+                }
+                return (
+                    variables?.[argument] ??
+                    date?.[argument as keyof TextDateValues]
+                );
+            },
+            locale
+        );
+    }
+
     if (characters && resolved.includes('{')) {
         resolved = resolved.replace(
             /\{(\w+)\.(name|title|biography|stats\.(\w+))\}/g,
             (placeholder, characterId, path, stat) => {
-                const character = characters[characterId];
-                if (!character) return placeholder;
-
-                const value =
-                    stat === undefined
-                        ? character[path as 'name' | 'title' | 'biography']
-                        : character.stats[stat];
-                if (value === undefined) return placeholder;
-
-                if (
-                    typeof value === 'string' &&
-                    value.startsWith('@') &&
-                    (stat !== undefined || !character.literalProfile)
-                ) {
-                    return localeData[value.slice(1)] ?? value;
-                }
-                return String(value);
+                const value = characterValue(
+                    characters[characterId],
+                    path,
+                    stat,
+                    localeData
+                );
+                return value === undefined ? placeholder : String(value);
             }
         );
     }
 
-    // Substitute {varName} placeholders with variable values
-    if (variables && resolved.includes('{')) {
+    // Substitute {varName} placeholders with variable values, then the
+    // calendar's {date}, {weekday}, and {season}
+    if ((variables || date) && resolved.includes('{')) {
         resolved = resolved.replace(/\{(\w+)\}/g, (_, name) => {
-            const val = variables[name];
+            const val =
+                variables?.[name] ?? date?.[name as keyof TextDateValues];
             return val !== undefined ? String(val) : `{${name}}`;
         });
     }
 
-    return resolved;
+    return locale === PSEUDO_LOCALE && !missing
+        ? pseudoLocalize(resolved)
+        : resolved;
+}
+
+/**
+ * The values of the variables a text reads, in any of the game's languages.
+ * The dialogue log keeps them with each line, so the line reads the same
+ * later even in another language.
+ *
+ * @param text - Text as authored (a localization key or literal)
+ * @param registry - Registry with the locales
+ * @param variables - Current variable values
+ * @returns The variables the text reads and their current values
+ */
+export function variablesInText(
+    text: string,
+    registry: Pick<ContentRegistry, 'locales'>,
+    variables: Record<string, number | string>
+): Record<string, number | string> {
+    const versions = text.startsWith('@')
+        ? Object.values(registry.locales).map((data) => data[text.slice(1)])
+        : [text];
+
+    const values: Record<string, number | string> = {};
+    for (const version of versions) {
+        if (version === undefined || !version.includes('{')) continue;
+        let names: string[];
+        try {
+            names = messageArguments(version);
+        } catch {
+            // A malformed message reads no values; validation reports it
+            continue;
+        }
+        for (const name of names) {
+            if (variables[name] !== undefined) values[name] = variables[name];
+        }
+    }
+    return values;
+}
+
+// A character field argument: id.name, id.title, id.biography, or id.stats.key
+const CHARACTER_PATH = /^(\w+)\.(name|title|biography|stats\.(\w+))$/;
+
+/**
+ * A character's field or stat for text, with @keys in it localized.
+ * Player-entered profile fields are never treated as keys.
+ */
+function characterValue(
+    character: TextCharacterValues | undefined,
+    path: string,
+    stat: string | undefined,
+    localeData: LocaleData
+): StatValue | undefined {
+    if (!character) return undefined;
+
+    const value =
+        stat === undefined
+            ? character[path as 'name' | 'title' | 'biography']
+            : character.stats[stat];
+    if (
+        typeof value === 'string' &&
+        value.startsWith('@') &&
+        (stat !== undefined || !character.literalProfile)
+    ) {
+        return localeData[value.slice(1)] ?? value;
+    }
+    return value;
 }
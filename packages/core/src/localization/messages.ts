@@ -0,0 +1,333 @@
+/**
+ * Plural and select messages in localized text.
+ *
+ * Locale values can choose their wording from a value, in the ICU
+ * MessageFormat style:
+ *
+ *   You have {gold, plural, =0 {no coins} one {# coin} other {# coins}}.
+ *   {player.stats.gender, select, female {She} male {He} other {They}} waves.
+ *
+ * A plural picks its branch by exact value (=0) first, then by the current
+ * language's plural category (zero, one, two, few, many, other); `#` inside
+ * it shows the number. A select picks the branch named after the value.
+ * Both fall back to `other`, which every message must have. Branches can
+ * hold plain {placeholders} and further plural or select blocks.
+ */
+
+/** A piece of a parsed message. */
+export type MessagePart =
+    | string
+    | { type: 'pound' }
+    | {
+          type: 'plural';
+          argument: string;
+          /** Subtracted from the value before choosing a category and showing # */
+          offset: number;
+          branches: Record<string, MessagePart[]>;
+      }
+    | {
+          type: 'select';
+          argument: string;
+          branches: Record<string, MessagePart[]>;
+      };
+
+/** Looks up the value of a message argument, or undefined when it has none. */
+export type MessageValues = (
+    argument: string
+) => number | string | boolean | undefined;
+
+const PLURAL_CATEGORIES = new Set([
+    'zero',
+    'one',
+    'two',
+    'few',
+    'many',
+    'other',
+]);
+
+// The start of a plural or select block: {name, plural, ...
+const BLOCK_START = /^\{\s*([\w.]+)\s*,\s*(plural|select)\s*,/;
+
+// A plain {placeholder}: a variable, a calendar value, or character.field
+const PLACEHOLDER = /\{([\w.]+)\}/g;
+
+/**
+ * True when text has a plural or select block, so it needs formatting.
+ *
+ * @param text - Text to check
+ * @returns Whether the text contains a plural or select block
+ */
+export function hasMessageSyntax(text: string): boolean {
+    return /\{\s*[\w.]+\s*,\s*(plural|select)\s*,/.test(text);
+}
+
+/**
+ * Parse text with plural and select blocks.
+ *
+ * Text outside the blocks, including plain {placeholders}, is kept as it is.
+ *
+ * @param text - Message text
+ * @returns The message as a list of parts
+ * @throws When a block is malformed, for example without an `other` branch
+ */
+export function parseMessage(text: string): MessagePart[] {
+    return new MessageParser(text).parseParts(false, false);
+}
+
+/**
+ * Format text with plural and select blocks.
+ *
+ * Text that is not a valid message is returned unchanged, so a typo in one
+ * translation never breaks the screen; validation reports it instead.
+ *
+ * @param text - Message text
+ * @param values - Looks up the value of each argument
+ * @param locale - Language code whose plural rules apply, such as "en" or "pl"
+ * @returns The formatted text
+ *
+ * @example
+ * ```ts
+ * formatMessage('{n, plural, one {# coin} other {# coins}}', () => 3, 'en')
+ * // "3 coins"
+ * ```
+ */
+export function formatMessage(
+    text: string,
+    values: MessageValues,
+    locale: string
+): string {
+    if (!hasMessageSyntax(text)) return text;
+    let parts: MessagePart[];
+    try {
+        parts = parseMessage(text);
+    } catch {
+        return text;
+    }
+    return renderParts(parts, values, pluralRules(locale), undefined);
+}
+
+/**
+ * The names of the arguments a message reads, from both its plural and
+ * select blocks and its plain {placeholders}, sorted.
+ *
+ * @param text - Message text
+ * @returns Argument names, such as ["gold", "player.name"]
+ * @throws When a block is malformed
+ */
+export function messageArguments(text: string): string[] {
+    const names = new Set<string>();
+    const collect = (parts: MessagePart[]) => {
+        for (const part of parts) {
+            if (typeof part === 'string') {
+                for (const match of part.matchAll(PLACEHOLDER)) {
+                    names.add(match[1]);
+                }
+            } else if (part.type !== 'pound') {
+                names.add(part.argument);
+                for (const branch of Object.values(part.branches)) {
+                    collect(branch);
+                }
+            }
+        }
+    };
+    collect(parseMessage(text));
+    return [...names].sort();
+}
+
+class MessageParser {
+    private pos = 0;
+
+    constructor(private readonly text: string) {}
+
+    /**
+     * Parse text up to the end, or up to the `}` that closes a branch when
+     * `inBranch` is set. `inPlural` turns `#` into the plural's number.
+     */
+    parseParts(inBranch: boolean, inPlural: boolean): MessagePart[] {
+        const parts: MessagePart[] = [];
+        let literal = '';
+        const flush = () => {
+            if (literal) parts.push(literal);
+            literal = '';
+        };
+
+        while (this.pos < this.text.length) {
+            const char = this.text[this.pos];
+            if (char === '}' && inBranch) {
+                flush();
+                return parts;
+            }
+            if (char === '#' && inPlural) {
+                flush();
+                parts.push({ type: 'pound' });
+                this.pos++;
+                continue;
+            }
+            if (char === '{') {
+                const start = BLOCK_START.exec(this.text.slice(this.pos));
+                if (start) {
+                    flush();
+                    this.pos += start[0].length;
+                    parts.push(
+                        this.parseBlock(
+                            start[1],
+                            start[2] as 'plural' | 'select',
+                            inPlural
+                        )
+                    );
+                    continue;
+                }
+                // A plain {placeholder}: keep it, braces and all
+                const close = this.text.indexOf('}', this.pos);
+                if (close !== -1) {
+                    literal += this.text.slice(this.pos, close + 1);
+                    this.pos = close + 1;
+                    continue;
+                }
+            }
+            literal += char;
+            this.pos++;
+        }
+
+        flush();
+        return parts;
+    }
+
+    private parseBlock(
+        argument: string,
+        type: 'plural' | 'select',
+        inPlural: boolean
+    ): MessagePart {
+        let offset = 0;
+        if (type === 'plural') {
+            this.skipSpace();
+            const offsetMatch = /^offset:\s*(\d+)/.exec(
+                this.text.slice(this.pos)
+            );
+            if (offsetMatch) {
+                offset = Number(offsetMatch[1]);
+                this.pos += offsetMatch[0].length;
+            }
+        }
+
+        const branches: Record<string, MessagePart[]> = {};
+        for (;;) {
+            this.skipSpace();
+            if (this.pos >= this.text.length) {
+                throw new Error(
+                    `"${argument}" ${type} is missing its closing "}"`
+                );
+            }
+            if (this.text[this.pos] === '}') {
+                this.pos++;
+                break;
+            }
+
+            const keyMatch = /^(=\d+|[\w-]+)/.exec(this.text.slice(this.pos));
+            if (!keyMatch) {
+                throw new Error(
+                    `"${argument}" ${type} has text where a branch name belongs`
+                );
+            }
+            const key = keyMatch[1];
+            if (
+                type === 'plural' &&
+                !key.startsWith('=') &&
+                !PLURAL_CATEGORIES.has(key)
+            ) {
+                throw new Error(
+                    `"${argument}" plural has unknown category "${key}" (use zero, one, two, few, many, other, or =N)`
+                );
+            }
+            if (branches[key]) {
+                throw new Error(
+                    `"${argument}" ${type} has more than one "${key}" branch`
+                );
+            }
+            this.pos += key.length;
+            this.skipSpace();
+            if (this.text[this.pos] !== '{') {
+                throw new Error(
+                    `"${argument}" ${type} branch "${key}" needs its text in {}`
+                );
+            }
+            this.pos++;
+            branches[key] = this.parseParts(
+                true,
+                inPlural || type === 'plural'
+            );
+            if (this.text[this.pos] !== '}') {
+                throw new Error(
+                    `"${argument}" ${type} branch "${key}" is missing its closing "}"`
+                );
+            }
+            this.pos++;
+        }
+
+        if (!branches.other) {
+            throw new Error(`"${argument}" ${type} needs an "other" branch`);
+        }
+        return type === 'plural'
+            ? { type, argument, offset, branches }
+            : { type, argument, branches };
+    }
+
+    private skipSpace(): void {
+        while (/\s/.test(this.text[this.pos] ?? '')) this.pos++;
+    }
+}
+
+function renderParts(
+    parts: MessagePart[],
+    values: MessageValues,
+    rules: Intl.PluralRules,
+    pound: string | undefined
+): string {
+    let out = '';
+    for (const part of parts) {
+        if (typeof part === 'string') {
+            out += part;
+        } else if (part.type === 'pound') {
+            out += pound ?? '#';
+        } else if (part.type === 'plural') {
+            const value = values(part.argument);
+            const number = Number(value);
+            let branch = part.branches.other;
+            let shown = `{${part.argument}}`;
+            if (value !== undefined && Number.isFinite(number)) {
+                shown = String(number - part.offset);
+                branch =
+                    part.branches[`=${number}`] ??
+                    part.branches[rules.select(number - part.offset)] ??
+                    part.branches.other;
+            }
+            out += renderParts(branch, values, rules, shown);
+        } else {
+            const value = values(part.argument);
+            const key = value === undefined ? 'other' : String(value);
+            out += renderParts(
+                part.branches[key] ?? part.branches.other,
+                values,
+                rules,
+                pound
+            );
+        }
+    }
+    return out;
+}
+
+const rulesByLocale = new Map<string, Intl.PluralRules>();
+
+/** Plural rules for a language, or English rules for an unknown code. */
+function pluralRules(locale: string): Intl.PluralRules {
+    let rules = rulesByLocale.get(locale);
+    if (!rules) {
+        try {
+            rules = new Intl.PluralRules(locale);
+        } catch {
+            rules = new Intl.PluralRules('en');
+        }
+        rulesByLocale.set(locale, rules);
+    }
+    return rules;
+}
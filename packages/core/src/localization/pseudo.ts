@@ -0,0 +1,60 @@
+/**
+ * The built-in pseudo-locale.
+ *
+ * Selecting it shows the source locale's strings (English, or the first
+ * locale by name without English) with their letters accented, padded to
+ * about 40% longer, and wrapped in brackets. Text that reaches the screen
+ * without the brackets never went through the locale, so it is hard-coded,
+ * and the padding shows which layouts overflow when a translation runs long.
+ * Rich text markup and {placeholders} are left as they are.
+ */
+
+/** Language code of the pseudo-locale; it reads the source locale's strings. */
+export const PSEUDO_LOCALE = 'en-XA';
+
+const PLAIN = Array.from(
+    'abcdefghijklmnopqrstuvwxyzABCDEFGHIJKLMNOPQRSTUVWXYZ'
+);
+const ACCENTED = Array.from(
+    'áƀçðéƒĝĥíĵķļɱñóþǫŕšţúṽŵẋýžÅƁÇÐÉƑĜĤÎĴĶĻṀÑÖÞǪŔŠŢÛṼŴẊÝŽ'
+);
+const ACCENTS = new Map(
+    PLAIN.map((letter, index) => [letter, ACCENTED[index]])
+);
+
+// Markup copied unchanged: an escape, a color opening, or a {placeholder}
+const MARKUP = /\\.|c[0-9a-fA-F]{6}\[|\{[^{}]*\}/sy;
+
+/** How much longer the padding makes each string. */
+const EXPANSION = 0.4;
+
+/**
+ * Pseudo-localize resolved text.
+ *
+ * @example
+ * ```ts
+ * pseudoLocalize("Hello, {name}!") // "[Ĥéļļó, {name}!~~~~]"
+ * ```
+ */
+export function pseudoLocalize(text: string): string {
+    if (text.trim() === '') return text;
+
+    let result = '';
+    let length = 0;
+    let index = 0;
+    while (index < text.length) {
+        MARKUP.lastIndex = index;
+        const markup = MARKUP.exec(text);
+        if (markup) {
+            result += markup[0];
+            index += markup[0].length;
+            continue;
+        }
+        const character = text[index];
+        result += ACCENTS.get(character) ?? character;
+        length++;
+        index++;
+    }
+
+    return `[${result}${'~'.repeat(Math.ceil(length * EXPANSION))}]`;
+}
@@ -255,6 +255,8 @@ const NON_SPEAKER_KEYWORDS = new Set([
     'IF',
     'END',
     'GOTO',
+    'CALL',
+    'RETURN',
     'REQUIRE',
     'TRIGGER',
     'VOICE',
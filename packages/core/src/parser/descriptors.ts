@@ -34,11 +34,18 @@ export type ArgKind =
     | 'journalId'
     | 'dialogueId'
     | 'interludeId'
+    | 'factionId'
+    | 'weekday' // weekday ID from the game.yaml calendar
+    | 'season' // season ID from the game.yaml calendar
     | 'number'
-    | 'value' // number or string (variableEquals / setVariable)
+    | 'value' // number, string, or expression (variableEquals / setVariable)
+    | 'expression' // number or arithmetic expression, e.g. {price} * 2
+    | 'operator' // comparison: ==, !=, <, <=, >, >=
     | 'hours'
     | 'boolean'
-    | 'text'; // display text: @key, "literal", or plain words (NOTIFY only)
+    | 'text' // display text: @key, "literal", or plain words (NOTIFY only)
+    | 'condition' // one nested condition in parentheses (not)
+    | 'conditions'; // nested conditions, each in parentheses (anyOf / allOf)
 
 /**
  * Which `ContentRegistry` collection a reference argument draws from, if any.
@@ -53,6 +60,7 @@ export const REFERENCE_KIND_TARGET: Partial<Record<ArgKind, string>> = {
     journalId: 'journalEntries',
     dialogueId: 'dialogues',
     interludeId: 'interludes',
+    factionId: 'factions',
 };
 
 /** One argument of a condition or effect. */
@@ -63,7 +71,7 @@ export interface ArgDescriptor {
     label: string;
     /** Control/reference kind. */
     kind: ArgKind;
-    /** Optional args may be left empty (only `playMusic.track` today). */
+    /** Optional args may be left empty (e.g. `playMusic.track`, item counts). */
     optional?: boolean;
     /** The reserved player target is valid for this character argument. */
     allowsPlayer?: boolean;
@@ -76,12 +84,14 @@ export type DescriptorGroup =
     | 'Inventory'
     | 'Quests'
     | 'Characters'
+    | 'Factions'
     | 'Location & time'
     | 'Journal'
     | 'Dialogue flow'
     | 'Media'
     | 'Map'
-    | 'Roll';
+    | 'Roll'
+    | 'Logic';
 
 export interface ConditionDescriptor {
     /** The discriminant on the `Condition` union. */
@@ -112,7 +122,7 @@ export interface EffectDescriptor {
     keyword: string;
 }
 
-/** All 18 conditions, in builder display order. */
+/** All 30 conditions, in builder display order. */
 export const CONDITION_DESCRIPTORS: ConditionDescriptor[] = [
     {
         type: 'hasFlag',
@@ -133,7 +143,15 @@ export const CONDITION_DESCRIPTORS: ConditionDescriptor[] = [
         label: 'Has item',
         group: 'Inventory',
         keyword: 'hasItem',
-        args: [{ name: 'itemId', label: 'Item', kind: 'itemId' }],
+        args: [
+            { name: 'itemId', label: 'Item', kind: 'itemId' },
+            {
+                name: 'count',
+                label: 'At least',
+                kind: 'number',
+                optional: true,
+            },
+        ],
     },
     {
         type: 'variableEquals',
@@ -152,7 +170,7 @@ export const CONDITION_DESCRIPTORS: ConditionDescriptor[] = [
         keyword: 'variableGreaterThan',
         args: [
             { name: 'variable', label: 'Variable', kind: 'variable' },
-            { name: 'value', label: 'Value', kind: 'number' },
+            { name: 'value', label: 'Value', kind: 'expression' },
         ],
     },
     {
@@ -162,7 +180,18 @@ export const CONDITION_DESCRIPTORS: ConditionDescriptor[] = [
         keyword: 'variableLessThan',
         args: [
             { name: 'variable', label: 'Variable', kind: 'variable' },
-            { name: 'value', label: 'Value', kind: 'number' },
+            { name: 'value', label: 'Value', kind: 'expression' },
+        ],
+    },
+    {
+        type: 'variable',
+        label: 'Compare variable',
+        group: 'Variables',
+        keyword: 'variable',
+        args: [
+            { name: 'variable', label: 'Variable', kind: 'variable' },
+            { name: 'operator', label: 'Comparison', kind: 'operator' },
+            { name: 'value', label: 'Value', kind: 'expression' },
         ],
     },
     {
@@ -172,6 +201,23 @@ export const CONDITION_DESCRIPTORS: ConditionDescriptor[] = [
         keyword: 'atLocation',
         args: [{ name: 'locationId', label: 'Location', kind: 'locationId' }],
     },
+    {
+        type: 'visitedLocation',
+        label: 'Has visited location',
+        group: 'Location & time',
+        keyword: 'visitedLocation',
+        args: [{ name: 'locationId', label: 'Location', kind: 'locationId' }],
+    },
+    {
+        type: 'visitCount',
+        label: 'Visited location at least',
+        group: 'Location & time',
+        keyword: 'visitCount',
+        args: [
+            { name: 'locationId', label: 'Location', kind: 'locationId' },
+            { name: 'count', label: 'Visits', kind: 'number' },
+        ],
+    },
     {
         type: 'questAtStage',
         label: 'Quest at stage',
@@ -279,6 +325,26 @@ export const CONDITION_DESCRIPTORS: ConditionDescriptor[] = [
             { name: 'value', label: 'Value', kind: 'number' },
         ],
     },
+    {
+        type: 'reputationAbove',
+        label: 'Reputation above',
+        group: 'Factions',
+        keyword: 'reputationAbove',
+        args: [
+            { name: 'factionId', label: 'Faction', kind: 'factionId' },
+            { name: 'value', label: 'Value', kind: 'number' },
+        ],
+    },
+    {
+        type: 'reputationBelow',
+        label: 'Reputation below',
+        group: 'Factions',
+        keyword: 'reputationBelow',
+        args: [
+            { name: 'factionId', label: 'Faction', kind: 'factionId' },
+            { name: 'value', label: 'Value', kind: 'number' },
+        ],
+    },
     {
         type: 'timeIs',
         label: 'Time of day is',
@@ -289,6 +355,27 @@ export const CONDITION_DESCRIPTORS: ConditionDescriptor[] = [
             { name: 'endHour', label: 'End hour', kind: 'number' },
         ],
     },
+    {
+        type: 'dayOfWeekIs',
+        label: 'Day of the week is',
+        group: 'Location & time',
+        keyword: 'dayOfWeekIs',
+        args: [{ name: 'weekday', label: 'Weekday', kind: 'weekday' }],
+    },
+    {
+        type: 'seasonIs',
+        label: 'Season is',
+        group: 'Location & time',
+        keyword: 'seasonIs',
+        args: [{ name: 'season', label: 'Season', kind: 'season' }],
+    },
+    {
+        type: 'dayAtLeast',
+        label: 'Day at least',
+        group: 'Location & time',
+        keyword: 'dayAtLeast',
+        args: [{ name: 'day', label: 'Day', kind: 'number' }],
+    },
     {
         type: 'itemAt',
         label: 'Item at location',
@@ -310,9 +397,30 @@ export const CONDITION_DESCRIPTORS: ConditionDescriptor[] = [
             { name: 'threshold', label: 'Threshold', kind: 'number' },
         ],
     },
+    {
+        type: 'anyOf',
+        label: 'Any of (or)',
+        group: 'Logic',
+        keyword: 'anyOf',
+        args: [{ name: 'conditions', label: 'Conditions', kind: 'conditions' }],
+    },
+    {
+        type: 'allOf',
+        label: 'All of (and)',
+        group: 'Logic',
+        keyword: 'allOf',
+        args: [{ name: 'conditions', label: 'Conditions', kind: 'conditions' }],
+    },
+    {
+        type: 'not',
+        label: 'Not',
+        group: 'Logic',
+        keyword: 'not',
+        args: [{ name: 'condition', label: 'Condition', kind: 'condition' }],
+    },
 ];
 
-/** All 27 effects, in builder display order. */
+/** All 32 effects, in builder display order. */
 export const EFFECT_DESCRIPTORS: EffectDescriptor[] = [
     {
         type: 'setFlag',
@@ -345,7 +453,7 @@ export const EFFECT_DESCRIPTORS: EffectDescriptor[] = [
         keyword: 'ADD variable',
         args: [
             { name: 'variable', label: 'Variable', kind: 'variable' },
-            { name: 'value', label: 'Amount', kind: 'number' },
+            { name: 'value', label: 'Amount', kind: 'expression' },
         ],
     },
     {
@@ -353,14 +461,20 @@ export const EFFECT_DESCRIPTORS: EffectDescriptor[] = [
         label: 'Add item',
         group: 'Inventory',
         keyword: 'ADD item',
-        args: [{ name: 'itemId', label: 'Item', kind: 'itemId' }],
+        args: [
+            { name: 'itemId', label: 'Item', kind: 'itemId' },
+            { name: 'count', label: 'Count', kind: 'number', optional: true },
+        ],
     },
     {
         type: 'removeItem',
         label: 'Remove item',
         group: 'Inventory',
         keyword: 'REMOVE item',
-        args: [{ name: 'itemId', label: 'Item', kind: 'itemId' }],
+        args: [
+            { name: 'itemId', label: 'Item', kind: 'itemId' },
+            { name: 'count', label: 'Count', kind: 'number', optional: true },
+        ],
     },
     {
         type: 'moveItem',
@@ -417,6 +531,13 @@ export const EFFECT_DESCRIPTORS: EffectDescriptor[] = [
         keyword: 'START dialogue',
         args: [{ name: 'dialogueId', label: 'Dialogue', kind: 'dialogueId' }],
     },
+    {
+        type: 'startShop',
+        label: 'Open shop',
+        group: 'Inventory',
+        keyword: 'START shop',
+        args: [{ name: 'characterId', label: 'Merchant', kind: 'characterId' }],
+    },
     {
         type: 'endDialogue',
         label: 'End dialogue',
@@ -434,6 +555,15 @@ export const EFFECT_DESCRIPTORS: EffectDescriptor[] = [
             { name: 'locationId', label: 'Location', kind: 'locationId' },
         ],
     },
+    {
+        type: 'clearCharacterLocation',
+        label: 'Return character to schedule',
+        group: 'Characters',
+        keyword: 'CLEAR characterLocation',
+        args: [
+            { name: 'characterId', label: 'Character', kind: 'characterId' },
+        ],
+    },
     {
         type: 'addToParty',
         label: 'Add to party',
@@ -472,6 +602,26 @@ export const EFFECT_DESCRIPTORS: EffectDescriptor[] = [
             { name: 'value', label: 'Amount', kind: 'number' },
         ],
     },
+    {
+        type: 'setReputation',
+        label: 'Set reputation',
+        group: 'Factions',
+        keyword: 'SET reputation',
+        args: [
+            { name: 'factionId', label: 'Faction', kind: 'factionId' },
+            { name: 'value', label: 'Value', kind: 'number' },
+        ],
+    },
+    {
+        type: 'addReputation',
+        label: 'Add reputation',
+        group: 'Factions',
+        keyword: 'ADD reputation',
+        args: [
+            { name: 'factionId', label: 'Faction', kind: 'factionId' },
+            { name: 'value', label: 'Amount', kind: 'number' },
+        ],
+    },
     {
         type: 'setCharacterStat',
         label: 'Set character stat',
@@ -3,11 +3,11 @@
  *
  * Parses .dlg files written in the custom DSL syntax into Dialogue entities.
  * Supports:
- * - Structure keywords: NODE, END, GOTO, TRIGGER, REQUIRE
+ * - Structure keywords: NODE, END, GOTO, CALL, RETURN, TRIGGER, REQUIRE
  * - Dialogue keywords: SPEAKER:, NARRATOR:, VOICE
  * - Choice blocks with conditions and effects
  * - Conditional blocks (IF/END)
- * - All supported condition types
+ * - All supported condition types, including anyOf/allOf/not groups
  * - All 27 effect types
  * - @localization keys and "inline text"
  */
@@ -17,9 +17,13 @@ import type {
     DialogueNode,
     ConditionalBranch,
     Choice,
+    DialogueCall,
 } from '../types/entities';
 import type { Condition } from '../types/conditions';
 import type { Effect } from '../types/effects';
+import type { ComparisonOperator, ValueExpression } from '../types/expressions';
+import { conditionUsesRoll } from '../conditions';
+import { COMPARISON_OPERATORS, parseExpression } from '../expressions';
 import { findUnescapedQuote, splitComment } from './comment';
 
 /**
@@ -74,16 +78,101 @@ function rejectExtraArguments(
     }
 }
 
-function rejectEndDialogueGoto(
+/**
+ * The routing lines of a node, choice, or IF block.
+ */
+interface Route {
+    next?: string;
+    call?: DialogueCall;
+    returns: boolean;
+}
+
+/**
+ * END dialogue and RETURN each decide on their own where the conversation
+ * goes, so neither can share a block with another route. CALL and GOTO can:
+ * the GOTO is where the conversation continues after the RETURN.
+ */
+function rejectConflictingRoutes(
     hasEndDialogue: boolean,
-    next: string | undefined,
+    route: Route,
     context: string
 ): void {
-    if (hasEndDialogue && next) {
+    const routes = [
+        hasEndDialogue ? 'END dialogue' : null,
+        route.returns ? 'RETURN' : null,
+        route.call ? `CALL ${formatCall(route.call)}` : null,
+        route.next ? `GOTO ${route.next}` : null,
+    ].filter((line) => line !== null);
+    if ((hasEndDialogue || route.returns) && routes.length > 1) {
+        throw new Error(
+            `${context} cannot contain both ${routes[0]} and ${routes[1]}. Remove one.`
+        );
+    }
+}
+
+/**
+ * True for a CALL or RETURN line, which route like GOTO.
+ */
+function isCallOrReturnLine(line: string): boolean {
+    const keyword = line.split(/\s+/)[0];
+    return keyword === 'CALL' || keyword === 'RETURN';
+}
+
+/**
+ * Parse a CALL or RETURN line into the route of its block.
+ * Examples:
+ *   "CALL rumours" -> call: { dialogueId: 'rumours' }
+ *   "CALL barter.haggle" -> call: { dialogueId: 'barter', nodeId: 'haggle' }
+ *   "RETURN" -> returns: true
+ */
+function parseCallOrReturn(line: string, route: Route): void {
+    const parts = line.split(/\s+/);
+    if (parts[0] === 'RETURN') {
+        rejectExtraArguments(parts, 1, 'RETURN');
+        route.returns = true;
+        return;
+    }
+    rejectExtraArguments(parts, 2, 'CALL');
+    const target = parts[1] ?? '';
+    const dot = target.indexOf('.');
+    const dialogueId = dot === -1 ? target : target.substring(0, dot);
+    const nodeId = dot === -1 ? undefined : target.substring(dot + 1);
+    if (!dialogueId || nodeId === '') {
+        throw new Error(
+            'CALL needs a dialogue and optionally a node, like: CALL rumours or CALL rumours.gossip'
+        );
+    }
+    route.call = nodeId ? { dialogueId, nodeId } : { dialogueId };
+}
+
+/** Format a CALL target as written in a .dlg file. */
+function formatCall(call: DialogueCall): string {
+    return call.nodeId ? `${call.dialogueId}.${call.nodeId}` : call.dialogueId;
+}
+
+/**
+ * True when a value's words are an arithmetic expression rather than a
+ * literal. A single word stays literal (a number or text, as it always has)
+ * unless it reads a variable in braces or uses parentheses, so `d6` is still
+ * the text "d6" and `(d6)` rolls; more than one word is an expression only
+ * when it uses operators, so a stray extra word is still reported as one.
+ */
+function isExpressionSource(words: string[]): boolean {
+    const source = words.join(' ');
+    if (words.length === 1) return /[{(]/.test(source);
+    return /[{}()+\-*/%]/.test(source);
+}
+
+/** Check expression source now, so a typo fails at parse time. */
+function expressionValue(source: string, syntax: string): ValueExpression {
+    try {
+        parseExpression(source);
+    } catch (error) {
         throw new Error(
-            `${context} cannot contain both END dialogue and GOTO ${next}. Remove one.`
+            `${syntax}: ${error instanceof Error ? error.message : String(error)}`
         );
     }
+    return { expression: source };
 }
 
 /**
@@ -188,14 +277,87 @@ function parseText(text: string): string {
     return trimmed;
 }
 
+/**
+ * Split the body of a condition group into its parenthesized parts.
+ * "(hasItem key) (hasFlag pickedLock)" -> ["hasItem key", "hasFlag pickedLock"]
+ * Parentheses may nest, so a part can itself be a group.
+ */
+function splitConditionGroup(body: string, type: string): string[] {
+    const parts: string[] = [];
+    let depth = 0;
+    let start = 0;
+
+    for (let i = 0; i < body.length; i++) {
+        const ch = body[i];
+        if (ch === '(') {
+            if (depth === 0) start = i + 1;
+            depth++;
+        } else if (ch === ')') {
+            depth--;
+            if (depth < 0) {
+                throw new Error(
+                    `Condition "${type}" has a ")" without a matching "("`
+                );
+            }
+            if (depth === 0) {
+                const part = body.substring(start, i).trim();
+                if (!part) {
+                    throw new Error(
+                        `Condition "${type}" has an empty "()". Put a condition inside it.`
+                    );
+                }
+                parts.push(part);
+            }
+        } else if (depth === 0 && !/\s/.test(ch)) {
+            throw new Error(
+                `Condition "${type}" expects each condition in parentheses, like ${type === 'not' ? 'not (hasFlag doorLocked)' : `${type} (hasItem rusty_key) (hasFlag pickedLock)`}`
+            );
+        }
+    }
+
+    if (depth > 0) {
+        throw new Error(`Condition "${type}" has a "(" without a matching ")"`);
+    }
+    return parts;
+}
+
 /**
  * Parse a condition string into a Condition object
  * Examples:
  *   "hasFlag metBartender" -> { type: 'hasFlag', flag: 'metBartender' }
  *   "variableGreaterThan gold 10" -> { type: 'variableGreaterThan', variable: 'gold', value: 10 }
+ *   "variable gold >= {price} * 2" -> { type: 'variable', variable: 'gold', operator: '>=', value: { expression: '{price} * 2' } }
+ *   "anyOf (hasItem key) (hasFlag pickedLock)" -> { type: 'anyOf', conditions: [...] }
  */
 export function parseCondition(conditionStr: string): Condition {
-    const parts = conditionStr.trim().split(/\s+/);
+    const trimmed = conditionStr.trim();
+    const groupType = trimmed.split(/[\s(]/, 1)[0];
+
+    // Groups hold whole conditions in parentheses, so they are split before
+    // the plain-argument rules below apply.
+    if (groupType === 'anyOf' || groupType === 'allOf') {
+        const parts = splitConditionGroup(
+            trimmed.substring(groupType.length),
+            groupType
+        );
+        if (parts.length === 0) {
+            throw new Error(
+                `Condition "${groupType}" needs at least one condition in parentheses`
+            );
+        }
+        return { type: groupType, conditions: parts.map(parseCondition) };
+    }
+    if (groupType === 'not') {
+        const parts = splitConditionGroup(trimmed.substring(3), 'not');
+        if (parts.length !== 1) {
+            throw new Error(
+                'Condition "not" takes exactly one condition in parentheses'
+            );
+        }
+        return { type: 'not', condition: parseCondition(parts[0]) };
+    }
+
+    const parts = trimmed.split(/\s+/);
     const type = parts[0];
 
     // Quotes are for dialogue/choice display text only. Condition arguments are
@@ -214,9 +376,21 @@ export function parseCondition(conditionStr: string): Condition {
             rejectExtraArguments(parts, 2, 'Condition "notFlag"');
             return { type: 'notFlag', flag: parts[1] };
         case 'hasItem':
-            rejectExtraArguments(parts, 2, 'Condition "hasItem"');
-            return { type: 'hasItem', itemId: parts[1] };
+            rejectExtraArguments(parts, 3, 'Condition "hasItem"');
+            return parts.length === 3
+                ? { type: 'hasItem', itemId: parts[1], count: Number(parts[2]) }
+                : { type: 'hasItem', itemId: parts[1] };
         case 'variableEquals':
+            if (isExpressionSource(parts.slice(2))) {
+                return {
+                    type: 'variableEquals',
+                    variable: parts[1],
+                    value: expressionValue(
+                        parts.slice(2).join(' '),
+                        'Condition "variableEquals"'
+                    ),
+                };
+            }
             if (parts.length > 3) {
                 throw new Error(
                     `Condition "variableEquals" takes a single value; multi-word values are not supported. Use a single token or a @locale key.`
@@ -228,6 +402,16 @@ export function parseCondition(conditionStr: string): Condition {
                 value: isNaN(Number(parts[2])) ? parts[2] : Number(parts[2]),
             };
         case 'variableGreaterThan':
+            if (isExpressionSource(parts.slice(2))) {
+                return {
+                    type: 'variableGreaterThan',
+                    variable: parts[1],
+                    value: expressionValue(
+                        parts.slice(2).join(' '),
+                        'Condition "variableGreaterThan"'
+                    ),
+                };
+            }
             rejectExtraArguments(parts, 3, 'Condition "variableGreaterThan"');
             return {
                 type: 'variableGreaterThan',
@@ -235,15 +419,58 @@ export function parseCondition(conditionStr: string): Condition {
                 value: Number(parts[2]),
             };
         case 'variableLessThan':
+            if (isExpressionSource(parts.slice(2))) {
+                return {
+                    type: 'variableLessThan',
+                    variable: parts[1],
+                    value: expressionValue(
+                        parts.slice(2).join(' '),
+                        'Condition "variableLessThan"'
+                    ),
+                };
+            }
             rejectExtraArguments(parts, 3, 'Condition "variableLessThan"');
             return {
                 type: 'variableLessThan',
                 variable: parts[1],
                 value: Number(parts[2]),
             };
+        case 'variable': {
+            const operator = parts[2];
+            if (
+                !COMPARISON_OPERATORS.includes(
+                    operator as ComparisonOperator
+                ) ||
+                parts.length < 4
+            ) {
+                throw new Error(
+                    'Condition "variable" needs a variable, a comparison (==, !=, <, <=, >, >=), and a value, like: variable gold >= {price}'
+                );
+            }
+            const source = parts.slice(3).join(' ');
+            return {
+                type: 'variable',
+                variable: parts[1],
+                operator: operator as ComparisonOperator,
+                value:
+                    parts.length === 4 && !isNaN(Number(source))
+                        ? Number(source)
+                        : expressionValue(source, 'Condition "variable"'),
+            };
+        }
         case 'atLocation':
             rejectExtraArguments(parts, 2, 'Condition "atLocation"');
             return { type: 'atLocation', locationId: parts[1] };
+        case 'visitedLocation':
+            rejectExtraArguments(parts, 2, 'Condition "visitedLocation"');
+            return { type: 'visitedLocation', locationId: parts[1] };
+        case 'visitCount':
+            rejectExtraArguments(parts, 3, 'Condition "visitCount"');
+            return {
+                type: 'visitCount',
+                locationId: parts[1],
+                count: Number(parts[2]),
+            };
         case 'questAtStage':
             rejectExtraArguments(parts, 3, 'Condition "questAtStage"');
             return {
@@ -321,6 +548,20 @@ export function parseCondition(conditionStr: string): Condition {
                 characterId: parts[1],
                 value: Number(parts[2]),
             };
+        case 'reputationAbove':
+            rejectExtraArguments(parts, 3, 'Condition "reputationAbove"');
+            return {
+                type: 'reputationAbove',
+                factionId: parts[1],
+                value: Number(parts[2]),
+            };
+        case 'reputationBelow':
+            rejectExtraArguments(parts, 3, 'Condition "reputationBelow"');
+            return {
+                type: 'reputationBelow',
+                factionId: parts[1],
+                value: Number(parts[2]),
+            };
         case 'timeIs':
             rejectExtraArguments(parts, 3, 'Condition "timeIs"');
             return {
@@ -328,6 +569,15 @@ export function parseCondition(conditionStr: string): Condition {
                 startHour: Number(parts[1]),
                 endHour: Number(parts[2]),
             };
+        case 'dayOfWeekIs':
+            rejectExtraArguments(parts, 2, 'Condition "dayOfWeekIs"');
+            return { type: 'dayOfWeekIs', weekday: parts[1] };
+        case 'seasonIs':
+            rejectExtraArguments(parts, 2, 'Condition "seasonIs"');
+            return { type: 'seasonIs', season: parts[1] };
+        case 'dayAtLeast':
+            rejectExtraArguments(parts, 2, 'Condition "dayAtLeast"');
+            return { type: 'dayAtLeast', day: Number(parts[1]) };
         case 'itemAt':
             rejectExtraArguments(parts, 3, 'Condition "itemAt"');
             return { type: 'itemAt', itemId: parts[1], locationId: parts[2] };
@@ -349,6 +599,7 @@ export function parseCondition(conditionStr: string): Condition {
  * Examples:
  *   "SET flag metBartender" -> { type: 'setFlag', flag: 'metBartender' }
  *   "ADD variable gold -50" -> { type: 'addVariable', variable: 'gold', value: -50 }
+ *   "SET variable price {base} * 2" -> { type: 'setVariable', variable: 'price', value: { expression: '{base} * 2' } }
  *   "NOTIFY @quest.started" -> { type: 'notify', message: '@quest.started' }
  */
 export function parseEffect(effectStr: string): Effect {
@@ -406,6 +657,16 @@ export function parseEffect(effectStr: string): Effect {
                 return { type: 'setFlag', flag: parts[2] };
             }
             if (parts[1] === 'variable') {
+                if (isExpressionSource(parts.slice(3))) {
+                    return {
+                        type: 'setVariable',
+                        variable: parts[2],
+                        value: expressionValue(
+                            parts.slice(3).join(' '),
+                            'Effect "SET variable"'
+                        ),
+                    };
+                }
                 if (parts.length > 4) {
                     throw new Error(
                         `"SET variable" takes a single value; multi-word values are not supported. Use a single token or a @locale key.`
@@ -454,6 +715,14 @@ export function parseEffect(effectStr: string): Effect {
                     value: Number(parts[3]),
                 };
             }
+            if (parts[1] === 'reputation') {
+                rejectExtraArguments(parts, 4, 'Effect "SET reputation"');
+                return {
+                    type: 'setReputation',
+                    factionId: parts[2],
+                    value: Number(parts[3]),
+                };
+            }
             if (parts[1] === 'characterStat') {
                 if (parts.length > 5) {
                     throw new Error(
@@ -485,10 +754,31 @@ export function parseEffect(effectStr: string): Effect {
                 rejectExtraArguments(parts, 3, 'Effect "CLEAR flag"');
                 return { type: 'clearFlag', flag: parts[2] };
             }
+            if (parts[1] === 'characterLocation') {
+                rejectExtraArguments(
+                    parts,
+                    3,
+                    'Effect "CLEAR characterLocation"'
+                );
+                return {
+                    type: 'clearCharacterLocation',
+                    characterId: parts[2],
+                };
+            }
             throw new Error(`Unknown CLEAR effect: ${parts[1]}`);
 
         case 'ADD':
             if (parts[1] === 'variable') {
+                if (isExpressionSource(parts.slice(3))) {
+                    return {
+                        type: 'addVariable',
+                        variable: parts[2],
+                        value: expressionValue(
+                            parts.slice(3).join(' '),
+                            'Effect "ADD variable"'
+                        ),
+                    };
+                }
                 rejectExtraArguments(parts, 4, 'Effect "ADD variable"');
                 return {
                     type: 'addVariable',
@@ -497,8 +787,14 @@ export function parseEffect(effectStr: string): Effect {
                 };
             }
             if (parts[1] === 'item') {
-                rejectExtraArguments(parts, 3, 'Effect "ADD item"');
-                return { type: 'addItem', itemId: parts[2] };
+                rejectExtraArguments(parts, 4, 'Effect "ADD item"');
+                return parts.length === 4
+                    ? {
+                          type: 'addItem',
+                          itemId: parts[2],
+                          count: Number(parts[3]),
+                      }
+                    : { type: 'addItem', itemId: parts[2] };
             }
             if (parts[1] === 'journalEntry') {
                 rejectExtraArguments(parts, 3, 'Effect "ADD journalEntry"');
@@ -516,6 +812,14 @@ export function parseEffect(effectStr: string): Effect {
                     value: Number(parts[3]),
                 };
             }
+            if (parts[1] === 'reputation') {
+                rejectExtraArguments(parts, 4, 'Effect "ADD reputation"');
+                return {
+                    type: 'addReputation',
+                    factionId: parts[2],
+                    value: Number(parts[3]),
+                };
+            }
             if (parts[1] === 'characterStat') {
                 rejectExtraArguments(parts, 5, 'Effect "ADD characterStat"');
                 return {
@@ -529,8 +833,14 @@ export function parseEffect(effectStr: string): Effect {
 
         case 'REMOVE':
             if (parts[1] === 'item') {
-                rejectExtraArguments(parts, 3, 'Effect "REMOVE item"');
-                return { type: 'removeItem', itemId: parts[2] };
+                rejectExtraArguments(parts, 4, 'Effect "REMOVE item"');
+                return parts.length === 4
+                    ? {
+                          type: 'removeItem',
+                          itemId: parts[2],
+                          count: Number(parts[3]),
+                      }
+                    : { type: 'removeItem', itemId: parts[2] };
             }
             if (parts[1] === 'fromParty') {
                 rejectExtraArguments(parts, 3, 'Effect "REMOVE fromParty"');
@@ -568,6 +878,10 @@ export function parseEffect(effectStr: string): Effect {
                 rejectExtraArguments(parts, 3, 'Effect "START dialogue"');
                 return { type: 'startDialogue', dialogueId: parts[2] };
             }
+            if (parts[1] === 'shop') {
+                rejectExtraArguments(parts, 3, 'Effect "START shop"');
+                return { type: 'startShop', characterId: parts[2] };
+            }
             throw new Error(`Unknown START effect: ${parts[1]}`);
 
         case 'END':
@@ -594,7 +908,8 @@ interface ChoiceParseResult {
  *     REQUIRE condition (optional, multiple)
  *     effects
  *     speaker lines
- *     GOTO target or END dialogue
+ *     CALL dialogue (optional)
+ *     GOTO target, RETURN, or END dialogue
  *   END
  */
 function parseChoice(
@@ -609,6 +924,7 @@ function parseChoice(
     const conditions: Condition[] = [];
     const effects: Effect[] = [];
     let next = '';
+    const route: Route = { returns: false };
     let hasEndDialogue = false;
 
     let i = startIndex + 1;
@@ -630,9 +946,9 @@ function parseChoice(
             // checked again when the choice is clicked. A roll is random, so
             // those two checks can disagree and a shown choice can do nothing.
             // Roll on click instead: route the choice to a node with ROLL + IF.
-            if (condition.type === 'roll') {
+            if (conditionUsesRoll(condition)) {
                 throw new Error(
-                    `Choice in node "${nodeId}" (line ${current.lineNumber}) uses "roll" in a REQUIRE. A choice cannot roll in its requirement. To roll when the player clicks, send the choice to a NODE that uses ROLL and IF.`
+                    `Choice in node "${nodeId}" (line ${current.lineNumber}) uses "roll" or dice in a REQUIRE. A choice cannot roll in its requirement. To roll when the player clicks, send the choice to a NODE that uses ROLL and IF.`
                 );
             }
             conditions.push(condition);
@@ -649,6 +965,9 @@ function parseChoice(
                 next = gotoTarget;
             }
             i++;
+        } else if (isCallOrReturnLine(current.line)) {
+            parseCallOrReturn(current.line, route);
+            i++;
         } else if (isEffectLine(current.line)) {
             // Effect keyword takes precedence over the ':' speaker heuristic, so a
             // NOTIFY (or other effect) whose text contains ':' still parses.
@@ -671,9 +990,9 @@ function parseChoice(
         }
     }
 
-    rejectEndDialogueGoto(
+    rejectConflictingRoutes(
         hasEndDialogue,
-        next,
+        { ...route, next },
         `Choice in node "${nodeId}" (line ${token.lineNumber})`
     );
 
@@ -697,6 +1016,8 @@ function parseChoice(
         effects: effects.length > 0 ? effects : undefined,
         next: next || '',
     };
+    if (route.call) choice.call = route.call;
+    if (route.returns) choice.returns = true;
 
     return { choice, nextIndex: i };
 }
@@ -704,6 +1025,8 @@ function parseChoice(
 interface IfBlockParseResult {
     condition: Condition;
     next?: string;
+    call?: DialogueCall;
+    returns: boolean;
     effects: Effect[];
     nextIndex: number;
 }
@@ -713,7 +1036,8 @@ interface IfBlockParseResult {
  * Syntax:
  *   IF condition
  *     effects
- *     GOTO target
+ *     CALL dialogue (optional)
+ *     GOTO target or RETURN
  *   END
  */
 function parseIfBlock(tokens: Token[], startIndex: number): IfBlockParseResult {
@@ -722,6 +1046,7 @@ function parseIfBlock(tokens: Token[], startIndex: number): IfBlockParseResult {
     const condition = parseCondition(conditionStr);
 
     let next: string | undefined;
+    const route: Route = { returns: false };
     const effects: Effect[] = [];
     let hasEndDialogue = false;
     let i = startIndex + 1;
@@ -746,6 +1071,9 @@ function parseIfBlock(tokens: Token[], startIndex: number): IfBlockParseResult {
                 next = gotoTarget;
             }
             i++;
+        } else if (isCallOrReturnLine(current.line)) {
+            parseCallOrReturn(current.line, route);
+            i++;
         } else {
             const effect = parseEffect(current.line);
             effects.push(effect);
@@ -754,13 +1082,13 @@ function parseIfBlock(tokens: Token[], startIndex: number): IfBlockParseResult {
         }
     }
 
-    rejectEndDialogueGoto(
+    rejectConflictingRoutes(
         hasEndDialogue,
-        next,
+        { ...route, next },
         `IF block at line ${token.lineNumber}`
     );
 
-    return { condition, next, effects, nextIndex: i };
+    return { condition, next, ...route, effects, nextIndex: i };
 }
 
 interface NodeParseResult {
@@ -777,6 +1105,8 @@ interface NodeParseResult {
  *     effects
  *     IF blocks
  *     CHOICE blocks
+ *     CALL dialogue (optional)
+ *     GOTO target or RETURN
  */
 function parseNode(tokens: Token[], startIndex: number): NodeParseResult {
     const token = tokens[startIndex];
@@ -791,6 +1121,7 @@ function parseNode(tokens: Token[], startIndex: number): NodeParseResult {
     const choices: Choice[] = [];
     const effects: Effect[] = [];
     let next: string | undefined;
+    const route: Route = { returns: false };
     let hasEndDialogue = false;
     const conditionalBranches: ConditionalBranch[] = [];
 
@@ -819,12 +1150,15 @@ function parseNode(tokens: Token[], startIndex: number): NodeParseResult {
             i = choiceResult.nextIndex;
         } else if (current.line.startsWith('IF ')) {
             const ifResult = parseIfBlock(tokens, i);
-            conditionalBranches.push({
+            const branch: ConditionalBranch = {
                 condition: ifResult.condition,
                 effects:
                     ifResult.effects.length > 0 ? ifResult.effects : undefined,
                 next: ifResult.next,
-            });
+            };
+            if (ifResult.call) branch.call = ifResult.call;
+            if (ifResult.returns) branch.returns = true;
+            conditionalBranches.push(branch);
             i = ifResult.nextIndex;
         } else if (current.line.startsWith('GOTO ')) {
             const gotoTarget = current.line.substring(5).trim();
@@ -837,6 +1171,9 @@ function parseNode(tokens: Token[], startIndex: number): NodeParseResult {
                 next = gotoTarget;
             }
             i++;
+        } else if (isCallOrReturnLine(current.line)) {
+            parseCallOrReturn(current.line, route);
+            i++;
         } else if (isEffectLine(current.line)) {
             // Effect keyword (incl. NOTIFY) takes precedence over the ':' rule.
             const effect = parseEffect(current.line);
@@ -874,9 +1211,9 @@ function parseNode(tokens: Token[], startIndex: number): NodeParseResult {
         }
     }
 
-    rejectEndDialogueGoto(
+    rejectConflictingRoutes(
         hasEndDialogue,
-        next,
+        { ...route, next },
         `Node "${nodeId}" (line ${token.lineNumber})`
     );
 
@@ -891,6 +1228,8 @@ function parseNode(tokens: Token[], startIndex: number): NodeParseResult {
         effects: effects.length > 0 ? effects : undefined,
         next,
     };
+    if (route.call) node.call = route.call;
+    if (route.returns) node.returns = true;
 
     // Store conditional branches if any (IF blocks)
     if (conditionalBranches.length > 0) {
@@ -23,6 +23,7 @@ import {
     type ConditionDescriptor,
     type EffectDescriptor,
 } from './descriptors';
+import { isValueExpression } from '../expressions';
 
 const INDENT = '  ';
 
@@ -50,11 +51,13 @@ function tokenKind(kind: ArgKind): DlgToken['kind'] {
         kind === 'hours' ||
         kind === 'boolean' ||
         kind === 'value' ||
+        kind === 'expression' ||
         kind === 'questStatus'
     ) {
         return 'value';
     }
     if (kind === 'text') return 'text';
+    if (kind === 'operator') return 'keyword';
     return 'id';
 }
 
@@ -69,13 +72,27 @@ function descriptorTokens(
 
     for (const arg of descriptor.args) {
         const value = values[arg.name];
+        if (arg.kind === 'condition' || arg.kind === 'conditions') {
+            const parts = (
+                Array.isArray(value) ? value : [value]
+            ) as Condition[];
+            for (const part of parts) tokens.push(...groupedTokens(part));
+            continue;
+        }
         if (
             arg.optional &&
             (value === undefined || value === null || value === '')
         ) {
             continue;
         }
-        const text = String(value);
+        // An expression is written back exactly as the author wrote it, except
+        // that a lone word like d6 is put in parentheses, since on its own it
+        // would read back as text.
+        const text = isValueExpression(value)
+            ? /^[^\s{(]+$/.test(value.expression)
+                ? `(${value.expression})`
+                : value.expression
+            : String(value);
         tokens.push({
             kind: tokenKind(arg.kind),
             text: arg.kind === 'text' ? displayText(text) : text,
@@ -85,6 +102,16 @@ function descriptorTokens(
     return tokens;
 }
 
+/** A nested condition's tokens, wrapped in the parentheses that group it. */
+function groupedTokens(condition: Condition): DlgToken[] {
+    const tokens = conditionTokens(condition);
+    const last = tokens.length - 1;
+    return tokens.map((token, index) => ({
+        ...token,
+        text: `${index === 0 ? '(' : ''}${token.text}${index === last ? ')' : ''}`,
+    }));
+}
+
 /** Split a condition's canonical `.dlg` form into semantic tokens. */
 export function conditionTokens(condition: Condition): DlgToken[] {
     return descriptorTokens(condition, conditionDescriptor(condition.type));
@@ -138,10 +165,30 @@ function effectLines(effects: Effect[] | undefined, indent: string): string[] {
     return lines;
 }
 
+/**
+ * Serialize the route of a node, choice, or IF block. A CALL comes before
+ * the GOTO it returns to; RETURN stands alone.
+ */
+function routeLines(
+    route: Pick<DialogueNode, 'next' | 'call' | 'returns'>,
+    indent: string
+): string[] {
+    if (route.returns) return [`${indent}RETURN`];
+    const lines: string[] = [];
+    if (route.call) {
+        const { dialogueId, nodeId } = route.call;
+        lines.push(
+            `${indent}CALL ${nodeId ? `${dialogueId}.${nodeId}` : dialogueId}`
+        );
+    }
+    if (route.next) lines.push(`${indent}GOTO ${route.next}`);
+    return lines;
+}
+
 function branchLines(branch: ConditionalBranch): string[] {
     const lines = [`${INDENT}IF ${serializeCondition(branch.condition)}`];
     lines.push(...effectLines(branch.effects, INDENT + INDENT));
-    if (branch.next) lines.push(`${INDENT + INDENT}GOTO ${branch.next}`);
+    lines.push(...routeLines(branch, INDENT + INDENT));
     lines.push(`${INDENT}END`);
     return lines;
 }
@@ -163,8 +210,8 @@ function choiceLines(choice: Choice): string[] {
             e.type === 'goToLocation' ||
             e.type === 'startDialogue'
     );
-    if (choice.next && !terminates) {
-        lines.push(`${INDENT + INDENT}GOTO ${choice.next}`);
+    if (!terminates) {
+        lines.push(...routeLines(choice, INDENT + INDENT));
     }
     lines.push(`${INDENT}END`);
     return lines;
@@ -191,7 +238,7 @@ export function serializeNode(node: DialogueNode): string {
     for (const choice of node.choices) {
         lines.push(...choiceLines(choice));
     }
-    if (node.next) lines.push(`${INDENT}GOTO ${node.next}`);
+    lines.push(...routeLines(node, INDENT));
 
     return lines.join('\n');
 }
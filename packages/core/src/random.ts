@@ -0,0 +1,87 @@
+/**
+ * Seedable random numbers for rolls.
+ *
+ * The generator is mulberry32: its whole state is one 32-bit integer, so it
+ * lives in GameState as a plain number and round-trips through saves. Every
+ * function here is pure: it takes a state and returns the value it drew along
+ * with the state to store for the next draw. The same seed always produces the
+ * same sequence of rolls.
+ */
+
+/** A value drawn from the generator and the state that follows it. */
+export interface RandomDraw {
+    value: number;
+    state: number;
+}
+
+/**
+ * Turn an authored seed into a generator state. Numbers are used directly;
+ * strings (e.g. "playtest-1") are hashed so any text makes a stable seed.
+ *
+ * @param seed - A number or text seed
+ * @returns A 32-bit generator state
+ */
+export function seedRandomState(seed: number | string): number {
+    if (typeof seed === 'number') {
+        return Math.trunc(seed) >>> 0;
+    }
+
+    // FNV-1a: short, stable across platforms, and spreads similar strings.
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < seed.length; i++) {
+        hash ^= seed.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return hash >>> 0;
+}
+
+/**
+ * Create a generator state. With a seed, the result is reproducible; without
+ * one, it is taken from the clock so each new game rolls differently.
+ *
+ * @param seed - Optional number or text seed
+ * @returns A 32-bit generator state
+ */
+export function createRandomState(seed?: number | string): number {
+    if (seed !== undefined) {
+        return seedRandomState(seed);
+    }
+    return seedRandomState(Date.now() ^ Math.floor(Math.random() * 2 ** 32));
+}
+
+/**
+ * Draw a number in [0, 1) and advance the generator.
+ *
+ * @param state - Current generator state
+ * @returns The drawn value and the next state
+ */
+export function nextRandom(state: number): RandomDraw {
+    const next = (state + 0x6d2b79f5) | 0;
+    let t = Math.imul(next ^ (next >>> 15), 1 | next);
+    t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+    return {
+        value: ((t ^ (t >>> 14)) >>> 0) / 4294967296,
+        state: next >>> 0,
+    };
+}
+
+/**
+ * Roll a whole number between min and max (inclusive) and advance the
+ * generator.
+ *
+ * @param state - Current generator state
+ * @param min - Lowest result (inclusive)
+ * @param max - Highest result (inclusive)
+ * @returns The rolled value and the next state
+ */
+export function rollInteger(
+    state: number,
+    min: number,
+    max: number
+): RandomDraw {
+    const draw = nextRandom(state);
+    return {
+        value: Math.floor(draw.value * (max - min + 1)) + min,
+        state: draw.state,
+    };
+}
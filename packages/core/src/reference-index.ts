@@ -15,9 +15,13 @@ import {
     effectDescriptor,
     REFERENCE_KIND_TARGET,
 } from './parser/descriptors';
+import { leafConditions } from './conditions';
+import { expressionReferences, isValueExpression } from './expressions';
+import { shopCurrency } from './shops';
 import type { Condition } from './types/conditions';
 import type { Effect } from './types/effects';
-import type { Dialogue, GameConfig } from './types/entities';
+import type { ValueExpression } from './types/expressions';
+import type { Dialogue, DialogueCall, GameConfig } from './types/entities';
 import type { ContentRegistry } from './types/registry';
 
 /** The kinds of symbol the index tracks. */
@@ -29,6 +33,7 @@ export type SymbolType =
     | 'dialogues'
     | 'interludes'
     | 'journalEntries'
+    | 'factions'
     | 'flags'
     | 'variables';
 
@@ -51,6 +56,7 @@ const KIND_TO_TYPE: Record<string, SymbolType> = {
     journalId: 'journalEntries',
     dialogueId: 'dialogues',
     interludeId: 'interludes',
+    factionId: 'factions',
     flag: 'flags',
     variable: 'variables',
 };
@@ -88,7 +94,7 @@ export class ReferenceIndex {
     }
 
     /** Every id of the given type seen anywhere (referenced or defined), sorted.
-     * For flags/variables, which have no declaration, this is every key used. */
+     * For flags/variables this is every key used or declared in variables.yaml. */
     allSymbols(type: SymbolType): string[] {
         const ids = new Set<string>();
         const prefix = `${type}:`;
@@ -143,6 +149,13 @@ export class ReferenceIndex {
         ).forEach((type) => {
             for (const id of Object.keys(r[type])) this.define(type, id);
         });
+        for (const id of Object.keys(r.factions ?? {}))
+            this.define('factions', id);
+        // Flags and variables are defined only when variables.yaml declares them.
+        for (const flag of Object.keys(r.variableSchema?.flags ?? {}))
+            this.define('flags', flag);
+        for (const variable of Object.keys(r.variableSchema?.variables ?? {}))
+            this.define('variables', variable);
 
         // Character fields.
         for (const c of Object.values(r.characters)) {
@@ -157,6 +170,36 @@ export class ReferenceIndex {
                     file,
                     where: `character "${c.id}" dialogue`,
                 });
+            for (const entry of c.schedule ?? []) {
+                this.add('locations', entry.location, {
+                    file,
+                    where: `character "${c.id}" schedule`,
+                });
+                for (const condition of entry.conditions ?? [])
+                    this.indexCondition(
+                        condition,
+                        file,
+                        `character "${c.id}" schedule condition`
+                    );
+            }
+            for (const factionId of c.factions ?? [])
+                this.add('factions', factionId, {
+                    file,
+                    where: `character "${c.id}" factions`,
+                });
+            if (c.shop) {
+                // Buying and selling both change the shop's currency.
+                this.add('variables', shopCurrency(c.shop), {
+                    file,
+                    where: `character "${c.id}" shop currency`,
+                    access: 'set',
+                });
+                for (const itemId of Object.keys(c.shop.stock ?? {}))
+                    this.add('items', itemId, {
+                        file,
+                        where: `character "${c.id}" shop stock`,
+                    });
+            }
         }
 
         // Item fields.
@@ -176,6 +219,49 @@ export class ReferenceIndex {
                         where: `item "${item.id}" location`,
                     });
             }
+            for (const use of item.uses ?? []) {
+                const where = `item "${item.id}" use "${use.id}"`;
+                if (use.target && r.locations[use.target])
+                    this.add('locations', use.target, { file, where });
+                if (use.target && r.characters[use.target])
+                    this.add('characters', use.target, { file, where });
+                for (const condition of use.conditions ?? [])
+                    this.indexCondition(condition, file, `${where} condition`);
+                for (const effect of use.effects ?? [])
+                    this.indexEffect(effect, file, where);
+                if (use.dialogue)
+                    this.add('dialogues', use.dialogue, { file, where });
+            }
+        }
+
+        // Location exits reference their destination. Exits, description
+        // variants, and entry effects hold conditions and effects.
+        for (const location of Object.values(r.locations)) {
+            const file = this.fileFor('locations', location.id);
+            for (const exit of location.exits ?? []) {
+                const where = `location "${location.id}" exit "${exit.id}"`;
+                this.add('locations', exit.target, { file, where });
+                for (const condition of exit.conditions ?? [])
+                    this.indexCondition(condition, file, `${where} condition`);
+                for (const effect of exit.effects ?? [])
+                    this.indexEffect(effect, file, where);
+            }
+            (location.descriptions ?? []).forEach((variant, i) => {
+                for (const condition of variant.conditions ?? [])
+                    this.indexCondition(
+                        condition,
+                        file,
+                        `location "${location.id}" description ${i + 1} condition`
+                    );
+            });
+            for (const field of ['onFirstEnter', 'onEnter'] as const) {
+                for (const effect of location[field] ?? [])
+                    this.indexEffect(
+                        effect,
+                        file,
+                        `location "${location.id}" ${field}`
+                    );
+            }
         }
 
         // Map markers reference locations.
@@ -211,6 +297,26 @@ export class ReferenceIndex {
                 this.indexEffect(effect, file, `interlude "${interlude.id}"`);
         }
 
+        // Timed event trigger flags, conditions, effects, and what they start.
+        for (const event of Object.values(r.events ?? {})) {
+            const file = this.fileFor('events', event.id);
+            const where = `event "${event.id}"`;
+            if (event.trigger.type === 'afterFlag')
+                this.add('flags', event.trigger.flag, {
+                    file,
+                    where: `${where} trigger`,
+                    access: 'check',
+                });
+            for (const condition of event.conditions ?? [])
+                this.indexCondition(condition, file, `${where} condition`);
+            for (const effect of event.effects ?? [])
+                this.indexEffect(effect, file, where);
+            if (event.dialogue)
+                this.add('dialogues', event.dialogue, { file, where });
+            if (event.interlude)
+                this.add('interludes', event.interlude, { file, where });
+        }
+
         // Game config references.
         if (config) {
             const file = 'content/game.yaml';
@@ -267,16 +373,26 @@ export class ReferenceIndex {
                 this.indexCondition(branch.condition, file, site);
                 for (const e of branch.effects ?? [])
                     this.indexEffect(e, file, site);
+                if (branch.call) this.indexCall(branch.call, file, site);
             }
             for (const choice of node.choices) {
                 for (const c of choice.conditions ?? [])
                     this.indexCondition(c, file, site);
                 for (const e of choice.effects ?? [])
                     this.indexEffect(e, file, site);
+                if (choice.call) this.indexCall(choice.call, file, site);
             }
+            if (node.call) this.indexCall(node.call, file, site);
         }
     }
 
+    private indexCall(call: DialogueCall, file: string | null, where: string) {
+        this.add('dialogues', call.dialogueId, {
+            file,
+            where: `${where} CALL`,
+        });
+    }
+
     private indexArgs(
         entity: Condition | Effect,
         args: { name: string; kind: string }[],
@@ -291,8 +407,12 @@ export class ReferenceIndex {
                 (REFERENCE_KIND_TARGET[arg.kind as never] as
                     | SymbolType
                     | undefined);
-            if (!type) continue;
             const value = record[arg.name];
+            if (isValueExpression(value)) {
+                this.indexExpression(value, file, where);
+                continue;
+            }
+            if (!type) continue;
             if (typeof value === 'string' && value)
                 this.add(type, value, {
                     file,
@@ -304,18 +424,43 @@ export class ReferenceIndex {
         }
     }
 
+    /** The variables and characters an arithmetic expression reads. */
+    private indexExpression(
+        value: ValueExpression,
+        file: string | null,
+        where: string
+    ) {
+        let refs;
+        try {
+            refs = expressionReferences(value);
+        } catch {
+            return; // A malformed expression is reported by validation.
+        }
+        for (const variable of refs.variables) {
+            this.add('variables', variable, { file, where, access: 'check' });
+        }
+        for (const character of refs.characters) {
+            if (character !== 'player') {
+                this.add('characters', character, { file, where });
+            }
+        }
+    }
+
     private indexCondition(
         condition: Condition,
         file: string | null,
         where: string
     ) {
-        this.indexArgs(
-            condition,
-            conditionDescriptor(condition.type).args,
-            file,
-            where,
-            'check'
-        );
+        // Groups (anyOf / allOf / not) index the conditions inside them.
+        for (const leaf of leafConditions(condition)) {
+            this.indexArgs(
+                leaf,
+                conditionDescriptor(leaf.type).args,
+                file,
+                where,
+                'check'
+            );
+        }
     }
 
     private indexEffect(effect: Effect, file: string | null, where: string) {
@@ -0,0 +1,453 @@
+/**
+ * Save migration and repair for the Doodle Engine.
+ *
+ * Loading a save runs two passes:
+ * - Migration upgrades the saved state from the version it was written with
+ *   to the current save version, one registered step at a time.
+ * - Repair reconciles the state with the current content, dropping references
+ *   to items, characters, quests, and dialogue nodes that were renamed or
+ *   removed since the save was made.
+ *
+ * Both passes are pure and report what they changed, so a game can log or
+ * show what happened to an old save.
+ */
+
+import type { ContentRegistry } from '../types/registry';
+import type { GameState, Time } from '../types/state';
+import type { SaveData, SaveMigration, SaveRepair } from '../types/save';
+import { createRandomState } from '../random';
+import { initialStatValues } from '../stats';
+import { absoluteHour } from '../events';
+import { clampVariable } from '../variables';
+
+/** The save format version `saveGame` writes. */
+export const CURRENT_SAVE_VERSION = '1.5';
+
+/**
+ * The migration chain, keyed by the version each step upgrades from. To
+ * change the save format, add a step from the current version and bump
+ * CURRENT_SAVE_VERSION to its `to`.
+ */
+export const SAVE_MIGRATIONS: Readonly<Record<string, SaveMigration>> = {
+    '1.0': {
+        to: '1.1',
+        description:
+            'Filled in state fields added since version 1.0 (tracked quest, notes, random state, and pending media)',
+        migrate: (state) => ({
+            unlockedJournalEntries: [],
+            playerNotes: [],
+            notifications: [],
+            pendingSounds: [],
+            musicOverride: null,
+            pendingVideo: null,
+            pendingInterlude: null,
+            mapEnabled: true,
+            ...state,
+            // After the spread, so a stored null is replaced as well.
+            trackedQuest: state.trackedQuest ?? null,
+            randomState: state.randomState ?? createRandomState(),
+        }),
+    },
+    '1.1': {
+        to: '1.2',
+        description:
+            'Started the timed event clock at the saved time, so events already passed do not fire',
+        migrate: (state) => ({
+            ...state,
+            eventClock: absoluteHour(state.currentTime as Time),
+            eventTimers: {},
+            queuedEvents: [],
+        }),
+    },
+    '1.2': {
+        to: '1.3',
+        description:
+            'Counted carried items, merging an item listed more than once in the inventory into one stack',
+        migrate: (state) => {
+            const itemCounts: Record<string, number> = {};
+            for (const itemId of state.inventory as string[]) {
+                itemCounts[itemId] = (itemCounts[itemId] ?? 0) + 1;
+            }
+            return {
+                ...state,
+                inventory: [...new Set(state.inventory as string[])],
+                itemCounts,
+            };
+        },
+    },
+    '1.3': {
+        to: '1.4',
+        description: 'Started an empty conversation log',
+        migrate: (state) => ({
+            ...state,
+            dialogueLog: [],
+        }),
+    },
+    '1.4': {
+        to: '1.5',
+        description:
+            'Counted the saved location as visited, so its first-visit effects do not run again',
+        migrate: (state) => {
+            const visits = {
+                ...(state.locationVisits as Record<string, number> | undefined),
+            };
+            const current = state.currentLocation as string;
+            visits[current] = Math.max(visits[current] ?? 0, 1);
+            return { ...state, locationVisits: visits };
+        },
+    },
+};
+
+/**
+ * Upgrade a save to the current version by running each registered
+ * migration in turn. A save without a version is treated as version 1.0.
+ *
+ * @param saveData - Save data as it was stored
+ * @param migrations - The chain to follow (the built-in chain by default)
+ * @param currentVersion - The version to stop at
+ * @returns The upgraded save and the description of each migration applied
+ * @throws When no chain of migrations leads from the save's version to the
+ * current one, e.g. a save from a newer release of the game
+ */
+export function migrateSave(
+    saveData: SaveData,
+    migrations: Readonly<Record<string, SaveMigration>> = SAVE_MIGRATIONS,
+    currentVersion: string = CURRENT_SAVE_VERSION
+): { save: SaveData; migrations: string[] } {
+    let version = saveData.version ?? '1.0';
+    let state = saveData.state as unknown as Record<string, unknown>;
+    const applied: string[] = [];
+    const seen = new Set<string>();
+
+    while (version !== currentVersion) {
+        const migration = migrations[version];
+        if (!migration || seen.has(version)) {
+            throw new Error(
+                `Save version "${version}" cannot be loaded: this game reads save version ${currentVersion}`
+            );
+        }
+        seen.add(version);
+        state = migration.migrate(state);
+        applied.push(migration.description);
+        version = migration.to;
+    }
+
+    return {
+        save: {
+            ...saveData,
+            version,
+            state: state as unknown as GameState,
+        },
+        migrations: applied,
+    };
+}
+
+/**
+ * Reconcile a loaded state with the current content. References to content
+ * that no longer exists are dropped, content added since the save gets its
+ * starting state, and an in-progress conversation on a removed dialogue or
+ * node is ended. Declared flags and variables the save lacks get their
+ * defaults, and number variables are moved inside their declared range.
+ *
+ * @param state - Game state from a migrated save
+ * @param registry - The game's current content
+ * @returns The repaired state and a list of every change made
+ */
+export function repairGameState(
+    state: GameState,
+    registry: ContentRegistry
+): { state: GameState; repairs: SaveRepair[] } {
+    const repairs: SaveRepair[] = [];
+    const repair = (field: keyof GameState, id: string, message: string) =>
+        repairs.push({ field, id, message });
+
+    const inventory = state.inventory.filter((itemId) => {
+        if (registry.items[itemId]) return true;
+        repair(
+            'inventory',
+            itemId,
+            `Removed unknown item "${itemId}" from inventory`
+        );
+        return false;
+    });
+
+    // A removed item's count goes with it; the inventory repair reports it.
+    const itemCounts = state.itemCounts
+        ? Object.fromEntries(
+              Object.entries(state.itemCounts).filter(
+                  ([itemId]) => registry.items[itemId]
+              )
+          )
+        : undefined;
+
+    const itemLocations: Record<string, string> = {};
+    for (const [itemId, location] of Object.entries(state.itemLocations)) {
+        if (registry.items[itemId]) {
+            itemLocations[itemId] = location;
+        } else {
+            repair(
+                'itemLocations',
+                itemId,
+                `Removed the location of unknown item "${itemId}"`
+            );
+        }
+    }
+    for (const [itemId, item] of Object.entries(registry.items)) {
+        if (itemLocations[itemId] !== undefined) continue;
+        itemLocations[itemId] = item.location;
+        repair(
+            'itemLocations',
+            itemId,
+            `Placed new item "${itemId}" at its starting location "${item.location}"`
+        );
+    }
+
+    const characterState: GameState['characterState'] = {};
+    for (const [characterId, character] of Object.entries(
+        state.characterState
+    )) {
+        if (registry.characters[characterId]) {
+            characterState[characterId] = character;
+        } else {
+            repair(
+                'characterState',
+                characterId,
+                `Removed state for unknown character "${characterId}"`
+            );
+        }
+    }
+    for (const [characterId, character] of Object.entries(
+        registry.characters
+    )) {
+        if (characterState[characterId]) continue;
+        characterState[characterId] = {
+            location: character.location,
+            inParty: false,
+            relationship: 0,
+            stats: initialStatValues(character.stats),
+        };
+        repair(
+            'characterState',
+            characterId,
+            `Added starting state for new character "${characterId}"`
+        );
+    }
+
+    const questProgress: Record<string, string> = {};
+    for (const [questId, stageId] of Object.entries(state.questProgress)) {
+        if (registry.quests[questId]) {
+            questProgress[questId] = stageId;
+        } else {
+            repair(
+                'questProgress',
+                questId,
+                `Removed progress for unknown quest "${questId}"`
+            );
+        }
+    }
+
+    let trackedQuest = state.trackedQuest;
+    if (trackedQuest !== null && !registry.quests[trackedQuest]) {
+        repair(
+            'trackedQuest',
+            trackedQuest,
+            `Stopped tracking unknown quest "${trackedQuest}"`
+        );
+        trackedQuest = null;
+    }
+
+    const unlockedJournalEntries = state.unlockedJournalEntries.filter(
+        (entryId) => {
+            if (registry.journalEntries[entryId]) return true;
+            repair(
+                'unlockedJournalEntries',
+                entryId,
+                `Removed unknown journal entry "${entryId}"`
+            );
+            return false;
+        }
+    );
+
+    let dialogueState = state.dialogueState;
+    if (dialogueState) {
+        const { dialogueId, nodeId } = dialogueState;
+        const dialogue = registry.dialogues[dialogueId];
+        if (!dialogue) {
+            repair(
+                'dialogueState',
+                dialogueId,
+                `Ended the conversation in unknown dialogue "${dialogueId}"`
+            );
+            dialogueState = null;
+        } else if (!dialogue.nodes.some((node) => node.id === nodeId)) {
+            repair(
+                'dialogueState',
+                `${dialogueId}.${nodeId}`,
+                `Ended the conversation at unknown node "${nodeId}" in dialogue "${dialogueId}"`
+            );
+            dialogueState = null;
+        } else {
+            // A RETURN must land on a node that still exists.
+            const lost = dialogueState.callStack?.find(
+                (frame) =>
+                    frame.nodeId !== null &&
+                    !registry.dialogues[frame.dialogueId]?.nodes.some(
+                        (node) => node.id === frame.nodeId
+                    )
+            );
+            if (lost) {
+                repair(
+                    'dialogueState',
+                    `${lost.dialogueId}.${lost.nodeId}`,
+                    `Ended the conversation, which would return to unknown node "${lost.nodeId}" in dialogue "${lost.dialogueId}"`
+                );
+                dialogueState = null;
+            }
+        }
+    }
+
+    let pendingInterlude = state.pendingInterlude;
+    if (pendingInterlude !== null && !registry.interludes[pendingInterlude]) {
+        repair(
+            'pendingInterlude',
+            pendingInterlude,
+            `Skipped unknown interlude "${pendingInterlude}"`
+        );
+        pendingInterlude = null;
+    }
+
+    const events = registry.events ?? {};
+    let eventTimers = state.eventTimers;
+    if (eventTimers) {
+        eventTimers = { ...eventTimers };
+        for (const eventId of Object.keys(eventTimers)) {
+            if (events[eventId]) continue;
+            delete eventTimers[eventId];
+            repair(
+                'eventTimers',
+                eventId,
+                `Removed the countdown of unknown event "${eventId}"`
+            );
+        }
+    }
+
+    const queuedEvents = state.queuedEvents?.filter((eventId) => {
+        if (events[eventId]) return true;
+        repair(
+            'queuedEvents',
+            eventId,
+            `Removed unknown event "${eventId}" from the event queue`
+        );
+        return false;
+    });
+
+    let activeShop = state.activeShop;
+    if (activeShop && !registry.characters[activeShop]?.shop) {
+        repair(
+            'activeShop',
+            activeShop,
+            `Closed the shop of "${activeShop}", who is no longer a merchant`
+        );
+        activeShop = null;
+    }
+
+    const factionReputation: Record<string, number> = {};
+    for (const [factionId, reputation] of Object.entries(
+        state.factionReputation ?? {}
+    )) {
+        if (registry.factions?.[factionId]) {
+            factionReputation[factionId] = reputation;
+        } else {
+            repair(
+                'factionReputation',
+                factionId,
+                `Removed reputation with unknown faction "${factionId}"`
+            );
+        }
+    }
+    for (const [factionId, faction] of Object.entries(
+        registry.factions ?? {}
+    )) {
+        if (factionReputation[factionId] !== undefined) continue;
+        factionReputation[factionId] = faction.reputation ?? 0;
+        repair(
+            'factionReputation',
+            factionId,
+            `Added starting reputation for new faction "${factionId}"`
+        );
+    }
+
+    let locationVisits: Record<string, number> | undefined;
+    if (state.locationVisits) {
+        locationVisits = {};
+        for (const [locationId, visits] of Object.entries(
+            state.locationVisits
+        )) {
+            if (registry.locations[locationId]) {
+                locationVisits[locationId] = visits;
+            } else {
+                repair(
+                    'locationVisits',
+                    locationId,
+                    `Removed the visit count of unknown location "${locationId}"`
+                );
+            }
+        }
+    }
+
+    const schema = registry.variableSchema;
+    const flags = { ...state.flags };
+    for (const [name, flag] of Object.entries(schema?.flags ?? {})) {
+        if (flags[name] !== undefined || typeof flag.default !== 'boolean') {
+            continue;
+        }
+        flags[name] = flag.default;
+        repair('flags', name, `Added the default of new flag "${name}"`);
+    }
+    const variables = { ...state.variables };
+    for (const [name, variable] of Object.entries(schema?.variables ?? {})) {
+        const value = variables[name];
+        if (value === undefined) {
+            if (variable.default === undefined) continue;
+            variables[name] = clampVariable(variable.default, variable);
+            repair(
+                'variables',
+                name,
+                `Added the default of new variable "${name}"`
+            );
+            continue;
+        }
+        const clamped = clampVariable(value, variable);
+        if (clamped === value) continue;
+        variables[name] = clamped;
+        repair(
+            'variables',
+            name,
+            `Moved variable "${name}" from ${value} to ${clamped}, inside its declared range`
+        );
+    }
+
+    if (repairs.length === 0) return { state, repairs };
+    return {
+        state: {
+            ...state,
+            flags,
+            variables,
+            inventory,
+            itemLocations,
+            itemCounts,
+            characterState,
+            questProgress,
+            trackedQuest,
+            unlockedJournalEntries,
+            dialogueState,
+            pendingInterlude,
+            eventTimers,
+            queuedEvents,
+            activeShop,
+            factionReputation,
+            locationVisits,
+        },
+        repairs,
+    };
+}
@@ -0,0 +1,82 @@
+/**
+ * Character schedules: where a character is by time of day.
+ *
+ * A schedule is a list of entries, each a location with an hour range and
+ * optional days, weekdays and conditions. The first entry that applies
+ * decides where the character is; when none applies, the character is at its
+ * starting location. Characters in the party, and characters an effect has
+ * moved with setCharacterLocation, are left where they are until they leave
+ * the party or a clearCharacterLocation effect puts them back on schedule.
+ */
+
+import type { Character } from './types/entities';
+import type { ContentRegistry } from './types/registry';
+import type { GameState } from './types/state';
+import { evaluateConditions, isHourInRange } from './conditions';
+import { calendarDate } from './calendar';
+
+/**
+ * Where a character's schedule puts it right now.
+ *
+ * @param character - The character definition
+ * @param state - Current game state
+ * @param registry - Content registry (for entry conditions)
+ * @returns The scheduled location ID, or null if the character has no schedule
+ */
+export function scheduledLocation(
+    character: Character,
+    state: GameState,
+    registry: ContentRegistry
+): string | null {
+    if (!character.schedule || character.schedule.length === 0) {
+        return null;
+    }
+
+    const { day, hour } = state.currentTime;
+    const weekday = calendarDate(day, registry.calendar).weekday?.id;
+    const entry = character.schedule.find(
+        (candidate) =>
+            isHourInRange(hour, candidate.startHour, candidate.endHour) &&
+            (!candidate.days || candidate.days.includes(day)) &&
+            (!candidate.weekdays ||
+                (weekday !== undefined &&
+                    candidate.weekdays.includes(weekday))) &&
+            (!candidate.conditions ||
+                evaluateConditions(candidate.conditions, state, registry))
+    );
+    return entry ? entry.location : character.location;
+}
+
+/**
+ * Move every scheduled character to where its schedule puts it.
+ *
+ * @param state - Current game state
+ * @param registry - Content registry
+ * @returns The updated state, or `state` itself when nobody moved
+ */
+export function applySchedules(
+    state: GameState,
+    registry: ContentRegistry
+): GameState {
+    let characterState = state.characterState;
+    for (const [characterId, character] of Object.entries(
+        registry.characters
+    )) {
+        const current = state.characterState[characterId];
+        if (!current || current.inParty || current.scheduleOverridden) {
+            continue;
+        }
+        const location = scheduledLocation(character, state, registry);
+        if (location === null || location === current.location) {
+            continue;
+        }
+        if (characterState === state.characterState) {
+            characterState = { ...characterState };
+        }
+        characterState[characterId] = { ...current, location };
+    }
+
+    return characterState === state.characterState
+        ? state
+        : { ...state, characterState };
+}
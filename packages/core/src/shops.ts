@@ -0,0 +1,142 @@
+/**
+ * Shops: what merchants sell and buy, and for how much.
+ *
+ * A merchant is a character with a `shop` block. The merchant sells the items
+ * whose location is its character ID, one of each, and the counts listed in
+ * the shop's `stock`, at each item's `price` stat. It buys items from the
+ * player's inventory at their `sellPrice` stat (half the price, rounded down,
+ * when there is none). Items without a price are not traded. Money is a
+ * variable, `gold` unless the shop names another.
+ *
+ * Once an item has been bought or sold, the merchant's count of it is kept in
+ * `shopStock` in the game state, so a sold arrow adds to the merchant's
+ * arrows and buying takes one at a time.
+ */
+
+import type { Item, Shop } from './types/entities';
+import type { GameState } from './types/state';
+
+/** The variable that holds the player's money when a shop names none. */
+export const DEFAULT_CURRENCY = 'gold';
+
+/**
+ * The variable a shop takes and pays money from.
+ *
+ * @param shop - The merchant's shop
+ * @returns The currency variable name
+ */
+export function shopCurrency(shop: Shop): string {
+    return shop.currency || DEFAULT_CURRENCY;
+}
+
+function priceStat(item: Item, stat: string): number | null {
+    const value = item.stats?.[stat];
+    return typeof value === 'number' && Number.isFinite(value) && value >= 0
+        ? value
+        : null;
+}
+
+/**
+ * How many of an item a merchant has for sale.
+ *
+ * @param state - Current game state
+ * @param merchantId - Character ID of the merchant
+ * @param shop - The merchant's shop
+ * @param itemId - The item to count
+ * @returns The count traded to, the shop's starting stock, or 1 when the
+ * item's location is the merchant; 0 otherwise
+ */
+export function stockCount(
+    state: GameState,
+    merchantId: string,
+    shop: Shop,
+    itemId: string
+): number {
+    const traded = state.shopStock?.[merchantId]?.[itemId];
+    if (traded !== undefined) {
+        return traded;
+    }
+    return (
+        shop.stock?.[itemId] ??
+        (state.itemLocations[itemId] === merchantId ? 1 : 0)
+    );
+}
+
+/**
+ * The items a merchant has at least one of, in the order they were placed
+ * with the merchant, then the shop's starting stock, then what was traded.
+ *
+ * @param state - Current game state
+ * @param merchantId - Character ID of the merchant
+ * @param shop - The merchant's shop
+ * @returns Item IDs
+ */
+export function stockedItems(
+    state: GameState,
+    merchantId: string,
+    shop: Shop
+): string[] {
+    const itemIds = new Set([
+        ...Object.keys(state.itemLocations).filter(
+            (itemId) => state.itemLocations[itemId] === merchantId
+        ),
+        ...Object.keys(shop.stock ?? {}),
+        ...Object.keys(state.shopStock?.[merchantId] ?? {}),
+    ]);
+    return [...itemIds].filter(
+        (itemId) => stockCount(state, merchantId, shop, itemId) > 0
+    );
+}
+
+/**
+ * The game state with a merchant's count of an item set.
+ *
+ * @param state - Current game state
+ * @param merchantId - Character ID of the merchant
+ * @param itemId - The item
+ * @param count - How many the merchant now has
+ * @returns Updated state
+ */
+export function withStockCount(
+    state: GameState,
+    merchantId: string,
+    itemId: string,
+    count: number
+): GameState {
+    return {
+        ...state,
+        shopStock: {
+            ...state.shopStock,
+            [merchantId]: {
+                ...state.shopStock?.[merchantId],
+                [itemId]: count,
+            },
+        },
+    };
+}
+
+/**
+ * What a merchant charges for an item.
+ *
+ * @param item - The item definition
+ * @returns The item's `price` stat, or null if it has no usable price
+ */
+export function buyPrice(item: Item): number | null {
+    return priceStat(item, 'price');
+}
+
+/**
+ * What a merchant pays the player for an item.
+ *
+ * @param item - The item definition
+ * @returns The item's `sellPrice` stat, half its `price` (rounded down) when
+ * it has none, or null if it has neither
+ */
+export function sellPrice(item: Item): number | null {
+    const explicit = priceStat(item, 'sellPrice');
+    if (explicit !== null) {
+        return explicit;
+    }
+    const price = buyPrice(item);
+    return price === null ? null : Math.floor(price / 2);
+}
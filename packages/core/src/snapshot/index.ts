@@ -12,26 +12,51 @@
 
 import type { ContentRegistry, LocaleData } from '../types/registry';
 import type { GameState } from '../types/state';
-import type { Dialogue, DialogueNode } from '../types/entities';
+import type { Dialogue, DialogueNode, Item, Location } from '../types/entities';
 import type {
     Snapshot,
     SnapshotLocation,
     SnapshotCharacter,
+    SnapshotDate,
+    SnapshotFaction,
     SnapshotItem,
+    SnapshotItemUse,
     SnapshotChoice,
     SnapshotDialogue,
+    SnapshotDialogueLogEntry,
     SnapshotQuest,
     SnapshotJournalEntry,
     SnapshotMap,
     SnapshotMapLocation,
     SnapshotInterlude,
     SnapshotPlayerCharacter,
+    SnapshotShop,
+    SnapshotShopItem,
 } from '../types/snapshot';
-import { resolveText, type TextCharacterMap } from '../localization';
+import {
+    localeDataFor,
+    resolveText,
+    type MissingLocaleKey,
+    type TextCharacterMap,
+    type TextDateValues,
+} from '../localization';
+import { PSEUDO_LOCALE, pseudoLocalize } from '../localization/pseudo';
 import { evaluateConditions } from '../conditions';
 import { resolveAssetPath } from '../assets/paths';
 import { statNameSources } from '../stats';
 import { getQuestStatus } from '../quests';
+import { relationshipTiers, standingTier } from '../factions';
+import { calendarDate } from '../calendar';
+import {
+    buyPrice,
+    sellPrice,
+    shopCurrency,
+    stockCount,
+    stockedItems,
+} from '../shops';
+import { itemCount } from '../inventory';
+import { availableItemUses } from '../item-uses';
+import { availableExits, exitHours } from '../exits';
 
 // =============================================================================
 // UI String Defaults
@@ -62,6 +87,9 @@ export const UI_DEFAULTS: Readonly<Record<string, string>> = {
     'ui.party_members': 'Party members',
     'ui.previous_character': 'Previous',
     'ui.next_character': 'Next',
+    'ui.character_details': 'Details',
+    'ui.reputation': 'Reputation',
+    'ui.relationship': 'Relationship',
     'ui.create_player': 'Create your character',
     'ui.player_name': 'Name',
     'ui.player_title': 'Title',
@@ -73,7 +101,15 @@ export const UI_DEFAULTS: Readonly<Record<string, string>> = {
     'ui.begin_adventure': 'Begin adventure',
     'ui.resources': 'Resources',
     'ui.no_items': 'No items',
+    'ui.shop_buy': 'Buy',
+    'ui.shop_sell': 'Sell',
+    'ui.shop_for_sale': 'For sale',
+    'ui.shop_your_items': 'Your items',
+    'ui.shop_nothing_for_sale': 'Nothing for sale',
+    'ui.shop_nothing_to_sell': 'Nothing to sell',
+    'ui.shop_money': 'You have {money}',
     'ui.location_banner': 'Location Banner',
+    'ui.exits': 'Exits',
     'ui.close': 'Close',
     'ui.paused': 'Paused',
     'ui.quit_to_title': 'Quit to Title',
@@ -92,6 +128,9 @@ export const UI_DEFAULTS: Readonly<Record<string, string>> = {
     'ui.volume_voice': 'Voice',
     'ui.volume_ui': 'UI Sounds',
     'ui.back': 'Back',
+    'ui.dialogue_log': 'Log',
+    'ui.dialogue_log_empty': 'Nothing has been said yet',
+    'ui.replay_voice': 'Replay',
     'ui.saved': 'Saved!',
     'ui.loaded': 'Loaded!',
     'ui.new_save': 'New Save',
@@ -121,6 +160,8 @@ export const UI_DEFAULTS: Readonly<Record<string, string>> = {
     'ui.travel': 'Travel',
     'ui.cancel': 'Cancel',
     'ui.day': 'Day {day}',
+    'ui.date': '{month} {day}, Year {year}',
+    'ui.date_weekday': '{weekday}, {date}',
     'ui.time_dawn': 'Dawn',
     'ui.time_morning': 'Morning',
     'ui.time_midday': 'Midday',
@@ -136,13 +177,20 @@ const UI_KEYS = Object.keys(UI_DEFAULTS);
  * Build the resolved UI strings record from locale data.
  * Falls back to English defaults for any missing keys.
  *
- * @param localeData - Flat locale key-value map for the current language
+ * @param localeData - Flat locale key-value map for the current language,
+ * with its fallbacks filled in by localeDataFor()
+ * @param locale - Language code; the pseudo-locale pseudo-localizes every
+ * string
  * @returns Record of all UI keys with resolved strings
  */
-export function buildUIStrings(localeData: LocaleData): Record<string, string> {
+export function buildUIStrings(
+    localeData: LocaleData,
+    locale?: string
+): Record<string, string> {
     const ui: Record<string, string> = {};
     for (const key of UI_KEYS) {
-        ui[key] = localeData[key] ?? UI_DEFAULTS[key];
+        const text = localeData[key] ?? UI_DEFAULTS[key];
+        ui[key] = locale === PSEUDO_LOCALE ? pseudoLocalize(text) : text;
     }
     return ui;
 }
@@ -152,30 +200,76 @@ export function buildUIStrings(localeData: LocaleData): Record<string, string> {
  *
  * @param state - Current game state
  * @param registry - Content registry with all entities
+ * @param onMissingKey - Called for each @key the locale and its fallbacks
+ * lack, which the player would see as raw @key text
  * @returns Complete snapshot ready for rendering
  */
 export function buildSnapshot(
     state: GameState,
-    registry: ContentRegistry
+    registry: ContentRegistry,
+    onMissingKey?: (missing: MissingLocaleKey) => void
 ): Snapshot {
-    // Get locale data for current language
-    const localeData = registry.locales[state.currentLocale] ?? {};
+    // Get locale data for current language, with its fallbacks
+    const localeData = localeDataFor(registry, state.currentLocale);
+
+    // Report a @key nothing in the locale chain has
+    const checkKey = (
+        text: string,
+        place?: Pick<MissingLocaleKey, 'dialogueId' | 'nodeId'>
+    ) => {
+        if (
+            onMissingKey &&
+            text.startsWith('@') &&
+            localeData[text.slice(1)] === undefined
+        ) {
+            onMissingKey({
+                key: text.slice(1),
+                locale: state.currentLocale,
+                ...place,
+            });
+        }
+    };
 
     const textCharacters = buildTextCharacterMap(state, registry);
 
+    // Build resolved UI strings (with English fallbacks)
+    const ui = buildUIStrings(localeData, state.currentLocale);
+
+    // Build the calendar date (null without a calendar)
+    const date = buildDateSnapshot(state, registry, localeData, ui, checkKey);
+    const textDate: TextDateValues | undefined = date
+        ? { date: date.date, weekday: date.weekday, season: date.season }
+        : undefined;
+
     // Helper to resolve localization keys and interpolation
-    const resolve = (text: string) =>
-        resolveText(text, localeData, state.variables, textCharacters);
+    const format = (text: string, variables = state.variables) =>
+        resolveText(
+            text,
+            localeData,
+            variables,
+            textCharacters,
+            textDate,
+            state.currentLocale
+        );
+    const resolve = (text: string) => {
+        checkKey(text);
+        return format(text);
+    };
 
-    // Build resolved UI strings (with English fallbacks)
-    const ui = buildUIStrings(localeData);
+    // The current line and its choices report the node they belong to
+    const dialoguePlace = state.dialogueState
+        ? {
+              dialogueId: state.dialogueState.dialogueId,
+              nodeId: state.dialogueState.nodeId,
+          }
+        : undefined;
+    const resolveLine = (text: string) => {
+        checkKey(text, dialoguePlace);
+        return format(text);
+    };
 
     // Build location snapshot
-    const location = buildLocationSnapshot(
-        state.currentLocation,
-        registry,
-        resolve
-    );
+    const location = buildLocationSnapshot(state, registry, resolve);
 
     // Build characters at current location
     const charactersHere = buildCharactersHereSnapshot(
@@ -191,15 +285,27 @@ export function buildSnapshot(
     const { dialogue, choices } = buildDialogueSnapshot(
         state,
         registry,
-        resolve,
+        resolveLine,
         ui['ui.narrator']
     );
 
     // Build party members
     const party = buildPartySnapshot(state, registry, resolve);
 
+    // Build factions with the player's reputation
+    const factions = buildFactionsSnapshot(state, registry, resolve);
+
     const player = buildPlayerSnapshot(state, registry, resolve);
 
+    // Log lines were checked when they were the current line
+    const dialogueLog = buildDialogueLogSnapshot(
+        state,
+        registry,
+        format,
+        ui['ui.narrator'],
+        player.name
+    );
+
     // Build inventory
     const inventory = buildInventorySnapshot(state, registry, resolve);
 
@@ -258,6 +364,8 @@ export function buildSnapshot(
         }
     }
 
+    const shop = buildShopSnapshot(state, registry, resolve);
+
     return {
         player,
         location,
@@ -265,13 +373,16 @@ export function buildSnapshot(
         itemsHere,
         choices,
         dialogue,
+        dialogueLog,
         party,
+        factions,
         inventory,
         quests,
         journal,
         playerNotes: [...state.playerNotes],
         variables: { ...state.variables },
         time: state.currentTime,
+        date,
         map,
         music,
         ambient,
@@ -279,11 +390,63 @@ export function buildSnapshot(
         pendingSounds,
         pendingVideo,
         pendingInterlude,
+        shop,
         ui,
         currentLocale: state.currentLocale,
     };
 }
 
+/**
+ * Build the calendar date of the current day, with localized names.
+ * Returns null when the game has no calendar.
+ */
+function buildDateSnapshot(
+    state: GameState,
+    registry: ContentRegistry,
+    localeData: LocaleData,
+    ui: Record<string, string>,
+    checkKey: (text: string) => void
+): SnapshotDate | null {
+    const calendar = registry.calendar;
+    if (!calendar) return null;
+
+    const current = calendarDate(state.currentTime.day, calendar);
+    const name = (text: string | undefined) => {
+        if (!text) return '';
+        checkKey(text);
+        return resolveText(
+            text,
+            localeData,
+            undefined,
+            undefined,
+            undefined,
+            state.currentLocale
+        );
+    };
+    const weekday = name(current.weekday?.name);
+    const month = name(current.month?.name);
+    const date = current.month
+        ? resolveText(ui['ui.date'], localeData, {
+              month,
+              day: current.day,
+              year: current.year,
+          })
+        : resolveText(ui['ui.day'], localeData, { day: current.day });
+
+    return {
+        text: weekday
+            ? resolveText(ui['ui.date_weekday'], localeData, { weekday, date })
+            : date,
+        date,
+        weekday,
+        month,
+        season: name(current.season?.name),
+        year: current.year,
+        day: current.day,
+        minutes: calendar.minutes === true,
+    };
+}
+
 function buildTextCharacterMap(
     state: GameState,
     registry: ContentRegistry
@@ -359,13 +522,15 @@ function buildPlayerSnapshot(
 // =============================================================================
 
 /**
- * Build location snapshot with resolved localization.
+ * Build location snapshot with resolved localization, including the exits the
+ * player can take.
  */
 function buildLocationSnapshot(
-    locationId: string,
+    state: GameState,
     registry: ContentRegistry,
     resolve: (text: string) => string
 ): SnapshotLocation {
+    const locationId = state.currentLocation;
     const location = registry.locations[locationId];
 
     if (!location) {
@@ -381,11 +546,34 @@ function buildLocationSnapshot(
     return {
         id: location.id,
         name: resolve(location.name),
-        description: resolve(location.description),
+        description: resolve(locationDescription(location, state, registry)),
         banner: resolveAssetPath(location.banner, 'banner'),
+        exits: availableExits(location, state, registry).map((exit) => ({
+            id: exit.id,
+            label: resolve(exit.label),
+            target: exit.target,
+            hours: exitHours(exit),
+        })),
     };
 }
 
+/**
+ * The description to show for a location: the first variant whose conditions
+ * pass, or the plain description when none does.
+ */
+function locationDescription(
+    location: Location,
+    state: GameState,
+    registry: ContentRegistry
+): string {
+    const variant = location.descriptions?.find(
+        (candidate) =>
+            !candidate.conditions ||
+            evaluateConditions(candidate.conditions, state, registry)
+    );
+    return variant?.text ?? location.description;
+}
+
 /**
  * Build snapshots for all characters at the current location.
  */
@@ -415,6 +603,12 @@ function buildCharactersHereSnapshot(
                     location: characterState.location,
                     inParty: characterState.inParty,
                     relationship: characterState.relationship,
+                    relationshipTier: resolve(
+                        standingTier(
+                            characterState.relationship,
+                            relationshipTiers(character, registry)
+                        )?.name ?? ''
+                    ),
                     ...localizedStats(
                         characterState.stats,
                         statNameSources(character.stats),
@@ -444,14 +638,7 @@ function buildItemsHereSnapshot(
         if (locationId === state.currentLocation) {
             const item = registry.items[itemId];
             if (item) {
-                itemsHere.push({
-                    id: item.id,
-                    name: resolve(item.name),
-                    description: resolve(item.description),
-                    icon: resolveAssetPath(item.icon, 'item'),
-                    image: resolveAssetPath(item.image, 'item'),
-                    stats: item.stats,
-                });
+                itemsHere.push(buildItemSnapshot(item, resolve));
             }
         }
     }
@@ -526,6 +713,43 @@ function buildDialogueSnapshot(
     return { dialogue: dialogueSnapshot, choices };
 }
 
+/**
+ * Build the conversation log. Lines are spoken by their character or the
+ * narrator; chosen responses are spoken by the player. Each entry shows the
+ * variable values it was logged with.
+ */
+function buildDialogueLogSnapshot(
+    state: GameState,
+    registry: ContentRegistry,
+    resolve: (
+        text: string,
+        variables?: Record<string, number | string>
+    ) => string,
+    narratorName: string,
+    playerName: string
+): SnapshotDialogueLogEntry[] {
+    return (state.dialogueLog ?? []).map((entry) => {
+        let speakerName = narratorName;
+        if (entry.kind === 'choice') {
+            speakerName = playerName;
+        } else if (entry.speaker) {
+            speakerName = resolve(
+                registry.characters[entry.speaker]?.name ?? entry.speaker
+            );
+        }
+        return {
+            kind: entry.kind,
+            speaker: entry.speaker,
+            speakerName,
+            text: resolve(entry.text, {
+                ...state.variables,
+                ...entry.variables,
+            }),
+            voice: resolveAssetPath(entry.voice, 'voice'),
+        };
+    });
+}
+
 function willContinueEndDialogue(
     node: DialogueNode,
     dialogue: Dialogue,
@@ -564,6 +788,17 @@ function willContinueEndDialogue(
     if (dialogueEffect === 'start') return false;
     if (dialogueEffect === 'end') return true;
 
+    // A branch without a route of its own falls through to the node's.
+    const route =
+        branch && (branch.next || branch.call || branch.returns)
+            ? branch
+            : node;
+    if (route.call) return false;
+    if (route.returns) {
+        const frame = state.dialogueState?.callStack?.at(-1);
+        return !frame || frame.nodeId === null;
+    }
+
     const next = branch?.next ?? node.next;
     return !next || !dialogue.nodes.some((candidate) => candidate.id === next);
 }
@@ -593,6 +828,12 @@ function buildPartySnapshot(
                     location: characterState.location,
                     inParty: characterState.inParty,
                     relationship: characterState.relationship,
+                    relationshipTier: resolve(
+                        standingTier(
+                            characterState.relationship,
+                            relationshipTiers(character, registry)
+                        )?.name ?? ''
+                    ),
                     ...localizedStats(
                         characterState.stats,
                         statNameSources(character.stats),
@@ -607,7 +848,8 @@ function buildPartySnapshot(
 }
 
 /**
- * Build snapshots for all items in inventory.
+ * Build snapshots for all items in inventory, with the uses the player can
+ * pick for each.
  */
 function buildInventorySnapshot(
     state: GameState,
@@ -615,22 +857,112 @@ function buildInventorySnapshot(
     resolve: (text: string) => string
 ): SnapshotItem[] {
     return state.inventory
-        .map((itemId) => {
+        .map((itemId): SnapshotItem | null => {
             const item = registry.items[itemId];
-            if (!item) return null;
-
+            if (!item) {
+                return null;
+            }
+            const uses: SnapshotItemUse[] = availableItemUses(
+                item,
+                state,
+                registry
+            ).map((use) => ({
+                id: use.id,
+                label: resolve(use.label),
+                target: use.target ?? null,
+            }));
             return {
-                id: item.id,
-                name: resolve(item.name),
-                description: resolve(item.description),
-                icon: resolveAssetPath(item.icon, 'item'),
-                image: resolveAssetPath(item.image, 'item'),
-                stats: item.stats,
+                ...buildItemSnapshot(item, resolve, itemCount(state, itemId)),
+                uses,
             };
         })
         .filter((item): item is SnapshotItem => item !== null);
 }
 
+/**
+ * Build the snapshot of one item with resolved localization.
+ */
+function buildItemSnapshot(
+    item: Item,
+    resolve: (text: string) => string,
+    count = 1
+): SnapshotItem {
+    return {
+        id: item.id,
+        name: resolve(item.name),
+        description: resolve(item.description),
+        icon: resolveAssetPath(item.icon, 'item'),
+        image: resolveAssetPath(item.image, 'item'),
+        stats: item.stats,
+        count,
+    };
+}
+
+/**
+ * Build the open shop snapshot: the merchant's priced items and the priced
+ * inventory items the merchant will buy. Null when no shop is open or the
+ * merchant has no shop.
+ */
+function buildShopSnapshot(
+    state: GameState,
+    registry: ContentRegistry,
+    resolve: (text: string) => string
+): SnapshotShop | null {
+    const merchantId = state.activeShop;
+    const merchant = merchantId ? registry.characters[merchantId] : undefined;
+    const shop = merchant?.shop;
+    if (!merchant || !shop) {
+        return null;
+    }
+
+    const priced = (
+        item: Item | undefined,
+        price: number | null,
+        count?: number
+    ) =>
+        item && price !== null
+            ? { ...buildItemSnapshot(item, resolve, count), price }
+            : null;
+    const isItem = (item: SnapshotShopItem | null): item is SnapshotShopItem =>
+        item !== null;
+
+    const stock = stockedItems(state, merchant.id, shop)
+        .map((itemId) => {
+            const item = registry.items[itemId];
+            return priced(
+                item,
+                item ? buyPrice(item) : null,
+                stockCount(state, merchant.id, shop, itemId)
+            );
+        })
+        .filter(isItem);
+
+    const sellable =
+        shop.buys === false
+            ? []
+            : state.inventory
+                  .map((itemId) => {
+                      const item = registry.items[itemId];
+                      return priced(
+                          item,
+                          item ? sellPrice(item) : null,
+                          itemCount(state, itemId)
+                      );
+                  })
+                  .filter(isItem);
+
+    const currency = shopCurrency(shop);
+    const money = state.variables[currency];
+    return {
+        merchantId: merchant.id,
+        merchantName: resolve(merchant.name),
+        currency,
+        money: typeof money === 'number' ? money : 0,
+        stock,
+        sellable,
+    };
+}
+
 /**
  * Build snapshots for all started quests.
  */
@@ -692,6 +1024,36 @@ function buildJournalSnapshot(
         .filter((entry): entry is SnapshotJournalEntry => entry !== null);
 }
 
+/**
+ * Build snapshots for every faction the player has a reputation with.
+ */
+function buildFactionsSnapshot(
+    state: GameState,
+    registry: ContentRegistry,
+    resolve: (text: string) => string
+): SnapshotFaction[] {
+    const factions: SnapshotFaction[] = [];
+
+    for (const [factionId, reputation] of Object.entries(
+        state.factionReputation ?? {}
+    )) {
+        const faction = registry.factions?.[factionId];
+        if (faction) {
+            factions.push({
+                id: faction.id,
+                name: resolve(faction.name),
+                description: resolve(faction.description ?? ''),
+                reputation,
+                tier: resolve(
+                    standingTier(reputation, faction.tiers)?.name ?? ''
+                ),
+            });
+        }
+    }
+
+    return factions;
+}
+
 /**
  * Build map snapshot with all locations.
  */
@@ -4,6 +4,8 @@
  * Conditions use a type field so the evaluator can dispatch by condition kind.
  */
 
+import type { ComparisonOperator, ValueExpression } from './expressions';
+
 /**
  * Check if a flag is set to true.
  * Example: hasFlag metBartender
@@ -25,13 +27,16 @@ export interface NotFlagCondition {
 }
 
 /**
- * Check if an item is in the player's inventory.
+ * Check if an item is in the player's inventory, optionally at least so many.
  * Example: hasItem rusty_key
+ * Example: hasItem potion 2
  */
 export interface HasItemCondition {
     type: 'hasItem';
     /** Item ID to check for */
     itemId: string;
+    /** Smallest count that passes (default 1) */
+    count?: number;
 }
 
 /**
@@ -42,8 +47,8 @@ export interface VariableEqualsCondition {
     type: 'variableEquals';
     /** Variable key to check */
     variable: string;
-    /** Value to compare against */
-    value: number | string;
+    /** Value to compare against, or an expression computed when checked */
+    value: number | string | ValueExpression;
 }
 
 /**
@@ -54,8 +59,8 @@ export interface VariableGreaterThanCondition {
     type: 'variableGreaterThan';
     /** Variable key to check */
     variable: string;
-    /** Value to compare against */
-    value: number;
+    /** Value to compare against, or an expression computed when checked */
+    value: number | ValueExpression;
 }
 
 /**
@@ -66,8 +71,22 @@ export interface VariableLessThanCondition {
     type: 'variableLessThan';
     /** Variable key to check */
     variable: string;
-    /** Value to compare against */
-    value: number;
+    /** Value to compare against, or an expression computed when checked */
+    value: number | ValueExpression;
+}
+
+/**
+ * Compare a numeric variable with a number or expression.
+ * Example: variable gold >= {price} * 2
+ */
+export interface VariableCompareCondition {
+    type: 'variable';
+    /** Variable key to check */
+    variable: string;
+    /** How the variable must relate to the value */
+    operator: ComparisonOperator;
+    /** Value to compare against, or an expression computed when checked */
+    value: number | ValueExpression;
 }
 
 /**
@@ -80,6 +99,28 @@ export interface AtLocationCondition {
     locationId: string;
 }
 
+/**
+ * Check if the player has ever arrived at a location.
+ * Example: visitedLocation tavern
+ */
+export interface VisitedLocationCondition {
+    type: 'visitedLocation';
+    /** Location ID to check */
+    locationId: string;
+}
+
+/**
+ * Check if the player has arrived at a location at least a number of times.
+ * Example: visitCount tavern 3
+ */
+export interface VisitCountCondition {
+    type: 'visitCount';
+    /** Location ID to check */
+    locationId: string;
+    /** Minimum number of visits (inclusive) */
+    count: number;
+}
+
 /**
  * Check if a quest is at a specific stage.
  * Example: questAtStage odd_jobs started
@@ -177,6 +218,30 @@ export interface RelationshipBelowCondition {
     value: number;
 }
 
+/**
+ * Check if reputation with a faction is above a value.
+ * Example: reputationAbove city_guard 5
+ */
+export interface ReputationAboveCondition {
+    type: 'reputationAbove';
+    /** Faction ID to check */
+    factionId: string;
+    /** Minimum reputation value (exclusive) */
+    value: number;
+}
+
+/**
+ * Check if reputation with a faction is below a value.
+ * Example: reputationBelow city_guard 0
+ */
+export interface ReputationBelowCondition {
+    type: 'reputationBelow';
+    /** Faction ID to check */
+    factionId: string;
+    /** Maximum reputation value (exclusive) */
+    value: number;
+}
+
 /**
  * Check if current time is within a range (24-hour format).
  * Example: timeIs 20 6 (8 PM to 6 AM)
@@ -189,6 +254,36 @@ export interface TimeIsCondition {
     endHour: number;
 }
 
+/**
+ * Check the day of the week in the game's calendar.
+ * Example: dayOfWeekIs market_day
+ */
+export interface DayOfWeekIsCondition {
+    type: 'dayOfWeekIs';
+    /** Weekday ID from the calendar */
+    weekday: string;
+}
+
+/**
+ * Check the season in the game's calendar.
+ * Example: seasonIs winter
+ */
+export interface SeasonIsCondition {
+    type: 'seasonIs';
+    /** Season ID from the calendar */
+    season: string;
+}
+
+/**
+ * Check if the game has reached a day.
+ * Example: dayAtLeast 3
+ */
+export interface DayAtLeastCondition {
+    type: 'dayAtLeast';
+    /** Day number (1-based, inclusive) */
+    day: number;
+}
+
 /**
  * Check if an item is at a specific location.
  * Example: itemAt sword armory
@@ -217,6 +312,37 @@ export interface RollCondition {
     threshold: number;
 }
 
+/**
+ * Pass when at least one of the grouped conditions passes.
+ * Example: anyOf (hasItem rusty_key) (hasFlag pickedLock)
+ */
+export interface AnyOfCondition {
+    type: 'anyOf';
+    /** Conditions to try, in order */
+    conditions: Condition[];
+}
+
+/**
+ * Pass when every grouped condition passes. Useful inside anyOf or not, since
+ * a list of REQUIRE lines is already ANDed.
+ * Example: allOf (hasFlag metGuard) (relationshipAbove guard 3)
+ */
+export interface AllOfCondition {
+    type: 'allOf';
+    /** Conditions that must all pass */
+    conditions: Condition[];
+}
+
+/**
+ * Pass when the wrapped condition fails.
+ * Example: not (hasItem lantern)
+ */
+export interface NotCondition {
+    type: 'not';
+    /** Condition to invert */
+    condition: Condition;
+}
+
 /**
  * Union of all condition types.
  * Union of all supported condition types.
@@ -228,7 +354,10 @@ export type Condition =
     | VariableEqualsCondition
     | VariableGreaterThanCondition
     | VariableLessThanCondition
+    | VariableCompareCondition
     | AtLocationCondition
+    | VisitedLocationCondition
+    | VisitCountCondition
     | QuestAtStageCondition
     | QuestStatusCondition
     | CharacterAtCondition
@@ -238,6 +367,14 @@ export type Condition =
     | CharacterStatLessThanCondition
     | RelationshipAboveCondition
     | RelationshipBelowCondition
+    | ReputationAboveCondition
+    | ReputationBelowCondition
     | TimeIsCondition
+    | DayOfWeekIsCondition
+    | SeasonIsCondition
+    | DayAtLeastCondition
     | ItemAtCondition
-    | RollCondition;
+    | RollCondition
+    | AnyOfCondition
+    | AllOfCondition
+    | NotCondition;
@@ -4,6 +4,8 @@
  * Effects use a type field so the processor can dispatch by effect kind.
  */
 
+import type { ValueExpression } from './expressions';
+
 /**
  * Set a flag to true.
  * Example: SET flag metBartender
@@ -27,45 +29,56 @@ export interface ClearFlagEffect {
 /**
  * Set a variable to a specific value.
  * Example: SET variable gold 100
+ * Example: SET variable price {basePrice} * 2 - {discount}
  */
 export interface SetVariableEffect {
     type: 'setVariable';
     /** Variable key to set */
     variable: string;
-    /** Value to set */
-    value: number | string;
+    /** Value to set, or an expression computed when the effect runs */
+    value: number | string | ValueExpression;
 }
 
 /**
  * Add to (or subtract from) a variable.
  * Example: ADD variable gold -50
+ * Example: ADD variable gold 2d6 + stat(player, luck)
  */
 export interface AddVariableEffect {
     type: 'addVariable';
     /** Variable key to modify */
     variable: string;
-    /** Amount to add (can be negative) */
-    value: number;
+    /** Amount to add (can be negative), or an expression */
+    value: number | ValueExpression;
 }
 
 /**
- * Add an item to player's inventory.
+ * Add an item to player's inventory. With a count, adds that many to the
+ * stack the player carries; without one, gives the item only if the player
+ * does not already have it.
  * Example: ADD item rusty_key
+ * Example: ADD item potion 3
  */
 export interface AddItemEffect {
     type: 'addItem';
     /** Item ID to add */
     itemId: string;
+    /** How many to add */
+    count?: number;
 }
 
 /**
- * Remove an item from player's inventory.
+ * Remove an item from player's inventory. With a count, takes that many from
+ * the stack the player carries; without one, removes the item entirely.
  * Example: REMOVE item rusty_key
+ * Example: REMOVE item potion 1
  */
 export interface RemoveItemEffect {
     type: 'removeItem';
     /** Item ID to remove */
     itemId: string;
+    /** How many to remove */
+    count?: number;
 }
 
 /**
@@ -138,6 +151,16 @@ export interface StartDialogueEffect {
     dialogueId: string;
 }
 
+/**
+ * Open a merchant's shop.
+ * Example: START shop merchant
+ */
+export interface StartShopEffect {
+    type: 'startShop';
+    /** Character ID of the merchant */
+    characterId: string;
+}
+
 /**
  * End the current dialogue.
  * Example: END dialogue
@@ -158,6 +181,16 @@ export interface SetCharacterLocationEffect {
     locationId: string;
 }
 
+/**
+ * Put a character back on its schedule after setCharacterLocation moved it.
+ * Example: CLEAR characterLocation merchant
+ */
+export interface ClearCharacterLocationEffect {
+    type: 'clearCharacterLocation';
+    /** Character ID */
+    characterId: string;
+}
+
 /**
  * Add a character to the player's party.
  * Example: ADD toParty elisa
@@ -202,6 +235,30 @@ export interface AddRelationshipEffect {
     value: number;
 }
 
+/**
+ * Set reputation with a faction.
+ * Example: SET reputation city_guard 5
+ */
+export interface SetReputationEffect {
+    type: 'setReputation';
+    /** Faction ID */
+    factionId: string;
+    /** Reputation value to set */
+    value: number;
+}
+
+/**
+ * Add to (or subtract from) reputation with a faction.
+ * Example: ADD reputation city_guard -2
+ */
+export interface AddReputationEffect {
+    type: 'addReputation';
+    /** Faction ID */
+    factionId: string;
+    /** Amount to add (can be negative) */
+    value: number;
+}
+
 /**
  * Set a stat value on a character.
  * Example: SET characterStat elisa level 5
@@ -322,12 +379,16 @@ export type Effect =
     | SetTrackedQuestEffect
     | AddJournalEntryEffect
     | StartDialogueEffect
+    | StartShopEffect
     | EndDialogueEffect
     | SetCharacterLocationEffect
+    | ClearCharacterLocationEffect
     | AddToPartyEffect
     | RemoveFromPartyEffect
     | SetRelationshipEffect
     | AddRelationshipEffect
+    | SetReputationEffect
+    | AddReputationEffect
     | SetCharacterStatEffect
     | AddCharacterStatEffect
     | SetMapEnabledEffect
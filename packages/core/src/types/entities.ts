@@ -27,12 +27,54 @@ export interface Location {
     name: string;
     /** Text shown when player is at this location */
     description: string;
+    /**
+     * Alternative descriptions, checked in order. The first whose conditions
+     * pass is shown in place of `description` (optional).
+     */
+    descriptions?: LocationDescription[];
     /** Image shown when player is at this location */
     banner: string;
     /** Background music track */
     music: string;
     /** Ambient sound loop */
     ambient: string;
+    /** Ways to walk to other locations without a map (optional) */
+    exits?: LocationExit[];
+    /** Effects applied each time the player arrives (optional) */
+    onEnter?: Effect[];
+    /** Effects applied the first time the player arrives, before onEnter (optional) */
+    onFirstEnter?: Effect[];
+}
+
+/**
+ * A description variant, such as the tavern at night or the square after
+ * the fire.
+ */
+export interface LocationDescription {
+    /** Text shown when this variant is chosen */
+    text: string;
+    /** Conditions that must pass for this variant to be shown (optional) */
+    conditions?: Condition[];
+}
+
+/**
+ * A way out of a location, such as "North to the cellar". Exits move the
+ * player without a map: the exit names its destination and how long the walk
+ * takes. An exit whose conditions fail is not offered.
+ */
+export interface LocationExit {
+    /** Identifier, unique within the location (often a direction, like north) */
+    id: string;
+    /** Button label (supports @localization keys) */
+    label: string;
+    /** Location ID the exit leads to */
+    target: string;
+    /** Conditions that must pass for the exit to be offered (optional) */
+    conditions?: Condition[];
+    /** Hours the trip takes (default: 0) */
+    hours?: number;
+    /** Effects applied on arrival, before location triggers are checked */
+    effects?: Effect[];
 }
 
 /**
@@ -55,6 +97,57 @@ export interface Character {
     dialogue: string;
     /** Game-specific stats */
     stats: CharacterStats;
+    /** Where the character is at different times (optional) */
+    schedule?: ScheduleEntry[];
+    /** Lets the player trade with this character (optional) */
+    shop?: Shop;
+    /** Faction IDs this character belongs to (optional) */
+    factions?: string[];
+    /**
+     * Named tiers for the relationship value (optional). Without them the
+     * character uses the tiers of its first faction that has some.
+     */
+    tiers?: StandingTier[];
+}
+
+/**
+ * One entry in a character's schedule. The first entry that applies to the
+ * current hour decides where the character is; when none applies, the
+ * character is at its starting location.
+ */
+export interface ScheduleEntry {
+    /** Location ID the character is at while this entry applies */
+    location: string;
+    /** Start hour (0-23, inclusive) */
+    startHour: number;
+    /** End hour (0-23, exclusive); an end before the start wraps past midnight */
+    endHour: number;
+    /**
+     * Game day numbers this entry applies on, counted from day 1 (optional,
+     * every day by default). For a weekly schedule, use `weekdays`.
+     */
+    days?: number[];
+    /**
+     * Weekday IDs from the calendar this entry applies on (optional, every
+     * day by default)
+     */
+    weekdays?: string[];
+    /** Conditions that must pass for this entry to apply (optional) */
+    conditions?: Condition[];
+}
+
+/**
+ * A merchant's shop. The merchant sells the items whose location is the
+ * merchant's character ID, at each item's `price` stat, and buys items from
+ * the player at their `sellPrice` stat (half the price by default).
+ */
+export interface Shop {
+    /** Variable that holds the player's money (default "gold") */
+    currency?: string;
+    /** Whether the merchant buys items from the player (default true) */
+    buys?: boolean;
+    /** Starting count of each item the merchant sells (itemId -> count) */
+    stock?: Record<string, number>;
 }
 
 /**
@@ -91,6 +184,29 @@ export interface Item {
     location: string;
     /** Stats for game-specific data - engine stores but doesn't interpret */
     stats: Record<string, unknown>;
+    /** Actions the player can take with the item from the inventory (optional) */
+    uses?: ItemUse[];
+}
+
+/**
+ * Something the player can do with a carried item: read the letter, drink the
+ * potion, use the key on a door. A use with a target is used on a character
+ * or location and is offered only while the target is here. When several
+ * uses share a target, the first whose conditions pass is the one offered.
+ */
+export interface ItemUse {
+    /** Identifier, unique within the item */
+    id: string;
+    /** Button label (supports @localization keys) */
+    label: string;
+    /** Character or location ID the item is used on (optional) */
+    target?: string;
+    /** Conditions that must pass for the use to be offered (optional) */
+    conditions?: Condition[];
+    /** Effects applied when the item is used */
+    effects?: Effect[];
+    /** Dialogue to start after the effects (optional) */
+    dialogue?: string;
 }
 
 /**
@@ -161,6 +277,10 @@ export interface DialogueNode {
     conditionalBranches?: ConditionalBranch[];
     /** Default next node if no choices and no conditional branch passes */
     next?: string;
+    /** Dialogue to CALL before continuing at next */
+    call?: DialogueCall;
+    /** RETURN to the dialogue that CALLed this one instead of routing on */
+    returns?: boolean;
 }
 
 /**
@@ -173,6 +293,10 @@ export interface ConditionalBranch {
     effects?: Effect[];
     /** Destination node for this branch */
     next?: string;
+    /** Dialogue to CALL before continuing at next */
+    call?: DialogueCall;
+    /** RETURN to the dialogue that CALLed this one */
+    returns?: boolean;
 }
 
 /**
@@ -189,6 +313,23 @@ export interface Choice {
     effects?: Effect[];
     /** Which node to go to when picked */
     next: string;
+    /** Dialogue to CALL before continuing at next */
+    call?: DialogueCall;
+    /** RETURN to the dialogue that CALLed this one */
+    returns?: boolean;
+}
+
+/**
+ * A CALL into another dialogue, written `CALL dialogueId` or
+ * `CALL dialogueId.nodeId`. The conversation runs there until a RETURN, then
+ * continues at the GOTO of the route that made the call, or ends if it has
+ * none.
+ */
+export interface DialogueCall {
+    /** Dialogue to run */
+    dialogueId: string;
+    /** Node to begin at (defaults to the dialogue's start node) */
+    nodeId?: string;
 }
 
 /**
@@ -262,6 +403,116 @@ export interface Interlude {
     effects?: Effect[];
 }
 
+/**
+ * When a timed event fires, measured on the game clock.
+ * - at: once, when the clock reaches day N, hour H
+ * - daily: every day when the clock reaches the hour (18 for every evening)
+ * - afterFlag: once, a number of hours after a flag is set; counting starts
+ *   at the end of the action that set it and stops if the flag is cleared
+ */
+export type EventTrigger =
+    | { type: 'at'; day: number; hour: number }
+    | { type: 'daily'; hour: number }
+    | { type: 'afterFlag'; flag: string; hours: number };
+
+/**
+ * A timed event: something that happens when the game clock passes a time,
+ * whatever the player is doing. The clock can pass several events in one
+ * action (a long journey or ADVANCE time); they fire in time order.
+ */
+export interface GameEvent {
+    /** Unique identifier for this event */
+    id: string;
+    /** When the event fires */
+    trigger: EventTrigger;
+    /** Conditions that must pass when the event comes due (optional) */
+    conditions?: Condition[];
+    /** Effects applied when the event fires */
+    effects?: Effect[];
+    /** Dialogue to start when the event fires; waits for any current conversation to end */
+    dialogue?: string;
+    /** Interlude to show when the event fires; waits for any pending interlude */
+    interlude?: string;
+}
+
+/**
+ * A named band of relationship or reputation values, such as "Friendly".
+ * A value belongs to the tier with the highest `min` it reaches; a value
+ * below every tier's `min` belongs to the lowest tier.
+ */
+export interface StandingTier {
+    /** Lowest value in this tier (inclusive) */
+    min: number;
+    /** Player-facing tier name (supports @localization keys) */
+    name: string;
+}
+
+/**
+ * A faction: a group, such as the city guard, whose many members share one
+ * reputation with the player.
+ */
+export interface Faction {
+    /** Unique identifier for this faction */
+    id: string;
+    /** Display name (supports @localization keys) */
+    name: string;
+    /** Faction description text (optional) */
+    description?: string;
+    /** Reputation a new game starts at (default 0) */
+    reputation?: number;
+    /** Named tiers for the reputation value (optional) */
+    tiers?: StandingTier[];
+}
+
+/**
+ * A flag declared in content/variables.yaml. Flags hold true or false.
+ */
+export interface FlagDeclaration {
+    /** Always 'bool' when given; flags hold nothing else */
+    type?: 'bool';
+    /** Value in a new game (default: false) */
+    default?: boolean;
+    /** What the flag records, for authors */
+    description?: string;
+}
+
+/**
+ * What a declared variable holds.
+ * - number: any number, optionally kept between min and max
+ * - string: any text
+ * - enum: one of a fixed list of text values
+ */
+export type VariableType = 'number' | 'string' | 'enum';
+
+/**
+ * A variable declared in content/variables.yaml.
+ */
+export interface VariableDeclaration {
+    /** What the variable holds */
+    type: VariableType;
+    /** Value in a new game; startVariables in game.yaml takes precedence */
+    default?: number | string;
+    /** Lowest value a number variable can hold; effects clamp to it */
+    min?: number;
+    /** Highest value a number variable can hold; effects clamp to it */
+    max?: number;
+    /** Allowed values of an enum variable */
+    values?: string[];
+    /** What the variable records, for authors */
+    description?: string;
+}
+
+/**
+ * The optional content/variables.yaml schema. When a project has one, every
+ * flag and variable the content uses must be declared in it.
+ */
+export interface VariableSchema {
+    /** Declared flags indexed by name */
+    flags: Record<string, FlagDeclaration>;
+    /** Declared variables indexed by name */
+    variables: Record<string, VariableDeclaration>;
+}
+
 /**
  * Shell screen configuration. Controls splash, loading, title, and UI sounds.
  * All fields are optional. Screens render gracefully with zero assets.
@@ -299,6 +550,60 @@ export interface ShellConfig {
     };
 }
 
+/** A day of the week. */
+export interface CalendarWeekday {
+    /** Id used by the dayOfWeekIs condition */
+    id: string;
+    /** Player-facing name (supports @key) */
+    name: string;
+}
+
+/** A month of the year. */
+export interface CalendarMonth {
+    /** Id used by seasons and the start date */
+    id: string;
+    /** Player-facing name (supports @key) */
+    name: string;
+    /** Number of days in the month */
+    days: number;
+}
+
+/** A season, made of whole months. */
+export interface CalendarSeason {
+    /** Id used by the seasonIs condition */
+    id: string;
+    /** Player-facing name (supports @key) */
+    name: string;
+    /** IDs of the months in the season */
+    months: string[];
+}
+
+/**
+ * Calendar that names the days the game clock counts. Every part is optional:
+ * a game with only weekdays gets weekday names, one with months gets dates.
+ */
+export interface CalendarConfig {
+    /** Days of the week, in order */
+    weekdays?: CalendarWeekday[];
+    /** Months of the year, in order */
+    months?: CalendarMonth[];
+    /** Seasons, by the months they cover */
+    seasons?: CalendarSeason[];
+    /** Whether the clock shows minutes as well as hours */
+    minutes?: boolean;
+    /** The date of day 1. Defaults to the first day of year 1. */
+    startDate?: {
+        /** Year number (default: 1) */
+        year?: number;
+        /** Month ID (default: the first month) */
+        month?: string;
+        /** Day of the month (default: 1) */
+        day?: number;
+        /** Weekday ID (default: the first weekday) */
+        weekday?: string;
+    };
+}
+
 /**
  * Game configuration that defines starting conditions.
  */
@@ -321,11 +626,30 @@ export interface GameConfig {
         day: number;
         /** Starting hour (0-23) */
         hour: number;
+        /** Starting minute (0-59, default: 0) */
+        minute?: number;
     };
+    /** Calendar for dates, weekdays, and seasons */
+    calendar?: CalendarConfig;
+    /**
+     * Locales to try, in order, for a key a locale lacks, such as
+     * `pt-BR: [pt, en]`. A fallback's own fallbacks are tried after it.
+     */
+    localeFallbacks?: Record<string, string[]>;
     /** Starting flags */
     startFlags: Record<string, boolean>;
     /** Starting variables */
     startVariables: Record<string, number | string>;
     /** Starting inventory (array of item IDs) */
     startInventory: string[];
+    /**
+     * Fixed seed for rolls. Every new game then rolls the same sequence.
+     * Omit it to roll differently each new game.
+     */
+    randomSeed?: number | string;
+    /**
+     * Whether players can take back choices, Continue, conversations
+     * started, and trips with Back. Off unless set to true.
+     */
+    allowRewind?: boolean;
 }
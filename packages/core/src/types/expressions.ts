@@ -0,0 +1,23 @@
+/**
+ * Arithmetic expression type definitions for the Doodle Engine.
+ * An expression computes a number from game state when it is used, so a value
+ * can depend on variables, character stats, relationships, and dice.
+ */
+
+/**
+ * An arithmetic expression, kept as the source text the author wrote.
+ * Example: { expression: '{basePrice} * 2 - {discount}' }
+ *
+ * Supported: numbers, variables (`{gold}` or `gold`), `stat(character, name)`,
+ * `relationship(character)`, dice (`2d6`, `d20`), `min(...)`, `max(...)`,
+ * `floor(x)`, parentheses, and `+ - * / %`.
+ */
+export interface ValueExpression {
+    /** Expression source, e.g. "{basePrice} * 2 - {discount}" */
+    expression: string;
+}
+
+/**
+ * How a variable comparison relates the variable to its value.
+ */
+export type ComparisonOperator = '==' | '!=' | '<' | '<=' | '>' | '>=';
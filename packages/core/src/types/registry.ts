@@ -16,6 +16,10 @@ import type {
     Quest,
     JournalEntry,
     Interlude,
+    GameEvent,
+    Faction,
+    VariableSchema,
+    CalendarConfig,
 } from './entities';
 
 /**
@@ -65,6 +69,21 @@ export interface ContentRegistry {
     /** All interludes indexed by ID */
     interludes: Record<string, Interlude>;
 
+    /** All timed events indexed by ID (absent when a game has none) */
+    events?: Record<string, GameEvent>;
+
+    /** All factions indexed by ID (absent when a game has none) */
+    factions?: Record<string, Faction>;
+
+    /** Flag and variable declarations loaded from content/variables.yaml (absent when a game has none) */
+    variableSchema?: VariableSchema;
+
+    /** The calendar from game.yaml, copied here by the loader so conditions and snapshots can read it (absent when a game has none) */
+    calendar?: CalendarConfig;
+
+    /** Locale fallbacks from game.yaml, copied here by the loader like the calendar (absent when a game has none) */
+    localeFallbacks?: Record<string, string[]>;
+
     /** All locales indexed by language code (e.g., "en", "es") */
     locales: Record<string, LocaleData>;
 }
@@ -19,3 +19,52 @@ export interface SaveData {
     /** The complete game state */
     state: GameState;
 }
+
+/**
+ * One step in the save migration chain. Each migration upgrades a save from
+ * the version it is registered under to `to`, and only reshapes state: it
+ * never looks at content, so it works the same for every game.
+ */
+export interface SaveMigration {
+    /** The version this migration produces */
+    to: string;
+
+    /** What the migration changes, for the load report */
+    description: string;
+
+    /** Upgrade the saved state. Receives the state as it was written. */
+    migrate: (state: Record<string, unknown>) => Record<string, unknown>;
+}
+
+/**
+ * One change made to a loaded save because the game's content no longer
+ * matches it (an item, character, or dialogue node was renamed or removed).
+ */
+export interface SaveRepair {
+    /** The part of the game state that changed */
+    field: keyof GameState;
+
+    /** The content ID the save referred to */
+    id: string;
+
+    /** What was changed, e.g. 'Removed unknown item "old_coin" from inventory' */
+    message: string;
+}
+
+/**
+ * What loading a save changed: the migrations it ran and the content repairs
+ * it made. An up-to-date save for the current content has neither.
+ */
+export interface SaveLoadReport {
+    /** Version the save was written with */
+    fromVersion: string;
+
+    /** Version the save was upgraded to (the current save version) */
+    toVersion: string;
+
+    /** Description of each migration applied, in order */
+    migrations: string[];
+
+    /** Every content repair made to the state */
+    repairs: SaveRepair[];
+}
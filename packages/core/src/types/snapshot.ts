@@ -15,10 +15,26 @@ export interface SnapshotLocation {
     id: string;
     /** Localized display name */
     name: string;
-    /** Localized description text */
+    /** Localized description text, from the first variant whose conditions pass */
     description: string;
     /** Banner image filename */
     banner: string;
+    /** Exits the player can take right now, in the order the location lists them */
+    exits?: SnapshotExit[];
+}
+
+/**
+ * An exit the player can take from the current location (localized).
+ */
+export interface SnapshotExit {
+    /** Exit ID */
+    id: string;
+    /** Localized button label */
+    label: string;
+    /** Destination location ID */
+    target: string;
+    /** Hours the trip takes */
+    hours: number;
 }
 
 /**
@@ -41,12 +57,52 @@ export interface SnapshotCharacter {
     inParty: boolean;
     /** Relationship value with the player */
     relationship: number;
+    /** Localized name of the relationship's tier, or empty without tiers */
+    relationshipTier: string;
     /** Localized character stat values */
     stats: Record<string, StatValue>;
     /** Localized player-facing names for each stat */
     statNames: Record<string, string>;
 }
 
+/**
+ * A faction and the player's reputation with it (localized).
+ */
+export interface SnapshotFaction {
+    /** Faction ID */
+    id: string;
+    /** Localized display name */
+    name: string;
+    /** Localized description text */
+    description: string;
+    /** Reputation value with the player */
+    reputation: number;
+    /** Localized name of the reputation's tier, or empty without tiers */
+    tier: string;
+}
+
+/**
+ * The current day as a date in the game's calendar (localized).
+ */
+export interface SnapshotDate {
+    /** Weekday and date together, as the clock shows them */
+    text: string;
+    /** The date without the weekday, such as "Frostmoon 14, Year 1203" */
+    date: string;
+    /** Localized weekday name, or empty without weekdays */
+    weekday: string;
+    /** Localized month name, or empty without months */
+    month: string;
+    /** Localized season name, or empty outside every season */
+    season: string;
+    /** Year number */
+    year: number;
+    /** Day of the month, or the game day without months */
+    day: number;
+    /** Whether the clock shows minutes */
+    minutes: boolean;
+}
+
 export interface SnapshotPlayerCharacter {
     /** Reserved player identifier */
     id: 'player';
@@ -82,6 +138,51 @@ export interface SnapshotItem {
     image: string;
     /** Item stats */
     stats: Record<string, unknown>;
+    /**
+     * How many the player carries, or for shop stock how many the merchant
+     * has (1 for other items outside the inventory)
+     */
+    count: number;
+    /** What the player can do with the item right now (inventory items only) */
+    uses?: SnapshotItemUse[];
+}
+
+/**
+ * An item use the player can pick (localized).
+ */
+export interface SnapshotItemUse {
+    /** Use ID */
+    id: string;
+    /** Localized button label */
+    label: string;
+    /** Character or location ID the item is used on, or null */
+    target: string | null;
+}
+
+/**
+ * An item offered in a shop, with what it costs or fetches.
+ */
+export interface SnapshotShopItem extends SnapshotItem {
+    /** Price in the shop's currency */
+    price: number;
+}
+
+/**
+ * The open shop (localized).
+ */
+export interface SnapshotShop {
+    /** Character ID of the merchant */
+    merchantId: string;
+    /** Localized merchant name */
+    merchantName: string;
+    /** Variable that holds the player's money */
+    currency: string;
+    /** How much of the currency the player has */
+    money: number;
+    /** Items the merchant sells, at their buy price */
+    stock: SnapshotShopItem[];
+    /** Inventory items the merchant will buy, at their sell price */
+    sellable: SnapshotShopItem[];
 }
 
 /**
@@ -112,6 +213,22 @@ export interface SnapshotDialogue {
     continueEndsDialogue?: boolean;
 }
 
+/**
+ * One entry of the conversation log (localized).
+ */
+export interface SnapshotDialogueLogEntry {
+    /** "line" for a spoken line, "choice" for the player's response */
+    kind: 'line' | 'choice';
+    /** Character ID speaking, or null for narration and the player */
+    speaker: string | null;
+    /** Localized speaker name: the character, "Narrator", or the player */
+    speakerName: string;
+    /** Localized text */
+    text: string;
+    /** Voice audio filename of the line, for replaying it (optional) */
+    voice?: string;
+}
+
 /**
  * Quest information in a snapshot (localized).
  */
@@ -226,9 +343,15 @@ export interface Snapshot {
     /** Current dialogue node (null if not in dialogue) */
     dialogue: SnapshotDialogue | null;
 
+    /** Recent spoken lines and chosen responses, oldest first */
+    dialogueLog: SnapshotDialogueLogEntry[];
+
     /** Characters in the player's party */
     party: SnapshotCharacter[];
 
+    /** Factions with the player's reputation in each */
+    factions: SnapshotFaction[];
+
     /** Items in the player's inventory */
     inventory: SnapshotItem[];
 
@@ -247,6 +370,9 @@ export interface Snapshot {
     /** Current in-game time */
     time: Time;
 
+    /** Current calendar date (null when the game has no calendar) */
+    date: SnapshotDate | null;
+
     /** Map data (null if map is disabled) */
     map: SnapshotMap | null;
 
@@ -268,6 +394,9 @@ export interface Snapshot {
     /** Interlude to show fullscreen (from showInterlude effect or trigger) */
     pendingInterlude: SnapshotInterlude | null;
 
+    /** Open shop (from a startShop effect), or null */
+    shop: SnapshotShop | null;
+
     /** Resolved UI strings for the renderer. All @keys resolved. */
     ui: Record<string, string>;
 
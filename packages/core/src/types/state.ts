@@ -13,6 +13,8 @@ export interface Time {
     day: number;
     /** Current hour (0-23) */
     hour: number;
+    /** Current minute (0-59). Absent on the hour. */
+    minute?: number;
 }
 
 /**
@@ -27,6 +29,12 @@ export interface CharacterState {
     relationship: number;
     /** Game-specific stat values */
     stats: Record<string, StatValue>;
+    /**
+     * True once an effect has moved this character with setCharacterLocation.
+     * Its schedule does not apply until a clearCharacterLocation effect puts
+     * it back on the schedule.
+     */
+    scheduleOverridden?: boolean;
 }
 
 export interface PlayerCharacterState {
@@ -61,6 +69,37 @@ export interface DialogueState {
     dialogueId: string;
     /** ID of the current node in that dialogue */
     nodeId: string;
+    /** Dialogues waiting for a CALL they made to RETURN, innermost last */
+    callStack?: DialogueFrame[];
+}
+
+/**
+ * Where a RETURN goes back to: the dialogue that made a CALL.
+ */
+export interface DialogueFrame {
+    /** ID of the dialogue that made the CALL */
+    dialogueId: string;
+    /** Node to continue at on RETURN, or null to end the conversation */
+    nodeId: string | null;
+}
+
+/**
+ * One line of the conversation log: a line spoken at a dialogue node or a
+ * response the player chose. Text is kept as authored (a localization key
+ * or literal), so the log reads in the language the player has now, with the
+ * variable values the line showed when it was spoken.
+ */
+export interface DialogueLogEntry {
+    /** "line" for a node's text, "choice" for the player's response */
+    kind: 'line' | 'choice';
+    /** Character ID of the speaker, or null for the narrator and the player */
+    speaker: string | null;
+    /** The line or response as authored */
+    text: string;
+    /** Voice file of the line, as authored on the node */
+    voice?: string;
+    /** Values of the variables the text reads, as they were when logged */
+    variables?: Record<string, number | string>;
 }
 
 /**
@@ -113,12 +152,31 @@ export interface GameState {
     /** Current conversation state, or null if not in dialogue */
     dialogueState: DialogueState | null;
 
+    /**
+     * The most recent lines and chosen responses, oldest first. Capped, so
+     * long games keep only the latest part of the conversation.
+     */
+    dialogueLog?: DialogueLogEntry[];
+
     /** All mutable character data (characterId -> CharacterState) */
     characterState: Record<string, CharacterState>;
 
     /** Current location of each item (itemId -> locationId or "inventory") */
     itemLocations: Record<string, string>;
 
+    /**
+     * How many of each inventory item the player carries (itemId -> count).
+     * An inventory item without an entry counts as one.
+     */
+    itemCounts?: Record<string, number>;
+
+    /**
+     * How many of each item each merchant has, once the item has been bought
+     * or sold there (merchantId -> itemId -> count). Until then the count
+     * comes from the shop's stock or the item's location.
+     */
+    shopStock?: Record<string, Record<string, number>>;
+
     /** Whether the player can open the map */
     mapEnabled: boolean;
 
@@ -139,4 +197,35 @@ export interface GameState {
 
     /** Active language code (e.g., "en", "es") */
     currentLocale: string;
+
+    /**
+     * Random generator state used by rolls. Saved with the game, so loading
+     * a save continues the same sequence instead of re-rolling. States made
+     * before seeded rolls lack it; the engine fills it in when they load.
+     */
+    randomState?: number;
+
+    /**
+     * The absolute game hour (counting from hour 0 of day 1) that timed
+     * events have been checked through. Events due after it have not fired.
+     */
+    eventClock?: number;
+
+    /**
+     * When each afterFlag event started counting (event ID -> absolute hour
+     * its flag was seen set). Removed when the flag is cleared.
+     */
+    eventTimers?: Record<string, number>;
+
+    /** Fired events whose dialogue or interlude is waiting to be shown */
+    queuedEvents?: string[];
+
+    /** Character ID of the merchant whose shop is open, or null */
+    activeShop?: string | null;
+
+    /** The player's reputation with each faction (factionId -> value) */
+    factionReputation?: Record<string, number>;
+
+    /** How many times the player has arrived at each location (locationId -> count) */
+    locationVisits?: Record<string, number>;
 }
@@ -7,7 +7,8 @@
  *
  * A sink receives one event per meaningful runtime step: a node entered, a
  * condition evaluated (with the values it actually saw), an effect applied, a
- * transition between nodes, a choice hidden (with the reason), or an error.
+ * transition between nodes, a choice hidden (with the reason), an item used,
+ * an interlude shown, or an error.
  * Every event carries a sequence number so a consumer can order them.
  */
 
@@ -39,6 +40,20 @@ export interface ConditionEvent {
     result: boolean;
     /** Where this condition was evaluated (choice requirement, IF branch, etc.) */
     context: ConditionContext;
+    /**
+     * For a failing anyOf / allOf / not group, the parts inside it that
+     * decided the failure, with the values each one read
+     */
+    failedConditions?: FailedCondition[];
+}
+
+/**
+ * One part of a condition group that caused the group to fail.
+ */
+export interface FailedCondition {
+    condition: Condition;
+    /** The state values this part read */
+    resolvedValues: Record<string, unknown>;
 }
 
 /**
@@ -49,7 +64,9 @@ export type ConditionContext =
     | { type: 'choice'; choiceId: string }
     | { type: 'branch'; branchIndex: number }
     | { type: 'dialogueTrigger'; dialogueId: string }
-    | { type: 'interludeTrigger'; interludeId: string };
+    | { type: 'interludeTrigger'; interludeId: string }
+    | { type: 'itemUse'; itemId: string; useId: string }
+    | { type: 'exit'; locationId: string; exitId: string };
 
 /**
  * An effect was applied, with the state fields it changed.
@@ -81,6 +98,12 @@ export interface TransitionEvent {
     toNode: string | null;
     /** Index of the IF branch that routed here, if a branch decided the target */
     viaBranch?: number;
+    /** ID of the choice the player picked, when a choice routed here */
+    choiceId?: string;
+    /** Set when a CALL or RETURN routed here; toNode is then in toDialogue */
+    via?: 'call' | 'return';
+    /** Dialogue holding toNode, for a CALL or RETURN */
+    toDialogue?: string;
 }
 
 /**
@@ -97,6 +120,31 @@ export interface ChoiceFilteredEvent {
     failedCondition: Condition;
     /** The values the failing condition read */
     resolvedValues: Record<string, unknown>;
+    /** When the failing condition is a group, the parts inside it that failed */
+    failedConditions?: FailedCondition[];
+}
+
+/**
+ * The player used an item. Reports which of the item's uses ran, or null when
+ * none applied and nothing happened.
+ */
+export interface ItemUseEvent {
+    kind: 'itemUse';
+    seq: number;
+    itemId: string;
+    /** Character or location the item was used on, or null */
+    targetId: string | null;
+    /** The use that ran, or null when none applied */
+    useId: string | null;
+}
+
+/**
+ * An interlude was shown, whether its trigger fired or an effect showed it.
+ */
+export interface InterludeEvent {
+    kind: 'interlude';
+    seq: number;
+    interludeId: string;
 }
 
 /**
@@ -117,6 +165,8 @@ export type TraceEvent =
     | EffectEvent
     | TransitionEvent
     | ChoiceFilteredEvent
+    | ItemUseEvent
+    | InterludeEvent
     | TraceErrorEvent;
 
 /**
@@ -130,5 +180,7 @@ export interface TraceSink {
     onEffect?(event: EffectEvent): void;
     onTransition?(event: TransitionEvent): void;
     onChoiceFiltered?(event: ChoiceFilteredEvent): void;
+    onItemUse?(event: ItemUseEvent): void;
+    onInterlude?(event: InterludeEvent): void;
     onError?(event: TraceErrorEvent): void;
 }
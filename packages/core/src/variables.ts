@@ -0,0 +1,85 @@
+/**
+ * Declared flags and variables: defaults and clamps from content/variables.yaml.
+ *
+ * The schema is optional. Without one, flags and variables are free-form and
+ * nothing here changes their values. With one, a new game starts with the
+ * declared defaults, and number variables stay between their min and max
+ * whatever effect sets them.
+ */
+
+import type { VariableDeclaration, VariableSchema } from './types/entities';
+
+/**
+ * Keep a value inside its declaration's range. Numbers below min or above
+ * max are moved to the nearest bound; any other value is returned as is.
+ *
+ * @param value - The value about to be stored
+ * @param declaration - The variable's declaration, if it has one
+ * @returns The value to store
+ */
+export function clampVariable(
+    value: number | string,
+    declaration: VariableDeclaration | undefined
+): number | string {
+    if (!declaration || typeof value !== 'number') return value;
+    if (typeof declaration.min === 'number' && value < declaration.min) {
+        return declaration.min;
+    }
+    if (typeof declaration.max === 'number' && value > declaration.max) {
+        return declaration.max;
+    }
+    return value;
+}
+
+/**
+ * Whether a value is of the kind a declaration holds: a number for a number
+ * variable, text for a string variable, one of the listed values for an enum.
+ * Range is not checked; clampVariable handles that.
+ *
+ * @param value - The value to check
+ * @param declaration - The variable's declaration
+ * @returns True when the value fits the declared type
+ */
+export function fitsVariableType(
+    value: unknown,
+    declaration: VariableDeclaration
+): boolean {
+    switch (declaration.type) {
+        case 'number':
+            return typeof value === 'number';
+        case 'string':
+            return typeof value === 'string';
+        case 'enum':
+            return (
+                typeof value === 'string' &&
+                (declaration.values ?? []).includes(value)
+            );
+        default:
+            return false;
+    }
+}
+
+/**
+ * The flags and variables a new game starts with from their declared
+ * defaults. Declarations without a default are left out; the game's own
+ * startFlags and startVariables are applied over these.
+ *
+ * @param schema - The project's variable schema, if it has one
+ * @returns Starting flags and variables from the schema
+ */
+export function declaredDefaults(schema: VariableSchema | undefined): {
+    flags: Record<string, boolean>;
+    variables: Record<string, number | string>;
+} {
+    const flags: Record<string, boolean> = {};
+    const variables: Record<string, number | string> = {};
+    for (const [name, flag] of Object.entries(schema?.flags ?? {})) {
+        if (typeof flag.default === 'boolean') flags[name] = flag.default;
+    }
+    for (const [name, variable] of Object.entries(schema?.variables ?? {})) {
+        if (variable.default !== undefined) {
+            variables[name] = clampVariable(variable.default, variable);
+        }
+    }
+    return { flags, variables };
+}
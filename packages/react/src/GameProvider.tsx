@@ -18,20 +18,28 @@ import type { PlayerProfileInput } from '@doodle-engine/core';
 
 export interface GameContextValue {
     snapshot: Snapshot;
+    /** Whether the player has an action that Back can take back */
+    canRewind: boolean;
     actions: {
         selectChoice: (choiceId: string) => void;
         continueDialogue: () => void;
         talkTo: (characterId: string) => void;
         travelTo: (locationId: string) => void;
+        takeExit: (exitId: string) => void;
         writeNote: (title: string, text: string) => void;
         deleteNote: (noteId: string) => void;
         setLocale: (locale: string) => void;
         trackQuest: (questId: string) => void;
         clearTrackedQuest: () => void;
+        useItem: (itemId: string, targetId?: string) => void;
+        buyItem: (itemId: string) => void;
+        sellItem: (itemId: string) => void;
+        closeShop: () => void;
         saveGame: () => SaveData;
         loadGame: (saveData: SaveData) => void;
         dismissInterlude: () => void;
         setPlayerProfile: (profile: PlayerProfileInput) => void;
+        rewind: (steps?: number) => void;
     };
 }
 
@@ -72,6 +80,7 @@ export function GameProvider({
         if (devTools) {
             enableDevTools(engine, () => setSnapshot(engine.getSnapshot()));
             return () => {
+                engine.setMissingKeyHandler(null);
                 delete window.doodle;
             };
         }
@@ -110,6 +119,12 @@ export function GameProvider({
         [engine]
     );
 
+    // Action: Take an exit from the current location
+    const takeExit = useCallback(
+        (exitId: string) => setSnapshot(engine.takeExit(exitId)),
+        [engine]
+    );
+
     // Action: Write a player note
     const writeNote = useCallback(
         (title: string, text: string) => {
@@ -147,6 +162,29 @@ export function GameProvider({
         [engine]
     );
 
+    // Action: Use an item, on its own or on a character or location
+    const useItem = useCallback(
+        (itemId: string, targetId?: string) =>
+            setSnapshot(engine.useItem(itemId, targetId)),
+        [engine]
+    );
+
+    // Actions: Trade with the open shop
+    const buyItem = useCallback(
+        (itemId: string) => setSnapshot(engine.buyItem(itemId)),
+        [engine]
+    );
+
+    const sellItem = useCallback(
+        (itemId: string) => setSnapshot(engine.sellItem(itemId)),
+        [engine]
+    );
+
+    const closeShop = useCallback(
+        () => setSnapshot(engine.closeShop()),
+        [engine]
+    );
+
     // Action: Save game
     const saveGame = useCallback(() => {
         return engine.saveGame();
@@ -184,22 +222,35 @@ export function GameProvider({
         [engine]
     );
 
+    // Action: Take back the player's last action (when the game allows it)
+    const rewind = useCallback(
+        (steps?: number) => setSnapshot(engine.rewind(steps)),
+        [engine]
+    );
+
     const contextValue: GameContextValue = {
         snapshot,
+        canRewind: engine.canRewind(),
         actions: {
             selectChoice,
             continueDialogue,
             talkTo,
             travelTo,
+            takeExit,
             writeNote,
             deleteNote,
             setLocale,
             trackQuest,
             clearTrackedQuest,
+            useItem,
+            buyItem,
+            sellItem,
+            closeShop,
             saveGame,
             loadGame,
             dismissInterlude,
             setPlayerProfile,
+            rewind,
         },
     };
 
@@ -9,7 +9,7 @@
  * If no provider is found, the settings button is hidden.
  */
 
-import { useState, useContext, type ReactNode } from 'react';
+import { useState, useContext, useRef, type ReactNode } from 'react';
 import { useGame } from './hooks/useGame';
 import { AudioSettingsContext } from './AudioSettingsContext';
 import { DialogueBox } from './components/DialogueBox';
@@ -17,7 +17,9 @@ import { ChoiceList } from './components/ChoiceList';
 import { LocationView } from './components/LocationView';
 import { CharacterList } from './components/CharacterList';
 import { Inventory } from './components/Inventory';
+import { ShopPanel } from './components/ShopPanel';
 import { Journal } from './components/Journal';
+import { DialogueLog } from './components/DialogueLog';
 import { PlayerNotes } from './components/PlayerNotes';
 import { MapView } from './components/MapView';
 import { NotificationArea } from './components/NotificationArea';
@@ -37,6 +39,7 @@ const GAME_MENU_ICON_PATHS: Record<string, string> = {
     inventory: 'M7 8h10l1 11H6zM9.5 8V6a2.5 2.5 0 015 0v2',
     journal: 'M4 5h7v14H4zM13 5h7v14h-7zM11 5v14',
     notes: 'M6 3h9l3 3v15H6zM15 3v3h3M9 12h7M9 15.5h5',
+    log: 'M4 5h16v11H10l-5 4v-4H4zM8 9h8M8 12h5',
     map: 'M12 3l1.6 6.4L20 11l-6.4 1.6L12 19l-1.6-6.4L4 11l6.4-1.6z',
     save: 'M5 4h14v16H5zM9 4v6h6V4M9 16h6',
     settings:
@@ -67,6 +70,7 @@ type ActivePanel =
     | 'inventory'
     | 'journal'
     | 'notes'
+    | 'log'
     | 'map'
     | 'saveload'
     | 'settings'
@@ -77,6 +81,7 @@ const PANEL_UI_KEYS: Record<Exclude<ActivePanel, null>, string> = {
     inventory: 'ui.inventory',
     journal: 'ui.journal',
     notes: 'ui.notes',
+    log: 'ui.dialogue_log',
     map: 'ui.map',
     saveload: 'ui.save_load',
     settings: 'ui.settings',
@@ -170,7 +175,7 @@ function GameRendererInner({
     onCancelSetup,
 }: GameRendererProps) {
     saveStorageKeyForProject(projectId);
-    const { snapshot, actions } = useGame();
+    const { snapshot, canRewind, actions } = useGame();
     const audioSettings = useContext(AudioSettingsContext);
 
     const [activePanel, setActivePanel] = useState<ActivePanel>(null);
@@ -183,17 +188,72 @@ function GameRendererInner({
         : '';
     const hasBlockingFlow =
         !snapshot.player.profileComplete || Boolean(snapshot.pendingInterlude);
+    // Back is offered while the game view is in front: not under a panel,
+    // a shop, or a full-stage flow.
+    const goBack =
+        canRewind && !hasBlockingFlow && !activePanel && !snapshot.shop
+            ? () => actions.rewind()
+            : undefined;
 
     useInputAction(
         ({ command }) => {
-            if (command !== 'cancel' || !activePanel) {
+            if (command !== 'cancel') {
                 return false;
             }
+            if (activePanel) {
+                setActivePanel(null);
+                return true;
+            }
+            if (snapshot.shop) {
+                actions.closeShop();
+                return true;
+            }
+            return false;
+        },
+        {
+            priority: 150,
+            enabled: activePanel !== null || snapshot.shop !== null,
+        }
+    );
+
+    // L opens the conversation log over the game, and closes it again.
+    useInputAction(
+        ({ command }) => {
+            if (command !== 'openLog') {
+                return false;
+            }
+            setActivePanel((current) => (current === 'log' ? null : 'log'));
+            return true;
+        },
+        { enabled: !hasBlockingFlow }
+    );
+
+    // Replaying a line from the log plays it at the voice volume, stopping
+    // any replay still going.
+    const replayAudioRef = useRef<HTMLAudioElement | null>(null);
+    const replayVoice = (voice: string) => {
+        replayAudioRef.current?.pause();
+        const audio = new Audio(voice);
+        if (audioSettings) {
+            audio.volume = audioSettings.masterVolume * audioSettings.voiceVolume;
+        }
+        replayAudioRef.current = audio;
+        audio.play().catch((error) => {
+            console.warn('Voice playback failed:', error);
+        });
+    };
 
-            setActivePanel(null);
+    // Outside a conversation (after travel, say) Back still takes the last
+    // action back. In one, the DialogueBox handles it.
+    useInputAction(
+        ({ command }) => {
+            if (command !== 'back' || !goBack) {
+                return false;
+            }
+            goBack();
             return true;
         },
-        { priority: 150, enabled: activePanel !== null }
+        { enabled: Boolean(goBack) && !snapshot.dialogue }
     );
 
     // Filter out underscore-prefixed variables (internal tracking)
@@ -273,6 +333,12 @@ function GameRendererInner({
                                 onClick={() => setActivePanel('notes')}
                                 active={activePanel === 'notes'}
                             />
+                            <GameMenuButton
+                                label={uiText(snapshot.ui, 'ui.dialogue_log')}
+                                icon="log"
+                                onClick={() => setActivePanel('log')}
+                                active={activePanel === 'log'}
+                            />
                             {snapshot.map && (
                                 <GameMenuButton
                                     label={uiText(snapshot.ui, 'ui.map')}
@@ -310,10 +376,15 @@ function GameRendererInner({
                             <LocationView
                                 ui={snapshot.ui}
                                 location={snapshot.location}
+                                onTakeExit={actions.takeExit}
                             />
 
                             {snapshot.dialogue ? (
-                                <DialogueBox dialogue={snapshot.dialogue}>
+                                <DialogueBox
+                                    dialogue={snapshot.dialogue}
+                                    onBack={goBack}
+                                    backLabel={uiText(snapshot.ui, 'ui.back')}
+                                >
                                     <ChoiceList
                                         choices={snapshot.choices}
                                         onSelectChoice={actions.selectChoice}
@@ -341,6 +412,19 @@ function GameRendererInner({
                                                 'ui.idle_hint'
                                             )}
                                         </div>
+                                        {goBack && (
+                                            <div className="dialogue-back-row">
+                                                <button
+                                                    className="dialogue-back-button"
+                                                    onClick={goBack}
+                                                >
+                                                    {uiText(
+                                                        snapshot.ui,
+                                                        'ui.back'
+                                                    )}
+                                                </button>
+                                            </div>
+                                        )}
                                     </div>
                                 </div>
                             )}
@@ -357,6 +441,7 @@ function GameRendererInner({
                             <GameTime
                                 ui={snapshot.ui}
                                 time={snapshot.time}
+                                date={snapshot.date}
                                 format="narrative"
                             />
 
@@ -464,6 +549,7 @@ function GameRendererInner({
                                     ui={snapshot.ui}
                                     character={selectedPartyProfile}
                                     characters={partyProfiles}
+                                    factions={snapshot.factions}
                                     position={partyIndex % partyProfiles.length}
                                     count={partyProfiles.length}
                                     onSelect={setPartyIndex}
@@ -489,6 +575,10 @@ function GameRendererInner({
                                 <Inventory
                                     ui={snapshot.ui}
                                     items={snapshot.inventory}
+                                    onUse={(itemId, targetId) => {
+                                        actions.useItem(itemId, targetId);
+                                        setActivePanel(null);
+                                    }}
                                 />
                             )}
                             {activePanel === 'journal' && (
@@ -527,6 +617,17 @@ function GameRendererInner({
                                     </div>
                                 </div>
                             )}
+                            {activePanel === 'log' && (
+                                <div className="panel-parchment-body">
+                                    <div className="panel-parchment-sheet doodle-parchment-surface">
+                                        <DialogueLog
+                                            ui={snapshot.ui}
+                                            entries={snapshot.dialogueLog}
+                                            onReplayVoice={replayVoice}
+                                        />
+                                    </div>
+                                </div>
+                            )}
                             {activePanel === 'map' && snapshot.map && (
                                 <div className="panel-parchment-body">
                                     <MapView
@@ -560,6 +661,21 @@ function GameRendererInner({
                             )}
                         </PanelWorkspace>
                     )}
+
+                    {!activePanel && snapshot.shop && (
+                        <PanelWorkspace
+                            label={snapshot.shop.merchantName}
+                            closeLabel={uiText(snapshot.ui, 'ui.close')}
+                            onDismiss={actions.closeShop}
+                        >
+                            <ShopPanel
+                                ui={snapshot.ui}
+                                shop={snapshot.shop}
+                                onBuy={actions.buyItem}
+                                onSell={actions.sellItem}
+                            />
+                        </PanelWorkspace>
+                    )}
                 </>
             )}
         </div>
@@ -15,8 +15,10 @@ import {
 } from 'react';
 import {
     Engine,
+    PSEUDO_LOCALE,
     buildUIStrings,
     createInitialState,
+    localeDataFor,
     resolveAssetPath,
 } from '@doodle-engine/core';
 import type {
@@ -279,9 +281,14 @@ function GameShellInner({
 
     const hasSaveData = hasSaves(localStorage, storageKey);
 
+    // newGame() reads allowRewind from the config itself; a save loaded by
+    // Continue needs it set up front. The pseudo-locale is for dev tools only.
     const createEngine = useCallback(() => {
-        return new Engine(registry, createInitialState(selectedLocale));
-    }, [registry, selectedLocale]);
+        const engine = new Engine(registry, createInitialState(selectedLocale));
+        engine.setRewindEnabled(config.allowRewind ?? false);
+        engine.setPseudoLocaleEnabled(devTools);
+        return engine;
+    }, [registry, config, selectedLocale, devTools]);
 
     const handleNewGame = useCallback(() => {
         uiSoundControls.playClick();
@@ -400,8 +407,14 @@ function GameShellInner({
         { priority: 50, enabled: screen === 'playing' }
     );
 
+    const titleLocale =
+        registry.locales[selectedLocale] ||
+        (devTools && selectedLocale === PSEUDO_LOCALE)
+            ? selectedLocale
+            : 'en';
     const titleUi = buildUIStrings(
-        registry.locales[selectedLocale] ?? registry.locales['en'] ?? {}
+        localeDataFor(registry, titleLocale),
+        titleLocale
     );
 
     const handleUIHover = useCallback(
@@ -465,6 +478,7 @@ function GameShellInner({
                             availableLocales={availableLocales}
                             currentLocale={selectedLocale}
                             onLocaleChange={setSelectedLocale}
+                            devTools={devTools}
                             onBack={closeSettings}
                         />
                     </ShellPanel>
@@ -526,6 +540,7 @@ function GameShellInner({
                     showPauseMenu={showPauseMenu}
                     showSettings={showSettings}
                     availableLocales={availableLocales}
+                    devTools={devTools}
                     pendingVideo={pendingVideo}
                     setPendingVideo={setPendingVideo}
                     onPause={() => {
@@ -561,6 +576,7 @@ interface GameShellPlayingProps {
     showPauseMenu: boolean;
     showSettings: boolean;
     availableLocales?: { code: string; label: string }[];
+    devTools: boolean;
     pendingVideo: string | null;
     setPendingVideo: (video: string | null) => void;
     onPause: () => void;
@@ -580,6 +596,7 @@ function GameShellPlaying({
     showPauseMenu,
     showSettings,
     availableLocales,
+    devTools,
     pendingVideo,
     setPendingVideo,
     onPause,
@@ -674,6 +691,7 @@ function GameShellPlaying({
                         availableLocales={availableLocales}
                         currentLocale={snapshot.currentLocale}
                         onLocaleChange={actions.setLocale}
+                        devTools={devTools}
                         onBack={onCloseSettings}
                     />
                 </ShellPanel>
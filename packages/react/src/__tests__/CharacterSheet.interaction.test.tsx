@@ -51,6 +51,83 @@ describe('CharacterSheet', () => {
         await user.click(screen.getByRole('button', { name: 'Next' }));
         expect(onNext).toHaveBeenCalledOnce();
     });
+
+    it("lists faction reputation on the player's Reputation tab", async () => {
+        const user = userEvent.setup();
+        render(
+            <CharacterSheet
+                character={{
+                    id: 'player',
+                    name: 'Avery',
+                    title: '',
+                    biography: '',
+                    portrait: '',
+                    profileComplete: true,
+                    stats: { strength: 12 },
+                    statNames: { strength: 'Strength' },
+                }}
+                factions={[
+                    {
+                        id: 'city_guard',
+                        name: 'City Guard',
+                        description: 'Keeps the peace.',
+                        reputation: 6,
+                        tier: 'Friendly',
+                    },
+                ]}
+                position={0}
+                count={1}
+                onPrevious={() => {}}
+                onNext={() => {}}
+            />
+        );
+
+        expect(screen.getByText('Strength')).toBeTruthy();
+        expect(screen.queryByText('City Guard')).toBeNull();
+
+        await user.click(screen.getByRole('tab', { name: 'Reputation' }));
+
+        expect(screen.getByText('City Guard')).toBeTruthy();
+        expect(screen.getByText('Friendly')).toBeTruthy();
+        expect(screen.getByText('6')).toBeTruthy();
+        expect(screen.queryByText('Strength')).toBeNull();
+    });
+
+    it("shows a companion's relationship tier without a Reputation tab", () => {
+        render(
+            <CharacterSheet
+                character={{
+                    id: 'elisa',
+                    name: 'Elisa',
+                    title: '',
+                    biography: '',
+                    portrait: '',
+                    location: 'camp',
+                    inParty: true,
+                    relationship: 7,
+                    relationshipTier: 'Trusted',
+                    stats: {},
+                    statNames: {},
+                }}
+                factions={[
+                    {
+                        id: 'city_guard',
+                        name: 'City Guard',
+                        description: '',
+                        reputation: 0,
+                        tier: '',
+                    },
+                ]}
+                position={0}
+                count={1}
+                onPrevious={() => {}}
+                onNext={() => {}}
+            />
+        );
+
+        expect(screen.getByText('Relationship: Trusted')).toBeTruthy();
+        expect(screen.queryByRole('tab', { name: 'Reputation' })).toBeNull();
+    });
 });
 
 describe('GameRenderer party panel', () => {
@@ -77,6 +154,7 @@ describe('GameRenderer party panel', () => {
             itemsHere: [],
             choices: [],
             dialogue: null,
+            dialogueLog: [],
             party: [
                 {
                     id: 'elisa',
@@ -87,16 +165,19 @@ describe('GameRenderer party panel', () => {
                     location: 'camp',
                     inParty: true,
                     relationship: 0,
+                    relationshipTier: '',
                     stats: {},
                     statNames: {},
                 },
             ],
+            factions: [],
             inventory: [],
             quests: [],
             journal: [],
             playerNotes: [],
             variables: {},
             time: { day: 1, hour: 8 },
+            date: null,
             map: null,
             music: '',
             ambient: '',
@@ -104,6 +185,7 @@ describe('GameRenderer party panel', () => {
             pendingSounds: [],
             pendingVideo: null,
             pendingInterlude: null,
+            shop: null,
             ui: {},
             currentLocale: 'en',
         };
@@ -122,7 +204,9 @@ describe('GameRenderer party panel', () => {
         } as unknown as GameContextValue['actions'];
 
         render(
-            <GameContext.Provider value={{ snapshot, actions }}>
+            <GameContext.Provider
+                value={{ snapshot, canRewind: false, actions }}
+            >
                 <GameRenderer projectId="00000000-0000-4000-8000-000000000001" />
             </GameContext.Provider>
         );
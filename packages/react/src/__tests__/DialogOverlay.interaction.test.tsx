@@ -142,6 +142,7 @@ describe('Inventory keyboard access', () => {
                         icon: '',
                         image: '',
                         stats: {},
+                        count: 1,
                     },
                 ]}
             />
@@ -155,4 +156,69 @@ describe('Inventory keyboard access', () => {
         expect(screen.getByText('Warm from the lock.')).toBeTruthy();
         expect(screen.queryByRole('dialog', { name: 'Brass Key' })).toBeNull();
     });
+
+    it('shows how many of a stacked item the player carries', () => {
+        const item = {
+            id: 'potion',
+            name: 'Potion',
+            description: 'Bitter.',
+            icon: '',
+            image: '',
+            stats: {},
+        };
+        render(
+            <Inventory
+                items={[
+                    { ...item, count: 3 },
+                    { ...item, id: 'map', name: 'Map', count: 1 },
+                ]}
+            />
+        );
+
+        expect(screen.getByRole('button', { name: /Potion/ }).textContent).toBe(
+            'Potion ×3'
+        );
+        expect(screen.getByRole('button', { name: 'Map' }).textContent).toBe(
+            'Map'
+        );
+    });
+
+    it("offers the selected item's uses and reports the one picked", async () => {
+        const user = userEvent.setup();
+        const onUse = vi.fn();
+        render(
+            <Inventory
+                onUse={onUse}
+                items={[
+                    {
+                        id: 'letter',
+                        name: 'Letter',
+                        description: 'Sealed with wax.',
+                        icon: '',
+                        image: '',
+                        stats: {},
+                        count: 1,
+                        uses: [
+                            { id: 'read', label: 'Read', target: null },
+                            {
+                                id: 'show',
+                                label: 'Show the guard',
+                                target: 'guard',
+                            },
+                        ],
+                    },
+                ]}
+            />
+        );
+
+        await user.click(screen.getByRole('button', { name: 'Read' }));
+        await user.click(
+            screen.getByRole('button', { name: 'Show the guard' })
+        );
+
+        expect(onUse.mock.calls).toEqual([
+            ['letter', undefined],
+            ['letter', 'guard'],
+        ]);
+    });
 });
@@ -1,5 +1,5 @@
 // @vitest-environment jsdom
-import { afterEach, describe, expect, it } from 'vitest';
+import { afterEach, describe, expect, it, vi } from 'vitest';
 import { cleanup, fireEvent, render } from '@testing-library/react';
 import { DialogueBox } from '../components/DialogueBox';
 
@@ -61,3 +61,32 @@ describe('DialogueBox keyboard scrolling', () => {
         expect(scroll.scrollTop).toBe(0);
     });
 });
+
+describe('DialogueBox Back', () => {
+    it('shows Back only when the player can take an action back', () => {
+        const { queryByRole, rerender } = render(
+            <DialogueBox dialogue={dialogue} />
+        );
+        expect(queryByRole('button', { name: 'Back' })).toBeNull();
+
+        const onBack = vi.fn();
+        rerender(
+            <DialogueBox
+                dialogue={dialogue}
+                onBack={onBack}
+                backLabel="Tillbaka"
+            />
+        );
+        fireEvent.click(queryByRole('button', { name: 'Tillbaka' })!);
+        expect(onBack).toHaveBeenCalledTimes(1);
+    });
+
+    it('goes back on the back input command', () => {
+        const onBack = vi.fn();
+        render(<DialogueBox dialogue={dialogue} onBack={onBack} />);
+
+        fireEvent.keyDown(document.body, { key: 'Backspace' });
+
+        expect(onBack).toHaveBeenCalledTimes(1);
+    });
+});
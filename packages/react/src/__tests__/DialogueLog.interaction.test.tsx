@@ -0,0 +1,68 @@
+// @vitest-environment jsdom
+/**
+ * DialogueLog interaction: every entry shows its speaker and text, lines
+ * with a voice offer a replay button that passes the voice file back, and
+ * the buttons are hidden when the renderer cannot replay voices.
+ */
+import { describe, expect, it, vi, afterEach } from 'vitest';
+import { render, screen, fireEvent, cleanup } from '@testing-library/react';
+import type { SnapshotDialogueLogEntry } from '@doodle-engine/core';
+import { DialogueLog } from '../components/DialogueLog';
+
+afterEach(cleanup);
+
+const entries: SnapshotDialogueLogEntry[] = [
+    {
+        kind: 'line',
+        speaker: 'innkeeper',
+        speakerName: 'Innkeeper',
+        text: 'Room or ale?',
+        voice: 'assets/audio/voice/greeting.ogg',
+    },
+    {
+        kind: 'choice',
+        speaker: null,
+        speakerName: 'Ria',
+        text: 'Ale.',
+        voice: '',
+    },
+];
+
+describe('DialogueLog real interaction', () => {
+    it('lists lines and responses with their speakers', () => {
+        const { container } = render(<DialogueLog entries={entries} />);
+
+        const items = container.querySelectorAll('.dialogue-log-entry');
+        expect(items).toHaveLength(2);
+        expect(items[0].className).toContain('dialogue-log-line');
+        expect(items[0].textContent).toContain('Innkeeper');
+        expect(items[0].textContent).toContain('Room or ale?');
+        expect(items[1].className).toContain('dialogue-log-choice');
+        expect(items[1].textContent).toContain('Ria');
+    });
+
+    it('replays the voice of a line', () => {
+        const onReplayVoice = vi.fn();
+        render(<DialogueLog entries={entries} onReplayVoice={onReplayVoice} />);
+
+        const buttons = screen.getAllByRole('button', { name: 'Replay' });
+        expect(buttons).toHaveLength(1);
+        fireEvent.click(buttons[0]);
+
+        expect(onReplayVoice).toHaveBeenCalledExactlyOnceWith(
+            'assets/audio/voice/greeting.ogg'
+        );
+    });
+
+    it('hides replay buttons without a replay handler', () => {
+        render(<DialogueLog entries={entries} />);
+
+        expect(screen.queryByRole('button', { name: 'Replay' })).toBeNull();
+    });
+
+    it('says so when nothing has been said', () => {
+        render(<DialogueLog entries={[]} />);
+
+        expect(screen.getByText('Nothing has been said yet')).toBeTruthy();
+    });
+});
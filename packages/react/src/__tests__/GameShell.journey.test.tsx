@@ -215,6 +215,50 @@ describe('GameShell player journeys', () => {
         expect(screen.getByRole('button', { name: 'Bartender' })).toBeTruthy();
     });
 
+    it('takes back dialogue actions with Back when the game allows it', async () => {
+        const user = userEvent.setup();
+        renderShell({ gameConfig: { ...config, allowRewind: true } });
+        await continueFromLoading(user);
+        await user.click(
+            await screen.findByRole('button', { name: 'New Game' })
+        );
+
+        await user.click(screen.getByRole('button', { name: 'Bartender' }));
+        await user.click(
+            screen.getByRole('button', { name: 'Nothing today.' })
+        );
+        expect(screen.queryByText('What can I get you?')).toBeNull();
+
+        await user.click(screen.getByRole('button', { name: 'Back' }));
+        expect(screen.getByText('What can I get you?')).toBeTruthy();
+
+        await user.keyboard('{Backspace}');
+        expect(screen.queryByText('What can I get you?')).toBeNull();
+        expect(screen.queryByRole('button', { name: 'Back' })).toBeNull();
+    });
+
+    it('opens the conversation log with L after a conversation ends', async () => {
+        const user = await startGame();
+        await user.click(screen.getByRole('button', { name: 'Bartender' }));
+        await user.click(
+            screen.getByRole('button', { name: 'Nothing today.' })
+        );
+
+        await user.keyboard('l');
+        const log = screen.getByRole('region', { name: 'Log' });
+        expect(within(log).getByText('What can I get you?')).toBeTruthy();
+        expect(within(log).getByText('Nothing today.')).toBeTruthy();
+
+        await user.keyboard('l');
+        expect(screen.queryByRole('region', { name: 'Log' })).toBeNull();
+    });
+
+    it('offers no Back button unless the game allows rewinding', async () => {
+        const user = await startGame();
+        await user.click(screen.getByRole('button', { name: 'Bartender' }));
+        expect(screen.queryByRole('button', { name: 'Back' })).toBeNull();
+    });
+
     it('loads the newest save through the actual pause-menu path', async () => {
         const registry = makeRegistry();
         const savedEngine = new Engine(registry);
@@ -266,6 +310,7 @@ describe('GameShell player journeys', () => {
             'Inventory',
             'Journal',
             'Notes',
+            'Log',
             'Map',
             'Save/Load',
             'Settings',
@@ -36,6 +36,9 @@ describe('mapKeyboardEventToInputCommand', () => {
         expect(mapKeyboardEventToInputCommand({ key: 'Escape' })).toEqual({
             command: 'cancel',
         });
+        expect(mapKeyboardEventToInputCommand({ key: 'Backspace' })).toEqual({
+            command: 'back',
+        });
         expect(mapKeyboardEventToInputCommand({ key: 'ArrowDown' })).toEqual({
             command: 'next',
         });
@@ -44,6 +47,15 @@ describe('mapKeyboardEventToInputCommand', () => {
         });
     });
 
+    it('maps L to the conversation log', () => {
+        expect(mapKeyboardEventToInputCommand({ key: 'l' })).toEqual({
+            command: 'openLog',
+        });
+        expect(mapKeyboardEventToInputCommand({ key: 'L' })).toEqual({
+            command: 'openLog',
+        });
+    });
+
     it('maps number keys to choice commands', () => {
         expect(mapKeyboardEventToInputCommand({ key: '1' })).toEqual({
             command: 'choice1',
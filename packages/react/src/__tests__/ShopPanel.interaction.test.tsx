@@ -0,0 +1,70 @@
+// @vitest-environment jsdom
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { cleanup, render, screen } from '@testing-library/react';
+import userEvent from '@testing-library/user-event';
+import type { SnapshotShop, SnapshotShopItem } from '@doodle-engine/core';
+import { ShopPanel } from '../components/ShopPanel';
+
+afterEach(cleanup);
+
+function shopItem(id: string, name: string, price: number): SnapshotShopItem {
+    return {
+        id,
+        name,
+        description: '',
+        icon: '',
+        image: '',
+        stats: {},
+        count: 1,
+        price,
+    };
+}
+
+const shop: SnapshotShop = {
+    merchantId: 'merchant',
+    merchantName: 'Mira',
+    currency: 'gold',
+    money: 20,
+    stock: [shopItem('rope', 'Rope', 5), shopItem('lantern', 'Lantern', 30)],
+    sellable: [shopItem('old_coin', 'Old coin', 4)],
+};
+
+describe('ShopPanel interactions', () => {
+    it('buys and sells by item id', async () => {
+        const onBuy = vi.fn();
+        const onSell = vi.fn();
+        const user = userEvent.setup();
+        render(<ShopPanel shop={shop} onBuy={onBuy} onSell={onSell} />);
+
+        expect(screen.getByText('You have 20')).toBeTruthy();
+        await user.click(screen.getByRole('button', { name: 'Buy Rope' }));
+        await user.click(screen.getByRole('button', { name: 'Sell Old coin' }));
+
+        expect(onBuy).toHaveBeenCalledWith('rope');
+        expect(onSell).toHaveBeenCalledWith('old_coin');
+    });
+
+    it('disables items the player cannot afford', () => {
+        render(<ShopPanel shop={shop} onBuy={() => {}} onSell={() => {}} />);
+
+        const lantern = screen.getByRole('button', {
+            name: 'Buy Lantern',
+        }) as HTMLButtonElement;
+        expect(lantern.disabled).toBe(true);
+    });
+
+    it('shows empty states for both lists', () => {
+        render(
+            <ShopPanel
+                shop={{ ...shop, stock: [], sellable: [] }}
+                onBuy={() => {}}
+                onSell={() => {}}
+            />
+        );
+
+        expect(screen.getByText('Nothing for sale')).toBeTruthy();
+        expect(screen.getByText('Nothing to sell')).toBeTruthy();
+        expect(screen.queryAllByRole('button')).toHaveLength(0);
+    });
+});
@@ -38,13 +38,16 @@ function makeSnapshot(overrides: Partial<Snapshot> = {}): Snapshot {
         itemsHere: [],
         choices: [],
         dialogue: null,
+        dialogueLog: [],
         party: [],
+        factions: [],
         inventory: [],
         quests: [],
         journal: [],
         playerNotes: [],
         variables: {},
         time: { day: 1, hour: 9 },
+        date: null,
         map: null,
         music: '',
         ambient: '',
@@ -52,6 +55,7 @@ function makeSnapshot(overrides: Partial<Snapshot> = {}): Snapshot {
         pendingSounds: [],
         pendingVideo: null,
         pendingInterlude: null,
+        shop: null,
         ui: {
             'ui.continue': 'Continue',
             'ui.end_dialogue': 'End Dialogue',
@@ -203,6 +207,7 @@ describe('React components', () => {
                         location: 'town',
                         inParty: false,
                         relationship: 0,
+                        relationshipTier: '',
                         stats: {},
                         statNames: {},
                     },
@@ -221,6 +226,7 @@ describe('React components', () => {
                         icon: '/assets/images/items/coin_icon.png',
                         image: '/assets/images/items/coin.png',
                         stats: {},
+                        count: 1,
                     },
                 ]}
             />
@@ -9,6 +9,7 @@ import {
     within,
 } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
+import { PSEUDO_LOCALE } from '@doodle-engine/core';
 import { GameTime } from '../components/GameTime';
 import { NotificationArea } from '../components/NotificationArea';
 import { SettingsPanel } from '../components/SettingsPanel';
@@ -18,6 +19,7 @@ import { SplashScreen } from '../components/SplashScreen';
 import { TitleScreen } from '../components/TitleScreen';
 import { VideoPlayer } from '../components/VideoPlayer';
 import { Journal } from '../components/Journal';
+import { LocationView } from '../components/LocationView';
 
 afterEach(() => {
     cleanup();
@@ -250,6 +252,62 @@ describe('display component behavior', () => {
         }
     });
 
+    it('shows the calendar date and minutes when the game has a calendar', () => {
+        render(
+            <GameTime
+                time={{ day: 5, hour: 7, minute: 5 }}
+                date={{
+                    text: 'Moonday, Frostmoon 14, Year 1203',
+                    date: 'Frostmoon 14, Year 1203',
+                    weekday: 'Moonday',
+                    month: 'Frostmoon',
+                    season: 'Winter',
+                    year: 1203,
+                    day: 14,
+                    minutes: true,
+                }}
+            />
+        );
+        expect(
+            screen.getByText('Moonday, Frostmoon 14, Year 1203, 07:05')
+        ).toBeTruthy();
+    });
+
+    it('takes a location exit, and shows exits only with a callback', async () => {
+        const onTakeExit = vi.fn();
+        const location = {
+            id: 'hall',
+            name: 'Hall',
+            description: 'A long hall.',
+            banner: '',
+            exits: [
+                {
+                    id: 'north',
+                    label: 'North to the cellar',
+                    target: 'cellar',
+                    hours: 0,
+                },
+            ],
+        };
+        const { rerender } = render(
+            <LocationView
+                location={location}
+                onTakeExit={onTakeExit}
+                ui={{ 'ui.exits': 'Utgångar' }}
+            />
+        );
+
+        await userEvent.click(
+            within(
+                screen.getByRole('navigation', { name: 'Utgångar' })
+            ).getByRole('button', { name: 'North to the cellar' })
+        );
+        expect(onTakeExit).toHaveBeenCalledWith('north');
+
+        rerender(<LocationView location={location} />);
+        expect(screen.queryByRole('navigation')).toBeNull();
+    });
+
     it('renders notifications only when there are messages', () => {
         const { container, rerender } = render(
             <NotificationArea notifications={[]} />
@@ -359,6 +417,47 @@ describe('display component behavior', () => {
         expect(screen.queryByRole('combobox')).toBeNull();
     });
 
+    it('offers the pseudo-locale only with dev tools on', async () => {
+        const user = userEvent.setup();
+        const audio = {
+            masterVolume: 1,
+            musicVolume: 1,
+            soundVolume: 1,
+            voiceVolume: 1,
+            setMasterVolume: vi.fn(),
+            setMusicVolume: vi.fn(),
+            setSoundVolume: vi.fn(),
+            setVoiceVolume: vi.fn(),
+        };
+        const onLocaleChange = vi.fn();
+        const { rerender } = render(
+            <SettingsPanel
+                audio={audio}
+                availableLocales={[{ code: 'en', label: 'English' }]}
+                currentLocale="en"
+                onLocaleChange={onLocaleChange}
+                onBack={vi.fn()}
+            />
+        );
+        expect(screen.queryByRole('combobox')).toBeNull();
+
+        rerender(
+            <SettingsPanel
+                audio={audio}
+                availableLocales={[{ code: 'en', label: 'English' }]}
+                currentLocale="en"
+                onLocaleChange={onLocaleChange}
+                devTools
+                onBack={vi.fn()}
+            />
+        );
+        await user.selectOptions(
+            screen.getByRole('combobox'),
+            screen.getByRole('option', { name: 'Pseudo-locale' })
+        );
+        expect(onLocaleChange).toHaveBeenCalledWith(PSEUDO_LOCALE);
+    });
+
     it('completes a splash by timer, click, and keyboard', async () => {
         vi.useFakeTimers();
         const onComplete = vi.fn();
@@ -11,7 +11,9 @@ import { buildUIStrings } from '@doodle-engine/core';
 import { CharacterList } from '../components/CharacterList';
 import { Inventory } from '../components/Inventory';
 import { Journal } from '../components/Journal';
+import { ShopPanel } from '../components/ShopPanel';
 import { PlayerNotes } from '../components/PlayerNotes';
+import { DialogueLog } from '../components/DialogueLog';
 import { PlayerSetup } from '../components/PlayerSetup';
 import { PauseMenu } from '../components/PauseMenu';
 import { SettingsPanel } from '../components/SettingsPanel';
@@ -61,6 +63,7 @@ describe('built-in labels come from ui strings', () => {
                         location: 'town',
                         inParty: false,
                         relationship: 0,
+                        relationshipTier: '',
                         stats: {},
                         statNames: {},
                     },
@@ -79,6 +82,47 @@ describe('built-in labels come from ui strings', () => {
         expect(html).not.toContain('>No items<');
     });
 
+    it('ShopPanel headings, money, empty states, and trade buttons', () => {
+        const item = {
+            id: 'rope',
+            name: 'Rope',
+            description: '',
+            icon: '',
+            image: '',
+            stats: {},
+            count: 1,
+            price: 5,
+        };
+        const shop = {
+            merchantId: 'm',
+            merchantName: 'Mira',
+            currency: 'gold',
+            money: 7,
+            stock: [item],
+            sellable: [item],
+        };
+        const html = renderToStaticMarkup(
+            <ShopPanel ui={ui} shop={shop} onBuy={() => {}} onSell={() => {}} />
+        );
+        expect(html).toContain('XXui.shop_for_saleXX');
+        expect(html).toContain('XXui.shop_your_itemsXX');
+        expect(html).toContain('XXui.shop_moneyXX 7');
+        expect(html).toContain('XXui.shop_buyXX');
+        expect(html).toContain('XXui.shop_sellXX');
+        expect(html).not.toContain('>Buy<');
+
+        const empty = renderToStaticMarkup(
+            <ShopPanel
+                ui={ui}
+                shop={{ ...shop, stock: [], sellable: [] }}
+                onBuy={() => {}}
+                onSell={() => {}}
+            />
+        );
+        expect(empty).toContain('XXui.shop_nothing_for_saleXX');
+        expect(empty).toContain('XXui.shop_nothing_to_sellXX');
+    });
+
     it('Journal headings, states, and tracking controls', () => {
         const html = renderToStaticMarkup(
             <Journal
@@ -151,6 +195,32 @@ describe('built-in labels come from ui strings', () => {
         expect(empty).not.toContain('No notes yet');
     });
 
+    it('DialogueLog heading, empty state, and replay button', () => {
+        const html = renderToStaticMarkup(
+            <DialogueLog
+                ui={ui}
+                entries={[
+                    {
+                        kind: 'line',
+                        speaker: 'anna',
+                        speakerName: 'Anna',
+                        text: 'Hello.',
+                        voice: 'hello.ogg',
+                    },
+                ]}
+                onReplayVoice={() => {}}
+            />
+        );
+        expect(html).toContain('XXui.dialogue_logXX');
+        expect(html).toContain('XXui.replay_voiceXX');
+        expect(html).not.toContain('>Replay<');
+
+        const empty = renderToStaticMarkup(
+            <DialogueLog ui={ui} entries={[]} />
+        );
+        expect(empty).toContain('XXui.dialogue_log_emptyXX');
+    });
+
     it('PlayerSetup labels and guidance placeholders', () => {
         const html = renderToStaticMarkup(
             <PlayerSetup ui={ui} onSubmit={() => {}} />
@@ -43,13 +43,16 @@ function snapshot(overrides: Partial<Snapshot> = {}): Snapshot {
         itemsHere: [],
         choices: [],
         dialogue: null,
+        dialogueLog: [],
         party: [],
+        factions: [],
         inventory: [],
         quests: [],
         journal: [],
         playerNotes: [],
         variables: {},
         time: { day: 1, hour: 8 },
+        date: null,
         map: null,
         music: '',
         ambient: '',
@@ -57,6 +60,7 @@ function snapshot(overrides: Partial<Snapshot> = {}): Snapshot {
         pendingSounds: [],
         pendingVideo: null,
         pendingInterlude: null,
+        shop: null,
         ui: {},
         currentLocale: 'en',
         ...overrides,
@@ -1,11 +1,14 @@
 /**
- * CharacterSheet - Displays the player and current party roster.
+ * CharacterSheet - Displays the player and current party roster, with the
+ * player's faction reputation on its own tab.
  */
 
 import type {
     SnapshotCharacter,
+    SnapshotFaction,
     SnapshotPlayerCharacter,
 } from '@doodle-engine/core';
+import { useState } from 'react';
 import { uiText } from '../uiText';
 
 type CharacterProfile = SnapshotCharacter | SnapshotPlayerCharacter;
@@ -14,6 +17,8 @@ export interface CharacterSheetProps {
     ui?: Record<string, string>;
     character: CharacterProfile;
     characters?: CharacterProfile[];
+    /** Factions from snapshot.factions. The player's sheet lists them on a Reputation tab. */
+    factions?: SnapshotFaction[];
     position: number;
     count: number;
     onSelect?: (position: number) => void;
@@ -25,15 +30,22 @@ export function CharacterSheet({
     ui,
     character,
     characters = [character],
+    factions = [],
     position,
     count,
     onSelect,
     onPrevious,
     onNext,
 }: CharacterSheetProps) {
+    const [tab, setTab] = useState<'details' | 'reputation'>('details');
     const visibleStats = Object.entries(character.stats).filter(
         ([key]) => !key.startsWith('_')
     );
+    // Reputation is the player's standing, so only the player's sheet has it.
+    const hasReputation = character.id === 'player' && factions.length > 0;
+    const showReputation = hasReputation && tab === 'reputation';
+    const relationshipTier =
+        'relationshipTier' in character ? character.relationshipTier : '';
 
     return (
         <article className="character-sheet">
@@ -109,6 +121,12 @@ export function CharacterSheet({
                                     {character.title}
                                 </p>
                             )}
+                            {relationshipTier && (
+                                <p className="character-sheet-relationship">
+                                    {uiText(ui, 'ui.relationship')}:{' '}
+                                    {relationshipTier}
+                                </p>
+                            )}
                             {character.biography && (
                                 <p className="character-sheet-biography">
                                     {character.biography}
@@ -117,7 +135,58 @@ export function CharacterSheet({
                         </div>
                     </header>
 
-                    {visibleStats.length > 0 && (
+                    {hasReputation && (
+                        <div className="character-sheet-tabs" role="tablist">
+                            <button
+                                type="button"
+                                role="tab"
+                                className="character-sheet-tab"
+                                aria-selected={!showReputation}
+                                onClick={() => setTab('details')}
+                            >
+                                {uiText(ui, 'ui.character_details')}
+                            </button>
+                            <button
+                                type="button"
+                                role="tab"
+                                className="character-sheet-tab"
+                                aria-selected={showReputation}
+                                onClick={() => setTab('reputation')}
+                            >
+                                {uiText(ui, 'ui.reputation')}
+                            </button>
+                        </div>
+                    )}
+
+                    {showReputation && (
+                        <ul className="character-sheet-reputation">
+                            {factions.map((faction) => (
+                                <li
+                                    key={faction.id}
+                                    className="character-sheet-faction"
+                                >
+                                    <span className="character-sheet-faction-name">
+                                        {faction.name}
+                                    </span>
+                                    {faction.tier && (
+                                        <span className="character-sheet-faction-tier">
+                                            {faction.tier}
+                                        </span>
+                                    )}
+                                    <span className="character-sheet-faction-value">
+                                        {faction.reputation}
+                                    </span>
+                                    {faction.description && (
+                                        <p className="character-sheet-faction-description">
+                                            {faction.description}
+                                        </p>
+                                    )}
+                                </li>
+                            ))}
+                        </ul>
+                    )}
+
+                    {!showReputation && visibleStats.length > 0 && (
                         <div
                             className={`character-sheet-stats ${visibleStats.length > 4 ? 'is-wide' : ''}`}
                         >
@@ -1,5 +1,5 @@
 /**
- * DialogueBox - Displays current dialogue node
+ * DialogueBox - Displays current dialogue node, with an optional Back button
  */
 
 import type { SnapshotDialogue } from '@doodle-engine/core';
@@ -11,6 +11,10 @@ export interface DialogueBoxProps {
     dialogue: SnapshotDialogue;
     className?: string;
     children?: ReactNode;
+    /** Called when the player clicks Back. Omit it to hide the button. */
+    onBack?: () => void;
+    /** Label for the Back button (from snapshot.ui['ui.back']) */
+    backLabel?: string;
 }
 
 const DIALOGUE_KEYBOARD_SCROLL_FRACTION = 0.8;
@@ -44,6 +48,8 @@ export function DialogueBox({
     dialogue,
     className = '',
     children,
+    onBack,
+    backLabel = 'Back',
 }: DialogueBoxProps) {
     const scrollRef = useRef<HTMLDivElement>(null);
     const speakerId = useId();
@@ -66,6 +72,18 @@ export function DialogueBox({
         { priority: 10 }
     );
 
+    useInputAction(
+        ({ command }) => {
+            if (command !== 'back' || !onBack) {
+                return false;
+            }
+
+            onBack();
+            return true;
+        },
+        { enabled: Boolean(onBack) }
+    );
+
     return (
         <div className={`dialogue-stage ${className}`}>
             <div className="dialogue-portrait-panel">
@@ -101,6 +119,16 @@ export function DialogueBox({
                         </div>
                     </div>
                     {children}
+                    {onBack && (
+                        <div className="dialogue-back-row">
+                            <button
+                                className="dialogue-back-button"
+                                onClick={onBack}
+                            >
+                                {backLabel}
+                            </button>
+                        </div>
+                    )}
                 </div>
                 <div className="dialogue-hem" aria-hidden="true" />
             </div>
@@ -0,0 +1,76 @@
+/**
+ * DialogueLog - Scrollable backlog of spoken lines and chosen responses
+ */
+
+import type { SnapshotDialogueLogEntry } from '@doodle-engine/core';
+import { useEffect, useRef } from 'react';
+import { uiText } from '../uiText';
+import { FormattedText } from './FormattedText';
+
+export interface DialogueLogProps {
+    /** Log entries from snapshot.dialogueLog, oldest first */
+    entries: SnapshotDialogueLogEntry[];
+    /** Called with a line's voice file when the player replays it. Omit it to hide the buttons. */
+    onReplayVoice?: (voice: string) => void;
+    /** Resolved UI strings from snapshot.ui; English defaults when absent. */
+    ui?: Record<string, string>;
+    className?: string;
+}
+
+export function DialogueLog({
+    entries,
+    onReplayVoice,
+    ui,
+    className = '',
+}: DialogueLogProps) {
+    const scrollRef = useRef<HTMLOListElement>(null);
+
+    // Open at the latest entry; older ones are a scroll up.
+    useEffect(() => {
+        if (scrollRef.current) {
+            scrollRef.current.scrollTop = scrollRef.current.scrollHeight;
+        }
+    }, [entries.length]);
+
+    return (
+        <div className={`dialogue-log ${className}`}>
+            <h2 className="dialogue-log-title">
+                {uiText(ui, 'ui.dialogue_log')}
+            </h2>
+            {entries.length === 0 ? (
+                <p className="dialogue-log-empty">
+                    {uiText(ui, 'ui.dialogue_log_empty')}
+                </p>
+            ) : (
+                <ol
+                    ref={scrollRef}
+                    className="dialogue-log-entries doodle-scroll"
+                    tabIndex={0}
+                >
+                    {entries.map((entry, index) => (
+                        <li
+                            key={index}
+                            className={`dialogue-log-entry dialogue-log-${entry.kind}`}
+                        >
+                            <span className="dialogue-log-speaker">
+                                {entry.speakerName}
+                            </span>
+                            <span className="dialogue-log-text">
+                                <FormattedText text={entry.text} />
+                            </span>
+                            {entry.voice && onReplayVoice && (
+                                <button
+                                    type="button"
+                                    className="dialogue-log-replay"
+                                    onClick={() => onReplayVoice(entry.voice!)}
+                                >
+                                    {uiText(ui, 'ui.replay_voice')}
+                                </button>
+                            )}
+                        </li>
+                    ))}
+                </ol>
+            )}
+        </div>
+    );
+}
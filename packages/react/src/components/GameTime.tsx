@@ -1,13 +1,17 @@
 /**
- * GameTime - Displays current in-game time
+ * GameTime - Displays current in-game time, with the calendar date when the
+ * game has a calendar
  */
 
+import type { SnapshotDate } from '@doodle-engine/core';
 import { uiText } from '../uiText';
 
 export type TimeFormat = 'numeric' | 'narrative' | 'short';
 
 export interface GameTimeProps {
-    time: { day: number; hour: number };
+    time: { day: number; hour: number; minute?: number };
+    /** Calendar date from snapshot.date; the clock shows "Day N" without one. */
+    date?: SnapshotDate | null;
     format?: TimeFormat;
     /** Resolved UI strings from snapshot.ui; English defaults when absent. */
     ui?: Record<string, string>;
@@ -28,14 +32,27 @@ export function formatHour(hour: number): string {
     return hour.toString().padStart(2, '0') + ':00';
 }
 
+function formatClock(time: GameTimeProps['time'], minutes: boolean): string {
+    if (!minutes) return formatHour(time.hour);
+    return (
+        time.hour.toString().padStart(2, '0') +
+        ':' +
+        (time.minute ?? 0).toString().padStart(2, '0')
+    );
+}
+
 export function GameTime({
     time,
+    date,
     format = 'numeric',
     ui,
     className = '',
 }: GameTimeProps) {
     const t = (key: string) => uiText(ui, key);
-    const day = t('ui.day').replace('{day}', String(time.day));
+    const day = date
+        ? date.text
+        : t('ui.day').replace('{day}', String(time.day));
+    const clock = formatClock(time, date?.minutes ?? false);
     let display: string;
 
     switch (format) {
@@ -43,11 +60,11 @@ export function GameTime({
             display = `${day}, ${getTimeOfDay(time.hour, t)}`;
             break;
         case 'short':
-            display = `D${time.day} ${formatHour(time.hour)}`;
+            display = `D${time.day} ${clock}`;
             break;
         case 'numeric':
         default:
-            display = `${day}, ${formatHour(time.hour)}`;
+            display = `${day}, ${clock}`;
             break;
     }
 
@@ -55,7 +72,7 @@ export function GameTime({
         <div className={`game-time ${className}`}>
             <div className="game-time-display">{display}</div>
             {format === 'narrative' && (
-                <div className="game-time-clock">{formatHour(time.hour)}</div>
+                <div className="game-time-clock">{clock}</div>
             )}
         </div>
     );
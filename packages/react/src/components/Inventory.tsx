@@ -1,5 +1,6 @@
 /**
- * Inventory - Displays items with an embedded inspection pane.
+ * Inventory - Displays items with an embedded inspection pane and the
+ * selected item's uses.
  */
 
 import { useState } from 'react';
@@ -8,12 +9,19 @@ import { uiText } from '../uiText';
 
 export interface InventoryProps {
     items: SnapshotItem[];
+    /** Called when the player picks one of an item's uses (optional) */
+    onUse?: (itemId: string, targetId?: string) => void;
     /** Resolved UI strings from snapshot.ui; English defaults when absent. */
     ui?: Record<string, string>;
     className?: string;
 }
 
-export function Inventory({ items, ui, className = '' }: InventoryProps) {
+export function Inventory({
+    items,
+    onUse,
+    ui,
+    className = '',
+}: InventoryProps) {
     const [selectedId, setSelectedId] = useState<string | null>(null);
     const inspecting =
         items.find((item) => item.id === selectedId) ?? items[0] ?? null;
@@ -46,6 +54,11 @@ export function Inventory({ items, ui, className = '' }: InventoryProps) {
                                 />
                             )}
                             <span className="item-name">{item.name}</span>
+                            {item.count > 1 && (
+                                <span className="item-count">
+                                    {` ×${item.count}`}
+                                </span>
+                            )}
                         </button>
                     ))}
                 </div>
@@ -67,10 +80,36 @@ export function Inventory({ items, ui, className = '' }: InventoryProps) {
                             />
                         )}
                     </div>
-                    <h3 className="item-modal-name">{inspecting.name}</h3>
+                    <h3 className="item-modal-name">
+                        {inspecting.name}
+                        {inspecting.count > 1 && (
+                            <span className="item-count">
+                                {` ×${inspecting.count}`}
+                            </span>
+                        )}
+                    </h3>
                     <p className="item-modal-description">
                         {inspecting.description}
                     </p>
+                    {onUse && inspecting.uses && inspecting.uses.length > 0 && (
+                        <div className="item-uses">
+                            {inspecting.uses.map((use) => (
+                                <button
+                                    type="button"
+                                    key={use.id}
+                                    className="item-use-button"
+                                    onClick={() =>
+                                        onUse(
+                                            inspecting.id,
+                                            use.target ?? undefined
+                                        )
+                                    }
+                                >
+                                    {use.label}
+                                </button>
+                            ))}
+                        </div>
+                    )}
                 </aside>
             )}
         </div>
@@ -1,5 +1,5 @@
 /**
- * LocationView - Displays current location
+ * LocationView - Displays current location and the exits the player can take
  */
 
 import type { SnapshotLocation } from '@doodle-engine/core';
@@ -7,6 +7,8 @@ import { uiText } from '../uiText';
 
 export interface LocationViewProps {
     location: SnapshotLocation;
+    /** Called with an exit ID; exit buttons are shown only when this is set. */
+    onTakeExit?: (exitId: string) => void;
     /** Resolved UI strings; English defaults when absent. */
     ui?: Record<string, string>;
     className?: string;
@@ -14,9 +16,11 @@ export interface LocationViewProps {
 
 export function LocationView({
     location,
+    onTakeExit,
     ui,
     className = '',
 }: LocationViewProps) {
+    const exits = location.exits ?? [];
     return (
         <div
             className={`location-view is-overlay ${location.banner ? 'has-banner' : 'has-banner-placeholder'} ${className}`}
@@ -40,6 +44,23 @@ export function LocationView({
             <div className="location-content">
                 <h1 className="location-name">{location.name}</h1>
                 <p className="location-description">{location.description}</p>
+                {onTakeExit && exits.length > 0 && (
+                    <nav
+                        className="location-exits"
+                        aria-label={uiText(ui, 'ui.exits')}
+                    >
+                        {exits.map((exit) => (
+                            <button
+                                type="button"
+                                key={exit.id}
+                                className="location-exit-button"
+                                onClick={() => onTakeExit(exit.id)}
+                            >
+                                {exit.label}
+                            </button>
+                        ))}
+                    </nav>
+                )}
             </div>
         </div>
     );
@@ -2,6 +2,7 @@
  * SettingsPanel - Volume controls and language selection
  */
 
+import { PSEUDO_LOCALE } from '@doodle-engine/core';
 import type { UISoundControls } from '../hooks/useUISounds';
 import { uiText } from '../uiText';
 
@@ -27,6 +28,12 @@ export interface SettingsPanelProps {
     currentLocale?: string;
     /** Language change handler */
     onLocaleChange?: (locale: string) => void;
+    /**
+     * Also offer the pseudo-locale, which shows every localized string
+     * accented, padded, and bracketed. Text without the brackets is
+     * hard-coded. Pass import.meta.env.DEV to offer it in development only.
+     */
+    devTools?: boolean;
     /** Go back / close settings */
     onBack: () => void;
     /** Resolved UI strings from snapshot.ui; English defaults when absent. */
@@ -41,10 +48,19 @@ export function SettingsPanel({
     availableLocales,
     currentLocale,
     onLocaleChange,
+    devTools = false,
     onBack,
     ui,
     className = '',
 }: SettingsPanelProps) {
+    const locales =
+        devTools && availableLocales
+            ? [
+                  ...availableLocales,
+                  { code: PSEUDO_LOCALE, label: 'Pseudo-locale' },
+              ]
+            : availableLocales;
+
     return (
         <div className={`settings-panel doodle-scroll ${className}`}>
             <h2 className="settings-title">{uiText(ui, 'ui.settings')}</h2>
@@ -82,26 +98,24 @@ export function SettingsPanel({
                 )}
             </div>
 
-            {availableLocales &&
-                availableLocales.length > 1 &&
-                onLocaleChange && (
-                    <div className="settings-section">
-                        <h3 className="settings-section-title">
-                            {uiText(ui, 'ui.language')}
-                        </h3>
-                        <select
-                            className="settings-locale-select"
-                            value={currentLocale}
-                            onChange={(e) => onLocaleChange(e.target.value)}
-                        >
-                            {availableLocales.map((locale) => (
-                                <option key={locale.code} value={locale.code}>
-                                    {locale.label}
-                                </option>
-                            ))}
-                        </select>
-                    </div>
-                )}
+            {locales && locales.length > 1 && onLocaleChange && (
+                <div className="settings-section">
+                    <h3 className="settings-section-title">
+                        {uiText(ui, 'ui.language')}
+                    </h3>
+                    <select
+                        className="settings-locale-select"
+                        value={currentLocale}
+                        onChange={(e) => onLocaleChange(e.target.value)}
+                    >
+                        {locales.map((locale) => (
+                            <option key={locale.code} value={locale.code}>
+                                {locale.label}
+                            </option>
+                        ))}
+                    </select>
+                </div>
+            )}
 
             <button className="settings-back-button" onClick={onBack}>
                 {uiText(ui, 'ui.back')}
@@ -0,0 +1,113 @@
+/**
+ * ShopPanel - Lists what a merchant sells and what the player can sell back.
+ */
+
+import type { SnapshotShop, SnapshotShopItem } from '@doodle-engine/core';
+import { uiText } from '../uiText';
+
+export interface ShopPanelProps {
+    shop: SnapshotShop;
+    /** Called with an item ID when the player buys it */
+    onBuy: (itemId: string) => void;
+    /** Called with an item ID when the player sells it */
+    onSell: (itemId: string) => void;
+    /** Resolved UI strings from snapshot.ui; English defaults when absent. */
+    ui?: Record<string, string>;
+    className?: string;
+}
+
+export function ShopPanel({
+    shop,
+    onBuy,
+    onSell,
+    ui,
+    className = '',
+}: ShopPanelProps) {
+    return (
+        <div className={`shop-panel ${className}`}>
+            <p className="shop-money">
+                {uiText(ui, 'ui.shop_money').replace(
+                    '{money}',
+                    String(shop.money)
+                )}
+            </p>
+
+            <section className="shop-section shop-stock">
+                <h2>{uiText(ui, 'ui.shop_for_sale')}</h2>
+                {shop.stock.length === 0 ? (
+                    <p className="shop-empty">
+                        {uiText(ui, 'ui.shop_nothing_for_sale')}
+                    </p>
+                ) : (
+                    <ShopItemList
+                        items={shop.stock}
+                        actionLabel={uiText(ui, 'ui.shop_buy')}
+                        canTrade={(item) => item.price <= shop.money}
+                        onTrade={onBuy}
+                    />
+                )}
+            </section>
+
+            <section className="shop-section shop-sellable">
+                <h2>{uiText(ui, 'ui.shop_your_items')}</h2>
+                {shop.sellable.length === 0 ? (
+                    <p className="shop-empty">
+                        {uiText(ui, 'ui.shop_nothing_to_sell')}
+                    </p>
+                ) : (
+                    <ShopItemList
+                        items={shop.sellable}
+                        actionLabel={uiText(ui, 'ui.shop_sell')}
+                        canTrade={() => true}
+                        onTrade={onSell}
+                    />
+                )}
+            </section>
+        </div>
+    );
+}
+
+function ShopItemList({
+    items,
+    actionLabel,
+    canTrade,
+    onTrade,
+}: {
+    items: SnapshotShopItem[];
+    actionLabel: string;
+    canTrade: (item: SnapshotShopItem) => boolean;
+    onTrade: (itemId: string) => void;
+}) {
+    return (
+        <ul className="shop-list doodle-scroll">
+            {items.map((item) => (
+                <li key={item.id} className="shop-item">
+                    {item.icon ? (
+                        <img src={item.icon} alt="" className="item-icon" />
+                    ) : (
+                        <span
+                            className="item-icon item-icon-placeholder"
+                            aria-hidden="true"
+                        />
+                    )}
+                    <span className="item-name">
+                        {item.name}
+                        {item.count > 1 && (
+                            <span className="item-count">{` ×${item.count}`}</span>
+                        )}
+                    </span>
+                    <span className="shop-price">{item.price}</span>
+                    <button
+                        type="button"
+                        className="shop-trade-button"
+                        onClick={() => onTrade(item.id)}
+                        disabled={!canTrade(item)}
+                        aria-label={`${actionLabel} ${item.name}`}
+                    >
+                        {actionLabel}
+                    </button>
+                </li>
+            ))}
+        </ul>
+    );
+}
@@ -85,6 +85,9 @@ export type { PlayerSetupProps } from './components/PlayerSetup';
 export { Inventory } from './components/Inventory';
 export type { InventoryProps } from './components/Inventory';
 
+export { ShopPanel } from './components/ShopPanel';
+export type { ShopPanelProps } from './components/ShopPanel';
+
 export { DialogOverlay } from './components/DialogOverlay';
 export type { DialogOverlayProps } from './components/DialogOverlay';
 
@@ -94,6 +97,9 @@ export type { JournalProps } from './components/Journal';
 export { PlayerNotes } from './components/PlayerNotes';
 export type { PlayerNotesProps } from './components/PlayerNotes';
 
+export { DialogueLog } from './components/DialogueLog';
+export type { DialogueLogProps } from './components/DialogueLog';
+
 export { MapView } from './components/MapView';
 export type { MapViewProps } from './components/MapView';
 
@@ -19,12 +19,14 @@ export type InputCommand =
     | 'confirm'
     | 'cancel'
     | 'continue'
+    | 'back'
     | `choice${number}`
     | 'next'
     | 'previous'
     | 'openInventory'
     | 'openJournal'
     | 'openMap'
+    | 'openLog'
     | 'openMenu';
 
 export interface InputCommandEvent {
@@ -90,6 +92,12 @@ export function mapKeyboardEventToInputCommand(
     if (event.key === 'Escape') {
         return { command: 'cancel' };
     }
+    if (event.key === 'Backspace') {
+        return { command: 'back' };
+    }
+    if (event.key === 'l' || event.key === 'L') {
+        return { command: 'openLog' };
+    }
     if (event.key === 'ArrowDown' || event.key === 'ArrowRight') {
         return { command: 'next' };
     }
@@ -0,0 +1,118 @@
+import { describe, expect, it, vi } from 'vitest';
+import type { StoryCoverage } from '@doodle-engine/core';
+import type { DocumentService } from '../document-service';
+import { CoverageService } from '../coverage-service';
+
+function service(documentOverrides: Partial<DocumentService>) {
+    const documents = documentOverrides as DocumentService;
+    return { coverage: new CoverageService(documents), documents };
+}
+
+function session(nodes: Record<string, number>): StoryCoverage {
+    return {
+        version: 1,
+        sessions: 1,
+        dialogues: { guard: { nodes, choices: {}, branches: {} } },
+        interludes: {},
+    };
+}
+
+const missing = vi.fn(async () => {
+    throw Object.assign(new Error('missing'), { code: 'ENOENT' });
+});
+
+describe('CoverageService', () => {
+    it('treats a missing coverage file as nothing recorded yet', async () => {
+        const { coverage } = service({ read: missing });
+        await expect(coverage.read('C:/story')).resolves.toEqual({
+            status: 'available',
+            coverage: {
+                version: 1,
+                sessions: 0,
+                dialogues: {},
+                interludes: {},
+            },
+        });
+    });
+
+    it('marks a file that is not coverage unavailable', async () => {
+        const { coverage } = service({
+            read: vi.fn(async () => ({ content: '{', mtimeMs: 1 })),
+        });
+        await expect(coverage.read('C:/story')).resolves.toEqual({
+            status: 'unavailable',
+            message: 'Coverage file is not valid JSON',
+        });
+    });
+
+    it('adds a session to the file, checking it did not change since it was read', async () => {
+        const write = vi.fn(async () => ({
+            ok: true,
+            conflict: false,
+            mtimeMs: 2,
+        }));
+        const { coverage } = service({
+            read: vi.fn(async () => ({
+                content: JSON.stringify(session({ start: 1 })),
+                mtimeMs: 1,
+            })),
+            write,
+        });
+
+        const merged = await coverage.record(
+            'C:/story',
+            session({ start: 1, gate: 1 })
+        );
+
+        expect(merged.sessions).toBe(2);
+        expect(merged.dialogues.guard.nodes).toEqual({ start: 2, gate: 1 });
+        expect(write).toHaveBeenCalledWith(
+            'C:/story',
+            'metadata/coverage.json',
+            JSON.stringify(merged, null, 2) + '\n',
+            1
+        );
+    });
+
+    it('merges again when another writer got there first', async () => {
+        const read = vi
+            .fn()
+            .mockResolvedValueOnce({
+                content: JSON.stringify(session({ start: 1 })),
+                mtimeMs: 1,
+            })
+            .mockResolvedValueOnce({
+                content: JSON.stringify(session({ start: 2 })),
+                mtimeMs: 3,
+            });
+        const write = vi
+            .fn()
+            .mockResolvedValueOnce({ ok: false, conflict: true, mtimeMs: 3 })
+            .mockResolvedValueOnce({ ok: true, conflict: false, mtimeMs: 4 });
+        const { coverage } = service({ read, write });
+
+        const merged = await coverage.record('C:/story', session({ start: 1 }));
+
+        expect(merged.dialogues.guard.nodes).toEqual({ start: 3 });
+        expect(write).toHaveBeenLastCalledWith(
+            'C:/story',
+            'metadata/coverage.json',
+            expect.any(String),
+            3
+        );
+    });
+
+    it('never overwrites a file it cannot read', async () => {
+        const write = vi.fn();
+        const { coverage } = service({
+            read: vi.fn(async () => ({ content: '[]', mtimeMs: 1 })),
+            write,
+        });
+        await expect(
+            coverage.record('C:/story', session({ start: 1 }))
+        ).rejects.toThrow(
+            'metadata/coverage.json: Coverage file does not hold'
+        );
+        expect(write).not.toHaveBeenCalled();
+    });
+});
@@ -8,6 +8,7 @@ const validateContent = vi.hoisted(() => vi.fn());
 const createProject = vi.hoisted(() => vi.fn());
 const readRendererTheme = vi.hoisted(() => vi.fn());
 const switchRendererTheme = vi.hoisted(() => vi.fn());
+const extractLocaleKeys = vi.hoisted(() => vi.fn());
 const addRecentProject = vi.hoisted(() => vi.fn(async () => {}));
 const pruneRecentProjects = vi.hoisted(() => vi.fn());
 const removeRecentProject = vi.hoisted(() => vi.fn());
@@ -21,6 +22,7 @@ vi.mock('@doodle-engine/toolkit', () => ({
     createProject,
     readRendererTheme,
     switchRendererTheme,
+    extractLocaleKeys,
 }));
 vi.mock('../recent-projects', () => ({
     addRecentProject,
@@ -72,6 +74,19 @@ describe('ProjectService', () => {
             template: 'prose',
             dependenciesChanged: true,
         });
+        extractLocaleKeys.mockReset().mockResolvedValue({
+            locale: 'en',
+            localeFile: 'content/locales/en.yaml',
+            keys: [
+                {
+                    key: 'location.tavern.name',
+                    text: 'Tavern',
+                    file: 'content/locations/tavern.yaml',
+                },
+            ],
+            files: ['content/locations/tavern.yaml'],
+            errors: [],
+        });
         addRecentProject.mockClear();
         pruneRecentProjects.mockReset().mockResolvedValue([
             {
@@ -155,6 +170,19 @@ describe('ProjectService', () => {
         );
     });
 
+    it('extracts locale keys through the toolkit and reloads the project', async () => {
+        const result = await service.extractLocaleKeys('C:/games/story');
+
+        expect(extractLocaleKeys).toHaveBeenCalledWith('C:/games/story');
+        expect(result).toEqual(
+            expect.objectContaining({
+                localeFile: 'content/locales/en.yaml',
+                files: ['content/locations/tavern.yaml'],
+                project: expect.objectContaining({ name: 'story-game' }),
+            })
+        );
+    });
+
     it('falls back to the folder name when package metadata has no name', async () => {
         readFile.mockResolvedValueOnce(
             JSON.stringify({
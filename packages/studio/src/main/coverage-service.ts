@@ -0,0 +1,88 @@
+import {
+    emptyCoverage,
+    mergeCoverage,
+    parseCoverage,
+    type StoryCoverage,
+} from '@doodle-engine/core';
+import type { CoverageReadResult } from '../shared/project';
+import { DocumentService } from './document-service';
+
+const COVERAGE_PATH = 'metadata/coverage.json';
+
+/** Writes raced by another writer (usually the CLI) are retried this often. */
+const RECORD_ATTEMPTS = 3;
+
+type LoadedCoverage =
+    | { status: 'available'; coverage: StoryCoverage; mtimeMs?: number }
+    | { status: 'unavailable'; message: string };
+
+function isMissing(error: unknown): boolean {
+    return Boolean(
+        error &&
+        typeof error === 'object' &&
+        'code' in error &&
+        error.code === 'ENOENT'
+    );
+}
+
+/**
+ * Reads and adds to the story coverage that playtests and playthrough runs
+ * record, without involving the loader. The file is the same one the CLI's
+ * `test --coverage` writes, so both add to one set of counts.
+ */
+export class CoverageService {
+    constructor(private readonly documents: DocumentService) {}
+
+    private async load(projectDir: string): Promise<LoadedCoverage> {
+        try {
+            const document = await this.documents.read(
+                projectDir,
+                COVERAGE_PATH
+            );
+            return {
+                status: 'available',
+                coverage: parseCoverage(document.content),
+                mtimeMs: document.mtimeMs,
+            };
+        } catch (error) {
+            if (isMissing(error)) {
+                return { status: 'available', coverage: emptyCoverage() };
+            }
+            return {
+                status: 'unavailable',
+                message: error instanceof Error ? error.message : String(error),
+            };
+        }
+    }
+
+    async read(projectDir: string): Promise<CoverageReadResult> {
+        const loaded = await this.load(projectDir);
+        return loaded.status === 'available'
+            ? { status: 'available', coverage: loaded.coverage }
+            : loaded;
+    }
+
+    /** Merge a session's coverage into the file and return the new totals. */
+    async record(
+        projectDir: string,
+        coverage: StoryCoverage
+    ): Promise<StoryCoverage> {
+        for (let attempt = 0; attempt < RECORD_ATTEMPTS; attempt++) {
+            const loaded = await this.load(projectDir);
+            if (loaded.status === 'unavailable') {
+                throw new Error(`${COVERAGE_PATH}: ${loaded.message}`);
+            }
+            const merged = mergeCoverage(loaded.coverage, coverage);
+            const result = await this.documents.write(
+                projectDir,
+                COVERAGE_PATH,
+                JSON.stringify(merged, null, 2) + '\n',
+                loaded.mtimeMs
+            );
+            if (result.ok) return merged;
+        }
+        throw new Error(
+            'Coverage kept changing on disk while Studio was saving. Try again.'
+        );
+    }
+}
@@ -31,6 +31,7 @@ import { pinDoodlePackages } from './engine-update';
 import { detectPackageManager } from './package-manager';
 import { resolveDependencyInstallRuntime } from './package-manager-runtime';
 import type { RendererTemplate, YamlEdit } from '@doodle-engine/toolkit';
+import type { StoryCoverage } from '@doodle-engine/core';
 import type {
     InstallResult,
     FlagVarNoteKind,
@@ -45,6 +46,7 @@ import { createThemeMenu, syncThemeMenuChecks } from './theme-menu';
 import { ErrorLog } from './error-log';
 import { AssetService } from './asset-service';
 import { FlagVarNotesService } from './flag-var-notes-service';
+import { CoverageService } from './coverage-service';
 import { StudioUpdater } from './studio-updater';
 import {
     createGithubReleasesLoader,
@@ -633,6 +635,11 @@ app.whenReady().then(() => {
             return projects.switchRendererTheme(dir, template);
         }
     );
+    // Not marked as self-writes: open editors pick up the rewritten files
+    // through the watcher, like any other change made outside Studio.
+    handle('project:extractLocaleKeys', (_event, dir: string) =>
+        projects.extractLocaleKeys(dir)
+    );
     handle(
         'project:build',
         async (_event, dir: string): Promise<StudioBuildResult> => {
@@ -708,6 +715,15 @@ app.whenReady().then(() => {
             to: string
         ) => flagVarNotes.move(dir, kind, from, to)
     );
+    const coverage = new CoverageService(documents);
+    handle('metadata:readCoverage', (_event, dir: string) =>
+        coverage.read(dir)
+    );
+    handle(
+        'metadata:recordCoverage',
+        (_event, dir: string, session: StoryCoverage) =>
+            coverage.record(dir, session)
+    );
     handle('doc:read', (_event, dir: string, relPath: string) =>
         documents.read(dir, relPath)
     );
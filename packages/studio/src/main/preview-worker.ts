@@ -44,7 +44,10 @@ parentPort.on('message', async (event) => {
                         type: 'log',
                         line: `${kind === 'add' ? 'added' : 'changed'} ${path}`,
                     }),
-                onValidation: (errors) => {
+                onValidation: (problems) => {
+                    const errors = problems.filter(
+                        (problem) => problem.severity !== 'warning'
+                    );
                     if (errors.length > 0) {
                         parentPort.postMessage({
                             type: 'log',
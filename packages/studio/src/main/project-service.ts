@@ -11,6 +11,7 @@ import type {
     NewProjectOptions,
     OpenProject,
     RecentProject,
+    StudioLocaleExtraction,
     StudioThemeSwitchResult,
 } from '../shared/project';
 import type { RendererTemplate } from '@doodle-engine/toolkit';
@@ -122,6 +123,17 @@ export class ProjectService {
         };
     }
 
+    async extractLocaleKeys(
+        projectDir: string
+    ): Promise<StudioLocaleExtraction> {
+        const { extractLocaleKeys } = await import('@doodle-engine/toolkit');
+        const result = await extractLocaleKeys(projectDir);
+        return {
+            ...result,
+            project: await this.load(projectDir),
+        };
+    }
+
     listRecent(): Promise<RecentProject[]> {
         return pruneRecentProjects(this.recentFile);
     }
@@ -41,6 +41,12 @@ describe('preload bridge', () => {
     });
 
     it('maps project, document, recovery, process, preview, and shell calls to IPC', async () => {
+        const coverage = {
+            version: 1,
+            sessions: 1,
+            dialogues: {},
+            interludes: {},
+        };
         const calls: Array<[() => unknown, string, unknown[]]> = [
             [() => api.openProject(), 'project:open', []],
             [() => api.openProjectPath('dir'), 'project:openPath', ['dir']],
@@ -88,6 +94,11 @@ describe('preload bridge', () => {
                 'project:switchRendererTheme',
                 ['dir', 'fable'],
             ],
+            [
+                () => api.extractLocaleKeys('dir'),
+                'project:extractLocaleKeys',
+                ['dir'],
+            ],
             [
                 () => api.readFlagVarNotes('dir'),
                 'metadata:readFlagVarNotes',
@@ -104,6 +115,12 @@ describe('preload bridge', () => {
                 'metadata:moveFlagVarNote',
                 ['dir', 'variable', 'oldScore', 'score'],
             ],
+            [() => api.readCoverage('dir'), 'metadata:readCoverage', ['dir']],
+            [
+                () => api.recordCoverage('dir', coverage),
+                'metadata:recordCoverage',
+                ['dir', coverage],
+            ],
             [
                 () => api.readDocument('dir', 'file'),
                 'doc:read',
@@ -22,12 +22,17 @@ const api: StudioApi = {
     revalidate: (dir) => ipcRenderer.invoke('project:revalidate', dir),
     switchRendererTheme: (dir, template) =>
         ipcRenderer.invoke('project:switchRendererTheme', dir, template),
+    extractLocaleKeys: (dir) =>
+        ipcRenderer.invoke('project:extractLocaleKeys', dir),
     readFlagVarNotes: (dir) =>
         ipcRenderer.invoke('metadata:readFlagVarNotes', dir),
     updateFlagVarNote: (dir, kind, id, note) =>
         ipcRenderer.invoke('metadata:updateFlagVarNote', dir, kind, id, note),
     moveFlagVarNote: (dir, kind, from, to) =>
         ipcRenderer.invoke('metadata:moveFlagVarNote', dir, kind, from, to),
+    readCoverage: (dir) => ipcRenderer.invoke('metadata:readCoverage', dir),
+    recordCoverage: (dir, coverage) =>
+        ipcRenderer.invoke('metadata:recordCoverage', dir, coverage),
     readDocument: (dir, relPath) =>
         ipcRenderer.invoke('doc:read', dir, relPath),
     writeDocument: (dir, relPath, content, expectedMtimeMs) =>
@@ -1,4 +1,5 @@
 import { useCallback, useEffect, useMemo, useRef, useState } from 'react';
+import { stringify as stringifyYaml } from 'yaml';
 import { THEMES } from '../../shared/project';
 import type {
     NewProjectOptions,
@@ -55,6 +56,7 @@ import {
     attachFlagVarNotes,
     buildFlagVarSummaries,
     buildStatSummaries,
+    type Declaration,
     type FlagVarKind,
     type NameCatalog,
 } from './lib/flag-vars';
@@ -72,6 +74,7 @@ import {
     Palette,
     CircleHelp,
     Download,
+    Languages,
 } from './lib/icons';
 
 /** The reference-index symbol type for each content section, where one exists.
@@ -124,6 +127,7 @@ export function App() {
         id: string;
         label: string;
     } | null>(null);
+    const [confirmExtractKeys, setConfirmExtractKeys] = useState(false);
     const [flagVarTarget, setFlagVarTarget] = useState<{
         kind: 'flag' | 'variable';
         id: string;
@@ -865,6 +869,57 @@ export function App() {
         [queueFlagVarNoteOperation]
     );
 
+    // Declarations live in content/variables.yaml, which is content: edits
+    // keep its comments, and the first declaration creates the file.
+    const updateFlagVarDeclaration = useCallback(
+        async (
+            kind: FlagVarKind,
+            id: string,
+            declaration: Declaration | undefined
+        ) => {
+            if (!project) return;
+            const dir = project.projectDir;
+            const section = kind === 'flag' ? 'flags' : 'variables';
+            try {
+                const fresh = await reloadProject(dir);
+                const relPath =
+                    fresh.files['variableSchema:variables'] ??
+                    'content/variables.yaml';
+                if (fresh.registry.variableSchema) {
+                    await window.studio.writeEntity(dir, relPath, [
+                        { path: [section, id], value: declaration },
+                    ]);
+                } else if (
+                    fresh.problems.some((problem) =>
+                        problem.file.endsWith('variables.yaml')
+                    )
+                ) {
+                    throw new Error(
+                        'variables.yaml could not be read. Fix it in the Problems panel before declaring names.'
+                    );
+                } else if (declaration) {
+                    await window.studio.writeDocument(
+                        dir,
+                        relPath,
+                        stringifyYaml({
+                            flags: {},
+                            variables: {},
+                            [section]: { [id]: declaration },
+                        })
+                    );
+                }
+                setProject(await reloadProject(dir));
+                setLastSavedAt(new Date());
+            } catch (error) {
+                window.studio.reportError?.({
+                    context: 'content:updateVariableDeclaration',
+                    message: displayError(error),
+                });
+            }
+        },
+        [project, reloadProject]
+    );
+
     const existingIds = useCallback(
         (section: CreatableSection): string[] => {
             if (!project) return [];
@@ -1099,6 +1154,24 @@ export function App() {
         [project, applyRenamePlan, moveFlagVarNote, reloadProject]
     );
 
+    // The rewritten files reach open editors through the file watcher, which
+    // reloads clean tabs and flags dirty ones as conflicts.
+    const extractLocaleKeys = useCallback(async () => {
+        if (!project) return;
+        const dir = project.projectDir;
+        setConfirmExtractKeys(false);
+        const result = await window.studio.extractLocaleKeys(dir);
+        if (currentDirRef.current !== dir) return;
+        setProject(result.project);
+        setReferenceProject(result.project);
+        setStaleFiles(new Set());
+        if (result.errors.length > 0) {
+            setDockTab('problems');
+        } else if (result.keys.length > 0) {
+            openItem('locales', result.locale, result.locale);
+        }
+    }, [project, openItem]);
+
     if (!project) {
         return (
             <div className="app">
@@ -1225,6 +1298,14 @@ export function App() {
                     },
                 ]
               : []),
+        {
+            id: 'act:extract-locale-keys',
+            label: 'Extract text to locale keys…',
+            group: 'Actions',
+            keywords: 'localize localization translate strings',
+            icon: <Languages size={15} />,
+            run: () => setConfirmExtractKeys(true),
+        },
         {
             id: 'act:documentation',
             label: 'Documentation',
@@ -1405,6 +1486,12 @@ export function App() {
                             void updateFlagVarNote(kind, id, note),
                         onNoteMove: (kind, from, to) =>
                             void moveFlagVarNote(kind, from, to),
+                        onDeclarationChange: (kind, id, declaration) =>
+                            void updateFlagVarDeclaration(
+                                kind,
+                                id,
+                                declaration
+                            ),
                         onOpenReference: openFlagVarReference,
                     }}
                 />
@@ -1532,6 +1619,15 @@ export function App() {
                         />
                     );
                 })()}
+            {confirmExtractKeys && (
+                <ConfirmModal
+                    title="Extract text to locale keys?"
+                    message="Inline speaker lines, choices, NOTIFY text, and entity names and descriptions are replaced with generated @keys, and the text moves into the source locale. Save open files first."
+                    confirmLabel="Extract"
+                    onConfirm={() => void extractLocaleKeys()}
+                    onCancel={() => setConfirmExtractKeys(false)}
+                />
+            )}
             {flagVarTarget && (
                 <FlagVarRenameModal
                     kind={flagVarTarget.kind}
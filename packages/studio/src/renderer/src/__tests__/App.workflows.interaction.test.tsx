@@ -837,6 +837,43 @@ describe('App workflows', () => {
         expect(document.documentElement.dataset.theme).toBe('neon');
     });
 
+    it('extracts locale keys after confirming and opens the source locale', async () => {
+        const extractLocaleKeys = vi.fn<StudioApi['extractLocaleKeys']>(
+            async () => ({
+                locale: 'en',
+                localeFile: 'content/locales/en.yaml',
+                keys: [
+                    {
+                        key: 'location.town.name',
+                        text: 'Town',
+                        file: 'content/locations/town.yaml',
+                    },
+                ],
+                files: ['content/locations/town.yaml'],
+                errors: [],
+                project: makeProject(),
+            })
+        );
+        installBridge({ extractLocaleKeys });
+        const user = await openApp();
+
+        await user.click(screen.getByRole('button', { name: 'Open palette' }));
+        await user.click(
+            screen.getByRole('button', {
+                name: 'Palette Extract text to locale keys…',
+            })
+        );
+        expect(extractLocaleKeys).not.toHaveBeenCalled();
+        await user.click(
+            screen.getByRole('button', { name: 'Confirm deletion' })
+        );
+
+        await waitFor(() =>
+            expect(extractLocaleKeys).toHaveBeenCalledWith('C:/story')
+        );
+        expect(await screen.findByText('locales:en')).toBeTruthy();
+    });
+
     it('moves a flag note when the flag is renamed', async () => {
         const moveFlagVarNote = vi.fn<StudioApi['moveFlagVarNote']>(
             async () => ({
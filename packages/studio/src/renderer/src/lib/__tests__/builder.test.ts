@@ -36,11 +36,18 @@ const sample: Record<string, string> = {
     journalId: 'tavern_note',
     dialogueId: 'merchant_intro',
     interludeId: 'chapter_one',
+    factionId: 'city_guard',
+    weekday: 'moonday',
+    season: 'winter',
     number: '4',
     value: '5',
+    expression: '{gold} * 2 - 1',
+    operator: '>=',
     hours: '2',
     boolean: 'true',
     text: 'thing.ogg',
+    condition: '(hasFlag doorLocked)',
+    conditions: '(hasItem old_coin) (hasFlag metBartender)',
 };
 
 function fill(descriptor: { args: ArgDescriptor[]; type: string }): {
@@ -74,6 +81,14 @@ describe('condition builder', () => {
         expect(buildCondition(draft, false).ok).toBe(true);
     });
 
+    it('rejects a roll nested in a group as a requirement', () => {
+        const anyOf = CONDITION_DESCRIPTORS.find((d) => d.type === 'anyOf')!;
+        const draft = emptyDraft(anyOf);
+        draft.values.conditions = '(hasFlag metBartender) (roll 1 20 15)';
+        expect(buildCondition(draft, true).error).toContain('requirement');
+        expect(buildCondition(draft, false).ok).toBe(true);
+    });
+
     it('reports a missing required argument', () => {
         const hasFlag = CONDITION_DESCRIPTORS.find(
             (d) => d.type === 'hasFlag'
@@ -93,6 +108,28 @@ describe('condition builder', () => {
         });
         expect(buildCondition(draft, false).value).toEqual(condition);
     });
+
+    it('round-trips an expression comparison through a draft', () => {
+        const condition = parseCondition('variable gold >= {price} * 2');
+        const draft = conditionToDraft(condition);
+        expect(draft.values).toEqual({
+            variable: 'gold',
+            operator: '>=',
+            value: '{price} * 2',
+        });
+        expect(buildCondition(draft, false).value).toEqual(condition);
+    });
+
+    it('round-trips a condition group through a draft', () => {
+        const condition = parseCondition(
+            'anyOf (hasItem old_coin) (not (hasFlag doorLocked))'
+        );
+        const draft = conditionToDraft(condition);
+        expect(draft.values).toEqual({
+            conditions: '(hasItem old_coin) (not (hasFlag doorLocked))',
+        });
+        expect(buildCondition(draft, false).value).toEqual(condition);
+    });
 });
 
 describe('effect builder', () => {
@@ -149,6 +149,73 @@ describe('layoutDialogue', () => {
         expect(graph.nodes[0].isEnd).toBe(true);
     });
 
+    it('draws each CALL as a row with an edge to a box for the other dialogue', () => {
+        const graph = layoutDialogue(
+            dlg('hub', [
+                node('hub', {
+                    choices: [
+                        {
+                            id: 'c1',
+                            text: 'Rumours?',
+                            next: 'hub',
+                            call: { dialogueId: 'rumours' },
+                        },
+                    ],
+                    call: { dialogueId: 'barter', nodeId: 'haggle' },
+                    next: 'bye',
+                }),
+                node('bye', { call: { dialogueId: 'rumours' } }),
+            ])
+        );
+        const at = (id: string) => graph.nodes.find((n) => n.id === id)!;
+        expect(at('hub').rows.map((r) => [r.kind, r.target])).toEqual([
+            ['choice', 'hub'],
+            ['call', 'CALL rumours'],
+            ['call', 'CALL barter.haggle'],
+            ['goto', 'bye'],
+        ]);
+        expect(at('CALL rumours').call).toEqual({ dialogueId: 'rumours' });
+        expect(at('CALL rumours').node).toBeNull();
+        expect(at('bye').isEnd).toBe(false);
+        // Shared by both callers and placed past the furthest one.
+        expect(at('CALL rumours').x).toBeGreaterThan(at('bye').x);
+        expect(
+            graph.edges
+                .filter((e) => e.kind === 'call')
+                .map((e) => [e.from, e.to])
+        ).toEqual([
+            ['hub', 'CALL rumours'],
+            ['hub', 'CALL barter.haggle'],
+            ['bye', 'CALL rumours'],
+        ]);
+    });
+
+    it('shows a RETURN as a row that does not end the dialogue', () => {
+        const graph = layoutDialogue(
+            dlg('a', [
+                node('a', {
+                    choices: [
+                        { id: 'c1', text: 'back', next: '', returns: true },
+                    ],
+                }),
+                node('b', { returns: true }),
+            ])
+        );
+        const at = (id: string) => graph.nodes.find((n) => n.id === id)!;
+        expect(at('a').rows[0]).toMatchObject({ target: null, returns: true });
+        expect(at('b').rows).toEqual([
+            {
+                kind: 'return',
+                index: 0,
+                target: null,
+                back: false,
+                returns: true,
+            },
+        ]);
+        expect(at('a').isEnd).toBe(false);
+        expect(at('b').isEnd).toBe(false);
+    });
+
     it('anchors each edge at its own row and fans arrivals apart', () => {
         const graph = layoutDialogue(
             dlg('a', [
@@ -6,6 +6,8 @@ import {
     buildStatSummaries,
     catalogFor,
     closestExistingName,
+    declarationDraft,
+    declarationFromDraft,
     nearIdenticalNames,
     prefixForName,
     usageSummary,
@@ -60,6 +62,7 @@ describe('flag and variable summaries', () => {
     it('handles a missing index and counts stats throughout loaded content', () => {
         expect(buildFlagVarSummaries(null)).toEqual([]);
         const registry = {
+            locations: {},
             characters: { hero: { id: 'hero', stats: { health: 10 } } },
             items: { sword: { id: 'sword', stats: { damage: 3 } } },
             dialogues: {
@@ -247,3 +250,50 @@ describe('flag and variable name health', () => {
         expect(prefixForName('metGuide')).toBe('No prefix');
     });
 });
+
+describe('variables.yaml declarations', () => {
+    it('round-trips a number declaration through its draft', () => {
+        const draft = declarationDraft('variable', {
+            type: 'number',
+            default: 10,
+            min: 0,
+            max: 100,
+            description: 'Coins carried',
+        });
+
+        expect(draft).toEqual({
+            type: 'number',
+            default: '10',
+            min: '0',
+            max: '100',
+            values: '',
+            description: 'Coins carried',
+        });
+        expect(declarationFromDraft('variable', draft)).toEqual({
+            type: 'number',
+            default: 10,
+            min: 0,
+            max: 100,
+            description: 'Coins carried',
+        });
+    });
+
+    it('keeps only the fields that apply to the chosen type', () => {
+        expect(
+            declarationFromDraft('variable', {
+                type: 'enum',
+                default: 'calm',
+                min: '0',
+                max: '',
+                values: 'calm, angry,',
+                description: ' ',
+            })
+        ).toEqual({ type: 'enum', values: ['calm', 'angry'], default: 'calm' });
+        expect(
+            declarationFromDraft('flag', {
+                ...declarationDraft('flag', undefined),
+                default: 'false',
+            })
+        ).toEqual({});
+    });
+});
@@ -161,6 +161,7 @@ describe('Monaco setup', () => {
         expect(dlgHover('NARRATOR: Hello', 4)?.documentation).toContain(
             'Write narration'
         );
+        expect(dlgHover('  RETURN', 4)?.documentation).toContain('`RETURN`');
         expect(dlgHover('NARRATOR: Hello', 14)).toBeNull();
     });
 
@@ -199,6 +200,26 @@ describe('Monaco setup', () => {
         ]);
     });
 
+    it('colors the condition inside each part of a group', () => {
+        const line = 'IF anyOf (hasItem old_coin) (not (hasFlag doorLocked))';
+        expect(
+            tokenizeDlgLine(line)
+                .filter((token) => line[token.startIndex] !== ' ')
+                .map((token) => [
+                    line.slice(token.startIndex).split(/\s/, 1)[0],
+                    token.scopes,
+                ])
+        ).toEqual([
+            ['IF', 'keyword'],
+            ['anyOf', 'condition'],
+            ['(hasItem', 'condition'],
+            ['old_coin)', 'identifier'],
+            ['(not', 'condition'],
+            ['(hasFlag', 'condition'],
+            ['doorLocked))', 'identifier'],
+        ]);
+    });
+
     it('distinguishes an effect verb from its target', () => {
         const line = 'SET questStage odd_jobs complete';
         expect(
@@ -233,6 +254,8 @@ describe('Monaco setup', () => {
             ['VOICE greeting.ogg', ['keyword', 'string']],
             ['PORTRAIT stern.png', ['keyword', 'string']],
             ['END', ['keyword']],
+            ['CALL rumours.gossip', ['keyword', 'reference']],
+            ['RETURN', ['keyword']],
         ] as const) {
             expect(
                 tokenizeDlgLine(line)
@@ -359,6 +382,9 @@ describe('Monaco setup', () => {
         expect(
             dlgCompletions('  GOTO ', 8, context).map((item) => item.label)
         ).toEqual(['farewell', 'location', 'opening']);
+        expect(
+            dlgCompletions('  CALL ', 8, context).map((item) => item.label)
+        ).toEqual(['intro']);
         expect(
             dlgCompletions('', 1, context).map((item) => item.label)
         ).toContain('SET flag');
@@ -180,6 +180,36 @@ describe('PlaytestSession', () => {
         expect(interesting?.display.key).toBe('@bartender.choice.interesting');
     });
 
+    it('falls back through the locale chain and lists keys no locale has', () => {
+        const content = {
+            ...registry(),
+            localeFallbacks: { 'pt-BR': ['en'] },
+            locales: {
+                en: { 'bartender.choice.interesting': "That's interesting." },
+                'pt-BR': {},
+            },
+        };
+        const session = new PlaytestSession(content, config());
+        session.setLocale('pt-BR');
+        session.startAtNode('bartender', 'rumors');
+
+        expect(
+            session.choiceRows().find((r) => r.id === 'interesting')?.display
+                .text
+        ).toBe("That's interesting.");
+        expect(session.getMissingKeys()).toEqual([]);
+
+        session.setLocale('sv');
+        expect(session.getMissingKeys()).toEqual([
+            {
+                key: 'bartender.choice.interesting',
+                locale: 'sv',
+                dialogueId: 'bartender',
+                nodeId: 'rumors',
+            },
+        ]);
+    });
+
     it('leaves a plain (non-@key) choice without a key', () => {
         const session = new PlaytestSession(registry(), config());
         session.startAtNode('bartender', 'rumors');
@@ -233,6 +263,28 @@ describe('PlaytestSession', () => {
         expect(session.getTrace()).toHaveLength(0);
     });
 
+    it('replays the same rolls on restart when given a seed', () => {
+        const session = new PlaytestSession(registry(), config(), '', 7);
+        const seeded = session.getState().randomState;
+        session.applyEffect({
+            type: 'roll',
+            variable: 'check',
+            min: 1,
+            max: 20,
+        });
+        const first = session.getState().variables.check;
+
+        session.restart();
+        expect(session.getState().randomState).toBe(seeded);
+        session.applyEffect({
+            type: 'roll',
+            variable: 'check',
+            min: 1,
+            max: 20,
+        });
+        expect(session.getState().variables.check).toBe(first);
+    });
+
     it('saves and restores a named test state', () => {
         const session = new PlaytestSession(registry(), config());
         session.applyEffect({
@@ -327,6 +379,13 @@ describe('PlaytestSession', () => {
                 effects: [],
                 next: 'start',
             },
+            {
+                id: 'item-count',
+                text: 'Item count',
+                conditions: [{ type: 'hasItem', itemId: 'old_coin', count: 2 }],
+                effects: [],
+                next: 'start',
+            },
             {
                 id: 'location',
                 text: 'Location',
@@ -411,6 +470,33 @@ describe('PlaytestSession', () => {
                 conditions: [{ type: 'roll', min: 1, max: 1, threshold: 2 }],
                 effects: [],
                 next: 'start',
+            },
+            {
+                id: 'any-of',
+                text: 'Any of',
+                conditions: [
+                    {
+                        type: 'anyOf',
+                        conditions: [
+                            { type: 'hasFlag', flag: 'introduced' },
+                            { type: 'hasItem', itemId: 'missing_key' },
+                        ],
+                    },
+                ],
+                effects: [],
+                next: 'start',
+            },
+            {
+                id: 'not',
+                text: 'Not',
+                conditions: [
+                    {
+                        type: 'not',
+                        condition: { type: 'hasFlag', flag: 'doorLocked' },
+                    },
+                ],
+                effects: [],
+                next: 'start',
             }
         );
         const start = config();
@@ -426,6 +512,7 @@ describe('PlaytestSession', () => {
             flag: 'flag introduced is not set',
             'not-flag': 'flag doorLocked is set',
             item: 'missing_key not in inventory',
+            'item-count': 'only 1 of old_coin, needs 2',
             location: 'at tavern',
             'character-location': 'bartender is at tavern',
             party: 'bartender not in party',
@@ -434,10 +521,61 @@ describe('PlaytestSession', () => {
             time: 'hour is 8',
             'item-location': 'old_coin is at inventory',
             roll: 'roll did not meet the threshold',
+            'any-of':
+                'flag introduced is not set; missing_key not in inventory',
+            not: 'hasFlag doorLocked is true',
         });
     });
 
+    it('steps back over a choice even when the game does not allow rewinding', () => {
+        const session = new PlaytestSession(registry(), config());
+        session.startAtNode('bartender', 'rumors');
+        expect(session.canRewind()).toBe(false);
+
+        session.selectChoice('interesting');
+        expect(session.getState().dialogueState?.nodeId).toBe('start');
+
+        session.rewind();
+        expect(session.getState().dialogueState?.nodeId).toBe('rumors');
+        expect(session.canRewind()).toBe(false);
+    });
+
+    it('hands over new coverage piece by piece, counting the playtest as one session', () => {
+        const session = new PlaytestSession(registry(), config());
+        session.startAtNode('bartender', 'rumors');
+
+        const first = session.takeCoverage();
+        expect(first?.sessions).toBe(1);
+        expect(first?.dialogues.bartender.nodes).toEqual({ rumors: 1 });
+        expect(session.takeCoverage()).toBeNull();
+
+        session.selectChoice('interesting');
+        const second = session.takeCoverage();
+        expect(second?.sessions).toBe(0);
+        expect(second?.dialogues.bartender.nodes).toEqual({ start: 1 });
+        expect(second?.dialogues.bartender.choices).toEqual({
+            rumors: { interesting: 1 },
+        });
+
+        // Restarting is a new session.
+        session.restart();
+        session.startAtNode('bartender', 'rumors');
+        expect(session.takeCoverage()?.sessions).toBe(1);
+    });
+
     describe('reloadSession', () => {
+        it('keeps collecting coverage into the same session', () => {
+            const session = new PlaytestSession(registry(), config(), '/p');
+            session.startAtNode('bartender', 'rumors');
+            session.takeCoverage();
+
+            const reloaded = reloadSession(session, registry(), config(), '/p');
+
+            expect(reloaded.takeCoverage()).toBeNull();
+            reloaded.selectChoice('interesting');
+            expect(reloaded.takeCoverage()?.sessions).toBe(0);
+        });
+
         it('reflects edited content while keeping the tester at the same node', () => {
             const session = new PlaytestSession(registry(), config(), '/p');
             session.startAtNode('bartender', 'rumors');
@@ -181,6 +181,38 @@ describe('planFlagVariableRename', () => {
         );
     });
 
+    it('renames a flag in a timed event trigger and its effects', () => {
+        const plan = planFlagVariableRename(
+            registry({
+                events: {
+                    fever: {
+                        id: 'fever',
+                        trigger: {
+                            type: 'afterFlag',
+                            flag: 'metBartender',
+                            hours: 6,
+                        },
+                        effects: [{ type: 'clearFlag', flag: 'metBartender' }],
+                    },
+                },
+            }),
+            'flag',
+            'metBartender',
+            'metMarcus',
+            {}
+        );
+        expect(plan.yamlEdits).toEqual([
+            {
+                collection: 'events',
+                id: 'fever',
+                edits: [
+                    { path: ['effects', 0, 'flag'], value: 'metMarcus' },
+                    { path: ['trigger', 'flag'], value: 'metMarcus' },
+                ],
+            },
+        ]);
+    });
+
     it('moves the start-block key in game.yaml', () => {
         const plan = planFlagVariableRename(
             registry({}),
@@ -201,6 +233,34 @@ describe('planFlagVariableRename', () => {
         ]);
     });
 
+    it('moves the declaration in variables.yaml', () => {
+        const plan = planFlagVariableRename(
+            registry({
+                variableSchema: {
+                    flags: {},
+                    variables: { gold: { type: 'number', min: 0 } },
+                },
+            }),
+            'variable',
+            'gold',
+            'coins',
+            {}
+        );
+        expect(plan.yamlEdits).toEqual([
+            {
+                collection: 'variableSchema',
+                id: 'variables',
+                edits: [
+                    {
+                        path: ['variables', 'coins'],
+                        value: { type: 'number', min: 0 },
+                    },
+                    { path: ['variables', 'gold'], value: undefined },
+                ],
+            },
+        ]);
+    });
+
     it('renames a variable used by conditions and effects', () => {
         const src = `NODE start
   NARRATOR: hi
@@ -225,6 +285,31 @@ describe('planFlagVariableRename', () => {
         expect(out).toContain('variableGreaterThan coins 5');
         expect(out).toContain('ADD variable coins -5');
     });
+
+    it('renames a variable inside an arithmetic expression', () => {
+        const src = `NODE start
+  NARRATOR: hi
+  IF variable price <= {gold} - 2
+    SET variable gold {gold} - {price}
+    GOTO start
+  END
+`;
+        const dialogue = parseDialogue(src, 'shop');
+        const plan = planFlagVariableRename(
+            registry({ dialogues: { shop: dialogue } }),
+            'variable',
+            'gold',
+            'coins',
+            {}
+        );
+        const out = applyDialogueEdits(
+            src,
+            'shop',
+            plan.dialogueRewrites[0].dialogue
+        );
+        expect(out).toContain('variable price <= {coins} - 2');
+        expect(out).toContain('SET variable coins {coins} - {price}');
+    });
 });
 
 describe('planRename reference sites', () => {
@@ -286,6 +371,109 @@ describe('planRename reference sites', () => {
         expect(out).toContain('REQUIRE hasItem gold_coin');
     });
 
+    it('rewrites a reference nested in a condition group', () => {
+        const SOURCE = [
+            'REQUIRE anyOf (hasFlag rich) (not (hasItem coin))',
+            'NODE start',
+            '  NARRATOR: Gated.',
+            '  END dialogue',
+        ].join('\n');
+        const dialogue = parseDialogue(SOURCE, 'gated');
+        const plan = planRename(
+            registry({ dialogues: { gated: dialogue } }),
+            'items',
+            'coin',
+            'gold_coin'
+        );
+        expect(plan.dialogueRewrites).toHaveLength(1);
+        const out = applyDialogueEdits(
+            SOURCE,
+            'gated',
+            plan.dialogueRewrites[0].dialogue
+        );
+        expect(out).toContain(
+            'REQUIRE anyOf (hasFlag rich) (not (hasItem gold_coin))'
+        );
+    });
+
+    it('plans nested edits for a grouped interlude trigger condition', () => {
+        const plan = planRename(
+            registry({
+                interludes: {
+                    intro: {
+                        id: 'intro',
+                        background: 'bg.png',
+                        text: 'Chapter One',
+                        triggerConditions: [
+                            {
+                                type: 'allOf',
+                                conditions: [
+                                    { type: 'hasFlag', flag: 'rich' },
+                                    {
+                                        type: 'not',
+                                        condition: {
+                                            type: 'hasItem',
+                                            itemId: 'coin',
+                                        },
+                                    },
+                                ],
+                            },
+                        ],
+                    },
+                },
+            }),
+            'items',
+            'coin',
+            'gold_coin'
+        );
+        expect(plan.yamlEdits[0].edits).toEqual([
+            {
+                path: [
+                    'triggerConditions',
+                    0,
+                    'conditions',
+                    1,
+                    'condition',
+                    'itemId',
+                ],
+                value: 'gold_coin',
+            },
+        ]);
+    });
+
+    it('plans an edit for a character named inside an expression', () => {
+        const plan = planRename(
+            registry({
+                interludes: {
+                    intro: {
+                        id: 'intro',
+                        background: 'bg.png',
+                        text: 'Chapter One',
+                        triggerConditions: [
+                            {
+                                type: 'variable',
+                                variable: 'trust',
+                                operator: '<',
+                                value: {
+                                    expression: 'relationship(bartender) + 1',
+                                },
+                            },
+                        ],
+                    },
+                },
+            }),
+            'characters',
+            'bartender',
+            'marcus'
+        );
+        expect(plan.yamlEdits[0].edits).toEqual([
+            {
+                path: ['triggerConditions', 0, 'value', 'expression'],
+                value: 'relationship(marcus) + 1',
+            },
+        ]);
+    });
+
     it('plans edits for interlude trigger conditions and effects', () => {
         const plan = planRename(
             registry({
@@ -320,6 +508,259 @@ describe('planRename reference sites', () => {
         ]);
     });
 
+    it('plans edits for character schedule locations and conditions', () => {
+        const plan = planRename(
+            registry({
+                characters: {
+                    greta: {
+                        id: 'greta',
+                        name: 'Greta',
+                        biography: '',
+                        portrait: '',
+                        location: 'home',
+                        dialogue: '',
+                        stats: {},
+                        schedule: [
+                            {
+                                location: 'market',
+                                startHour: 8,
+                                endHour: 18,
+                                conditions: [
+                                    {
+                                        type: 'atLocation',
+                                        locationId: 'market',
+                                    },
+                                ],
+                            },
+                        ],
+                    },
+                },
+            }),
+            'locations',
+            'market',
+            'bazaar'
+        );
+        expect(plan.yamlEdits).toEqual([
+            {
+                collection: 'characters',
+                id: 'greta',
+                edits: [
+                    { path: ['schedule', 0, 'location'], value: 'bazaar' },
+                    {
+                        path: ['schedule', 0, 'conditions', 0, 'locationId'],
+                        value: 'bazaar',
+                    },
+                ],
+            },
+        ]);
+    });
+
+    it('plans edits for the dialogue a timed event starts', () => {
+        const plan = planRename(
+            registry({
+                events: {
+                    curfew: {
+                        id: 'curfew',
+                        trigger: { type: 'daily', hour: 22 },
+                        dialogue: 'guard_chat',
+                    },
+                },
+            }),
+            'dialogues',
+            'guard_chat',
+            'curfew_chat'
+        );
+        expect(plan.yamlEdits).toEqual([
+            {
+                collection: 'events',
+                id: 'curfew',
+                edits: [{ path: ['dialogue'], value: 'curfew_chat' }],
+            },
+        ]);
+    });
+
+    it('rewrites the dialogue a CALL names, keeping its node', () => {
+        const SOURCE = [
+            'NODE start',
+            '  NARRATOR: Anything new?',
+            '  CHOICE "Rumours?"',
+            '    CALL rumours.gossip',
+            '    GOTO start',
+            '  END',
+            '  CALL rumours',
+        ].join('\n');
+        const dialogue = parseDialogue(SOURCE, 'inn');
+        const plan = planRename(
+            registry({ dialogues: { inn: dialogue } }),
+            'dialogues',
+            'rumours',
+            'town_rumours'
+        );
+        expect(plan.dialogueRewrites).toHaveLength(1);
+        const out = applyDialogueEdits(
+            SOURCE,
+            'inn',
+            plan.dialogueRewrites[0].dialogue
+        );
+        expect(out).toContain('    CALL town_rumours.gossip\n    GOTO start');
+        expect(out).toContain('  CALL town_rumours');
+        expect(out).not.toContain('CALL rumours');
+    });
+
+    it('plans edits for the target and conditions of an item use', () => {
+        const plan = planRename(
+            registry({
+                items: {
+                    letter: {
+                        id: 'letter',
+                        name: 'Letter',
+                        description: '',
+                        icon: '',
+                        image: '',
+                        location: 'inventory',
+                        stats: {},
+                        uses: [
+                            {
+                                id: 'show',
+                                label: 'Show the letter',
+                                target: 'bartender',
+                                conditions: [
+                                    {
+                                        type: 'characterAt',
+                                        characterId: 'bartender',
+                                        locationId: 'tavern',
+                                    },
+                                ],
+                            },
+                        ],
+                    },
+                },
+            }),
+            'characters',
+            'bartender',
+            'marcus'
+        );
+        expect(plan.yamlEdits).toEqual([
+            {
+                collection: 'items',
+                id: 'letter',
+                edits: [
+                    { path: ['uses', 0, 'target'], value: 'marcus' },
+                    {
+                        path: ['uses', 0, 'conditions', 0, 'characterId'],
+                        value: 'marcus',
+                    },
+                ],
+            },
+        ]);
+    });
+
+    it('plans edits for the target and effects of a location exit', () => {
+        const plan = planRename(
+            registry({
+                locations: {
+                    hall: {
+                        id: 'hall',
+                        name: 'Hall',
+                        description: '',
+                        banner: '',
+                        music: '',
+                        ambient: '',
+                        exits: [
+                            {
+                                id: 'out',
+                                label: 'Out to town',
+                                target: 'town',
+                                effects: [
+                                    {
+                                        type: 'goToLocation',
+                                        locationId: 'town',
+                                    },
+                                ],
+                            },
+                        ],
+                    },
+                },
+            }),
+            'locations',
+            'town',
+            'harbor'
+        );
+        expect(plan.yamlEdits).toEqual([
+            {
+                collection: 'locations',
+                id: 'hall',
+                edits: [
+                    { path: ['exits', 0, 'target'], value: 'harbor' },
+                    {
+                        path: ['exits', 0, 'effects', 0, 'locationId'],
+                        value: 'harbor',
+                    },
+                ],
+            },
+        ]);
+    });
+
+    it('plans edits for description variants and entry effects', () => {
+        const plan = planRename(
+            registry({
+                locations: {
+                    hall: {
+                        id: 'hall',
+                        name: 'Hall',
+                        description: '',
+                        banner: '',
+                        music: '',
+                        ambient: '',
+                        descriptions: [
+                            {
+                                text: 'The hall, after the harbor trip.',
+                                conditions: [
+                                    {
+                                        type: 'visitedLocation',
+                                        locationId: 'town',
+                                    },
+                                ],
+                            },
+                        ],
+                        onEnter: [
+                            {
+                                type: 'setCharacterLocation',
+                                characterId: 'guard',
+                                locationId: 'town',
+                            },
+                        ],
+                    },
+                },
+            }),
+            'locations',
+            'town',
+            'harbor'
+        );
+        expect(plan.yamlEdits).toEqual([
+            {
+                collection: 'locations',
+                id: 'hall',
+                edits: [
+                    {
+                        path: [
+                            'descriptions',
+                            0,
+                            'conditions',
+                            0,
+                            'locationId',
+                        ],
+                        value: 'harbor',
+                    },
+                    {
+                        path: ['onEnter', 0, 'locationId'],
+                        value: 'harbor',
+                    },
+                ],
+            },
+        ]);
+    });
+
     it('plans edits for game.yaml startLocation and startInventory', () => {
         const config = {
             title: 'Test Game',
@@ -89,4 +89,23 @@ describe('Studio sections', () => {
             },
         ]);
     });
+
+    it('does not mark a file with only warnings as an error', () => {
+        const withWarning = {
+            ...project,
+            problems: [
+                {
+                    file: 'content/player.yaml',
+                    message: 'Node "lost" is never reached',
+                    severity: 'warning',
+                },
+            ],
+        } as unknown as OpenProject;
+
+        expect(
+            buildSections(withWarning).find(
+                (section) => section.key === 'player'
+            )?.items[0].status
+        ).toBe('valid');
+    });
 });
@@ -0,0 +1,32 @@
+// @vitest-environment jsdom
+
+import { cleanup, renderHook } from '@testing-library/react';
+import { afterEach, describe, expect, it } from 'vitest';
+import { recordPlaytestCoverage, useStoryCoverage } from '../useStoryCoverage';
+
+afterEach(() => {
+    cleanup();
+    Reflect.deleteProperty(window, 'studio');
+});
+
+describe('useStoryCoverage', () => {
+    it('reads and records nothing without the Studio bridge', async () => {
+        Object.defineProperty(window, 'studio', {
+            configurable: true,
+            value: undefined,
+        });
+
+        const { result } = renderHook(() =>
+            useStoryCoverage('/projects/demo', true)
+        );
+        expect(result.current).toBeNull();
+        await expect(
+            recordPlaytestCoverage('/projects/demo', {
+                version: 1,
+                sessions: 1,
+                dialogues: {},
+                interludes: {},
+            })
+        ).resolves.toBeUndefined();
+    });
+});
@@ -14,6 +14,8 @@ import {
     parseEffect,
     serializeCondition,
     serializeEffect,
+    conditionUsesRoll,
+    isValueExpression,
     conditionDescriptor,
     effectDescriptor,
     type Condition,
@@ -88,6 +90,15 @@ function valuesFromEntity(
     const values: Record<string, string> = {};
     for (const arg of descriptor.args) {
         const raw = entity[arg.name];
+        if (arg.kind === 'condition' || arg.kind === 'conditions') {
+            // Group parts are edited as their parenthesized `.dlg` forms.
+            const parts = (Array.isArray(raw) ? raw : [raw]) as Condition[];
+            values[arg.name] = parts
+                .filter((part) => part !== undefined)
+                .map((part) => `(${serializeCondition(part)})`)
+                .join(' ');
+            continue;
+        }
         values[arg.name] =
             descriptor.type === 'setTrackedQuest' &&
             arg.name === 'questId' &&
@@ -95,7 +106,9 @@ function valuesFromEntity(
                 ? 'none'
                 : raw === undefined || raw === null
                   ? ''
-                  : String(raw);
+                  : isValueExpression(raw)
+                    ? raw.expression
+                    : String(raw);
     }
     return values;
 }
@@ -114,7 +127,14 @@ export function emptyDraft(
 function defaultFor(arg: ArgDescriptor): string {
     if (arg.kind === 'boolean') return 'true';
     if (arg.kind === 'questStatus') return 'active';
-    if (arg.kind === 'number' || arg.kind === 'hours') return '0';
+    if (
+        arg.kind === 'number' ||
+        arg.kind === 'hours' ||
+        arg.kind === 'expression'
+    ) {
+        return '0';
+    }
+    if (arg.kind === 'operator') return '>=';
     return '';
 }
 
@@ -126,30 +146,32 @@ export interface BuildResult<T> {
     error?: string;
 }
 
+const ROLL_IN_REQUIRE =
+    'roll can’t be used as a requirement because it has a side effect. Use it as an IF branch or an effect instead.';
+
 /**
  * Build a Condition from a draft via the engine parser.
  *
  * `inRequire` rejects `roll` exactly as the parser does inside a REQUIRE — a
- * roll is a side-effecting check that can't gate a choice.
+ * roll is a side-effecting check that can't gate a choice — including a roll
+ * nested inside an anyOf/allOf/not group.
  */
 export function buildCondition(
     draft: BuilderDraft,
     inRequire: boolean
 ): BuildResult<Condition> {
     if (inRequire && draft.type === 'roll') {
-        return {
-            ok: false,
-            error: 'roll can’t be used as a requirement because it has a side effect. Use it as an IF branch or an effect instead.',
-        };
+        return { ok: false, error: ROLL_IN_REQUIRE };
     }
     const descriptor = conditionDescriptor(draft.type as Condition['type']);
     const missing = firstMissing(draft, descriptor);
     if (missing) return { ok: false, error: `${missing.label} is required.` };
     try {
-        return {
-            ok: true,
-            value: parseCondition(draftToSource(draft, descriptor)),
-        };
+        const value = parseCondition(draftToSource(draft, descriptor));
+        if (inRequire && conditionUsesRoll(value)) {
+            return { ok: false, error: ROLL_IN_REQUIRE };
+        }
+        return { ok: true, value };
     } catch (e) {
         return { ok: false, error: e instanceof Error ? e.message : String(e) };
     }
@@ -1,4 +1,4 @@
-import type { Dialogue, DialogueNode } from '@doodle-engine/core';
+import type { Dialogue, DialogueCall, DialogueNode } from '@doodle-engine/core';
 
 /**
  * Pure layout for the read-only dialogue graph. Turns a parsed Dialogue into
@@ -13,6 +13,10 @@ import type { Dialogue, DialogueNode } from '@doodle-engine/core';
  * all; the row shows a small return chip naming the target instead. Nodes
  * with no path from the start are laid out the same way in trailing columns
  * so authors can spot them.
+ *
+ * A CALL gets its own row under the route it belongs to, with an edge to a
+ * box standing for the other dialogue: one box per called dialogue and
+ * node, shared by every CALL of it. A RETURN is a row with no target.
  */
 
 export const NODE_W = 220;
@@ -23,7 +27,7 @@ const RANK_GAP = 96;
 const NODE_GAP = 26;
 const COL_STEP = NODE_W + RANK_GAP;
 
-export type GraphRowKind = 'choice' | 'branch' | 'goto';
+export type GraphRowKind = 'choice' | 'branch' | 'goto' | 'call' | 'return';
 
 export interface GraphRow {
     kind: GraphRowKind;
@@ -33,6 +37,10 @@ export interface GraphRow {
     target: string | null;
     /** Targets an equal-or-earlier column: drawn as a chip, not a line. */
     back: boolean;
+    /** The dialogue a call row CALLs. */
+    call?: DialogueCall;
+    /** The route RETURNs to its caller instead of ending. */
+    returns?: boolean;
 }
 
 export interface GraphNode {
@@ -40,8 +48,11 @@ export interface GraphNode {
     x: number;
     y: number;
     h: number;
-    /** The parsed node, or null for a ghost (a route points at a missing id). */
+    /** The parsed node, or null for a ghost (a route points at a missing id)
+     * and for the box of a called dialogue. */
     node: DialogueNode | null;
+    /** Set on the box standing for another dialogue that is CALLed. */
+    call: DialogueCall | null;
     rows: GraphRow[];
     isStart: boolean;
     /** No outgoing routes at all — the dialogue always ends here. */
@@ -72,24 +83,52 @@ export interface DialogueGraph {
 const nodeHeight = (rows: GraphRow[]): number =>
     HEADER_H + rows.length * ROW_H + (rows.length ? PAD_BOTTOM : 0);
 
+/** Id of the box for a called dialogue. The space keeps it apart from node
+ * ids, which are a single word. */
+export const callNodeId = (call: DialogueCall): string =>
+    `CALL ${call.dialogueId}${call.nodeId ? `.${call.nodeId}` : ''}`;
+
+const callRow = (call: DialogueCall, index: number): GraphRow => ({
+    kind: 'call',
+    index,
+    target: callNodeId(call),
+    back: false,
+    call,
+});
+
 function nodeRows(node: DialogueNode): GraphRow[] {
-    const rows: GraphRow[] = node.choices.map((choice, index) => ({
-        kind: 'choice' as const,
-        index,
-        target: choice.next || null,
-        back: false,
-    }));
-    (node.conditionalBranches ?? []).forEach((branch, index) =>
+    const rows: GraphRow[] = [];
+    const route = (
+        kind: 'choice' | 'branch',
+        index: number,
+        { next, call, returns }: Pick<DialogueNode, 'next' | 'call' | 'returns'>
+    ) => {
         rows.push({
-            kind: 'branch',
+            kind,
             index,
-            target: branch.next || null,
+            target: next || null,
             back: false,
-        })
+            ...(returns && { returns }),
+        });
+        if (call) rows.push(callRow(call, index));
+    };
+    node.choices.forEach((choice, index) => route('choice', index, choice));
+    (node.conditionalBranches ?? []).forEach((branch, index) =>
+        route('branch', index, branch)
     );
+    if (node.call) rows.push(callRow(node.call, 0));
     if (node.next) {
         rows.push({ kind: 'goto', index: 0, target: node.next, back: false });
     }
+    if (node.returns) {
+        rows.push({
+            kind: 'return',
+            index: 0,
+            target: null,
+            back: false,
+            returns: true,
+        });
+    }
     return rows;
 }
 
@@ -99,14 +138,17 @@ export function layoutDialogue(dialogue: Dialogue): DialogueGraph {
 
     const allIds = [...byId.keys()];
     const ghostIds = new Set<string>();
+    const calls = new Map<string, DialogueCall>();
     for (const rows of rowsById.values()) {
         for (const row of rows) {
-            if (row.target && !byId.has(row.target)) {
+            if (row.call) {
+                calls.set(row.target!, row.call);
+            } else if (row.target && !byId.has(row.target)) {
                 ghostIds.add(row.target);
             }
         }
     }
-    for (const id of ghostIds) {
+    for (const id of [...ghostIds, ...calls.keys()]) {
         allIds.push(id);
         rowsById.set(id, []);
     }
@@ -148,6 +190,15 @@ export function layoutDialogue(dialogue: Dialogue): DialogueGraph {
     for (const id of allIds) {
         if (!rank.has(id)) maxRank = bfs(id, maxRank + 1);
     }
+    // A called dialogue's box sits one column past its furthest caller, so
+    // every CALL edge runs forward.
+    for (const [id, targets] of outgoing) {
+        for (const to of targets) {
+            if (!calls.has(to) || rank.get(to)! > rank.get(id)!) continue;
+            rank.set(to, rank.get(id)! + 1);
+            maxRank = Math.max(maxRank, rank.get(to)!);
+        }
+    }
 
     for (const [id, rows] of rowsById) {
         for (const row of rows) {
@@ -215,9 +266,13 @@ export function layoutDialogue(dialogue: Dialogue): DialogueGraph {
             ...pos.get(id)!,
             h: nodeHeight(rows),
             node: byId.get(id) ?? null,
+            call: calls.get(id) ?? null,
             rows,
             isStart: id === dialogue.startNode,
-            isEnd: byId.has(id) && outgoing.get(id)!.length === 0,
+            isEnd:
+                byId.has(id) &&
+                outgoing.get(id)!.length === 0 &&
+                !rows.some((row) => row.returns),
             unreachable: !reachable.has(id),
         };
     });
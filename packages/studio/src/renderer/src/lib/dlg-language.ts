@@ -1,4 +1,5 @@
 import {
+    COMPARISON_OPERATORS,
     CONDITION_DESCRIPTORS,
     EFFECT_DESCRIPTORS,
     REFERENCE_KIND_TARGET,
@@ -20,6 +21,8 @@ type Match = {
         | 'condition'
         | 'effect'
         | 'gotoNode'
+        | 'call'
+        | 'return'
         | 'trigger'
         | 'node'
         | 'choice'
@@ -74,6 +77,8 @@ const STRUCTURAL_KEYWORDS = new Set([
     'IF',
     'END',
     'GOTO',
+    'CALL',
+    'RETURN',
     'TRIGGER',
     'REQUIRE',
     'VOICE',
@@ -106,6 +111,18 @@ const STRUCTURAL_COMPLETIONS = [
         documentation:
             '**Continue at another node**\n\n`GOTO <nodeId>`\n\nRoutes the conversation to another node. Use `GOTO location <locationId>` to end the dialogue and move the player.',
     },
+    {
+        label: 'CALL',
+        detail: 'Run another dialogue, then come back',
+        documentation:
+            '**Run another dialogue, then come back**\n\n`CALL <dialogueId>` or `CALL <dialogueId>.<nodeId>`\n\nStarts the other dialogue at its first node, or at the named node. When it reaches `RETURN`, the conversation continues at the `GOTO` next to this `CALL`, or ends if there is none.',
+    },
+    {
+        label: 'RETURN',
+        detail: 'Go back to the dialogue that called this one',
+        documentation:
+            '**Go back to the calling dialogue**\n\n`RETURN`\n\nEnds this part of the conversation and continues where the matching `CALL` said to.',
+    },
     {
         label: 'TRIGGER',
         detail: 'Start when the player enters a location',
@@ -247,6 +264,26 @@ function matchLine(line: string): Match | null {
             words,
         };
     }
+    if (first === 'CALL') {
+        return {
+            kind: 'call',
+            keyword: 'CALL',
+            keywordWordCount: 1,
+            args: [
+                { name: 'dialogueId', label: 'Dialogue', kind: 'dialogueId' },
+            ],
+            words,
+        };
+    }
+    if (first === 'RETURN') {
+        return {
+            kind: 'return',
+            keyword: 'RETURN',
+            keywordWordCount: 1,
+            args: [],
+            words,
+        };
+    }
     if (first === 'TRIGGER') {
         return {
             kind: 'trigger',
@@ -310,7 +347,11 @@ function argumentIndexAt(match: Match, cursorOffset: number): number | null {
     const keywordEnd = match.words[match.keywordWordCount - 1]?.end ?? 0;
     if (cursorOffset <= keywordEnd) return null;
 
-    if (match.kind === 'gotoNode' || match.kind === 'trigger') {
+    if (
+        match.kind === 'gotoNode' ||
+        match.kind === 'call' ||
+        match.kind === 'trigger'
+    ) {
         return 0;
     }
     if (match.kind !== 'condition' && match.kind !== 'effect') {
@@ -381,7 +422,10 @@ function scopeForArgument(kind: ArgKind): string {
     if (kind === 'flag' || kind === 'variable' || kind === 'stat') {
         return kind;
     }
-    if (kind === 'number' || kind === 'hours') return 'number';
+    if (kind === 'number' || kind === 'hours' || kind === 'expression') {
+        return 'number';
+    }
+    if (kind === 'operator') return 'keyword';
     if (kind === 'text') return 'string';
     return 'reference';
 }
@@ -436,6 +480,21 @@ export function tokenizeDlgLine(line: string): DlgToken[] {
                     }
                     break;
                 }
+                if (arg.kind === 'condition' || arg.kind === 'conditions') {
+                    // A group's parts are whole conditions: highlight each
+                    // part's keyword and leave its arguments to the defaults.
+                    for (const word of argumentWords.slice(index)) {
+                        const keyword = word.value.replace(/^\(+/, '');
+                        if (
+                            CONDITION_DESCRIPTORS.some(
+                                (item) => item.keyword === keyword
+                            )
+                        ) {
+                            scopes.set(word.start, 'condition');
+                        }
+                    }
+                    break;
+                }
                 if (argumentWords[index]) {
                     scopes.set(
                         argumentWords[index].start,
@@ -443,7 +502,11 @@ export function tokenizeDlgLine(line: string): DlgToken[] {
                     );
                 }
             }
-        } else if (match.kind === 'gotoNode' || match.kind === 'trigger') {
+        } else if (
+            match.kind === 'gotoNode' ||
+            match.kind === 'call' ||
+            match.kind === 'trigger'
+        ) {
             if (argumentWords[0]) {
                 scopes.set(argumentWords[0].start, 'reference');
             }
@@ -619,6 +682,9 @@ function argumentDocumentation(
         journalId: 'journal entry',
         dialogueId: 'dialogue',
         interludeId: 'interlude',
+        factionId: 'faction',
+        weekday: 'weekday',
+        season: 'season',
     };
     const kindLabel = kindLabels[kind];
     return kindLabel
@@ -647,6 +713,16 @@ function idsForArgument(
     if (kind === 'questStatus') {
         return ['not_started', 'active', 'complete'];
     }
+    if (kind === 'operator') return [...COMPARISON_OPERATORS];
+    if (kind === 'weekday') {
+        return context.registry?.calendar?.weekdays?.map((day) => day.id) ?? [];
+    }
+    if (kind === 'season') {
+        return (
+            context.registry?.calendar?.seasons?.map((season) => season.id) ??
+            []
+        );
+    }
     if (kind === 'stageId') {
         const questId = argumentValues[argumentIndex - 1];
         return (
@@ -1,11 +1,16 @@
 import {
     conditionDescriptor,
     effectDescriptor,
+    leafConditions,
     type Condition,
     type ContentRegistry,
     type Effect,
+    type FlagDeclaration,
     type Reference,
     type ReferenceIndex,
+    type VariableDeclaration,
+    type VariableSchema,
+    type VariableType,
 } from '@doodle-engine/core';
 import type { FlagVarNotes } from '../../../shared/project';
 
@@ -105,8 +110,10 @@ function walkRegistryState(
     onCondition: (condition: Condition) => void,
     onEffect: (effect: Effect) => void
 ) {
+    const condition = (item: Condition) =>
+        leafConditions(item).forEach(onCondition);
     const conditions = (items: Condition[] | undefined) =>
-        (items ?? []).forEach(onCondition);
+        (items ?? []).forEach(condition);
     const effects = (items: Effect[] | undefined) =>
         (items ?? []).forEach(onEffect);
 
@@ -116,7 +123,7 @@ function walkRegistryState(
             conditions(node.conditions);
             effects(node.effects);
             for (const branch of node.conditionalBranches ?? []) {
-                onCondition(branch.condition);
+                condition(branch.condition);
                 effects(branch.effects);
             }
             for (const choice of node.choices) {
@@ -125,10 +132,36 @@ function walkRegistryState(
             }
         }
     }
+    for (const character of Object.values(registry.characters)) {
+        for (const entry of character.schedule ?? []) {
+            conditions(entry.conditions);
+        }
+    }
+    for (const item of Object.values(registry.items)) {
+        for (const use of item.uses ?? []) {
+            conditions(use.conditions);
+            effects(use.effects);
+        }
+    }
+    for (const location of Object.values(registry.locations)) {
+        for (const exit of location.exits ?? []) {
+            conditions(exit.conditions);
+            effects(exit.effects);
+        }
+        for (const variant of location.descriptions ?? []) {
+            conditions(variant.conditions);
+        }
+        effects(location.onFirstEnter);
+        effects(location.onEnter);
+    }
     for (const interlude of Object.values(registry.interludes)) {
         conditions(interlude.triggerConditions);
         effects(interlude.effects);
     }
+    for (const event of Object.values(registry.events ?? {})) {
+        conditions(event.conditions);
+        effects(event.effects);
+    }
 }
 
 export function buildStatSummaries(registry: ContentRegistry): StatSummary[] {
@@ -317,3 +350,84 @@ export function prefixForName(id: string): string {
     const separator = id.search(/[_.:]/);
     return separator > 0 ? id.slice(0, separator) : 'No prefix';
 }
+
+export type Declaration = FlagDeclaration | VariableDeclaration;
+
+/** The editable text of a variables.yaml declaration, one string per field. */
+export interface DeclarationDraft {
+    type: VariableType;
+    default: string;
+    min: string;
+    max: string;
+    /** Enum values, comma separated */
+    values: string;
+    description: string;
+}
+
+export function declarationFor(
+    schema: VariableSchema | undefined,
+    kind: FlagVarKind,
+    id: string
+): Declaration | undefined {
+    return kind === 'flag' ? schema?.flags?.[id] : schema?.variables?.[id];
+}
+
+export function declarationDraft(
+    kind: FlagVarKind,
+    declaration: Declaration | undefined
+): DeclarationDraft {
+    const variable =
+        kind === 'variable'
+            ? (declaration as VariableDeclaration | undefined)
+            : undefined;
+    const text = (value: unknown) =>
+        value === undefined || value === null ? '' : String(value);
+    return {
+        type: variable?.type ?? 'number',
+        default: text(declaration?.default),
+        min: text(variable?.min),
+        max: text(variable?.max),
+        values: (variable?.values ?? []).join(', '),
+        description: declaration?.description ?? '',
+    };
+}
+
+/** A declaration built from a draft, keeping only the fields that apply. */
+export function declarationFromDraft(
+    kind: FlagVarKind,
+    draft: DeclarationDraft
+): Declaration {
+    const description = draft.description.trim();
+    if (kind === 'flag') {
+        return {
+            ...(draft.default === 'true' ? { default: true } : {}),
+            ...(description ? { description } : {}),
+        };
+    }
+    const number = (value: string) => {
+        const parsed = Number(value.trim());
+        return value.trim() !== '' && Number.isFinite(parsed)
+            ? parsed
+            : undefined;
+    };
+    const declaration: VariableDeclaration = { type: draft.type };
+    if (draft.type === 'enum') {
+        declaration.values = draft.values
+            .split(',')
+            .map((value) => value.trim())
+            .filter(Boolean);
+    }
+    const defaultValue =
+        draft.type === 'number' ? number(draft.default) : draft.default.trim();
+    if (defaultValue !== undefined && defaultValue !== '') {
+        declaration.default = defaultValue;
+    }
+    if (draft.type === 'number') {
+        const min = number(draft.min);
+        const max = number(draft.max);
+        if (min !== undefined) declaration.min = min;
+        if (max !== undefined) declaration.max = max;
+    }
+    if (description) declaration.description = description;
+    return declaration;
+}
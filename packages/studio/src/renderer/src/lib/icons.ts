@@ -28,4 +28,5 @@ export {
     Download,
     Flag,
     House,
+    Languages,
 } from 'lucide-react';
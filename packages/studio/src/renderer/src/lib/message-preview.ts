@@ -0,0 +1,134 @@
+import {
+    formatMessage,
+    hasMessageSyntax,
+    parseMessage,
+    type MessagePart,
+} from '@doodle-engine/core';
+
+export interface MessageExample {
+    /** The sample values, like "gold = 1, player.stats.gender = female" */
+    values: string;
+    /** The message formatted with those values */
+    text: string;
+}
+
+export interface MessagePreview {
+    examples: MessageExample[];
+    /** Why the message does not parse, or null */
+    error: string | null;
+}
+
+// Most combinations a preview shows, so nested blocks stay readable.
+const MAX_EXAMPLES = 12;
+
+// Numbers tried for each plural category; the first that lands in a
+// category stands for it.
+const SAMPLE_NUMBERS = [0, 1, 2, 3, 5, 11, 21, 22, 25, 100, 1.5];
+
+type Sample = { label: string; value: number | string | undefined };
+
+/**
+ * Example renderings of a locale value with plural or select blocks, one per
+ * combination of sample argument values: each exact =N and plural category
+ * the blocks name, in the locale's plural rules, and each select branch.
+ * Returns null for text without blocks.
+ */
+export function messagePreview(
+    text: string,
+    locale: string
+): MessagePreview | null {
+    if (!hasMessageSyntax(text)) return null;
+    let parts: MessagePart[];
+    try {
+        parts = parseMessage(text);
+    } catch (error) {
+        return {
+            examples: [],
+            error: error instanceof Error ? error.message : String(error),
+        };
+    }
+
+    const samples = new Map<string, Sample[]>();
+    collectSamples(parts, samples, pluralRules(locale));
+
+    let combinations: Record<string, Sample>[] = [{}];
+    for (const [argument, options] of samples) {
+        combinations = combinations
+            .flatMap((combination) =>
+                options.map((sample) => ({
+                    ...combination,
+                    [argument]: sample,
+                }))
+            )
+            .slice(0, MAX_EXAMPLES);
+    }
+
+    return {
+        examples: combinations.map((combination) => ({
+            values: Object.entries(combination)
+                .map(([argument, sample]) => `${argument} = ${sample.label}`)
+                .join(', '),
+            text: formatMessage(
+                text,
+                (argument) => combination[argument]?.value,
+                locale
+            ),
+        })),
+        error: null,
+    };
+}
+
+/** Add sample values for each block argument, nested blocks included. */
+function collectSamples(
+    parts: MessagePart[],
+    samples: Map<string, Sample[]>,
+    rules: Intl.PluralRules
+): void {
+    for (const part of parts) {
+        if (typeof part === 'string' || part.type === 'pound') continue;
+        const options = samples.get(part.argument) ?? [];
+        const add = (sample: Sample) => {
+            if (!options.some((option) => option.label === sample.label)) {
+                options.push(sample);
+            }
+        };
+
+        if (part.type === 'plural') {
+            for (const key of Object.keys(part.branches)) {
+                if (key.startsWith('=')) {
+                    const value = Number(key.slice(1));
+                    add({ label: String(value), value });
+                    continue;
+                }
+                const value = SAMPLE_NUMBERS.find(
+                    (n) =>
+                        !part.branches[`=${n}`] &&
+                        rules.select(n - part.offset) === key
+                );
+                if (value !== undefined) add({ label: String(value), value });
+            }
+        } else {
+            for (const key of Object.keys(part.branches)) {
+                add(
+                    key === 'other'
+                        ? { label: 'other', value: undefined }
+                        : { label: key, value: key }
+                );
+            }
+        }
+        samples.set(part.argument, options);
+
+        for (const branch of Object.values(part.branches)) {
+            collectSamples(branch, samples, rules);
+        }
+    }
+}
+
+/** Plural rules for a locale code, or English rules for an unknown code. */
+function pluralRules(locale: string): Intl.PluralRules {
+    try {
+        return new Intl.PluralRules(locale);
+    } catch {
+        return new Intl.PluralRules('en');
+    }
+}
@@ -3,20 +3,24 @@
  *
  * The engine is pure and runs in the renderer directly from the loaded
  * registry and game config — no separate process, no HTTP, no build. This
- * controller wraps one engine, collects a decision trace, and exposes the
- * actions and reads the playtest UI needs. It holds no React state; a component
+ * controller wraps one engine, collects a decision trace and story coverage,
+ * and exposes the actions and reads the playtest UI needs. It holds no React state; a component
  * reads from it and re-renders when `version` changes after each action.
  */
 
 import {
+    CoverageCollector,
     Engine,
     serializeCondition,
+    localeDataFor,
     resolveText,
     type ContentRegistry,
     type GameConfig,
     type GameState,
+    type MissingLocaleKey,
     type Snapshot,
     type SaveData,
+    type StoryCoverage,
     type TraceEvent,
     type Effect,
 } from '@doodle-engine/core';
@@ -53,8 +57,14 @@ export class PlaytestSession {
     private engine: Engine;
     private registry: ContentRegistry;
     private config: GameConfig;
+    private seed: number | string | undefined;
     private snapshot: Snapshot;
     private events: TraceEvent[] = [];
+    /** @keys shown without a translation, in the order they were found. */
+    private missingKeys: MissingLocaleKey[] = [];
+    private coverage = new CoverageCollector();
+    /** Whether this session has already been counted in recorded coverage. */
+    private coverageCounted = false;
 
     /** Identifies the project this session belongs to, so the view can tell
      * when to start a fresh session (e.g. after opening a different project). */
@@ -63,24 +73,50 @@ export class PlaytestSession {
     /** Bumped after every action so a React view can depend on it to re-render. */
     version = 0;
 
+    /** Pass a seed to pin rolls, so a playthrough replays the same way on
+     * every restart. Without one, rolls follow config.randomSeed if set. */
     constructor(
         registry: ContentRegistry,
         config: GameConfig,
-        projectKey = ''
+        projectKey = '',
+        seed?: number | string
     ) {
         this.registry = registry;
         this.config = config;
+        this.seed = seed;
         this.projectKey = projectKey;
         this.engine = new Engine(registry);
         this.engine.setTrace({
-            onNodeEnter: (e) => this.events.push(e),
-            onCondition: (e) => this.events.push(e),
+            onNodeEnter: (e) => {
+                this.events.push(e);
+                this.coverage.onNodeEnter(e);
+            },
+            onCondition: (e) => {
+                this.events.push(e);
+                this.coverage.onCondition(e);
+            },
             onEffect: (e) => this.events.push(e),
-            onTransition: (e) => this.events.push(e),
+            onTransition: (e) => {
+                this.events.push(e);
+                this.coverage.onTransition(e);
+            },
             onChoiceFiltered: (e) => this.events.push(e),
+            onItemUse: (e) => this.events.push(e),
+            onInterlude: (e) => {
+                this.events.push(e);
+                this.coverage.onInterlude(e);
+            },
             onError: (e) => this.events.push(e),
         });
-        this.snapshot = this.engine.newGame(config);
+        this.engine.setMissingKeyHandler((missing) =>
+            this.missingKeys.push(missing)
+        );
+        this.snapshot = this.engine.newGame(this.playtestConfig(), seed);
+    }
+
+    /** Testers can always step back, whatever the game allows its players. */
+    private playtestConfig(): GameConfig {
+        return { ...this.config, allowRewind: true };
     }
 
     // --- reads -----------------------------------------------------------------
@@ -97,6 +133,35 @@ export class PlaytestSession {
         return [...this.events];
     }
 
+    /** Every @key this session showed that the locale and its fallbacks lack. */
+    getMissingKeys(): readonly MissingLocaleKey[] {
+        return [...this.missingKeys];
+    }
+
+    /** The coverage reached since the last call, or null when nothing new was
+     * reached. The session counts as one session the first time it returns
+     * coverage, so recording it piece by piece adds up to one. */
+    takeCoverage(): StoryCoverage | null {
+        const coverage = this.coverage.coverage();
+        if (
+            Object.keys(coverage.dialogues).length === 0 &&
+            Object.keys(coverage.interludes).length === 0
+        ) {
+            return null;
+        }
+        this.coverage.reset();
+        coverage.sessions = this.coverageCounted ? 0 : 1;
+        this.coverageCounted = true;
+        return coverage;
+    }
+
+    /** Carry on another session's coverage, so reloading content mid-playtest
+     * does not count as a new session or drop what was reached before it. */
+    continueCoverage(prev: PlaytestSession): void {
+        this.coverage = prev.coverage;
+        this.coverageCounted = prev.coverageCounted;
+    }
+
     /** Whether a dialogue is currently active (drives the playback column). */
     inDialogue(): boolean {
         return this.snapshot.dialogue !== null;
@@ -125,10 +190,20 @@ export class PlaytestSession {
                 display,
                 visible: false,
                 requirement: serializeCondition(choice.failedCondition),
-                reason: describeReason(
-                    choice.failedCondition,
-                    choice.resolvedValues ?? {}
-                ),
+                // A group explains itself through the parts that failed.
+                reason: choice.failedConditions
+                    ? choice.failedConditions
+                          .map((part) =>
+                              describeReason(
+                                  part.condition,
+                                  part.resolvedValues
+                              )
+                          )
+                          .join('; ')
+                    : describeReason(
+                          choice.failedCondition,
+                          choice.resolvedValues ?? {}
+                      ),
             };
         });
     }
@@ -137,7 +212,8 @@ export class PlaytestSession {
 
     restart(): void {
         this.events = [];
-        this.snapshot = this.engine.newGame(this.config);
+        this.coverageCounted = false;
+        this.snapshot = this.engine.newGame(this.playtestConfig(), this.seed);
         this.version++;
     }
 
@@ -157,6 +233,17 @@ export class PlaytestSession {
         this.version++;
     }
 
+    /** Whether there is a choice or Continue to step back over. */
+    canRewind(): boolean {
+        return this.engine.canRewind();
+    }
+
+    /** Step back over the last choice or Continue. */
+    rewind(): void {
+        this.snapshot = this.engine.rewind();
+        this.version++;
+    }
+
     setLocale(locale: string): void {
         this.snapshot = this.engine.setLocale(locale);
         this.version++;
@@ -208,12 +295,20 @@ export class PlaytestSession {
         );
     }
 
-    /** Resolve authored text for the current locale (with {var} substitution,
-     * matching the runtime), keeping the original `@key` when there was one. */
+    /** Resolve authored text for the current locale and its fallbacks (with
+     * {var} substitution, matching the runtime), keeping the original `@key`
+     * when there was one. */
     private display(source: string): DisplayText {
         const state = this.engine.getState();
-        const locale = this.registry.locales[state.currentLocale] ?? {};
-        const text = resolveText(source, locale, state.variables);
+        const locale = localeDataFor(this.registry, state.currentLocale);
+        const text = resolveText(
+            source,
+            locale,
+            state.variables,
+            undefined,
+            undefined,
+            state.currentLocale
+        );
         return source.startsWith('@') ? { text, key: source } : { text };
     }
 }
@@ -225,7 +320,7 @@ export class PlaytestSession {
  * inventory, location, and current dialogue node — so an edit shows up without
  * losing the tester's place. The one exception: if the tester was resting on a
  * dialogue node the edit removed, it starts fresh, so the engine never resumes
- * on a node that no longer exists.
+ * on a node that no longer exists. Coverage carries over either way.
  */
 export function reloadSession(
     prev: PlaytestSession,
@@ -234,6 +329,7 @@ export function reloadSession(
     projectKey: string
 ): PlaytestSession {
     const next = new PlaytestSession(registry, config, projectKey);
+    next.continueCoverage(prev);
     const ds = prev.getState().dialogueState;
     const nodeGone =
         !!ds &&
@@ -257,13 +353,23 @@ function describeReason(
         case 'notFlag':
             return `flag ${condition.flag} is set`;
         case 'hasItem':
-            return `${condition.itemId} not in inventory`;
+            return condition.count === undefined
+                ? `${condition.itemId} not in inventory`
+                : `only ${fmt(values.count)} of ${condition.itemId}, needs ${condition.count}`;
         case 'variableEquals':
         case 'variableGreaterThan':
         case 'variableLessThan':
             return `${condition.variable} is ${fmt(values.variable)}`;
+        case 'variable':
+            // An expression's computed value shows what the variable missed.
+            return 'value' in values
+                ? `${condition.variable} is ${fmt(values.variable)}, not ${condition.operator} ${fmt(values.value)}`
+                : `${condition.variable} is ${fmt(values.variable)}`;
         case 'atLocation':
             return `at ${fmt(values.currentLocation)}`;
+        case 'visitedLocation':
+        case 'visitCount':
+            return `${condition.locationId} visited ${fmt(values.visits)} times`;
         case 'questAtStage':
             return values.questStage === undefined
                 ? 'quest is not started'
@@ -281,12 +387,27 @@ function describeReason(
         case 'relationshipAbove':
         case 'relationshipBelow':
             return `relationship is ${fmt(values.relationship)}`;
+        case 'reputationAbove':
+        case 'reputationBelow':
+            return `reputation is ${fmt(values.reputation)}`;
         case 'timeIs':
             return `hour is ${fmt(values.hour)}`;
+        case 'dayOfWeekIs':
+            return `weekday is ${fmt(values.weekday)}`;
+        case 'seasonIs':
+            return `season is ${fmt(values.season)}`;
+        case 'dayAtLeast':
+            return `day is ${fmt(values.day)}`;
         case 'itemAt':
             return `${condition.itemId} is at ${fmt(values.itemLocation)}`;
         case 'roll':
             return 'roll did not meet the threshold';
+        case 'anyOf':
+            return 'none of the options passed';
+        case 'allOf':
+            return 'a required part failed';
+        case 'not':
+            return `${serializeCondition(condition.condition)} is true`;
     }
 }
 
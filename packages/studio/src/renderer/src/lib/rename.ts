@@ -2,13 +2,20 @@ import {
     applyDialogueEdits,
     conditionDescriptor,
     effectDescriptor,
+    isValueExpression,
     parseDialogue,
+    renameInExpression,
     REFERENCE_KIND_TARGET,
+    type Character,
     type Condition,
     type ContentRegistry,
     type Dialogue,
+    type DialogueCall,
     type Effect,
     type GameConfig,
+    type Item,
+    type Location,
+    type ValueExpression,
 } from '@doodle-engine/core';
 import type { YamlEdit } from '../../../shared/project';
 import type { CreatableSection } from './new-content';
@@ -51,9 +58,10 @@ export interface DialogueRewrite {
 export interface RenamePlan {
     /** YAML files to edit, with the collection each id belongs to. Maps show
      * up here (their markers name locations) even though map ids themselves
-     * are never referenced; 'game' means game.yaml. */
+     * are never referenced, and so do timed events; 'game' means game.yaml
+     * and 'variableSchema' means variables.yaml. */
     yamlEdits: {
-        collection: Collection | 'maps' | 'game';
+        collection: Collection | 'maps' | 'events' | 'game' | 'variableSchema';
         id: string;
         edits: YamlEdit[];
     }[];
@@ -74,6 +82,37 @@ function matcherFor(target: RenameTarget): ArgMatcher {
     return (kind) => REFERENCE_KIND_TARGET[kind as never] === collection;
 }
 
+/**
+ * An arithmetic expression value with the renamed id swapped in, or null when
+ * it doesn't use the id. Expressions read variables by name and characters
+ * through stat() and relationship().
+ */
+function renamedExpression(
+    value: unknown,
+    matches: ArgMatcher,
+    oldId: string,
+    newId: string
+): ValueExpression | null {
+    if (!isValueExpression(value)) return null;
+    const kind = matches('variable')
+        ? 'variable'
+        : matches('characterId')
+          ? 'character'
+          : null;
+    if (!kind) return null;
+    try {
+        const expression = renameInExpression(
+            value.expression,
+            kind,
+            oldId,
+            newId
+        );
+        return expression === value.expression ? null : { expression };
+    } catch {
+        return null; // A malformed expression is reported by validation.
+    }
+}
+
 /**
  * Swap the old id for the new one in a condition or effect's reference args,
  * using the engine's descriptor to know which args hold which id kind. Returns
@@ -90,6 +129,18 @@ function rewriteArgs<T extends Condition | Effect>(
     let changed = false;
     let next = record;
     for (const arg of argKinds) {
+        const expression = renamedExpression(
+            record[arg.name],
+            matches,
+            oldId,
+            newId
+        );
+        if (expression) {
+            if (next === record) next = { ...record };
+            next[arg.name] = expression;
+            changed = true;
+            continue;
+        }
         if (!matches(arg.kind)) continue;
         if (record[arg.name] !== oldId) continue;
         if (next === record) next = { ...record };
@@ -99,12 +150,42 @@ function rewriteArgs<T extends Condition | Effect>(
     return { changed, entity: (changed ? next : record) as T };
 }
 
+/** Rewrite a condition's args, descending into anyOf/allOf/not groups. */
 function rewriteCondition(
     condition: Condition,
     matches: ArgMatcher,
     oldId: string,
     newId: string
-) {
+): { changed: boolean; entity: Condition } {
+    if (condition.type === 'anyOf' || condition.type === 'allOf') {
+        const parts = condition.conditions.map((part) =>
+            rewriteCondition(part, matches, oldId, newId)
+        );
+        if (!parts.some((part) => part.changed)) {
+            return { changed: false, entity: condition };
+        }
+        return {
+            changed: true,
+            entity: {
+                ...condition,
+                conditions: parts.map((part) => part.entity),
+            },
+        };
+    }
+    if (condition.type === 'not') {
+        const inner = rewriteCondition(
+            condition.condition,
+            matches,
+            oldId,
+            newId
+        );
+        return inner.changed
+            ? {
+                  changed: true,
+                  entity: { ...condition, condition: inner.entity },
+              }
+            : { changed: false, entity: condition };
+    }
     const descriptor = conditionDescriptor(condition.type);
     return rewriteArgs(condition, descriptor.args, matches, oldId, newId);
 }
@@ -128,7 +209,8 @@ function rewriteDialogue(
     oldId: string,
     newId: string,
     renameSpeaker: boolean,
-    renameTrigger: boolean
+    renameTrigger: boolean,
+    renameCalls: boolean
 ): { changed: boolean; dialogue: Dialogue } {
     let changed = false;
 
@@ -144,6 +226,11 @@ function rewriteDialogue(
             if (r.changed) changed = true;
             return r.entity;
         });
+    const call = (target: DialogueCall | undefined) => {
+        if (!renameCalls || target?.dialogueId !== oldId) return target;
+        changed = true;
+        return { ...target, dialogueId: newId };
+    };
 
     const topConditions = conditions(dialogue.conditions);
 
@@ -158,6 +245,7 @@ function rewriteDialogue(
             speaker,
             conditions: conditions(node.conditions),
             effects: effects(node.effects),
+            call: call(node.call),
             conditionalBranches: node.conditionalBranches?.map((b) => {
                 const rewritten = rewriteCondition(
                     b.condition,
@@ -170,12 +258,14 @@ function rewriteDialogue(
                     ...b,
                     condition: rewritten.entity,
                     effects: effects(b.effects),
+                    call: call(b.call),
                 };
             }),
             choices: node.choices.map((choice) => ({
                 ...choice,
                 conditions: conditions(choice.conditions),
                 effects: effects(choice.effects),
+                call: call(choice.call),
             })),
         };
     });
@@ -188,7 +278,12 @@ function rewriteDialogue(
 
     return {
         changed,
-        dialogue: { ...dialogue, nodes, triggerLocation, conditions: topConditions },
+        dialogue: {
+            ...dialogue,
+            nodes,
+            triggerLocation,
+            conditions: topConditions,
+        },
     };
 }
 
@@ -214,7 +309,8 @@ export function rewriteDialogueSource(
         oldId,
         newId,
         isEntity && target.section === 'characters',
-        isEntity && target.section === 'locations'
+        isEntity && target.section === 'locations',
+        isEntity && target.section === 'dialogues'
     );
     if (!r.changed) return null;
     return applyDialogueEdits(source, dialogueId, r.dialogue);
@@ -231,17 +327,51 @@ function conditionEffectYamlEdits(
     newId: string
 ): YamlEdit[] {
     const edits: YamlEdit[] = [];
-    (conditions ?? []).forEach((condition, i) => {
+    const conditionEdits = (
+        condition: Condition,
+        path: YamlEdit['path']
+    ): void => {
+        if (condition.type === 'anyOf' || condition.type === 'allOf') {
+            condition.conditions.forEach((part, j) =>
+                conditionEdits(part, [...path, 'conditions', j])
+            );
+            return;
+        }
+        if (condition.type === 'not') {
+            conditionEdits(condition.condition, [...path, 'condition']);
+            return;
+        }
         for (const arg of conditionDescriptor(condition.type).args) {
+            const value = (condition as any)[arg.name];
+            const expression = renamedExpression(value, matches, oldId, newId);
+            if (expression) {
+                edits.push({
+                    path: [...path, arg.name, 'expression'],
+                    value: expression.expression,
+                });
+                continue;
+            }
             if (!matches(arg.kind)) continue;
-            if ((condition as any)[arg.name] !== oldId) continue;
-            edits.push({ path: [listKey, i, arg.name], value: newId });
+            if (value !== oldId) continue;
+            edits.push({ path: [...path, arg.name], value: newId });
         }
-    });
+    };
+    (conditions ?? []).forEach((condition, i) =>
+        conditionEdits(condition, [listKey, i])
+    );
     (effects ?? []).forEach((effect, i) => {
         for (const arg of effectDescriptor(effect.type).args) {
+            const value = (effect as any)[arg.name];
+            const expression = renamedExpression(value, matches, oldId, newId);
+            if (expression) {
+                edits.push({
+                    path: [effectsKey, i, arg.name, 'expression'],
+                    value: expression.expression,
+                });
+                continue;
+            }
             if (!matches(arg.kind)) continue;
-            if ((effect as any)[arg.name] !== oldId) continue;
+            if (value !== oldId) continue;
             edits.push({ path: [effectsKey, i, arg.name], value: newId });
         }
     });
@@ -312,6 +442,47 @@ export function planRename(
         }
     }
 
+    // Character schedules name locations and hold conditions.
+    for (const character of Object.values(registry.characters)) {
+        const edits = scheduleYamlEdits(
+            character,
+            collection === 'locations',
+            matches,
+            oldId,
+            newId
+        );
+        if (edits.length > 0) {
+            yamlEdits.push({
+                collection: 'characters',
+                id: character.id,
+                edits,
+            });
+        }
+    }
+
+    // Item uses name a target and a dialogue and hold conditions and effects.
+    for (const item of Object.values(registry.items)) {
+        const edits = itemUseYamlEdits(item, collection, matches, oldId, newId);
+        if (edits.length > 0) {
+            yamlEdits.push({ collection: 'items', id: item.id, edits });
+        }
+    }
+
+    // Location exits name a destination and hold conditions and effects, as
+    // do description variants and entry effects.
+    for (const location of Object.values(registry.locations)) {
+        const edits = locationYamlEdits(
+            location,
+            collection,
+            matches,
+            oldId,
+            newId
+        );
+        if (edits.length > 0) {
+            yamlEdits.push({ collection: 'locations', id: location.id, edits });
+        }
+    }
+
     // Interludes reference ids from their trigger location, trigger
     // conditions, and effects.
     for (const interlude of Object.values(registry.interludes)) {
@@ -331,7 +502,37 @@ export function planRename(
             )
         );
         if (edits.length > 0) {
-            yamlEdits.push({ collection: 'interludes', id: interlude.id, edits });
+            yamlEdits.push({
+                collection: 'interludes',
+                id: interlude.id,
+                edits,
+            });
+        }
+    }
+
+    // Timed events reference ids from their conditions and effects and the
+    // dialogue or interlude they start.
+    for (const event of Object.values(registry.events ?? {})) {
+        const edits: YamlEdit[] = [];
+        if (collection === 'dialogues' && event.dialogue === oldId) {
+            edits.push({ path: ['dialogue'], value: newId });
+        }
+        if (collection === 'interludes' && event.interlude === oldId) {
+            edits.push({ path: ['interlude'], value: newId });
+        }
+        edits.push(
+            ...conditionEffectYamlEdits(
+                'conditions',
+                event.conditions,
+                event.effects,
+                'effects',
+                matches,
+                oldId,
+                newId
+            )
+        );
+        if (edits.length > 0) {
+            yamlEdits.push({ collection: 'events', id: event.id, edits });
         }
     }
 
@@ -361,7 +562,8 @@ export function planRename(
             oldId,
             newId,
             collection === 'characters',
-            collection === 'locations'
+            collection === 'locations',
+            collection === 'dialogues'
         );
         if (r.changed)
             dialogueRewrites.push({ id: dialogue.id, dialogue: r.dialogue });
@@ -370,9 +572,131 @@ export function planRename(
     return { yamlEdits, dialogueRewrites };
 }
 
+/** YAML edits for a character's schedule: entry locations (when a location
+ * is renamed) and the reference args of each entry's conditions. */
+function scheduleYamlEdits(
+    character: Character,
+    renamingLocation: boolean,
+    matches: ArgMatcher,
+    oldId: string,
+    newId: string
+): YamlEdit[] {
+    const edits: YamlEdit[] = [];
+    (character.schedule ?? []).forEach((entry, i) => {
+        if (renamingLocation && entry.location === oldId) {
+            edits.push({ path: ['schedule', i, 'location'], value: newId });
+        }
+        for (const edit of conditionEffectYamlEdits(
+            'conditions',
+            entry.conditions,
+            undefined,
+            'effects',
+            matches,
+            oldId,
+            newId
+        )) {
+            edits.push({ ...edit, path: ['schedule', i, ...edit.path] });
+        }
+    });
+    return edits;
+}
+
+/** YAML edits for an item's uses: each use's target (when a location or
+ * character is renamed), its dialogue, and the reference args of its
+ * conditions and effects. */
+function itemUseYamlEdits(
+    item: Item,
+    collection: Collection | null,
+    matches: ArgMatcher,
+    oldId: string,
+    newId: string
+): YamlEdit[] {
+    const edits: YamlEdit[] = [];
+    (item.uses ?? []).forEach((use, i) => {
+        if (
+            (collection === 'locations' || collection === 'characters') &&
+            use.target === oldId
+        ) {
+            edits.push({ path: ['uses', i, 'target'], value: newId });
+        }
+        if (collection === 'dialogues' && use.dialogue === oldId) {
+            edits.push({ path: ['uses', i, 'dialogue'], value: newId });
+        }
+        for (const edit of conditionEffectYamlEdits(
+            'conditions',
+            use.conditions,
+            use.effects,
+            'effects',
+            matches,
+            oldId,
+            newId
+        )) {
+            edits.push({ ...edit, path: ['uses', i, ...edit.path] });
+        }
+    });
+    return edits;
+}
+
+/** YAML edits for a location's exits: each exit's target (when a location is
+ * renamed) and the reference args of its conditions and effects. Also covers
+ * the conditions of description variants and the entry effects. */
+function locationYamlEdits(
+    location: Location,
+    collection: Collection | null,
+    matches: ArgMatcher,
+    oldId: string,
+    newId: string
+): YamlEdit[] {
+    const edits: YamlEdit[] = [];
+    (location.exits ?? []).forEach((exit, i) => {
+        if (collection === 'locations' && exit.target === oldId) {
+            edits.push({ path: ['exits', i, 'target'], value: newId });
+        }
+        for (const edit of conditionEffectYamlEdits(
+            'conditions',
+            exit.conditions,
+            exit.effects,
+            'effects',
+            matches,
+            oldId,
+            newId
+        )) {
+            edits.push({ ...edit, path: ['exits', i, ...edit.path] });
+        }
+    });
+    (location.descriptions ?? []).forEach((variant, i) => {
+        for (const edit of conditionEffectYamlEdits(
+            'conditions',
+            variant.conditions,
+            undefined,
+            'effects',
+            matches,
+            oldId,
+            newId
+        )) {
+            edits.push({ ...edit, path: ['descriptions', i, ...edit.path] });
+        }
+    });
+    for (const field of ['onFirstEnter', 'onEnter'] as const) {
+        edits.push(
+            ...conditionEffectYamlEdits(
+                'conditions',
+                undefined,
+                location[field],
+                field,
+                matches,
+                oldId,
+                newId
+            )
+        );
+    }
+    return edits;
+}
+
 /**
  * Plan a flag or variable rename. These are free-form keys with no file of their
- * own, so this only rewrites their uses: dialogue conditions/effects, interlude
+ * own, so this only rewrites their uses: dialogue conditions/effects, character
+ * schedule conditions, item use, location, interlude, and timed event
  * conditions/effects, and the game.yaml start block. A flag/variable can also
  * be set implicitly by content this can't see, so the caller should present it
  * as "review these usages," not a guaranteed-safe rename.
@@ -382,19 +706,65 @@ export function planFlagVariableRename(
     kind: 'flag' | 'variable',
     oldId: string,
     newId: string,
-    config: { startFlags?: Record<string, unknown>; startVariables?: Record<string, unknown> }
+    config: {
+        startFlags?: Record<string, unknown>;
+        startVariables?: Record<string, unknown>;
+    }
 ): RenamePlan {
     const dialogueRewrites: DialogueRewrite[] = [];
     const matches: ArgMatcher = (k) => k === kind;
 
     for (const dialogue of Object.values(registry.dialogues)) {
-        const r = rewriteDialogue(dialogue, matches, oldId, newId, false, false);
+        const r = rewriteDialogue(
+            dialogue,
+            matches,
+            oldId,
+            newId,
+            false,
+            false,
+            false
+        );
         if (r.changed)
             dialogueRewrites.push({ id: dialogue.id, dialogue: r.dialogue });
     }
 
     const yamlEdits: RenamePlan['yamlEdits'] = [];
 
+    // Character schedule conditions can read them.
+    for (const character of Object.values(registry.characters)) {
+        const edits = scheduleYamlEdits(
+            character,
+            false,
+            matches,
+            oldId,
+            newId
+        );
+        if (edits.length > 0) {
+            yamlEdits.push({
+                collection: 'characters',
+                id: character.id,
+                edits,
+            });
+        }
+    }
+
+    // Item uses can read and set them.
+    for (const item of Object.values(registry.items)) {
+        const edits = itemUseYamlEdits(item, null, matches, oldId, newId);
+        if (edits.length > 0) {
+            yamlEdits.push({ collection: 'items', id: item.id, edits });
+        }
+    }
+
+    // Location exits, description variants, and entry effects can read and
+    // set them.
+    for (const location of Object.values(registry.locations)) {
+        const edits = locationYamlEdits(location, null, matches, oldId, newId);
+        if (edits.length > 0) {
+            yamlEdits.push({ collection: 'locations', id: location.id, edits });
+        }
+    }
+
     // Interludes can read and set flags/variables too.
     for (const interlude of Object.values(registry.interludes)) {
         const edits = conditionEffectYamlEdits(
@@ -407,7 +777,34 @@ export function planFlagVariableRename(
             newId
         );
         if (edits.length > 0) {
-            yamlEdits.push({ collection: 'interludes', id: interlude.id, edits });
+            yamlEdits.push({
+                collection: 'interludes',
+                id: interlude.id,
+                edits,
+            });
+        }
+    }
+
+    // Timed events read and set them too, and afterFlag triggers name a flag.
+    for (const event of Object.values(registry.events ?? {})) {
+        const edits = conditionEffectYamlEdits(
+            'conditions',
+            event.conditions,
+            event.effects,
+            'effects',
+            matches,
+            oldId,
+            newId
+        );
+        if (
+            kind === 'flag' &&
+            event.trigger.type === 'afterFlag' &&
+            event.trigger.flag === oldId
+        ) {
+            edits.push({ path: ['trigger', 'flag'], value: newId });
+        }
+        if (edits.length > 0) {
+            yamlEdits.push({ collection: 'events', id: event.id, edits });
         }
     }
 
@@ -426,5 +823,19 @@ export function planFlagVariableRename(
         });
     }
 
+    // variables.yaml declaration: moved the same way, keeping its fields.
+    const section = kind === 'flag' ? 'flags' : 'variables';
+    const declaration = registry.variableSchema?.[section]?.[oldId];
+    if (declaration) {
+        yamlEdits.push({
+            collection: 'variableSchema',
+            id: 'variables',
+            edits: [
+                { path: [section, newId], value: declaration },
+                { path: [section, oldId], value: undefined },
+            ],
+        });
+    }
+
     return { yamlEdits, dialogueRewrites };
 }
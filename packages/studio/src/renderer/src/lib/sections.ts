@@ -7,12 +7,16 @@ const norm = (s: string) => s.replace(/\\/g, '/');
 
 /**
  * Turn a loaded project into the left-rail sections. Items are marked with an
- * error when a validation problem points at their file. Dialogues that failed
+ * error when a validation error points at their file; warnings leave them be. Dialogues that failed
  * to parse are dropped from the registry, so they're added back from the
  * problem list — otherwise a broken file would vanish and couldn't be reopened.
  */
 export function buildSections(project: OpenProject): RailSection[] {
-    const errorFiles = new Set(project.problems.map((p) => norm(p.file)));
+    const errorFiles = new Set(
+        project.problems
+            .filter((p) => p.severity !== 'warning')
+            .map((p) => norm(p.file))
+    );
     const files = project.files;
 
     const statusForPath = (path: string | undefined): ItemStatus =>
@@ -0,0 +1,78 @@
+import { useEffect, useState } from 'react';
+import type { StoryCoverage } from '@doodle-engine/core';
+import type { CoverageReadResult } from '../../../shared/project';
+
+const COVERAGE_PATH = 'metadata/coverage.json';
+
+const recorded = new Set<(projectDir: string) => void>();
+
+/**
+ * Add a playtest's coverage to the project's coverage file, then tell every
+ * view showing coverage for that project to read it again. Studio's own
+ * writes never reach the file watcher, so this is how they find out.
+ */
+export async function recordPlaytestCoverage(
+    projectDir: string,
+    coverage: StoryCoverage
+): Promise<void> {
+    if (typeof window.studio?.recordCoverage !== 'function') return;
+    await window.studio.recordCoverage(projectDir, coverage);
+    for (const listener of recorded) listener(projectDir);
+}
+
+/**
+ * The project's recorded story coverage, kept current as playtests record
+ * more and as the CLI's `test --coverage` rewrites the file. Reads nothing
+ * while `enabled` is false; returns null until the first read finishes.
+ */
+export function useStoryCoverage(
+    projectDir: string,
+    enabled: boolean
+): CoverageReadResult | null {
+    const [result, setResult] = useState<CoverageReadResult | null>(null);
+
+    useEffect(() => {
+        if (!enabled || typeof window.studio?.readCoverage !== 'function') {
+            setResult(null);
+            return;
+        }
+        let cancelled = false;
+        const read = () => {
+            void window.studio?.readCoverage?.(projectDir).then(
+                (next) => {
+                    if (!cancelled) setResult(next);
+                },
+                (error: unknown) => {
+                    if (!cancelled) {
+                        setResult({
+                            status: 'unavailable',
+                            message:
+                                error instanceof Error
+                                    ? error.message
+                                    : String(error),
+                        });
+                    }
+                }
+            );
+        };
+        read();
+
+        const onRecorded = (dir: string) => {
+            if (dir === projectDir) read();
+        };
+        recorded.add(onRecorded);
+        const unsubscribe =
+            typeof window.studio?.onFileChanged === 'function'
+                ? window.studio.onFileChanged((relPath) => {
+                      if (relPath.replace(/\\/g, '/') === COVERAGE_PATH) read();
+                  })
+                : undefined;
+        return () => {
+            cancelled = true;
+            recorded.delete(onRecorded);
+            unsubscribe?.();
+        };
+    }, [projectDir, enabled]);
+
+    return result;
+}
@@ -173,7 +173,14 @@ function ProblemsView({
     return (
         <>
             {problems.map((problem, i) => (
-                <div key={i} className="problem problem--row">
+                <div
+                    key={i}
+                    className={`problem problem--row${
+                        problem.severity === 'warning'
+                            ? ' problem--warning'
+                            : ''
+                    }`}
+                >
                     <button
                         className="problem__open"
                         onClick={() => onOpenProblem(problem)}
@@ -1,5 +1,6 @@
 import { useMemo, useState } from 'react';
 import {
+    COMPARISON_OPERATORS,
     CONDITION_DESCRIPTORS,
     EFFECT_DESCRIPTORS,
     REFERENCE_KIND_TARGET,
@@ -379,6 +380,26 @@ function ArgField({
         );
     }
 
+    if (arg.kind === 'operator') {
+        return (
+            <label className="builder__arg">
+                {label}
+                <select
+                    className="dlg__select"
+                    value={value || '>='}
+                    onChange={(e) => onChange(e.target.value)}
+                    onBlur={onBlur}
+                >
+                    {COMPARISON_OPERATORS.map((operator) => (
+                        <option key={operator} value={operator}>
+                            {operator}
+                        </option>
+                    ))}
+                </select>
+            </label>
+        );
+    }
+
     if (arg.kind === 'questStatus') {
         return (
             <label className="builder__arg">
@@ -451,9 +472,15 @@ function placeholderFor(arg: ArgDescriptor): string {
         case 'stat':
             return 'statName';
         case 'value':
-            return 'number or word';
+            return 'number, word, or {variable} * 2';
+        case 'expression':
+            return 'number or {variable} * 2';
         case 'text':
             return '@key, "literal", or filename';
+        case 'condition':
+            return '(hasFlag doorLocked)';
+        case 'conditions':
+            return '(hasItem rusty_key) (hasFlag pickedLock)';
         default:
             return '';
     }
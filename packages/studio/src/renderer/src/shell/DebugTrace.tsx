@@ -1,8 +1,8 @@
 /**
  * The debug-trace tab: a chronological, filterable log of what the engine did
  * during the playtest session — nodes entered, conditions evaluated (with their
- * live values and pass/fail), effects run, and transitions. Rows are filtered
- * by kind and searched by id.
+ * live values and pass/fail), effects run, transitions, items used, and
+ * interludes shown. Rows are filtered by kind and searched by id.
  */
 import { useState, type ReactNode } from 'react';
 import {
@@ -11,6 +11,7 @@ import {
     serializeCondition,
     serializeEffect,
     type DlgToken,
+    type FailedCondition,
     type TraceEvent,
 } from '@doodle-engine/core';
 import { ArrowRight } from '../lib/icons';
@@ -140,6 +141,30 @@ function TokenList({ tokens }: { tokens: readonly DlgToken[] }) {
     ));
 }
 
+/** Search text for the parts that made a condition group fail. */
+function failedPartsText(failed: FailedCondition[] | undefined): string {
+    if (!failed?.length) return '';
+    const parts = failed.map((part) => serializeCondition(part.condition));
+    return ` failed: ${parts.join('; ')}`;
+}
+
+/** The parts that made a condition group fail, shown after the group. */
+function FailedParts({ failed }: { failed: FailedCondition[] | undefined }) {
+    if (!failed?.length) return null;
+    return (
+        <>
+            {' '}
+            <span className="trace__tok trace__tok--keyword">failed:</span>
+            {failed.map((part, index) => (
+                <span key={index}>
+                    {index > 0 ? ';' : ''}{' '}
+                    <TokenList tokens={conditionTokens(part.condition)} />
+                </span>
+            ))}
+        </>
+    );
+}
+
 /** Render one trace event as a display row: a kind tag, a description, and an
  * optional pass/fail badge for conditions. */
 function describe(event: TraceEvent): Row {
@@ -161,7 +186,9 @@ function describe(event: TraceEvent): Row {
             const source = serializeCondition(event.condition);
             return {
                 tag: 'CONDITION',
-                text: values ? `${source} = ${values}` : source,
+                text:
+                    (values ? `${source} = ${values}` : source) +
+                    failedPartsText(event.failedConditions),
                 display: (
                     <>
                         <TokenList tokens={conditionTokens(event.condition)} />
@@ -176,6 +203,7 @@ function describe(event: TraceEvent): Row {
                                 </span>
                             </>
                         )}
+                        <FailedParts failed={event.failedConditions} />
                     </>
                 ),
                 result: event.result,
@@ -188,10 +216,16 @@ function describe(event: TraceEvent): Row {
                 display: <TokenList tokens={effectTokens(event.effect)} />,
             };
         case 'transition': {
-            const toNode = event.toNode ?? 'end';
+            const toNode =
+                event.toNode === null
+                    ? 'end'
+                    : event.toDialogue
+                      ? `${event.toDialogue}.${event.toNode}`
+                      : event.toNode;
+            const via = event.via?.toUpperCase();
             return {
                 tag: 'TRANSITION',
-                text: `${event.fromNode} to ${toNode}`,
+                text: `${event.fromNode} to ${toNode}${via ? ` (${via})` : ''}`,
                 display: (
                     <>
                         <span className="trace__tok trace__tok--id">
@@ -205,6 +239,14 @@ function describe(event: TraceEvent): Row {
                         <span className="trace__tok trace__tok--id">
                             {toNode}
                         </span>
+                        {via && (
+                            <>
+                                {' '}
+                                <span className="trace__tok trace__tok--keyword">
+                                    {via}
+                                </span>
+                            </>
+                        )}
                     </>
                 ),
             };
@@ -212,7 +254,9 @@ function describe(event: TraceEvent): Row {
         case 'choiceFiltered':
             return {
                 tag: 'HIDDEN',
-                text: `${event.choiceId}: ${serializeCondition(event.failedCondition)}`,
+                text:
+                    `${event.choiceId}: ${serializeCondition(event.failedCondition)}` +
+                    failedPartsText(event.failedConditions),
                 display: (
                     <>
                         <span className="trace__tok trace__tok--id">
@@ -224,10 +268,54 @@ function describe(event: TraceEvent): Row {
                         <TokenList
                             tokens={conditionTokens(event.failedCondition)}
                         />
+                        <FailedParts failed={event.failedConditions} />
                     </>
                 ),
                 result: false,
             };
+        case 'itemUse': {
+            const target = event.targetId ? ` on ${event.targetId}` : '';
+            const use = event.useId ?? 'no use applied';
+            return {
+                tag: 'USE',
+                text: `${event.itemId}${target}: ${use}`,
+                display: (
+                    <>
+                        <span className="trace__tok trace__tok--id">
+                            {event.itemId}
+                        </span>
+                        {event.targetId && (
+                            <>
+                                {' '}
+                                <span className="trace__tok trace__tok--keyword">
+                                    on
+                                </span>{' '}
+                                <span className="trace__tok trace__tok--id">
+                                    {event.targetId}
+                                </span>
+                            </>
+                        )}
+                        <span className="trace__tok trace__tok--keyword">
+                            :{' '}
+                        </span>
+                        <span className="trace__tok trace__tok--value">
+                            {use}
+                        </span>
+                    </>
+                ),
+                result: event.useId !== null,
+            };
+        }
+        case 'interlude':
+            return {
+                tag: 'INTERLUDE',
+                text: event.interludeId,
+                display: (
+                    <span className="trace__tok trace__tok--id">
+                        {event.interludeId}
+                    </span>
+                ),
+            };
         case 'error':
             return { tag: 'ERROR', text: event.message, result: false };
     }
@@ -5,8 +5,10 @@ import type { OpenProject } from '../../../shared/project';
 import { Pencil } from '../lib/icons';
 import { authoredTextPreview } from '../lib/localized-text';
 import { useLocaleWriter } from '../lib/locale-writer';
+import { useStoryCoverage } from '../lib/useStoryCoverage';
 import { EditorLoading } from './EditorLoading';
 import {
+    callNodeId,
     edgePath,
     layoutDialogue,
     NODE_W,
@@ -18,8 +20,9 @@ import {
  * Read-only graph of a .dlg file. Nodes list their outgoing routes as rows
  * (choice text, IF conditions, GOTO), each row anchoring its own edge, and
  * routes that loop back to an earlier node show a return chip instead of a
- * line. Click selects a node (shared with the Visual editor's outline);
- * the pencil button or a double-click opens it in the Visual editor.
+ * line. A CALL leads to a box for the dialogue it calls. Click selects a node (shared with the Visual editor's outline);
+ * the pencil button or a double-click opens it in the Visual editor. With the
+ * coverage overlay on, nodes no recorded playtest has reached are shaded.
  *
  * The whole scene lives in one transformed <g>; the camera is a ref written
  * straight to that transform (batched per frame), so zoom and pan gestures
@@ -32,6 +35,8 @@ interface DialogueGraphViewProps {
     selectedNodeId: string | null;
     onSelectNode: (nodeId: string) => void;
     onOpenNode: (nodeId: string) => void;
+    /** Shade the nodes the project's recorded coverage never reached. */
+    showCoverage?: boolean;
 }
 
 const MIN_ZOOM = 0.2;
@@ -53,11 +58,17 @@ export function DialogueGraphView({
     selectedNodeId,
     onSelectNode,
     onOpenNode,
+    showCoverage = false,
 }: DialogueGraphViewProps) {
     const [dialogue, setDialogue] = useState<Dialogue | null>(null);
     const [loading, setLoading] = useState(true);
     const [parseError, setParseError] = useState<string | null>(null);
     const localeWriter = useLocaleWriter();
+    const coverage = useStoryCoverage(project.projectDir, showCoverage);
+    const visits =
+        coverage?.status === 'available'
+            ? (coverage.coverage.dialogues[dialogueId]?.nodes ?? {})
+            : null;
 
     const svgRef = useRef<SVGSVGElement>(null);
     const sceneRef = useRef<SVGGElement>(null);
@@ -262,9 +273,26 @@ export function DialogueGraphView({
             const branch = n.node!.conditionalBranches![row.index];
             return `IF ${serializeCondition(branch.condition)}`;
         }
+        if (row.kind === 'call') return callNodeId(row.call!);
+        if (row.kind === 'return') return 'RETURN';
         return 'GOTO';
     };
 
+    /** The overlay's one-line summary of this dialogue's coverage. */
+    const coverageText = (nodeIds: string[]): string => {
+        if (!coverage) return 'Reading coverage…';
+        if (coverage.status === 'unavailable') {
+            return `Coverage can’t be read: ${coverage.message}`;
+        }
+        const { sessions } = coverage.coverage;
+        if (sessions === 0) {
+            return 'No coverage recorded yet. Playtest to see which nodes are reached.';
+        }
+        const visited = nodeIds.filter((id) => visits?.[id]).length;
+        const percent = Math.floor((visited / nodeIds.length) * 100);
+        return `${visited} of ${nodeIds.length} nodes visited (${percent}%) across ${sessions} session${sessions === 1 ? '' : 's'}. Shaded nodes were never visited.`;
+    };
+
     if (loading) {
         return <EditorLoading />;
     }
@@ -324,6 +352,42 @@ export function DialogueGraphView({
                     />
                 ))}
                 {orderedNodes.map((n) => {
+                    if (n.call) {
+                        return (
+                            <g
+                                key={n.id}
+                                className="graph__node graph__node--call"
+                                transform={`translate(${n.x} ${n.y})`}
+                            >
+                                <rect
+                                    className="graph__node-box"
+                                    width={NODE_W}
+                                    height={n.h}
+                                />
+                                <foreignObject
+                                    width={NODE_W}
+                                    height={n.h}
+                                    className="graph__node-body"
+                                >
+                                    <div className="graph__node-inner">
+                                        <div className="graph__node-head">
+                                            <span className="graph__node-id">
+                                                {n.call.dialogueId}
+                                            </span>
+                                            <span className="graph__badge">
+                                                call
+                                            </span>
+                                        </div>
+                                        <span className="graph__node-preview">
+                                            {n.call.nodeId
+                                                ? `Starts at ${n.call.nodeId}, then RETURNs`
+                                                : 'Runs, then RETURNs'}
+                                        </span>
+                                    </div>
+                                </foreignObject>
+                            </g>
+                        );
+                    }
                     const classes = [
                         'graph__node',
                         n.node === null && 'graph__node--ghost',
@@ -332,6 +396,10 @@ export function DialogueGraphView({
                             'graph__node--unreachable',
                         n.id === selectedNodeId && 'graph__node--selected',
                         n.isStart && 'graph__node--start',
+                        visits &&
+                            n.node &&
+                            !visits[n.id] &&
+                            'graph__node--unvisited',
                     ]
                         .filter(Boolean)
                         .join(' ');
@@ -413,11 +481,19 @@ export function DialogueGraphView({
                                                     <span className="graph__row-label">
                                                         {rowLabel(n, row)}
                                                     </span>
-                                                    {row.target === null && (
-                                                        <span className="graph__chip graph__chip--end">
-                                                            END
-                                                        </span>
-                                                    )}
+                                                    {row.target === null &&
+                                                        !row.returns && (
+                                                            <span className="graph__chip graph__chip--end">
+                                                                END
+                                                            </span>
+                                                        )}
+                                                    {row.returns &&
+                                                        row.kind !==
+                                                            'return' && (
+                                                            <span className="graph__chip graph__chip--end">
+                                                                RETURN
+                                                            </span>
+                                                        )}
                                                     {row.back && (
                                                         <span className="graph__chip">
                                                             to {row.target}
@@ -433,6 +509,19 @@ export function DialogueGraphView({
                     );
                 })}
             </g>
+            {showCoverage && (
+                <foreignObject
+                    width="100%"
+                    height="32"
+                    className="graph__coverage"
+                >
+                    <div className="graph__coverage-text" role="status">
+                        {coverageText(
+                            graph.nodes.filter((n) => n.node).map((n) => n.id)
+                        )}
+                    </div>
+                </foreignObject>
+            )}
         </svg>
     );
 }
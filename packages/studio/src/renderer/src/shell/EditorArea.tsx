@@ -20,6 +20,7 @@ import { ConfirmModal } from './ConfirmModal';
 import { AnchoredOverlay, PointOverlay } from './OverlayPortal';
 import {
     EMPTY_NAME_CATALOG,
+    type Declaration,
     type FlagVarKind,
     type NameCatalog,
 } from '../lib/flag-vars';
@@ -67,6 +68,11 @@ interface EditorAreaProps {
         onRename: (kind: FlagVarKind, id: string) => void;
         onNoteChange: (kind: FlagVarKind, id: string, note: string) => void;
         onNoteMove: (kind: FlagVarKind, from: string, to: string) => void;
+        onDeclarationChange: (
+            kind: FlagVarKind,
+            id: string,
+            declaration: Declaration | undefined
+        ) => void;
         onOpenReference: (reference: Reference) => void;
     };
 }
@@ -124,6 +130,8 @@ function EditorAreaContent({
         keys: string[];
         keepKey?: string;
     } | null>(null);
+    // The graph's coverage overlay stays on across dialogue tabs.
+    const [showCoverage, setShowCoverage] = useState(false);
     const localeWriter = useLocaleWriter();
     const active = tabs.find((t) => t.key === activeKey) ?? null;
     const activePath = active ? filePathFor(project, active) : null;
@@ -337,6 +345,18 @@ function EditorAreaContent({
                             </button>
                         )}
                     </div>
+                    {mode === 'graph' && active.section === 'dialogues' && (
+                        <div className="seg editor__toggle">
+                            <button
+                                className={`seg__opt ${showCoverage ? 'seg__opt--on' : ''}`}
+                                aria-pressed={showCoverage}
+                                title="Shade the nodes no recorded playtest has reached"
+                                onClick={() => setShowCoverage((on) => !on)}
+                            >
+                                Coverage
+                            </button>
+                        </div>
+                    )}
                 </div>
             )}
 
@@ -427,6 +447,7 @@ function EditorAreaContent({
                                 onSelectNode(active.key, nodeId);
                                 onSetViewMode(active.key, 'view');
                             }}
+                            showCoverage={showCoverage}
                         />
                     </div>
                 )}
@@ -490,11 +511,15 @@ function EditorAreaContent({
                             catalog={nameCatalog}
                             notes={flagVarPage.notes}
                             notesError={flagVarPage.notesError}
+                            schema={project.registry.variableSchema}
                             selected={flagVarPage.selected}
                             onSelect={flagVarPage.onSelect}
                             onRename={flagVarPage.onRename}
                             onNoteChange={flagVarPage.onNoteChange}
                             onNoteMove={flagVarPage.onNoteMove}
+                            onDeclarationChange={
+                                flagVarPage.onDeclarationChange
+                            }
                             onOpenReference={flagVarPage.onOpenReference}
                         />
                     </div>
@@ -14,7 +14,7 @@ import { LocalizedTextField } from './LocalizedTextField';
 import { LocaleWriterBoundary } from '../lib/locale-writer';
 import { ConfirmModal } from './ConfirmModal';
 import { ConditionList, EffectList } from './NodeEditor';
-import type { Condition, Effect } from '@doodle-engine/core';
+import type { Condition, Effect, ScheduleEntry } from '@doodle-engine/core';
 import { EditorLoading } from './EditorLoading';
 
 /**
@@ -261,6 +261,22 @@ function EntityFormInner({
                     onChange={(stages) => setField('stages', stages)}
                 />
             )}
+            {section === 'characters' && (
+                <ScheduleListEditor
+                    entries={
+                        Array.isArray(values.schedule)
+                            ? (values.schedule as ScheduleEntry[])
+                            : []
+                    }
+                    project={project}
+                    onChange={(schedule) =>
+                        setField(
+                            'schedule',
+                            schedule.length ? schedule : undefined
+                        )
+                    }
+                />
+            )}
             {section === 'maps' && (
                 <MarkerListEditor
                     markers={
@@ -1067,6 +1083,169 @@ function MarkerListEditor({
     );
 }
 
+/** Editable character schedule. The first entry that matches the hour wins,
+ * so rows can move up and down. */
+function ScheduleListEditor({
+    entries,
+    project,
+    onChange,
+}: {
+    entries: ScheduleEntry[];
+    project: OpenProject;
+    onChange: (entries: ScheduleEntry[]) => void;
+}) {
+    const locationIds = idsFor(project, 'locations');
+    const set = (i: number, patch: Partial<ScheduleEntry>) =>
+        onChange(entries.map((e, j) => (j === i ? { ...e, ...patch } : e)));
+    const remove = (i: number) => onChange(entries.filter((_, j) => j !== i));
+    const move = (i: number, delta: number) => {
+        const j = i + delta;
+        if (j < 0 || j >= entries.length) return;
+        const next = [...entries];
+        [next[i], next[j]] = [next[j], next[i]];
+        onChange(next);
+    };
+    const add = () =>
+        onChange([...entries, { location: '', startHour: 9, endHour: 17 }]);
+    const options = (id: string) =>
+        id && !locationIds.includes(id) ? [id, ...locationIds] : locationIds;
+    const parseDays = (text: string) => {
+        const days = text
+            .split(',')
+            .map((part) => part.trim())
+            .filter((part) => part !== '')
+            .map(Number);
+        return days.length ? days : undefined;
+    };
+    const parseWeekdays = (text: string) => {
+        const weekdays = text
+            .split(',')
+            .map((part) => part.trim())
+            .filter((part) => part !== '');
+        return weekdays.length ? weekdays : undefined;
+    };
+
+    return (
+        <div className="field">
+            <span className="field__label">Schedule</span>
+            {entries.map((entry, i) => (
+                <div key={i} className="rowedit__stack">
+                    <div className="rowedit">
+                        <select
+                            className="dlg__select rowedit__grow"
+                            value={entry.location ?? ''}
+                            onChange={(e) =>
+                                set(i, { location: e.target.value })
+                            }
+                        >
+                            <option value="">(location)</option>
+                            {options(entry.location ?? '').map((id) => (
+                                <option key={id} value={id}>
+                                    {id}
+                                </option>
+                            ))}
+                        </select>
+                        <input
+                            className="dlg__input rowedit__num"
+                            type="number"
+                            min={0}
+                            max={23}
+                            value={entry.startHour ?? 0}
+                            title="From hour (0-23)"
+                            onChange={(e) =>
+                                set(i, { startHour: Number(e.target.value) })
+                            }
+                        />
+                        <input
+                            className="dlg__input rowedit__num"
+                            type="number"
+                            min={0}
+                            max={23}
+                            value={entry.endHour ?? 0}
+                            title="Until hour (0-23)"
+                            onChange={(e) =>
+                                set(i, { endHour: Number(e.target.value) })
+                            }
+                        />
+                        <input
+                            className="dlg__input mono rowedit__num"
+                            value={(entry.days ?? []).join(', ')}
+                            placeholder="any day"
+                            title="Days (comma-separated day numbers)"
+                            spellCheck={false}
+                            onChange={(e) =>
+                                set(i, { days: parseDays(e.target.value) })
+                            }
+                        />
+                        <input
+                            className="dlg__input mono rowedit__num"
+                            value={(entry.weekdays ?? []).join(', ')}
+                            placeholder="any weekday"
+                            title="Weekdays (comma-separated weekday IDs)"
+                            spellCheck={false}
+                            onChange={(e) =>
+                                set(i, {
+                                    weekdays: parseWeekdays(e.target.value),
+                                })
+                            }
+                        />
+                        <button
+                            className="rowedit__btn"
+                            title="Move up"
+                            aria-label="Move up"
+                            disabled={i === 0}
+                            onClick={() => move(i, -1)}
+                        >
+                            <ChevronUp size={15} />
+                        </button>
+                        <button
+                            className="rowedit__btn"
+                            title="Move down"
+                            aria-label="Move down"
+                            disabled={i === entries.length - 1}
+                            onClick={() => move(i, 1)}
+                        >
+                            <ChevronDown size={15} />
+                        </button>
+                        <button
+                            className="rowedit__btn rowedit__btn--danger"
+                            title="Remove schedule entry"
+                            aria-label="Remove schedule entry"
+                            onClick={() => remove(i)}
+                        >
+                            <X size={15} />
+                        </button>
+                    </div>
+                    <ConditionList
+                        conditions={entry.conditions ?? []}
+                        registry={project.registry}
+                        projectDir={project.projectDir}
+                        onChange={(conditions) =>
+                            set(i, {
+                                conditions: conditions.length
+                                    ? conditions
+                                    : undefined,
+                            })
+                        }
+                    />
+                </div>
+            ))}
+            <button
+                type="button"
+                className="dlg__add entity-list-action"
+                onClick={add}
+            >
+                <Plus size={13} /> Add schedule entry
+            </button>
+            <span className="field__hint">
+                The first entry that covers the hour decides where the character
+                is. Outside every entry, the character is at its starting
+                location.
+            </span>
+        </div>
+    );
+}
+
 function idsFor(project: OpenProject, target: RefTarget): string[] {
     const collection = (
         project.registry as unknown as Record<string, Record<string, unknown>>
@@ -1085,6 +1264,7 @@ function unknownFieldsFor(
     // Structured lists have their own editors below the fields.
     if (section === 'quests') known.add('stages');
     if (section === 'maps') known.add('locations');
+    if (section === 'characters') known.add('schedule');
     return Object.keys(parsed).filter((k) => !known.has(k));
 }
 
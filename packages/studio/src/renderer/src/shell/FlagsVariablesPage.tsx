@@ -1,11 +1,20 @@
 import { useEffect, useMemo, useRef, useState } from 'react';
-import type { Reference } from '@doodle-engine/core';
+import type {
+    Reference,
+    VariableSchema,
+    VariableType,
+} from '@doodle-engine/core';
 import type { FlagVarNotes } from '../../../shared/project';
 import {
     closestExistingName,
+    declarationDraft,
+    declarationFor,
+    declarationFromDraft,
     nearIdenticalNames,
     prefixForName,
     usageSummary,
+    type Declaration,
+    type DeclarationDraft,
     type FlagVarKind,
     type NameCatalog,
     type NameSummary,
@@ -32,7 +41,8 @@ type HealthCategory =
     | 'checked-only'
     | 'set-only'
     | 'near-identical'
-    | 'orphaned-notes';
+    | 'orphaned-notes'
+    | 'undeclared';
 
 const ROW_HEIGHT = 42;
 const OVERSCAN = 6;
@@ -65,21 +75,31 @@ export function FlagsVariablesPage({
     catalog,
     notes,
     notesError,
+    schema,
     selected,
     onSelect,
     onRename,
     onNoteChange,
     onNoteMove,
+    onDeclarationChange,
     onOpenReference,
 }: {
     catalog: NameCatalog;
     notes: FlagVarNotes;
     notesError?: string | null;
+    /** content/variables.yaml, when the project has one */
+    schema?: VariableSchema;
     selected: FlagVarSelection | null;
     onSelect: (selection: FlagVarSelection) => void;
     onRename: (kind: FlagVarKind, id: string) => void;
     onNoteChange: (kind: FlagVarKind, id: string, note: string) => void;
     onNoteMove: (kind: FlagVarKind, from: string, to: string) => void;
+    /** Write a declaration to variables.yaml; undefined removes it */
+    onDeclarationChange: (
+        kind: FlagVarKind,
+        id: string,
+        declaration: Declaration | undefined
+    ) => void;
     onOpenReference: (reference: Reference) => void;
 }) {
     const [query, setQuery] = useState('');
@@ -226,6 +246,7 @@ export function FlagsVariablesPage({
             <HealthShelf
                 catalog={catalog}
                 notes={notes}
+                schema={schema}
                 notesReadOnly={Boolean(notesError)}
                 onSelect={onSelect}
                 onNoteChange={onNoteChange}
@@ -360,8 +381,10 @@ export function FlagsVariablesPage({
                     summary={selectedSummary}
                     notesError={notesError}
                     notesReadOnly={Boolean(notesError)}
+                    schema={schema}
                     onRename={onRename}
                     onNoteChange={onNoteChange}
+                    onDeclarationChange={onDeclarationChange}
                     onOpenReference={onOpenReference}
                 />
             </div>
@@ -372,6 +395,7 @@ export function FlagsVariablesPage({
 function HealthShelf({
     catalog,
     notes,
+    schema,
     notesReadOnly,
     onSelect,
     onNoteChange,
@@ -379,6 +403,7 @@ function HealthShelf({
 }: {
     catalog: NameCatalog;
     notes: FlagVarNotes;
+    schema?: VariableSchema;
     notesReadOnly: boolean;
     onSelect: (selection: FlagVarSelection) => void;
     onNoteChange: (kind: FlagVarKind, id: string, note: string) => void;
@@ -391,6 +416,9 @@ function HealthShelf({
     const setOnly = all.filter(
         (item) => item.setCount > 0 && item.checkCount === 0
     );
+    const undeclared = schema
+        ? all.filter((item) => !declarationFor(schema, item.kind, item.id))
+        : [];
     const pairs = useMemo(() => nearIdenticalNames(catalog), [catalog]);
     const stale = (['flag', 'variable'] as const).flatMap((kind) => {
         const section = noteSection(kind);
@@ -408,6 +436,7 @@ function HealthShelf({
         'set-only': setOnly.length,
         'near-identical': pairs.length,
         'orphaned-notes': stale.length,
+        undeclared: undeclared.length,
     };
     const [selectedCategory, setSelectedCategory] =
         useState<HealthCategory>('checked-only');
@@ -461,6 +490,16 @@ function HealthShelf({
             title: 'Orphaned notes',
             description: 'Notes that no longer match a project name.',
         },
+        ...(schema
+            ? [
+                  {
+                      id: 'undeclared' as const,
+                      title: 'Not declared',
+                      description:
+                          'Used in content but missing from variables.yaml.',
+                  },
+              ]
+            : []),
     ];
     const activeIssues =
         activeCategory === 'checked-only'
@@ -538,7 +577,9 @@ function HealthShelf({
                             </div>
                         );
                     })
-                  : null;
+                  : activeCategory === 'undeclared'
+                    ? undeclared.map(issueButton)
+                    : null;
 
     return (
         <section className="health-shelf" aria-label="Name health">
@@ -621,15 +662,23 @@ function SymbolDetail({
     summary,
     notesError,
     notesReadOnly,
+    schema,
     onRename,
     onNoteChange,
+    onDeclarationChange,
     onOpenReference,
 }: {
     summary: NameSummary | null;
     notesError?: string | null;
     notesReadOnly: boolean;
+    schema?: VariableSchema;
     onRename: (kind: FlagVarKind, id: string) => void;
     onNoteChange: (kind: FlagVarKind, id: string, note: string) => void;
+    onDeclarationChange: (
+        kind: FlagVarKind,
+        id: string,
+        declaration: Declaration | undefined
+    ) => void;
     onOpenReference: (reference: Reference) => void;
 }) {
     const [draft, setDraft] = useState('');
@@ -701,6 +750,14 @@ function SymbolDetail({
                 </>
             )}
 
+            <DeclarationEditor
+                key={`${summary.kind}:${summary.id}`}
+                kind={summary.kind}
+                id={summary.id}
+                schema={schema}
+                onChange={onDeclarationChange}
+            />
+
             <div className="flag-var-detail__references">
                 <h3>Uses</h3>
                 {summary.references.length === 0 ? (
@@ -740,3 +797,182 @@ function SymbolDetail({
         </section>
     );
 }
+
+function DeclarationEditor({
+    kind,
+    id,
+    schema,
+    onChange,
+}: {
+    kind: FlagVarKind;
+    id: string;
+    schema?: VariableSchema;
+    onChange: (
+        kind: FlagVarKind,
+        id: string,
+        declaration: Declaration | undefined
+    ) => void;
+}) {
+    const declaration = declarationFor(schema, kind, id);
+    const saved = useMemo(
+        () => declarationDraft(kind, declaration),
+        [kind, declaration]
+    );
+    const [draft, setDraft] = useState<DeclarationDraft>(saved);
+    useEffect(() => setDraft(saved), [saved]);
+    const update = (field: keyof DeclarationDraft, value: string) =>
+        setDraft((current) => ({ ...current, [field]: value }));
+    const changed = JSON.stringify(draft) !== JSON.stringify(saved);
+
+    if (!declaration) {
+        return (
+            <div className="flag-var-detail__declaration">
+                <h3>Declaration</h3>
+                <p>
+                    {schema
+                        ? `${id} is not declared in content/variables.yaml, so validation rejects its uses.`
+                        : 'Declaring a name creates content/variables.yaml. Once it exists, every flag and variable must be declared there.'}
+                </p>
+                <button
+                    className="btn"
+                    onClick={() =>
+                        onChange(
+                            kind,
+                            id,
+                            kind === 'flag' ? {} : { type: 'number' }
+                        )
+                    }
+                >
+                    Declare {kind}
+                </button>
+            </div>
+        );
+    }
+
+    return (
+        <div className="flag-var-detail__declaration">
+            <h3>Declaration</h3>
+            <div className="flag-var-detail__fields">
+                {kind === 'variable' && (
+                    <label className="field">
+                        <span className="field__label">Type</span>
+                        <select
+                            className="dlg__select"
+                            value={draft.type}
+                            onChange={(event) =>
+                                update(
+                                    'type',
+                                    event.target.value as VariableType
+                                )
+                            }
+                        >
+                            <option value="number">Number</option>
+                            <option value="string">Text</option>
+                            <option value="enum">One of a list</option>
+                        </select>
+                    </label>
+                )}
+                {kind === 'flag' ? (
+                    <label className="field">
+                        <span className="field__label">Default</span>
+                        <select
+                            className="dlg__select"
+                            value={draft.default === 'true' ? 'true' : 'false'}
+                            onChange={(event) =>
+                                update('default', event.target.value)
+                            }
+                        >
+                            <option value="false">false</option>
+                            <option value="true">true</option>
+                        </select>
+                    </label>
+                ) : (
+                    <label className="field">
+                        <span className="field__label">Default</span>
+                        <input
+                            className="field__input mono"
+                            value={draft.default}
+                            inputMode={
+                                draft.type === 'number' ? 'decimal' : undefined
+                            }
+                            onChange={(event) =>
+                                update('default', event.target.value)
+                            }
+                        />
+                    </label>
+                )}
+                {kind === 'variable' && draft.type === 'number' && (
+                    <>
+                        <label className="field">
+                            <span className="field__label">Minimum</span>
+                            <input
+                                className="field__input mono"
+                                value={draft.min}
+                                inputMode="decimal"
+                                onChange={(event) =>
+                                    update('min', event.target.value)
+                                }
+                            />
+                        </label>
+                        <label className="field">
+                            <span className="field__label">Maximum</span>
+                            <input
+                                className="field__input mono"
+                                value={draft.max}
+                                inputMode="decimal"
+                                onChange={(event) =>
+                                    update('max', event.target.value)
+                                }
+                            />
+                        </label>
+                    </>
+                )}
+                {kind === 'variable' && draft.type === 'enum' && (
+                    <label className="field">
+                        <span className="field__label">Values</span>
+                        <input
+                            className="field__input mono"
+                            value={draft.values}
+                            placeholder="calm, angry"
+                            onChange={(event) =>
+                                update('values', event.target.value)
+                            }
+                        />
+                    </label>
+                )}
+                <label className="field flag-var-detail__description">
+                    <span className="field__label">Description</span>
+                    <input
+                        className="field__input"
+                        value={draft.description}
+                        onChange={(event) =>
+                            update('description', event.target.value)
+                        }
+                    />
+                </label>
+            </div>
+            <div className="flag-var-detail__declaration-actions">
+                {changed && (
+                    <button
+                        className="btn btn--accent"
+                        onClick={() =>
+                            onChange(
+                                kind,
+                                id,
+                                declarationFromDraft(kind, draft)
+                            )
+                        }
+                    >
+                        Save declaration
+                    </button>
+                )}
+                <button
+                    className="btn"
+                    onClick={() => onChange(kind, id, undefined)}
+                >
+                    <Trash2 size={14} /> Remove declaration
+                </button>
+            </div>
+        </div>
+    );
+}
@@ -70,6 +70,7 @@ export function GameConfigForm({
         'subtitle',
         'author',
         'playerCreatesProfile',
+        'allowRewind',
         'startLocation',
         'startTime',
         'startFlags',
@@ -286,6 +287,18 @@ export function GameConfigForm({
                         Ask the player to create a profile
                     </span>
                 </label>
+                <label className="field field--inline">
+                    <input
+                        type="checkbox"
+                        checked={config.allowRewind === true}
+                        onChange={(event) =>
+                            set('allowRewind', event.target.checked)
+                        }
+                    />
+                    <span className="field__label">
+                        Let players take back choices with Back
+                    </span>
+                </label>
                 <div className="game-config__starting-grid">
                     <label className="field">
                         <span className="field__label">Location</span>
@@ -1,6 +1,7 @@
 import { useEffect, useMemo, useState } from 'react';
 import type { OpenProject } from '../../../shared/project';
 import { Plus, Search, X } from '../lib/icons';
+import { messagePreview } from '../lib/message-preview';
 import {
     LocaleWriterBoundary,
     localeDirty,
@@ -168,19 +169,26 @@ function LocaleEditorInner({
                         <span className="locale-editor__key mono" title={key}>
                             {key}
                         </span>
-                        <textarea
-                            className="dlg__input locale-editor__value prose-input"
-                            value={value}
-                            rows={3}
-                            aria-label={`${key} translation`}
-                            onChange={(event) =>
-                                writer?.setValue(
-                                    localeId,
-                                    key,
-                                    event.target.value
-                                )
-                            }
-                        />
+                        <div className="locale-editor__cell">
+                            <textarea
+                                className="dlg__input locale-editor__value prose-input"
+                                value={value}
+                                rows={3}
+                                aria-label={`${key} translation`}
+                                onChange={(event) =>
+                                    writer?.setValue(
+                                        localeId,
+                                        key,
+                                        event.target.value
+                                    )
+                                }
+                            />
+                            <MessagePreviewList
+                                text={value}
+                                localeId={localeId}
+                                messageKey={key}
+                            />
+                        </div>
                         <button
                             type="button"
                             className="dlg__x locale-editor__delete"
@@ -214,3 +222,38 @@ function LocaleEditorInner({
         </div>
     );
 }
+
+/** Sample renderings of a plural or select message, or why it is broken. */
+function MessagePreviewList({
+    text,
+    localeId,
+    messageKey,
+}: {
+    text: string;
+    localeId: string;
+    messageKey: string;
+}) {
+    const preview = useMemo(
+        () => messagePreview(text, localeId),
+        [text, localeId]
+    );
+    if (!preview) return null;
+    if (preview.error) {
+        return <span className="field__error">{preview.error}</span>;
+    }
+    return (
+        <ul
+            className="locale-editor__preview"
+            aria-label={`${messageKey} preview`}
+        >
+            {preview.examples.map((example) => (
+                <li key={example.values}>
+                    <span className="locale-editor__preview-values mono">
+                        {example.values}
+                    </span>
+                    <span>{example.text}</span>
+                </li>
+            ))}
+        </ul>
+    );
+}
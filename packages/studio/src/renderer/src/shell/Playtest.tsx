@@ -1,11 +1,14 @@
 /**
  * The playtest panel: runs the real engine over the loaded project and shows
  * its truth — the current node, every choice (available or hidden with the
- * reason), an editable state inspector, and a debug trace.
+ * reason), an editable state inspector, a debug trace, and the @keys the
+ * current locale is missing.
  *
- * The engine runs in-process from the loaded registry and config; nothing here
- * touches project files. State edits go through the engine's debug-effect path,
- * so they behave exactly like in-game effects.
+ * The engine runs in-process from the loaded registry and config. The only
+ * project file it writes is the story coverage in metadata/coverage.json,
+ * which records the nodes, choices, branches and interludes each playtest
+ * reaches. State edits go through the engine's debug-effect path, so they
+ * behave exactly like in-game effects.
  */
 import {
     Fragment,
@@ -22,10 +25,12 @@ import {
     getQuestStatus,
     type ContentRegistry,
     type GameConfig,
+    type MissingLocaleKey,
     type RichTextSegment,
 } from '@doodle-engine/core';
 import type { OpenProject } from '../../../shared/project';
 import { PlaytestSession, reloadSession } from '../lib/playtest';
+import { recordPlaytestCoverage } from '../lib/useStoryCoverage';
 import { useTestStates } from '../lib/useTestStates';
 import { DebugTrace } from './DebugTrace';
 import { StartNodePicker, type NodeTarget } from './StartNodePicker';
@@ -33,7 +38,27 @@ import { NameStateModal } from './NameStateModal';
 import { ResizeHandle } from './ResizeHandle';
 import { usePersistedSize } from '../lib/usePersistedSize';
 
-type InnerTab = 'playtest' | 'trace';
+type InnerTab = 'playtest' | 'trace' | 'missing';
+
+/** How long the playtest sits idle before what it reached is recorded. */
+const COVERAGE_DELAY_MS = 2000;
+
+/** Record what a session has reached since it was last recorded. */
+function recordCoverage(session: PlaytestSession): void {
+    const coverage = session.takeCoverage();
+    if (!coverage || !session.projectKey) return;
+    recordPlaytestCoverage(session.projectKey, coverage).catch(
+        (error: unknown) => {
+            const failure =
+                error instanceof Error ? error : new Error(String(error));
+            window.studio.reportError({
+                context: 'playtest:recordCoverage',
+                message: failure.message,
+                stack: failure.stack,
+            });
+        }
+    );
+}
 
 export function Playtest({
     project,
@@ -65,6 +90,11 @@ export function Playtest({
         builtFrom.current?.config !== project.config
     ) {
         const prev = sessionRef.current;
+        // A different project starts a fresh session; what this one reached
+        // belongs to the project it was playing.
+        if (prev && prev.projectKey !== project.projectDir) {
+            recordCoverage(prev);
+        }
         sessionRef.current =
             prev && prev.projectKey === project.projectDir
                 ? reloadSession(
@@ -113,6 +143,22 @@ export function Playtest({
         refresh();
     }, [startRequest, session, refresh]);
 
+    // Record coverage once the tester pauses, and whatever is left when the
+    // panel closes, rather than writing the file on every click.
+    useEffect(() => {
+        const timer = window.setTimeout(
+            () => recordCoverage(session),
+            COVERAGE_DELAY_MS
+        );
+        return () => window.clearTimeout(timer);
+    });
+    useEffect(
+        () => () => {
+            if (sessionRef.current) recordCoverage(sessionRef.current);
+        },
+        []
+    );
+
     const act = useCallback(
         (fn: () => void) => {
             fn();
@@ -138,6 +184,7 @@ export function Playtest({
     );
 
     const hasDialogues = Object.keys(project.registry.dialogues).length > 0;
+    const missingKeys = session.getMissingKeys();
     const currentLocale = session.getState().currentLocale;
     const localeIds = Object.keys(project.registry.locales).sort();
     const [inspectorWidth, setInspectorWidth] = usePersistedSize(
@@ -166,6 +213,14 @@ export function Playtest({
                 >
                     Restart
                 </button>
+                <button
+                    className="btn"
+                    onClick={() => act(() => session.rewind())}
+                    disabled={!session.canRewind()}
+                    title="Take back the last choice or Continue"
+                >
+                    Back
+                </button>
                 {localeIds.length > 0 && (
                     <label className="playtest__field">
                         <span>Locale</span>
@@ -229,6 +284,15 @@ export function Playtest({
                     active={tab === 'trace'}
                     onClick={() => setTab('trace')}
                 />
+                <InnerTabButton
+                    label={
+                        missingKeys.length > 0
+                            ? `Missing keys (${missingKeys.length})`
+                            : 'Missing keys'
+                    }
+                    active={tab === 'missing'}
+                    onClick={() => setTab('missing')}
+                />
             </div>
 
             {tab === 'playtest' && (
@@ -257,6 +321,7 @@ export function Playtest({
                 </div>
             )}
             {tab === 'trace' && <DebugTrace trace={session.getTrace()} />}
+            {tab === 'missing' && <MissingKeyList keys={missingKeys} />}
 
             {picking && (
                 <StartNodePicker
@@ -459,7 +524,11 @@ function StateInspector({
                 )}
                 {state.inventory.map((itemId) => (
                     <div key={itemId} className="irow">
-                        <span className="irow__key mono">{itemId}</span>
+                        <span className="irow__key mono">
+                            {itemId}
+                            {(state.itemCounts?.[itemId] ?? 1) > 1 &&
+                                ` ×${state.itemCounts?.[itemId]}`}
+                        </span>
                         <button
                             className="ilink"
                             onClick={() =>
@@ -632,6 +701,35 @@ function KeyTag({ k }: { k: string }) {
     );
 }
 
+/** The @keys players would see untranslated, with where each one was shown. */
+function MissingKeyList({ keys }: { keys: readonly MissingLocaleKey[] }) {
+    return (
+        <div className="trace">
+            <div className="trace__log scroll">
+                {keys.length === 0 ? (
+                    <div className="dock__empty">
+                        Every key shown so far has text in this locale or its
+                        fallbacks.
+                    </div>
+                ) : (
+                    keys.map((missing, index) => (
+                        <div key={index} className="trace__row">
+                            <span className="trace__kind trace__kind--missingKey">
+                                @{missing.key}
+                            </span>
+                            <span className="trace__text">
+                                {missing.locale}
+                                {missing.dialogueId &&
+                                    ` · ${missing.dialogueId} › ${missing.nodeId}`}
+                            </span>
+                        </div>
+                    ))
+                )}
+            </div>
+        </div>
+    );
+}
+
 function InnerTabButton({
     label,
     active,
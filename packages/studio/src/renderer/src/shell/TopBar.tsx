@@ -45,7 +45,10 @@ export function TopBar({
     symbolCount: number;
     onOpenSymbols: () => void;
 }) {
-    const count = project.problems.length;
+    const count = project.problems.filter(
+        (problem) => problem.severity !== 'warning'
+    ).length;
+    const warningCount = project.problems.length - count;
     const buildShortcut = navigator.platform.startsWith('Mac')
         ? '⌘⇧B'
         : 'Ctrl Shift B';
@@ -63,7 +66,13 @@ export function TopBar({
                   label: `${count} problem${count === 1 ? '' : 's'}`,
                   spin: false,
               }
-            : { cls: 'status--valid', label: 'All valid', spin: false };
+            : warningCount > 0
+              ? {
+                    cls: 'status--warn',
+                    label: `${warningCount} warning${warningCount === 1 ? '' : 's'}`,
+                    spin: false,
+                }
+              : { cls: 'status--valid', label: 'All valid', spin: false };
 
     return (
         <header className="topbar">
@@ -85,6 +85,76 @@ describe('DebugTrace', () => {
         expect(view.container.querySelector('.trace__row--node')).toBeTruthy();
     });
 
+    it('describes an item use and whether any use applied', () => {
+        render(
+            <DebugTrace
+                trace={[
+                    {
+                        kind: 'itemUse',
+                        seq: 1,
+                        itemId: 'letter',
+                        targetId: 'guard',
+                        useId: 'show',
+                    },
+                    {
+                        kind: 'itemUse',
+                        seq: 2,
+                        itemId: 'potion',
+                        targetId: null,
+                        useId: null,
+                    },
+                ]}
+            />
+        );
+
+        const [shown, refused] = screen
+            .getAllByText('USE')
+            .map((tag) => tag.parentElement!);
+        expect(shown.textContent).toContain('letter on guard: show');
+        expect(within(shown).getByText('PASS')).toBeTruthy();
+        expect(refused.textContent).toContain('potion: no use applied');
+        expect(within(refused).getByText('FAIL')).toBeTruthy();
+    });
+
+    it('names the dialogue a CALL or RETURN moved to', () => {
+        render(
+            <DebugTrace
+                trace={[
+                    {
+                        kind: 'transition',
+                        seq: 1,
+                        dialogueId: 'merchant',
+                        fromNode: 'hub',
+                        toNode: 'start',
+                        via: 'call',
+                        toDialogue: 'rumours',
+                    },
+                    {
+                        kind: 'transition',
+                        seq: 2,
+                        dialogueId: 'rumours',
+                        fromNode: 'done',
+                        toNode: 'hub',
+                        via: 'return',
+                        toDialogue: 'merchant',
+                    },
+                ]}
+            />
+        );
+
+        const [called, returned] = screen
+            .getAllByText('TRANSITION')
+            .map((tag) => tag.parentElement!);
+        expect(within(called).getByText('rumours.start')).toBeTruthy();
+        expect(
+            within(called)
+                .getByText('CALL')
+                .classList.contains('trace__tok--keyword')
+        ).toBe(true);
+        expect(within(returned).getByText('merchant.hub')).toBeTruthy();
+        expect(within(returned).getByText('RETURN')).toBeTruthy();
+    });
+
     it('filters by kind and searches displayed descriptions', async () => {
         const user = userEvent.setup();
         render(<DebugTrace trace={trace} />);
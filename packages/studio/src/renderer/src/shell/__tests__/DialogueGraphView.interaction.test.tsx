@@ -59,7 +59,10 @@ function installBridge(content = source) {
     });
 }
 
-function renderGraph(selectedNodeId: string | null = null) {
+function renderGraph(
+    selectedNodeId: string | null = null,
+    showCoverage = false
+) {
     const onSelectNode = vi.fn();
     const onOpenNode = vi.fn();
     render(
@@ -70,6 +73,7 @@ function renderGraph(selectedNodeId: string | null = null) {
             selectedNodeId={selectedNodeId}
             onSelectNode={onSelectNode}
             onOpenNode={onOpenNode}
+            showCoverage={showCoverage}
         />
     );
     return { onSelectNode, onOpenNode };
@@ -115,6 +119,37 @@ describe('DialogueGraphView', () => {
         expect(screen.getByText('No node has this id')).toBeTruthy();
     });
 
+    it('draws a CALL to a box for the called dialogue and marks RETURN', async () => {
+        installBridge(`NODE start
+  NARRATOR: Anything new?
+  CHOICE Rumours
+    CALL rumours.gossip
+    GOTO start
+  END
+  CHOICE Back
+    RETURN
+  END
+`);
+        const user = userEvent.setup();
+        const { onSelectNode } = renderGraph();
+
+        await findNode('start');
+        const call = screen.getByText('CALL rumours.gossip');
+        expect(call.closest('.graph__row--call')).toBeTruthy();
+        expect(document.querySelector('.graph__edge--call')).toBeTruthy();
+        const box = document.querySelector('.graph__node--call')!;
+        expect(box.textContent).toContain('rumours');
+        expect(box.textContent).toContain('Starts at gossip');
+        // The other dialogue's box is not a node of this one.
+        await user.click(box);
+        expect(onSelectNode).not.toHaveBeenCalled();
+
+        const back = screen.getByText('Back').closest('.graph__row')!;
+        expect(back.querySelector('.graph__chip--end')?.textContent).toBe(
+            'RETURN'
+        );
+    });
+
     it('selects a node on click but not after a drag', async () => {
         installBridge();
         const user = userEvent.setup();
@@ -219,6 +254,71 @@ describe('DialogueGraphView', () => {
         ).not.toBe(scaleAfterDrag);
     });
 
+    it('shades the nodes recorded coverage never reached', async () => {
+        installBridge();
+        const readCoverage = vi.fn(async () => ({
+            status: 'available',
+            coverage: {
+                version: 1,
+                sessions: 2,
+                dialogues: {
+                    audit: {
+                        nodes: { start: 3, topic: 1 },
+                        choices: {},
+                        branches: {},
+                    },
+                },
+                interludes: {},
+            },
+        }));
+        Object.assign(window.studio, { readCoverage });
+        renderGraph(null, true);
+
+        expect(
+            await screen.findByText(
+                '2 of 3 nodes visited (66%) across 2 sessions. Shaded nodes were never visited.'
+            )
+        ).toBeTruthy();
+        expect(readCoverage).toHaveBeenCalledWith('C:/games/test');
+        expect((await findNode('island')).getAttribute('class')).toContain(
+            'graph__node--unvisited'
+        );
+        expect((await findNode('start')).getAttribute('class')).not.toContain(
+            'graph__node--unvisited'
+        );
+        // The ghost for a missing GOTO target is not a node to visit.
+        expect(
+            (await findNode('missing_node')).getAttribute('class')
+        ).not.toContain('graph__node--unvisited');
+    });
+
+    it('leaves coverage alone until the overlay is on, and says when there is none', async () => {
+        installBridge();
+        const readCoverage = vi.fn(async () => ({
+            status: 'available',
+            coverage: {
+                version: 1,
+                sessions: 0,
+                dialogues: {},
+                interludes: {},
+            },
+        }));
+        Object.assign(window.studio, { readCoverage });
+
+        renderGraph();
+        await findNode('island');
+        expect(readCoverage).not.toHaveBeenCalled();
+        cleanup();
+
+        renderGraph(null, true);
+        expect(
+            await screen.findByText(/No coverage recorded yet/)
+        ).toBeTruthy();
+        expect((await findNode('island')).getAttribute('class')).toContain(
+            'graph__node--unvisited'
+        );
+    });
+
     it('guides the author to Source when the dialogue cannot be parsed', async () => {
         installBridge('NODE start\n  this is not valid dialogue syntax\n');
         renderGraph();
@@ -343,6 +343,73 @@ stages:
         );
     });
 
+    it('adds, edits, reorders, and removes character schedule entries', async () => {
+        const writeEntity = vi.fn<StudioApi['writeEntity']>(async () => ({
+            ok: true,
+            conflict: false,
+            mtimeMs: 2,
+        }));
+        installBridge(
+            `id: greta
+name: Greta
+location: town
+schedule:
+  - location: market
+    startHour: 8
+    endHour: 18
+`,
+            writeEntity
+        );
+        const user = userEvent.setup();
+        const { unmount } = editor('characters');
+        await screen.findByText('greta');
+        expect(screen.queryByText('Other fields in this file')).toBeNull();
+
+        fireEvent.change(screen.getByTitle('Until hour (0-23)'), {
+            target: { value: '17' },
+        });
+        await user.type(
+            screen.getByTitle('Days (comma-separated day numbers)'),
+            '1, 2'
+        );
+        await user.click(
+            screen.getByRole('button', { name: /Add schedule entry/ })
+        );
+        await user.selectOptions(
+            screen.getAllByDisplayValue('(location)')[0],
+            'town'
+        );
+        await user.type(
+            screen.getAllByTitle('Weekdays (comma-separated weekday IDs)')[1],
+            'rest'
+        );
+        await user.click(screen.getAllByRole('button', { name: 'Move up' })[1]);
+        await user.click(
+            screen.getAllByRole('button', { name: 'Remove schedule entry' })[1]
+        );
+
+        unmount();
+        await waitFor(() => expect(writeEntity).toHaveBeenCalledOnce());
+        expect(writeEntity).toHaveBeenCalledWith(
+            'C:/story',
+            'content/characters/entry.yaml',
+            [
+                {
+                    path: ['schedule'],
+                    value: [
+                        {
+                            location: 'town',
+                            startHour: 9,
+                            endHour: 17,
+                            weekdays: ['rest'],
+                        },
+                    ],
+                },
+            ],
+            1
+        );
+    });
+
     it('adds, edits, preserves missing, and removes map markers', async () => {
         installBridge(`id: world
 name: World
@@ -5,10 +5,11 @@ import { cleanup, render, screen, within } from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import { afterEach, describe, expect, it, vi } from 'vitest';
 import type { FlagVarNotes } from '../../../../shared/project';
-import type { Reference } from '@doodle-engine/core';
+import type { Reference, VariableSchema } from '@doodle-engine/core';
 import {
     attachFlagVarNotes,
     type BaseFlagVarSummary,
+    type Declaration,
     type FlagVarKind,
     type NameCatalog,
 } from '../../lib/flag-vars';
@@ -74,14 +75,17 @@ function Harness({
         flags: { metGude: 'Stale guide note.' },
         variables: { gold: 'Current coins.' },
     },
+    initialSchema,
 }: {
     onRename: (kind: FlagVarKind, id: string) => void;
     onOpenReference: (reference: Reference) => void;
     notesError?: string | null;
     summaries?: BaseFlagVarSummary[];
     initialNotes?: FlagVarNotes;
+    initialSchema?: VariableSchema;
 }) {
     const [notes, setNotes] = useState<FlagVarNotes>(initialNotes);
+    const [schema, setSchema] = useState(initialSchema);
     const [selected, setSelected] = useState<FlagVarSelection | null>(null);
     const named = useMemo(
         () => attachFlagVarNotes(summaries, notes),
@@ -108,16 +112,32 @@ function Harness({
             return { ...current, [section]: values };
         });
     };
+    const updateDeclaration = (
+        kind: FlagVarKind,
+        id: string,
+        declaration: Declaration | undefined
+    ) => {
+        const section = kind === 'flag' ? 'flags' : 'variables';
+        setSchema((current) => {
+            const next = current ?? { flags: {}, variables: {} };
+            const values: Record<string, Declaration> = { ...next[section] };
+            if (declaration) values[id] = declaration;
+            else delete values[id];
+            return { ...next, [section]: values };
+        });
+    };
     return (
         <FlagsVariablesPage
             catalog={catalog}
             notes={notes}
             notesError={notesError}
+            schema={schema}
             selected={selected}
             onSelect={setSelected}
             onRename={onRename}
             onNoteChange={updateNote}
             onNoteMove={moveNote}
+            onDeclarationChange={updateDeclaration}
             onOpenReference={onOpenReference}
         />
     );
@@ -329,4 +349,59 @@ describe('FlagsVariablesPage', () => {
         );
         expect(screen.queryByText('metGude')).toBeNull();
     });
+
+    it('declares, edits, and removes a variable in variables.yaml', async () => {
+        const user = userEvent.setup();
+        render(
+            <Harness
+                onRename={vi.fn()}
+                onOpenReference={vi.fn()}
+                initialSchema={{ flags: { metGuide: {} }, variables: {} }}
+            />
+        );
+
+        const health = screen.getByRole('region', { name: 'Name health' });
+        await user.click(
+            within(health).getByRole('button', { name: /Not declared/ })
+        );
+        await user.click(within(health).getByRole('button', { name: /gold/ }));
+        expect(
+            screen.getByText(
+                'gold is not declared in content/variables.yaml, so validation rejects its uses.'
+            )
+        ).toBeTruthy();
+
+        await user.click(
+            screen.getByRole('button', { name: 'Declare variable' })
+        );
+        expect(
+            (
+                screen.getByRole('combobox', {
+                    name: 'Type',
+                }) as HTMLSelectElement
+            ).value
+        ).toBe('number');
+        await user.type(screen.getByRole('textbox', { name: 'Minimum' }), '0');
+        await user.type(screen.getByRole('textbox', { name: 'Default' }), '5');
+        await user.click(
+            screen.getByRole('button', { name: 'Save declaration' })
+        );
+        expect(
+            screen.queryByRole('button', { name: 'Save declaration' })
+        ).toBeNull();
+        expect(
+            (
+                screen.getByRole('textbox', {
+                    name: 'Minimum',
+                }) as HTMLInputElement
+            ).value
+        ).toBe('0');
+
+        await user.click(
+            screen.getByRole('button', { name: /Remove declaration/ })
+        );
+        expect(
+            screen.getByRole('button', { name: 'Declare variable' })
+        ).toBeTruthy();
+    });
 });
@@ -218,6 +218,11 @@ describe('GameConfigForm author journeys', () => {
                 name: 'Ask the player to create a profile',
             })
         );
+        await user.click(
+            screen.getByRole('checkbox', {
+                name: 'Let players take back choices with Back',
+            })
+        );
         const day = screen.getByLabelText('Day');
         await user.clear(day);
         await user.type(day, '2');
@@ -245,6 +250,7 @@ describe('GameConfigForm author journeys', () => {
             'game.yaml',
             [
                 { path: ['playerCreatesProfile'], value: true },
+                { path: ['allowRewind'], value: true },
                 { path: ['startLocation'], value: 'market' },
                 { path: ['startTime'], value: { day: 2, hour: 8 } },
                 { path: ['startFlags'], value: { introSeen: true } },
@@ -1,7 +1,13 @@
 // @vitest-environment jsdom
 
 import { afterEach, describe, expect, it, vi } from 'vitest';
-import { cleanup, render, screen, waitFor } from '@testing-library/react';
+import {
+    cleanup,
+    render,
+    screen,
+    waitFor,
+    within,
+} from '@testing-library/react';
 import userEvent from '@testing-library/user-event';
 import type { OpenProject, StudioApi } from '../../../../shared/project';
 import { LocaleEditor } from '../LocaleEditor';
@@ -167,4 +173,53 @@ describe('LocaleEditor', () => {
         expect(screen.getByText('ui.map')).toBeTruthy();
         expect(screen.queryByText('bartender.greeting')).toBeNull();
     });
+
+    it('previews plural messages in the locale plural rules', async () => {
+        Object.defineProperty(window, 'studio', {
+            configurable: true,
+            value: {
+                readDocument: vi.fn(async () => ({
+                    content: [
+                        'coins: "{gold, plural, one {# jabłko} few {# jabłka} many {# jabłek} other {# jabłka}}"',
+                        'broken: "{gold, plural, one {# jabłko}}"',
+                        '',
+                    ].join('\n'),
+                    mtimeMs: 1,
+                })),
+                writeEntity: vi.fn(),
+            },
+        });
+        render(
+            <LocaleEditor
+                project={
+                    {
+                        projectDir: 'C:/story',
+                        registry: { locales: { pl: {} } },
+                    } as unknown as OpenProject
+                }
+                tabKey="locales:pl"
+                path="content/locales/pl.yaml"
+                localeId="pl"
+                onDirty={vi.fn()}
+                onModified={vi.fn()}
+            />
+        );
+
+        const preview = await screen.findByRole('list', {
+            name: 'coins preview',
+        });
+        expect(
+            within(preview)
+                .getAllByRole('listitem')
+                .map((item) => item.textContent)
+        ).toEqual([
+            'gold = 11 jabłko',
+            'gold = 22 jabłka',
+            'gold = 00 jabłek',
+            'gold = 1.51.5 jabłka',
+        ]);
+        expect(
+            screen.getByText('"gold" plural needs an "other" branch')
+        ).toBeTruthy();
+    });
 });
@@ -267,4 +267,37 @@ describe('Playtest author journeys', () => {
             screen.queryByText(/No matching trace|No trace rows/i)
         ).toBeNull();
     });
+
+    it('lists the keys a locale is missing, with the node that showed them', async () => {
+        const user = userEvent.setup();
+        render(
+            <Playtest
+                project={{
+                    ...project,
+                    registry: {
+                        ...project.registry,
+                        locales: { ...project.registry.locales, de: {} },
+                    },
+                }}
+            />
+        );
+
+        await user.click(screen.getByRole('button', { name: 'Missing keys' }));
+        expect(screen.getByText(/Every key shown so far/)).toBeTruthy();
+
+        await user.selectOptions(
+            screen.getByLabelText('Playtest locale'),
+            'de'
+        );
+        await user.click(screen.getByRole('button', { name: /Start at node/ }));
+        await user.click(
+            document.querySelector('.nodepick__node') as HTMLButtonElement
+        );
+
+        await user.click(
+            screen.getByRole('button', { name: 'Missing keys (1)' })
+        );
+        expect(screen.getByText('@door.welcome')).toBeTruthy();
+        expect(screen.getByText('de · door › start')).toBeTruthy();
+    });
 });
@@ -66,6 +66,21 @@ describe('TopBar', () => {
         expect(onValidate).toHaveBeenCalledOnce();
     });
 
+    it('shows warnings apart from problems in the status', () => {
+        const warning = { file: 'a.dlg', message: 'm', severity: 'warning' };
+        renderBar({ project: { ...project, problems: [warning, warning] } });
+        expect(screen.getByText('2 warnings')).toBeTruthy();
+        cleanup();
+
+        renderBar({
+            project: {
+                ...project,
+                problems: [warning, { file: 'b.dlg', message: 'm' }],
+            },
+        });
+        expect(screen.getByText('1 problem')).toBeTruthy();
+    });
+
     it('opens flags and variables from the palette-grouped nav, with a count', async () => {
         const user = userEvent.setup();
         const { onOpenSymbols } = renderBar({ symbolCount: 214 });
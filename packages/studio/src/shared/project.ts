@@ -10,8 +10,10 @@ import type {
     AssetCategory,
     ContentRegistry,
     GameConfig,
+    StoryCoverage,
 } from '@doodle-engine/core';
 import type {
+    LocaleExtraction,
     RendererTemplate,
     RendererThemeInfo,
     SwitchRendererThemeResult,
@@ -145,6 +147,10 @@ export interface StudioThemeSwitchResult extends SwitchRendererThemeResult {
     project: OpenProject;
 }
 
+export interface StudioLocaleExtraction extends LocaleExtraction {
+    project: OpenProject;
+}
+
 /** An entry in the recent-projects list. */
 export interface RecentProject {
     /** Absolute path to the project root. */
@@ -236,6 +242,11 @@ export type FlagVarNotesReadResult =
     | { status: 'available'; notes: FlagVarNotes }
     | { status: 'unavailable'; message: string };
 
+/** The project's story coverage, or why its coverage file can't be read. */
+export type CoverageReadResult =
+    | { status: 'available'; coverage: StoryCoverage }
+    | { status: 'unavailable'; message: string };
+
 /** Result of a save attempt. */
 export interface WriteResult {
     /** True when the file was written. */
@@ -314,6 +325,8 @@ export interface StudioApi {
         projectDir: string,
         template: RendererTemplate
     ) => Promise<StudioThemeSwitchResult>;
+    /** Move inline text into generated keys in the source locale. */
+    extractLocaleKeys: (projectDir: string) => Promise<StudioLocaleExtraction>;
     /** Read optional flag and variable notes from project metadata. */
     readFlagVarNotes: (projectDir: string) => Promise<FlagVarNotesReadResult>;
     /** Re-read notes, change one entry, and return the authoritative result. */
@@ -330,6 +343,13 @@ export interface StudioApi {
         from: string,
         to: string
     ) => Promise<FlagVarNotes>;
+    /** Read the story coverage playtests and playthrough runs recorded. */
+    readCoverage: (projectDir: string) => Promise<CoverageReadResult>;
+    /** Add one playtest's coverage to the project's coverage file. */
+    recordCoverage: (
+        projectDir: string,
+        coverage: StoryCoverage
+    ) => Promise<StoryCoverage>;
     /** Read a project file's text and its modified time. */
     readDocument: (
         projectDir: string,
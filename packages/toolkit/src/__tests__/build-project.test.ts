@@ -18,6 +18,8 @@ import { afterEach, describe, expect, it } from 'vitest';
 import { parse as parseYaml } from 'yaml';
 import { buildProject, copyProjectAssets } from '../build-project';
 import { createProject } from '../create-project';
+import { loadProject } from '../load-project';
+import { blockingErrors, validateContent } from '../validate';
 
 const tempDirs: string[] = [];
 
@@ -215,6 +217,41 @@ describe('buildProject success', () => {
             access(join(result.outDir, 'sw.js'))
         ).resolves.toBeUndefined();
     }, 60_000);
+
+    it('validates and builds a project whose dialogue analysis finds only warnings', async () => {
+        const targetDir = await makeRepoTempDir();
+        const { projectPath } = await createProject('warned-game', {
+            targetDir,
+            title: 'Warned Game',
+            useDefaultRenderer: false,
+            rendererTemplate: 'minimal',
+            localizationMode: 'literal',
+        });
+        await writeFile(
+            join(projectPath, 'content', 'dialogues', 'lost.dlg'),
+            'NODE start\n  NARRATOR: Hello.\n\nNODE forgotten\n  NARRATOR: Nobody hears this.\n'
+        );
+
+        const { registry, fileMap, config, parseErrors } =
+            await loadProject(projectPath);
+        const problems = [
+            ...parseErrors,
+            ...validateContent(registry, fileMap, config),
+        ];
+        expect(problems.map((problem) => problem.message)).toContain(
+            'Node "forgotten" is never reached: no route from the start leads to it'
+        );
+        expect(blockingErrors(problems)).toEqual([]);
+
+        const result = await buildProject({
+            projectDir: projectPath,
+            engineSourceRoot: join(packageRoot, '..', '..'),
+        });
+
+        expect(result.ok, result.errors.map((e) => e.message).join('; ')).toBe(
+            true
+        );
+    }, 60_000);
 });
 
 describe('copyProjectAssets', () => {
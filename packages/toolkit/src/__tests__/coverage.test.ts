@@ -0,0 +1,122 @@
+/**
+ * Tests for the project's coverage file: reading it, adding sessions to it,
+ * and comparing it with the project's content.
+ */
+
+import { afterEach, describe, expect, it } from 'vitest';
+import { mkdtemp, mkdir, readFile, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join, dirname } from 'path';
+import { emptyCoverage } from '@doodle-engine/core';
+import type { StoryCoverage } from '@doodle-engine/core';
+import {
+    COVERAGE_FILE,
+    coverageReport,
+    readCoverage,
+    recordCoverage,
+} from '../coverage';
+
+let dir: string | null = null;
+
+afterEach(async () => {
+    if (dir) await rm(dir, { recursive: true, force: true });
+    dir = null;
+});
+
+async function makeProject(files: Record<string, string>): Promise<string> {
+    dir = await mkdtemp(join(tmpdir(), 'doodle-'));
+    for (const [rel, content] of Object.entries(files)) {
+        const full = join(dir, rel);
+        await mkdir(dirname(full), { recursive: true });
+        await writeFile(full, content);
+    }
+    return dir;
+}
+
+const CONTENT = {
+    'content/game.yaml': `startLocation: tavern
+startTime: { day: 1, hour: 8 }
+startFlags: {}
+startVariables: {}
+startInventory: []
+`,
+    'content/locations/tavern.yaml':
+        'id: tavern\nname: Tavern\ndescription: Warm.\n',
+    'content/dialogues/bartender.dlg': `NODE start
+  BARTENDER: What'll it be?
+  GOTO bye
+
+NODE secret
+  BARTENDER: Psst.
+
+NODE bye
+  BARTENDER: Off you go.
+`,
+};
+
+function session(nodes: Record<string, number>): StoryCoverage {
+    return {
+        ...emptyCoverage(),
+        sessions: 1,
+        dialogues: { bartender: { nodes, choices: {}, branches: {} } },
+    };
+}
+
+describe('coverage file', () => {
+    it('reads as empty before anything was recorded', async () => {
+        const project = await makeProject({});
+        await expect(readCoverage(project)).resolves.toEqual(emptyCoverage());
+    });
+
+    it('adds each recorded session to the file', async () => {
+        const project = await makeProject({});
+        await recordCoverage(project, session({ start: 1 }));
+        const merged = await recordCoverage(
+            project,
+            session({ start: 1, bye: 1 })
+        );
+
+        expect(merged.sessions).toBe(2);
+        expect(merged.dialogues.bartender.nodes).toEqual({ start: 2, bye: 1 });
+        const written = await readFile(join(project, COVERAGE_FILE), 'utf-8');
+        expect(JSON.parse(written)).toEqual(merged);
+    });
+
+    it('refuses a file that does not hold coverage instead of replacing it', async () => {
+        const project = await makeProject({ [COVERAGE_FILE]: '{"nodes": 1}' });
+        await expect(
+            recordCoverage(project, session({ start: 1 }))
+        ).rejects.toThrow(`${COVERAGE_FILE}: Coverage file does not hold`);
+        expect(await readFile(join(project, COVERAGE_FILE), 'utf-8')).toBe(
+            '{"nodes": 1}'
+        );
+    });
+
+    it('compares the file with the content', async () => {
+        const project = await makeProject(CONTENT);
+        await recordCoverage(project, session({ start: 1, bye: 1 }));
+
+        const { summary, errors } = await coverageReport(project);
+
+        expect(errors).toEqual([]);
+        expect(summary?.dialogues).toEqual([
+            {
+                dialogueId: 'bartender',
+                nodes: { visited: 2, total: 3 },
+                choices: { visited: 0, total: 0 },
+                branches: { visited: 0, total: 0 },
+                unvisitedNodes: ['secret'],
+            },
+        ]);
+    });
+
+    it('reports content that does not load', async () => {
+        const project = await makeProject({
+            ...CONTENT,
+            'content/dialogues/broken.dlg': 'NODE start\n  BADKEYWORD foo\n',
+        });
+        const { summary, errors } = await coverageReport(project);
+        expect(summary).toBeNull();
+        expect(errors[0].file).toContain('broken.dlg');
+    });
+});
@@ -100,6 +100,9 @@ describe('createProject language setup', () => {
             expect(packageJson.scripts.theme).toBe('doodle-engine theme');
             expect(packageJson.scripts.dev).toBe('doodle-engine dev');
             expect(packageJson.scripts.build).toBe('doodle-engine build');
+            expect(packageJson.scripts.test).toBe('doodle-engine test');
+            expect(packageJson.scripts.coverage).toBe('doodle-engine coverage');
+            expect(packageJson.scripts.locale).toBe('doodle-engine locale');
             expect(packageJson.doodleEngine).toEqual({
                 renderer: 'default',
                 rendererTemplate,
@@ -199,7 +202,7 @@ describe('createProject language setup', () => {
             'utf-8'
         );
         expect(parseYaml(localeSource)).toBeNull();
-        expect(localeSource).toContain('To localize a string later:');
+        expect(localeSource).toContain('npm run locale -- extract');
         await expect(
             readFile(
                 join(projectPath, 'content', 'locales', 'sv.yaml'),
@@ -0,0 +1,359 @@
+/**
+ * Tests for the dialogue state-space analysis.
+ */
+
+import { describe, expect, it } from 'vitest';
+import type { ContentRegistry, GameConfig } from '@doodle-engine/core';
+import { parseDialogue } from '@doodle-engine/core';
+import { analyzeDialogues } from '../dialogue-analysis';
+
+function makeRegistry(
+    overrides: Partial<ContentRegistry> = {}
+): ContentRegistry {
+    return {
+        locations: {},
+        characters: {},
+        items: {},
+        maps: {},
+        dialogues: {},
+        quests: {},
+        journalEntries: {},
+        interludes: {},
+        locales: { en: {} },
+        ...overrides,
+    };
+}
+
+function analyze(
+    sources: Record<string, string>,
+    overrides: Partial<ContentRegistry> = {},
+    config?: GameConfig
+): string[] {
+    const dialogues = Object.fromEntries(
+        Object.entries(sources).map(([id, source]) => [
+            id,
+            parseDialogue(source, id),
+        ])
+    );
+    const fileMap = new Map(
+        Object.keys(sources).map((id) => [
+            `dialogues:${id}`,
+            `content/dialogues/${id}.dlg`,
+        ])
+    );
+    return analyzeDialogues(
+        makeRegistry({ ...overrides, dialogues }),
+        fileMap,
+        config
+    ).map((error) => `${error.file}: ${error.message}`);
+}
+
+describe('analyzeDialogues', () => {
+    it('reports nothing for a dialogue every route can play', () => {
+        expect(
+            analyze({
+                bartender: `NODE start
+  BARTENDER: What'll it be?
+  CHOICE Any work?
+    REQUIRE notFlag askedForWork
+    SET flag askedForWork
+    GOTO work
+  END
+  CHOICE Nothing
+    GOTO bye
+  END
+
+NODE work
+  BARTENDER: Clear the cellar.
+  GOTO start
+
+NODE bye
+  BARTENDER: Off you go.
+`,
+            })
+        ).toEqual([]);
+    });
+
+    it('reports a node nothing leads to and one its routes rule out', () => {
+        expect(
+            analyze({
+                guard: `NODE start
+  GUARD: Halt.
+  SET flag warned
+  IF notFlag warned
+    GOTO first_time
+  END
+  GOTO again
+
+NODE first_time
+  GUARD: Never seen you before.
+
+NODE again
+  GUARD: You again.
+
+NODE forgotten
+  GUARD: Nobody comes here.
+`,
+            })
+        ).toEqual([
+            'content/dialogues/guard.dlg: Node "first_time" is never reached: every route to it needs conditions that cannot be true there',
+            'content/dialogues/guard.dlg: Node "forgotten" is never reached: no route from the start leads to it',
+        ]);
+    });
+
+    it('reports a choice whose REQUIRE never passes', () => {
+        expect(
+            analyze(
+                {
+                    merchant: `NODE start
+  MERCHANT: Looking to buy?
+  CHOICE Show me the good stuff
+    REQUIRE hasFlag vipMember
+    GOTO start
+  END
+  CHOICE Just browsing
+    REQUIRE variable gold >= 0
+    GOTO start
+  END
+  CHOICE Goodbye
+  END
+`,
+                },
+                {},
+                {
+                    startLocation: 'town',
+                    startFlags: {},
+                    startVariables: { gold: -1 },
+                    startInventory: [],
+                } as GameConfig
+            )
+        ).toEqual([
+            'content/dialogues/merchant.dlg: Node "start" choice "start_choice_0_show_me_the_good_stuff" is never shown: its REQUIRE hasFlag vipMember never passes at this node',
+            'content/dialogues/merchant.dlg: Node "start" choice "start_choice_1_just_browsing" is never shown: its REQUIRE variable gold >= 0 never passes at this node',
+        ]);
+    });
+
+    it('starts from declared defaults and keeps declared variables in range', () => {
+        const source = `NODE start
+  SET variable trust 50
+  CHOICE Knock
+    REQUIRE hasFlag doorOpen
+  END
+  CHOICE Greet
+    REQUIRE variable level >= 1
+  END
+  CHOICE Embrace
+    REQUIRE variable trust > 10
+  END
+  CHOICE Confide
+    REQUIRE variable trust == 10
+  END
+`;
+        const variableSchema = {
+            flags: { doorOpen: { default: true } },
+            variables: {
+                level: { type: 'number', default: 1 },
+                trust: { type: 'number', default: 0, min: 0, max: 10 },
+            },
+        } as ContentRegistry['variableSchema'];
+        const embrace =
+            'content/dialogues/friend.dlg: Node "start" choice "start_choice_2_embrace" is never shown: its REQUIRE variable trust > 10 never passes at this node';
+
+        expect(analyze({ friend: source }, { variableSchema })).toEqual([
+            embrace,
+        ]);
+        expect(
+            analyze({ friend: source }, { variableSchema }, {
+                startLocation: 'town',
+                startFlags: { doorOpen: false },
+                startVariables: {},
+                startInventory: [],
+            } as GameConfig)
+        ).toEqual([
+            'content/dialogues/friend.dlg: Node "start" choice "start_choice_0_knock" is never shown: its REQUIRE hasFlag doorOpen never passes at this node',
+            embrace,
+        ]);
+    });
+
+    it('treats values that items, events, and shops change as unknown', () => {
+        const source = `NODE start
+  CHOICE Pay
+    REQUIRE hasFlag paid
+  END
+  CHOICE Leave
+  END
+`;
+        expect(analyze({ clerk: source })).toHaveLength(1);
+        expect(
+            analyze(
+                { clerk: source },
+                {
+                    items: {
+                        coin: {
+                            id: 'coin',
+                            name: 'Coin',
+                            description: '',
+                            icon: '',
+                            image: '',
+                            stats: {},
+                            uses: [
+                                {
+                                    id: 'pay',
+                                    effects: [
+                                        { type: 'setFlag', flag: 'paid' },
+                                    ],
+                                },
+                            ],
+                        },
+                    } as ContentRegistry['items'],
+                }
+            )
+        ).toEqual([]);
+    });
+
+    it('treats values that exits change as unknown', () => {
+        expect(
+            analyze(
+                {
+                    keeper: `NODE start
+  CHOICE Ring the bell
+    REQUIRE hasFlag climbedTower
+  END
+  CHOICE Leave
+  END
+`,
+                },
+                {
+                    locations: {
+                        square: {
+                            id: 'square',
+                            name: 'Square',
+                            description: '',
+                            exits: [
+                                {
+                                    id: 'up',
+                                    label: 'Climb',
+                                    target: 'tower',
+                                    effects: [
+                                        {
+                                            type: 'setFlag',
+                                            flag: 'climbedTower',
+                                        },
+                                    ],
+                                },
+                            ],
+                        },
+                    },
+                }
+            )
+        ).toEqual([]);
+    });
+
+    it('treats values that arriving at a location changes as unknown', () => {
+        expect(
+            analyze(
+                {
+                    guide: `NODE start
+  CHOICE Ask about the cellar
+    REQUIRE hasFlag sawCellar
+    GOTO cellar
+  END
+  CHOICE Leave
+  END
+
+NODE cellar
+  GUIDE: Damp, isn't it?
+`,
+                },
+                {
+                    locations: {
+                        cellar: {
+                            id: 'cellar',
+                            name: 'Cellar',
+                            description: '',
+                            onFirstEnter: [
+                                { type: 'setFlag', flag: 'sawCellar' },
+                            ],
+                        },
+                    },
+                }
+            )
+        ).toEqual([]);
+    });
+
+    it('reports a node reached with every choice hidden', () => {
+        expect(
+            analyze({
+                door: `NODE start
+  NARRATOR: The door is shut.
+  SET flag tried
+  GOTO knock
+
+NODE knock
+  CHOICE Knock
+    REQUIRE notFlag tried
+    GOTO start
+  END
+  CHOICE Push
+    REQUIRE notFlag tried
+  END
+`,
+            })
+        ).toEqual(
+            expect.arrayContaining([
+                'content/dialogues/door.dlg: Node "knock" can be reached with none of its choices shown, so the conversation ends there',
+            ])
+        );
+    });
+
+    it('reports a loop with no way out of the conversation', () => {
+        expect(
+            analyze({
+                riddle: `NODE start
+  SPHINX: Answer my riddle.
+  CHOICE A man
+    GOTO wrong
+  END
+  CHOICE A fish
+    GOTO wrong
+  END
+
+NODE wrong
+  SPHINX: Wrong. Again.
+  GOTO start
+`,
+            })
+        ).toEqual([
+            'content/dialogues/riddle.dlg: Node "start" can be reached in a state where no route leads out of the conversation',
+            'content/dialogues/riddle.dlg: Node "wrong" can be reached in a state where no route leads out of the conversation',
+        ]);
+    });
+
+    it('enters at CALL targets and forgets what a CALL may change', () => {
+        expect(
+            analyze({
+                tavern: `NODE start
+  CLEAR flag heardRumour
+  CALL rumours.gossip
+  GOTO check
+
+NODE check
+  IF hasFlag heardRumour
+    GOTO thanks
+  END
+
+NODE thanks
+  BARTENDER: Glad to help.
+`,
+                rumours: `NODE start
+  BARTENDER: No rumours today.
+
+NODE gossip
+  BARTENDER: They say the mill is haunted.
+  SET flag heardRumour
+  RETURN
+`,
+            })
+        ).toEqual([]);
+    });
+});
@@ -142,6 +142,54 @@ describe('loadContent', () => {
         }
     );
 
+    it('loads the optional variables.yaml schema', async () => {
+        const dir = await makeProject({
+            'content/game.yaml': GAME,
+            'content/variables.yaml': [
+                'variables:',
+                '  gold:',
+                '    type: number',
+                '    default: 0',
+                '    min: 0',
+            ].join('\n'),
+            'content/locations/town.yaml': TOWN,
+        });
+
+        try {
+            const loaded = await loadContent(join(dir, 'content'));
+
+            expect(loaded.parseErrors).toEqual([]);
+            expect(loaded.registry.variableSchema).toEqual({
+                flags: {},
+                variables: { gold: { type: 'number', default: 0, min: 0 } },
+            });
+            expect(loaded.fileMap.get('variableSchema:variables')).toContain(
+                'variables.yaml'
+            );
+        } finally {
+            await rm(dir, { recursive: true, force: true });
+        }
+    });
+
+    it('reports a variables.yaml that is not a YAML object', async () => {
+        const dir = await makeProject({
+            'content/game.yaml': GAME,
+            'content/variables.yaml': '- gold\n',
+            'content/locations/town.yaml': TOWN,
+        });
+
+        try {
+            const loaded = await loadContent(join(dir, 'content'));
+
+            expect(loaded.registry.variableSchema).toBeUndefined();
+            expect(loaded.parseErrors[0].message).toBe(
+                'variables.yaml must contain a YAML object'
+            );
+        } finally {
+            await rm(dir, { recursive: true, force: true });
+        }
+    });
+
     it('loads multiline dialogue from a project', async () => {
         const dir = await makeProject({
             'content/game.yaml': GAME,
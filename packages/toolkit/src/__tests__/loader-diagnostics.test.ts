@@ -3,7 +3,10 @@
  * file instead of quietly skipping it: malformed YAML, missing ids,
  * duplicate ids, a broken game.yaml, half-written entities, and content
  * problems that used to slip through (missing speakers, dialogue REQUIRE
- * targets, interlude trigger conditions, bad numbers, bad map scales).
+ * targets, interlude trigger conditions, timed events, character schedules,
+ * shops and prices, factions and tiers, the calendar, location exits,
+ * description variants and entry effects, locale messages, bad numbers, bad
+ * map scales).
  */
 
 import { describe, expect, it } from 'vitest';
@@ -250,6 +253,414 @@ describe('validation diagnostics', () => {
         expect(all.some((e) => e.includes('condition condition'))).toBe(false);
     });
 
+    it('loads timed events and checks their triggers and targets', async () => {
+        const { loaded, all } = await loadAndValidate({
+            'content/game.yaml': GAME,
+            'content/locations/town.yaml': TOWN,
+            'content/events/curfew.yaml': [
+                'id: curfew',
+                'trigger: { type: daily, hour: 22 }',
+                'dialogue: missing_guard',
+            ].join('\n'),
+            'content/events/fever.yaml': [
+                'id: fever',
+                'trigger: { type: afterFlag, flag: bitten, hours: 0 }',
+                'effects:',
+                '  - type: setFlag',
+            ].join('\n'),
+            'content/events/eclipse.yaml': [
+                'id: eclipse',
+                'trigger: { type: at, day: 0, hour: 25 }',
+            ].join('\n'),
+        });
+
+        expect(loaded.registry.events?.curfew.trigger).toEqual({
+            type: 'daily',
+            hour: 22,
+        });
+        expect(loaded.fileMap.get('events:curfew')).toBe(
+            'content/events/curfew.yaml'
+        );
+        expect(all).toEqual(
+            expect.arrayContaining([
+                'content/events/curfew.yaml :: Event "curfew" starts non-existent dialogue "missing_guard"',
+                'content/events/fever.yaml :: Event "fever" trigger hours must be a whole number of 1 or more',
+                'content/events/eclipse.yaml :: Event "eclipse" trigger day must be a whole number of 1 or more',
+                'content/events/eclipse.yaml :: Event "eclipse" trigger hour must be a whole number from 0 to 23',
+            ])
+        );
+        expect(
+            all.some(
+                (e) =>
+                    e.includes('Event "fever"') &&
+                    e.includes('missing required "flag"')
+            )
+        ).toBe(true);
+    });
+
+    it('checks character schedule entries and their locations', async () => {
+        const { all } = await loadAndValidate({
+            'content/game.yaml': GAME,
+            'content/locations/town.yaml': TOWN,
+            'content/characters/greta.yaml': [
+                'id: greta',
+                'name: Greta',
+                'location: town',
+                'schedule:',
+                '  - { location: town, startHour: 8, endHour: 18 }',
+                '  - { location: docks, startHour: 18, endHour: 24, days: [0] }',
+                '  - location: town',
+                '    startHour: 0',
+                '    endHour: 8',
+                '    conditions:',
+                '      - type: hasFlag',
+                '  - { location: town, startHour: 8, endHour: 9, weekdays: monday }',
+                '  - { location: town, startHour: 9, endHour: 10, weekdays: [moonday] }',
+            ].join('\n'),
+        });
+
+        expect(all).toEqual(
+            expect.arrayContaining([
+                'content/characters/greta.yaml :: Character "greta" schedule entry 2 endHour must be a whole number from 0 to 23',
+                'content/characters/greta.yaml :: Character "greta" schedule entry 2 days must be a list of day numbers of 1 or more',
+                'content/characters/greta.yaml :: Character "greta" schedule entry 4 weekdays must be a list of weekday IDs',
+                'content/characters/greta.yaml :: Character "greta" schedule references non-existent location "docks"',
+                'content/characters/greta.yaml :: Character "greta" schedule references non-existent weekday "moonday"',
+            ])
+        );
+        expect(
+            all.some(
+                (e) =>
+                    e.includes('Character "greta" schedule') &&
+                    e.includes('missing required "flag"')
+            )
+        ).toBe(true);
+    });
+
+    it('checks shops, item prices, and the START shop effect', async () => {
+        const { all } = await loadAndValidate({
+            'content/game.yaml': GAME,
+            'content/locations/town.yaml': TOWN,
+            'content/characters/greta.yaml': [
+                'id: greta',
+                'name: Greta',
+                'location: town',
+                'shop: { currency: silver coins, buys: sometimes }',
+            ].join('\n'),
+            'content/characters/hob.yaml': [
+                'id: hob',
+                'name: Hob',
+                'location: town',
+            ].join('\n'),
+            'content/characters/ada.yaml': [
+                'id: ada',
+                'name: Ada',
+                'location: town',
+                'shop: { stock: { lamp: many, ghost: 1 } }',
+            ].join('\n'),
+            'content/items/lamp.yaml': [
+                'id: lamp',
+                'name: Lamp',
+                'location: greta',
+                'stats: { price: cheap, sellPrice: -2 }',
+            ].join('\n'),
+            'content/dialogues/haggle.dlg': [
+                'NODE start',
+                '  NARRATOR: Stalls line the square.',
+                '  CHOICE Browse',
+                '    START shop hob',
+                '    END dialogue',
+                '  END',
+            ].join('\n'),
+        });
+
+        expect(all).toEqual(
+            expect.arrayContaining([
+                'content/characters/greta.yaml :: Character "greta" shop currency "silver coins" must use only letters, numbers, and underscores',
+                'content/characters/greta.yaml :: Character "greta" shop buys must be true or false',
+                'content/items/lamp.yaml :: Item "lamp" price must be a number of 0 or more',
+                'content/items/lamp.yaml :: Item "lamp" sellPrice must be a number of 0 or more',
+                'content/characters/ada.yaml :: Character "ada" shop stock of "lamp" must be a whole number of 0 or more',
+                'content/characters/ada.yaml :: Character "ada" shop stock lists unknown item "ghost"',
+            ])
+        );
+        expect(
+            all.some((e) =>
+                e.includes(
+                    'effect "startShop" opens the shop of "hob", who has no shop'
+                )
+            )
+        ).toBe(true);
+    });
+
+    it('checks item counts in conditions and effects', async () => {
+        const { all } = await loadAndValidate({
+            'content/game.yaml': GAME,
+            'content/locations/town.yaml': TOWN,
+            'content/items/potion.yaml': [
+                'id: potion',
+                'name: Potion',
+                'location: town',
+            ].join('\n'),
+            'content/dialogues/brew.dlg': [
+                'NODE start',
+                '  NARRATOR: The cauldron bubbles.',
+                '  ADD item potion 0',
+                '  REMOVE item potion 1.5',
+                '  CHOICE Drink',
+                '    REQUIRE hasItem potion many',
+                '    END dialogue',
+                '  END',
+            ].join('\n'),
+        });
+
+        const counts = all.filter((e) => e.includes('argument "count"'));
+        expect(counts).toHaveLength(3);
+        expect(
+            counts.filter((e) => e.includes('must be a whole number of 1'))
+        ).toHaveLength(2);
+        expect(counts.some((e) => e.includes('not a usable number'))).toBe(
+            true
+        );
+    });
+
+    it('checks the shape and references of item uses', async () => {
+        const { all } = await loadAndValidate({
+            'content/game.yaml': GAME,
+            'content/locations/town.yaml': TOWN,
+            'content/items/key.yaml': [
+                'id: key',
+                'name: Key',
+                'location: inventory',
+                'uses:',
+                '    - id: unlock',
+                '      label: Unlock',
+                '      target: vault',
+                '      dialogue: vault_door',
+                '      effects:',
+                '          - { type: setFlag }',
+                '    - id: unlock',
+                '      target: town',
+            ].join('\n'),
+        });
+
+        expect(all).toEqual(
+            expect.arrayContaining([
+                expect.stringContaining(
+                    'Item "key" use "unlock" targets non-existent location or character "vault"'
+                ),
+                expect.stringContaining(
+                    'Item "key" use "unlock" starts non-existent dialogue "vault_door"'
+                ),
+                expect.stringContaining(
+                    'Item "key" use "unlock" effect "setFlag" missing required "flag"'
+                ),
+                expect.stringContaining('Item "key" use 2 is missing "label"'),
+                expect.stringContaining(
+                    'Item "key" has more than one use "unlock"'
+                ),
+            ])
+        );
+    });
+
+    it('loads factions and checks their tiers, members, and references', async () => {
+        const { loaded, all } = await loadAndValidate({
+            'content/game.yaml': GAME,
+            'content/locations/town.yaml': TOWN,
+            'content/factions/city_guard.yaml': [
+                'id: city_guard',
+                'name: "@faction.city_guard"',
+                'reputation: -2',
+                'tiers:',
+                '  - { min: 0, name: Neutral }',
+                '  - { min: 0, name: Friendly }',
+                '  - { name: Hated }',
+            ].join('\n'),
+            'content/characters/sergeant.yaml': [
+                'id: sergeant',
+                'name: Sergeant',
+                'location: town',
+                'factions: [city_guard, thieves]',
+            ].join('\n'),
+            'content/dialogues/gate.dlg': [
+                'NODE start',
+                '  NARRATOR: The gate.',
+                '  IF reputationAbove city_guard 5',
+                '    ADD reputation watchers 1',
+                '  END',
+                '  END dialogue',
+            ].join('\n'),
+        });
+
+        expect(loaded.registry.factions?.city_guard.reputation).toBe(-2);
+        expect(loaded.fileMap.get('factions:city_guard')).toBe(
+            'content/factions/city_guard.yaml'
+        );
+        expect(all).toEqual(
+            expect.arrayContaining([
+                'content/factions/city_guard.yaml :: Faction "city_guard" has more than one tier starting at 0',
+                'content/factions/city_guard.yaml :: Faction "city_guard" tier 3 min must be a number',
+                'content/factions/city_guard.yaml :: Localization key "@faction.city_guard" not found in any locale file',
+                'content/characters/sergeant.yaml :: Character "sergeant" belongs to non-existent faction "thieves"',
+            ])
+        );
+        expect(
+            all.some((e) =>
+                e.includes(
+                    'effect "addReputation" references non-existent faction "watchers"'
+                )
+            )
+        ).toBe(true);
+        expect(all.some((e) => e.includes('"reputationAbove"'))).toBe(false);
+    });
+
+    it('loads the calendar from game.yaml and checks it', async () => {
+        const { loaded, all } = await loadAndValidate({
+            'content/game.yaml': [
+                GAME,
+                'calendar:',
+                '  weekdays:',
+                '    - { id: moonday, name: "@weekday.moonday" }',
+                '    - { id: moonday, name: Again }',
+                '  months:',
+                '    - { id: thaw, name: Thaw, days: 0 }',
+                '  seasons:',
+                '    - { id: winter, name: Winter, months: [frost] }',
+                '  startDate: { month: thaw, weekday: sunday }',
+            ].join('\n'),
+            'content/locations/town.yaml': TOWN,
+            'content/dialogues/market.dlg': [
+                'NODE start',
+                '  NARRATOR: Market.',
+                '  IF dayOfWeekIs market_day',
+                '    SET flag marketOpen',
+                '  END',
+                '  IF seasonIs winter',
+                '    SET flag snowing',
+                '  END',
+                '  END dialogue',
+            ].join('\n'),
+        });
+
+        expect(loaded.registry.calendar?.months?.[0].id).toBe('thaw');
+        expect(all).toEqual(
+            expect.arrayContaining([
+                'content/game.yaml :: Calendar has more than one weekday "moonday"',
+                'content/game.yaml :: Calendar month "thaw" days must be a whole number of 1 or more',
+                'content/game.yaml :: Calendar season "winter" references non-existent month "frost"',
+                'content/game.yaml :: Calendar startDate references non-existent weekday "sunday"',
+                'content/game.yaml :: Localization key "@weekday.moonday" not found in any locale file',
+            ])
+        );
+        expect(
+            all.some((e) =>
+                e.includes(
+                    'condition "dayOfWeekIs" references non-existent weekday "market_day"'
+                )
+            )
+        ).toBe(true);
+        expect(all.some((e) => e.includes('"seasonIs"'))).toBe(false);
+    });
+
+    it('checks location exits and their targets', async () => {
+        const { all } = await loadAndValidate({
+            'content/game.yaml': GAME,
+            'content/locations/town.yaml': [
+                TOWN.trimEnd(),
+                'exits:',
+                '  - { id: north, label: "@exit.town.north", target: cellar }',
+                '  - { id: north, label: Again, target: town, hours: -1 }',
+                '  - id: east',
+                '    label: East',
+                '    target: market',
+                '    conditions:',
+                '      - { type: hasItem, itemId: lamp }',
+                '  - { label: West }',
+            ].join('\n'),
+        });
+
+        expect(all).toEqual(
+            expect.arrayContaining([
+                'content/locations/town.yaml :: Location "town" exit "north" leads to non-existent location "cellar"',
+                'content/locations/town.yaml :: Location "town" exit "east" leads to non-existent location "market"',
+                'content/locations/town.yaml :: Location "town" has more than one exit "north"',
+                'content/locations/town.yaml :: Location "town" exit 2 hours must be a number of 0 or more',
+                'content/locations/town.yaml :: Location "town" exit 4 is missing "id"',
+                'content/locations/town.yaml :: Location "town" exit 4 is missing "target"',
+                'content/locations/town.yaml :: Localization key "@exit.town.north" not found in any locale file',
+            ])
+        );
+        expect(
+            all.some((e) =>
+                e.includes(
+                    'Location "town" exit "east" condition "hasItem" references non-existent item "lamp"'
+                )
+            )
+        ).toBe(true);
+    });
+
+    it('checks description variants and entry effects', async () => {
+        const { all } = await loadAndValidate({
+            'content/game.yaml': GAME,
+            'content/locations/town.yaml': [
+                TOWN.trimEnd(),
+                'descriptions:',
+                '  - text: "@town.burned"',
+                '    conditions:',
+                '      - { type: visitedLocation, locationId: cellar }',
+                '  - { conditions: [] }',
+                'onFirstEnter:',
+                '  - { type: addItem, itemId: lamp }',
+                'onEnter: { type: setFlag, flag: inTown }',
+            ].join('\n'),
+        });
+
+        expect(all).toEqual(
+            expect.arrayContaining([
+                'content/locations/town.yaml :: Location "town" description 2 is missing "text"',
+                'content/locations/town.yaml :: Location "town" onEnter must be a list of effects',
+                'content/locations/town.yaml :: Localization key "@town.burned" not found in any locale file',
+            ])
+        );
+        expect(
+            all.some((e) =>
+                e.includes(
+                    'Location "town" description 1 condition "visitedLocation" references non-existent location "cellar"'
+                )
+            )
+        ).toBe(true);
+        expect(
+            all.some((e) =>
+                e.includes(
+                    'Location "town" onFirstEnter effect "addItem" references non-existent item "lamp"'
+                )
+            )
+        ).toBe(true);
+    });
+
+    it('checks plural and select messages across locales', async () => {
+        const { all } = await loadAndValidate({
+            'content/game.yaml': GAME,
+            'content/locations/town.yaml': TOWN,
+            'content/locales/en.yaml': [
+                'coins: "{gold, plural, one {# coin} other {# coins}}"',
+                'wave: "{player.stats.gender, select, female {She} other {They}} waves"',
+            ].join('\n'),
+            'content/locales/sv.yaml': [
+                'coins: "{count, plural, one {# mynt} other {# mynt}}"',
+                'wave: "{player.stats.gender, select, female {Hon}} vinkar"',
+            ].join('\n'),
+        });
+
+        expect(all).toEqual(
+            expect.arrayContaining([
+                'content/locales/sv.yaml :: Locale "sv" key "coins" reads {count}, but "en" reads {gold}',
+                'content/locales/sv.yaml :: Locale "sv" key "wave" has a broken message: "player.stats.gender" select needs an "other" branch',
+            ])
+        );
+        expect(all.some((e) => e.includes('key "wave" reads'))).toBe(false);
+    });
+
     it('reports a number argument that is not a number', async () => {
         const { all } = await loadAndValidate({
             'content/game.yaml': GAME,
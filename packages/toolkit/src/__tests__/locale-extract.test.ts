@@ -0,0 +1,265 @@
+/**
+ * Tests for moving inline text into the source locale: the keys it makes,
+ * the files it rewrites, and how a second run behaves.
+ */
+
+import { afterEach, describe, expect, it } from 'vitest';
+import { mkdtemp, mkdir, readFile, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join, dirname } from 'path';
+import { extractLocaleKeys } from '../locale-extract';
+import { loadProject } from '../load-project';
+import { validateContent } from '../validate';
+
+let dir: string | null = null;
+
+afterEach(async () => {
+    if (dir) await rm(dir, { recursive: true, force: true });
+    dir = null;
+});
+
+async function makeProject(files: Record<string, string>): Promise<string> {
+    dir = await mkdtemp(join(tmpdir(), 'doodle-'));
+    for (const [rel, content] of Object.entries(files)) {
+        const full = join(dir, rel);
+        await mkdir(dirname(full), { recursive: true });
+        await writeFile(full, content);
+    }
+    return dir;
+}
+
+const read = (project: string, file: string) =>
+    readFile(join(project, file), 'utf-8');
+
+const CONTENT = {
+    'content/game.yaml': `startLocation: tavern
+startTime: { day: 1, hour: 8 }
+startFlags: {}
+startVariables: {}
+startInventory: []
+`,
+    'content/locations/tavern.yaml': `id: tavern
+# Shown on the map
+name: The Rusty Tankard
+description: '@location.tavern.description'
+`,
+    'content/dialogues/bartender.dlg': `# Greta's opening lines
+NODE start
+  BARTENDER: What'll it be?
+
+  CHOICE An ale, please. # the usual
+    NOTIFY "You feel warmer."
+    END dialogue
+  END
+
+  CHOICE @bartender.choice.leave
+    END dialogue
+  END
+`,
+    'content/locales/en.yaml': `# English
+location.tavern.description: Warm and loud.
+bartender.choice.leave: Never mind.
+dialogue.bartender.start: Something else
+`,
+};
+
+describe('extractLocaleKeys', () => {
+    it('replaces only the inline text and keeps every other byte', async () => {
+        const project = await makeProject(CONTENT);
+        const result = await extractLocaleKeys(project);
+
+        expect(result.locale).toBe('en');
+        expect(result.keys.map(({ key, text }) => [key, text])).toEqual([
+            ['dialogue.bartender.start_2', "What'll it be?"],
+            ['dialogue.bartender.start.choice.1', 'An ale, please.'],
+            ['dialogue.bartender.start.notify.1', 'You feel warmer.'],
+            ['location.tavern.name', 'The Rusty Tankard'],
+        ]);
+        expect(result.files).toEqual([
+            join('content', 'dialogues', 'bartender.dlg'),
+            join('content', 'locations', 'tavern.yaml'),
+        ]);
+
+        expect(await read(project, 'content/dialogues/bartender.dlg')).toBe(
+            `# Greta's opening lines
+NODE start
+  BARTENDER: @dialogue.bartender.start_2
+
+  CHOICE @dialogue.bartender.start.choice.1 # the usual
+    NOTIFY @dialogue.bartender.start.notify.1
+    END dialogue
+  END
+
+  CHOICE @bartender.choice.leave
+    END dialogue
+  END
+`
+        );
+        expect(await read(project, 'content/locations/tavern.yaml')).toBe(
+            `id: tavern
+# Shown on the map
+name: "@location.tavern.name"
+description: '@location.tavern.description'
+`
+        );
+        expect(await read(project, 'content/locales/en.yaml')).toBe(`# English
+location.tavern.description: Warm and loud.
+bartender.choice.leave: Never mind.
+dialogue.bartender.start: Something else
+dialogue.bartender.start_2: What'll it be?
+dialogue.bartender.start.choice.1: An ale, please.
+dialogue.bartender.start.notify.1: You feel warmer.
+location.tavern.name: The Rusty Tankard
+`);
+
+        const { registry, fileMap, config } = await loadProject(project);
+        expect(
+            validateContent(registry, fileMap, config).filter((error) =>
+                error.message.startsWith('Localization key')
+            )
+        ).toEqual([]);
+    });
+
+    it('keeps layout the parser and YAML printer would change', async () => {
+        const biography =
+            'Mirela was born in the hill country and came down to the city with nothing but a lute, a borrowed coat, and a habit of staying up later than anyone else in the tavern.';
+        const project = await makeProject({
+            'content/game.yaml': CONTENT['content/game.yaml'],
+            'content/locations/tavern.yaml': `id: tavern
+name:   '@location.tavern.name'   # aligned
+description: >
+  Warm and loud,
+  and full of smoke.
+
+descriptions:
+  # After dark
+  - text: The fire burns low.
+    conditions: [timeIs 20 6]
+exits:
+  - { id: north, label: "North to the \\"Cellar\\"", target: tavern }
+`,
+            'content/characters/mirela.yaml': `# The bard
+id: mirela
+name: Mirela
+
+
+biography: ${biography}
+location: tavern   # until the festival
+dialogue: ""
+`,
+            'content/dialogues/mirela.dlg': `NODE start   # first meeting
+    MIRELA:    "Another song?
+    Or a story?"   # keeps the break
+
+    IF hasFlag heardSong
+        NOTIFY    Heard it before.
+    END
+
+    CHOICE "A \\"quiet\\" one." # played softly
+        END dialogue
+    END
+`,
+            'content/locales/en.yaml': `{ location.tavern.name: Tavern }
+`,
+        });
+        const before = {
+            location: await read(project, 'content/locations/tavern.yaml'),
+            character: await read(project, 'content/characters/mirela.yaml'),
+            dialogue: await read(project, 'content/dialogues/mirela.dlg'),
+        };
+
+        const result = await extractLocaleKeys(project);
+
+        expect(result.keys.map(({ key, text }) => [key, text])).toEqual([
+            ['dialogue.mirela.start', 'Another song?\nOr a story?'],
+            ['dialogue.mirela.start.notify.1', 'Heard it before.'],
+            ['dialogue.mirela.start.choice.1', 'A "quiet" one.'],
+            [
+                'location.tavern.description',
+                'Warm and loud, and full of smoke.\n',
+            ],
+            ['location.tavern.description.1', 'The fire burns low.'],
+            ['location.tavern.exit.north', 'North to the "Cellar"'],
+            ['character.mirela.name', 'Mirela'],
+        ]);
+        expect(await read(project, 'content/dialogues/mirela.dlg')).toBe(
+            before.dialogue
+                .replace(
+                    '"Another song?\n    Or a story?"',
+                    '@dialogue.mirela.start'
+                )
+                .replace('Heard it before.', '@dialogue.mirela.start.notify.1')
+                .replace(
+                    '"A \\"quiet\\" one."',
+                    '@dialogue.mirela.start.choice.1'
+                )
+        );
+        expect(await read(project, 'content/locations/tavern.yaml')).toBe(
+            before.location
+                .replace(
+                    '>\n  Warm and loud,\n  and full of smoke.\n',
+                    '"@location.tavern.description"\n'
+                )
+                .replace(
+                    'The fire burns low.',
+                    '"@location.tavern.description.1"'
+                )
+                .replace(
+                    '"North to the \\"Cellar\\""',
+                    '"@location.tavern.exit.north"'
+                )
+        );
+        expect(await read(project, 'content/characters/mirela.yaml')).toBe(
+            before.character.replace(
+                'name: Mirela',
+                'name: "@character.mirela.name"'
+            )
+        );
+
+        const { registry } = await loadProject(project);
+        expect(registry.locales.en['dialogue.mirela.start']).toBe(
+            'Another song?\nOr a story?'
+        );
+        expect(registry.dialogues.mirela.nodes[0].choices[0].text).toBe(
+            '@dialogue.mirela.start.choice.1'
+        );
+        expect(registry.characters.mirela.biography).toBe(biography);
+    });
+
+    it('finds nothing left to extract on a second run', async () => {
+        const project = await makeProject(CONTENT);
+        await extractLocaleKeys(project);
+        const locale = await read(project, 'content/locales/en.yaml');
+
+        const again = await extractLocaleKeys(project);
+        expect(again.keys).toEqual([]);
+        expect(again.files).toEqual([]);
+        expect(await read(project, 'content/locales/en.yaml')).toBe(locale);
+    });
+
+    it('reports without writing on a dry run', async () => {
+        const project = await makeProject(CONTENT);
+        const result = await extractLocaleKeys(project, { dryRun: true });
+
+        expect(result.keys).toHaveLength(4);
+        expect(await read(project, 'content/dialogues/bartender.dlg')).toBe(
+            CONTENT['content/dialogues/bartender.dlg']
+        );
+    });
+
+    it('creates an English locale for a project without one', async () => {
+        const project = await makeProject({
+            'content/game.yaml': CONTENT['content/game.yaml'],
+            'content/locations/tavern.yaml': `id: tavern
+name: Tavern
+description: Warm.
+`,
+        });
+        const result = await extractLocaleKeys(project);
+
+        expect(result.localeFile).toBe(join('content', 'locales', 'en.yaml'));
+        expect(await read(project, 'content/locales/en.yaml')).toBe(
+            'location.tavern.name: Tavern\nlocation.tavern.description: Warm.\n'
+        );
+    });
+});
@@ -0,0 +1,302 @@
+/**
+ * Tests for scripted playthroughs: reading scripts, playing them against a
+ * real project, and pointing failures at the .dlg line the story was on.
+ */
+
+import { describe, expect, it } from 'vitest';
+import { mkdtemp, mkdir, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join, dirname } from 'path';
+import { parsePlaythrough, runPlaythroughs } from '../playthrough';
+
+async function makeProject(files: Record<string, string>): Promise<string> {
+    const dir = await mkdtemp(join(tmpdir(), 'doodle-'));
+    for (const [rel, content] of Object.entries(files)) {
+        const full = join(dir, rel);
+        await mkdir(dirname(full), { recursive: true });
+        await writeFile(full, content);
+    }
+    return dir;
+}
+
+const CONTENT = {
+    'content/game.yaml': `startLocation: tavern
+startTime: { day: 1, hour: 8 }
+startFlags: {}
+startVariables: { gold: 5 }
+startInventory: []
+`,
+    'content/locations/tavern.yaml':
+        'id: tavern\nname: Tavern\ndescription: Warm.\n',
+    'content/characters/bartender.yaml': `id: bartender
+name: Bartender
+biography: ''
+location: tavern
+dialogue: bartender
+stats: {}
+`,
+    'content/quests/odd_jobs.yaml': `id: odd_jobs
+name: Odd Jobs
+description: Help out.
+stages:
+  - id: started
+    description: Asked for work.
+`,
+    'content/dialogues/bartender.dlg': `NODE start
+  BARTENDER: What'll it be?
+  CHOICE Any work?
+    SET questStage odd_jobs started
+    GOTO work
+  END
+  CHOICE Buy a drink
+    REQUIRE variableGreaterThan gold 10
+    GOTO start
+  END
+
+NODE work
+  BARTENDER: Clear the cellar.
+  SET flag metBartender
+  GOTO bye
+
+NODE bye
+  BARTENDER: Off you go.
+`,
+};
+
+async function run(scripts: Record<string, string>) {
+    const files: Record<string, string> = { ...CONTENT };
+    for (const [name, source] of Object.entries(scripts)) {
+        files[`playthroughs/${name}`] = source;
+    }
+    const dir = await makeProject(files);
+    try {
+        return await runPlaythroughs(dir);
+    } finally {
+        await rm(dir, { recursive: true, force: true });
+    }
+}
+
+describe('parsePlaythrough', () => {
+    it('reads steps with their script lines', () => {
+        const { script, errors } = parsePlaythrough(
+            `name: Work
+seed: 3
+steps:
+  - talkTo: bartender
+  - choose: Any work?
+  - continue
+  - continue: 2
+  - expect:
+      flags: { metBartender: true }
+`,
+            'playthroughs/work.yaml'
+        );
+
+        expect(errors).toEqual([]);
+        expect(script).toEqual({
+            name: 'Work',
+            file: 'playthroughs/work.yaml',
+            seed: 3,
+            steps: [
+                { type: 'talkTo', characterId: 'bartender', line: 4 },
+                { type: 'choose', choice: 'Any work?', line: 5 },
+                { type: 'continue', times: 1, line: 6 },
+                { type: 'continue', times: 2, line: 7 },
+                {
+                    type: 'expect',
+                    expect: { flags: { metBartender: true } },
+                    line: 8,
+                },
+            ],
+        });
+    });
+
+    it('reads JSON and names a script after its file', () => {
+        const { script } = parsePlaythrough(
+            '{"steps": [{"travel": "market"}]}',
+            'playthroughs/travel.json'
+        );
+        expect(script?.name).toBe('playthroughs/travel');
+        expect(script?.steps).toEqual([
+            { type: 'travel', locationId: 'market', line: 1 },
+        ]);
+    });
+
+    it('reports each step it cannot read', () => {
+        const { script, errors } = parsePlaythrough(
+            `steps:
+  - dance: now
+  - continue: 0
+  - expect: { mood: happy }
+`,
+            'playthroughs/bad.yaml'
+        );
+
+        expect(script).toBeNull();
+        expect(errors.map((e) => [e.line, e.message])).toEqual([
+            [2, 'Step 1: "dance" is not a step action'],
+            [
+                3,
+                'Step 2: "continue" takes how many times to continue, like "continue: 2"',
+            ],
+            [
+                4,
+                'Step 3: "expect" cannot check "mood". It can check flags, variables, quests, inventory, location, dialogue, node',
+            ],
+        ]);
+        expect(
+            parsePlaythrough('name: Empty\n', 'playthroughs/empty.yaml').errors
+        ).toMatchObject([{ message: 'A playthrough needs a "steps" list' }]);
+    });
+});
+
+describe('runPlaythroughs', () => {
+    it('plays a script through to the end', async () => {
+        const report = await run({
+            'work.yaml': `name: Asking for work
+steps:
+  - talkTo: bartender
+  - choose: Any work?
+  - expect:
+      node: work
+      flags: { metBartender: true }
+      quests: { odd_jobs: active }
+      variables: { gold: 5 }
+      location: tavern
+  - continue
+  - continue
+  - expect:
+      dialogue: null
+      quests: { odd_jobs: started }
+      inventory: {}
+`,
+        });
+
+        expect(report.errors).toEqual([]);
+        expect(report.results).toEqual([
+            {
+                name: 'Asking for work',
+                file: join('playthroughs', 'work.yaml'),
+                stepsRun: 6,
+                failure: null,
+            },
+        ]);
+        expect(report.coverage.sessions).toBe(1);
+        expect(report.coverage.dialogues.bartender.nodes).toEqual({
+            start: 1,
+            work: 1,
+            bye: 1,
+        });
+        expect(report.coverage.dialogues.bartender.choices.start).toMatchObject(
+            { start_choice_0_any_work: 1 }
+        );
+    });
+
+    it('points a failed expectation at the node the story is on', async () => {
+        const report = await run({
+            'flags.yaml': `steps:
+  - talkTo: bartender
+  - choose: Any work?
+  - expect:
+      flags: { metBartender: false, paid: true }
+`,
+        });
+
+        const { failure } = report.results[0];
+        expect(failure).toMatchObject({
+            step: 3,
+            message:
+                'Expected flag "metBartender" to be false, but it is true\n' +
+                'Expected flag "paid" to be true, but it is false',
+            file: join('content', 'dialogues', 'bartender.dlg'),
+            line: 12,
+        });
+        expect(failure?.trace).toEqual([]);
+    });
+
+    it('points a hidden choice at its CHOICE line', async () => {
+        const report = await run({
+            'drink.yaml': `steps:
+  - talkTo: bartender
+  - choose: Buy a drink
+`,
+        });
+
+        const { failure } = report.results[0];
+        expect(failure).toMatchObject({
+            step: 2,
+            message:
+                'Choice "Buy a drink" is hidden because its REQUIRE variableGreaterThan gold 10 did not pass',
+            line: 7,
+        });
+
+        const missing = await run({
+            'missing.yaml': `steps:
+  - talkTo: bartender
+  - choose: Sing a song
+`,
+        });
+        expect(missing.results[0].failure?.message).toBe(
+            'Node "start" has no choice "Sing a song". It offers "Any work?".'
+        );
+    });
+
+    it('keeps the trace of the failing step and the last node it entered', async () => {
+        const report = await run({
+            'ending.yaml': `steps:
+  - talkTo: bartender
+  - choose: Any work?
+  - continue: 3
+`,
+        });
+
+        const { failure } = report.results[0];
+        expect(failure).toMatchObject({
+            step: 3,
+            message: 'There is no conversation to continue',
+            line: 17,
+        });
+        expect(failure?.trace).toEqual([
+            expect.objectContaining({
+                kind: 'transition',
+                fromNode: 'work',
+                toNode: 'bye',
+            }),
+            expect.objectContaining({ kind: 'nodeEnter', nodeId: 'bye' }),
+        ]);
+    });
+
+    it('points a failure before any conversation at the script step', async () => {
+        const report = await run({
+            'travel.yaml': `steps:
+  - expect: { location: tavern }
+  - continue
+`,
+        });
+
+        expect(report.results[0].failure).toMatchObject({
+            step: 2,
+            message: 'There is no conversation to continue',
+            file: join('playthroughs', 'travel.yaml'),
+            line: 3,
+        });
+    });
+
+    it('reports content that does not load instead of playing it', async () => {
+        const dir = await makeProject({
+            ...CONTENT,
+            'content/dialogues/broken.dlg': 'NODE start\n  BADKEYWORD foo\n',
+            'playthroughs/work.yaml': 'steps:\n  - talkTo: bartender\n',
+        });
+        try {
+            const report = await runPlaythroughs(dir);
+            expect(report.results).toEqual([]);
+            expect(report.errors[0].file).toContain('broken.dlg');
+
+            const named = await runPlaythroughs(dir, ['missing.yaml']);
+            expect(named.errors[0].file).toContain('broken.dlg');
+        } finally {
+            await rm(dir, { recursive: true, force: true });
+        }
+    });
+});
@@ -0,0 +1,299 @@
+/**
+ * Tests for exchanging translations with XLIFF and PO files: where keys are
+ * used, exporting a locale, merging a translated file back, and the report
+ * of untranslated and stale keys.
+ */
+
+import { afterEach, describe, expect, it } from 'vitest';
+import { mkdtemp, mkdir, readFile, writeFile, rm } from 'fs/promises';
+import { tmpdir } from 'os';
+import { join, dirname } from 'path';
+import {
+    exportTranslations,
+    importTranslations,
+    parseTranslations,
+    translationReport,
+} from '../translations';
+
+let dir: string | null = null;
+
+afterEach(async () => {
+    if (dir) await rm(dir, { recursive: true, force: true });
+    dir = null;
+});
+
+async function makeProject(files: Record<string, string>): Promise<string> {
+    dir = await mkdtemp(join(tmpdir(), 'doodle-'));
+    for (const [rel, content] of Object.entries(files)) {
+        const full = join(dir, rel);
+        await mkdir(dirname(full), { recursive: true });
+        await writeFile(full, content);
+    }
+    return dir;
+}
+
+const CONTENT = {
+    'content/game.yaml': `startLocation: tavern
+startTime: { day: 1, hour: 8 }
+startFlags: {}
+startVariables: {}
+startInventory: []
+`,
+    'content/locations/tavern.yaml': `id: tavern
+name: '@location.tavern.name'
+description: Warm.
+`,
+    'content/characters/bartender.yaml': `id: bartender
+name: '@character.bartender.name'
+biography: ''
+`,
+    'content/dialogues/bartender.dlg': `NODE start
+  # @ignored.in.comments
+  BARTENDER: @bartender.greeting
+
+  CHOICE @bartender.choice.ale
+    NOTIFY @notification.ale
+    END dialogue
+  END
+`,
+    'content/locales/en.yaml': `# English is the source
+location.tavern.name: The Rusty Tankard
+character.bartender.name: Greta
+bartender.greeting: "Welcome! Say \\"hi\\"."
+bartender.choice.ale: An ale, please.
+notification.ale: |
+    You drink the ale.
+    It is warm.
+`,
+    'content/locales/sv.yaml': `# Swedish
+location.tavern.name: Det rostiga stopet
+old.key: Borttagen
+`,
+};
+
+describe('exportTranslations', () => {
+    it('writes XLIFF units with where each key is used', async () => {
+        const project = await makeProject(CONTENT);
+        const { text, errors } = await exportTranslations(project, {
+            locale: 'sv',
+            format: 'xliff',
+        });
+
+        expect(errors).toEqual([]);
+        expect(text).toContain('source-language="en" target-language="sv"');
+        expect(text).toContain(
+            '<source>The Rusty Tankard</source>\n        <target state="translated">Det rostiga stopet</target>\n        <note from="developer">content/locations/tavern.yaml:2, name</note>'
+        );
+        expect(text).toContain(
+            '<source>Welcome! Say &quot;hi&quot;.</source>\n        <note from="developer">content/dialogues/bartender.dlg:3, spoken by Greta</note>'
+        );
+        expect(text).toContain(
+            '<note from="developer">content/dialogues/bartender.dlg:5, choice</note>'
+        );
+        expect(text).not.toContain('ignored');
+    });
+
+    it('writes PO entries keyed by context', async () => {
+        const project = await makeProject(CONTENT);
+        const { text } = await exportTranslations(project, {
+            locale: 'sv',
+            format: 'po',
+        });
+
+        expect(text).toContain('"Language: sv\\n"');
+        expect(text).toContain(`#. Spoken by Greta
+#: content/dialogues/bartender.dlg:3
+msgctxt "bartender.greeting"
+msgid "Welcome! Say \\"hi\\"."
+msgstr ""`);
+        expect(text).toContain(`#. Used as notification
+#: content/dialogues/bartender.dlg:6
+msgctxt "notification.ale"
+msgid ""
+"You drink the ale.\\n"
+"It is warm.\\n"
+msgstr ""`);
+    });
+
+    it('reads back what it writes in both formats', async () => {
+        const project = await makeProject(CONTENT);
+        for (const format of ['xliff', 'po'] as const) {
+            const { text } = await exportTranslations(project, {
+                locale: 'sv',
+                format,
+            });
+            const parsed = parseTranslations(text!, format);
+
+            expect(parsed.locale).toBe('sv');
+            expect(parsed.units).toContainEqual({
+                key: 'notification.ale',
+                source: 'You drink the ale.\nIt is warm.\n',
+                target: null,
+            });
+            expect(parsed.units).toContainEqual({
+                key: 'location.tavern.name',
+                source: 'The Rusty Tankard',
+                target: 'Det rostiga stopet',
+            });
+        }
+    });
+});
+
+describe('importTranslations', () => {
+    it('merges translations into the locale file and keeps its comments', async () => {
+        const project = await makeProject(CONTENT);
+        const po = `msgid ""
+msgstr ""
+"Language: sv\\n"
+
+msgctxt "bartender.greeting"
+msgid "Welcome! Say \\"hi\\"."
+msgstr "Välkommen! Säg \\"hej\\"."
+
+#, fuzzy
+msgctxt "bartender.choice.ale"
+msgid "An ale, please."
+msgstr "En öl, tack?"
+
+msgctxt "character.bartender.name"
+msgid "Gretchen"
+msgstr "Greta"
+
+msgctxt "missing.key"
+msgid "Gone"
+msgstr "Borta"
+`;
+        const result = await importTranslations(project, po, { format: 'po' });
+
+        expect(result.locale).toBe('sv');
+        expect(result.file).toBe(join('content', 'locales', 'sv.yaml'));
+        expect(result.imported).toEqual(['bartender.greeting']);
+        expect(result.outdated).toEqual(['character.bartender.name']);
+        expect(result.unknown).toEqual(['missing.key']);
+        expect(
+            await readFile(join(project, 'content/locales/sv.yaml'), 'utf-8')
+        ).toBe(`# Swedish
+location.tavern.name: Det rostiga stopet
+old.key: Borttagen
+bartender.greeting: Välkommen! Säg "hej".
+`);
+        expect(result.report?.untranslated).toEqual([
+            'character.bartender.name',
+            'bartender.choice.ale',
+            'notification.ale',
+        ]);
+    });
+
+    it('creates the locale file for a new language', async () => {
+        const project = await makeProject(CONTENT);
+        const xliff = `<?xml version="1.0" encoding="UTF-8"?>
+<xliff version="1.2">
+  <file target-language="de">
+    <body>
+      <trans-unit id="location.tavern.name">
+        <source>The Rusty Tankard</source>
+        <target state="final">Der &lt;rostige&gt; Krug</target>
+      </trans-unit>
+      <trans-unit id="bartender.choice.ale">
+        <source>An ale, please.</source>
+        <target state="needs-translation">An ale, please.</target>
+      </trans-unit>
+    </body>
+  </file>
+</xliff>
+`;
+        const result = await importTranslations(project, xliff, {
+            format: 'xliff',
+        });
+
+        expect(result.imported).toEqual(['location.tavern.name']);
+        expect(
+            await readFile(join(project, 'content/locales/de.yaml'), 'utf-8')
+        ).toBe('location.tavern.name: Der <rostige> Krug\n');
+    });
+
+    it('rejects a file that names no language', async () => {
+        const project = await makeProject(CONTENT);
+        await expect(
+            importTranslations(project, 'msgid "a"\nmsgstr "b"\n', {
+                format: 'po',
+            })
+        ).rejects.toThrow('does not say which language');
+    });
+});
+
+describe('translationReport', () => {
+    it('lists untranslated and stale keys', async () => {
+        const project = await makeProject(CONTENT);
+        const { reports } = await translationReport(project, 'sv');
+
+        expect(reports).toEqual([
+            {
+                sourceLocale: 'en',
+                locale: 'sv',
+                untranslated: [
+                    'character.bartender.name',
+                    'bartender.greeting',
+                    'bartender.choice.ale',
+                    'notification.ale',
+                ],
+                stale: ['old.key'],
+            },
+        ]);
+    });
+
+    it('lists keys whose source text changed since their import', async () => {
+        const project = await makeProject(CONTENT);
+        await importTranslations(
+            project,
+            `msgctxt "bartender.choice.ale"
+msgid "An ale, please."
+msgstr "En öl, tack."
+
+msgctxt "character.bartender.name"
+msgid "Greta"
+msgstr "Greta"
+`,
+            { format: 'po', locale: 'sv' }
+        );
+        const enPath = join(project, 'content/locales/en.yaml');
+        await writeFile(
+            enPath,
+            (await readFile(enPath, 'utf-8'))
+                .replace('An ale, please.', 'A cold ale, please.')
+                .replace('Greta', 'Greta Stone')
+        );
+
+        let { reports } = await translationReport(project, 'sv');
+        expect(reports[0].stale).toEqual([
+            'old.key',
+            'bartender.choice.ale',
+            'character.bartender.name',
+        ]);
+
+        // Redoing a translation by hand takes it off the list.
+        const svPath = join(project, 'content/locales/sv.yaml');
+        await writeFile(
+            svPath,
+            (await readFile(svPath, 'utf-8')).replace(
+                'En öl, tack.',
+                'En kall öl, tack.'
+            )
+        );
+        ({ reports } = await translationReport(project, 'sv'));
+        expect(reports[0].stale).toEqual([
+            'old.key',
+            'character.bartender.name',
+        ]);
+    });
+
+    it('covers every locale but the source by default', async () => {
+        const project = await makeProject({
+            ...CONTENT,
+            'content/locales/de.yaml': 'location.tavern.name: Der Krug\n',
+        });
+        const { reports } = await translationReport(project);
+
+        expect(reports.map((report) => report.locale)).toEqual(['de', 'sv']);
+    });
+});
@@ -8,6 +8,7 @@ import type {
     Dialogue,
     GameConfig,
 } from '@doodle-engine/core';
+import { parseDialogue } from '@doodle-engine/core';
 import { validateContent } from '../validate';
 
 function makeRegistry(
@@ -344,6 +345,65 @@ describe('validateContent', () => {
         );
     });
 
+    it('accepts number and text random seeds but nothing else', () => {
+        const messages = (randomSeed: unknown) =>
+            validateContent(
+                makeRegistry(),
+                new Map(),
+                makeConfig({ randomSeed } as Partial<GameConfig>)
+            ).map((error) => error.message);
+
+        expect(messages(42)).not.toContain(
+            'Game config "randomSeed" must be a number or text'
+        );
+        expect(messages('playtest')).not.toContain(
+            'Game config "randomSeed" must be a number or text'
+        );
+        expect(messages(true)).toContain(
+            'Game config "randomSeed" must be a number or text'
+        );
+    });
+
+    it('accepts allowRewind only as true or false', () => {
+        const messages = (allowRewind: unknown) =>
+            validateContent(
+                makeRegistry(),
+                new Map(),
+                makeConfig({ allowRewind } as Partial<GameConfig>)
+            ).map((error) => error.message);
+
+        expect(messages(true)).not.toContain(
+            'Game config "allowRewind" must be true or false'
+        );
+        expect(messages('yes')).toContain(
+            'Game config "allowRewind" must be true or false'
+        );
+    });
+
+    it('checks that locale fallbacks name existing locales', () => {
+        const registry = makeRegistry();
+        registry.locales = { en: {}, pt: {} };
+        const messages = (localeFallbacks: unknown) =>
+            validateContent(
+                registry,
+                new Map(),
+                makeConfig({ localeFallbacks } as Partial<GameConfig>)
+            ).map((error) => error.message);
+
+        expect(messages({ pt: ['en'] })).not.toContainEqual(
+            expect.stringContaining('fallback')
+        );
+        expect(messages({ 'pt-BR': ['pt', 'es'] })).toEqual(
+            expect.arrayContaining([
+                'Locale fallback "pt-BR" has no locale file',
+                'Locale fallback "es" has no locale file',
+            ])
+        );
+        expect(messages({ pt: 'en' })).toContain(
+            'Game config "localeFallbacks" must list fallback locales for each locale'
+        );
+    });
+
     it('reports malformed game config without throwing', () => {
         const errors = validateContent(makeRegistry(), new Map(), {
             startLocation: '',
@@ -581,6 +641,35 @@ describe('validateContent', () => {
         );
     });
 
+    it('validates the conditions inside anyOf, allOf, and not groups', () => {
+        const registry = makeRegistry({
+            dialogues: {
+                test_dialogue: makeDialogueWithCondition({
+                    type: 'anyOf',
+                    conditions: [
+                        { type: 'hasItem', itemId: 'missing_item' },
+                        {
+                            type: 'not',
+                            condition: { type: 'hasFlag' },
+                        },
+                        { type: 'allOf', conditions: [] },
+                    ],
+                }),
+            },
+        });
+        const result = messages(registry);
+
+        expect(result).toContain(
+            'Node "start" condition "hasItem" references non-existent item "missing_item"'
+        );
+        expect(result).toContain(
+            'Node "start" condition "hasFlag" missing required "flag" argument'
+        );
+        expect(result).toContain(
+            'Node "start" condition "allOf" needs at least one condition'
+        );
+    });
+
     it('validates stat names used in conditions and effects', () => {
         const dialogue = makeDialogue([
             {
@@ -610,6 +699,142 @@ describe('validateContent', () => {
         );
     });
 
+    it('reports malformed expressions and unknown comparisons', () => {
+        const dialogue = makeDialogue([
+            {
+                type: 'addVariable',
+                variable: 'gold',
+                value: { expression: '{gold} * ' },
+            },
+        ]);
+        dialogue.nodes[0].conditions = [
+            {
+                type: 'variable',
+                variable: 'gold',
+                operator: '=>' as never,
+                value: 5,
+            },
+        ];
+        const result = messages(makeRegistry({ dialogues: { d: dialogue } }));
+
+        expect(
+            result.some((message) =>
+                message.startsWith(
+                    'Node "start" effect "addVariable" argument "value" has an invalid expression:'
+                )
+            )
+        ).toBe(true);
+        expect(result).toContain(
+            'Node "start" condition "variable" has unknown comparison "=>"'
+        );
+    });
+
+    it('type-checks the variables and characters an expression reads', () => {
+        const dialogue = makeDialogue([
+            { type: 'setVariable', variable: 'title', value: 'Sir' },
+            {
+                type: 'setVariable',
+                variable: 'price',
+                value: {
+                    expression:
+                        '{gold} + {title} + {tip} + relationship(ghost) + stat(player, luck)',
+                },
+            },
+        ]);
+        const result = validateContent(
+            makeRegistry({ dialogues: { d: dialogue } }),
+            new Map(),
+            makeConfig({ startVariables: { gold: 10 } })
+        ).map((error) => error.message);
+        const where =
+            'Node "start" effect "setVariable" expression "{gold} + {title} + {tip} + relationship(ghost) + stat(player, luck)"';
+
+        expect(result).toContain(
+            `${where} does arithmetic on variable "title", which only ever holds text`
+        );
+        expect(result).toContain(
+            `${where} reads variable "tip", which is never set`
+        );
+        expect(result).toContain(
+            `${where} references non-existent character "ghost"`
+        );
+        expect(result.filter((m) => m.startsWith(where))).toHaveLength(3);
+    });
+
+    it('checks the declarations in variables.yaml', () => {
+        const result = messages(
+            makeRegistry({
+                variableSchema: {
+                    flags: {
+                        metBartender: { default: 'yes' as never },
+                        'door-locked': {},
+                    },
+                    variables: {
+                        gold: { type: 'number', min: 10, max: 0 },
+                        mood: {
+                            type: 'enum',
+                            values: ['calm'],
+                            default: 'sad',
+                        },
+                        brave: { type: 'bool' as never },
+                        name: { type: 'string', max: 3 },
+                        hp: { type: 'number', default: 50, max: 20 },
+                    },
+                },
+            })
+        );
+
+        expect(result).toEqual([
+            'Declared flag "metBartender" default must be true or false',
+            'Declared flag "door-locked" must use only letters, numbers, and underscores',
+            'Declared variable "gold" min 10 is greater than its max 0',
+            'Declared variable "mood" default "sad" is not one of calm',
+            'Declared variable "brave" has type "bool", but variables hold numbers or text',
+            'Declared variable "name" has a max, but only number variables can be clamped',
+            'Declared variable "hp" default 50 is outside its min and max',
+        ]);
+    });
+
+    it('rejects undeclared and mistyped flags and variables', () => {
+        const dialogue = makeDialogue([
+            { type: 'setFlag', flag: 'metBartender' },
+            { type: 'setFlag', flag: 'metBartendr' },
+            { type: 'addVariable', variable: 'mood', value: 1 },
+            { type: 'setVariable', variable: 'mood', value: 'sad' },
+            { type: 'setVariable', variable: 'gold', value: 'lots' },
+            { type: 'setVariable', variable: 'glod', value: 5 },
+            {
+                type: 'setVariable',
+                variable: 'gold',
+                value: { expression: '{gold} + {mood}' },
+            },
+        ]);
+        const result = validateContent(
+            makeRegistry({
+                dialogues: { d: dialogue },
+                variableSchema: {
+                    flags: { metBartender: {} },
+                    variables: {
+                        gold: { type: 'number', min: 0, max: 100 },
+                        mood: { type: 'enum', values: ['calm', 'angry'] },
+                    },
+                },
+            }),
+            new Map(),
+            makeConfig({ startVariables: { gold: 500, mood: 'calm' } })
+        ).map((error) => error.message);
+
+        expect(result).toEqual([
+            'Node "start" effect "setFlag" uses flag "metBartendr", which is not declared in variables.yaml',
+            'Node "start" effect "addVariable" adds to it, but variable "mood" is declared as one of calm, angry',
+            'Node "start" effect "setVariable" sets it to "sad", but variable "mood" is declared as one of calm, angry',
+            'Node "start" effect "setVariable" sets it to "lots", but variable "gold" is declared as a number',
+            'Node "start" effect "setVariable" uses variable "glod", which is not declared in variables.yaml',
+            'Node "start" effect "setVariable" expression "{gold} + {mood}" reads it as a number, but variable "mood" is declared as one of calm, angry',
+            'Game config startVariables starts variable "gold" at 500, outside its declared min and max',
+        ]);
+    });
+
     it('reports duplicate choice IDs within a node', () => {
         const registry = makeRegistry({
             dialogues: {
@@ -645,4 +870,92 @@ describe('validateContent', () => {
             'Node "start" has duplicate choice ID "start_choice_yes"'
         );
     });
+
+    it('checks CALL targets and reports RETURNs no CALL reaches', () => {
+        const dialogue = (id: string, source: string) =>
+            parseDialogue(source, id);
+        const registry = makeRegistry({
+            dialogues: {
+                merchant: dialogue(
+                    'merchant',
+                    `NODE hub
+  NARRATOR: What'll it be?
+  CHOICE Rumours
+    CALL rumours
+    GOTO hub
+  END
+  CHOICE Haggle
+    CALL barter.haggle
+  END
+  CHOICE Ghost
+    CALL ghost
+  END
+  CHOICE Lost
+    CALL rumours.lost
+  END`
+                ),
+                rumours: dialogue(
+                    'rumours',
+                    `NODE start
+  NARRATOR: They say the mill is haunted.
+  GOTO done
+
+NODE done
+  RETURN`
+                ),
+                barter: dialogue(
+                    'barter',
+                    `NODE start
+  NARRATOR: Buying or selling?
+  RETURN
+
+NODE haggle
+  NARRATOR: My prices are fair.
+  RETURN`
+                ),
+                stray: dialogue(
+                    'stray',
+                    `NODE start
+  NARRATOR: Hello.
+  CHOICE Bye
+    RETURN
+  END`
+                ),
+            },
+        });
+
+        expect(messages(registry).filter((m) => /CALL|RETURN/.test(m))).toEqual(
+            [
+                'Node "start" RETURN is never reached from a CALL, so it would end the conversation',
+                'Node "start" RETURN is never reached from a CALL, so it would end the conversation',
+                'Node "hub" CALL references non-existent dialogue "ghost"',
+                'Node "hub" CALL "rumours.lost" points to a node that dialogue "rumours" does not have',
+            ]
+        );
+    });
+
+    it('plays dialogues out only once the rest of the content is valid', () => {
+        const guard = (speaker: string) =>
+            parseDialogue(
+                `NODE start
+  ${speaker}: Halt.
+  CHOICE Bribe
+    REQUIRE hasFlag rich
+  END
+  CHOICE Leave
+  END`,
+                'guard'
+            );
+        const hidden =
+            'Node "start" choice "start_choice_0_bribe" is never shown: its REQUIRE hasFlag rich never passes at this node';
+
+        expect(
+            messages(makeRegistry({ dialogues: { guard: guard('NARRATOR') } }))
+        ).toEqual([hidden]);
+        expect(
+            messages(makeRegistry({ dialogues: { guard: guard('GUARD') } }))
+        ).toEqual([
+            'Node "start" speaker "guard" is not an existing character',
+        ]);
+    });
 });
@@ -13,7 +13,7 @@ import { dirname, join } from 'path';
 import { generateAssetManifest } from './manifest';
 import { generateServiceWorker } from './service-worker';
 import { loadProject } from './load-project';
-import { validateContent } from './validate';
+import { blockingErrors, validateContent } from './validate';
 import { importFromProject } from './project-modules';
 import type { ValidationError } from './validate';
 import type * as Vite from 'vite';
@@ -70,10 +70,10 @@ export async function buildProject(
     onLog('Validating content...');
     const { registry, config, fileMap, parseErrors } =
         await loadProject(projectDir);
-    const errors = [
+    const errors = blockingErrors([
         ...parseErrors,
         ...validateContent(registry, fileMap, config),
-    ];
+    ]);
     if (errors.length > 0) {
         return {
             ok: false,
@@ -0,0 +1,93 @@
+/**
+ * The project's story coverage file.
+ *
+ * Playtests and playthrough runs each record which nodes, choices, IF
+ * branches and interludes they reached. This module keeps the merged counts
+ * in metadata/coverage.json, next to Studio's other notes, so coverage builds
+ * up across sessions and testers. The game never loads it.
+ */
+
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import {
+    emptyCoverage,
+    mergeCoverage,
+    parseCoverage,
+    summarizeCoverage,
+} from '@doodle-engine/core';
+import type { CoverageSummary, StoryCoverage } from '@doodle-engine/core';
+import { loadProject } from './load-project.js';
+import type { ValidationError } from './validate.js';
+
+/** Coverage file, relative to the project root. */
+export const COVERAGE_FILE = 'metadata/coverage.json';
+
+export interface CoverageReport {
+    /** Coverage compared with the project's content, or null if it did not load */
+    summary: CoverageSummary | null;
+    /** Content that did not load */
+    errors: ValidationError[];
+}
+
+/**
+ * Read the project's coverage file.
+ *
+ * @param projectDir - Project root
+ * @returns The merged coverage, or empty coverage when there is no file yet
+ * @throws Error when the file exists but does not hold coverage
+ */
+export async function readCoverage(projectDir: string): Promise<StoryCoverage> {
+    let source: string;
+    try {
+        source = await readFile(join(projectDir, COVERAGE_FILE), 'utf-8');
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') {
+            return emptyCoverage();
+        }
+        throw error;
+    }
+    try {
+        return parseCoverage(source);
+    } catch (error) {
+        throw new Error(
+            `${COVERAGE_FILE}: ${error instanceof Error ? error.message : String(error)}`
+        );
+    }
+}
+
+/**
+ * Add a session's coverage to the project's coverage file.
+ *
+ * @param projectDir - Project root
+ * @param coverage - Coverage to add
+ * @returns The merged coverage that was written
+ */
+export async function recordCoverage(
+    projectDir: string,
+    coverage: StoryCoverage
+): Promise<StoryCoverage> {
+    const merged = mergeCoverage(await readCoverage(projectDir), coverage);
+    const path = join(projectDir, COVERAGE_FILE);
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, JSON.stringify(merged, null, 2) + '\n');
+    return merged;
+}
+
+/**
+ * Compare the project's coverage file with its current content.
+ *
+ * @param projectDir - Project root
+ */
+export async function coverageReport(
+    projectDir: string
+): Promise<CoverageReport> {
+    const content = await loadProject(projectDir);
+    if (content.parseErrors.length > 0) {
+        return { summary: null, errors: content.parseErrors };
+    }
+    const coverage = await readCoverage(projectDir);
+    return {
+        summary: summarizeCoverage(coverage, content.registry),
+        errors: [],
+    };
+}
@@ -130,6 +130,8 @@ export async function createProject(
         'content/quests',
         'content/journal',
         'content/interludes',
+        'content/events',
+        'content/factions',
         'content/locales',
         'content/maps',
         'assets/images/banners',
@@ -158,6 +160,9 @@ export async function createProject(
             dev: 'doodle-engine dev',
             build: 'doodle-engine build',
             validate: 'doodle-engine validate',
+            test: 'doodle-engine test',
+            coverage: 'doodle-engine coverage',
+            locale: 'doodle-engine locale',
             theme: 'doodle-engine theme',
             preview: 'vite preview',
             typecheck: 'tsc --noEmit',
@@ -388,10 +393,11 @@ const ENGLISH_LOCALE_STARTER = `# ===================
 # ===================
 #
 # This project uses literal English text, so it does not need locale keys yet.
-# To localize a string later:
-# 1. Replace the text in a content file with a key such as @location.tavern.name
-# 2. Add that key and its English text below
-# 3. Copy this file to another language code, such as sv.yaml, and translate it
+# To localize it later:
+# 1. Run "npm run locale -- extract" to replace the text in dialogues and
+#    content files with keys such as @location.tavern.name, and add each key
+#    and its English text below
+# 2. Copy this file to another language code, such as sv.yaml, and translate it
 # Locale filenames become language codes automatically; no React changes are needed.
 #
 # ===================
@@ -0,0 +1,800 @@
+/**
+ * Dialogue state-space analysis: what a conversation can actually reach.
+ *
+ * Validation checks each dialogue's structure; this plays it out. Starting
+ * from every way into a dialogue, it follows every route the engine could
+ * take while tracking the flags and variables the dialogue reads and writes,
+ * then reports:
+ *
+ * - nodes no route reaches, because nothing leads to them or because every
+ *   route needs conditions that cannot hold on the way there
+ * - choices whose REQUIRE can never pass when their node is reached
+ * - nodes reached with none of their choices shown and nowhere to continue
+ * - nodes reached in a state from which no route leads out of the conversation
+ *
+ * Only flags and variables are tracked. A value is known when the dialogue
+ * set it on the way, or when nothing in the project ever changes it. Values
+ * that items, events, interludes, shops, exits, or locations change can
+ * shift between any two lines, so they are never known, and every other condition (items, quests,
+ * time, rolls) could go either way. A report therefore holds on every path.
+ */
+
+import {
+    clampVariable,
+    declaredDefaults,
+    isValueExpression,
+    leafConditions,
+    serializeCondition,
+    shopCurrency,
+} from '@doodle-engine/core';
+import type {
+    Condition,
+    ContentRegistry,
+    Dialogue,
+    DialogueNode,
+    Effect,
+    GameConfig,
+    VariableDeclaration,
+    VariableSchema,
+} from '@doodle-engine/core';
+import { fileMapKey } from './load-project.js';
+import type { ValidationError } from './validate.js';
+
+/**
+ * States explored per dialogue before giving up on it. A counter that a loop
+ * keeps adding to never repeats a state; rather than guess, such a dialogue
+ * is left unreported.
+ */
+const MAX_STATES = 5000;
+
+/** A variable's value, or null for one that was never set. */
+type Value = number | string | null;
+
+/** Who changes a flag or variable: only dialogues, or anything else too. */
+type Writer = 'dialogues' | 'anything';
+
+/** What is known for certain at one point in a conversation. */
+interface Facts {
+    flags: Record<string, boolean>;
+    variables: Record<string, Value>;
+}
+
+/** true or false when certain; undefined when it could go either way. */
+type Truth = boolean | undefined;
+
+/** The flags and variables the analysis may track, and their start values. */
+interface Scope {
+    flags: Set<string>;
+    variables: Set<string>;
+    /** Keys nothing ever changes, with the value they always hold. */
+    constant: Facts;
+    /** Declared variables, which effects keep inside their range. */
+    declarations: Record<string, VariableDeclaration>;
+}
+
+/** The conversation settled at a node, after the node's effects ran. */
+interface State {
+    nodeId: string;
+    facts: Facts;
+    /** Keys of the states the next player action or Continue can lead to. */
+    next: string[];
+    /** Some route from here ends or leaves the conversation. */
+    exits: boolean;
+}
+
+/** One dialogue explored to completion. */
+interface Exploration {
+    states: Map<string, State>;
+    /** Choice ids that some reached state shows, by node id. */
+    shown: Map<string, Set<string>>;
+    /** Nodes some state reaches with every choice hidden and no route on. */
+    stranded: Set<string>;
+}
+
+/**
+ * Explore every dialogue and report what it can never reach.
+ *
+ * @param registry - Content registry to analyze
+ * @param fileMap - Map of entity IDs to file paths (for error reporting)
+ * @param config - Game config; its start values are known until changed
+ * @returns Array of warnings; they do not block validation or a build
+ */
+export function analyzeDialogues(
+    registry: ContentRegistry,
+    fileMap: Map<string, string>,
+    config?: GameConfig
+): ValidationError[] {
+    const written = writers(registry);
+    const errors: ValidationError[] = [];
+
+    for (const dialogue of Object.values(registry.dialogues)) {
+        const entries = entryNodes(dialogue, registry);
+        if (entries.length === 0) continue;
+        const scope = scopeFor(
+            dialogue,
+            written,
+            registry.variableSchema,
+            config
+        );
+        const exploration = explore(dialogue, entries, scope, registry);
+        if (!exploration) continue;
+        const file =
+            fileMap.get(fileMapKey('dialogues', dialogue.id)) ||
+            `dialogues:${dialogue.id}`;
+        errors.push(
+            ...report(dialogue, entries, exploration, scope).map((error) => ({
+                file,
+                ...error,
+                severity: 'warning' as const,
+            }))
+        );
+    }
+    return errors;
+}
+
+/** The nodes a conversation can begin at: the start and every CALL target. */
+function entryNodes(dialogue: Dialogue, registry: ContentRegistry): string[] {
+    const entries = new Set<string>();
+    if (dialogue.nodes.some((node) => node.id === dialogue.startNode)) {
+        entries.add(dialogue.startNode);
+    }
+    for (const other of Object.values(registry.dialogues)) {
+        for (const node of other.nodes) {
+            for (const route of routesOf(node)) {
+                if (route.call?.dialogueId !== dialogue.id) continue;
+                const nodeId = route.call.nodeId ?? dialogue.startNode;
+                if (dialogue.nodes.some((n) => n.id === nodeId)) {
+                    entries.add(nodeId);
+                }
+            }
+        }
+    }
+    return [...entries];
+}
+
+function routesOf(node: DialogueNode) {
+    return [node, ...(node.conditionalBranches ?? []), ...node.choices];
+}
+
+/** The flag or variable an effect changes, keyed "flag:x" or "variable:x". */
+function writtenKey(effect: Effect): string | null {
+    switch (effect.type) {
+        case 'setFlag':
+        case 'clearFlag':
+            return `flag:${effect.flag}`;
+        case 'setVariable':
+        case 'addVariable':
+        case 'roll':
+            return `variable:${effect.variable}`;
+        default:
+            return null;
+    }
+}
+
+/** Every flag and variable some content changes, and what changes it. */
+function writers(registry: ContentRegistry): Map<string, Writer> {
+    const written = new Map<string, Writer>();
+    const record = (effects: Effect[] | undefined, writer: Writer) => {
+        for (const effect of effects ?? []) {
+            const key = writtenKey(effect);
+            if (key && written.get(key) !== 'anything')
+                written.set(key, writer);
+        }
+    };
+
+    for (const dialogue of Object.values(registry.dialogues)) {
+        for (const node of dialogue.nodes) {
+            record(node.effects, 'dialogues');
+            for (const route of [
+                ...(node.conditionalBranches ?? []),
+                ...node.choices,
+            ]) {
+                record(route.effects, 'dialogues');
+            }
+        }
+    }
+    // These run between the lines of a conversation or between two
+    // conversations: on Continue, when time passes, or when the player uses
+    // an item, trades, takes an exit, or arrives somewhere.
+    for (const interlude of Object.values(registry.interludes)) {
+        record(interlude.effects, 'anything');
+    }
+    for (const item of Object.values(registry.items)) {
+        for (const use of item.uses ?? []) record(use.effects, 'anything');
+    }
+    for (const event of Object.values(registry.events ?? {})) {
+        record(event.effects, 'anything');
+    }
+    for (const location of Object.values(registry.locations)) {
+        record(location.onEnter, 'anything');
+        record(location.onFirstEnter, 'anything');
+        for (const exit of location.exits ?? []) {
+            record(exit.effects, 'anything');
+        }
+    }
+    for (const character of Object.values(registry.characters)) {
+        if (character.shop) {
+            written.set(`variable:${shopCurrency(character.shop)}`, 'anything');
+        }
+    }
+    return written;
+}
+
+/** Every flag and variable a dialogue reads or writes. */
+function touchedKeys(dialogue: Dialogue): Set<string> {
+    const keys = new Set<string>();
+    const read = (conditions: Condition[] | undefined) => {
+        for (const leaf of (conditions ?? []).flatMap(leafConditions)) {
+            if (leaf.type === 'hasFlag' || leaf.type === 'notFlag') {
+                keys.add(`flag:${leaf.flag}`);
+            } else if (
+                leaf.type === 'variableEquals' ||
+                leaf.type === 'variableGreaterThan' ||
+                leaf.type === 'variableLessThan' ||
+                leaf.type === 'variable'
+            ) {
+                keys.add(`variable:${leaf.variable}`);
+            }
+        }
+    };
+    for (const node of dialogue.nodes) {
+        for (const route of [node, ...(node.conditionalBranches ?? [])]) {
+            for (const effect of route.effects ?? []) {
+                const key = writtenKey(effect);
+                if (key) keys.add(key);
+            }
+        }
+        read(node.conditionalBranches?.map((branch) => branch.condition));
+        for (const choice of node.choices) {
+            read(choice.conditions);
+            for (const effect of choice.effects ?? []) {
+                const key = writtenKey(effect);
+                if (key) keys.add(key);
+            }
+        }
+    }
+    return keys;
+}
+
+/**
+ * Flags and variables worth tracking in a dialogue: the ones it touches
+ * that only dialogues change. The ones nothing changes are constant, at
+ * their declared default unless the game config starts them elsewhere.
+ */
+function scopeFor(
+    dialogue: Dialogue,
+    written: Map<string, Writer>,
+    schema: VariableSchema | undefined,
+    config?: GameConfig
+): Scope {
+    const defaults = declaredDefaults(schema);
+    const startFlags = { ...defaults.flags, ...config?.startFlags };
+    const startVariables = {
+        ...defaults.variables,
+        ...config?.startVariables,
+    };
+    const scope: Scope = {
+        flags: new Set(),
+        variables: new Set(),
+        constant: { flags: {}, variables: {} },
+        declarations: schema?.variables ?? {},
+    };
+    for (const key of touchedKeys(dialogue)) {
+        const [type, id] = key.split(/:(.*)/s);
+        const writer = written.get(key);
+        if (writer === 'dialogues') {
+            (type === 'flag' ? scope.flags : scope.variables).add(id);
+        } else if (!writer && type === 'flag') {
+            scope.constant.flags[id] = startFlags[id] === true;
+        } else if (!writer) {
+            scope.constant.variables[id] = startVariables[id] ?? null;
+        }
+    }
+    return scope;
+}
+
+function stateKey(nodeId: string, facts: Facts): string {
+    const sorted = (record: Record<string, unknown>) =>
+        Object.keys(record)
+            .sort()
+            .map((key) => [key, record[key]]);
+    return JSON.stringify([
+        nodeId,
+        sorted(facts.flags),
+        sorted(facts.variables),
+    ]);
+}
+
+/**
+ * Follow every route from the entries, or null when the dialogue has more
+ * states than MAX_STATES.
+ */
+function explore(
+    dialogue: Dialogue,
+    entries: string[],
+    scope: Scope,
+    registry: ContentRegistry
+): Exploration | null {
+    const nodes = new Map(
+        [...dialogue.nodes].reverse().map((node) => [node.id, node])
+    );
+    const exploration: Exploration = {
+        states: new Map(),
+        shown: new Map(),
+        stranded: new Set(),
+    };
+    const queue: string[] = [];
+
+    /** Where a step lands: the keys of the states it settles in. */
+    interface Landing {
+        next: string[];
+        exits: boolean;
+    }
+    const land = (): Landing => ({ next: [], exits: false });
+
+    const enter = (nodeId: string, facts: Facts, out: Landing) => {
+        const node = nodes.get(nodeId);
+        if (!node) {
+            // A missing GOTO target is reported by validation; the engine
+            // ends the conversation there.
+            out.exits = true;
+            return;
+        }
+        const effects = node.effects ?? [];
+        const after = applyEffects(effects, facts, scope);
+        if (effects.some((effect) => effect.type === 'startDialogue')) {
+            out.exits = true;
+            return;
+        }
+        if (effects.some((effect) => effect.type === 'endDialogue')) {
+            out.exits = true;
+            // A node with text still shows it before the conversation closes.
+            if (!node.text) return;
+        }
+        const key = stateKey(node.id, after);
+        if (!exploration.states.has(key)) {
+            exploration.states.set(key, {
+                nodeId: node.id,
+                facts: after,
+                next: [],
+                exits: false,
+            });
+            queue.push(key);
+        }
+        out.next.push(key);
+    };
+
+    const follow = (
+        route: Pick<DialogueNode, 'next' | 'call' | 'returns'>,
+        facts: Facts,
+        out: Landing
+    ) => {
+        if (route.returns) {
+            out.exits = true;
+        } else if (route.call) {
+            // The called dialogue may end the conversation instead of
+            // returning, and anything it changes is unknown afterwards.
+            out.exits = true;
+            if (route.next && registry.dialogues[route.call.dialogueId]) {
+                enter(route.next, forget(facts, scope), out);
+            }
+        } else if (route.next) {
+            enter(route.next, facts, out);
+        } else {
+            out.exits = true;
+        }
+    };
+
+    const take = (
+        effects: Effect[] | undefined,
+        route: Pick<DialogueNode, 'next' | 'call' | 'returns'>,
+        facts: Facts,
+        out: Landing
+    ) => {
+        if (leaves(effects)) {
+            out.exits = true;
+            return;
+        }
+        follow(route, applyEffects(effects ?? [], facts, scope), out);
+    };
+
+    /** The engine's resolveNextNode: IF blocks in order, then the node. */
+    const resolveNext = (node: DialogueNode, facts: Facts, out: Landing) => {
+        let rest: Facts | null = facts;
+        for (const branch of node.conditionalBranches ?? []) {
+            if (!rest) return;
+            const passed = assume(branch.condition, true, rest, scope);
+            if (passed) {
+                const { next, call, returns } = branch;
+                take(
+                    branch.effects,
+                    next || call || returns
+                        ? { next: next ?? node.next, call, returns }
+                        : node,
+                    passed,
+                    out
+                );
+            }
+            rest = assume(branch.condition, false, rest, scope);
+        }
+        if (rest) follow(node, rest, out);
+    };
+
+    const start = land();
+    for (const entry of entries) {
+        enter(entry, { ...scope.constant }, start);
+    }
+
+    while (queue.length > 0) {
+        if (exploration.states.size > MAX_STATES) return null;
+        const state = exploration.states.get(queue.shift()!)!;
+        const node = nodes.get(state.nodeId)!;
+        const out = land();
+
+        if (node.choices.length === 0) {
+            resolveNext(node, state.facts, out);
+        } else {
+            const shown = exploration.shown.get(node.id) ?? new Set<string>();
+            exploration.shown.set(node.id, shown);
+            let noneShown: Facts | null = state.facts;
+            for (const choice of node.choices) {
+                const required = allOf(choice.conditions);
+                const facts = assume(required, true, state.facts, scope);
+                if (facts) {
+                    shown.add(choice.id);
+                    take(choice.effects, choice, facts, out);
+                }
+                noneShown =
+                    noneShown && assume(required, false, noneShown, scope);
+            }
+            // With no choice to show, the player can only Continue.
+            if (noneShown) {
+                const hidden = node.choices.every(
+                    (choice) =>
+                        evaluate(
+                            allOf(choice.conditions),
+                            state.facts,
+                            scope
+                        ) === false
+                );
+                if (hidden && endsWithoutRoute(node)) {
+                    exploration.stranded.add(node.id);
+                }
+                resolveNext(node, noneShown, out);
+            }
+        }
+
+        state.next = out.next;
+        state.exits = out.exits;
+    }
+    return exploration;
+}
+
+/** True when a node with no choice to show would simply end. */
+function endsWithoutRoute(node: DialogueNode): boolean {
+    return (
+        !node.next &&
+        !node.call &&
+        !node.returns &&
+        !node.conditionalBranches?.length
+    );
+}
+
+/** True when the effects end the conversation or start another one. */
+function leaves(effects: Effect[] | undefined): boolean {
+    return (effects ?? []).some(
+        (effect) =>
+            effect.type === 'endDialogue' || effect.type === 'startDialogue'
+    );
+}
+
+function allOf(conditions: Condition[] | undefined): Condition {
+    return { type: 'allOf', conditions: conditions ?? [] };
+}
+
+/** Forget every tracked value, keeping the constants. */
+function forget(facts: Facts, scope: Scope): Facts {
+    const keep = <T>(record: Record<string, T>, tracked: Set<string>) =>
+        Object.fromEntries(
+            Object.entries(record).filter(([key]) => !tracked.has(key))
+        );
+    return {
+        flags: keep(facts.flags, scope.flags),
+        variables: keep(facts.variables, scope.variables),
+    };
+}
+
+/** The facts after a list of effects runs. */
+function applyEffects(effects: Effect[], facts: Facts, scope: Scope): Facts {
+    let flags = facts.flags;
+    let variables = facts.variables;
+    const setFlag = (flag: string, value: boolean) => {
+        if (scope.flags.has(flag)) flags = { ...flags, [flag]: value };
+    };
+    const setVariable = (variable: string, value: Value | undefined) => {
+        if (!scope.variables.has(variable)) return;
+        variables = { ...variables };
+        if (value === undefined) delete variables[variable];
+        // The engine keeps declared variables inside their range
+        else
+            variables[variable] =
+                value === null
+                    ? null
+                    : clampVariable(value, scope.declarations[variable]);
+    };
+
+    for (const effect of effects) {
+        switch (effect.type) {
+            case 'setFlag':
+                setFlag(effect.flag, true);
+                break;
+            case 'clearFlag':
+                setFlag(effect.flag, false);
+                break;
+            case 'setVariable':
+                setVariable(
+                    effect.variable,
+                    isValueExpression(effect.value) ? undefined : effect.value
+                );
+                break;
+            case 'addVariable': {
+                const current = variables[effect.variable];
+                setVariable(
+                    effect.variable,
+                    isValueExpression(effect.value) || current === undefined
+                        ? undefined
+                        : typeof current === 'number'
+                          ? current + effect.value
+                          : effect.value
+                );
+                break;
+            }
+            case 'roll':
+                setVariable(effect.variable, undefined);
+                break;
+        }
+    }
+    return { flags, variables };
+}
+
+/** Whether a condition passes, as far as the facts can tell. */
+function evaluate(condition: Condition, facts: Facts, scope: Scope): Truth {
+    switch (condition.type) {
+        case 'hasFlag':
+            return facts.flags[condition.flag];
+        case 'notFlag': {
+            const value = facts.flags[condition.flag];
+            return value === undefined ? undefined : !value;
+        }
+        case 'variableEquals': {
+            const value = facts.variables[condition.variable];
+            if (value === undefined || isValueExpression(condition.value)) {
+                return undefined;
+            }
+            return value === condition.value;
+        }
+        case 'variableGreaterThan':
+        case 'variableLessThan':
+        case 'variable': {
+            const value = facts.variables[condition.variable];
+            if (value === undefined || isValueExpression(condition.value)) {
+                return undefined;
+            }
+            if (typeof value !== 'number') return false;
+            const operator =
+                condition.type === 'variable'
+                    ? condition.operator
+                    : condition.type === 'variableGreaterThan'
+                      ? '>'
+                      : '<';
+            return compare(value, operator, condition.value);
+        }
+        case 'anyOf': {
+            const parts = condition.conditions.map((part) =>
+                evaluate(part, facts, scope)
+            );
+            if (parts.includes(true)) return true;
+            return parts.every((part) => part === false) ? false : undefined;
+        }
+        case 'allOf': {
+            const parts = condition.conditions.map((part) =>
+                evaluate(part, facts, scope)
+            );
+            if (parts.includes(false)) return false;
+            return parts.every((part) => part === true) ? true : undefined;
+        }
+        case 'not': {
+            const value = evaluate(condition.condition, facts, scope);
+            return value === undefined ? undefined : !value;
+        }
+        default:
+            return undefined;
+    }
+}
+
+function compare(value: number, operator: string, expected: number): boolean {
+    switch (operator) {
+        case '==':
+            return value === expected;
+        case '!=':
+            return value !== expected;
+        case '<':
+            return value < expected;
+        case '<=':
+            return value <= expected;
+        case '>':
+            return value > expected;
+        case '>=':
+            return value >= expected;
+        default:
+            return false;
+    }
+}
+
+/**
+ * The facts on the side of a condition where it is `truth`, or null when
+ * the facts rule that side out.
+ */
+function assume(
+    condition: Condition,
+    truth: boolean,
+    facts: Facts,
+    scope: Scope
+): Facts | null {
+    const value = evaluate(condition, facts, scope);
+    if (value === !truth) return null;
+    if (value === truth) return facts;
+
+    switch (condition.type) {
+        case 'hasFlag':
+        case 'notFlag': {
+            if (!scope.flags.has(condition.flag)) return facts;
+            const set = condition.type === 'hasFlag' ? truth : !truth;
+            return {
+                ...facts,
+                flags: { ...facts.flags, [condition.flag]: set },
+            };
+        }
+        case 'variableEquals':
+            if (
+                !truth ||
+                !scope.variables.has(condition.variable) ||
+                isValueExpression(condition.value)
+            ) {
+                return facts;
+            }
+            return {
+                ...facts,
+                variables: {
+                    ...facts.variables,
+                    [condition.variable]: condition.value,
+                },
+            };
+        case 'not':
+            return assume(condition.condition, !truth, facts, scope);
+        case 'allOf':
+        case 'anyOf': {
+            // Every part of a passing allOf passes, and every part of a
+            // failing anyOf fails; the other two cases say nothing certain.
+            if ((condition.type === 'allOf') !== truth) return facts;
+            let narrowed: Facts | null = facts;
+            for (const part of condition.conditions) {
+                narrowed = narrowed && assume(part, truth, narrowed, scope);
+            }
+            return narrowed;
+        }
+        default:
+            return facts;
+    }
+}
+
+/** The problems an exploration shows, without their file. */
+function report(
+    dialogue: Dialogue,
+    entries: string[],
+    exploration: Exploration,
+    scope: Scope
+): Omit<ValidationError, 'file'>[] {
+    const errors: Omit<ValidationError, 'file'>[] = [];
+    const states = [...exploration.states.values()];
+    const reached = new Set(states.map((state) => state.nodeId));
+    const linked = linkedNodes(dialogue, entries);
+
+    // A state is trapped when none of the states it leads to can exit.
+    const canExit = new Set<State>();
+    const before = new Map<string, State[]>();
+    for (const state of states) {
+        for (const key of state.next) {
+            const list = before.get(key) ?? [];
+            list.push(state);
+            before.set(key, list);
+        }
+    }
+    const queue = states.filter((state) => state.exits);
+    for (const state of queue) canExit.add(state);
+    while (queue.length > 0) {
+        const state = queue.shift()!;
+        const key = stateKey(state.nodeId, state.facts);
+        for (const previous of before.get(key) ?? []) {
+            if (canExit.has(previous)) continue;
+            canExit.add(previous);
+            queue.push(previous);
+        }
+    }
+    const trapped = new Set(
+        states
+            .filter((state) => !canExit.has(state))
+            .map((state) => state.nodeId)
+    );
+
+    const seen = new Set<string>();
+    for (const node of dialogue.nodes) {
+        if (seen.has(node.id)) continue;
+        seen.add(node.id);
+
+        if (!reached.has(node.id)) {
+            errors.push(
+                linked.has(node.id)
+                    ? {
+                          message: `Node "${node.id}" is never reached: every route to it needs conditions that cannot be true there`,
+                          suggestion: `Check the REQUIRE and IF conditions on the routes that lead to ${node.id}`,
+                      }
+                    : {
+                          message: `Node "${node.id}" is never reached: no route from the start leads to it`,
+                          suggestion: `Add a GOTO ${node.id} from another node, or remove the node`,
+                      }
+            );
+            continue;
+        }
+
+        const shown = exploration.shown.get(node.id);
+        for (const choice of node.choices) {
+            if (shown?.has(choice.id)) continue;
+            const here = states.filter((state) => state.nodeId === node.id);
+            const failing = (choice.conditions ?? []).find((condition) =>
+                here.every(
+                    (state) => evaluate(condition, state.facts, scope) === false
+                )
+            );
+            errors.push({
+                message: failing
+                    ? `Node "${node.id}" choice "${choice.id}" is never shown: its REQUIRE ${serializeCondition(failing)} never passes at this node`
+                    : `Node "${node.id}" choice "${choice.id}" is never shown: its REQUIRE conditions never all pass at this node`,
+                suggestion: `Check which flags and variables are set before node ${node.id}`,
+            });
+        }
+
+        if (exploration.stranded.has(node.id)) {
+            errors.push({
+                message: `Node "${node.id}" can be reached with none of its choices shown, so the conversation ends there`,
+                suggestion:
+                    'Add a choice without REQUIRE, or a GOTO for when none of the choices are shown',
+            });
+        }
+
+        if (trapped.has(node.id)) {
+            errors.push({
+                message: `Node "${node.id}" can be reached in a state where no route leads out of the conversation`,
+                suggestion:
+                    'Add a choice or route that ends the conversation, or change the conditions that keep it looping',
+            });
+        }
+    }
+    return errors;
+}
+
+/** Nodes some route from an entry leads to, ignoring every condition. */
+function linkedNodes(dialogue: Dialogue, entries: string[]): Set<string> {
+    const linked = new Set<string>();
+    const queue = [...entries];
+    while (queue.length > 0) {
+        const id = queue.shift()!;
+        if (linked.has(id)) continue;
+        linked.add(id);
+        const node = dialogue.nodes.find((n) => n.id === id);
+        for (const route of node ? routesOf(node) : []) {
+            if (route.next) queue.push(route.next);
+        }
+    }
+    return linked;
+}
@@ -13,8 +13,35 @@ export { loadContent, loadProject, fileMapKey } from './load-project';
 export type { LoadedContent } from './load-project';
 
 // Validation (pure — returns a list of problems, no printing)
-export { validateContent } from './validate';
+export { validateContent, blockingErrors } from './validate';
 export type { ValidationError } from './validate';
+export { analyzeDialogues } from './dialogue-analysis';
+
+// Scripted playthroughs (headless story tests)
+export {
+    PLAYTHROUGHS_DIR,
+    parsePlaythrough,
+    runPlaythrough,
+    runPlaythroughs,
+} from './playthrough';
+export type {
+    PlaythroughAction,
+    PlaythroughStep,
+    PlaythroughExpectation,
+    PlaythroughScript,
+    PlaythroughFailure,
+    PlaythroughResult,
+    PlaythroughReport,
+} from './playthrough';
+
+// Story coverage file (merged across playtests and playthrough runs)
+export {
+    COVERAGE_FILE,
+    readCoverage,
+    recordCoverage,
+    coverageReport,
+} from './coverage';
+export type { CoverageReport } from './coverage';
 
 // Asset manifest
 export { generateAssetManifest } from './manifest';
@@ -52,6 +79,31 @@ export type {
     SwitchRendererThemeResult,
 } from './renderer-theme';
 
+// Translation exchange with XLIFF and PO files
+export {
+    exportTranslations,
+    importTranslations,
+    translationReport,
+    findKeyReferences,
+    formatTranslations,
+    parseTranslations,
+} from './translations';
+export { sourceLocaleOf } from '@doodle-engine/core';
+export type {
+    TranslationFormat,
+    KeyReference,
+    TranslationUnit,
+    TranslationReport,
+    TranslationExport,
+    TranslationImport,
+    ParsedTranslationUnit,
+    ParsedTranslations,
+} from './translations';
+
+// Moving inline text into the source locale
+export { extractLocaleKeys } from './locale-extract';
+export type { ExtractedKey, LocaleExtraction } from './locale-extract';
+
 // Comment-preserving YAML edits (for Studio's visual entity forms)
 export { applyYamlEdits } from './yaml-edit';
 export type { YamlEdit } from './yaml-edit';
@@ -2,8 +2,10 @@
  * Shared content loader, used by both the CLI (validate, build, dev) and Doodle
  * Studio.
  *
- * Loads YAML entities, locale files, dialogues, and game.yaml from a content
- * directory. Every file is read and parsed on its own, so one broken file
+ * Loads YAML entities, locale files, dialogues, game.yaml, and the optional
+ * player.yaml and variables.yaml from a content directory. The calendar and
+ * locale fallbacks in game.yaml are also placed on the registry, where
+ * conditions and snapshots read them. Every file is read and parsed on its own, so one broken file
  * becomes a reported problem (in parseErrors) instead of stopping the load or
  * hiding the files after it. Two files of the same type that claim the same id
  * are also reported; the first file (alphabetically) wins until the author
@@ -40,6 +42,8 @@ const ENTITY_TYPES = [
     { dir: 'quests', key: 'quests' },
     { dir: 'journal', key: 'journalEntries' },
     { dir: 'interludes', key: 'interludes' },
+    { dir: 'events', key: 'events' },
+    { dir: 'factions', key: 'factions' },
 ] as const;
 
 /**
@@ -78,6 +82,11 @@ export async function loadContent(
         quests: {},
         journalEntries: {},
         interludes: {},
+        events: {},
+        factions: {},
+        variableSchema: undefined,
+        calendar: undefined,
+        localeFallbacks: undefined,
         locales: {},
     };
 
@@ -158,6 +167,41 @@ export async function loadContent(
         // player.yaml is optional.
     }
 
+    const variablesPath = join(contentDir, 'variables.yaml');
+    try {
+        const source = await readFile(variablesPath, 'utf-8');
+        try {
+            const data = parseYaml(source) ?? {};
+            if (typeof data !== 'object' || Array.isArray(data)) {
+                parseErrors.push({
+                    file: relative(baseDir, variablesPath),
+                    message: 'variables.yaml must contain a YAML object',
+                    suggestion:
+                        'Declare flags under "flags:" and variables under "variables:"',
+                });
+            } else {
+                registry.variableSchema = {
+                    flags: data.flags ?? {},
+                    variables: data.variables ?? {},
+                };
+                fileMap.set(
+                    'variableSchema:variables',
+                    relative(baseDir, variablesPath)
+                );
+            }
+        } catch (error) {
+            parseErrors.push({
+                file: relative(baseDir, variablesPath),
+                message: `Could not read variables.yaml as YAML: ${
+                    error instanceof Error ? error.message : String(error)
+                }`,
+                suggestion: 'Fix the YAML syntax error in variables.yaml',
+            });
+        }
+    } catch {
+        // variables.yaml is optional.
+    }
+
     // Locale files (flat key-value YAML, keyed by filename)
     const localesDir = join(contentDir, 'locales');
     for (const file of await yamlFilesIn(localesDir)) {
@@ -167,6 +211,7 @@ export async function loadContent(
             const data = parseYaml(await readFile(filePath, 'utf-8'));
             const localeId = file.replace(/\.(yaml|yml)$/, '');
             registry.locales[localeId] = data ?? {};
+            fileMap.set(fileMapKey('locales', localeId), relPath);
         } catch (error) {
             parseErrors.push({
                 file: relPath,
@@ -245,6 +290,14 @@ export async function loadContent(
         }
     }
 
+    // The engine only sees the game config when a new game starts, so
+    // conditions and snapshots read the calendar and locale fallbacks from
+    // the registry.
+    if (config.calendar !== undefined) registry.calendar = config.calendar;
+    if (config.localeFallbacks !== undefined) {
+        registry.localeFallbacks = config.localeFallbacks;
+    }
+
     return { registry, fileMap, config, parseErrors };
 }
 
@@ -0,0 +1,287 @@
+/**
+ * Move inline text into the source locale.
+ *
+ * A project written in one language usually starts with literal text in its
+ * dialogues and YAML files. Extracting replaces each literal speaker line,
+ * choice, NOTIFY message, entity name or description, location description
+ * variant, and exit label with a generated @key, and writes the text under
+ * that key in the source locale (English, or the first locale by name). Only
+ * the text itself is replaced, in the dialogue's concrete syntax tree or over
+ * the YAML value, and new keys are added at the end of the locale, so every
+ * other byte of each file stays as written.
+ *
+ * Other text, such as character titles and biographies, quest stages, journal
+ * entries, item use labels, and interlude text, is not extracted yet.
+ *
+ * Keys come from where the text sits, such as dialogue.tavern.greet.choice.2
+ * or location.market.exit.north, so the same project always gets the same
+ * keys. Text that already uses a key is left alone, which makes a second run
+ * only pick up text written since the first. A generated key that is already
+ * taken by different text gets a numbered suffix.
+ */
+
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import {
+    parseDialogueCst,
+    printDialogueCst,
+    sourceLocaleOf,
+} from '@doodle-engine/core';
+import type { CstEdit, DialogueCst, Location } from '@doodle-engine/core';
+import { fileMapKey, loadProject } from './load-project.js';
+import { appendYamlEntries, replaceYamlScalars } from './yaml-edit.js';
+import type { YamlEdit } from './yaml-edit.js';
+import type { ValidationError } from './validate.js';
+
+/** One piece of text moved into the locale. */
+export interface ExtractedKey {
+    key: string;
+    text: string;
+    /** File the text came from, relative to the project root */
+    file: string;
+}
+
+export interface LocaleExtraction {
+    /** The locale the text was written to */
+    locale: string;
+    /** Its file, relative to the project root */
+    localeFile: string;
+    keys: ExtractedKey[];
+    /** Content files rewritten to use the keys */
+    files: string[];
+    /** Content that did not load; nothing is extracted when there is any */
+    errors: ValidationError[];
+}
+
+/** Entity folders whose top-level name and description are extracted. */
+const YAML_COLLECTIONS = [
+    { collection: 'locations', prefix: 'location' },
+    { collection: 'characters', prefix: 'character' },
+    { collection: 'items', prefix: 'item' },
+    { collection: 'maps', prefix: 'map' },
+    { collection: 'quests', prefix: 'quest' },
+    { collection: 'interludes', prefix: 'interlude' },
+    { collection: 'factions', prefix: 'faction' },
+    { collection: 'events', prefix: 'event' },
+] as const;
+
+const YAML_FIELDS = ['name', 'description'] as const;
+
+/** Literal text worth a key: not empty and not already a @key. */
+function isInlineText(text: unknown): text is string {
+    return (
+        typeof text === 'string' && text.trim() !== '' && !text.startsWith('@')
+    );
+}
+
+/**
+ * Replace inline text with generated keys and write the text to the source
+ * locale.
+ *
+ * @param projectDir - Project root
+ * @param options - With `dryRun`, report the keys without writing any file
+ */
+export async function extractLocaleKeys(
+    projectDir: string,
+    options: { dryRun?: boolean } = {}
+): Promise<LocaleExtraction> {
+    const { registry, fileMap, parseErrors } = await loadProject(projectDir);
+    const locale = sourceLocaleOf(registry) ?? 'en';
+    const localeFile =
+        fileMap.get(fileMapKey('locales', locale)) ??
+        join('content', 'locales', `${locale}.yaml`);
+    const result: LocaleExtraction = {
+        locale,
+        localeFile,
+        keys: [],
+        files: [],
+        errors: parseErrors,
+    };
+    if (parseErrors.length > 0) return result;
+
+    const taken = new Map<string, string>(
+        Object.entries(registry.locales[locale] ?? {}).map(([key, text]) => [
+            key,
+            String(text),
+        ])
+    );
+    /** The generated key for text, numbered when another text has it. */
+    const claim = (base: string, text: string, file: string): string => {
+        let key = base;
+        for (let n = 2; taken.has(key) && taken.get(key) !== text; n++) {
+            key = `${base}_${n}`;
+        }
+        if (!taken.has(key)) {
+            taken.set(key, text);
+            result.keys.push({ key, text, file });
+        }
+        return `@${key}`;
+    };
+
+    const writes = new Map<string, string>();
+
+    for (const dialogue of Object.values(registry.dialogues)) {
+        const file = fileMap.get(fileMapKey('dialogues', dialogue.id));
+        if (!file) continue;
+        const source = await readFile(join(projectDir, file), 'utf-8');
+        const edited = extractDialogue(
+            parseDialogueCst(source, dialogue.id),
+            (base, text) => claim(base, text, file)
+        );
+        if (edited !== null) writes.set(file, edited);
+    }
+
+    for (const { collection, prefix } of YAML_COLLECTIONS) {
+        const entities = (registry as unknown as Record<string, unknown>)[
+            collection
+        ] as Record<string, Record<string, unknown>> | undefined;
+        for (const [id, entity] of Object.entries(entities ?? {})) {
+            const file = fileMap.get(fileMapKey(collection, id));
+            if (!file) continue;
+            const edits: YamlEdit[] = [];
+            for (const field of YAML_FIELDS) {
+                const text = entity[field];
+                if (!isInlineText(text)) continue;
+                edits.push({
+                    path: [field],
+                    value: claim(`${prefix}.${id}.${field}`, text, file),
+                });
+            }
+            if (collection === 'locations') {
+                const location = entity as unknown as Location;
+                location.descriptions?.forEach((variant, index) => {
+                    if (!isInlineText(variant.text)) return;
+                    edits.push({
+                        path: ['descriptions', index, 'text'],
+                        value: claim(
+                            `${prefix}.${id}.description.${index + 1}`,
+                            variant.text,
+                            file
+                        ),
+                    });
+                });
+                location.exits?.forEach((exit, index) => {
+                    if (!isInlineText(exit.label)) return;
+                    edits.push({
+                        path: ['exits', index, 'label'],
+                        value: claim(
+                            `${prefix}.${id}.exit.${exit.id}`,
+                            exit.label,
+                            file
+                        ),
+                    });
+                });
+            }
+            if (edits.length === 0) continue;
+            const source = await readFile(join(projectDir, file), 'utf-8');
+            writes.set(file, replaceYamlScalars(source, edits));
+        }
+    }
+
+    result.files = [...writes.keys()];
+    if (options.dryRun || result.keys.length === 0) return result;
+
+    let localeSource = '';
+    try {
+        localeSource = await readFile(join(projectDir, localeFile), 'utf-8');
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code !== 'ENOENT') throw error;
+    }
+    // The locale is written first, so a content file never points at a key
+    // that is not there yet.
+    await mkdir(dirname(join(projectDir, localeFile)), { recursive: true });
+    await writeFile(
+        join(projectDir, localeFile),
+        appendYamlEntries(
+            localeSource,
+            Object.fromEntries(result.keys.map(({ key, text }) => [key, text]))
+        )
+    );
+    for (const [file, source] of writes) {
+        await writeFile(join(projectDir, file), source);
+    }
+    return result;
+}
+
+/**
+ * A dialogue's source with its inline text replaced by keys, or null when it
+ * has none. Only the text after the speaker, CHOICE, or NOTIFY is replaced;
+ * comments, blank lines, and indentation are left as they are.
+ */
+function extractDialogue(
+    cst: DialogueCst,
+    claim: (base: string, text: string) => string
+): string | null {
+    const edits: CstEdit[] = [];
+    for (const node of cst.nodes) {
+        const base = `dialogue.${cst.id}.${node.id}`;
+        const choices = node.choices.map((choice) => choice.headerLine);
+        let notifications = 0;
+        for (
+            let index = node.headerLine + 1;
+            index < cst.lines.length &&
+            cst.lines[index].start < node.contentEnd;
+            index++
+        ) {
+            const line = cst.lines[index];
+            if (line.blankOrComment || line.multilineContinuation) continue;
+
+            let key: string;
+            let keyword: number;
+            if (index === node.speakerLine) {
+                key = base;
+                keyword = line.content.indexOf(':') + 1;
+            } else if (choices.includes(index)) {
+                key = `${base}.choice.${choices.indexOf(index) + 1}`;
+                keyword = 'CHOICE'.length;
+            } else if (line.content.startsWith('NOTIFY ')) {
+                key = `${base}.notify.${++notifications}`;
+                keyword = 'NOTIFY'.length;
+            } else {
+                continue;
+            }
+
+            const token = textToken(cst, index, keyword);
+            if (isInlineText(token.text)) {
+                edits.push({ span: token.span, text: claim(key, token.text) });
+            }
+        }
+    }
+    return edits.length > 0 ? printDialogueCst(cst, edits) : null;
+}
+
+/**
+ * The text that starts `offset` characters into a line's code, with its span
+ * in the source. Quoted text may run onto the following lines; it is read the
+ * way the runtime parser reads it, so the text matches what players see.
+ */
+function textToken(
+    cst: DialogueCst,
+    index: number,
+    offset: number
+): { span: CstEdit['span']; text: string } {
+    const line = cst.lines[index];
+    let last = index;
+    while (cst.lines[last + 1]?.multilineContinuation) last++;
+    const end = cst.lines[last].contentStart + cst.lines[last].content.length;
+    const raw = cst.source.slice(line.contentStart + offset, end);
+    const start = end - raw.trimStart().length;
+
+    // Continuation lines lose the opening line's indentation, as in the parser.
+    const text = raw
+        .trim()
+        .split(/\r?\n/)
+        .map((part, n) =>
+            n === 0
+                ? part
+                : part.replace(new RegExp(`^[ \\t]{0,${line.indent}}`), '')
+        )
+        .join('\n');
+    return {
+        span: { start, end },
+        text:
+            text.length > 1 && text.startsWith('"') && text.endsWith('"')
+                ? text.slice(1, -1).replace(/\\(["\\])/g, '$1')
+                : text,
+    };
+}
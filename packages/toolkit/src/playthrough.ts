@@ -0,0 +1,658 @@
+/**
+ * Scripted playthroughs: story tests that run without a browser.
+ *
+ * A playthrough script is a YAML or JSON file that plays a project the way a
+ * player would (talk to a character, pick choices, travel, continue) and
+ * checks the state it reaches: flags, variables, quests, inventory, and where
+ * the conversation is. The runner drives a real Engine with no renderer, so
+ * the CLI can replay every script in CI.
+ *
+ * A failing step reports where the story was: the .dlg file and line of the
+ * node the conversation was in (or the choice it could not pick), plus the
+ * trace events the engine reported during that step. Every run also records
+ * story coverage: the nodes, choices, branches and interludes it reached.
+ *
+ * Like validation, this is pure logic with no console or color output; the
+ * CLI prints the results.
+ */
+
+import { readFile, readdir } from 'fs/promises';
+import { extname, join, relative, resolve } from 'path';
+import { LineCounter, isNode, isSeq, parseDocument } from 'yaml';
+import {
+    CoverageCollector,
+    Engine,
+    emptyCoverage,
+    getQuestStatus,
+    itemCount,
+    mergeCoverage,
+    parseDialogueCst,
+    serializeCondition,
+} from '@doodle-engine/core';
+import type {
+    DialogueCst,
+    GameState,
+    StoryCoverage,
+    TraceEvent,
+} from '@doodle-engine/core';
+import { fileMapKey, loadProject } from './load-project.js';
+import type { LoadedContent } from './load-project.js';
+import type { ValidationError } from './validate.js';
+
+/** Folder, under the project root, that holds playthrough scripts. */
+export const PLAYTHROUGHS_DIR = 'playthroughs';
+
+/** One thing the script does, in the order it is written. */
+export type PlaythroughAction =
+    | { type: 'talkTo'; characterId: string }
+    /** Pick a choice by its id, its text, or its @key. */
+    | { type: 'choose'; choice: string }
+    | { type: 'travel'; locationId: string }
+    | { type: 'continue'; times: number }
+    | { type: 'expect'; expect: PlaythroughExpectation };
+
+export type PlaythroughStep = PlaythroughAction & {
+    /** Line of the step in the script file. */
+    line?: number;
+};
+
+/**
+ * State a script expects at an `expect` step. Every field is optional; only
+ * the ones given are checked.
+ */
+export interface PlaythroughExpectation {
+    /** A flag that was never set counts as false. */
+    flags?: Record<string, boolean>;
+    variables?: Record<string, number | string>;
+    /** A quest status (not_started, active, complete) or a stage id. */
+    quests?: Record<string, string>;
+    /** Items the player carries, or exact counts (0 means not carried). */
+    inventory?: string[] | Record<string, number>;
+    location?: string;
+    /** The current dialogue, or null for no conversation. */
+    dialogue?: string | null;
+    /** The current node, or null for no conversation. */
+    node?: string | null;
+}
+
+export interface PlaythroughScript {
+    name: string;
+    /** Script file, relative to the project root. */
+    file: string;
+    /** Pins rolls so the playthrough replays the same way every run. */
+    seed?: number | string;
+    steps: PlaythroughStep[];
+}
+
+export interface PlaythroughFailure {
+    /** 1-based number of the failing step. */
+    step: number;
+    message: string;
+    /**
+     * Where the story was: the .dlg file and line of the current node or
+     * choice, or the script step when no conversation was involved.
+     */
+    file: string;
+    line?: number;
+    /** Trace events the engine reported during the failing step. */
+    trace: TraceEvent[];
+}
+
+export interface PlaythroughResult {
+    name: string;
+    /** Script file, relative to the project root. */
+    file: string;
+    /** Steps that ran, including a failing one. */
+    stepsRun: number;
+    failure: PlaythroughFailure | null;
+}
+
+export interface PlaythroughReport {
+    results: PlaythroughResult[];
+    /** Content that did not load and scripts that could not be read. */
+    errors: ValidationError[];
+    /** What the scripts reached, one session per script. */
+    coverage: StoryCoverage;
+}
+
+const EXPECTATION_KEYS = [
+    'flags',
+    'variables',
+    'quests',
+    'inventory',
+    'location',
+    'dialogue',
+    'node',
+];
+
+const STEP_EXAMPLES = {
+    talkTo: 'bartender',
+    choose: 'Ask about the rumours',
+    travel: 'market',
+};
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+    typeof value === 'object' && value !== null && !Array.isArray(value);
+
+/**
+ * Read a playthrough script from YAML or JSON source.
+ *
+ * @param source - The script text
+ * @param file - Script path, relative to the project root, for error reports
+ * @returns The script, or null with the problems that stopped it from loading
+ */
+export function parsePlaythrough(
+    source: string,
+    file: string
+): { script: PlaythroughScript | null; errors: ValidationError[] } {
+    const lineCounter = new LineCounter();
+    const doc = parseDocument(source, { lineCounter });
+    if (doc.errors.length > 0) {
+        return {
+            script: null,
+            errors: doc.errors.map((error) => ({
+                file,
+                line: error.linePos?.[0].line,
+                message: `Could not read this playthrough: ${error.message}`,
+                suggestion: 'Fix the YAML or JSON syntax error in this file',
+            })),
+        };
+    }
+
+    const data: unknown = doc.toJS();
+    const stepNodes = doc.get('steps');
+    if (!isRecord(data) || !Array.isArray(data.steps) || !isSeq(stepNodes)) {
+        return {
+            script: null,
+            errors: [
+                {
+                    file,
+                    message: 'A playthrough needs a "steps" list',
+                    suggestion:
+                        'Add steps such as "- talkTo: bartender" and "- expect: ..."',
+                },
+            ],
+        };
+    }
+
+    const errors: ValidationError[] = [];
+    const steps: PlaythroughStep[] = [];
+    data.steps.forEach((raw: unknown, index: number) => {
+        const item = stepNodes.items[index];
+        const offset = isNode(item) ? item.range?.[0] : undefined;
+        const line =
+            offset === undefined ? undefined : lineCounter.linePos(offset).line;
+        const step = parseStep(raw);
+        if (typeof step === 'string') {
+            errors.push({
+                file,
+                line,
+                message: `Step ${index + 1}: ${step}`,
+                suggestion:
+                    'Each step is one of talkTo, choose, travel, continue, or expect',
+            });
+        } else {
+            steps.push({ ...step, line });
+        }
+    });
+    if (errors.length > 0) return { script: null, errors };
+
+    const seed = data.seed;
+    return {
+        script: {
+            name:
+                typeof data.name === 'string'
+                    ? data.name
+                    : file.replace(/\.(ya?ml|json)$/, ''),
+            file,
+            ...((typeof seed === 'number' || typeof seed === 'string') && {
+                seed,
+            }),
+            steps,
+        },
+        errors: [],
+    };
+}
+
+/** A step from its parsed YAML value, or a message saying what is wrong. */
+function parseStep(raw: unknown): PlaythroughAction | string {
+    if (raw === 'continue') return { type: 'continue', times: 1 };
+    if (!isRecord(raw) || Object.keys(raw).length !== 1) {
+        return 'a step must have exactly one action, like "talkTo: bartender"';
+    }
+    const [[action, value]] = Object.entries(raw);
+    switch (action) {
+        case 'talkTo':
+        case 'choose':
+        case 'travel':
+            if (typeof value !== 'string' || value === '') {
+                return `"${action}" needs a name, like "${action}: ${STEP_EXAMPLES[action]}"`;
+            }
+            return action === 'talkTo'
+                ? { type: 'talkTo', characterId: value }
+                : action === 'choose'
+                  ? { type: 'choose', choice: value }
+                  : { type: 'travel', locationId: value };
+        case 'continue':
+            if (!Number.isInteger(value) || (value as number) < 1) {
+                return '"continue" takes how many times to continue, like "continue: 2"';
+            }
+            return { type: 'continue', times: value as number };
+        case 'expect':
+            return parseExpectation(value);
+        default:
+            return `"${action}" is not a step action`;
+    }
+}
+
+function parseExpectation(value: unknown): PlaythroughAction | string {
+    if (!isRecord(value)) {
+        return '"expect" needs the state to check, like "flags: { metBartender: true }"';
+    }
+    const unknown = Object.keys(value).find(
+        (key) => !EXPECTATION_KEYS.includes(key)
+    );
+    if (unknown) {
+        return `"expect" cannot check "${unknown}". It can check ${EXPECTATION_KEYS.join(', ')}`;
+    }
+    for (const key of ['flags', 'variables', 'quests'] as const) {
+        if (value[key] !== undefined && !isRecord(value[key])) {
+            return `"expect.${key}" must map each ${key.slice(0, -1)} to its value`;
+        }
+    }
+    const { inventory } = value;
+    if (
+        inventory !== undefined &&
+        !Array.isArray(inventory) &&
+        !isRecord(inventory)
+    ) {
+        return '"expect.inventory" must list item ids or map each item to a count';
+    }
+    return {
+        type: 'expect',
+        expect: value as PlaythroughExpectation,
+    };
+}
+
+/** The node the story is at, for pointing a failure at its .dlg line. */
+interface StoryPosition {
+    dialogueId: string;
+    nodeId: string;
+    /** Index of a choice in the node, to point at its CHOICE line instead. */
+    choiceIndex?: number;
+}
+
+class StepFailure extends Error {
+    constructor(
+        message: string,
+        readonly position?: StoryPosition
+    ) {
+        super(message);
+    }
+}
+
+/**
+ * Play one script against a fresh game.
+ *
+ * @param script - The playthrough to run
+ * @param content - The loaded project
+ * @param sources - .dlg source by dialogue id, used to find the line a
+ *   failure points at; without it a failure points at the file only
+ * @param coverage - Collector that records what the script reaches
+ */
+export function runPlaythrough(
+    script: PlaythroughScript,
+    content: LoadedContent,
+    sources: Record<string, string> = {},
+    coverage?: CoverageCollector
+): PlaythroughResult {
+    const { registry, fileMap, config } = content;
+    const engine = new Engine(registry);
+    let events: TraceEvent[] = [];
+    let lastNode: StoryPosition | null = null;
+    const record = (event: TraceEvent) => events.push(event);
+    engine.setTrace({
+        onNodeEnter: (event) => {
+            lastNode = { dialogueId: event.dialogueId, nodeId: event.nodeId };
+            record(event);
+            coverage?.onNodeEnter(event);
+        },
+        onCondition: (event) => {
+            record(event);
+            coverage?.onCondition(event);
+        },
+        onEffect: record,
+        onTransition: (event) => {
+            record(event);
+            coverage?.onTransition(event);
+        },
+        onChoiceFiltered: record,
+        onItemUse: record,
+        onInterlude: (event) => {
+            record(event);
+            coverage?.onInterlude(event);
+        },
+        onError: record,
+    });
+    engine.newGame(config, script.seed);
+
+    const here = (): StoryPosition | undefined => {
+        const dialogueState = engine.getState().dialogueState;
+        return dialogueState ?? lastNode ?? undefined;
+    };
+
+    const csts = new Map<string, DialogueCst | null>();
+    const locate = (
+        step: PlaythroughStep,
+        position: StoryPosition | undefined
+    ): { file: string; line?: number } => {
+        if (!position) return { file: script.file, line: step.line };
+        const file =
+            fileMap.get(fileMapKey('dialogues', position.dialogueId)) ??
+            fileMapKey('dialogues', position.dialogueId);
+        if (!csts.has(position.dialogueId)) {
+            const source = sources[position.dialogueId];
+            csts.set(
+                position.dialogueId,
+                source === undefined
+                    ? null
+                    : parseDialogueCst(source, position.dialogueId)
+            );
+        }
+        const node = csts
+            .get(position.dialogueId)
+            ?.nodes.find((n) => n.id === position.nodeId);
+        if (!node) return { file };
+        const choice =
+            position.choiceIndex === undefined
+                ? undefined
+                : node.choices[position.choiceIndex];
+        return { file, line: (choice?.headerLine ?? node.headerLine) + 1 };
+    };
+
+    for (const [index, step] of script.steps.entries()) {
+        events = [];
+        try {
+            runStep(engine, step, here);
+            const error = events.find((event) => event.kind === 'error');
+            if (error) {
+                throw new StepFailure(
+                    `The engine reported an error: ${error.message}`,
+                    here()
+                );
+            }
+        } catch (error) {
+            if (!(error instanceof StepFailure)) throw error;
+            return {
+                name: script.name,
+                file: script.file,
+                stepsRun: index + 1,
+                failure: {
+                    step: index + 1,
+                    message: error.message,
+                    ...locate(step, error.position),
+                    trace: events,
+                },
+            };
+        }
+    }
+    return {
+        name: script.name,
+        file: script.file,
+        stepsRun: script.steps.length,
+        failure: null,
+    };
+}
+
+function runStep(
+    engine: Engine,
+    step: PlaythroughStep,
+    here: () => StoryPosition | undefined
+): void {
+    const registry = engine.getRegistry();
+    switch (step.type) {
+        case 'talkTo': {
+            if (!registry.characters[step.characterId]) {
+                throw new StepFailure(
+                    `There is no character "${step.characterId}"`
+                );
+            }
+            engine.talkTo(step.characterId);
+            if (!engine.getState().dialogueState) {
+                throw new StepFailure(
+                    `Talking to "${step.characterId}" did not start a conversation`
+                );
+            }
+            return;
+        }
+        case 'choose':
+            return choose(engine, step.choice);
+        case 'travel': {
+            const from = engine.getState().currentLocation;
+            engine.travelTo(step.locationId);
+            if (engine.getState().currentLocation !== step.locationId) {
+                throw new StepFailure(
+                    `Could not travel from "${from}" to "${step.locationId}". Both must be on the same map, and the map must be enabled.`,
+                    here()
+                );
+            }
+            return;
+        }
+        case 'continue': {
+            for (let i = 0; i < step.times; i++) {
+                const snapshot = engine.getSnapshot();
+                if (!snapshot.dialogue) {
+                    throw new StepFailure(
+                        'There is no conversation to continue',
+                        here()
+                    );
+                }
+                if (snapshot.choices.length > 0) {
+                    throw new StepFailure(
+                        'The conversation is waiting for a choice, so it cannot continue',
+                        here()
+                    );
+                }
+                engine.continueDialogue();
+            }
+            return;
+        }
+        case 'expect': {
+            const problems = checkExpectation(
+                engine.getState(),
+                engine,
+                step.expect
+            );
+            if (problems.length > 0) {
+                throw new StepFailure(problems.join('\n'), here());
+            }
+            return;
+        }
+    }
+}
+
+/** Pick a choice by id, displayed text, or the text as written in the .dlg. */
+function choose(engine: Engine, wanted: string): void {
+    const dialogueState = engine.getState().dialogueState;
+    if (!dialogueState) {
+        throw new StepFailure(`There is no conversation to choose "${wanted}"`);
+    }
+    const node = engine
+        .getRegistry()
+        .dialogues[
+            dialogueState.dialogueId
+        ]?.nodes.find((n) => n.id === dialogueState.nodeId);
+    const offered = engine.getSnapshot().choices;
+    const index = (node?.choices ?? []).findIndex(
+        (choice) =>
+            choice.id === wanted ||
+            choice.text === wanted ||
+            offered.find((c) => c.id === choice.id)?.text === wanted
+    );
+    const position = { ...dialogueState };
+    if (index < 0) {
+        const names = offered.map((choice) => `"${choice.text}"`).join(', ');
+        throw new StepFailure(
+            `Node "${dialogueState.nodeId}" has no choice "${wanted}". ` +
+                (names ? `It offers ${names}.` : 'It offers no choices.'),
+            position
+        );
+    }
+    const choice = node!.choices[index];
+    const visibility = engine
+        .explainChoices()
+        .find((c) => c.choiceId === choice.id);
+    if (visibility && !visibility.visible) {
+        throw new StepFailure(
+            `Choice "${wanted}" is hidden because its REQUIRE ${serializeCondition(visibility.failedCondition!)} did not pass`,
+            { ...position, choiceIndex: index }
+        );
+    }
+    engine.selectChoice(choice.id);
+}
+
+/** Every way the state differs from what the script expects. */
+function checkExpectation(
+    state: GameState,
+    engine: Engine,
+    expect: PlaythroughExpectation
+): string[] {
+    const problems: string[] = [];
+    const show = (value: unknown) =>
+        value === undefined ? 'not set' : JSON.stringify(value);
+    const check = (label: string, actual: unknown, expected: unknown) => {
+        if (actual !== expected) {
+            problems.push(
+                `Expected ${label} to be ${show(expected)}, but it is ${show(actual)}`
+            );
+        }
+    };
+
+    for (const [flag, expected] of Object.entries(expect.flags ?? {})) {
+        check(`flag "${flag}"`, state.flags[flag] ?? false, expected);
+    }
+    for (const [variable, expected] of Object.entries(expect.variables ?? {})) {
+        check(`variable "${variable}"`, state.variables[variable], expected);
+    }
+    for (const [questId, expected] of Object.entries(expect.quests ?? {})) {
+        const isStatus = ['not_started', 'active', 'complete'].includes(
+            expected
+        );
+        check(
+            `quest "${questId}"`,
+            isStatus
+                ? getQuestStatus(questId, state, engine.getRegistry())
+                : state.questProgress[questId],
+            expected
+        );
+    }
+    const { inventory } = expect;
+    if (Array.isArray(inventory)) {
+        for (const itemId of inventory) {
+            if (itemCount(state, itemId) === 0) {
+                problems.push(
+                    `Expected the player to carry "${itemId}", but they do not`
+                );
+            }
+        }
+    } else if (inventory) {
+        for (const [itemId, expected] of Object.entries(inventory)) {
+            check(
+                `the count of "${itemId}"`,
+                itemCount(state, itemId),
+                expected
+            );
+        }
+    }
+    if (expect.location !== undefined) {
+        check('the location', state.currentLocation, expect.location);
+    }
+    if (expect.dialogue !== undefined) {
+        check(
+            'the dialogue',
+            state.dialogueState?.dialogueId ?? null,
+            expect.dialogue
+        );
+    }
+    if (expect.node !== undefined) {
+        check('the node', state.dialogueState?.nodeId ?? null, expect.node);
+    }
+    return problems;
+}
+
+/** Script files directly in a folder, sorted so runs are repeatable. */
+async function scriptFilesIn(dirPath: string): Promise<string[]> {
+    let files: string[];
+    try {
+        files = await readdir(dirPath);
+    } catch {
+        // No playthroughs folder means no scripts.
+        return [];
+    }
+    return files
+        .filter((file) => ['.yaml', '.yml', '.json'].includes(extname(file)))
+        .sort()
+        .map((file) => join(dirPath, file));
+}
+
+/**
+ * Load a project and run its playthrough scripts.
+ *
+ * Content that does not load cleanly is reported instead of played, since a
+ * broken dialogue would make every script fail in a confusing way.
+ *
+ * @param projectDir - The project root
+ * @param scriptPaths - Scripts to run; defaults to every script in
+ *   `<projectDir>/playthroughs`
+ */
+export async function runPlaythroughs(
+    projectDir: string,
+    scriptPaths?: string[]
+): Promise<PlaythroughReport> {
+    const content = await loadProject(projectDir);
+    if (content.parseErrors.length > 0) {
+        return {
+            results: [],
+            errors: content.parseErrors,
+            coverage: emptyCoverage(),
+        };
+    }
+
+    const sources: Record<string, string> = {};
+    for (const id of Object.keys(content.registry.dialogues)) {
+        const file = content.fileMap.get(fileMapKey('dialogues', id));
+        if (file) sources[id] = await readFile(join(projectDir, file), 'utf-8');
+    }
+
+    const paths =
+        scriptPaths && scriptPaths.length > 0
+            ? scriptPaths.map((path) => resolve(projectDir, path))
+            : await scriptFilesIn(join(projectDir, PLAYTHROUGHS_DIR));
+    const results: PlaythroughResult[] = [];
+    const errors: ValidationError[] = [];
+    let coverage = emptyCoverage();
+    for (const path of paths) {
+        const file = relative(projectDir, path);
+        let source: string;
+        try {
+            source = await readFile(path, 'utf-8');
+        } catch {
+            errors.push({
+                file,
+                message: 'Could not read this playthrough file',
+                suggestion: 'Check that the path is right',
+            });
+            continue;
+        }
+        const parsed = parsePlaythrough(source, file);
+        errors.push(...parsed.errors);
+        if (parsed.script) {
+            const collector = new CoverageCollector();
+            results.push(
+                runPlaythrough(parsed.script, content, sources, collector)
+            );
+            coverage = mergeCoverage(coverage, collector.coverage());
+        }
+    }
+    return { results, errors, coverage };
+}
@@ -0,0 +1,745 @@
+/**
+ * Translation exchange with XLIFF and PO files.
+ *
+ * Translators work in their own tools, not in YAML, so a locale can be
+ * exported as an XLIFF 1.2 or gettext PO file and the finished file imported
+ * back. Every key of the source locale (English, or the first locale by name
+ * when there is no English) becomes one unit, with its source text, the
+ * current translation if there is one, and notes saying where the key is used:
+ * the file and line, who speaks it in a dialogue, or the YAML field it fills.
+ *
+ * Importing merges translations into content/locales/<lang>.yaml through
+ * applyYamlEdits, so comments and key order in the locale file survive. A
+ * unit whose source text changed since the export is skipped and reported,
+ * because its translation was made for the old wording.
+ *
+ * Each import also notes, in metadata/translations.json, a hash of the source
+ * text and of the translation for every key it accepted. When the source text
+ * later changes while the translation is still the imported one, the report
+ * lists the key as stale. Translations made by hand have no note until they
+ * are next imported.
+ */
+
+import { createHash } from 'crypto';
+import { mkdir, readFile, writeFile } from 'fs/promises';
+import { dirname, join } from 'path';
+import { parseDialogueCst, sourceLocaleOf } from '@doodle-engine/core';
+import type { ContentRegistry } from '@doodle-engine/core';
+import { fileMapKey, loadProject } from './load-project.js';
+import { applyYamlEdits } from './yaml-edit.js';
+import type { YamlEdit } from './yaml-edit.js';
+import type { ValidationError } from './validate.js';
+
+export type TranslationFormat = 'xliff' | 'po';
+
+/** Where a localization key is used in the content. */
+export interface KeyReference {
+    /** File path relative to the project root */
+    file: string;
+    /** 1-based line number */
+    line: number;
+    /** Display name of the character who speaks the line, in dialogues */
+    speaker?: string;
+    /** What the text is: a YAML field name, or "choice" or "notification" in dialogues */
+    field?: string;
+}
+
+/** One key to translate. */
+export interface TranslationUnit {
+    key: string;
+    /** Text in the source locale */
+    source: string;
+    /** Text in the target locale, or null when it has none */
+    target: string | null;
+    references: KeyReference[];
+}
+
+/** What a locale still needs. */
+export interface TranslationReport {
+    sourceLocale: string;
+    locale: string;
+    /** Source keys the locale has no text for */
+    untranslated: string[];
+    /**
+     * Keys the locale still has but the source locale no longer does, and
+     * keys whose source text changed since their translation was imported
+     */
+    stale: string[];
+}
+
+export interface TranslationExport {
+    /** The XLIFF or PO file text, or null when the content did not load */
+    text: string | null;
+    report: TranslationReport | null;
+    /** Content that did not load */
+    errors: ValidationError[];
+}
+
+export interface TranslationImport {
+    /** The locale the translations were merged into */
+    locale: string;
+    /** Locale file written, relative to the project root */
+    file: string;
+    /** Keys whose text was added or changed */
+    imported: string[];
+    /** Keys whose source text changed since the file was exported */
+    outdated: string[];
+    /** Keys the source locale does not have */
+    unknown: string[];
+    /** What the locale still needs after the import */
+    report: TranslationReport | null;
+    errors: ValidationError[];
+}
+
+/** A unit read back from an XLIFF or PO file. */
+export interface ParsedTranslationUnit {
+    key: string;
+    source: string;
+    /** The translation, or null when the unit is untranslated or marked for review */
+    target: string | null;
+}
+
+export interface ParsedTranslations {
+    /** Target language named in the file, or null when it names none */
+    locale: string | null;
+    units: ParsedTranslationUnit[];
+}
+
+// A @key reference inside a line of content
+const KEY_REFERENCE = /(?:^|[\s'"[{:,])@([\w-]+(?:\.[\w-]+)*)/g;
+
+/** Source notes of imported translations, relative to the project root. */
+const SOURCE_NOTES_FILE = 'metadata/translations.json';
+
+/** What an imported translation was made from, as short text hashes. */
+interface SourceNote {
+    source: string;
+    target: string;
+}
+
+/** Source notes by locale, then by key. */
+type SourceNotes = Record<string, Record<string, SourceNote>>;
+
+/**
+ * Export a locale for translators.
+ *
+ * @param projectDir - Project root
+ * @param options - Target locale and file format
+ */
+export async function exportTranslations(
+    projectDir: string,
+    options: { locale: string; format: TranslationFormat }
+): Promise<TranslationExport> {
+    const content = await readTranslations(projectDir, options.locale);
+    if (!content.units || !content.report) {
+        return { text: null, report: null, errors: content.errors };
+    }
+    return {
+        text: formatTranslations(content.units, {
+            format: options.format,
+            sourceLocale: content.report.sourceLocale,
+            locale: options.locale,
+        }),
+        report: content.report,
+        errors: [],
+    };
+}
+
+/**
+ * Merge a translated XLIFF or PO file into its locale file.
+ *
+ * @param projectDir - Project root
+ * @param text - Contents of the translated file
+ * @param options - File format, and the locale when the file names none
+ * @throws Error when the file is not valid XLIFF or PO, or names no locale
+ */
+export async function importTranslations(
+    projectDir: string,
+    text: string,
+    options: { format: TranslationFormat; locale?: string }
+): Promise<TranslationImport> {
+    const parsed = parseTranslations(text, options.format);
+    const locale = options.locale ?? parsed.locale;
+    if (!locale) {
+        throw new Error(
+            'The file does not say which language it holds; pass the locale code'
+        );
+    }
+
+    const content = await loadProject(projectDir);
+    const file =
+        content.fileMap.get(fileMapKey('locales', locale)) ??
+        join('content', 'locales', `${locale}.yaml`);
+    const result: TranslationImport = {
+        locale,
+        file,
+        imported: [],
+        outdated: [],
+        unknown: [],
+        report: null,
+        errors: content.parseErrors,
+    };
+    if (content.parseErrors.length > 0) return result;
+
+    const sourceLocale = sourceLocaleOf(content.registry);
+    const sourceData = sourceLocale
+        ? (content.registry.locales[sourceLocale] ?? {})
+        : {};
+    const targetData = content.registry.locales[locale] ?? {};
+    const edits: YamlEdit[] = [];
+    const notes: Record<string, SourceNote> = {};
+    for (const unit of parsed.units) {
+        if (!(unit.key in sourceData)) {
+            result.unknown.push(unit.key);
+            continue;
+        }
+        if (unit.target === null || unit.target === '') continue;
+        if (String(sourceData[unit.key]) !== unit.source) {
+            result.outdated.push(unit.key);
+            continue;
+        }
+        notes[unit.key] = {
+            source: textHash(unit.source),
+            target: textHash(unit.target),
+        };
+        if (targetData[unit.key] === unit.target) continue;
+        edits.push({ path: [unit.key], value: unit.target });
+        result.imported.push(unit.key);
+    }
+
+    if (edits.length > 0) {
+        const path = join(projectDir, file);
+        let source = '';
+        try {
+            source = await readFile(path, 'utf-8');
+        } catch (error) {
+            if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+                throw error;
+            }
+        }
+        await mkdir(dirname(path), { recursive: true });
+        await writeFile(path, applyYamlEdits(source, edits));
+    }
+    if (Object.keys(notes).length > 0) {
+        const allNotes = await readSourceNotes(projectDir);
+        allNotes[locale] = { ...allNotes[locale], ...notes };
+        const path = join(projectDir, SOURCE_NOTES_FILE);
+        await mkdir(dirname(path), { recursive: true });
+        await writeFile(path, JSON.stringify(allNotes, null, 2) + '\n');
+    }
+
+    result.report = (await readTranslations(projectDir, locale)).report;
+    return result;
+}
+
+/**
+ * Report the keys a locale has not translated and the keys it keeps that the
+ * source locale dropped or reworded.
+ *
+ * @param projectDir - Project root
+ * @param locale - Locale to check, or every locale but the source when omitted
+ */
+export async function translationReport(
+    projectDir: string,
+    locale?: string
+): Promise<{ reports: TranslationReport[]; errors: ValidationError[] }> {
+    let locales = locale ? [locale] : [];
+    if (!locale) {
+        const { registry, parseErrors } = await loadProject(projectDir);
+        if (parseErrors.length > 0) return { reports: [], errors: parseErrors };
+        const sourceLocale = sourceLocaleOf(registry);
+        locales = Object.keys(registry.locales)
+            .sort()
+            .filter((id) => id !== sourceLocale);
+    }
+
+    const reports: TranslationReport[] = [];
+    for (const id of locales) {
+        const { report, errors } = await readTranslations(projectDir, id);
+        if (!report) return { reports: [], errors };
+        reports.push(report);
+    }
+    return { reports, errors: [] };
+}
+
+/**
+ * The keys used in the content, with the file, line, speaker, and field of
+ * each use. Locale files themselves are not scanned.
+ *
+ * @param projectDir - Project root
+ * @param registry - Loaded content, for speaker names
+ * @param fileMap - Source file of each entity, as loadProject returns it
+ */
+export async function findKeyReferences(
+    projectDir: string,
+    registry: ContentRegistry,
+    fileMap: Map<string, string>
+): Promise<Map<string, KeyReference[]>> {
+    const references = new Map<string, KeyReference[]>();
+    const add = (key: string, reference: KeyReference) => {
+        const list = references.get(key) ?? [];
+        list.push(reference);
+        references.set(key, list);
+    };
+
+    const files = new Set(
+        [...fileMap]
+            .filter(([key]) => !key.startsWith('locales:'))
+            .map(([, file]) => file)
+    );
+    files.add(join('content', 'game.yaml'));
+
+    const sourceLocale = sourceLocaleOf(registry);
+    const speakerName = (speakerId: string) => {
+        const name = registry.characters[speakerId]?.name;
+        if (typeof name !== 'string') return speakerId;
+        return name.startsWith('@')
+            ? String(
+                  (sourceLocale &&
+                      registry.locales[sourceLocale]?.[name.slice(1)]) ??
+                      speakerId
+              )
+            : name;
+    };
+
+    for (const file of [...files].sort()) {
+        let source: string;
+        try {
+            source = await readFile(join(projectDir, file), 'utf-8');
+        } catch {
+            continue;
+        }
+
+        if (file.endsWith('.dlg')) {
+            const cst = parseDialogueCst(source, file);
+            const kinds = new Map<
+                number,
+                Omit<KeyReference, 'file' | 'line'>
+            >();
+            for (const node of cst.nodes) {
+                if (node.speakerLine !== undefined) {
+                    const speaker = cst.lines[node.speakerLine].content
+                        .split(':')[0]
+                        .trim();
+                    kinds.set(
+                        node.speakerLine,
+                        speaker === 'NARRATOR'
+                            ? { field: 'narration' }
+                            : { speaker: speakerName(speaker.toLowerCase()) }
+                    );
+                }
+                for (const choice of node.choices) {
+                    kinds.set(choice.headerLine, { field: 'choice' });
+                }
+            }
+            cst.lines.forEach((line, index) => {
+                const kind =
+                    kinds.get(index) ??
+                    (/^NOTIFY\b/.test(line.content)
+                        ? { field: 'notification' }
+                        : {});
+                for (const match of line.content.matchAll(KEY_REFERENCE)) {
+                    add(match[1], { file, line: index + 1, ...kind });
+                }
+            });
+            continue;
+        }
+
+        source.split(/\r?\n/).forEach((line, index) => {
+            if (line.trimStart().startsWith('#')) return;
+            const field = /^\s*(?:-\s+)?([\w-]+)\s*:/.exec(line)?.[1];
+            for (const match of line.matchAll(KEY_REFERENCE)) {
+                add(match[1], {
+                    file,
+                    line: index + 1,
+                    ...(field ? { field } : {}),
+                });
+            }
+        });
+    }
+    return references;
+}
+
+/** Load the project and pair each source key with its translation. */
+async function readTranslations(
+    projectDir: string,
+    locale: string
+): Promise<{
+    units: TranslationUnit[] | null;
+    report: TranslationReport | null;
+    errors: ValidationError[];
+}> {
+    const content = await loadProject(projectDir);
+    if (content.parseErrors.length > 0) {
+        return { units: null, report: null, errors: content.parseErrors };
+    }
+    const { registry, fileMap } = content;
+    const sourceLocale = sourceLocaleOf(registry);
+    if (!sourceLocale) {
+        return {
+            units: null,
+            report: null,
+            errors: [
+                {
+                    file: 'content/locales',
+                    message: 'The project has no locale files to translate',
+                    suggestion:
+                        'Add content/locales/en.yaml with the text to translate',
+                },
+            ],
+        };
+    }
+
+    const references = await findKeyReferences(projectDir, registry, fileMap);
+    const sourceData = registry.locales[sourceLocale] ?? {};
+    const targetData = registry.locales[locale] ?? {};
+    const notes = (await readSourceNotes(projectDir))[locale] ?? {};
+    const units = Object.entries(sourceData).map(([key, source]) => {
+        const target = targetData[key];
+        return {
+            key,
+            source: String(source),
+            target:
+                target === undefined || target === null || target === ''
+                    ? null
+                    : String(target),
+            references: references.get(key) ?? [],
+        };
+    });
+
+    return {
+        units,
+        report: {
+            sourceLocale,
+            locale,
+            untranslated:
+                locale === sourceLocale
+                    ? []
+                    : units
+                          .filter((unit) => unit.target === null)
+                          .map((unit) => unit.key),
+            stale: Object.keys(targetData).filter((key) => {
+                if (!(key in sourceData)) return true;
+                // Reworded since the import, and the translation not redone
+                const note = notes[key];
+                return (
+                    note !== undefined &&
+                    note.source !== textHash(String(sourceData[key])) &&
+                    note.target === textHash(String(targetData[key]))
+                );
+            }),
+        },
+        errors: [],
+    };
+}
+
+/** A short hash of a text, to notice when it changes. */
+function textHash(text: string): string {
+    return createHash('sha256').update(text).digest('hex').slice(0, 16);
+}
+
+/**
+ * Read the source notes of imported translations.
+ *
+ * @throws Error when the file exists but is not valid JSON
+ */
+async function readSourceNotes(projectDir: string): Promise<SourceNotes> {
+    let source: string;
+    try {
+        source = await readFile(join(projectDir, SOURCE_NOTES_FILE), 'utf-8');
+    } catch (error) {
+        if ((error as NodeJS.ErrnoException).code === 'ENOENT') return {};
+        throw error;
+    }
+    try {
+        const notes: unknown = JSON.parse(source);
+        return notes !== null && typeof notes === 'object'
+            ? (notes as SourceNotes)
+            : {};
+    } catch (error) {
+        throw new Error(
+            `${SOURCE_NOTES_FILE}: ${error instanceof Error ? error.message : String(error)}`
+        );
+    }
+}
+
+/** "content/dialogues/tavern.dlg:4, spoken by Greta" */
+function describeReference(reference: KeyReference): string {
+    const where = `${reference.file}:${reference.line}`;
+    if (reference.speaker) return `${where}, spoken by ${reference.speaker}`;
+    return reference.field ? `${where}, ${reference.field}` : where;
+}
+
+/**
+ * Write translation units as an XLIFF 1.2 or PO file.
+ *
+ * @param units - Keys with their source text and translations
+ * @param options - File format and the source and target locales
+ * @returns The file text
+ */
+export function formatTranslations(
+    units: TranslationUnit[],
+    options: { format: TranslationFormat; sourceLocale: string; locale: string }
+): string {
+    return options.format === 'xliff'
+        ? formatXliff(units, options.sourceLocale, options.locale)
+        : formatPo(units, options.sourceLocale, options.locale);
+}
+
+/**
+ * Read the units of an XLIFF or PO file.
+ *
+ * @param text - File contents
+ * @param format - File format
+ * @throws Error when the text is not a file of that format
+ */
+export function parseTranslations(
+    text: string,
+    format: TranslationFormat
+): ParsedTranslations {
+    return format === 'xliff' ? parseXliff(text) : parsePo(text);
+}
+
+function escapeXml(text: string): string {
+    return text
+        .replace(/&/g, '&amp;')
+        .replace(/</g, '&lt;')
+        .replace(/>/g, '&gt;')
+        .replace(/"/g, '&quot;');
+}
+
+function unescapeXml(text: string): string {
+    return text
+        .replace(/<!\[CDATA\[([\s\S]*?)\]\]>/g, (_, data: string) =>
+            escapeXml(data)
+        )
+        .replace(/&#x([0-9a-f]+);/gi, (_, hex: string) =>
+            String.fromCodePoint(parseInt(hex, 16))
+        )
+        .replace(/&#(\d+);/g, (_, decimal: string) =>
+            String.fromCodePoint(Number(decimal))
+        )
+        .replace(/&lt;/g, '<')
+        .replace(/&gt;/g, '>')
+        .replace(/&quot;/g, '"')
+        .replace(/&apos;/g, "'")
+        .replace(/&amp;/g, '&');
+}
+
+function formatXliff(
+    units: TranslationUnit[],
+    sourceLocale: string,
+    locale: string
+): string {
+    const lines = [
+        '<?xml version="1.0" encoding="UTF-8"?>',
+        '<xliff version="1.2" xmlns="urn:oasis:names:tc:xliff:document:1.2">',
+        `  <file original="content/locales/${escapeXml(sourceLocale)}.yaml" source-language="${escapeXml(sourceLocale)}" target-language="${escapeXml(locale)}" datatype="plaintext">`,
+        '    <body>',
+    ];
+    for (const unit of units) {
+        const key = escapeXml(unit.key);
+        lines.push(
+            `      <trans-unit id="${key}" resname="${key}" xml:space="preserve">`,
+            `        <source>${escapeXml(unit.source)}</source>`
+        );
+        if (unit.target !== null) {
+            lines.push(
+                `        <target state="translated">${escapeXml(unit.target)}</target>`
+            );
+        }
+        for (const reference of unit.references) {
+            lines.push(
+                `        <note from="developer">${escapeXml(describeReference(reference))}</note>`
+            );
+        }
+        lines.push('      </trans-unit>');
+    }
+    lines.push('    </body>', '  </file>', '</xliff>', '');
+    return lines.join('\n');
+}
+
+// XLIFF 1.2 target states that mean the text is not a finished translation
+const UNFINISHED_STATES = new Set([
+    'new',
+    'needs-translation',
+    'needs-adaptation',
+    'needs-l10n',
+]);
+
+function parseXliff(text: string): ParsedTranslations {
+    if (!/<xliff\b/.test(text)) {
+        throw new Error('This is not an XLIFF file: it has no <xliff> element');
+    }
+    const attribute = (attributes: string, name: string) =>
+        new RegExp(`\\b${name}\\s*=\\s*(?:"([^"]*)"|'([^']*)')`).exec(
+            attributes
+        );
+    const attributeValue = (attributes: string, name: string) => {
+        const match = attribute(attributes, name);
+        return match ? unescapeXml(match[1] ?? match[2]) : null;
+    };
+
+    const fileTag = /<file\b([^>]*)>/.exec(text);
+    const units: ParsedTranslationUnit[] = [];
+    for (const match of text.matchAll(
+        /<trans-unit\b([^>]*)>([\s\S]*?)<\/trans-unit>/g
+    )) {
+        const key =
+            attributeValue(match[1], 'resname') ??
+            attributeValue(match[1], 'id');
+        if (!key) {
+            throw new Error('An XLIFF <trans-unit> has no id');
+        }
+        const source = /<source\b[^>]*>([\s\S]*?)<\/source>/.exec(match[2]);
+        if (!source) {
+            throw new Error(`XLIFF unit "${key}" has no <source>`);
+        }
+        const target = /<target\b([^>]*)>([\s\S]*?)<\/target>/.exec(match[2]);
+        const state = target ? attributeValue(target[1], 'state') : null;
+        units.push({
+            key,
+            source: unescapeXml(source[1]),
+            target:
+                target && !(state && UNFINISHED_STATES.has(state))
+                    ? unescapeXml(target[2])
+                    : null,
+        });
+    }
+    return {
+        locale: fileTag ? attributeValue(fileTag[1], 'target-language') : null,
+        units,
+    };
+}
+
+function escapePo(text: string): string {
+    return text
+        .replace(/\\/g, '\\\\')
+        .replace(/"/g, '\\"')
+        .replace(/\t/g, '\\t')
+        .replace(/\n/g, '\\n');
+}
+
+/** A PO keyword and its string, split after each newline when it has any. */
+function poField(keyword: string, text: string): string[] {
+    if (!text.includes('\n')) return [`${keyword} "${escapePo(text)}"`];
+    const pieces = text.split(/(?<=\n)/);
+    return [`${keyword} ""`, ...pieces.map((piece) => `"${escapePo(piece)}"`)];
+}
+
+function formatPo(
+    units: TranslationUnit[],
+    sourceLocale: string,
+    locale: string
+): string {
+    const lines = [
+        'msgid ""',
+        'msgstr ""',
+        `"Language: ${escapePo(locale)}\\n"`,
+        '"MIME-Version: 1.0\\n"',
+        '"Content-Type: text/plain; charset=UTF-8\\n"',
+        '"Content-Transfer-Encoding: 8bit\\n"',
+        `"X-Source-Language: ${escapePo(sourceLocale)}\\n"`,
+        '',
+    ];
+    for (const unit of units) {
+        const notes = new Set(
+            unit.references.flatMap((reference) =>
+                reference.speaker
+                    ? [`Spoken by ${reference.speaker}`]
+                    : reference.field
+                      ? [`Used as ${reference.field}`]
+                      : []
+            )
+        );
+        for (const note of notes) lines.push(`#. ${note}`);
+        for (const reference of unit.references) {
+            lines.push(`#: ${reference.file}:${reference.line}`);
+        }
+        lines.push(
+            ...poField('msgctxt', unit.key),
+            ...poField('msgid', unit.source),
+            ...poField('msgstr', unit.target ?? ''),
+            ''
+        );
+    }
+    return lines.join('\n');
+}
+
+function unescapePo(text: string): string {
+    return text.replace(/\\(.)/g, (_, char: string) =>
+        char === 'n' ? '\n' : char === 't' ? '\t' : char
+    );
+}
+
+function parsePo(text: string): ParsedTranslations {
+    type Entry = { flags: string[]; fields: Record<string, string> };
+    const entries: Entry[] = [];
+    let entry: Entry = { flags: [], fields: {} };
+    let field: string | null = null;
+    const finish = () => {
+        if ('msgid' in entry.fields) entries.push(entry);
+        entry = { flags: [], fields: {} };
+        field = null;
+    };
+
+    text.split(/\r?\n/).forEach((raw, index) => {
+        const line = raw.trim();
+        if (line === '') {
+            finish();
+            return;
+        }
+        if (line.startsWith('#')) {
+            // #~ marks an obsolete entry, kept by PO tools but not in use
+            if ('msgstr' in entry.fields) finish();
+            if (line.startsWith('#,')) {
+                entry.flags.push(
+                    ...line
+                        .slice(2)
+                        .split(',')
+                        .map((flag) => flag.trim())
+                );
+            }
+            return;
+        }
+        const keyword =
+            /^(msgctxt|msgid_plural|msgid|msgstr(?:\[\d+\])?)\s+"(.*)"$/.exec(
+                line
+            );
+        if (keyword) {
+            if (
+                'msgstr' in entry.fields &&
+                (keyword[1] === 'msgctxt' || keyword[1] === 'msgid')
+            ) {
+                finish();
+            }
+            field = keyword[1].replace(/\[0\]$/, '');
+            entry.fields[field] = unescapePo(keyword[2]);
+            return;
+        }
+        const continuation = /^"(.*)"$/.exec(line);
+        if (continuation && field) {
+            entry.fields[field] += unescapePo(continuation[1]);
+            return;
+        }
+        throw new Error(`PO line ${index + 1} is not valid: ${line}`);
+    });
+    finish();
+
+    let locale: string | null = null;
+    const units: ParsedTranslationUnit[] = [];
+    for (const { flags, fields } of entries) {
+        if (fields.msgid === '' && fields.msgctxt === undefined) {
+            locale =
+                /^Language:\s*(\S+)/m.exec(fields.msgstr ?? '')?.[1] ?? null;
+            continue;
+        }
+        const target = fields.msgstr ?? '';
+        units.push({
+            key: fields.msgctxt ?? fields.msgid,
+            source: fields.msgid,
+            target: target === '' || flags.includes('fuzzy') ? null : target,
+        });
+    }
+    return { locale, units };
+}
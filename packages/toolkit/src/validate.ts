@@ -9,17 +9,40 @@
  */
 
 import {
+    COMPARISON_OPERATORS,
+    clampVariable,
     conditionDescriptor,
     effectDescriptor,
+    expressionReferences,
+    fitsVariableType,
     isValidIdentifier,
+    isValueExpression,
+    messageArguments,
+    parseExpression,
+    shopCurrency,
 } from '@doodle-engine/core';
 import type { ContentRegistry } from '@doodle-engine/core';
 import type {
     ArgDescriptor,
+    CalendarConfig,
+    Character,
+    Condition,
     Dialogue,
+    DialogueCall,
     DialogueNode,
+    Effect,
+    Faction,
     GameConfig,
+    GameEvent,
+    Item,
+    ItemUse,
+    Location,
+    LocationExit,
+    ScheduleEntry,
+    VariableDeclaration,
+    VariableSchema,
 } from '@doodle-engine/core';
+import { analyzeDialogues } from './dialogue-analysis.js';
 import { fileMapKey } from './load-project.js';
 
 export interface ValidationError {
@@ -27,6 +50,21 @@ export interface ValidationError {
     line?: number;
     message: string;
     suggestion?: string;
+    /**
+     * 'warning' for findings that do not block validation or a build, such as
+     * the dialogue analysis. Unset means an error.
+     */
+    severity?: 'error' | 'warning';
+}
+
+/**
+ * The problems that block validation and builds: everything but warnings.
+ *
+ * @param problems - Problems from validateContent or a parse
+ * @returns The problems that are errors
+ */
+export function blockingErrors(problems: ValidationError[]): ValidationError[] {
+    return problems.filter((problem) => problem.severity !== 'warning');
 }
 
 /** The file an entity came from, or a "<collection>:<id>" label if unknown. */
@@ -43,7 +81,8 @@ function fileFor(
  *
  * @param registry - Content registry to validate
  * @param fileMap - Map of entity IDs to file paths (for error reporting)
- * @returns Array of validation errors
+ * @returns Array of validation errors, with dialogue analysis findings as
+ *   warnings (see blockingErrors)
  */
 export function validateContent(
     registry: ContentRegistry,
@@ -63,6 +102,7 @@ export function validateContent(
         const file = fileFor(fileMap, 'dialogues', dialogue.id);
         errors.push(...validateDialogue(dialogue, file));
     }
+    errors.push(...validateReturns(registry, fileMap));
 
     // Validate character dialogue references
     for (const character of Object.values(registry.characters)) {
@@ -90,14 +130,96 @@ export function validateContent(
         }
     }
 
+    // Schedule entry conditions decide where characters stand
+    for (const character of Object.values(registry.characters)) {
+        const file = fileFor(fileMap, 'characters', character.id);
+        for (const entry of scheduleEntries(character)) {
+            for (const condition of entry.conditions ?? []) {
+                errors.push(
+                    ...validateCondition(
+                        condition,
+                        `Character "${character.id}" schedule`,
+                        file
+                    )
+                );
+            }
+        }
+    }
+
+    // Item use conditions and effects run when the player uses the item
+    for (const item of Object.values(registry.items)) {
+        const file = fileFor(fileMap, 'items', item.id);
+        for (const use of itemUses(item)) {
+            const site = `Item "${item.id}" use "${use.id}"`;
+            for (const condition of use.conditions ?? []) {
+                errors.push(...validateCondition(condition, site, file));
+            }
+            for (const effect of use.effects ?? []) {
+                errors.push(...validateEffect(effect, site, file));
+            }
+        }
+    }
+
+    // Exit conditions decide which exits are offered; effects run on arrival
+    for (const location of Object.values(registry.locations)) {
+        const file = fileFor(fileMap, 'locations', location.id);
+        for (const exit of locationExits(location)) {
+            const site = `Location "${location.id}" exit "${exit.id}"`;
+            for (const condition of exit.conditions ?? []) {
+                errors.push(...validateCondition(condition, site, file));
+            }
+            for (const effect of exit.effects ?? []) {
+                errors.push(...validateEffect(effect, site, file));
+            }
+        }
+        // Description variants and entry effects are checked the same way
+        for (const { site, conditions, effects } of locationRules(location)) {
+            for (const condition of conditions) {
+                errors.push(...validateCondition(condition, site, file));
+            }
+            for (const effect of effects) {
+                errors.push(...validateEffect(effect, site, file));
+            }
+        }
+    }
+
+    // Timed event conditions and effects are checked the same way
+    for (const event of Object.values(registry.events ?? {})) {
+        const file = fileFor(fileMap, 'events', event.id);
+        const site = `Event "${event.id}"`;
+        for (const condition of event.conditions ?? []) {
+            errors.push(...validateCondition(condition, site, file));
+        }
+        for (const effect of event.effects ?? []) {
+            errors.push(...validateEffect(effect, site, file));
+        }
+    }
+
     // Validate map structure
     errors.push(...validateMaps(registry, fileMap));
 
+    // Validate the calendar in game.yaml
+    errors.push(...validateCalendar(registry.calendar));
+
     // Validate content references
     errors.push(...validateReferences(registry, fileMap, config));
 
+    // Type-check arithmetic expressions against the variables content sets
+    errors.push(...validateExpressions(registry, fileMap, config));
+
+    // With a variables.yaml, every flag and variable must be declared
+    errors.push(...validateVariableSchema(registry, fileMap, config));
+
     // Validate localization keys
     errors.push(...validateLocalizationKeys(registry, fileMap));
+    errors.push(...validateLocaleMessages(registry, fileMap));
+
+    // Play each dialogue out to find what it can never reach. This trusts
+    // the shapes checked above, so it only runs on content that passed them.
+    // Its findings are warnings: content can be deliberately unreachable.
+    if (errors.length === 0) {
+        errors.push(...analyzeDialogues(registry, fileMap, config));
+    }
 
     return errors;
 }
@@ -204,7 +326,15 @@ function validateCharacterStats(
 // every entity of that type; presentation extras like banners and music are
 // allowed to be absent.
 const REQUIRED_FIELDS: {
-    collection: Exclude<keyof ContentRegistry, 'player'>;
+    collection: Exclude<
+        keyof ContentRegistry,
+        | 'player'
+        | 'events'
+        | 'factions'
+        | 'variableSchema'
+        | 'calendar'
+        | 'localeFallbacks'
+    >;
     label: string;
     fields: string[];
 }[] = [
@@ -250,10 +380,14 @@ function validateIdentifiers(
         ['journalEntries', 'Journal entry'],
         ['interludes', 'Interlude'],
         ['dialogues', 'Dialogue'],
+        ['events', 'Event'],
+        ['factions', 'Faction'],
     ] as const;
 
     for (const [collection, label] of collections) {
-        for (const entity of Object.values(registry[collection]) as Array<{
+        for (const entity of Object.values(
+            registry[collection] ?? {}
+        ) as Array<{
             id: unknown;
         }>) {
             const id = String(entity.id);
@@ -283,6 +417,54 @@ function validateIdentifiers(
         }
     }
 
+    for (const character of Object.values(registry.characters)) {
+        const currency = character.shop?.currency;
+        if (hasValue(currency)) {
+            check(
+                currency,
+                `Character "${character.id}" shop currency`,
+                fileFor(fileMap, 'characters', character.id)
+            );
+        }
+    }
+
+    for (const item of Object.values(registry.items)) {
+        for (const use of itemUses(item)) {
+            if (hasValue(use.id)) {
+                check(
+                    use.id,
+                    `Item "${item.id}" use id`,
+                    fileFor(fileMap, 'items', item.id)
+                );
+            }
+        }
+    }
+
+    for (const location of Object.values(registry.locations)) {
+        for (const exit of locationExits(location)) {
+            if (hasValue(exit.id)) {
+                check(
+                    exit.id,
+                    `Location "${location.id}" exit id`,
+                    fileFor(fileMap, 'locations', location.id)
+                );
+            }
+        }
+    }
+
+    for (const event of Object.values(registry.events ?? {})) {
+        if (
+            event.trigger?.type === 'afterFlag' &&
+            hasValue(event.trigger.flag)
+        ) {
+            check(
+                event.trigger.flag,
+                `Event "${event.id}" trigger flag`,
+                fileFor(fileMap, 'events', event.id)
+            );
+        }
+    }
+
     if (config) {
         for (const flag of Object.keys(config.startFlags ?? {})) {
             check(flag, 'Game config flag', 'content/game.yaml');
@@ -364,1014 +546,3069 @@ function validateEntityShapes(
         }
     }
 
+    for (const location of Object.values(registry.locations)) {
+        const file = fileFor(fileMap, 'locations', location.id);
+        errors.push(...validateExitShapes(location, file));
+        errors.push(...validateLocationEntryShapes(location, file));
+    }
+
+    for (const character of Object.values(registry.characters)) {
+        const file = fileFor(fileMap, 'characters', character.id);
+        errors.push(...validateSchedule(character, file));
+        errors.push(...validateShop(character, registry, file));
+        errors.push(...validateCharacterFactions(character, file));
+        errors.push(
+            ...validateTiers(
+                character.tiers,
+                `Character "${character.id}"`,
+                file
+            )
+        );
+    }
+
+    for (const item of Object.values(registry.items)) {
+        const file = fileFor(fileMap, 'items', item.id);
+        for (const stat of ['price', 'sellPrice']) {
+            const value = item.stats?.[stat];
+            if (
+                value !== undefined &&
+                !(
+                    typeof value === 'number' &&
+                    Number.isFinite(value) &&
+                    value >= 0
+                )
+            ) {
+                errors.push({
+                    file,
+                    message: `Item "${item.id}" ${stat} must be a number of 0 or more`,
+                    suggestion: `Set ${stat} to an amount of the shop's currency, for example 20`,
+                });
+            }
+        }
+        errors.push(...validateItemUseShapes(item, file));
+    }
+
+    for (const event of Object.values(registry.events ?? {})) {
+        errors.push(
+            ...validateEventTrigger(event, fileFor(fileMap, 'events', event.id))
+        );
+    }
+
+    for (const faction of Object.values(registry.factions ?? {})) {
+        errors.push(
+            ...validateFaction(
+                faction,
+                fileFor(fileMap, 'factions', faction.id)
+            )
+        );
+    }
+
     return errors;
 }
 
-function validateReferences(
-    registry: ContentRegistry,
-    fileMap: Map<string, string>,
-    config?: GameConfig
+/** The well-formed entries of a character's schedule; shape errors are
+ * reported separately by validateSchedule. */
+function scheduleEntries(character: Character): ScheduleEntry[] {
+    return Array.isArray(character.schedule)
+        ? character.schedule.filter(
+              (entry) => entry !== null && typeof entry === 'object'
+          )
+        : [];
+}
+
+/** The well-formed uses of an item; shape errors are reported separately by
+ * validateItemUseShapes. */
+function itemUses(item: Item): ItemUse[] {
+    return Array.isArray(item.uses)
+        ? item.uses.filter((use) => use !== null && typeof use === 'object')
+        : [];
+}
+
+/** Check the shape of each use an item lists. */
+function validateItemUseShapes(item: Item, file: string): ValidationError[] {
+    const errors: ValidationError[] = [];
+    if (item.uses === undefined) return errors;
+    if (!Array.isArray(item.uses)) {
+        errors.push({
+            file,
+            message: `Item "${item.id}" uses must be a list of uses`,
+            suggestion: 'Write each use as { id, label, effects } under uses',
+        });
+        return errors;
+    }
+
+    const seen = new Set<string>();
+    item.uses.forEach((use, index) => {
+        const subject = `Item "${item.id}" use ${index + 1}`;
+        for (const field of ['id', 'label'] as const) {
+            if (typeof use?.[field] !== 'string' || use[field] === '') {
+                errors.push({
+                    file,
+                    message: `${subject} is missing "${field}"`,
+                    suggestion:
+                        field === 'id'
+                            ? 'Give the use an id, for example drink'
+                            : 'Set label to the button text, for example Drink',
+                });
+            }
+        }
+        if (typeof use?.id === 'string' && use.id !== '') {
+            if (seen.has(use.id)) {
+                errors.push({
+                    file,
+                    message: `Item "${item.id}" has more than one use "${use.id}"`,
+                    suggestion: 'Give each use of an item its own id',
+                });
+            }
+            seen.add(use.id);
+        }
+    });
+    return errors;
+}
+
+/** The well-formed exits of a location; shape errors are reported separately
+ * by validateExitShapes. */
+function locationExits(location: Location): LocationExit[] {
+    return Array.isArray(location.exits)
+        ? location.exits.filter(
+              (exit) => exit !== null && typeof exit === 'object'
+          )
+        : [];
+}
+
+/** Check the shape of each exit a location lists. */
+function validateExitShapes(
+    location: Location,
+    file: string
 ): ValidationError[] {
     const errors: ValidationError[] = [];
+    if (location.exits === undefined) return errors;
+    if (!Array.isArray(location.exits)) {
+        errors.push({
+            file,
+            message: `Location "${location.id}" exits must be a list of exits`,
+            suggestion: 'Write each exit as { id, label, target } under exits',
+        });
+        return errors;
+    }
 
-    if (config) {
-        if (typeof config.title !== 'string' || !config.title.trim()) {
-            errors.push({
-                file: 'content/game.yaml',
-                message: 'Game config missing required "title"',
-                suggestion: 'Set title to the name players should see',
-            });
+    const seen = new Set<string>();
+    location.exits.forEach((exit, index) => {
+        const subject = `Location "${location.id}" exit ${index + 1}`;
+        for (const field of ['id', 'label', 'target'] as const) {
+            if (typeof exit?.[field] !== 'string' || exit[field] === '') {
+                errors.push({
+                    file,
+                    message: `${subject} is missing "${field}"`,
+                    suggestion:
+                        field === 'id'
+                            ? 'Give the exit an id, for example north'
+                            : field === 'label'
+                              ? 'Set label to the button text, for example North to the cellar'
+                              : 'Set target to the ID of the location the exit leads to',
+                });
+            }
         }
         if (
-            config.subtitle !== undefined &&
-            typeof config.subtitle !== 'string'
+            exit?.hours !== undefined &&
+            !(
+                typeof exit.hours === 'number' &&
+                Number.isFinite(exit.hours) &&
+                exit.hours >= 0
+            )
         ) {
             errors.push({
-                file: 'content/game.yaml',
-                message: 'Game config "subtitle" must be text',
-                suggestion: 'Write the subtitle as text or remove it',
+                file,
+                message: `${subject} hours must be a number of 0 or more`,
+                suggestion:
+                    'Set hours to how long the trip takes, for example 1',
             });
         }
-
-        if (!hasValue(config.startLocation)) {
-            errors.push({
-                file: 'content/game.yaml',
-                message: 'Game config missing required "startLocation"',
-                suggestion: 'Set startLocation to an existing location ID',
-            });
-        } else if (!registry.locations[config.startLocation]) {
-            errors.push({
-                file: 'content/game.yaml',
-                message: `Game config startLocation "${config.startLocation}" does not exist`,
-                suggestion: `Create location "${config.startLocation}" or update startLocation`,
-            });
+        if (typeof exit?.id === 'string' && exit.id !== '') {
+            if (seen.has(exit.id)) {
+                errors.push({
+                    file,
+                    message: `Location "${location.id}" has more than one exit "${exit.id}"`,
+                    suggestion: 'Give each exit of a location its own id',
+                });
+            }
+            seen.add(exit.id);
         }
+    });
+    return errors;
+}
 
-        if (
-            !config.startTime ||
-            config.startTime.day === undefined ||
-            config.startTime.hour === undefined
-        ) {
-            errors.push({
-                file: 'content/game.yaml',
-                message:
-                    'Game config missing required "startTime.day" or "startTime.hour"',
-                suggestion: 'Set startTime.day and startTime.hour',
+/** The conditions and effects of a location's description variants and
+ * entry effects, each with the site to report them under. Malformed entries
+ * are skipped; validateLocationEntryShapes reports them. */
+function locationRules(location: Location): Omit<RuleSite, 'file'>[] {
+    const subject = `Location "${location.id}"`;
+    const rules: Omit<RuleSite, 'file'>[] = [];
+    if (Array.isArray(location.descriptions)) {
+        location.descriptions.forEach((variant, index) => {
+            if (variant === null || typeof variant !== 'object') return;
+            rules.push({
+                site: `${subject} description ${index + 1}`,
+                conditions: Array.isArray(variant.conditions)
+                    ? variant.conditions
+                    : [],
+                effects: [],
+            });
+        });
+    }
+    for (const field of ['onFirstEnter', 'onEnter'] as const) {
+        const effects = location[field];
+        if (Array.isArray(effects)) {
+            rules.push({
+                site: `${subject} ${field}`,
+                conditions: [],
+                effects,
             });
         }
+    }
+    return rules;
+}
 
-        if (!Array.isArray(config.startInventory)) {
+/** Check the shape of a location's description variants and entry effects. */
+function validateLocationEntryShapes(
+    location: Location,
+    file: string
+): ValidationError[] {
+    const errors: ValidationError[] = [];
+    if (location.descriptions !== undefined) {
+        if (!Array.isArray(location.descriptions)) {
             errors.push({
-                file: 'content/game.yaml',
-                message: 'Game config startInventory must be an array',
-                suggestion: 'Set startInventory to [] or a list of item IDs',
+                file,
+                message: `Location "${location.id}" descriptions must be a list of variants`,
+                suggestion:
+                    'Write each variant as { text, conditions } under descriptions',
             });
         } else {
-            for (const itemId of config.startInventory) {
-                if (!registry.items[itemId]) {
+            location.descriptions.forEach((variant, index) => {
+                const subject = `Location "${location.id}" description ${index + 1}`;
+                if (typeof variant?.text !== 'string') {
                     errors.push({
-                        file: 'content/game.yaml',
-                        message: `Game config startInventory references non-existent item "${itemId}"`,
-                        suggestion: `Create item "${itemId}" or remove it from startInventory`,
+                        file,
+                        message: `${subject} is missing "text"`,
+                        suggestion:
+                            'Set text to the description to show, for example The tavern is dark',
                     });
                 }
-            }
+                if (
+                    variant?.conditions !== undefined &&
+                    !Array.isArray(variant.conditions)
+                ) {
+                    errors.push({
+                        file,
+                        message: `${subject} conditions must be a list of conditions`,
+                        suggestion:
+                            'Write each condition under conditions, for example { type: hasFlag, flag: fireHappened }',
+                    });
+                }
+            });
         }
     }
-
-    for (const character of Object.values(registry.characters)) {
-        if (character.location && !registry.locations[character.location]) {
+    for (const field of ['onFirstEnter', 'onEnter'] as const) {
+        if (location[field] !== undefined && !Array.isArray(location[field])) {
             errors.push({
-                file: fileFor(fileMap, 'characters', character.id),
-                message: `Character "${character.id}" starts at non-existent location "${character.location}"`,
-                suggestion: `Create location "${character.location}" or update the character location`,
+                file,
+                message: `Location "${location.id}" ${field} must be a list of effects`,
+                suggestion: `Write each effect under ${field}, for example { type: setFlag, flag: visitedTavern }`,
             });
         }
     }
+    return errors;
+}
 
-    for (const item of Object.values(registry.items)) {
-        if (
-            item.location &&
-            item.location !== 'inventory' &&
-            !registry.locations[item.location] &&
-            !registry.characters[item.location]
-        ) {
+/** True for a whole number from `min` to `max`, inclusive. */
+function isWholeNumber(value: unknown, min: number, max = Infinity): boolean {
+    return (
+        typeof value === 'number' &&
+        Number.isInteger(value) &&
+        value >= min &&
+        value <= max
+    );
+}
+
+/** Check the shape of each entry in a character's schedule. */
+function validateSchedule(
+    character: Character,
+    file: string
+): ValidationError[] {
+    const errors: ValidationError[] = [];
+    if (character.schedule === undefined) return errors;
+    if (!Array.isArray(character.schedule)) {
+        errors.push({
+            file,
+            message: `Character "${character.id}" schedule must be a list of entries`,
+            suggestion:
+                'Write each entry as { location, startHour, endHour } under schedule',
+        });
+        return errors;
+    }
+
+    character.schedule.forEach((entry, index) => {
+        const subject = `Character "${character.id}" schedule entry ${index + 1}`;
+        if (!hasValue(entry?.location)) {
             errors.push({
-                file: fileFor(fileMap, 'items', item.id),
-                message: `Item "${item.id}" starts at non-existent location or character "${item.location}"`,
-                suggestion: `Use "inventory", an existing location ID, or an existing character ID`,
+                file,
+                message: `${subject} is missing "location"`,
+                suggestion:
+                    'Set location to where the character is at these hours',
             });
         }
-    }
-
-    for (const dialogue of Object.values(registry.dialogues)) {
-        const file = fileFor(fileMap, 'dialogues', dialogue.id);
+        for (const field of ['startHour', 'endHour'] as const) {
+            if (!isWholeNumber(entry?.[field], 0, 23)) {
+                errors.push({
+                    file,
+                    message: `${subject} ${field} must be a whole number from 0 to 23`,
+                    suggestion: 'Use the 24-hour clock, for example 9 or 18',
+                });
+            }
+        }
         if (
-            dialogue.triggerLocation &&
-            !registry.locations[dialogue.triggerLocation]
+            entry?.days !== undefined &&
+            (!Array.isArray(entry.days) ||
+                !entry.days.every((day) => isWholeNumber(day, 1)))
         ) {
             errors.push({
                 file,
-                message: `Dialogue "${dialogue.id}" triggers at non-existent location "${dialogue.triggerLocation}"`,
-                suggestion: `Create location "${dialogue.triggerLocation}" or update the TRIGGER`,
+                message: `${subject} days must be a list of day numbers of 1 or more`,
+                suggestion:
+                    'List the days it applies on, for example [1, 8, 15]',
             });
         }
+        if (
+            entry?.weekdays !== undefined &&
+            (!Array.isArray(entry.weekdays) ||
+                !entry.weekdays.every(
+                    (weekday) => typeof weekday === 'string' && weekday !== ''
+                ))
+        ) {
+            errors.push({
+                file,
+                message: `${subject} weekdays must be a list of weekday IDs`,
+                suggestion:
+                    'List the weekdays it applies on, for example [saturday, sunday]',
+            });
+        }
+    });
+    return errors;
+}
 
-        // Top-level REQUIRE lines gate the whole dialogue.
-        for (const condition of dialogue.conditions ?? []) {
-            validateConditionReferences(
-                condition,
-                `Dialogue "${dialogue.id}" REQUIRE`,
+/** Check the shape of a character's shop block and the items it stocks. */
+function validateShop(
+    character: Character,
+    registry: ContentRegistry,
+    file: string
+): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const shop = character.shop as unknown;
+    if (shop === undefined) return errors;
+    if (shop === null || typeof shop !== 'object' || Array.isArray(shop)) {
+        errors.push({
+            file,
+            message: `Character "${character.id}" shop must be a block of settings`,
+            suggestion:
+                'Write shop: {} for a shop that uses gold and buys items',
+        });
+        return errors;
+    }
+
+    const { currency, buys, stock } = shop as Record<string, unknown>;
+    if (currency !== undefined && typeof currency !== 'string') {
+        errors.push({
+            file,
+            message: `Character "${character.id}" shop currency must be a variable name`,
+            suggestion:
+                'Name the variable that holds the money, for example gold',
+        });
+    }
+    if (buys !== undefined && typeof buys !== 'boolean') {
+        errors.push({
+            file,
+            message: `Character "${character.id}" shop buys must be true or false`,
+            suggestion: 'Set buys: false for a merchant who only sells',
+        });
+    }
+    if (stock === undefined) return errors;
+    if (stock === null || typeof stock !== 'object' || Array.isArray(stock)) {
+        errors.push({
+            file,
+            message: `Character "${character.id}" shop stock must list items with a count`,
+            suggestion: 'Write the item ID and how many, for example arrow: 20',
+        });
+        return errors;
+    }
+    for (const [itemId, count] of Object.entries(stock)) {
+        if (!registry.items[itemId]) {
+            errors.push({
                 file,
-                registry,
-                errors
-            );
+                message: `Character "${character.id}" shop stock lists unknown item "${itemId}"`,
+                suggestion: 'Check the item ID or create the item',
+            });
+        }
+        if (!Number.isInteger(count) || (count as number) < 0) {
+            errors.push({
+                file,
+                message: `Character "${character.id}" shop stock of "${itemId}" must be a whole number of 0 or more`,
+                suggestion: 'Write how many the merchant has, for example 20',
+            });
         }
+    }
+    return errors;
+}
 
-        for (const node of dialogue.nodes) {
-            if (node.speaker && !registry.characters[node.speaker]) {
+/**
+ * Check the shape of the calendar in game.yaml: weekdays, months, and
+ * seasons need unique ids and names, months a length, and the start date
+ * must name a real day.
+ */
+function validateCalendar(
+    calendar: CalendarConfig | undefined
+): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const file = 'content/game.yaml';
+    if (calendar === undefined) return errors;
+    if (
+        calendar === null ||
+        typeof calendar !== 'object' ||
+        Array.isArray(calendar)
+    ) {
+        errors.push({
+            file,
+            message: 'Game config "calendar" must be a block of settings',
+            suggestion:
+                'Write calendar: with weekdays, months, or seasons under it',
+        });
+        return errors;
+    }
+
+    // Each list holds { id, name } entries; returns the ids that are usable.
+    const entries = (
+        list: unknown,
+        field: 'weekdays' | 'months' | 'seasons',
+        label: string
+    ): Record<string, any>[] => {
+        if (list === undefined) return [];
+        if (!Array.isArray(list)) {
+            errors.push({
+                file,
+                message: `Calendar ${field} must be a list`,
+                suggestion: `Write each ${label} as { id, name }`,
+            });
+            return [];
+        }
+        const seen = new Set<string>();
+        list.forEach((entry, index) => {
+            const subject = `Calendar ${label} ${index + 1}`;
+            if (!hasValue(entry?.id) || typeof entry.id !== 'string') {
                 errors.push({
                     file,
-                    message: `Node "${node.id}" speaker "${node.speaker}" is not an existing character`,
-                    suggestion: `Create character "${node.speaker}" or fix the speaker name`,
+                    message: `${subject} is missing an id`,
+                    suggestion: `Give each ${label} an id that conditions can use`,
                 });
+            } else if (seen.has(entry.id)) {
+                errors.push({
+                    file,
+                    message: `Calendar has more than one ${label} "${entry.id}"`,
+                    suggestion: `Give each ${label} its own id`,
+                });
+            } else {
+                seen.add(entry.id);
             }
-            validateNodeReferences(node, file, registry, errors);
-        }
-    }
+            if (typeof entry?.name !== 'string' || entry.name === '') {
+                errors.push({
+                    file,
+                    message: `${subject} is missing a name`,
+                    suggestion: 'Set name to what the player sees',
+                });
+            }
+        });
+        return list.filter((entry) => typeof entry?.id === 'string');
+    };
 
-    for (const interlude of Object.values(registry.interludes)) {
-        const file = fileFor(fileMap, 'interludes', interlude.id);
-        const site = `Interlude "${interlude.id}"`;
-        if (
-            interlude.triggerLocation &&
-            !registry.locations[interlude.triggerLocation]
-        ) {
+    const weekdays = entries(calendar.weekdays, 'weekdays', 'weekday');
+    const months = entries(calendar.months, 'months', 'month');
+    const seasons = entries(calendar.seasons, 'seasons', 'season');
+
+    for (const month of months) {
+        if (!isWholeNumber(month.days, 1)) {
             errors.push({
                 file,
-                message: `Interlude "${interlude.id}" triggers at non-existent location "${interlude.triggerLocation}"`,
-                suggestion: `Create location "${interlude.triggerLocation}" or update triggerLocation`,
+                message: `Calendar month "${month.id}" days must be a whole number of 1 or more`,
+                suggestion:
+                    'Set days to the length of the month, for example 30',
             });
         }
+    }
 
-        for (const condition of interlude.triggerConditions ?? []) {
-            validateConditionReferences(
-                condition,
-                `${site} trigger`,
+    const monthIds = new Set(months.map((month) => month.id));
+    for (const season of seasons) {
+        const list = Array.isArray(season.months) ? season.months : [];
+        if (!Array.isArray(season.months) || list.length === 0) {
+            errors.push({
                 file,
-                registry,
-                errors
-            );
+                message: `Calendar season "${season.id}" needs a list of months`,
+                suggestion:
+                    'List the month IDs in the season, for example [dec, jan, feb]',
+            });
         }
-        for (const effect of interlude.effects ?? []) {
-            validateEffectReferences(effect, site, file, registry, errors);
+        for (const monthId of list) {
+            if (!monthIds.has(monthId)) {
+                errors.push({
+                    file,
+                    message: `Calendar season "${season.id}" references non-existent month "${monthId}"`,
+                    suggestion: `Add month "${monthId}" to the calendar or update the season`,
+                });
+            }
         }
     }
 
+    if (
+        calendar.minutes !== undefined &&
+        typeof calendar.minutes !== 'boolean'
+    ) {
+        errors.push({
+            file,
+            message: 'Calendar "minutes" must be true or false',
+            suggestion: 'Set minutes to true to show minutes on the clock',
+        });
+    }
+
+    const start = calendar.startDate;
+    if (start === undefined) return errors;
+    if (start === null || typeof start !== 'object') {
+        errors.push({
+            file,
+            message: 'Calendar "startDate" must be a block of settings',
+            suggestion: 'Write startDate: { year, month, day, weekday }',
+        });
+        return errors;
+    }
+    if (start.year !== undefined && !Number.isInteger(start.year)) {
+        errors.push({
+            file,
+            message: 'Calendar startDate year must be a whole number',
+            suggestion: 'Set year to the year of day 1, for example 1203',
+        });
+    }
+    const startMonth =
+        start.month === undefined
+            ? months[0]
+            : months.find((month) => month.id === start.month);
+    if (start.month !== undefined && !startMonth) {
+        errors.push({
+            file,
+            message: `Calendar startDate references non-existent month "${start.month}"`,
+            suggestion: `Add month "${start.month}" to the calendar or update startDate`,
+        });
+    }
+    if (
+        start.day !== undefined &&
+        !isWholeNumber(
+            start.day,
+            1,
+            isWholeNumber(startMonth?.days, 1) ? startMonth?.days : Infinity
+        )
+    ) {
+        errors.push({
+            file,
+            message: 'Calendar startDate day must be a day of its month',
+            suggestion: 'Set day to 1 or more and no more than the month has',
+        });
+    }
+    if (
+        start.weekday !== undefined &&
+        !weekdays.some((weekday) => weekday.id === start.weekday)
+    ) {
+        errors.push({
+            file,
+            message: `Calendar startDate references non-existent weekday "${start.weekday}"`,
+            suggestion: `Add weekday "${start.weekday}" to the calendar or update startDate`,
+        });
+    }
     return errors;
 }
 
-function hasValue(value: unknown): boolean {
-    return value !== undefined && value !== null && value !== '';
+/** Check that a character's factions are a list of faction IDs. */
+function validateCharacterFactions(
+    character: Character,
+    file: string
+): ValidationError[] {
+    const factions = character.factions as unknown;
+    if (
+        factions === undefined ||
+        (Array.isArray(factions) &&
+            factions.every((id) => typeof id === 'string' && id !== ''))
+    ) {
+        return [];
+    }
+    return [
+        {
+            file,
+            message: `Character "${character.id}" factions must be a list of faction IDs`,
+            suggestion:
+                'List the factions it belongs to, for example [city_guard]',
+        },
+    ];
 }
 
-function validateNodeReferences(
-    node: DialogueNode,
-    file: string,
-    registry: ContentRegistry,
-    errors: ValidationError[]
-) {
-    const site = `Node "${node.id}"`;
-    for (const condition of node.conditions ?? []) {
-        validateConditionReferences(condition, site, file, registry, errors);
-    }
-    for (const effect of node.effects ?? []) {
-        validateEffectReferences(effect, site, file, registry, errors);
-    }
-    for (const branch of node.conditionalBranches ?? []) {
-        validateConditionReferences(
-            branch.condition,
-            site,
+/** Check the named tiers of a character or faction. */
+function validateTiers(
+    tiers: unknown,
+    subject: string,
+    file: string
+): ValidationError[] {
+    const errors: ValidationError[] = [];
+    if (tiers === undefined) return errors;
+    if (!Array.isArray(tiers)) {
+        errors.push({
             file,
-            registry,
-            errors
-        );
-        for (const effect of branch.effects ?? []) {
-            validateEffectReferences(effect, site, file, registry, errors);
-        }
+            message: `${subject} tiers must be a list of tiers`,
+            suggestion: 'Write each tier as { min, name }',
+        });
+        return errors;
     }
-    for (const choice of node.choices) {
-        for (const condition of choice.conditions ?? []) {
-            validateConditionReferences(
-                condition,
-                site,
+
+    const mins = new Set<number>();
+    tiers.forEach((tier, index) => {
+        const label = `${subject} tier ${index + 1}`;
+        if (typeof tier?.name !== 'string' || tier.name === '') {
+            errors.push({
                 file,
-                registry,
-                errors
-            );
+                message: `${label} is missing a name`,
+                suggestion:
+                    'Name the tier the player sees, for example Friendly',
+            });
         }
-        for (const effect of choice.effects ?? []) {
-            validateEffectReferences(effect, site, file, registry, errors);
+        if (typeof tier?.min !== 'number' || !Number.isFinite(tier.min)) {
+            errors.push({
+                file,
+                message: `${label} min must be a number`,
+                suggestion:
+                    'Set min to the lowest value in the tier, for example 5',
+            });
+            return;
         }
-    }
+        if (mins.has(tier.min)) {
+            errors.push({
+                file,
+                message: `${subject} has more than one tier starting at ${tier.min}`,
+                suggestion: 'Give each tier its own min',
+            });
+        }
+        mins.add(tier.min);
+    });
+    return errors;
 }
 
-function validateConditionReferences(
-    condition: any,
-    site: string,
-    file: string,
-    registry: ContentRegistry,
-    errors: ValidationError[]
-) {
-    const missing = (message: string, suggestion: string) =>
-        errors.push({ file, message: `${site} ${message}`, suggestion });
-
+/** Check the shape of a faction. */
+function validateFaction(faction: Faction, file: string): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const subject = `Faction "${faction.id}"`;
+    if (typeof faction.name !== 'string' || faction.name === '') {
+        errors.push({
+            file,
+            message: `${subject} is missing required field "name"`,
+            suggestion: 'Add a "name" field to this file',
+        });
+    }
     if (
-        condition.type === 'atLocation' &&
-        hasValue(condition.locationId) &&
-        !registry.locations[condition.locationId]
-    ) {
-        missing(
-            `condition "atLocation" references non-existent location "${condition.locationId}"`,
-            `Create location "${condition.locationId}" or update the condition`
-        );
-    } else if (
-        condition.type === 'characterAt' &&
-        hasValue(condition.characterId) &&
-        !registry.characters[condition.characterId]
+        faction.description !== undefined &&
+        typeof faction.description !== 'string'
     ) {
-        missing(
-            `condition "characterAt" references non-existent character "${condition.characterId}"`,
-            `Create character "${condition.characterId}" or update the condition`
-        );
-    } else if (
-        condition.type === 'characterAt' &&
-        hasValue(condition.locationId) &&
-        !registry.locations[condition.locationId]
+        errors.push({
+            file,
+            message: `${subject} description must be text`,
+            suggestion: 'Write the description as text or remove it',
+        });
+    }
+    if (
+        faction.reputation !== undefined &&
+        (typeof faction.reputation !== 'number' ||
+            !Number.isFinite(faction.reputation))
     ) {
-        missing(
-            `condition "characterAt" references non-existent location "${condition.locationId}"`,
-            `Create location "${condition.locationId}" or update the condition`
-        );
-    } else if (
-        condition.type === 'characterInParty' &&
-        hasValue(condition.characterId) &&
-        !registry.characters[condition.characterId]
+        errors.push({
+            file,
+            message: `${subject} reputation must be a number`,
+            suggestion:
+                'Set the reputation a new game starts with, for example 0',
+        });
+    }
+    errors.push(...validateTiers(faction.tiers, subject, file));
+    return errors;
+}
+
+/** Check that a timed event's trigger names a time the engine can reach. */
+function validateEventTrigger(
+    event: GameEvent,
+    file: string
+): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const subject = `Event "${event.id}" trigger`;
+    const trigger = event.trigger as Partial<GameEvent['trigger']> | undefined;
+
+    if (!trigger || typeof trigger !== 'object') {
+        errors.push({
+            file,
+            message: `Event "${event.id}" is missing a trigger`,
+            suggestion:
+                'Add a trigger, for example { type: daily, hour: 18 } for every evening',
+        });
+        return errors;
+    }
+
+    switch (trigger.type) {
+        case 'at':
+            if (!isWholeNumber(trigger.day, 1)) {
+                errors.push({
+                    file,
+                    message: `${subject} day must be a whole number of 1 or more`,
+                    suggestion: 'Set day to the day number, starting at 1',
+                });
+            }
+            break;
+        case 'daily':
+            break;
+        case 'afterFlag':
+            if (!hasValue(trigger.flag)) {
+                errors.push({
+                    file,
+                    message: `${subject} is missing "flag"`,
+                    suggestion:
+                        'Set flag to the flag that starts the countdown',
+                });
+            }
+            if (!isWholeNumber(trigger.hours, 1)) {
+                errors.push({
+                    file,
+                    message: `${subject} hours must be a whole number of 1 or more`,
+                    suggestion:
+                        'Set hours to how long after the flag is set the event fires',
+                });
+            }
+            return errors;
+        default:
+            errors.push({
+                file,
+                message: `${subject} has unknown type "${String(trigger.type)}"`,
+                suggestion: 'Use at, daily, or afterFlag',
+            });
+            return errors;
+    }
+
+    if (!isWholeNumber(trigger.hour, 0, 23)) {
+        errors.push({
+            file,
+            message: `${subject} hour must be a whole number from 0 to 23`,
+            suggestion: 'Set hour on the 24-hour clock, for example 18',
+        });
+    }
+    return errors;
+}
+
+/**
+ * Check localeFallbacks in game.yaml: each entry lists locales to try for a
+ * key the locale lacks, and every locale named has a locale file.
+ */
+function validateLocaleFallbacks(
+    fallbacks: unknown,
+    registry: ContentRegistry
+): ValidationError[] {
+    if (fallbacks === undefined) return [];
+    if (
+        fallbacks === null ||
+        typeof fallbacks !== 'object' ||
+        Array.isArray(fallbacks) ||
+        !Object.values(fallbacks).every(
+            (chain) =>
+                Array.isArray(chain) &&
+                chain.every((code) => typeof code === 'string')
+        )
+    ) {
+        return [
+            {
+                file: 'content/game.yaml',
+                message:
+                    'Game config "localeFallbacks" must list fallback locales for each locale',
+                suggestion: 'Write each entry like "pt-BR: [pt, en]"',
+            },
+        ];
+    }
+
+    const errors: ValidationError[] = [];
+    for (const [locale, chain] of Object.entries(
+        fallbacks as Record<string, string[]>
+    )) {
+        for (const code of [locale, ...chain]) {
+            if (registry.locales[code]) continue;
+            errors.push({
+                file: 'content/game.yaml',
+                message: `Locale fallback "${code}" has no locale file`,
+                suggestion: `Add content/locales/${code}.yaml or remove "${code}" from localeFallbacks`,
+            });
+        }
+    }
+    return errors;
+}
+
+function validateReferences(
+    registry: ContentRegistry,
+    fileMap: Map<string, string>,
+    config?: GameConfig
+): ValidationError[] {
+    const errors: ValidationError[] = [];
+
+    if (config) {
+        if (typeof config.title !== 'string' || !config.title.trim()) {
+            errors.push({
+                file: 'content/game.yaml',
+                message: 'Game config missing required "title"',
+                suggestion: 'Set title to the name players should see',
+            });
+        }
+        if (
+            config.subtitle !== undefined &&
+            typeof config.subtitle !== 'string'
+        ) {
+            errors.push({
+                file: 'content/game.yaml',
+                message: 'Game config "subtitle" must be text',
+                suggestion: 'Write the subtitle as text or remove it',
+            });
+        }
+        if (
+            config.randomSeed !== undefined &&
+            typeof config.randomSeed !== 'string' &&
+            (typeof config.randomSeed !== 'number' ||
+                !Number.isFinite(config.randomSeed))
+        ) {
+            errors.push({
+                file: 'content/game.yaml',
+                message: 'Game config "randomSeed" must be a number or text',
+                suggestion:
+                    'Set randomSeed to a number like 42, or remove it so each new game rolls differently',
+            });
+        }
+        if (
+            config.allowRewind !== undefined &&
+            typeof config.allowRewind !== 'boolean'
+        ) {
+            errors.push({
+                file: 'content/game.yaml',
+                message: 'Game config "allowRewind" must be true or false',
+                suggestion:
+                    'Set allowRewind to true to let players take back actions, or remove it',
+            });
+        }
+        errors.push(
+            ...validateLocaleFallbacks(config.localeFallbacks, registry)
+        );
+
+        if (!hasValue(config.startLocation)) {
+            errors.push({
+                file: 'content/game.yaml',
+                message: 'Game config missing required "startLocation"',
+                suggestion: 'Set startLocation to an existing location ID',
+            });
+        } else if (!registry.locations[config.startLocation]) {
+            errors.push({
+                file: 'content/game.yaml',
+                message: `Game config startLocation "${config.startLocation}" does not exist`,
+                suggestion: `Create location "${config.startLocation}" or update startLocation`,
+            });
+        }
+
+        if (
+            !config.startTime ||
+            config.startTime.day === undefined ||
+            config.startTime.hour === undefined
+        ) {
+            errors.push({
+                file: 'content/game.yaml',
+                message:
+                    'Game config missing required "startTime.day" or "startTime.hour"',
+                suggestion: 'Set startTime.day and startTime.hour',
+            });
+        } else if (
+            config.startTime.minute !== undefined &&
+            !isWholeNumber(config.startTime.minute, 0, 59)
+        ) {
+            errors.push({
+                file: 'content/game.yaml',
+                message:
+                    'Game config "startTime.minute" must be a whole number from 0 to 59',
+                suggestion:
+                    'Set startTime.minute, for example 30, or remove it',
+            });
+        }
+
+        if (!Array.isArray(config.startInventory)) {
+            errors.push({
+                file: 'content/game.yaml',
+                message: 'Game config startInventory must be an array',
+                suggestion: 'Set startInventory to [] or a list of item IDs',
+            });
+        } else {
+            for (const itemId of config.startInventory) {
+                if (!registry.items[itemId]) {
+                    errors.push({
+                        file: 'content/game.yaml',
+                        message: `Game config startInventory references non-existent item "${itemId}"`,
+                        suggestion: `Create item "${itemId}" or remove it from startInventory`,
+                    });
+                }
+            }
+        }
+    }
+
+    for (const character of Object.values(registry.characters)) {
+        if (character.location && !registry.locations[character.location]) {
+            errors.push({
+                file: fileFor(fileMap, 'characters', character.id),
+                message: `Character "${character.id}" starts at non-existent location "${character.location}"`,
+                suggestion: `Create location "${character.location}" or update the character location`,
+            });
+        }
+
+        for (const factionId of character.factions ?? []) {
+            if (!registry.factions?.[factionId]) {
+                errors.push({
+                    file: fileFor(fileMap, 'characters', character.id),
+                    message: `Character "${character.id}" belongs to non-existent faction "${factionId}"`,
+                    suggestion: `Create faction "${factionId}" or update the character factions`,
+                });
+            }
+        }
+
+        const file = fileFor(fileMap, 'characters', character.id);
+        const site = `Character "${character.id}" schedule`;
+        for (const entry of scheduleEntries(character)) {
+            if (entry.location && !registry.locations[entry.location]) {
+                errors.push({
+                    file,
+                    message: `${site} references non-existent location "${entry.location}"`,
+                    suggestion: `Create location "${entry.location}" or fix the schedule entry`,
+                });
+            }
+            for (const weekday of Array.isArray(entry.weekdays)
+                ? entry.weekdays
+                : []) {
+                if (
+                    !registry.calendar?.weekdays?.some(
+                        (candidate) => candidate.id === weekday
+                    )
+                ) {
+                    errors.push({
+                        file,
+                        message: `${site} references non-existent weekday "${weekday}"`,
+                        suggestion: `Add weekday "${weekday}" to the calendar in game.yaml or fix the schedule entry`,
+                    });
+                }
+            }
+            for (const condition of entry.conditions ?? []) {
+                validateConditionReferences(
+                    condition,
+                    site,
+                    file,
+                    registry,
+                    errors
+                );
+            }
+        }
+    }
+
+    for (const item of Object.values(registry.items)) {
+        if (
+            item.location &&
+            item.location !== 'inventory' &&
+            !registry.locations[item.location] &&
+            !registry.characters[item.location]
+        ) {
+            errors.push({
+                file: fileFor(fileMap, 'items', item.id),
+                message: `Item "${item.id}" starts at non-existent location or character "${item.location}"`,
+                suggestion: `Use "inventory", an existing location ID, or an existing character ID`,
+            });
+        }
+    }
+
+    for (const item of Object.values(registry.items)) {
+        const file = fileFor(fileMap, 'items', item.id);
+        for (const use of itemUses(item)) {
+            const site = `Item "${item.id}" use "${use.id}"`;
+            if (
+                use.target &&
+                !registry.locations[use.target] &&
+                !registry.characters[use.target]
+            ) {
+                errors.push({
+                    file,
+                    message: `${site} targets non-existent location or character "${use.target}"`,
+                    suggestion: `Use an existing location ID or character ID, or remove the target`,
+                });
+            }
+            if (use.dialogue && !registry.dialogues[use.dialogue]) {
+                errors.push({
+                    file,
+                    message: `${site} starts non-existent dialogue "${use.dialogue}"`,
+                    suggestion: `Create dialogue "${use.dialogue}" or fix the reference`,
+                });
+            }
+            for (const condition of use.conditions ?? []) {
+                validateConditionReferences(
+                    condition,
+                    site,
+                    file,
+                    registry,
+                    errors
+                );
+            }
+            for (const effect of use.effects ?? []) {
+                validateEffectReferences(effect, site, file, registry, errors);
+            }
+        }
+    }
+
+    for (const location of Object.values(registry.locations)) {
+        const file = fileFor(fileMap, 'locations', location.id);
+        for (const exit of locationExits(location)) {
+            const site = `Location "${location.id}" exit "${exit.id}"`;
+            if (
+                typeof exit.target === 'string' &&
+                exit.target !== '' &&
+                !registry.locations[exit.target]
+            ) {
+                errors.push({
+                    file,
+                    message: `${site} leads to non-existent location "${exit.target}"`,
+                    suggestion: `Create location "${exit.target}" or fix the target`,
+                });
+            }
+            for (const condition of exit.conditions ?? []) {
+                validateConditionReferences(
+                    condition,
+                    site,
+                    file,
+                    registry,
+                    errors
+                );
+            }
+            for (const effect of exit.effects ?? []) {
+                validateEffectReferences(effect, site, file, registry, errors);
+            }
+        }
+        for (const { site, conditions, effects } of locationRules(location)) {
+            for (const condition of conditions) {
+                validateConditionReferences(
+                    condition,
+                    site,
+                    file,
+                    registry,
+                    errors
+                );
+            }
+            for (const effect of effects) {
+                validateEffectReferences(effect, site, file, registry, errors);
+            }
+        }
+    }
+
+    for (const dialogue of Object.values(registry.dialogues)) {
+        const file = fileFor(fileMap, 'dialogues', dialogue.id);
+        if (
+            dialogue.triggerLocation &&
+            !registry.locations[dialogue.triggerLocation]
+        ) {
+            errors.push({
+                file,
+                message: `Dialogue "${dialogue.id}" triggers at non-existent location "${dialogue.triggerLocation}"`,
+                suggestion: `Create location "${dialogue.triggerLocation}" or update the TRIGGER`,
+            });
+        }
+
+        // Top-level REQUIRE lines gate the whole dialogue.
+        for (const condition of dialogue.conditions ?? []) {
+            validateConditionReferences(
+                condition,
+                `Dialogue "${dialogue.id}" REQUIRE`,
+                file,
+                registry,
+                errors
+            );
+        }
+
+        for (const node of dialogue.nodes) {
+            if (node.speaker && !registry.characters[node.speaker]) {
+                errors.push({
+                    file,
+                    message: `Node "${node.id}" speaker "${node.speaker}" is not an existing character`,
+                    suggestion: `Create character "${node.speaker}" or fix the speaker name`,
+                });
+            }
+            validateNodeReferences(node, file, registry, errors);
+        }
+    }
+
+    for (const interlude of Object.values(registry.interludes)) {
+        const file = fileFor(fileMap, 'interludes', interlude.id);
+        const site = `Interlude "${interlude.id}"`;
+        if (
+            interlude.triggerLocation &&
+            !registry.locations[interlude.triggerLocation]
+        ) {
+            errors.push({
+                file,
+                message: `Interlude "${interlude.id}" triggers at non-existent location "${interlude.triggerLocation}"`,
+                suggestion: `Create location "${interlude.triggerLocation}" or update triggerLocation`,
+            });
+        }
+
+        for (const condition of interlude.triggerConditions ?? []) {
+            validateConditionReferences(
+                condition,
+                `${site} trigger`,
+                file,
+                registry,
+                errors
+            );
+        }
+        for (const effect of interlude.effects ?? []) {
+            validateEffectReferences(effect, site, file, registry, errors);
+        }
+    }
+
+    for (const event of Object.values(registry.events ?? {})) {
+        const file = fileFor(fileMap, 'events', event.id);
+        const site = `Event "${event.id}"`;
+        if (event.dialogue && !registry.dialogues[event.dialogue]) {
+            errors.push({
+                file,
+                message: `${site} starts non-existent dialogue "${event.dialogue}"`,
+                suggestion: `Create dialogue "${event.dialogue}" or fix the reference`,
+            });
+        }
+        if (event.interlude && !registry.interludes[event.interlude]) {
+            errors.push({
+                file,
+                message: `${site} shows non-existent interlude "${event.interlude}"`,
+                suggestion: `Create interlude "${event.interlude}" or fix the reference`,
+            });
+        }
+
+        for (const condition of event.conditions ?? []) {
+            validateConditionReferences(
+                condition,
+                site,
+                file,
+                registry,
+                errors
+            );
+        }
+        for (const effect of event.effects ?? []) {
+            validateEffectReferences(effect, site, file, registry, errors);
+        }
+    }
+
+    return errors;
+}
+
+function hasValue(value: unknown): boolean {
+    return value !== undefined && value !== null && value !== '';
+}
+
+function validateNodeReferences(
+    node: DialogueNode,
+    file: string,
+    registry: ContentRegistry,
+    errors: ValidationError[]
+) {
+    const site = `Node "${node.id}"`;
+    for (const call of nodeCalls(node)) {
+        validateCallReference(call, site, file, registry, errors);
+    }
+    for (const condition of node.conditions ?? []) {
+        validateConditionReferences(condition, site, file, registry, errors);
+    }
+    for (const effect of node.effects ?? []) {
+        validateEffectReferences(effect, site, file, registry, errors);
+    }
+    for (const branch of node.conditionalBranches ?? []) {
+        validateConditionReferences(
+            branch.condition,
+            site,
+            file,
+            registry,
+            errors
+        );
+        for (const effect of branch.effects ?? []) {
+            validateEffectReferences(effect, site, file, registry, errors);
+        }
+    }
+    for (const choice of node.choices) {
+        for (const condition of choice.conditions ?? []) {
+            validateConditionReferences(
+                condition,
+                site,
+                file,
+                registry,
+                errors
+            );
+        }
+        for (const effect of choice.effects ?? []) {
+            validateEffectReferences(effect, site, file, registry, errors);
+        }
+    }
+}
+
+function validateCallReference(
+    call: DialogueCall,
+    site: string,
+    file: string,
+    registry: ContentRegistry,
+    errors: ValidationError[]
+) {
+    const called = registry.dialogues[call.dialogueId];
+    if (!called) {
+        errors.push({
+            file,
+            message: `${site} CALL references non-existent dialogue "${call.dialogueId}"`,
+            suggestion: `Create dialogue "${call.dialogueId}" or fix the CALL target`,
+        });
+    } else if (
+        call.nodeId &&
+        !called.nodes.some((node) => node.id === call.nodeId)
+    ) {
+        errors.push({
+            file,
+            message: `${site} CALL "${call.dialogueId}.${call.nodeId}" points to a node that dialogue "${call.dialogueId}" does not have`,
+            suggestion: `Add NODE ${call.nodeId} to dialogue "${call.dialogueId}" or fix the CALL target`,
+        });
+    }
+}
+
+function validateConditionReferences(
+    condition: any,
+    site: string,
+    file: string,
+    registry: ContentRegistry,
+    errors: ValidationError[]
+) {
+    // Groups (anyOf / allOf / not) check the references inside them. A
+    // malformed group is reported by the shape check.
+    if (condition.type === 'anyOf' || condition.type === 'allOf') {
+        for (const part of Array.isArray(condition.conditions)
+            ? condition.conditions
+            : []) {
+            validateConditionReferences(part, site, file, registry, errors);
+        }
+        return;
+    }
+    if (condition.type === 'not') {
+        if (condition.condition) {
+            validateConditionReferences(
+                condition.condition,
+                site,
+                file,
+                registry,
+                errors
+            );
+        }
+        return;
+    }
+
+    const missing = (message: string, suggestion: string) =>
+        errors.push({ file, message: `${site} ${message}`, suggestion });
+
+    if (
+        condition.type === 'atLocation' &&
+        hasValue(condition.locationId) &&
+        !registry.locations[condition.locationId]
+    ) {
+        missing(
+            `condition "atLocation" references non-existent location "${condition.locationId}"`,
+            `Create location "${condition.locationId}" or update the condition`
+        );
+    } else if (
+        (condition.type === 'visitedLocation' ||
+            condition.type === 'visitCount') &&
+        hasValue(condition.locationId) &&
+        !registry.locations[condition.locationId]
+    ) {
+        missing(
+            `condition "${condition.type}" references non-existent location "${condition.locationId}"`,
+            `Create location "${condition.locationId}" or update the condition`
+        );
+    } else if (
+        condition.type === 'characterAt' &&
+        hasValue(condition.characterId) &&
+        !registry.characters[condition.characterId]
+    ) {
+        missing(
+            `condition "characterAt" references non-existent character "${condition.characterId}"`,
+            `Create character "${condition.characterId}" or update the condition`
+        );
+    } else if (
+        condition.type === 'characterAt' &&
+        hasValue(condition.locationId) &&
+        !registry.locations[condition.locationId]
+    ) {
+        missing(
+            `condition "characterAt" references non-existent location "${condition.locationId}"`,
+            `Create location "${condition.locationId}" or update the condition`
+        );
+    } else if (
+        condition.type === 'characterInParty' &&
+        hasValue(condition.characterId) &&
+        !registry.characters[condition.characterId]
+    ) {
+        missing(
+            `condition "characterInParty" references non-existent character "${condition.characterId}"`,
+            `Create character "${condition.characterId}" or update the condition`
+        );
+    } else if (
+        (condition.type === 'characterStatEquals' ||
+            condition.type === 'characterStatGreaterThan' ||
+            condition.type === 'characterStatLessThan') &&
+        hasValue(condition.characterId) &&
+        condition.characterId !== 'player' &&
+        !registry.characters[condition.characterId]
+    ) {
+        missing(
+            `condition "${condition.type}" references non-existent character "${condition.characterId}"`,
+            `Use "player", create character "${condition.characterId}", or update the condition`
+        );
+    } else if (
+        (condition.type === 'relationshipAbove' ||
+            condition.type === 'relationshipBelow') &&
+        hasValue(condition.characterId) &&
+        !registry.characters[condition.characterId]
+    ) {
+        missing(
+            `condition "${condition.type}" references non-existent character "${condition.characterId}"`,
+            `Create character "${condition.characterId}" or update the condition`
+        );
+    } else if (
+        (condition.type === 'reputationAbove' ||
+            condition.type === 'reputationBelow') &&
+        hasValue(condition.factionId) &&
+        !registry.factions?.[condition.factionId]
+    ) {
+        missing(
+            `condition "${condition.type}" references non-existent faction "${condition.factionId}"`,
+            `Create faction "${condition.factionId}" or update the condition`
+        );
+    } else if (
+        condition.type === 'dayOfWeekIs' &&
+        hasValue(condition.weekday) &&
+        !registry.calendar?.weekdays?.some(
+            (weekday) => weekday.id === condition.weekday
+        )
+    ) {
+        missing(
+            `condition "dayOfWeekIs" references non-existent weekday "${condition.weekday}"`,
+            `Add weekday "${condition.weekday}" to the calendar in game.yaml or update the condition`
+        );
+    } else if (
+        condition.type === 'seasonIs' &&
+        hasValue(condition.season) &&
+        !registry.calendar?.seasons?.some(
+            (season) => season.id === condition.season
+        )
+    ) {
+        missing(
+            `condition "seasonIs" references non-existent season "${condition.season}"`,
+            `Add season "${condition.season}" to the calendar in game.yaml or update the condition`
+        );
+    } else if (
+        condition.type === 'hasItem' &&
+        hasValue(condition.itemId) &&
+        !registry.items[condition.itemId]
+    ) {
+        missing(
+            `condition "hasItem" references non-existent item "${condition.itemId}"`,
+            `Create item "${condition.itemId}" or update the condition`
+        );
+    } else if (
+        condition.type === 'itemAt' &&
+        hasValue(condition.itemId) &&
+        !registry.items[condition.itemId]
+    ) {
+        missing(
+            `condition "itemAt" references non-existent item "${condition.itemId}"`,
+            `Create item "${condition.itemId}" or update the condition`
+        );
+    } else if (
+        condition.type === 'itemAt' &&
+        hasValue(condition.locationId) &&
+        condition.locationId !== 'inventory' &&
+        !registry.locations[condition.locationId] &&
+        !registry.characters[condition.locationId]
+    ) {
+        missing(
+            `condition "itemAt" references non-existent location or character "${condition.locationId}"`,
+            `Use "inventory", an existing location ID, or an existing character ID`
+        );
+    } else if (
+        condition.type === 'questAtStage' &&
+        hasValue(condition.questId) &&
+        !registry.quests[condition.questId]
+    ) {
+        missing(
+            `condition "questAtStage" references non-existent quest "${condition.questId}"`,
+            `Create quest "${condition.questId}" or update the condition`
+        );
+    } else if (
+        condition.type === 'questAtStage' &&
+        hasValue(condition.questId) &&
+        hasValue(condition.stageId)
+    ) {
+        // A quest without a stages list is reported by the shape check;
+        // here it simply has no stage to match.
+        const quest = registry.quests[condition.questId];
+        const stages = Array.isArray(quest.stages) ? quest.stages : [];
+        if (!stages.some((stage) => stage.id === condition.stageId)) {
+            missing(
+                `condition "questAtStage" references non-existent quest stage "${condition.questId}.${condition.stageId}"`,
+                `Add stage "${condition.stageId}" to quest "${condition.questId}" or update the condition`
+            );
+        }
+    } else if (
+        condition.type === 'questStatus' &&
+        hasValue(condition.questId) &&
+        !registry.quests[condition.questId]
     ) {
         missing(
-            `condition "characterInParty" references non-existent character "${condition.characterId}"`,
-            `Create character "${condition.characterId}" or update the condition`
+            `condition "questStatus" references non-existent quest "${condition.questId}"`,
+            `Create quest "${condition.questId}" or update the condition`
+        );
+    }
+}
+
+function validateEffectReferences(
+    effect: any,
+    site: string,
+    file: string,
+    registry: ContentRegistry,
+    errors: ValidationError[]
+) {
+    const missing = (message: string, suggestion: string) =>
+        errors.push({ file, message: `${site} ${message}`, suggestion });
+
+    if (
+        effect.type === 'goToLocation' &&
+        hasValue(effect.locationId) &&
+        !registry.locations[effect.locationId]
+    ) {
+        missing(
+            `effect "goToLocation" references non-existent location "${effect.locationId}"`,
+            `Create location "${effect.locationId}" or update the effect`
         );
     } else if (
-        (condition.type === 'characterStatEquals' ||
-            condition.type === 'characterStatGreaterThan' ||
-            condition.type === 'characterStatLessThan') &&
-        hasValue(condition.characterId) &&
-        condition.characterId !== 'player' &&
-        !registry.characters[condition.characterId]
+        (effect.type === 'addItem' || effect.type === 'removeItem') &&
+        hasValue(effect.itemId) &&
+        !registry.items[effect.itemId]
     ) {
         missing(
-            `condition "${condition.type}" references non-existent character "${condition.characterId}"`,
-            `Use "player", create character "${condition.characterId}", or update the condition`
+            `effect "${effect.type}" references non-existent item "${effect.itemId}"`,
+            `Create item "${effect.itemId}" or update the effect`
         );
     } else if (
-        (condition.type === 'relationshipAbove' ||
-            condition.type === 'relationshipBelow') &&
-        hasValue(condition.characterId) &&
-        !registry.characters[condition.characterId]
+        effect.type === 'moveItem' &&
+        hasValue(effect.itemId) &&
+        !registry.items[effect.itemId]
     ) {
         missing(
-            `condition "${condition.type}" references non-existent character "${condition.characterId}"`,
-            `Create character "${condition.characterId}" or update the condition`
+            `effect "moveItem" references non-existent item "${effect.itemId}"`,
+            `Create item "${effect.itemId}" or update the effect`
         );
     } else if (
-        condition.type === 'hasItem' &&
-        hasValue(condition.itemId) &&
-        !registry.items[condition.itemId]
+        effect.type === 'moveItem' &&
+        hasValue(effect.locationId) &&
+        effect.locationId !== 'inventory' &&
+        !registry.locations[effect.locationId] &&
+        !registry.characters[effect.locationId]
     ) {
         missing(
-            `condition "hasItem" references non-existent item "${condition.itemId}"`,
-            `Create item "${condition.itemId}" or update the condition`
+            `effect "moveItem" references non-existent location or character "${effect.locationId}"`,
+            `Use "inventory", an existing location ID, or an existing character ID`
         );
     } else if (
-        condition.type === 'itemAt' &&
-        hasValue(condition.itemId) &&
-        !registry.items[condition.itemId]
+        effect.type === 'setQuestStage' &&
+        hasValue(effect.questId) &&
+        !registry.quests[effect.questId]
     ) {
         missing(
-            `condition "itemAt" references non-existent item "${condition.itemId}"`,
-            `Create item "${condition.itemId}" or update the condition`
+            `effect "setQuestStage" references non-existent quest "${effect.questId}"`,
+            `Create quest "${effect.questId}" or update the effect`
         );
     } else if (
-        condition.type === 'itemAt' &&
-        hasValue(condition.locationId) &&
-        condition.locationId !== 'inventory' &&
-        !registry.locations[condition.locationId] &&
-        !registry.characters[condition.locationId]
+        effect.type === 'setQuestStage' &&
+        hasValue(effect.questId) &&
+        hasValue(effect.stageId)
+    ) {
+        const quest = registry.quests[effect.questId];
+        const stages = Array.isArray(quest.stages) ? quest.stages : [];
+        if (!stages.some((stage) => stage.id === effect.stageId)) {
+            missing(
+                `effect "setQuestStage" references non-existent quest stage "${effect.questId}.${effect.stageId}"`,
+                `Add stage "${effect.stageId}" to quest "${effect.questId}" or update the effect`
+            );
+        }
+    } else if (
+        effect.type === 'setTrackedQuest' &&
+        hasValue(effect.questId) &&
+        !registry.quests[effect.questId]
     ) {
         missing(
-            `condition "itemAt" references non-existent location or character "${condition.locationId}"`,
-            `Use "inventory", an existing location ID, or an existing character ID`
+            `effect "setTrackedQuest" references non-existent quest "${effect.questId}"`,
+            `Create quest "${effect.questId}" or update the effect`
+        );
+    } else if (
+        effect.type === 'addJournalEntry' &&
+        hasValue(effect.entryId) &&
+        !registry.journalEntries[effect.entryId]
+    ) {
+        missing(
+            `effect "addJournalEntry" references non-existent journal entry "${effect.entryId}"`,
+            `Create journal entry "${effect.entryId}" or update the effect`
+        );
+    } else if (
+        effect.type === 'startDialogue' &&
+        hasValue(effect.dialogueId) &&
+        !registry.dialogues[effect.dialogueId]
+    ) {
+        missing(
+            `effect "startDialogue" references non-existent dialogue "${effect.dialogueId}"`,
+            `Create dialogue "${effect.dialogueId}" or update the effect`
+        );
+    } else if (
+        effect.type === 'showInterlude' &&
+        hasValue(effect.interludeId) &&
+        !registry.interludes[effect.interludeId]
+    ) {
+        missing(
+            `effect "showInterlude" references non-existent interlude "${effect.interludeId}"`,
+            `Create interlude "${effect.interludeId}" or update the effect`
+        );
+    } else if (
+        (effect.type === 'setCharacterLocation' ||
+            effect.type === 'clearCharacterLocation' ||
+            effect.type === 'addToParty' ||
+            effect.type === 'removeFromParty' ||
+            effect.type === 'setRelationship' ||
+            effect.type === 'addRelationship' ||
+            effect.type === 'startShop') &&
+        hasValue(effect.characterId) &&
+        !registry.characters[effect.characterId]
+    ) {
+        missing(
+            `effect "${effect.type}" references non-existent character "${effect.characterId}"`,
+            `Create character "${effect.characterId}" or update the effect`
+        );
+    } else if (
+        effect.type === 'startShop' &&
+        hasValue(effect.characterId) &&
+        !registry.characters[effect.characterId].shop
+    ) {
+        missing(
+            `effect "startShop" opens the shop of "${effect.characterId}", who has no shop`,
+            `Add a shop block to character "${effect.characterId}" or update the effect`
+        );
+    } else if (
+        (effect.type === 'setCharacterStat' ||
+            effect.type === 'addCharacterStat') &&
+        hasValue(effect.characterId) &&
+        effect.characterId !== 'player' &&
+        !registry.characters[effect.characterId]
+    ) {
+        missing(
+            `effect "${effect.type}" references non-existent character "${effect.characterId}"`,
+            `Use "player", create character "${effect.characterId}", or update the effect`
+        );
+    } else if (
+        (effect.type === 'setReputation' || effect.type === 'addReputation') &&
+        hasValue(effect.factionId) &&
+        !registry.factions?.[effect.factionId]
+    ) {
+        missing(
+            `effect "${effect.type}" references non-existent faction "${effect.factionId}"`,
+            `Create faction "${effect.factionId}" or update the effect`
+        );
+    } else if (
+        effect.type === 'setCharacterLocation' &&
+        hasValue(effect.locationId) &&
+        !registry.locations[effect.locationId]
+    ) {
+        missing(
+            `effect "setCharacterLocation" references non-existent location "${effect.locationId}"`,
+            `Create location "${effect.locationId}" or update the effect`
+        );
+    }
+}
+
+/**
+ * Validate a single dialogue.
+ *
+ * Checks:
+ * - startNode exists
+ * - No duplicate node IDs
+ * - GOTO targets exist
+ * - Conditions have required arguments
+ * - Effects have required arguments
+ */
+function validateDialogue(dialogue: Dialogue, file: string): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const nodeIds = new Set<string>();
+
+    // Check for duplicate node IDs
+    for (const node of dialogue.nodes) {
+        if (nodeIds.has(node.id)) {
+            errors.push({
+                file,
+                message: `Duplicate node ID "${node.id}"`,
+                suggestion: 'Node IDs must be unique within a dialogue',
+            });
+        }
+        nodeIds.add(node.id);
+    }
+
+    // Check startNode exists
+    if (!nodeIds.has(dialogue.startNode)) {
+        errors.push({
+            file,
+            message: `Start node "${dialogue.startNode}" not found`,
+            suggestion: `Add a NODE ${dialogue.startNode} or fix the startNode reference`,
+        });
+    }
+
+    // Top-level REQUIRE conditions need their arguments like any other
+    for (const condition of dialogue.conditions ?? []) {
+        errors.push(
+            ...validateCondition(
+                condition,
+                `Dialogue "${dialogue.id}" REQUIRE`,
+                file
+            )
+        );
+    }
+
+    // Validate each node
+    for (const node of dialogue.nodes) {
+        errors.push(...validateDialogueNode(node, nodeIds, file));
+    }
+
+    return errors;
+}
+
+/**
+ * Validate a single dialogue node.
+ */
+function validateDialogueNode(
+    node: DialogueNode,
+    validNodeIds: Set<string>,
+    file: string
+): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const site = `Node "${node.id}"`;
+
+    // Validate node.next
+    if (node.next && !validNodeIds.has(node.next)) {
+        errors.push({
+            file,
+            message: `Node "${node.id}" GOTO "${node.next}" points to non-existent node`,
+            suggestion: `Add NODE ${node.next} or fix the GOTO target`,
+        });
+    }
+
+    // Validate IF branches
+    if (node.conditionalBranches) {
+        for (const branch of node.conditionalBranches) {
+            if (branch.next && !validNodeIds.has(branch.next)) {
+                errors.push({
+                    file,
+                    message: `Node "${node.id}" IF block GOTO "${branch.next}" points to non-existent node`,
+                    suggestion: `Add NODE ${branch.next} or fix the GOTO target`,
+                });
+            }
+
+            // Validate condition
+            errors.push(...validateCondition(branch.condition, site, file));
+
+            // Validate branch effects
+            if (branch.effects) {
+                for (const effect of branch.effects) {
+                    errors.push(...validateEffect(effect, site, file));
+                }
+            }
+        }
+    }
+
+    // Choice IDs must be unique within a node (the engine and snapshot resolve
+    // a selected choice by first match, so a duplicate ID would shadow another).
+    const choiceIds = new Set<string>();
+    for (const choice of node.choices) {
+        if (choiceIds.has(choice.id)) {
+            errors.push({
+                file,
+                message: `Node "${node.id}" has duplicate choice ID "${choice.id}"`,
+                suggestion: 'Choice IDs must be unique within a node',
+            });
+        }
+        choiceIds.add(choice.id);
+    }
+
+    // Validate choice targets
+    for (const choice of node.choices) {
+        const endsDialogue = choice.effects?.some(
+            (e: any) =>
+                e.type === 'endDialogue' ||
+                e.type === 'goToLocation' ||
+                e.type === 'startDialogue'
         );
-    } else if (
-        condition.type === 'questAtStage' &&
-        hasValue(condition.questId) &&
-        !registry.quests[condition.questId]
-    ) {
-        missing(
-            `condition "questAtStage" references non-existent quest "${condition.questId}"`,
-            `Create quest "${condition.questId}" or update the condition`
+        if (!endsDialogue && choice.next && !validNodeIds.has(choice.next)) {
+            errors.push({
+                file,
+                message: `Node "${node.id}" choice "${choice.id}" GOTO "${choice.next}" points to non-existent node`,
+                suggestion: `Add NODE ${choice.next} or fix the GOTO target`,
+            });
+        }
+
+        // Validate choice conditions
+        if (choice.conditions) {
+            for (const condition of choice.conditions) {
+                errors.push(...validateCondition(condition, site, file));
+            }
+        }
+
+        // Validate choice effects
+        if (choice.effects) {
+            for (const effect of choice.effects) {
+                errors.push(...validateEffect(effect, site, file));
+            }
+        }
+    }
+
+    // Validate node conditions
+    if (node.conditions) {
+        for (const condition of node.conditions) {
+            errors.push(...validateCondition(condition, site, file));
+        }
+    }
+
+    // Validate node effects
+    if (node.effects) {
+        for (const effect of node.effects) {
+            errors.push(...validateEffect(effect, site, file));
+        }
+    }
+
+    return errors;
+}
+
+/** The CALLs a node makes from itself, its IF blocks, and its choices. */
+function nodeCalls(node: DialogueNode): DialogueCall[] {
+    return [node, ...(node.conditionalBranches ?? []), ...node.choices].flatMap(
+        (route) => (route.call ? [route.call] : [])
+    );
+}
+
+/**
+ * A RETURN goes back to the dialogue that CALLed this one, so it only makes
+ * sense on a node some CALL can reach: a node at or after the one a CALL
+ * begins at. Anywhere else the RETURN ends the conversation instead.
+ */
+function validateReturns(
+    registry: ContentRegistry,
+    fileMap: Map<string, string>
+): ValidationError[] {
+    const called = new Map<string, Set<string>>();
+    for (const dialogue of Object.values(registry.dialogues)) {
+        for (const node of dialogue.nodes) {
+            for (const call of nodeCalls(node)) {
+                const target = registry.dialogues[call.dialogueId];
+                if (!target) continue;
+                const entries = called.get(target.id) ?? new Set<string>();
+                entries.add(call.nodeId ?? target.startNode);
+                called.set(target.id, entries);
+            }
+        }
+    }
+
+    const errors: ValidationError[] = [];
+    for (const dialogue of Object.values(registry.dialogues)) {
+        const returning = dialogue.nodes.filter(
+            (node) =>
+                node.returns ||
+                node.conditionalBranches?.some((branch) => branch.returns) ||
+                node.choices.some((choice) => choice.returns)
         );
-    } else if (
-        condition.type === 'questAtStage' &&
-        hasValue(condition.questId) &&
-        hasValue(condition.stageId)
-    ) {
-        // A quest without a stages list is reported by the shape check;
-        // here it simply has no stage to match.
-        const quest = registry.quests[condition.questId];
-        const stages = Array.isArray(quest.stages) ? quest.stages : [];
-        if (!stages.some((stage) => stage.id === condition.stageId)) {
-            missing(
-                `condition "questAtStage" references non-existent quest stage "${condition.questId}.${condition.stageId}"`,
-                `Add stage "${condition.stageId}" to quest "${condition.questId}" or update the condition`
-            );
+        if (returning.length === 0) continue;
+
+        const reached = new Set<string>();
+        const queue = [...(called.get(dialogue.id) ?? [])];
+        while (queue.length > 0) {
+            const id = queue.shift()!;
+            if (reached.has(id)) continue;
+            reached.add(id);
+            const node = dialogue.nodes.find((n) => n.id === id);
+            if (!node) continue;
+            for (const route of [
+                node,
+                ...(node.conditionalBranches ?? []),
+                ...node.choices,
+            ]) {
+                if (route.next) queue.push(route.next);
+            }
+        }
+
+        const file = fileFor(fileMap, 'dialogues', dialogue.id);
+        for (const node of returning) {
+            if (reached.has(node.id)) continue;
+            errors.push({
+                file,
+                message: `Node "${node.id}" RETURN is never reached from a CALL, so it would end the conversation`,
+                suggestion: `CALL ${dialogue.id} from another dialogue, or replace the RETURN with a GOTO or END dialogue`,
+            });
+        }
+    }
+    return errors;
+}
+
+// Required field mappings for conditions
+const CONDITION_FIELDS: Record<string, string[]> = {
+    hasFlag: ['flag'],
+    notFlag: ['flag'],
+    hasItem: ['itemId'],
+    variableEquals: ['variable', 'value'],
+    variableGreaterThan: ['variable', 'value'],
+    variableLessThan: ['variable', 'value'],
+    variable: ['variable', 'operator', 'value'],
+    questAtStage: ['questId', 'stageId'],
+    questStatus: ['questId', 'status'],
+    atLocation: ['locationId'],
+    visitedLocation: ['locationId'],
+    visitCount: ['locationId', 'count'],
+    characterAt: ['characterId', 'locationId'],
+    characterInParty: ['characterId'],
+    characterStatEquals: ['characterId', 'stat', 'value'],
+    characterStatGreaterThan: ['characterId', 'stat', 'value'],
+    characterStatLessThan: ['characterId', 'stat', 'value'],
+    relationshipAbove: ['characterId', 'value'],
+    relationshipBelow: ['characterId', 'value'],
+    reputationAbove: ['factionId', 'value'],
+    reputationBelow: ['factionId', 'value'],
+    dayOfWeekIs: ['weekday'],
+    seasonIs: ['season'],
+    dayAtLeast: ['day'],
+    itemAt: ['itemId', 'locationId'],
+    roll: ['min', 'max', 'threshold'],
+};
+
+// Required field mappings for effects
+const EFFECT_FIELDS: Record<string, string[]> = {
+    setFlag: ['flag'],
+    clearFlag: ['flag'],
+    setVariable: ['variable', 'value'],
+    addVariable: ['variable', 'value'],
+    addItem: ['itemId'],
+    removeItem: ['itemId'],
+    moveItem: ['itemId', 'locationId'],
+    goToLocation: ['locationId'],
+    advanceTime: ['hours'],
+    setQuestStage: ['questId', 'stageId'],
+    setTrackedQuest: [],
+    addJournalEntry: ['entryId'],
+    startDialogue: ['dialogueId'],
+    startShop: ['characterId'],
+    endDialogue: [],
+    setCharacterLocation: ['characterId', 'locationId'],
+    clearCharacterLocation: ['characterId'],
+    addToParty: ['characterId'],
+    removeFromParty: ['characterId'],
+    setRelationship: ['characterId', 'value'],
+    addRelationship: ['characterId', 'value'],
+    setReputation: ['factionId', 'value'],
+    addReputation: ['factionId', 'value'],
+    setCharacterStat: ['characterId', 'stat', 'value'],
+    addCharacterStat: ['characterId', 'stat', 'value'],
+    setMapEnabled: ['enabled'],
+    playMusic: [],
+    playSound: ['sound'],
+    notify: ['message'],
+    playVideo: ['file'],
+    showInterlude: ['interludeId'],
+    roll: ['variable', 'min', 'max'],
+};
+
+function validateMaps(
+    registry: ContentRegistry,
+    fileMap: Map<string, string>
+): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const mapByLocation = new Map<string, string>();
+
+    for (const map of Object.values(registry.maps)) {
+        const file = fileFor(fileMap, 'maps', map.id);
+        // A missing locations list is reported by the shape check.
+        for (const marker of Array.isArray(map.locations)
+            ? map.locations
+            : []) {
+            const location = registry.locations[marker.id];
+            if (!location) {
+                errors.push({
+                    file,
+                    message: `Map "${map.id}" references non-existent location "${marker.id}"`,
+                    suggestion: `Create location "${marker.id}" or remove it from the map`,
+                });
+                continue;
+            }
+
+            const existingMapId = mapByLocation.get(marker.id);
+            if (existingMapId === map.id) {
+                errors.push({
+                    file,
+                    message: `Map "${map.id}" includes location "${marker.id}" more than once`,
+                    suggestion: `Remove the duplicate marker for "${marker.id}"`,
+                });
+            } else if (existingMapId) {
+                errors.push({
+                    file,
+                    message: `Location "${marker.id}" appears on multiple maps: ${existingMapId}, ${map.id}`,
+                    suggestion: `Keep each location on one map so the engine can choose which map to show`,
+                });
+            } else {
+                mapByLocation.set(marker.id, map.id);
+            }
+        }
+    }
+
+    return errors;
+}
+
+/**
+ * Number arguments must be real, usable numbers. A typo like
+ * "ADD variable gold nope" parses to NaN, and NaN would quietly poison the
+ * variable it lands in, so it is caught here.
+ */
+function validateNumberArgs(
+    entity: any,
+    args: { name: string; kind: string }[],
+    site: string,
+    label: string,
+    file: string,
+    errors: ValidationError[]
+): void {
+    for (const arg of args) {
+        const value = entity[arg.name];
+        if (value === undefined || value === null || value === '') continue;
+        // Expressions are checked by validateExpressionArgs.
+        if (isValueExpression(value)) continue;
+        const mustBeNumber =
+            arg.kind === 'number' ||
+            arg.kind === 'hours' ||
+            arg.kind === 'expression';
+        const isBadNumber =
+            typeof value === 'number' && !Number.isFinite(value);
+        if (isBadNumber || (mustBeNumber && typeof value !== 'number')) {
+            errors.push({
+                file,
+                message: `${site} ${label} "${entity.type}" argument "${arg.name}" is not a usable number`,
+                suggestion: `Give "${arg.name}" a plain number, like 5`,
+            });
         }
-    } else if (
-        condition.type === 'questStatus' &&
-        hasValue(condition.questId) &&
-        !registry.quests[condition.questId]
-    ) {
-        missing(
-            `condition "questStatus" references non-existent quest "${condition.questId}"`,
-            `Create quest "${condition.questId}" or update the condition`
-        );
     }
 }
 
-function validateEffectReferences(
-    effect: any,
+/**
+ * Expression values must parse. The .dlg parser already rejects a bad
+ * expression, so this catches the ones written straight into YAML.
+ */
+function validateExpressionArgs(
+    entity: any,
+    args: { name: string; kind: string }[],
     site: string,
+    label: string,
     file: string,
-    registry: ContentRegistry,
     errors: ValidationError[]
-) {
-    const missing = (message: string, suggestion: string) =>
-        errors.push({ file, message: `${site} ${message}`, suggestion });
+): void {
+    for (const arg of args) {
+        const value = entity[arg.name];
+        if (!isValueExpression(value)) continue;
+        try {
+            parseExpression(value.expression);
+        } catch (error) {
+            errors.push({
+                file,
+                message: `${site} ${label} "${entity.type}" argument "${arg.name}" has an invalid expression: ${error instanceof Error ? error.message : String(error)}`,
+                suggestion:
+                    'Use numbers, {variables}, stat(), relationship(), dice like 2d6, and + - * / %',
+            });
+        }
+    }
+}
+
+/**
+ * The roll formula requires ordered whole-number bounds.
+ * Without this check, fractional bounds can produce a value above max and a
+ * reversed range produces results unrelated to the authored range.
+ */
+function validateRollBounds(
+    entity: any,
+    site: string,
+    label: string,
+    file: string,
+    errors: ValidationError[]
+): void {
+    if (entity.type !== 'roll') return;
 
+    const { min, max } = entity;
     if (
-        effect.type === 'goToLocation' &&
-        hasValue(effect.locationId) &&
-        !registry.locations[effect.locationId]
-    ) {
-        missing(
-            `effect "goToLocation" references non-existent location "${effect.locationId}"`,
-            `Create location "${effect.locationId}" or update the effect`
-        );
-    } else if (
-        (effect.type === 'addItem' || effect.type === 'removeItem') &&
-        hasValue(effect.itemId) &&
-        !registry.items[effect.itemId]
-    ) {
-        missing(
-            `effect "${effect.type}" references non-existent item "${effect.itemId}"`,
-            `Create item "${effect.itemId}" or update the effect`
-        );
-    } else if (
-        effect.type === 'moveItem' &&
-        hasValue(effect.itemId) &&
-        !registry.items[effect.itemId]
-    ) {
-        missing(
-            `effect "moveItem" references non-existent item "${effect.itemId}"`,
-            `Create item "${effect.itemId}" or update the effect`
-        );
-    } else if (
-        effect.type === 'moveItem' &&
-        hasValue(effect.locationId) &&
-        effect.locationId !== 'inventory' &&
-        !registry.locations[effect.locationId] &&
-        !registry.characters[effect.locationId]
-    ) {
-        missing(
-            `effect "moveItem" references non-existent location or character "${effect.locationId}"`,
-            `Use "inventory", an existing location ID, or an existing character ID`
-        );
-    } else if (
-        effect.type === 'setQuestStage' &&
-        hasValue(effect.questId) &&
-        !registry.quests[effect.questId]
-    ) {
-        missing(
-            `effect "setQuestStage" references non-existent quest "${effect.questId}"`,
-            `Create quest "${effect.questId}" or update the effect`
-        );
-    } else if (
-        effect.type === 'setQuestStage' &&
-        hasValue(effect.questId) &&
-        hasValue(effect.stageId)
+        typeof min !== 'number' ||
+        !Number.isFinite(min) ||
+        typeof max !== 'number' ||
+        !Number.isFinite(max)
     ) {
-        const quest = registry.quests[effect.questId];
-        const stages = Array.isArray(quest.stages) ? quest.stages : [];
-        if (!stages.some((stage) => stage.id === effect.stageId)) {
-            missing(
-                `effect "setQuestStage" references non-existent quest stage "${effect.questId}.${effect.stageId}"`,
-                `Add stage "${effect.stageId}" to quest "${effect.questId}" or update the effect`
-            );
+        return;
+    }
+
+    for (const [field, value] of [
+        ['min', min],
+        ['max', max],
+    ] as const) {
+        if (!Number.isInteger(value)) {
+            errors.push({
+                file,
+                message: `${site} ${label} "roll" argument "${field}" must be a whole number`,
+                suggestion: `Give "${field}" a whole number, like 1 or 20`,
+            });
         }
-    } else if (
-        effect.type === 'setTrackedQuest' &&
-        hasValue(effect.questId) &&
-        !registry.quests[effect.questId]
-    ) {
-        missing(
-            `effect "setTrackedQuest" references non-existent quest "${effect.questId}"`,
-            `Create quest "${effect.questId}" or update the effect`
-        );
-    } else if (
-        effect.type === 'addJournalEntry' &&
-        hasValue(effect.entryId) &&
-        !registry.journalEntries[effect.entryId]
-    ) {
-        missing(
-            `effect "addJournalEntry" references non-existent journal entry "${effect.entryId}"`,
-            `Create journal entry "${effect.entryId}" or update the effect`
-        );
-    } else if (
-        effect.type === 'startDialogue' &&
-        hasValue(effect.dialogueId) &&
-        !registry.dialogues[effect.dialogueId]
-    ) {
-        missing(
-            `effect "startDialogue" references non-existent dialogue "${effect.dialogueId}"`,
-            `Create dialogue "${effect.dialogueId}" or update the effect`
-        );
-    } else if (
-        effect.type === 'showInterlude' &&
-        hasValue(effect.interludeId) &&
-        !registry.interludes[effect.interludeId]
-    ) {
-        missing(
-            `effect "showInterlude" references non-existent interlude "${effect.interludeId}"`,
-            `Create interlude "${effect.interludeId}" or update the effect`
-        );
-    } else if (
-        (effect.type === 'setCharacterLocation' ||
-            effect.type === 'addToParty' ||
-            effect.type === 'removeFromParty' ||
-            effect.type === 'setRelationship' ||
-            effect.type === 'addRelationship') &&
-        hasValue(effect.characterId) &&
-        !registry.characters[effect.characterId]
-    ) {
-        missing(
-            `effect "${effect.type}" references non-existent character "${effect.characterId}"`,
-            `Create character "${effect.characterId}" or update the effect`
-        );
-    } else if (
-        (effect.type === 'setCharacterStat' ||
-            effect.type === 'addCharacterStat') &&
-        hasValue(effect.characterId) &&
-        effect.characterId !== 'player' &&
-        !registry.characters[effect.characterId]
-    ) {
-        missing(
-            `effect "${effect.type}" references non-existent character "${effect.characterId}"`,
-            `Use "player", create character "${effect.characterId}", or update the effect`
-        );
-    } else if (
-        effect.type === 'setCharacterLocation' &&
-        hasValue(effect.locationId) &&
-        !registry.locations[effect.locationId]
-    ) {
-        missing(
-            `effect "setCharacterLocation" references non-existent location "${effect.locationId}"`,
-            `Create location "${effect.locationId}" or update the effect`
-        );
+    }
+
+    if (min > max) {
+        errors.push({
+            file,
+            message: `${site} ${label} "roll" minimum must be less than or equal to its maximum`,
+            suggestion: 'Put the lower roll bound before the upper bound',
+        });
     }
 }
 
 /**
- * Validate a single dialogue.
- *
- * Checks:
- * - startNode exists
- * - No duplicate node IDs
- * - GOTO targets exist
- * - Conditions have required arguments
- * - Effects have required arguments
+ * Item counts are whole numbers of at least one. A count of zero would make
+ * `hasItem` always pass and `ADD item` add nothing, and a fraction would leave
+ * a stack that can never be emptied one at a time.
+ */
+function validateItemCount(
+    entity: any,
+    site: string,
+    label: string,
+    file: string,
+    errors: ValidationError[]
+): void {
+    if (
+        entity.type !== 'hasItem' &&
+        entity.type !== 'addItem' &&
+        entity.type !== 'removeItem'
+    ) {
+        return;
+    }
+
+    const { count } = entity;
+    if (typeof count !== 'number' || !Number.isFinite(count)) return;
+    if (!Number.isInteger(count) || count < 1) {
+        errors.push({
+            file,
+            message: `${site} ${label} "${entity.type}" argument "count" must be a whole number of 1 or more`,
+            suggestion: 'Give "count" a whole number, like 1 or 3',
+        });
+    }
+}
+
+const IDENTIFIER_ARGUMENT_KINDS = new Set([
+    'flag',
+    'variable',
+    'stat',
+    'itemId',
+    'characterId',
+    'locationId',
+    'questId',
+    'stageId',
+    'journalId',
+    'dialogueId',
+    'interludeId',
+    'factionId',
+    'weekday',
+    'season',
+]);
+
+function validateIdentifierArgs(
+    entity: any,
+    args: ArgDescriptor[],
+    site: string,
+    label: string,
+    file: string,
+    errors: ValidationError[]
+): void {
+    for (const arg of args) {
+        if (!IDENTIFIER_ARGUMENT_KINDS.has(arg.kind)) continue;
+        const value = entity[arg.name];
+        if (value === undefined || value === null || value === '') continue;
+        if (isValidIdentifier(value)) continue;
+        errors.push({
+            file,
+            message: `${site} ${label} "${entity.type}" argument "${arg.name}" must use only letters, numbers, and underscores`,
+            suggestion:
+                'Replace spaces, dashes, and punctuation with underscores',
+        });
+    }
+}
+
+/**
+ * Validate a condition has required arguments with usable values.
  */
-function validateDialogue(dialogue: Dialogue, file: string): ValidationError[] {
+function validateCondition(
+    condition: any,
+    site: string,
+    file: string
+): ValidationError[] {
     const errors: ValidationError[] = [];
-    const nodeIds = new Set<string>();
 
-    // Check for duplicate node IDs
-    for (const node of dialogue.nodes) {
-        if (nodeIds.has(node.id)) {
+    if (!condition.type) {
+        errors.push({
+            file,
+            message: `${site} has condition with missing type`,
+        });
+        return errors;
+    }
+
+    // Groups hold other conditions, each validated the same way.
+    if (condition.type === 'anyOf' || condition.type === 'allOf') {
+        if (
+            !Array.isArray(condition.conditions) ||
+            condition.conditions.length === 0
+        ) {
             errors.push({
                 file,
-                message: `Duplicate node ID "${node.id}"`,
-                suggestion: 'Node IDs must be unique within a dialogue',
+                message: `${site} condition "${condition.type}" needs at least one condition`,
+                suggestion: `List conditions in parentheses, like ${condition.type} (hasItem rusty_key) (hasFlag pickedLock)`,
             });
+            return errors;
         }
-        nodeIds.add(node.id);
+        for (const part of condition.conditions) {
+            errors.push(...validateCondition(part, site, file));
+        }
+        return errors;
     }
-
-    // Check startNode exists
-    if (!nodeIds.has(dialogue.startNode)) {
-        errors.push({
-            file,
-            message: `Start node "${dialogue.startNode}" not found`,
-            suggestion: `Add a NODE ${dialogue.startNode} or fix the startNode reference`,
-        });
+    if (condition.type === 'not') {
+        if (!condition.condition || typeof condition.condition !== 'object') {
+            errors.push({
+                file,
+                message: `${site} condition "not" missing required "condition" argument`,
+                suggestion:
+                    'Wrap one condition in parentheses, like not (hasItem lantern)',
+            });
+            return errors;
+        }
+        return validateCondition(condition.condition, site, file);
     }
 
-    // Top-level REQUIRE conditions need their arguments like any other
-    for (const condition of dialogue.conditions ?? []) {
-        errors.push(
-            ...validateCondition(
+    // Special case: timeIs requires startHour and endHour
+    if (condition.type === 'timeIs') {
+        if (
+            condition.startHour === undefined ||
+            condition.endHour === undefined
+        ) {
+            errors.push({
+                file,
+                message: `${site} condition "timeIs" missing required "startHour" or "endHour" argument`,
+            });
+        } else {
+            validateNumberArgs(
                 condition,
-                `Dialogue "${dialogue.id}" REQUIRE`,
-                file
-            )
-        );
+                conditionDescriptor('timeIs').args,
+                site,
+                'condition',
+                file,
+                errors
+            );
+            for (const field of ['startHour', 'endHour'] as const) {
+                const value = condition[field];
+                if (
+                    typeof value === 'number' &&
+                    Number.isFinite(value) &&
+                    (value < 0 || value > 23)
+                ) {
+                    errors.push({
+                        file,
+                        message: `${site} condition "timeIs" argument "${field}" must be between 0 and 23`,
+                        suggestion: `Give "${field}" an hour from 0 through 23`,
+                    });
+                }
+            }
+        }
+        return errors;
     }
 
-    // Validate each node
-    for (const node of dialogue.nodes) {
-        errors.push(...validateDialogueNode(node, nodeIds, file));
+    // Check required fields for this condition type
+    const requiredFields = CONDITION_FIELDS[condition.type];
+    if (!requiredFields) {
+        // Unknown condition type - no required fields to check here
+        return errors;
+    }
+
+    for (const field of requiredFields) {
+        if (
+            condition[field] === undefined ||
+            condition[field] === null ||
+            condition[field] === ''
+        ) {
+            errors.push({
+                file,
+                message: `${site} condition "${condition.type}" missing required "${field}" argument`,
+            });
+        }
+    }
+
+    validateNumberArgs(
+        condition,
+        conditionDescriptor(condition.type).args,
+        site,
+        'condition',
+        file,
+        errors
+    );
+    validateExpressionArgs(
+        condition,
+        conditionDescriptor(condition.type).args,
+        site,
+        'condition',
+        file,
+        errors
+    );
+    validateRollBounds(condition, site, 'condition', file, errors);
+    validateItemCount(condition, site, 'condition', file, errors);
+    if (
+        condition.type === 'variable' &&
+        hasValue(condition.operator) &&
+        !COMPARISON_OPERATORS.includes(condition.operator)
+    ) {
+        errors.push({
+            file,
+            message: `${site} condition "variable" has unknown comparison "${condition.operator}"`,
+            suggestion: `Use one of ${COMPARISON_OPERATORS.join(', ')}`,
+        });
     }
+    validateIdentifierArgs(
+        condition,
+        conditionDescriptor(condition.type).args,
+        site,
+        'condition',
+        file,
+        errors
+    );
 
     return errors;
 }
 
 /**
- * Validate a single dialogue node.
+ * Validate an effect has required arguments with usable values.
  */
-function validateDialogueNode(
-    node: DialogueNode,
-    validNodeIds: Set<string>,
+function validateEffect(
+    effect: any,
+    site: string,
     file: string
 ): ValidationError[] {
     const errors: ValidationError[] = [];
-    const site = `Node "${node.id}"`;
 
-    // Validate node.next
-    if (node.next && !validNodeIds.has(node.next)) {
+    if (!effect.type) {
         errors.push({
             file,
-            message: `Node "${node.id}" GOTO "${node.next}" points to non-existent node`,
-            suggestion: `Add NODE ${node.next} or fix the GOTO target`,
+            message: `${site} has effect with missing type`,
         });
+        return errors;
     }
 
-    // Validate IF branches
-    if (node.conditionalBranches) {
-        for (const branch of node.conditionalBranches) {
-            if (branch.next && !validNodeIds.has(branch.next)) {
-                errors.push({
+    // Check required fields for this effect type
+    const requiredFields = EFFECT_FIELDS[effect.type];
+    if (!requiredFields) {
+        // Unknown effect type - no required fields to check here
+        return errors;
+    }
+
+    for (const field of requiredFields) {
+        if (
+            effect[field] === undefined ||
+            effect[field] === null ||
+            effect[field] === ''
+        ) {
+            errors.push({
+                file,
+                message: `${site} effect "${effect.type}" missing required "${field}" argument`,
+            });
+        }
+    }
+
+    validateNumberArgs(
+        effect,
+        effectDescriptor(effect.type).args,
+        site,
+        'effect',
+        file,
+        errors
+    );
+    validateExpressionArgs(
+        effect,
+        effectDescriptor(effect.type).args,
+        site,
+        'effect',
+        file,
+        errors
+    );
+    validateRollBounds(effect, site, 'effect', file, errors);
+    validateItemCount(effect, site, 'effect', file, errors);
+    validateIdentifierArgs(
+        effect,
+        effectDescriptor(effect.type).args,
+        site,
+        'effect',
+        file,
+        errors
+    );
+
+    return errors;
+}
+
+/** The conditions and effects authored at one place, for whole-project passes. */
+interface RuleSite {
+    site: string;
+    file: string;
+    conditions: Condition[];
+    effects: Effect[];
+}
+
+/** Every place content writes conditions or effects, with groups flattened. */
+function ruleSites(
+    registry: ContentRegistry,
+    fileMap: Map<string, string>
+): RuleSite[] {
+    const sites: RuleSite[] = [];
+    const flatten = (conditions: Condition[] = []): Condition[] =>
+        conditions.flatMap((condition) =>
+            condition.type === 'anyOf' || condition.type === 'allOf'
+                ? flatten(
+                      Array.isArray(condition.conditions)
+                          ? condition.conditions
+                          : []
+                  )
+                : condition.type === 'not'
+                  ? flatten(condition.condition ? [condition.condition] : [])
+                  : [condition]
+        );
+
+    for (const dialogue of Object.values(registry.dialogues)) {
+        const file = fileFor(fileMap, 'dialogues', dialogue.id);
+        sites.push({
+            site: `Dialogue "${dialogue.id}" REQUIRE`,
+            file,
+            conditions: flatten(dialogue.conditions),
+            effects: [],
+        });
+        for (const node of dialogue.nodes) {
+            const site = `Node "${node.id}"`;
+            sites.push({
+                site,
+                file,
+                conditions: flatten(node.conditions),
+                effects: node.effects ?? [],
+            });
+            for (const branch of node.conditionalBranches ?? []) {
+                sites.push({
+                    site,
                     file,
-                    message: `Node "${node.id}" IF block GOTO "${branch.next}" points to non-existent node`,
-                    suggestion: `Add NODE ${branch.next} or fix the GOTO target`,
+                    conditions: flatten([branch.condition]),
+                    effects: branch.effects ?? [],
+                });
+            }
+            for (const choice of node.choices) {
+                sites.push({
+                    site,
+                    file,
+                    conditions: flatten(choice.conditions),
+                    effects: choice.effects ?? [],
                 });
             }
+        }
+    }
 
-            // Validate condition
-            errors.push(...validateCondition(branch.condition, site, file));
+    for (const interlude of Object.values(registry.interludes)) {
+        const file = fileFor(fileMap, 'interludes', interlude.id);
+        const site = `Interlude "${interlude.id}"`;
+        sites.push({
+            site: `${site} trigger`,
+            file,
+            conditions: flatten(interlude.triggerConditions),
+            effects: [],
+        });
+        sites.push({
+            site,
+            file,
+            conditions: [],
+            effects: interlude.effects ?? [],
+        });
+    }
 
-            // Validate branch effects
-            if (branch.effects) {
-                for (const effect of branch.effects) {
-                    errors.push(...validateEffect(effect, site, file));
-                }
-            }
+    for (const character of Object.values(registry.characters)) {
+        const file = fileFor(fileMap, 'characters', character.id);
+        for (const entry of scheduleEntries(character)) {
+            sites.push({
+                site: `Character "${character.id}" schedule`,
+                file,
+                conditions: flatten(entry.conditions),
+                effects: [],
+            });
         }
     }
 
-    // Choice IDs must be unique within a node (the engine and snapshot resolve
-    // a selected choice by first match, so a duplicate ID would shadow another).
-    const choiceIds = new Set<string>();
-    for (const choice of node.choices) {
-        if (choiceIds.has(choice.id)) {
-            errors.push({
+    for (const item of Object.values(registry.items)) {
+        const file = fileFor(fileMap, 'items', item.id);
+        for (const use of itemUses(item)) {
+            sites.push({
+                site: `Item "${item.id}" use "${use.id}"`,
                 file,
-                message: `Node "${node.id}" has duplicate choice ID "${choice.id}"`,
-                suggestion: 'Choice IDs must be unique within a node',
+                conditions: flatten(use.conditions),
+                effects: use.effects ?? [],
             });
         }
-        choiceIds.add(choice.id);
     }
 
-    // Validate choice targets
-    for (const choice of node.choices) {
-        const endsDialogue = choice.effects?.some(
-            (e: any) =>
-                e.type === 'endDialogue' ||
-                e.type === 'goToLocation' ||
-                e.type === 'startDialogue'
-        );
-        if (!endsDialogue && choice.next && !validNodeIds.has(choice.next)) {
-            errors.push({
+    for (const location of Object.values(registry.locations)) {
+        const file = fileFor(fileMap, 'locations', location.id);
+        for (const exit of locationExits(location)) {
+            sites.push({
+                site: `Location "${location.id}" exit "${exit.id}"`,
                 file,
-                message: `Node "${node.id}" choice "${choice.id}" GOTO "${choice.next}" points to non-existent node`,
-                suggestion: `Add NODE ${choice.next} or fix the GOTO target`,
+                conditions: flatten(exit.conditions),
+                effects: exit.effects ?? [],
             });
         }
-
-        // Validate choice conditions
-        if (choice.conditions) {
-            for (const condition of choice.conditions) {
-                errors.push(...validateCondition(condition, site, file));
-            }
+        for (const { site, conditions, effects } of locationRules(location)) {
+            sites.push({
+                site,
+                file,
+                conditions: flatten(conditions),
+                effects,
+            });
         }
+    }
 
-        // Validate choice effects
-        if (choice.effects) {
-            for (const effect of choice.effects) {
-                errors.push(...validateEffect(effect, site, file));
+    for (const event of Object.values(registry.events ?? {})) {
+        sites.push({
+            site: `Event "${event.id}"`,
+            file: fileFor(fileMap, 'events', event.id),
+            conditions: flatten(event.conditions),
+            effects: event.effects ?? [],
+        });
+    }
+
+    return sites;
+}
+
+/**
+ * Type-check arithmetic expressions against the whole project. A variable
+ * an expression reads must hold a number somewhere: a start value, SET or ADD
+ * variable, or a roll. One that only ever holds text, or is never set, reads
+ * as 0 at runtime, which is almost always a typo. Characters named in stat()
+ * and relationship() must exist.
+ */
+function validateExpressions(
+    registry: ContentRegistry,
+    fileMap: Map<string, string>,
+    config?: GameConfig
+): ValidationError[] {
+    const errors: ValidationError[] = [];
+    const sites = ruleSites(registry, fileMap);
+
+    const numeric = new Set<string>();
+    const text = new Set<string>();
+    const note = (variable: string, value: unknown) =>
+        (typeof value === 'string' ? text : numeric).add(variable);
+    for (const [variable, value] of Object.entries(
+        config?.startVariables ?? {}
+    )) {
+        note(variable, value);
+    }
+    for (const { effects } of sites) {
+        for (const effect of effects) {
+            if (effect.type === 'setVariable') {
+                note(effect.variable, effect.value);
+            } else if (
+                effect.type === 'addVariable' ||
+                effect.type === 'roll'
+            ) {
+                numeric.add(effect.variable);
             }
         }
     }
-
-    // Validate node conditions
-    if (node.conditions) {
-        for (const condition of node.conditions) {
-            errors.push(...validateCondition(condition, site, file));
+    // Buying and selling add to and take from each shop's currency.
+    for (const character of Object.values(registry.characters)) {
+        if (character.shop && typeof character.shop === 'object') {
+            numeric.add(shopCurrency(character.shop));
         }
     }
+    // A declared number variable reads as its default (or 0) until set.
+    for (const [variable, declaration] of Object.entries(
+        registry.variableSchema?.variables ?? {}
+    )) {
+        if (declaration?.type === 'number') numeric.add(variable);
+    }
 
-    // Validate node effects
-    if (node.effects) {
-        for (const effect of node.effects) {
-            errors.push(...validateEffect(effect, site, file));
+    for (const { site, file, conditions, effects } of sites) {
+        const entries = [
+            ...conditions.map((entity) => ({ entity, label: 'condition' })),
+            ...effects.map((entity) => ({ entity, label: 'effect' })),
+        ];
+        for (const { entity, label } of entries) {
+            for (const value of Object.values(entity)) {
+                if (!isValueExpression(value)) continue;
+                let references;
+                try {
+                    references = expressionReferences(value);
+                } catch {
+                    continue; // Reported by the shape check.
+                }
+                const where = `${site} ${label} "${entity.type}" expression "${value.expression}"`;
+
+                for (const variable of references.variables) {
+                    if (numeric.has(variable)) continue;
+                    if (text.has(variable)) {
+                        errors.push({
+                            file,
+                            message: `${where} does arithmetic on variable "${variable}", which only ever holds text`,
+                            suggestion: `Give "${variable}" a number, or compare its text with variableEquals`,
+                        });
+                    } else if (config) {
+                        // Without the game config, start values are unknown.
+                        errors.push({
+                            file,
+                            message: `${where} reads variable "${variable}", which is never set`,
+                            suggestion: `Give "${variable}" a start value in game.yaml, set it with SET variable, or fix the name`,
+                        });
+                    }
+                }
+
+                for (const characterId of references.characters) {
+                    if (
+                        characterId === 'player' ||
+                        registry.characters[characterId]
+                    ) {
+                        continue;
+                    }
+                    errors.push({
+                        file,
+                        message: `${where} references non-existent character "${characterId}"`,
+                        suggestion: `Use "player", create character "${characterId}", or update the expression`,
+                    });
+                }
+            }
         }
     }
 
     return errors;
 }
 
-// Required field mappings for conditions
-const CONDITION_FIELDS: Record<string, string[]> = {
-    hasFlag: ['flag'],
-    notFlag: ['flag'],
-    hasItem: ['itemId'],
-    variableEquals: ['variable', 'value'],
-    variableGreaterThan: ['variable', 'value'],
-    variableLessThan: ['variable', 'value'],
-    questAtStage: ['questId', 'stageId'],
-    questStatus: ['questId', 'status'],
-    atLocation: ['locationId'],
-    characterAt: ['characterId', 'locationId'],
-    characterInParty: ['characterId'],
-    characterStatEquals: ['characterId', 'stat', 'value'],
-    characterStatGreaterThan: ['characterId', 'stat', 'value'],
-    characterStatLessThan: ['characterId', 'stat', 'value'],
-    relationshipAbove: ['characterId', 'value'],
-    relationshipBelow: ['characterId', 'value'],
-    itemAt: ['itemId', 'locationId'],
-    roll: ['min', 'max', 'threshold'],
-};
-
-// Required field mappings for effects
-const EFFECT_FIELDS: Record<string, string[]> = {
-    setFlag: ['flag'],
-    clearFlag: ['flag'],
-    setVariable: ['variable', 'value'],
-    addVariable: ['variable', 'value'],
-    addItem: ['itemId'],
-    removeItem: ['itemId'],
-    moveItem: ['itemId', 'locationId'],
-    goToLocation: ['locationId'],
-    advanceTime: ['hours'],
-    setQuestStage: ['questId', 'stageId'],
-    setTrackedQuest: [],
-    addJournalEntry: ['entryId'],
-    startDialogue: ['dialogueId'],
-    endDialogue: [],
-    setCharacterLocation: ['characterId', 'locationId'],
-    addToParty: ['characterId'],
-    removeFromParty: ['characterId'],
-    setRelationship: ['characterId', 'value'],
-    addRelationship: ['characterId', 'value'],
-    setCharacterStat: ['characterId', 'stat', 'value'],
-    addCharacterStat: ['characterId', 'stat', 'value'],
-    setMapEnabled: ['enabled'],
-    playMusic: [],
-    playSound: ['sound'],
-    notify: ['message'],
-    playVideo: ['file'],
-    showInterlude: ['interludeId'],
-    roll: ['variable', 'min', 'max'],
-};
-
-function validateMaps(
-    registry: ContentRegistry,
-    fileMap: Map<string, string>
+/**
+ * Check the declarations in content/variables.yaml, when a project has one.
+ * Each flag may give a true/false default. Each variable needs a type, and
+ * its default, min, max, and values must suit that type.
+ */
+function validateVariableDeclarations(
+    schema: VariableSchema,
+    file: string
 ): ValidationError[] {
     const errors: ValidationError[] = [];
-    const mapByLocation = new Map<string, string>();
+    const isMap = (value: unknown) =>
+        typeof value === 'object' && value !== null && !Array.isArray(value);
 
-    for (const map of Object.values(registry.maps)) {
-        const file = fileFor(fileMap, 'maps', map.id);
-        // A missing locations list is reported by the shape check.
-        for (const marker of Array.isArray(map.locations)
-            ? map.locations
-            : []) {
-            const location = registry.locations[marker.id];
-            if (!location) {
-                errors.push({
-                    file,
-                    message: `Map "${map.id}" references non-existent location "${marker.id}"`,
-                    suggestion: `Create location "${marker.id}" or remove it from the map`,
-                });
-                continue;
-            }
+    for (const section of ['flags', 'variables'] as const) {
+        if (!isMap(schema[section])) {
+            errors.push({
+                file,
+                message: `variables.yaml "${section}" must be a map of names to declarations`,
+                suggestion: `List each name under "${section}:" with its fields indented beneath it`,
+            });
+        }
+    }
+    if (errors.length > 0) return errors;
 
-            const existingMapId = mapByLocation.get(marker.id);
-            if (existingMapId === map.id) {
+    for (const [name, flag] of Object.entries(schema.flags)) {
+        const subject = `Declared flag "${name}"`;
+        if (!isValidIdentifier(name)) {
+            errors.push({
+                file,
+                message: `${subject} must use only letters, numbers, and underscores`,
+                suggestion:
+                    'Replace spaces, dashes, and punctuation with underscores',
+            });
+        }
+        if (!isMap(flag)) {
+            errors.push({
+                file,
+                message: `${subject} must be a map of fields`,
+                suggestion:
+                    'Write "{}" after the name to declare it with no fields',
+            });
+            continue;
+        }
+        if (flag.type !== undefined && flag.type !== 'bool') {
+            errors.push({
+                file,
+                message: `${subject} has type "${String(flag.type)}", but flags are always bool`,
+                suggestion: 'Remove the type, or move it under "variables:"',
+            });
+        }
+        if (flag.default !== undefined && typeof flag.default !== 'boolean') {
+            errors.push({
+                file,
+                message: `${subject} default must be true or false`,
+                suggestion: 'Set default to true or false',
+            });
+        }
+        if (
+            flag.description !== undefined &&
+            typeof flag.description !== 'string'
+        ) {
+            errors.push({
+                file,
+                message: `${subject} description must be text`,
+            });
+        }
+    }
+
+    for (const [name, variable] of Object.entries(schema.variables)) {
+        const subject = `Declared variable "${name}"`;
+        if (!isValidIdentifier(name)) {
+            errors.push({
+                file,
+                message: `${subject} must use only letters, numbers, and underscores`,
+                suggestion:
+                    'Replace spaces, dashes, and punctuation with underscores',
+            });
+        }
+        if (!isMap(variable)) {
+            errors.push({
+                file,
+                message: `${subject} must be a map of fields`,
+                suggestion: 'Give it at least a type, like "{ type: number }"',
+            });
+            continue;
+        }
+        const type: unknown = variable.type;
+        if (type === 'bool') {
+            errors.push({
+                file,
+                message: `${subject} has type "bool", but variables hold numbers or text`,
+                suggestion: `Declare "${name}" under "flags:" instead`,
+            });
+            continue;
+        }
+        if (type !== 'number' && type !== 'string' && type !== 'enum') {
+            errors.push({
+                file,
+                message: `${subject} has ${
+                    type === undefined
+                        ? 'no type'
+                        : `unknown type "${String(type)}"`
+                }`,
+                suggestion: 'Set type to number, string, or enum',
+            });
+            continue;
+        }
+
+        for (const bound of ['min', 'max'] as const) {
+            const value = variable[bound];
+            if (value === undefined) continue;
+            if (type !== 'number') {
                 errors.push({
                     file,
-                    message: `Map "${map.id}" includes location "${marker.id}" more than once`,
-                    suggestion: `Remove the duplicate marker for "${marker.id}"`,
+                    message: `${subject} has a ${bound}, but only number variables can be clamped`,
+                    suggestion: `Remove ${bound}, or make the type number`,
                 });
-            } else if (existingMapId) {
+            } else if (typeof value !== 'number' || !Number.isFinite(value)) {
                 errors.push({
                     file,
-                    message: `Location "${marker.id}" appears on multiple maps: ${existingMapId}, ${map.id}`,
-                    suggestion: `Keep each location on one map so the engine can choose which map to show`,
+                    message: `${subject} ${bound} must be a number`,
                 });
-            } else {
-                mapByLocation.set(marker.id, map.id);
             }
         }
-    }
-
-    return errors;
-}
-
-/**
- * Number arguments must be real, usable numbers. A typo like
- * "ADD variable gold nope" parses to NaN, and NaN would quietly poison the
- * variable it lands in, so it is caught here.
- */
-function validateNumberArgs(
-    entity: any,
-    args: { name: string; kind: string }[],
-    site: string,
-    label: string,
-    file: string,
-    errors: ValidationError[]
-): void {
-    for (const arg of args) {
-        const value = entity[arg.name];
-        if (value === undefined || value === null || value === '') continue;
-        const mustBeNumber = arg.kind === 'number' || arg.kind === 'hours';
-        const isBadNumber =
-            typeof value === 'number' && !Number.isFinite(value);
-        if (isBadNumber || (mustBeNumber && typeof value !== 'number')) {
+        if (
+            typeof variable.min === 'number' &&
+            typeof variable.max === 'number' &&
+            variable.min > variable.max
+        ) {
             errors.push({
                 file,
-                message: `${site} ${label} "${entity.type}" argument "${arg.name}" is not a usable number`,
-                suggestion: `Give "${arg.name}" a plain number, like 5`,
+                message: `${subject} min ${variable.min} is greater than its max ${variable.max}`,
+                suggestion: 'Swap min and max',
             });
         }
-    }
-}
-
-/**
- * The roll formula requires ordered whole-number bounds.
- * Without this check, fractional bounds can produce a value above max and a
- * reversed range produces results unrelated to the authored range.
- */
-function validateRollBounds(
-    entity: any,
-    site: string,
-    label: string,
-    file: string,
-    errors: ValidationError[]
-): void {
-    if (entity.type !== 'roll') return;
 
-    const { min, max } = entity;
-    if (
-        typeof min !== 'number' ||
-        !Number.isFinite(min) ||
-        typeof max !== 'number' ||
-        !Number.isFinite(max)
-    ) {
-        return;
-    }
+        if (type === 'enum') {
+            const values: unknown = variable.values;
+            if (
+                !Array.isArray(values) ||
+                values.length === 0 ||
+                values.some((value) => typeof value !== 'string')
+            ) {
+                errors.push({
+                    file,
+                    message: `${subject} is an enum but has no list of text values`,
+                    suggestion:
+                        'List the allowed values, like "values: [calm, angry]"',
+                });
+                continue;
+            }
+        } else if (variable.values !== undefined) {
+            errors.push({
+                file,
+                message: `${subject} has values, but only enum variables use them`,
+                suggestion: 'Remove values, or make the type enum',
+            });
+        }
 
-    for (const [field, value] of [
-        ['min', min],
-        ['max', max],
-    ] as const) {
-        if (!Number.isInteger(value)) {
+        if (variable.default !== undefined) {
+            if (!fitsVariableType(variable.default, variable)) {
+                errors.push({
+                    file,
+                    message: `${subject} default ${JSON.stringify(variable.default)} is not ${describeVariableType(variable)}`,
+                    suggestion: 'Change the default, or the type',
+                });
+            } else if (
+                clampVariable(variable.default, variable) !== variable.default
+            ) {
+                errors.push({
+                    file,
+                    message: `${subject} default ${variable.default} is outside its min and max`,
+                    suggestion: 'Change the default, or widen the range',
+                });
+            }
+        }
+        if (
+            variable.description !== undefined &&
+            typeof variable.description !== 'string'
+        ) {
             errors.push({
                 file,
-                message: `${site} ${label} "roll" argument "${field}" must be a whole number`,
-                suggestion: `Give "${field}" a whole number, like 1 or 20`,
+                message: `${subject} description must be text`,
             });
         }
     }
 
-    if (min > max) {
-        errors.push({
-            file,
-            message: `${site} ${label} "roll" minimum must be less than or equal to its maximum`,
-            suggestion: 'Put the lower roll bound before the upper bound',
-        });
-    }
+    return errors;
 }
 
-const IDENTIFIER_ARGUMENT_KINDS = new Set([
-    'flag',
-    'variable',
-    'stat',
-    'itemId',
-    'characterId',
-    'locationId',
-    'questId',
-    'stageId',
-    'journalId',
-    'dialogueId',
-    'interludeId',
-]);
-
-function validateIdentifierArgs(
-    entity: any,
-    args: ArgDescriptor[],
-    site: string,
-    label: string,
-    file: string,
-    errors: ValidationError[]
-): void {
-    for (const arg of args) {
-        if (!IDENTIFIER_ARGUMENT_KINDS.has(arg.kind)) continue;
-        const value = entity[arg.name];
-        if (value === undefined || value === null || value === '') continue;
-        if (isValidIdentifier(value)) continue;
-        errors.push({
-            file,
-            message: `${site} ${label} "${entity.type}" argument "${arg.name}" must use only letters, numbers, and underscores`,
-            suggestion:
-                'Replace spaces, dashes, and punctuation with underscores',
-        });
+/** What a declared variable holds, for messages: "a number", "one of calm, angry". */
+function describeVariableType(declaration: VariableDeclaration): string {
+    switch (declaration.type) {
+        case 'number':
+            return 'a number';
+        case 'enum':
+            return `one of ${(declaration.values ?? []).join(', ')}`;
+        default:
+            return 'text';
     }
 }
 
 /**
- * Validate a condition has required arguments with usable values.
+ * With a content/variables.yaml, every flag and variable content uses must be
+ * declared there, and used as its declared type: ADD, ROLL, comparisons, and
+ * shop money need a number variable; SET and variableEquals must use a value
+ * the declaration allows; start values in game.yaml must fit type and range.
+ * Projects without the file are not checked.
  */
-function validateCondition(
-    condition: any,
-    site: string,
-    file: string
+function validateVariableSchema(
+    registry: ContentRegistry,
+    fileMap: Map<string, string>,
+    config?: GameConfig
 ): ValidationError[] {
-    const errors: ValidationError[] = [];
-
-    if (!condition.type) {
+    const schema = registry.variableSchema;
+    if (!schema) return [];
+    const schemaFile = fileFor(fileMap, 'variableSchema', 'variables');
+    const errors = validateVariableDeclarations(schema, schemaFile);
+    if (errors.length > 0) return errors;
+
+    const reported = new Set<string>();
+    const undeclared = (
+        kind: 'flag' | 'variable',
+        name: unknown,
+        where: string,
+        file: string
+    ): boolean => {
+        if (typeof name !== 'string' || name === '') return true;
+        const declared =
+            kind === 'flag' ? schema.flags[name] : schema.variables[name];
+        if (declared) return false;
+        const key = `${file}\0${kind}\0${name}`;
+        if (!reported.has(key)) {
+            reported.add(key);
+            errors.push({
+                file,
+                message: `${where} uses ${kind} "${name}", which is not declared in variables.yaml`,
+                suggestion: `Declare "${name}" under "${kind}s:" in variables.yaml, or fix the name`,
+            });
+        }
+        return true;
+    };
+    const mistyped = (
+        name: string,
+        where: string,
+        file: string,
+        problem: string
+    ) => {
+        const declaration = schema.variables[name];
         errors.push({
             file,
-            message: `${site} has condition with missing type`,
+            message: `${where} ${problem}, but variable "${name}" is declared as ${describeVariableType(declaration)}`,
+            suggestion: `Fix the value, or change the declaration of "${name}" in variables.yaml`,
         });
-        return errors;
+    };
+    const needsNumber = (
+        name: string,
+        where: string,
+        file: string,
+        problem: string
+    ) => {
+        if (undeclared('variable', name, where, file)) return;
+        if (schema.variables[name].type !== 'number') {
+            mistyped(name, where, file, problem);
+        }
+    };
+    const checkValue = (
+        name: string,
+        value: unknown,
+        where: string,
+        file: string,
+        verb: string
+    ) => {
+        if (undeclared('variable', name, where, file)) return;
+        const declaration = schema.variables[name];
+        if (isValueExpression(value)) {
+            if (declaration.type !== 'number') {
+                mistyped(name, where, file, `${verb} a number expression`);
+            }
+        } else if (!fitsVariableType(value, declaration)) {
+            mistyped(name, where, file, `${verb} ${JSON.stringify(value)}`);
+        }
+    };
+
+    for (const { site, file, conditions, effects } of ruleSites(
+        registry,
+        fileMap
+    )) {
+        for (const condition of conditions) {
+            const where = `${site} condition "${condition.type}"`;
+            switch (condition.type) {
+                case 'hasFlag':
+                case 'notFlag':
+                    undeclared('flag', condition.flag, where, file);
+                    break;
+                case 'variableEquals':
+                    checkValue(
+                        condition.variable,
+                        condition.value,
+                        where,
+                        file,
+                        'compares it with'
+                    );
+                    break;
+                case 'variableGreaterThan':
+                case 'variableLessThan':
+                case 'variable':
+                    needsNumber(
+                        condition.variable,
+                        where,
+                        file,
+                        'compares it as a number'
+                    );
+                    break;
+            }
+            for (const value of Object.values(condition)) {
+                checkExpressionVariables(value, where, file);
+            }
+        }
+        for (const effect of effects) {
+            const where = `${site} effect "${effect.type}"`;
+            switch (effect.type) {
+                case 'setFlag':
+                case 'clearFlag':
+                    undeclared('flag', effect.flag, where, file);
+                    break;
+                case 'setVariable':
+                    checkValue(
+                        effect.variable,
+                        effect.value,
+                        where,
+                        file,
+                        'sets it to'
+                    );
+                    break;
+                case 'addVariable':
+                    needsNumber(effect.variable, where, file, 'adds to it');
+                    break;
+                case 'roll':
+                    needsNumber(
+                        effect.variable,
+                        where,
+                        file,
+                        'rolls a number into it'
+                    );
+                    break;
+            }
+            for (const value of Object.values(effect)) {
+                checkExpressionVariables(value, where, file);
+            }
+        }
     }
 
-    // Special case: timeIs requires startHour and endHour
-    if (condition.type === 'timeIs') {
-        if (
-            condition.startHour === undefined ||
-            condition.endHour === undefined
-        ) {
-            errors.push({
-                file,
-                message: `${site} condition "timeIs" missing required "startHour" or "endHour" argument`,
-            });
-        } else {
-            validateNumberArgs(
-                condition,
-                conditionDescriptor('timeIs').args,
-                site,
-                'condition',
+    // Expressions read variables as numbers.
+    function checkExpressionVariables(
+        value: unknown,
+        where: string,
+        file: string
+    ) {
+        if (!isValueExpression(value)) return;
+        let references;
+        try {
+            references = expressionReferences(value);
+        } catch {
+            return; // Reported by the shape check.
+        }
+        for (const variable of references.variables) {
+            needsNumber(
+                variable,
+                `${where} expression "${value.expression}"`,
                 file,
-                errors
+                'reads it as a number'
             );
-            for (const field of ['startHour', 'endHour'] as const) {
-                const value = condition[field];
-                if (
-                    typeof value === 'number' &&
-                    Number.isFinite(value) &&
-                    (value < 0 || value > 23)
-                ) {
-                    errors.push({
-                        file,
-                        message: `${site} condition "timeIs" argument "${field}" must be between 0 and 23`,
-                        suggestion: `Give "${field}" an hour from 0 through 23`,
-                    });
-                }
-            }
         }
-        return errors;
     }
 
-    // Check required fields for this condition type
-    const requiredFields = CONDITION_FIELDS[condition.type];
-    if (!requiredFields) {
-        // Unknown condition type - no required fields to check here
-        return errors;
+    for (const event of Object.values(registry.events ?? {})) {
+        if (event.trigger?.type === 'afterFlag') {
+            undeclared(
+                'flag',
+                event.trigger.flag,
+                `Event "${event.id}" trigger`,
+                fileFor(fileMap, 'events', event.id)
+            );
+        }
     }
 
-    for (const field of requiredFields) {
-        if (
-            condition[field] === undefined ||
-            condition[field] === null ||
-            condition[field] === ''
-        ) {
-            errors.push({
-                file,
-                message: `${site} condition "${condition.type}" missing required "${field}" argument`,
-            });
+    for (const character of Object.values(registry.characters)) {
+        if (character.shop && typeof character.shop === 'object') {
+            needsNumber(
+                shopCurrency(character.shop),
+                `Character "${character.id}" shop`,
+                fileFor(fileMap, 'characters', character.id),
+                'keeps money in it'
+            );
         }
     }
 
-    validateNumberArgs(
-        condition,
-        conditionDescriptor(condition.type).args,
-        site,
-        'condition',
-        file,
-        errors
-    );
-    validateRollBounds(condition, site, 'condition', file, errors);
-    validateIdentifierArgs(
-        condition,
-        conditionDescriptor(condition.type).args,
-        site,
-        'condition',
-        file,
-        errors
-    );
+    if (config) {
+        for (const flag of Object.keys(config.startFlags ?? {})) {
+            undeclared(
+                'flag',
+                flag,
+                'Game config startFlags',
+                'content/game.yaml'
+            );
+        }
+        for (const [variable, value] of Object.entries(
+            config.startVariables ?? {}
+        )) {
+            const where = 'Game config startVariables';
+            checkValue(
+                variable,
+                value,
+                where,
+                'content/game.yaml',
+                'starts it at'
+            );
+            const declaration = schema.variables[variable];
+            if (
+                declaration &&
+                fitsVariableType(value, declaration) &&
+                clampVariable(value, declaration) !== value
+            ) {
+                errors.push({
+                    file: 'content/game.yaml',
+                    message: `${where} starts variable "${variable}" at ${value}, outside its declared min and max`,
+                    suggestion: `Change the start value, or widen the range of "${variable}" in variables.yaml`,
+                });
+            }
+        }
+    }
 
     return errors;
 }
 
 /**
- * Validate an effect has required arguments with usable values.
+ * Check the plural and select messages in locale files. Each message must
+ * parse, and a key must read the same arguments in every locale: a
+ * translation that reads {count} where English reads {gold} shows the raw
+ * placeholder in game. Locales are compared with English, or with the first
+ * locale by name when there is no English.
  */
-function validateEffect(
-    effect: any,
-    site: string,
-    file: string
+function validateLocaleMessages(
+    registry: ContentRegistry,
+    fileMap: Map<string, string>
 ): ValidationError[] {
     const errors: ValidationError[] = [];
-
-    if (!effect.type) {
-        errors.push({
-            file,
-            message: `${site} has effect with missing type`,
-        });
-        return errors;
-    }
-
-    // Check required fields for this effect type
-    const requiredFields = EFFECT_FIELDS[effect.type];
-    if (!requiredFields) {
-        // Unknown effect type - no required fields to check here
-        return errors;
+    const localeIds = Object.keys(registry.locales).sort();
+    const readsByLocale: Record<string, Map<string, string[]>> = {};
+
+    for (const localeId of localeIds) {
+        const file = fileFor(fileMap, 'locales', localeId);
+        readsByLocale[localeId] = new Map();
+        for (const [key, text] of Object.entries(
+            registry.locales[localeId] ?? {}
+        )) {
+            if (typeof text !== 'string') continue;
+            try {
+                readsByLocale[localeId].set(key, messageArguments(text));
+            } catch (error) {
+                errors.push({
+                    file,
+                    message: `Locale "${localeId}" key "${key}" has a broken message: ${
+                        error instanceof Error ? error.message : String(error)
+                    }`,
+                    suggestion:
+                        'Write blocks as {name, plural, one {...} other {...}} or {name, select, value {...} other {...}}',
+                });
+            }
+        }
     }
 
-    for (const field of requiredFields) {
-        if (
-            effect[field] === undefined ||
-            effect[field] === null ||
-            effect[field] === ''
-        ) {
+    const reference = localeIds.includes('en') ? 'en' : localeIds[0];
+    const listArguments = (names: string[]) =>
+        names.length > 0
+            ? names.map((name) => `{${name}}`).join(', ')
+            : 'no arguments';
+    for (const localeId of localeIds) {
+        if (localeId === reference) continue;
+        const file = fileFor(fileMap, 'locales', localeId);
+        for (const [key, names] of readsByLocale[localeId]) {
+            const expected = readsByLocale[reference].get(key);
+            if (!expected || expected.join() === names.join()) continue;
             errors.push({
                 file,
-                message: `${site} effect "${effect.type}" missing required "${field}" argument`,
+                message: `Locale "${localeId}" key "${key}" reads ${listArguments(names)}, but "${reference}" reads ${listArguments(expected)}`,
+                suggestion: `Use the same arguments as the "${reference}" text`,
             });
         }
     }
-
-    validateNumberArgs(
-        effect,
-        effectDescriptor(effect.type).args,
-        site,
-        'effect',
-        file,
-        errors
-    );
-    validateRollBounds(effect, site, 'effect', file, errors);
-    validateIdentifierArgs(
-        effect,
-        effectDescriptor(effect.type).args,
-        site,
-        'effect',
-        file,
-        errors
-    );
-
     return errors;
 }
 
@@ -1419,6 +3656,18 @@ function validateLocalizationKeys(
         if (isLocalizationKey(location.description)) {
             checkKey(location.description, location.id, 'locations');
         }
+        for (const exit of locationExits(location)) {
+            if (isLocalizationKey(exit.label)) {
+                checkKey(exit.label, location.id, 'locations');
+            }
+        }
+        for (const variant of Array.isArray(location.descriptions)
+            ? location.descriptions
+            : []) {
+            if (isLocalizationKey(variant?.text)) {
+                checkKey(variant.text, location.id, 'locations');
+            }
+        }
     }
 
     // Check characters
@@ -1444,6 +3693,49 @@ function validateLocalizationKeys(
                 checkKey(stat, character.id, 'characters');
             }
         }
+        for (const tier of Array.isArray(character.tiers)
+            ? character.tiers
+            : []) {
+            if (isLocalizationKey(tier?.name)) {
+                checkKey(tier.name, character.id, 'characters');
+            }
+        }
+    }
+
+    // Check the calendar in game.yaml
+    const calendar = registry.calendar;
+    for (const list of [
+        calendar?.weekdays,
+        calendar?.months,
+        calendar?.seasons,
+    ]) {
+        for (const entry of Array.isArray(list) ? list : []) {
+            if (
+                isLocalizationKey(entry?.name) &&
+                !allKeys.has(entry.name.slice(1))
+            ) {
+                errors.push({
+                    file: 'content/game.yaml',
+                    message: `Localization key "${entry.name}" not found in any locale file`,
+                    suggestion: `Add "${entry.name.slice(1)}: ..." to your locale files`,
+                });
+            }
+        }
+    }
+
+    // Check factions
+    for (const faction of Object.values(registry.factions ?? {})) {
+        if (isLocalizationKey(faction.name)) {
+            checkKey(faction.name, faction.id, 'factions');
+        }
+        if (isLocalizationKey(faction.description)) {
+            checkKey(faction.description, faction.id, 'factions');
+        }
+        for (const tier of Array.isArray(faction.tiers) ? faction.tiers : []) {
+            if (isLocalizationKey(tier?.name)) {
+                checkKey(tier.name, faction.id, 'factions');
+            }
+        }
     }
 
     const player = registry.player;
@@ -1475,6 +3767,11 @@ function validateLocalizationKeys(
         if (isLocalizationKey(item.description)) {
             checkKey(item.description, item.id, 'items');
         }
+        for (const use of itemUses(item)) {
+            if (isLocalizationKey(use.label)) {
+                checkKey(use.label, item.id, 'items');
+            }
+        }
     }
 
     // Check quests
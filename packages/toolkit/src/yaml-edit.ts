@@ -14,7 +14,7 @@
  * and never opened in Studio is unaffected.
  */
 
-import { parseDocument, type Document } from 'yaml';
+import { isMap, isScalar, parseDocument, stringify, type Document } from 'yaml';
 
 /** One field change from a form. `path` is the key chain, e.g. ["startTime","hour"]. */
 export interface YamlEdit {
@@ -51,6 +51,57 @@ export function applyYamlEdits(source: string, edits: YamlEdit[]): string {
     return doc.toString();
 }
 
+/**
+ * Replace existing string values without touching anything around them.
+ *
+ * applyYamlEdits reprints the whole document, which can re-wrap long strings
+ * the edits never mention. This instead splices each new value, double-quoted,
+ * over the characters of the old one, so every other byte stays as written.
+ * Each path must lead to an existing scalar; other paths are skipped.
+ */
+export function replaceYamlScalars(source: string, edits: YamlEdit[]): string {
+    const doc = parseDocument(source);
+    const splices: { start: number; end: number; text: string }[] = [];
+    for (const edit of edits) {
+        const node = doc.getIn(edit.path, true);
+        if (!isScalar(node) || !node.range) continue;
+        const [start, end] = node.range;
+        // A block scalar's range takes in the line breaks after it; keep them.
+        const breaks = /(\r?\n)*$/.exec(source.slice(start, end))?.[0] ?? '';
+        splices.push({ start, end, text: JSON.stringify(edit.value) + breaks });
+    }
+    splices.sort((a, b) => b.start - a.start);
+    let out = source;
+    for (const { start, end, text } of splices) {
+        out = out.slice(0, start) + text + out.slice(end);
+    }
+    return out;
+}
+
+/**
+ * Add new top-level keys after the last line of a file, leaving what is
+ * already there as written. A file whose top level is not a block map (a flow
+ * map, say) goes through applyYamlEdits instead.
+ */
+export function appendYamlEntries(
+    source: string,
+    entries: Record<string, unknown>
+): string {
+    if (Object.keys(entries).length === 0) return source;
+    const doc = parseDocument(source);
+    if (doc.contents !== null && !(isMap(doc.contents) && !doc.contents.flow)) {
+        return applyYamlEdits(
+            source,
+            Object.entries(entries).map(([key, value]) => ({
+                path: [key],
+                value,
+            }))
+        );
+    }
+    const separator = source === '' || source.endsWith('\n') ? '' : '\n';
+    return source + separator + stringify(entries, { lineWidth: 0 });
+}
+
 /**
  * Remove a key path, and clean up an emptied parent map/seq only if that parent
  * itself was one of the edited paths' ancestors we created. We keep it simple: